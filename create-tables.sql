@@ -19,8 +19,17 @@ CREATE TABLE IF NOT EXISTS trips (
   end_lon DOUBLE PRECISION,
   start_address TEXT,
   end_address TEXT,
+  start_geofence_id UUID,
+  end_geofence_id UUID,
   route_points JSONB NOT NULL DEFAULT '[]',
   stop_count INTEGER NOT NULL DEFAULT 0,
+  harsh_acceleration_count INTEGER NOT NULL DEFAULT 0,
+  harsh_braking_count INTEGER NOT NULL DEFAULT 0,
+  sharp_cornering_count INTEGER NOT NULL DEFAULT 0,
+  start_engine_hours DOUBLE PRECISION,
+  end_engine_hours DOUBLE PRECISION,
+  driver_id VARCHAR(255),
+  spent_fuel DOUBLE PRECISION,
   is_active BOOLEAN NOT NULL DEFAULT true,
   detection_method TEXT NOT NULL DEFAULT 'ignition',
   metadata JSONB,
@@ -32,6 +41,9 @@ CREATE INDEX IF NOT EXISTS idx_trips_start_time ON trips(start_time);
 CREATE INDEX IF NOT EXISTS idx_trips_id_activo ON trips(id_activo);
 CREATE INDEX IF NOT EXISTS idx_trips_is_active ON trips(is_active);
 CREATE INDEX IF NOT EXISTS idx_trips_id_activo_start_time ON trips(id_activo, start_time);
+CREATE INDEX IF NOT EXISTS idx_trips_start_geofence ON trips(start_geofence_id);
+CREATE INDEX IF NOT EXISTS idx_trips_end_geofence ON trips(end_geofence_id);
+CREATE INDEX IF NOT EXISTS idx_trips_driver_id ON trips(driver_id);
 
 -- Tabla stops
 CREATE TABLE IF NOT EXISTS stops (
@@ -44,7 +56,12 @@ CREATE TABLE IF NOT EXISTS stops (
   latitude DOUBLE PRECISION NOT NULL,
   longitude DOUBLE PRECISION NOT NULL,
   address TEXT,
+  geofence_id UUID,
+  place_id UUID,
   reason TEXT NOT NULL DEFAULT 'ignition_off',
+  start_engine_hours DOUBLE PRECISION,
+  end_engine_hours DOUBLE PRECISION,
+  driver_id VARCHAR(255),
   is_active BOOLEAN NOT NULL DEFAULT true,
   metadata JSONB,
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
@@ -60,6 +77,9 @@ CREATE INDEX IF NOT EXISTS idx_stops_id_activo_start_time ON stops(id_activo, st
 -- es end_time >= fromDate. Sin este índice se escanea todo el histórico del activo.
 CREATE INDEX IF NOT EXISTS idx_stops_id_activo_end_time ON stops(id_activo, end_time);
 CREATE INDEX IF NOT EXISTS idx_stops_trip_start ON stops(trip_id, start_time);
+CREATE INDEX IF NOT EXISTS idx_stops_geofence ON stops(geofence_id);
+CREATE INDEX IF NOT EXISTS idx_stops_driver_id ON stops(driver_id);
+CREATE INDEX IF NOT EXISTS idx_stops_place_id ON stops(place_id);
 
 -- Tabla tracker_state
 CREATE TABLE IF NOT EXISTS tracker_state (
@@ -68,6 +88,15 @@ CREATE TABLE IF NOT EXISTS tracker_state (
   device_id VARCHAR(255) NOT NULL,
   total_odometer DOUBLE PRECISION NOT NULL DEFAULT 0,
   trip_odometer_start DOUBLE PRECISION,
+  device_odometer DOUBLE PRECISION,
+  device_odometer_at TIMESTAMPTZ,
+  device_odometer_offset DOUBLE PRECISION NOT NULL DEFAULT 0,
+  gps_since_device_reading DOUBLE PRECISION NOT NULL DEFAULT 0,
+  drift_device_distance DOUBLE PRECISION NOT NULL DEFAULT 0,
+  drift_gps_distance DOUBLE PRECISION NOT NULL DEFAULT 0,
+  total_engine_time DOUBLE PRECISION NOT NULL DEFAULT 0,
+  engine_time_offset DOUBLE PRECISION NOT NULL DEFAULT 0,
+  trip_engine_time_start DOUBLE PRECISION,
   last_position_time TIMESTAMPTZ,
   last_latitude DOUBLE PRECISION,
   last_longitude DOUBLE PRECISION,
@@ -91,3 +120,287 @@ CREATE TABLE IF NOT EXISTS tracker_state (
 
 CREATE INDEX IF NOT EXISTS idx_tracker_state_tracker_id ON tracker_state(tracker_id);
 CREATE INDEX IF NOT EXISTS idx_tracker_state_last_seen ON tracker_state(last_seen_at DESC);
+
+-- Tabla threshold_profiles (perfiles de umbrales de detección)
+CREATE TABLE IF NOT EXISTS threshold_profiles (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(100) NOT NULL UNIQUE,
+  description TEXT,
+  thresholds JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Tabla threshold_profile_assignments (perfil por device / flota / tenant)
+CREATE TABLE IF NOT EXISTS threshold_profile_assignments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  scope VARCHAR(20) NOT NULL,
+  scope_id VARCHAR(255) NOT NULL,
+  profile_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_threshold_assignments_scope ON threshold_profile_assignments(scope, scope_id);
+CREATE INDEX IF NOT EXISTS idx_threshold_assignments_profile ON threshold_profile_assignments(profile_id);
+
+-- Tabla geofences (geocercas: polygon o circle)
+CREATE TABLE IF NOT EXISTS geofences (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(100) NOT NULL,
+  type VARCHAR(20) NOT NULL,
+  coordinates JSONB,
+  center_lat DOUBLE PRECISION,
+  center_lon DOUBLE PRECISION,
+  radius DOUBLE PRECISION,
+  category VARCHAR(100),
+  tenant_id VARCHAR(255),
+  speed_limit DOUBLE PRECISION,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  metadata JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_geofences_category ON geofences(category);
+CREATE INDEX IF NOT EXISTS idx_geofences_tenant ON geofences(tenant_id);
+
+-- Tabla device_groups (grupos de dispositivos, anidables vía parent_id)
+CREATE TABLE IF NOT EXISTS device_groups (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  parent_id INTEGER,
+  device_ids TEXT[] NOT NULL DEFAULT '{}',
+  tenant_id VARCHAR(255),
+  metadata JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_groups_parent ON device_groups(parent_id);
+CREATE INDEX IF NOT EXISTS idx_device_groups_tenant ON device_groups(tenant_id);
+
+-- Tabla webhook_subscriptions (webhooks firmados con HMAC)
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  url VARCHAR(2048) NOT NULL,
+  event_types TEXT[] NOT NULL DEFAULT '{}',
+  tenant_id VARCHAR(255),
+  metadata_filter JSONB,
+  secret VARCHAR(255) NOT NULL,
+  description VARCHAR(255),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_tenant ON webhook_subscriptions(tenant_id);
+
+-- Tabla webhook_deliveries (cola de envíos pendientes)
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  subscription_id UUID NOT NULL,
+  event_type VARCHAR(50) NOT NULL,
+  payload JSONB NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL,
+  last_status_code INTEGER,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_next_attempt ON webhook_deliveries(next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription ON webhook_deliveries(subscription_id);
+
+-- Tabla webhook_dead_letters (envíos que agotaron los reintentos)
+CREATE TABLE IF NOT EXISTS webhook_dead_letters (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  subscription_id UUID NOT NULL,
+  event_type VARCHAR(50) NOT NULL,
+  payload JSONB NOT NULL,
+  attempts INTEGER NOT NULL,
+  last_status_code INTEGER,
+  last_error TEXT,
+  event_created_at TIMESTAMPTZ NOT NULL,
+  failed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_dead_letters_subscription ON webhook_dead_letters(subscription_id);
+
+-- Tabla driving_events (aceleraciones/frenadas bruscas y giros cerrados de cada trip)
+CREATE TABLE IF NOT EXISTS driving_events (
+  id VARCHAR(255) PRIMARY KEY,
+  trip_id VARCHAR(255) NOT NULL,
+  id_activo VARCHAR(255) NOT NULL,
+  type VARCHAR(50) NOT NULL,
+  timestamp TIMESTAMPTZ NOT NULL,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  speed DOUBLE PRECISION NOT NULL,
+  previous_speed DOUBLE PRECISION NOT NULL,
+  value DOUBLE PRECISION NOT NULL,
+  threshold DOUBLE PRECISION NOT NULL,
+  heading_change DOUBLE PRECISION,
+  interval DOUBLE PRECISION NOT NULL,
+  metadata JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_driving_events_trip_timestamp ON driving_events(trip_id, timestamp);
+CREATE INDEX IF NOT EXISTS idx_driving_events_activo_timestamp ON driving_events(id_activo, timestamp);
+CREATE INDEX IF NOT EXISTS idx_driving_events_type ON driving_events(type);
+
+-- Tabla speeding_events (excesos de velocidad terminados de cada trip)
+CREATE TABLE IF NOT EXISTS speeding_events (
+  id VARCHAR(255) PRIMARY KEY,
+  trip_id VARCHAR(255) NOT NULL,
+  id_activo VARCHAR(255) NOT NULL,
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ NOT NULL,
+  duration INTEGER NOT NULL,
+  distance DOUBLE PRECISION NOT NULL,
+  max_speed DOUBLE PRECISION NOT NULL,
+  speed_limit DOUBLE PRECISION NOT NULL,
+  geofence_id UUID,
+  start_lat DOUBLE PRECISION NOT NULL,
+  start_lon DOUBLE PRECISION NOT NULL,
+  end_lat DOUBLE PRECISION NOT NULL,
+  end_lon DOUBLE PRECISION NOT NULL,
+  metadata JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_speeding_events_trip_start ON speeding_events(trip_id, start_time);
+CREATE INDEX IF NOT EXISTS idx_speeding_events_activo_start ON speeding_events(id_activo, start_time);
+CREATE INDEX IF NOT EXISTS idx_speeding_events_geofence ON speeding_events(geofence_id);
+CREATE INDEX IF NOT EXISTS idx_speeding_events_metadata ON speeding_events USING GIN (metadata);
+
+-- Tabla drivers (conductores identificados por iButton / RFID)
+CREATE TABLE IF NOT EXISTS drivers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  unique_id VARCHAR(255) NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  tenant_id VARCHAR(255),
+  metadata JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_drivers_unique_id ON drivers(unique_id);
+CREATE INDEX IF NOT EXISTS idx_drivers_tenant ON drivers(tenant_id);
+
+-- Tabla driver_assignments (conductor asignado a un device en un período)
+CREATE TABLE IF NOT EXISTS driver_assignments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  device_id VARCHAR(255) NOT NULL,
+  driver_unique_id VARCHAR(255) NOT NULL,
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_assignments_device_start ON driver_assignments(device_id, start_time);
+CREATE INDEX IF NOT EXISTS idx_driver_assignments_driver ON driver_assignments(driver_unique_id);
+
+-- Tabla fuel_sensors (sensor de combustible de cada device)
+CREATE TABLE IF NOT EXISTS fuel_sensors (
+  device_id VARCHAR(255) PRIMARY KEY,
+  type VARCHAR(20) NOT NULL,
+  metadata_key VARCHAR(100) NOT NULL,
+  unit VARCHAR(20) NOT NULL DEFAULT 'liters',
+  tank_capacity DOUBLE PRECISION,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Tabla fuel_events (cargas y caídas de combustible)
+CREATE TABLE IF NOT EXISTS fuel_events (
+  id VARCHAR(255) PRIMARY KEY,
+  id_activo VARCHAR(255) NOT NULL,
+  type VARCHAR(20) NOT NULL,
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ NOT NULL,
+  duration INTEGER NOT NULL,
+  amount DOUBLE PRECISION NOT NULL,
+  level_before DOUBLE PRECISION NOT NULL,
+  level_after DOUBLE PRECISION NOT NULL,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  trip_id VARCHAR(255),
+  stop_id VARCHAR(255),
+  metadata JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fuel_events_activo_start ON fuel_events(id_activo, start_time);
+CREATE INDEX IF NOT EXISTS idx_fuel_events_type ON fuel_events(type);
+
+-- Tabla idle_events (episodios de ralentí)
+CREATE TABLE IF NOT EXISTS idle_events (
+  id VARCHAR(255) PRIMARY KEY,
+  id_activo VARCHAR(255) NOT NULL,
+  trip_id VARCHAR(255),
+  stop_id VARCHAR(255),
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ NOT NULL,
+  duration INTEGER NOT NULL,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  address TEXT,
+  geofence_id UUID,
+  metadata JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_idle_events_activo_start ON idle_events(id_activo, start_time);
+CREATE INDEX IF NOT EXISTS idx_idle_events_trip ON idle_events(trip_id);
+CREATE INDEX IF NOT EXISTS idx_idle_events_geofence ON idle_events(geofence_id);
+CREATE INDEX IF NOT EXISTS idx_idle_events_metadata ON idle_events USING GIN (metadata);
+
+-- Tabla places (lugares frecuentes de cada device)
+CREATE TABLE IF NOT EXISTS places (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  device_id VARCHAR(255) NOT NULL,
+  label VARCHAR(20),
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  radius DOUBLE PRECISION NOT NULL,
+  address TEXT,
+  visit_count INTEGER NOT NULL,
+  total_dwell_time INTEGER NOT NULL,
+  overnight_count INTEGER NOT NULL DEFAULT 0,
+  typical_arrival_hour SMALLINT,
+  typical_departure_hour SMALLINT,
+  first_visit_at TIMESTAMPTZ NOT NULL,
+  last_visit_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_places_device_id ON places(device_id);
+
+-- Tabla odometer_adjustments (auditoría de ajustes del odómetro)
+CREATE TABLE IF NOT EXISTS odometer_adjustments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tracker_id VARCHAR(255) NOT NULL,
+  type VARCHAR(20) NOT NULL,
+  previous_odometer DOUBLE PRECISION NOT NULL,
+  new_odometer DOUBLE PRECISION NOT NULL,
+  previous_offset DOUBLE PRECISION NOT NULL,
+  odometer_offset DOUBLE PRECISION NOT NULL,
+  reason TEXT,
+  actor VARCHAR(255),
+  adjusted_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_odometer_adjustments_tracker_adjusted ON odometer_adjustments(tracker_id, adjusted_at);
+
+-- Tabla odometer_sources (fuente del odómetro de cada device: gps, device o hybrid)
+CREATE TABLE IF NOT EXISTS odometer_sources (
+  device_id VARCHAR(255) PRIMARY KEY,
+  source VARCHAR(20) NOT NULL,
+  metadata_key VARCHAR(100),
+  unit VARCHAR(20) NOT NULL DEFAULT 'meters',
+  rollover DOUBLE PRECISION,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,27 @@
+-- Migración 006: Perfiles de umbrales de detección por device / flota / tenant
+-- threshold_profiles.thresholds: solo los umbrales que difieren de DEFAULT_THRESHOLDS
+-- threshold_profile_assignments: scope = 'device' (deviceId) | 'fleet' (metadata.fleet_id)
+--                                | 'tenant' (metadata.tenant_id)
+-- Prioridad al resolver: device > fleet > tenant > DEFAULT_THRESHOLDS
+
+CREATE TABLE IF NOT EXISTS threshold_profiles (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(100) NOT NULL UNIQUE,
+  description TEXT NULL,
+  thresholds JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS threshold_profile_assignments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  scope VARCHAR(20) NOT NULL,
+  scope_id VARCHAR(255) NOT NULL,
+  profile_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_threshold_assignments_scope
+  ON threshold_profile_assignments (scope, scope_id);
+CREATE INDEX IF NOT EXISTS idx_threshold_assignments_profile
+  ON threshold_profile_assignments (profile_id);
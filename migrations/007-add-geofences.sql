@@ -0,0 +1,33 @@
+-- Migración 007: Geocercas (polygon / circle) y tagging de stops y trips
+-- geofences.coordinates: solo polygon, [[lon, lat], ...] (orden GeoJSON)
+-- geofences.center_lat/center_lon/radius: solo circle (radio en metros)
+-- geofences.tenant_id: si se define, la geocerca solo aplica a posiciones de ese tenant
+-- stops.geofence_id / trips.start_geofence_id / trips.end_geofence_id: geocerca en la
+-- que cae el punto al persistirse (la más chica si hay varias)
+
+CREATE TABLE IF NOT EXISTS geofences (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(100) NOT NULL,
+  type VARCHAR(20) NOT NULL,
+  coordinates JSONB NULL,
+  center_lat DOUBLE PRECISION NULL,
+  center_lon DOUBLE PRECISION NULL,
+  radius DOUBLE PRECISION NULL,
+  category VARCHAR(100) NULL,
+  tenant_id VARCHAR(255) NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  metadata JSONB NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_geofences_category ON geofences (category);
+CREATE INDEX IF NOT EXISTS idx_geofences_tenant ON geofences (tenant_id);
+
+ALTER TABLE stops ADD COLUMN IF NOT EXISTS geofence_id UUID NULL;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS start_geofence_id UUID NULL;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS end_geofence_id UUID NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stops_geofence ON stops (geofence_id);
+CREATE INDEX IF NOT EXISTS idx_trips_start_geofence ON trips (start_geofence_id);
+CREATE INDEX IF NOT EXISTS idx_trips_end_geofence ON trips (end_geofence_id);
@@ -0,0 +1,19 @@
+-- Migración 008: Grupos de dispositivos (filtro groupId de los reportes)
+-- device_groups.id: numérico, como los grupos de Traccar
+-- device_groups.parent_id: grupo padre (anidamiento); un grupo incluye los dispositivos
+-- de todos sus subgrupos
+-- device_groups.device_ids: miembros directos del grupo
+
+CREATE TABLE IF NOT EXISTS device_groups (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  parent_id INTEGER NULL,
+  device_ids TEXT[] NOT NULL DEFAULT '{}',
+  tenant_id VARCHAR(255) NULL,
+  metadata JSONB NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_groups_parent ON device_groups (parent_id);
+CREATE INDEX IF NOT EXISTS idx_device_groups_tenant ON device_groups (tenant_id);
@@ -0,0 +1,50 @@
+-- Migración 009: Webhooks (suscripciones, cola de envíos y dead letters)
+-- webhook_subscriptions.event_types: tipos de evento suscriptos (vacío = todos)
+-- webhook_subscriptions.tenant_id / metadata_filter: filtros sobre el metadata del evento
+-- webhook_subscriptions.secret: clave HMAC-SHA256 de la firma (header X-Tripero-Signature)
+-- webhook_deliveries: envíos pendientes; se eliminan al entregarse
+-- webhook_dead_letters: envíos que agotaron los reintentos (reenviables vía API)
+
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  url VARCHAR(2048) NOT NULL,
+  event_types TEXT[] NOT NULL DEFAULT '{}',
+  tenant_id VARCHAR(255) NULL,
+  metadata_filter JSONB NULL,
+  secret VARCHAR(255) NOT NULL,
+  description VARCHAR(255) NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_tenant ON webhook_subscriptions (tenant_id);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  subscription_id UUID NOT NULL,
+  event_type VARCHAR(50) NOT NULL,
+  payload JSONB NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL,
+  last_status_code INTEGER NULL,
+  last_error TEXT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_next_attempt ON webhook_deliveries (next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription ON webhook_deliveries (subscription_id);
+
+CREATE TABLE IF NOT EXISTS webhook_dead_letters (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  subscription_id UUID NOT NULL,
+  event_type VARCHAR(50) NOT NULL,
+  payload JSONB NOT NULL,
+  attempts INTEGER NOT NULL,
+  last_status_code INTEGER NULL,
+  last_error TEXT NULL,
+  event_created_at TIMESTAMPTZ NOT NULL,
+  failed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_dead_letters_subscription ON webhook_dead_letters (subscription_id);
@@ -0,0 +1,31 @@
+-- Migración 010: Eventos de manejo brusco (aceleración, frenada, giro cerrado)
+-- driving_events: un registro por evento driving:event, vinculado al trip por trip_id
+-- (se elimina junto con el trip al descartarse o regenerarse por replay)
+-- driving_events.value / threshold: aceleración medida y umbral superado (m/s²)
+-- trips.*_count: cantidad de eventos de cada tipo del trip
+
+CREATE TABLE IF NOT EXISTS driving_events (
+  id VARCHAR(255) PRIMARY KEY,
+  trip_id VARCHAR(255) NOT NULL,
+  id_activo VARCHAR(255) NOT NULL,
+  type VARCHAR(50) NOT NULL,
+  timestamp TIMESTAMPTZ NOT NULL,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  speed DOUBLE PRECISION NOT NULL,
+  previous_speed DOUBLE PRECISION NOT NULL,
+  value DOUBLE PRECISION NOT NULL,
+  threshold DOUBLE PRECISION NOT NULL,
+  heading_change DOUBLE PRECISION NULL,
+  interval DOUBLE PRECISION NOT NULL,
+  metadata JSONB NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_driving_events_trip_timestamp ON driving_events (trip_id, timestamp);
+CREATE INDEX IF NOT EXISTS idx_driving_events_activo_timestamp ON driving_events (id_activo, timestamp);
+CREATE INDEX IF NOT EXISTS idx_driving_events_type ON driving_events (type);
+
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS harsh_acceleration_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS harsh_braking_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS sharp_cornering_count INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,31 @@
+-- Migración 011: Excesos de velocidad
+-- speeding_events: un registro por episodio terminado (speeding:ended), vinculado al trip
+-- por trip_id (se elimina junto con el trip al descartarse o regenerarse por replay)
+-- speeding_events.geofence_id: geocerca de la que sale el límite (NULL: perfil del device)
+-- geofences.speed_limit: límite de velocidad dentro de la geocerca (km/h)
+
+CREATE TABLE IF NOT EXISTS speeding_events (
+  id VARCHAR(255) PRIMARY KEY,
+  trip_id VARCHAR(255) NOT NULL,
+  id_activo VARCHAR(255) NOT NULL,
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ NOT NULL,
+  duration INTEGER NOT NULL,
+  distance DOUBLE PRECISION NOT NULL,
+  max_speed DOUBLE PRECISION NOT NULL,
+  speed_limit DOUBLE PRECISION NOT NULL,
+  geofence_id UUID NULL,
+  start_lat DOUBLE PRECISION NOT NULL,
+  start_lon DOUBLE PRECISION NOT NULL,
+  end_lat DOUBLE PRECISION NOT NULL,
+  end_lon DOUBLE PRECISION NOT NULL,
+  metadata JSONB NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_speeding_events_trip_start ON speeding_events (trip_id, start_time);
+CREATE INDEX IF NOT EXISTS idx_speeding_events_activo_start ON speeding_events (id_activo, start_time);
+CREATE INDEX IF NOT EXISTS idx_speeding_events_geofence ON speeding_events (geofence_id);
+CREATE INDEX IF NOT EXISTS idx_speeding_events_metadata ON speeding_events USING GIN (metadata);
+
+ALTER TABLE geofences ADD COLUMN IF NOT EXISTS speed_limit DOUBLE PRECISION NULL;
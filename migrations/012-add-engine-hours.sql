@@ -0,0 +1,17 @@
+-- Migración 012: Horas de motor (horómetro)
+-- tracker_state.total_engine_time: segundos con ignición encendida acumulados por device
+-- tracker_state.engine_time_offset: offset (segundos) para sincronizar con el horómetro
+--   real (POST /trackers/:id/engine-hours)
+-- tracker_state.trip_engine_time_start: tiempo de motor al empezar el trip actual
+-- trips/stops start_engine_hours / end_engine_hours: horómetro con offset (horas) al
+--   inicio/fin. NULL en trips/stops registrados antes de esta migración
+
+ALTER TABLE tracker_state ADD COLUMN IF NOT EXISTS total_engine_time DOUBLE PRECISION NOT NULL DEFAULT 0;
+ALTER TABLE tracker_state ADD COLUMN IF NOT EXISTS engine_time_offset DOUBLE PRECISION NOT NULL DEFAULT 0;
+ALTER TABLE tracker_state ADD COLUMN IF NOT EXISTS trip_engine_time_start DOUBLE PRECISION NULL;
+
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS start_engine_hours DOUBLE PRECISION NULL;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS end_engine_hours DOUBLE PRECISION NULL;
+
+ALTER TABLE stops ADD COLUMN IF NOT EXISTS start_engine_hours DOUBLE PRECISION NULL;
+ALTER TABLE stops ADD COLUMN IF NOT EXISTS end_engine_hours DOUBLE PRECISION NULL;
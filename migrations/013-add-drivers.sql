@@ -0,0 +1,37 @@
+-- Migración 013: Conductores
+-- drivers: conductores identificados por unique_id (iButton / tarjeta RFID)
+-- driver_assignments: conductor asignado a un device en [start_time, end_time)
+--   (end_time NULL: asignación abierta). Se usa cuando la posición no trae el conductor
+-- trips/stops driver_id: drivers.unique_id del conductor. NULL en trips/stops
+--   registrados antes de esta migración o sin conductor identificado
+
+CREATE TABLE IF NOT EXISTS drivers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  unique_id VARCHAR(255) NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  tenant_id VARCHAR(255),
+  metadata JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_drivers_unique_id ON drivers(unique_id);
+CREATE INDEX IF NOT EXISTS idx_drivers_tenant ON drivers(tenant_id);
+
+CREATE TABLE IF NOT EXISTS driver_assignments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  device_id VARCHAR(255) NOT NULL,
+  driver_unique_id VARCHAR(255) NOT NULL,
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_assignments_device_start ON driver_assignments(device_id, start_time);
+CREATE INDEX IF NOT EXISTS idx_driver_assignments_driver ON driver_assignments(driver_unique_id);
+
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS driver_id VARCHAR(255) NULL;
+ALTER TABLE stops ADD COLUMN IF NOT EXISTS driver_id VARCHAR(255) NULL;
+
+CREATE INDEX IF NOT EXISTS idx_trips_driver_id ON trips(driver_id);
+CREATE INDEX IF NOT EXISTS idx_stops_driver_id ON stops(driver_id);
@@ -0,0 +1,39 @@
+-- Migración 014: Combustible
+-- fuel_sensors: sensor de combustible de cada device (clave de metadata con la lectura,
+--   nivel del tanque o contador de consumo, litros o porcentaje)
+-- fuel_events: cargas (refuel) y caídas con el vehículo detenido (drain)
+-- trips spent_fuel: litros consumidos en el trip. NULL en trips registrados antes de
+--   esta migración o de devices sin sensor
+
+CREATE TABLE IF NOT EXISTS fuel_sensors (
+  device_id VARCHAR(255) PRIMARY KEY,
+  type VARCHAR(20) NOT NULL,
+  metadata_key VARCHAR(100) NOT NULL,
+  unit VARCHAR(20) NOT NULL DEFAULT 'liters',
+  tank_capacity DOUBLE PRECISION,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS fuel_events (
+  id VARCHAR(255) PRIMARY KEY,
+  id_activo VARCHAR(255) NOT NULL,
+  type VARCHAR(20) NOT NULL,
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ NOT NULL,
+  duration INTEGER NOT NULL,
+  amount DOUBLE PRECISION NOT NULL,
+  level_before DOUBLE PRECISION NOT NULL,
+  level_after DOUBLE PRECISION NOT NULL,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  trip_id VARCHAR(255),
+  stop_id VARCHAR(255),
+  metadata JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fuel_events_activo_start ON fuel_events(id_activo, start_time);
+CREATE INDEX IF NOT EXISTS idx_fuel_events_type ON fuel_events(type);
+
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS spent_fuel DOUBLE PRECISION NULL;
@@ -0,0 +1,24 @@
+-- Migración 015: Episodios de ralentí
+-- idle_events: períodos con el motor encendido sin movimiento que superan
+--   minIdleDuration (perfil de umbrales), dentro o fuera de un trip
+
+CREATE TABLE IF NOT EXISTS idle_events (
+  id VARCHAR(255) PRIMARY KEY,
+  id_activo VARCHAR(255) NOT NULL,
+  trip_id VARCHAR(255),
+  stop_id VARCHAR(255),
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ NOT NULL,
+  duration INTEGER NOT NULL,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  address TEXT,
+  geofence_id UUID,
+  metadata JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_idle_events_activo_start ON idle_events(id_activo, start_time);
+CREATE INDEX IF NOT EXISTS idx_idle_events_trip ON idle_events(trip_id);
+CREATE INDEX IF NOT EXISTS idx_idle_events_geofence ON idle_events(geofence_id);
+CREATE INDEX IF NOT EXISTS idx_idle_events_metadata ON idle_events USING GIN (metadata);
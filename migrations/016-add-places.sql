@@ -0,0 +1,29 @@
+-- Migración 016: Lugares frecuentes
+-- places: paradas recurrentes de cada device agrupadas por densidad (base, depósito,
+--   pernoctes). Las recalcula periódicamente PlaceClusteringService
+-- stops place_id: lugar frecuente donde ocurrió la parada. NULL si no pertenece a
+--   ninguno o es anterior al primer agrupamiento
+
+CREATE TABLE IF NOT EXISTS places (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  device_id VARCHAR(255) NOT NULL,
+  label VARCHAR(20),
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  radius DOUBLE PRECISION NOT NULL,
+  address TEXT,
+  visit_count INTEGER NOT NULL,
+  total_dwell_time INTEGER NOT NULL,
+  overnight_count INTEGER NOT NULL DEFAULT 0,
+  typical_arrival_hour SMALLINT,
+  typical_departure_hour SMALLINT,
+  first_visit_at TIMESTAMPTZ NOT NULL,
+  last_visit_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_places_device_id ON places(device_id);
+
+ALTER TABLE stops ADD COLUMN IF NOT EXISTS place_id UUID;
+CREATE INDEX IF NOT EXISTS idx_stops_place_id ON stops(place_id);
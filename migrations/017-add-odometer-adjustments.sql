@@ -0,0 +1,19 @@
+-- Migración 017: Auditoría de ajustes del odómetro
+-- odometer_adjustments: cada reset (POST /trackers/:id/odometer/reset) y seteo
+--   (POST /trackers/:id/odometer) con el odómetro y offset anterior y nuevo, motivo,
+--   quién lo hizo y cuándo. Valores en metros, tal como los muestra el tracker
+
+CREATE TABLE IF NOT EXISTS odometer_adjustments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tracker_id VARCHAR(255) NOT NULL,
+  type VARCHAR(20) NOT NULL,
+  previous_odometer DOUBLE PRECISION NOT NULL,
+  new_odometer DOUBLE PRECISION NOT NULL,
+  previous_offset DOUBLE PRECISION NOT NULL,
+  odometer_offset DOUBLE PRECISION NOT NULL,
+  reason TEXT,
+  actor VARCHAR(255),
+  adjusted_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_odometer_adjustments_tracker_adjusted ON odometer_adjustments(tracker_id, adjusted_at);
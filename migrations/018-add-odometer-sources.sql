@@ -0,0 +1,26 @@
+-- Migración 018: Odómetro reportado por el equipo (CAN / hardware)
+-- odometer_sources: fuente del odómetro de cada device (gps, device o hybrid), clave de
+--   metadata, unidad y valor de rollover del contador. Sin fila el device usa GPS
+-- tracker_state device_odometer / device_odometer_at: última lectura del equipo (metros)
+-- tracker_state device_odometer_offset: vueltas y resets del contador (lectura + offset =
+--   odómetro del equipo, el que usa la fuente device)
+-- tracker_state gps_since_device_reading: distancia GPS desde esa lectura
+-- tracker_state drift_device_distance / drift_gps_distance: distancia de cada fuente en
+--   los tramos medidos por ambas (deriva del GPS en /trackers/:id/status)
+
+CREATE TABLE IF NOT EXISTS odometer_sources (
+  device_id VARCHAR(255) PRIMARY KEY,
+  source VARCHAR(20) NOT NULL,
+  metadata_key VARCHAR(100),
+  unit VARCHAR(20) NOT NULL DEFAULT 'meters',
+  rollover DOUBLE PRECISION,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE tracker_state ADD COLUMN IF NOT EXISTS device_odometer DOUBLE PRECISION NULL;
+ALTER TABLE tracker_state ADD COLUMN IF NOT EXISTS device_odometer_at TIMESTAMPTZ NULL;
+ALTER TABLE tracker_state ADD COLUMN IF NOT EXISTS device_odometer_offset DOUBLE PRECISION NOT NULL DEFAULT 0;
+ALTER TABLE tracker_state ADD COLUMN IF NOT EXISTS gps_since_device_reading DOUBLE PRECISION NOT NULL DEFAULT 0;
+ALTER TABLE tracker_state ADD COLUMN IF NOT EXISTS drift_device_distance DOUBLE PRECISION NOT NULL DEFAULT 0;
+ALTER TABLE tracker_state ADD COLUMN IF NOT EXISTS drift_gps_distance DOUBLE PRECISION NOT NULL DEFAULT 0;
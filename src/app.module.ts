@@ -7,6 +7,15 @@ import { DatabaseModule } from './database/database.module';
 import { DetectionModule } from './detection/detection.module';
 import { TrackersModule } from './trackers/trackers.module';
 import { ReportsModule } from './reports/reports.module';
+import { ThresholdProfilesModule } from './threshold-profiles/threshold-profiles.module';
+import { ReplayModule } from './replay/replay.module';
+import { GeofencesModule } from './geofences/geofences.module';
+import { DeviceGroupsModule } from './device-groups/device-groups.module';
+import { DriversModule } from './drivers/drivers.module';
+import { FuelModule } from './fuel/fuel.module';
+import { IngestionModule } from './ingestion/ingestion.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
+import { LiveStreamModule } from './live/live-stream.module';
 
 @Module({
   imports: [
@@ -16,6 +25,15 @@ import { ReportsModule } from './reports/reports.module';
     DetectionModule, // Fase 1: Trip/Stop detection
     TrackersModule, // Gestión de estado y odómetro de trackers
     ReportsModule, // API de reportes históricos (compatible con Traccar)
+    ThresholdProfilesModule, // Perfiles de umbrales de detección por device/flota/tenant
+    ReplayModule, // Reprocesamiento de posiciones históricas
+    GeofencesModule, // Geocercas (entrada/salida y tagging de stops)
+    DeviceGroupsModule, // Grupos de dispositivos (filtro groupId de reportes)
+    DriversModule, // Conductores y asignaciones a dispositivos
+    FuelModule, // Sensores de combustible
+    IngestionModule, // Ingesta HTTP de posiciones e ignición
+    WebhooksModule, // Webhooks firmados de eventos de trips/stops/estado
+    LiveStreamModule, // Stream en vivo de trackers (SSE / WebSocket)
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -2,10 +2,11 @@ import { Module } from '@nestjs/common';
 import { HttpModule } from '@nestjs/axios';
 import { RedisService } from './redis/redis.service';
 import { GeocodeClientService } from './geocode/geocode-client.service';
+import { ClusterService } from './cluster/cluster.service';
 
 @Module({
   imports: [HttpModule],
-  providers: [RedisService, GeocodeClientService],
-  exports: [RedisService, GeocodeClientService],
+  providers: [RedisService, GeocodeClientService, ClusterService],
+  exports: [RedisService, GeocodeClientService, ClusterService],
 })
 export class AuxiliaresModule {}
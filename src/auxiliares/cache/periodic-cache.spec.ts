@@ -0,0 +1,42 @@
+import { Logger } from '@nestjs/common';
+import { PeriodicCache } from './periodic-cache';
+
+describe('PeriodicCache', () => {
+  const error = jest.fn();
+  const logger = { error } as unknown as Logger;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('carga al iniciar y recarga en cada intervalo hasta detenerse', async () => {
+    const load = jest.fn().mockResolvedValue(undefined);
+    const cache = new PeriodicCache('items', 1000, load, logger);
+
+    await cache.start();
+    expect(load).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(2000);
+    expect(load).toHaveBeenCalledTimes(3);
+
+    cache.stop();
+    jest.advanceTimersByTime(2000);
+    expect(load).toHaveBeenCalledTimes(3);
+  });
+
+  it('no lanza si la carga falla y loguea el error', async () => {
+    const load = jest.fn().mockRejectedValue(new Error('db down'));
+    const cache = new PeriodicCache('items', 1000, load, logger);
+
+    await expect(cache.reload()).resolves.toBeUndefined();
+    expect(error).toHaveBeenCalledWith(
+      'Failed to load items',
+      expect.any(String),
+    );
+  });
+});
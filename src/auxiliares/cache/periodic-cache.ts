@@ -0,0 +1,56 @@
+import { Logger } from '@nestjs/common';
+
+/**
+ * Cache en memoria que se carga al iniciar y se recarga cada intervalMs
+ *
+ * Lo usan los servicios que mantienen en memoria datos de la BD (perfiles,
+ * geocercas, suscripciones, etc.) para no consultarla por cada posición. Si una
+ * carga falla se loguea y se mantienen los datos cargados previamente.
+ */
+export class PeriodicCache {
+  private refreshInterval?: NodeJS.Timeout;
+
+  /**
+   * @param name Qué se carga (para los logs)
+   * @param intervalMs Intervalo de recarga
+   * @param load Carga los datos y los reemplaza en el servicio; si falla no debe tocarlos
+   */
+  constructor(
+    private readonly name: string,
+    private readonly intervalMs: number,
+    private readonly load: () => Promise<void>,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Primera carga y recarga periódica (onModuleInit del servicio)
+   */
+  async start(): Promise<void> {
+    await this.reload();
+
+    this.refreshInterval = setInterval(() => {
+      void this.reload();
+    }, this.intervalMs);
+  }
+
+  /**
+   * Detiene la recarga periódica (onModuleDestroy del servicio)
+   */
+  stop(): void {
+    if (this.refreshInterval) {
+      clearInterval(this.refreshInterval);
+      this.refreshInterval = undefined;
+    }
+  }
+
+  /**
+   * Carga los datos ahora. Nunca lanza: los errores se loguean.
+   */
+  async reload(): Promise<void> {
+    try {
+      await this.load();
+    } catch (error) {
+      this.logger.error(`Failed to load ${this.name}`, error.stack);
+    }
+  }
+}
@@ -0,0 +1,229 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ClusterService, buildRing, findRingOwner } from './cluster.service';
+import { RedisService } from '../redis/redis.service';
+
+jest.mock('../../env', () => ({
+  ...jest.requireActual('../../env'),
+  CLUSTER_ENABLED: true,
+  CLUSTER_INSTANCE_ID: 'node-a',
+  CLUSTER_DEVICE_LEASE_MS: 10000,
+}));
+
+const devices = Array.from({ length: 1000 }, (_, i) => `DEV-${i}`);
+
+describe('hashing consistente', () => {
+  it('reparte los devices entre todas las instancias', () => {
+    const ring = buildRing(['node-a', 'node-b', 'node-c']);
+    const counts = new Map<string, number>();
+
+    for (const deviceId of devices) {
+      const owner = findRingOwner(ring, deviceId)!;
+      counts.set(owner, (counts.get(owner) ?? 0) + 1);
+    }
+
+    expect([...counts.keys()].sort()).toEqual(['node-a', 'node-b', 'node-c']);
+    for (const count of counts.values()) {
+      expect(count).toBeGreaterThan(200);
+    }
+  });
+
+  it('al caer una instancia solo se mueven sus devices', () => {
+    const before = buildRing(['node-a', 'node-b', 'node-c']);
+    const after = buildRing(['node-a', 'node-c']);
+
+    for (const deviceId of devices) {
+      const previous = findRingOwner(before, deviceId);
+      if (previous !== 'node-b') {
+        expect(findRingOwner(after, deviceId)).toBe(previous);
+      }
+    }
+  });
+});
+
+/**
+ * Lease de devices: solo la instancia asignada lo toma, y tras una reasignación
+ * la dueña anterior lo conserva hasta que vence (sin solaparse con la nueva).
+ */
+describe('ClusterService.ownsDevice', () => {
+  let service: ClusterService;
+  let redis: Record<string, jest.Mock>;
+  let now: number;
+
+  // Device asignado a `owner` con las instancias [node-a, node-b]
+  const deviceOf = (owner: string) =>
+    devices.find(
+      (deviceId) =>
+        findRingOwner(buildRing(['node-a', 'node-b']), deviceId) === owner,
+    )!;
+
+  beforeEach(async () => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    redis = {
+      time: jest.fn().mockImplementation(() => Promise.resolve(now)),
+      zAdd: jest.fn().mockResolvedValue(1),
+      zRemRangeByScore: jest.fn().mockResolvedValue(0),
+      zRangeByScore: jest.fn().mockResolvedValue(['node-a', 'node-b']),
+      claimKey: jest.fn().mockResolvedValue(true),
+      releaseClaim: jest.fn().mockResolvedValue(true),
+      pTtl: jest.fn().mockResolvedValue(8000),
+      zScore: jest.fn().mockImplementation(() => Promise.resolve(now)),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ClusterService, { provide: RedisService, useValue: redis }],
+    }).compile();
+
+    service = module.get(ClusterService);
+    // Un heartbeat sin arrancar el intervalo
+    await (service as any).heartbeat();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('toma el lease de los devices asignados y descarta los ajenos', async () => {
+    await expect(service.ownsDevice(deviceOf('node-a'))).resolves.toBe(true);
+    await expect(service.ownsDevice(deviceOf('node-b'))).resolves.toBe(false);
+
+    expect(redis.claimKey).toHaveBeenCalledTimes(1);
+    expect(redis.claimKey).toHaveBeenCalledWith(
+      `device:owner:${deviceOf('node-a')}`,
+      'node-a',
+      10000,
+    );
+  });
+
+  it('no procesa un device cuyo lease tiene otra instancia', async () => {
+    redis.claimKey.mockResolvedValue(false);
+
+    await expect(service.ownsDevice(deviceOf('node-a'))).resolves.toBe(false);
+  });
+
+  it('en el traspaso espera a que venza el lease de la dueña anterior', async () => {
+    const deviceId = deviceOf('node-a');
+    // La dueña anterior está en el margen final de su lease (ya no procesa)
+    redis.claimKey.mockResolvedValueOnce(false).mockResolvedValue(true);
+    redis.pTtl.mockResolvedValue(50);
+
+    const results = await Promise.all([
+      service.ownsDevice(deviceId),
+      service.ownsDevice(deviceId),
+    ]);
+
+    expect(results).toEqual([true, true]);
+    // Las dos llamadas comparten la espera
+    expect(redis.claimKey).toHaveBeenCalledTimes(2);
+    expect(redis.pTtl).toHaveBeenCalledWith(`device:owner:${deviceId}`);
+  });
+
+  it('reutiliza el lease vigente sin ir a Redis', async () => {
+    const deviceId = deviceOf('node-a');
+    await service.ownsDevice(deviceId);
+
+    now += 2000;
+    await expect(service.ownsDevice(deviceId)).resolves.toBe(true);
+    expect(redis.claimKey).toHaveBeenCalledTimes(1);
+
+    // Pasada la mitad del lease se renueva
+    now += 4000;
+    await expect(service.ownsDevice(deviceId)).resolves.toBe(true);
+    expect(redis.claimKey).toHaveBeenCalledTimes(2);
+  });
+
+  it('tras una reasignación conserva el device hasta que vence el lease', async () => {
+    // Device de node-a que pasa a node-c cuando node-c se suma al cluster
+    const before = buildRing(['node-a', 'node-b']);
+    const after = buildRing(['node-a', 'node-b', 'node-c']);
+    const deviceId = devices.find(
+      (id) =>
+        findRingOwner(before, id) === 'node-a' &&
+        findRingOwner(after, id) === 'node-c',
+    )!;
+    await service.ownsDevice(deviceId);
+
+    redis.zRangeByScore.mockResolvedValue(['node-a', 'node-b', 'node-c']);
+    await (service as any).heartbeat();
+
+    now += 6000;
+    await expect(service.ownsDevice(deviceId)).resolves.toBe(true);
+    expect(redis.claimKey).toHaveBeenCalledTimes(1); // no renueva
+
+    now += 4000;
+    await expect(service.ownsDevice(deviceId)).resolves.toBe(false);
+  });
+
+  it('al reasignarse un device lo libera al vencer su lease, después de onRelease', async () => {
+    jest.useFakeTimers();
+    const released: string[] = [];
+    service.onRelease((deviceId) => {
+      // Todavía con el lease: lo libera después
+      expect(redis.releaseClaim).not.toHaveBeenCalled();
+      released.push(deviceId);
+      return Promise.resolve();
+    });
+
+    // Device de node-a que pasa a node-c cuando node-c se suma al cluster
+    const before = buildRing(['node-a', 'node-b']);
+    const after = buildRing(['node-a', 'node-b', 'node-c']);
+    const deviceId = devices.find(
+      (id) =>
+        findRingOwner(before, id) === 'node-a' &&
+        findRingOwner(after, id) === 'node-c',
+    )!;
+    await service.ownsDevice(deviceId);
+
+    redis.zRangeByScore.mockResolvedValue(['node-a', 'node-b', 'node-c']);
+    await (service as any).heartbeat();
+    expect(released).toEqual([]);
+
+    // Vence el lease local (10000 - margen de 1000)
+    now += 9000;
+    await jest.advanceTimersByTimeAsync(9000);
+
+    expect(released).toEqual([deviceId]);
+    expect(redis.releaseClaim).toHaveBeenCalledWith(
+      `device:owner:${deviceId}`,
+      'node-a',
+    );
+    await expect(service.ownsDevice(deviceId)).resolves.toBe(false);
+    jest.useRealTimers();
+  });
+
+  it('streams: grupo por instancia', () => {
+    expect(service.streamGroup('tripero')).toBe('tripero:node-a');
+  });
+
+  it('streams: confirma las entradas de devices asignados a otra instancia viva', async () => {
+    // El lease del device venció (reporta cada más de CLUSTER_DEVICE_LEASE_MS):
+    // igual lo procesa node-b, que sigue en el cluster
+    await expect(service.awaitsOwner(deviceOf('node-b'))).resolves.toBe(false);
+    expect(redis.zScore).toHaveBeenCalledWith('cluster:members', 'node-b');
+
+    // Sin deviceId lo maneja la líder: no hay nada que esperar
+    await expect(service.awaitsOwner(undefined)).resolves.toBe(false);
+  });
+
+  it('streams: deja pendientes las entradas en traspaso o de una instancia caída', async () => {
+    // Asignado a esta instancia, sin lease todavía
+    await expect(service.awaitsOwner(deviceOf('node-a'))).resolves.toBe(true);
+
+    // node-b dejó de reportar y el anillo local todavía no se actualizó
+    redis.zScore.mockResolvedValue(now - 60_000);
+    await expect(service.awaitsOwner(deviceOf('node-b'))).resolves.toBe(true);
+    redis.zScore.mockResolvedValue(null);
+    await expect(service.awaitsOwner(deviceOf('node-b'))).resolves.toBe(true);
+  });
+
+  it('los mensajes sin deviceId los maneja solo la líder', async () => {
+    await expect(service.ownsDevice(undefined)).resolves.toBe(true);
+    expect(service.isLeader()).toBe(true);
+
+    redis.zRangeByScore.mockResolvedValue(['node-0', 'node-a']);
+    await (service as any).heartbeat();
+
+    await expect(service.ownsDevice(undefined)).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,489 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import { hostname } from 'os';
+import { RedisService } from '../redis/redis.service';
+import { REDIS_KEYS } from '../redis/redis.constants';
+import {
+  CLUSTER_ENABLED,
+  CLUSTER_INSTANCE_ID,
+  CLUSTER_HEARTBEAT_MS,
+  CLUSTER_MEMBER_TIMEOUT_MS,
+  CLUSTER_DEVICE_LEASE_MS,
+  CLUSTER_VIRTUAL_NODES,
+} from '../../env';
+
+/**
+ * Punto del anillo de hashing consistente
+ */
+interface IRingNode {
+  hash: number;
+  member: string;
+}
+
+/**
+ * Hash de 32 bits para ubicar instancias y devices en el anillo
+ */
+export const ringHash = (value: string): number =>
+  createHash('md5').update(value).digest().readUInt32BE(0);
+
+/**
+ * Arma el anillo con CLUSTER_VIRTUAL_NODES puntos por instancia
+ */
+export const buildRing = (
+  members: string[],
+  virtualNodes = CLUSTER_VIRTUAL_NODES,
+): IRingNode[] => {
+  const ring: IRingNode[] = [];
+
+  for (const member of members) {
+    for (let i = 0; i < virtualNodes; i++) {
+      ring.push({ hash: ringHash(`${member}#${i}`), member });
+    }
+  }
+
+  return ring.sort(
+    (a, b) => a.hash - b.hash || a.member.localeCompare(b.member),
+  );
+};
+
+/**
+ * Instancia a la que el anillo asigna la key (primer punto con hash >= hash(key))
+ */
+export const findRingOwner = (
+  ring: IRingNode[],
+  key: string,
+): string | null => {
+  if (ring.length === 0) return null;
+
+  const hash = ringHash(key);
+  let low = 0;
+  let high = ring.length;
+
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (ring[mid].hash < hash) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  return ring[low % ring.length].member;
+};
+
+/**
+ * Servicio de coordinación entre instancias (CLUSTER_ENABLED=true)
+ *
+ * - Membresía: cada instancia hace heartbeat en el sorted set cluster:members
+ *   (score = hora de Redis). Las que no reportan en CLUSTER_MEMBER_TIMEOUT_MS salen.
+ * - Reparto: hashing consistente de deviceId sobre las instancias vivas. Todas las
+ *   instancias reciben todos los mensajes pub/sub y descartan los de devices ajenos.
+ * - Exclusividad: antes de procesar un device la instancia toma el lease
+ *   device:owner:{deviceId}. Si el anillo reasigna el device, la dueña anterior deja
+ *   de renovar y la nueva lo toma al vencer, así un device nunca se procesa en dos
+ *   instancias a la vez. Durante el traspaso la nueva dueña espera el lease en lugar
+ *   de descartar mensajes (ver acquire).
+ * - Al dejar un device (traspaso o apagado) se ejecutan las tareas de onRelease
+ *   antes de liberar el lease, para que la nueva dueña encuentre escrito lo que esta
+ *   instancia tenía en memoria.
+ * - Tareas globales (limpieza de huérfanos) solo en la instancia líder (la primera
+ *   en orden alfabético).
+ *
+ * Con CLUSTER_ENABLED=false todo se procesa localmente (modo de una sola instancia).
+ */
+@Injectable()
+export class ClusterService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ClusterService.name);
+  readonly instanceId = CLUSTER_INSTANCE_ID || `${hostname()}-${process.pid}`;
+
+  private heartbeatInterval?: NodeJS.Timeout;
+  private members: string[] = [];
+  private ring: IRingNode[] = [];
+  // Vencimiento local (Date.now) de los leases que tiene esta instancia
+  private leases = new Map<string, number>();
+  // Esperas de lease en curso por device (ver acquire)
+  private acquiring = new Map<string, Promise<boolean>>();
+  // Traspasos programados: devices reasignados que se liberan al vencer su lease
+  private handovers = new Map<string, NodeJS.Timeout>();
+  private releaseHooks: Array<(deviceId: string) => Promise<void>> = [];
+
+  // Se deja de procesar un device un poco antes de que venza su lease en Redis
+  private readonly LEASE_MARGIN_MS = Math.min(
+    1000,
+    CLUSTER_DEVICE_LEASE_MS / 10,
+  );
+
+  constructor(private readonly redisService: RedisService) {}
+
+  get enabled(): boolean {
+    return CLUSTER_ENABLED;
+  }
+
+  async onModuleInit() {
+    if (!CLUSTER_ENABLED) return;
+
+    this.logger.log(
+      `Cluster mode enabled: instance ${this.instanceId} ` +
+        `(heartbeat ${CLUSTER_HEARTBEAT_MS}ms, member timeout ${CLUSTER_MEMBER_TIMEOUT_MS}ms, ` +
+        `device lease ${CLUSTER_DEVICE_LEASE_MS}ms)`,
+    );
+
+    await this.heartbeat();
+
+    this.heartbeatInterval = setInterval(() => {
+      this.heartbeat().catch((error) => {
+        this.logger.error('Error in cluster heartbeat', error.stack);
+      });
+    }, CLUSTER_HEARTBEAT_MS);
+  }
+
+  async onModuleDestroy() {
+    if (!CLUSTER_ENABLED) return;
+
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+    }
+    for (const timer of this.handovers.values()) {
+      clearTimeout(timer);
+    }
+    this.handovers.clear();
+
+    // Salida ordenada: liberar los devices y salir del anillo para que el resto
+    // los tome sin esperar a que venzan
+    await Promise.allSettled(
+      [...this.leases.keys()].map((deviceId) => this.release(deviceId)),
+    );
+    this.leases.clear();
+
+    try {
+      await this.redisService.zRem(REDIS_KEYS.CLUSTER_MEMBERS, this.instanceId);
+      this.logger.log(`Instance ${this.instanceId} left the cluster`);
+    } catch (error) {
+      this.logger.error('Error leaving the cluster', error.stack);
+    }
+  }
+
+  /**
+   * Indica si esta instancia debe procesar los mensajes del device.
+   * Toma o renueva el lease del device cuando corresponde.
+   *
+   * @param deviceId Si no es válido, el mensaje lo maneja solo la líder
+   *   (ej: publicar un position:rejected una sola vez)
+   */
+  async ownsDevice(deviceId: unknown): Promise<boolean> {
+    if (!CLUSTER_ENABLED) return true;
+
+    if (typeof deviceId !== 'string' || !deviceId) {
+      return this.isLeader();
+    }
+
+    const now = Date.now();
+    const leaseExpiresAt = this.leases.get(deviceId) ?? 0;
+    const assigned = findRingOwner(this.ring, deviceId) === this.instanceId;
+
+    if (leaseExpiresAt > now) {
+      // Si el device se reasignó se deja vencer el lease: la nueva dueña lo toma
+      // al expirar, sin solaparse con esta instancia
+      if (assigned && leaseExpiresAt - now < CLUSTER_DEVICE_LEASE_MS / 2) {
+        return this.claim(deviceId);
+      }
+      return true;
+    }
+
+    this.leases.delete(deviceId);
+
+    return assigned ? this.acquire(deviceId) : false;
+  }
+
+  /**
+   * Registra una tarea a ejecutar cuando esta instancia deja un device (traspaso o
+   * apagado), antes de liberar su lease. Ej: escribir lo que tiene en memoria del
+   * device para que la nueva dueña continúe sin huecos.
+   */
+  onRelease(hook: (deviceId: string) => Promise<void>): void {
+    this.releaseHooks.push(hook);
+  }
+
+  /**
+   * Indica si una entrada de stream de un device que esta instancia no procesó
+   * (ownsDevice false) debe quedar pendiente en lugar de confirmarse
+   *
+   * Se decide por el anillo, no por el lease (que vence entre reportes de los devices
+   * que reportan cada más de CLUSTER_DEVICE_LEASE_MS):
+   * - Asignado a otra instancia viva: lo procesa ella, se confirma.
+   * - Asignado a esta instancia sin poder tomar el lease todavía (la dueña anterior
+   *   lo conserva): queda pendiente y se procesa al reclamarlo.
+   * - Asignado a una instancia que ya no está en cluster:members (caída, el anillo
+   *   local todavía no se actualizó): queda pendiente para la que lo herede.
+   */
+  async awaitsOwner(deviceId: unknown): Promise<boolean> {
+    if (!CLUSTER_ENABLED || typeof deviceId !== 'string' || !deviceId) {
+      return false;
+    }
+
+    const owner = findRingOwner(this.ring, deviceId);
+    if (owner === null || owner === this.instanceId) {
+      return true;
+    }
+
+    return !(await this.isLiveMember(owner));
+  }
+
+  /**
+   * Consumer group de los streams de ingesta
+   *
+   * En modo multi-instancia cada instancia usa su propio grupo (todas leen todas las
+   * entradas y procesan solo sus devices). El grupo lleva CLUSTER_INSTANCE_ID, que
+   * debe ser fijo: al reiniciar la instancia retoma su grupo y sus pendientes.
+   */
+  streamGroup(group: string): string {
+    if (!CLUSTER_ENABLED) return group;
+
+    if (!CLUSTER_INSTANCE_ID) {
+      throw new Error(
+        'CLUSTER_INSTANCE_ID is required with CLUSTER_ENABLED=true and INGESTION_MODE=streams',
+      );
+    }
+
+    return `${group}:${CLUSTER_INSTANCE_ID}`;
+  }
+
+  /**
+   * Instancia líder: ejecuta las tareas que no deben correr en paralelo
+   */
+  isLeader(): boolean {
+    if (!CLUSTER_ENABLED) return true;
+    return this.members[0] === this.instanceId;
+  }
+
+  getMembers(): string[] {
+    return [...this.members];
+  }
+
+  getMetrics() {
+    return {
+      enabled: CLUSTER_ENABLED,
+      instanceId: this.instanceId,
+      members: this.getMembers(),
+      isLeader: this.isLeader(),
+      ownedDevices: this.leases.size,
+    };
+  }
+
+  /**
+   * Indica si la instancia sigue reportando en cluster:members
+   */
+  private async isLiveMember(member: string): Promise<boolean> {
+    const [lastSeen, now] = await Promise.all([
+      this.redisService.zScore(REDIS_KEYS.CLUSTER_MEMBERS, member),
+      this.redisService.time(),
+    ]);
+
+    return lastSeen !== null && lastSeen >= now - CLUSTER_MEMBER_TIMEOUT_MS;
+  }
+
+  /**
+   * Registra esta instancia, descarta las que dejaron de reportar y actualiza el anillo
+   */
+  private async heartbeat(): Promise<void> {
+    try {
+      const now = await this.redisService.time();
+      const minAlive = now - CLUSTER_MEMBER_TIMEOUT_MS;
+
+      await this.redisService.zAdd(
+        REDIS_KEYS.CLUSTER_MEMBERS,
+        now,
+        this.instanceId,
+      );
+      await this.redisService.zRemRangeByScore(
+        REDIS_KEYS.CLUSTER_MEMBERS,
+        '-inf',
+        `(${minAlive}`,
+      );
+      const members = await this.redisService.zRangeByScore(
+        REDIS_KEYS.CLUSTER_MEMBERS,
+        minAlive,
+        '+inf',
+      );
+
+      this.updateMembers(members);
+    } catch (error) {
+      // Sin Redis no se pueden renovar leases: el resto de las instancias tomará
+      // los devices de esta cuando venzan
+      this.logger.error('Cluster heartbeat failed', error.stack);
+    }
+
+    this.pruneLeases();
+  }
+
+  private updateMembers(members: string[]): void {
+    const next = [...new Set(members)].sort();
+
+    if (next.join(',') === this.members.join(',')) return;
+
+    this.logger.log(
+      `Cluster membership changed: [${this.members.join(', ')}] -> [${next.join(', ')}]` +
+        (next[0] === this.instanceId ? ' (leader)' : ''),
+    );
+
+    this.members = next;
+    this.ring = buildRing(next);
+    this.scheduleHandovers();
+  }
+
+  /**
+   * Programa la liberación de los devices que el anillo reasignó: esta instancia los
+   * sigue procesando hasta que vence su lease local y ahí los libera
+   */
+  private scheduleHandovers(): void {
+    for (const [deviceId, expiresAt] of this.leases) {
+      if (
+        this.handovers.has(deviceId) ||
+        findRingOwner(this.ring, deviceId) === this.instanceId
+      ) {
+        continue;
+      }
+
+      const timer = setTimeout(
+        () => {
+          this.handovers.delete(deviceId);
+
+          // Volvió a asignarse a esta instancia antes de vencer: se conserva
+          if (findRingOwner(this.ring, deviceId) === this.instanceId) return;
+
+          void this.release(deviceId);
+        },
+        Math.max(0, expiresAt - Date.now()),
+      );
+      this.handovers.set(deviceId, timer);
+    }
+  }
+
+  /**
+   * Deja un device: corre las tareas de onRelease y libera el lease en Redis
+   */
+  private async release(deviceId: string): Promise<void> {
+    this.leases.delete(deviceId);
+
+    const results = await Promise.allSettled(
+      this.releaseHooks.map((hook) => hook(deviceId)),
+    );
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        this.logger.error(
+          `Error releasing device ${deviceId}`,
+          (result.reason as Error)?.stack,
+        );
+      }
+    }
+
+    try {
+      await this.redisService.releaseClaim(
+        REDIS_KEYS.DEVICE_OWNER(deviceId),
+        this.instanceId,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Could not release device ${deviceId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Toma el lease de un device asignado a esta instancia.
+   *
+   * La dueña anterior deja de procesar LEASE_MARGIN_MS antes de que venza su lease
+   * en Redis. Si el lease está en ese tramo final se espera a que venza y se toma,
+   * en vez de descartar el mensaje: así ningún mensaje queda sin dueña durante el
+   * traspaso. Las llamadas concurrentes del mismo device comparten la espera y
+   * continúan en el orden en que llegaron.
+   */
+  private acquire(deviceId: string): Promise<boolean> {
+    let pending = this.acquiring.get(deviceId);
+
+    if (!pending) {
+      pending = this.claimWhenReleased(deviceId).finally(() =>
+        this.acquiring.delete(deviceId),
+      );
+      this.acquiring.set(deviceId, pending);
+    }
+
+    return pending;
+  }
+
+  private async claimWhenReleased(deviceId: string): Promise<boolean> {
+    for (;;) {
+      if (await this.claim(deviceId)) return true;
+
+      let remainingMs: number;
+      try {
+        remainingMs = await this.redisService.pTtl(
+          REDIS_KEYS.DEVICE_OWNER(deviceId),
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Could not check lease of device ${deviceId}: ${error.message}`,
+        );
+        return false;
+      }
+
+      // -1: key sin vencimiento (no es un lease). Con más de 2 márgenes por delante
+      // la dueña anterior sigue procesando: el mensaje es suyo. Lo que quede
+      // procesado en ambas en el borde lo descarta el throttling por timestamp.
+      if (remainingMs === -1 || remainingMs > this.LEASE_MARGIN_MS * 2) {
+        return false;
+      }
+
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.max(remainingMs, 10)),
+      );
+
+      if (findRingOwner(this.ring, deviceId) !== this.instanceId) {
+        return false;
+      }
+    }
+  }
+
+  private async claim(deviceId: string): Promise<boolean> {
+    const claimedAt = Date.now();
+
+    try {
+      const claimed = await this.redisService.claimKey(
+        REDIS_KEYS.DEVICE_OWNER(deviceId),
+        this.instanceId,
+        CLUSTER_DEVICE_LEASE_MS,
+      );
+
+      if (!claimed) {
+        // Otra instancia todavía tiene el device (reasignación en curso)
+        this.leases.delete(deviceId);
+        return false;
+      }
+
+      this.leases.set(
+        deviceId,
+        claimedAt + CLUSTER_DEVICE_LEASE_MS - this.LEASE_MARGIN_MS,
+      );
+      return true;
+    } catch (error) {
+      this.logger.warn(`Could not claim device ${deviceId}: ${error.message}`);
+      // Si falla Redis se sigue con el lease vigente (si lo hay)
+      return (this.leases.get(deviceId) ?? 0) > Date.now();
+    }
+  }
+
+  private pruneLeases(): void {
+    const now = Date.now();
+
+    for (const [deviceId, expiresAt] of this.leases) {
+      if (expiresAt <= now) {
+        this.leases.delete(deviceId);
+      }
+    }
+  }
+}
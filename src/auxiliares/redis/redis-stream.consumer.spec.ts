@@ -0,0 +1,164 @@
+import { RedisStreamConsumer, IStreamEntry } from './redis-stream.consumer';
+import { RedisService } from './redis.service';
+
+/**
+ * Consumo de streams: se confirma solo lo que el handler procesó, las pendientes se
+ * reprocesan al arrancar y las que fallan demasiadas veces se descartan.
+ */
+describe('RedisStreamConsumer', () => {
+  let client: Record<string, jest.Mock>;
+  let redisService: RedisService;
+  let consumer: RedisStreamConsumer;
+  let handled: IStreamEntry[][];
+  let failIds: Set<string>;
+  let dropped: string[];
+
+  const options = {
+    stream: 'stream:position:new',
+    group: 'tripero',
+    consumer: 'node-a',
+    batchSize: 10,
+    blockMs: 10,
+    claimIdleMs: 60000,
+    maxDeliveries: 3,
+    maxLen: 1000,
+  };
+
+  const xreadResult = (ids: string[]) => [
+    [
+      'tripero:stream:position:new',
+      ids.map((id) => [id, ['data', `{"id":"${id}"}`]]),
+    ],
+  ];
+
+  beforeEach(() => {
+    handled = [];
+    failIds = new Set();
+    dropped = [];
+
+    client = {
+      xgroup: jest.fn().mockResolvedValue('OK'),
+      // Sin entradas nuevas: simula el BLOCK para no ocupar el event loop
+      xreadgroup: jest.fn(
+        () => new Promise((resolve) => setTimeout(() => resolve(null), 5)),
+      ),
+      xpending: jest.fn().mockResolvedValue([]),
+      xclaim: jest.fn().mockResolvedValue([]),
+      xack: jest.fn().mockResolvedValue(1),
+      xtrim: jest.fn().mockResolvedValue(0),
+      disconnect: jest.fn(),
+    };
+
+    redisService = {
+      getPrefix: () => 'tripero:',
+      createSubscriber: () => client,
+    } as unknown as RedisService;
+
+    consumer = new RedisStreamConsumer(redisService, {
+      ...options,
+      handler: (entries) => {
+        handled.push(entries);
+        return Promise.resolve(
+          entries.map((e) => e.id).filter((id) => !failIds.has(id)),
+        );
+      },
+      onDropped: (ids) => dropped.push(...ids),
+    });
+  });
+
+  afterEach(async () => {
+    await consumer.stop();
+  });
+
+  const waitFor = async (condition: () => boolean) => {
+    for (let i = 0; i < 100 && !condition(); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  };
+
+  it('crea el grupo con el key prefijado y tolera BUSYGROUP', async () => {
+    client.xgroup.mockRejectedValueOnce(
+      new Error('BUSYGROUP Consumer Group name already exists'),
+    );
+
+    await consumer.start();
+
+    expect(client.xgroup).toHaveBeenCalledWith(
+      'CREATE',
+      'tripero:stream:position:new',
+      'tripero',
+      '$',
+      'MKSTREAM',
+    );
+    expect(consumer.isRunning()).toBe(true);
+  });
+
+  it('reprocesa las pendientes propias y confirma solo las procesadas', async () => {
+    failIds.add('1-1');
+    client.xreadgroup
+      .mockResolvedValueOnce(xreadResult(['1-0', '1-1'])) // pendientes ('0')
+      .mockResolvedValueOnce(null); // sin más pendientes
+
+    await consumer.start();
+    await waitFor(() => client.xreadgroup.mock.calls.length >= 3);
+
+    const firstRead = client.xreadgroup.mock.calls[0];
+    expect(firstRead[firstRead.length - 1]).toBe('0');
+    expect(handled[0].map((e) => e.id)).toEqual(['1-0', '1-1']);
+    expect(handled[0][0].data).toBe('{"id":"1-0"}');
+    expect(client.xack).toHaveBeenCalledWith(
+      'tripero:stream:position:new',
+      'tripero',
+      '1-0',
+    );
+    expect(consumer.getMetrics().acked).toBe(1);
+  });
+
+  it('descarta las entradas que superan maxDeliveries y reintenta el resto', async () => {
+    client.xpending.mockResolvedValueOnce([
+      ['2-0', 'node-b', 70000, 3],
+      ['2-1', 'node-b', 70000, 1],
+    ]);
+    client.xclaim.mockResolvedValueOnce([['2-1', ['data', '{}']]]);
+
+    await consumer.start();
+    await waitFor(() => consumer.getMetrics().claimed > 0);
+
+    expect(client.xack).toHaveBeenCalledWith(
+      'tripero:stream:position:new',
+      'tripero',
+      '2-0',
+    );
+    expect(client.xclaim).toHaveBeenCalledWith(
+      'tripero:stream:position:new',
+      'tripero',
+      'node-a',
+      60000,
+      '2-1',
+    );
+    expect(handled.flat().map((e) => e.id)).toEqual(['2-1']);
+    expect(dropped).toEqual(['2-0']);
+    expect(consumer.getMetrics()).toMatchObject({ dropped: 1, claimed: 1 });
+  });
+
+  it('descarta las pendientes recortadas del stream y lo recorta a maxLen', async () => {
+    client.xpending.mockResolvedValueOnce([
+      ['3-0', 'node-a', 70000, 1],
+      ['3-1', 'node-a', 70000, 1],
+    ]);
+    // 3-0 ya no está en el stream
+    client.xclaim.mockResolvedValueOnce([null, ['3-1', ['data', '{}']]]);
+
+    await consumer.start();
+    await waitFor(() => client.xtrim.mock.calls.length > 0);
+
+    expect(handled.flat().map((e) => e.id)).toEqual(['3-1']);
+    expect(dropped).toEqual(['3-0']);
+    expect(client.xtrim).toHaveBeenCalledWith(
+      'tripero:stream:position:new',
+      'MAXLEN',
+      '~',
+      1000,
+    );
+  });
+});
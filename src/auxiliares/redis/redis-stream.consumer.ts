@@ -0,0 +1,359 @@
+import { Logger } from '@nestjs/common';
+import Redis from 'ioredis';
+import { RedisService } from './redis.service';
+
+/**
+ * Entrada leída de un stream. `data` es el payload JSON (campo `data` del XADD),
+ * null si la entrada no lo trae.
+ */
+export interface IStreamEntry {
+  id: string;
+  data: string | null;
+}
+
+/**
+ * Procesa un lote de entradas y devuelve los IDs que se pueden confirmar (XACK).
+ * Las entradas no confirmadas quedan pendientes y se reintentan al reclamarlas.
+ */
+export type StreamBatchHandler = (entries: IStreamEntry[]) => Promise<string[]>;
+
+export interface IRedisStreamConsumerOptions {
+  stream: string; // key sin prefijo (se aplica REDIS_KEY_PREFIX)
+  group: string;
+  consumer: string;
+  batchSize: number;
+  blockMs: number;
+  claimIdleMs: number; // pendientes sin confirmar por más de este tiempo se reclaman
+  maxDeliveries: number; // entregas antes de descartar una entrada que siempre falla
+  maxLen: number; // largo aproximado al que se recorta el stream (0: sin recorte)
+  handler: StreamBatchHandler;
+  onDropped?: (ids: string[]) => void; // entradas descartadas sin pasar por el handler
+}
+
+/**
+ * Consumidor de un Redis Stream con consumer group
+ *
+ * - Crea el grupo si no existe (MKSTREAM, desde las entradas nuevas).
+ * - Al arrancar reprocesa sus propias entradas pendientes (las que leyó y no confirmó
+ *   antes de reiniciar) y reclama las de otros consumidores caídos.
+ * - Lee en bloques con XREADGROUP BLOCK en una conexión dedicada.
+ * - Confirma (XACK) solo lo que el handler indica; periódicamente reclama las
+ *   pendientes viejas (XPENDING IDLE + XCLAIM, en lotes hasta agotarlas) y descarta
+ *   las que superan maxDeliveries para no trabar el stream con una entrada que
+ *   siempre falla.
+ * - En cada reclamo recorta el stream a ~maxLen entradas (XTRIM MAXLEN ~).
+ */
+export class RedisStreamConsumer {
+  private readonly logger: Logger;
+  private client: Redis | null = null;
+  private running = false;
+  private loop: Promise<void> | null = null;
+  private lastClaimAt = 0;
+  private readonly key: string;
+
+  // Métricas
+  private readCount = 0;
+  private ackCount = 0;
+  private claimedCount = 0;
+  private droppedCount = 0;
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly options: IRedisStreamConsumerOptions,
+  ) {
+    this.key = `${redisService.getPrefix()}${options.stream}`;
+    this.logger = new Logger(`RedisStreamConsumer:${options.stream}`);
+  }
+
+  /**
+   * Arranca el loop de lectura (no espera a que termine)
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+
+    this.client = this.redisService.createSubscriber();
+    this.running = true;
+
+    await this.ensureGroup();
+
+    this.logger.log(
+      `Consuming ${this.key} as ${this.options.group}/${this.options.consumer}`,
+    );
+
+    this.loop = this.run();
+  }
+
+  /**
+   * Detiene el loop. Las entradas en vuelo sin confirmar quedan pendientes.
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.client) {
+      // Corta el XREADGROUP BLOCK en curso
+      this.client.disconnect();
+    }
+
+    await this.loop?.catch(() => undefined);
+    this.client = null;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  getMetrics() {
+    return {
+      stream: this.key,
+      group: this.options.group,
+      consumer: this.options.consumer,
+      read: this.readCount,
+      acked: this.ackCount,
+      claimed: this.claimedCount,
+      dropped: this.droppedCount,
+    };
+  }
+
+  private async run(): Promise<void> {
+    // Primero lo que este consumidor leyó y no confirmó antes de reiniciar
+    await this.processOwnPending();
+
+    while (this.running) {
+      try {
+        if (Date.now() - this.lastClaimAt >= this.options.claimIdleMs) {
+          await this.claimStale();
+          await this.trim();
+        }
+
+        const entries = await this.read('>');
+        if (entries.length > 0) {
+          await this.handle(entries);
+        }
+      } catch (error) {
+        if (!this.running) break;
+
+        if (String(error?.message).includes('NOGROUP')) {
+          // El stream o el grupo se borraron: recrearlos
+          await this.ensureGroup().catch(() => undefined);
+          continue;
+        }
+
+        this.logger.error(`Error reading ${this.key}`, error.stack);
+        await new Promise((resolve) => setTimeout(resolve, 5000));
+      }
+    }
+  }
+
+  private async ensureGroup(): Promise<void> {
+    try {
+      await this.client!.xgroup(
+        'CREATE',
+        this.key,
+        this.options.group,
+        '$',
+        'MKSTREAM',
+      );
+      this.logger.log(`Created consumer group ${this.options.group}`);
+    } catch (error) {
+      if (!String(error?.message).includes('BUSYGROUP')) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Lee del grupo: '>' entradas nuevas, '0' pendientes propias
+   */
+  private async read(id: '>' | '0'): Promise<IStreamEntry[]> {
+    const { group, consumer, batchSize, blockMs } = this.options;
+    const result = (
+      id === '>'
+        ? await this.client!.xreadgroup(
+            'GROUP',
+            group,
+            consumer,
+            'COUNT',
+            batchSize,
+            'BLOCK',
+            blockMs,
+            'STREAMS',
+            this.key,
+            id,
+          )
+        : await this.client!.xreadgroup(
+            'GROUP',
+            group,
+            consumer,
+            'COUNT',
+            batchSize,
+            'STREAMS',
+            this.key,
+            id,
+          )
+    ) as Array<[string, Array<[string, string[]]>]> | null;
+
+    const entries = (result?.[0]?.[1] ?? []).map(([entryId, fields]) =>
+      this.toEntry(entryId, fields),
+    );
+    this.readCount += entries.length;
+
+    return entries;
+  }
+
+  private async processOwnPending(): Promise<void> {
+    try {
+      let entries = await this.read('0');
+      let total = 0;
+
+      // Las entradas que el handler no confirma siguen pendientes: cortar cuando un
+      // lote completo no avanza para no releerlas indefinidamente
+      while (entries.length > 0 && this.running) {
+        const acked = await this.handle(entries);
+        total += entries.length;
+        if (acked === 0) break;
+        entries = await this.read('0');
+      }
+
+      if (total > 0) {
+        this.logger.log(
+          `Reprocessed ${total} pending entries from ${this.key}`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error reprocessing pending entries of ${this.key}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Reclama las pendientes de cualquier consumidor del grupo sin confirmar por más
+   * de claimIdleMs (consumidor caído, entrada que falló o que el handler dejó
+   * pendiente). Las reclamadas vuelven a idle 0, así el lote siguiente trae otras.
+   */
+  private async claimStale(): Promise<void> {
+    this.lastClaimAt = Date.now();
+
+    while (
+      this.running &&
+      (await this.claimStaleBatch()) === this.options.batchSize
+    ) {
+      // Sigue con el lote siguiente
+    }
+  }
+
+  /**
+   * @returns cantidad de pendientes viejas encontradas
+   */
+  private async claimStaleBatch(): Promise<number> {
+    const pending = (await this.client!.xpending(
+      this.key,
+      this.options.group,
+      'IDLE',
+      this.options.claimIdleMs,
+      '-',
+      '+',
+      this.options.batchSize,
+    )) as Array<[string, string, number, number]>;
+
+    if (pending.length === 0) return 0;
+
+    const exhausted = pending
+      .filter(([, , , deliveries]) => deliveries >= this.options.maxDeliveries)
+      .map(([id]) => id);
+    const retry = pending
+      .filter(([, , , deliveries]) => deliveries < this.options.maxDeliveries)
+      .map(([id]) => id);
+
+    if (exhausted.length > 0) {
+      await this.client!.xack(this.key, this.options.group, ...exhausted);
+      this.droppedCount += exhausted.length;
+      this.options.onDropped?.(exhausted);
+      this.logger.error(
+        `Dropped ${exhausted.length} entries from ${this.key} after ` +
+          `${this.options.maxDeliveries} failed deliveries: ${exhausted.join(', ')}`,
+      );
+    }
+
+    if (retry.length === 0) return pending.length;
+
+    const claimed = (await this.client!.xclaim(
+      this.key,
+      this.options.group,
+      this.options.consumer,
+      this.options.claimIdleMs,
+      ...retry,
+    )) as Array<[string, string[]] | null>;
+
+    const entries = claimed
+      .filter((entry): entry is [string, string[]] => entry !== null)
+      .map(([entryId, fields]) => this.toEntry(entryId, fields));
+
+    // Las que ya no están en el stream (recortadas) no vuelven en el XCLAIM
+    const found = new Set(entries.map((entry) => entry.id));
+    const trimmed = retry.filter((id) => !found.has(id));
+    if (trimmed.length > 0) {
+      await this.client!.xack(this.key, this.options.group, ...trimmed);
+      this.droppedCount += trimmed.length;
+      this.options.onDropped?.(trimmed);
+      this.logger.warn(
+        `Dropped ${trimmed.length} pending entries trimmed from ${this.key}`,
+      );
+    }
+
+    if (entries.length > 0) {
+      this.claimedCount += entries.length;
+      this.logger.warn(
+        `Reclaimed ${entries.length} stale entries from ${this.key}`,
+      );
+      await this.handle(entries);
+    }
+
+    return pending.length;
+  }
+
+  /**
+   * Recorta el stream a ~maxLen entradas (las más viejas). Si los productores no lo
+   * acotan, así no crece sin límite.
+   */
+  private async trim(): Promise<void> {
+    if (this.options.maxLen <= 0) return;
+
+    const removed = await this.client!.xtrim(
+      this.key,
+      'MAXLEN',
+      '~',
+      this.options.maxLen,
+    );
+
+    if (removed > 0) {
+      this.logger.debug(`Trimmed ${removed} entries from ${this.key}`);
+    }
+  }
+
+  /**
+   * Pasa el lote al handler y confirma lo que devuelve
+   *
+   * @returns cantidad de entradas confirmadas
+   */
+  private async handle(entries: IStreamEntry[]): Promise<number> {
+    const ackIds = await this.options.handler(entries);
+
+    if (ackIds.length > 0) {
+      await this.client!.xack(this.key, this.options.group, ...ackIds);
+      this.ackCount += ackIds.length;
+    }
+
+    return ackIds.length;
+  }
+
+  private toEntry(id: string, fields: string[]): IStreamEntry {
+    const index = fields.indexOf('data');
+
+    return {
+      id,
+      data: index >= 0 && index % 2 === 0 ? fields[index + 1] : null,
+    };
+  }
+}
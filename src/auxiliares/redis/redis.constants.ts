@@ -24,6 +24,10 @@ export const REDIS_KEYS = {
   // DeviceStateService
   DEVICE_STATE: (deviceId: string) => `device:state:${deviceId}`,
   DEVICE_THROTTLE: (deviceId: string) => `device:throttle:${deviceId}`,
+
+  // ClusterService (modo multi-instancia)
+  CLUSTER_MEMBERS: 'cluster:members',
+  DEVICE_OWNER: (deviceId: string) => `device:owner:${deviceId}`,
 } as const;
 
 /**
@@ -33,6 +37,7 @@ export const REDIS_CHANNELS = {
   // Posiciones
   POSITION_NEW: 'position:new',
   POSITION_REJECTED: 'position:rejected',
+  POSITION_UPDATED: 'position:updated', // Posición ya procesada (stream en vivo)
 
   // Ignición
   IGNITION_CHANGED: 'ignition:changed',
@@ -46,10 +51,37 @@ export const REDIS_CHANNELS = {
   STOP_STARTED: 'stop:started',
   STOP_COMPLETED: 'stop:completed',
 
+  // Eventos de geocercas
+  GEOFENCE_ENTERED: 'geofence:entered',
+  GEOFENCE_EXITED: 'geofence:exited',
+
+  // Eventos de manejo (aceleración/frenada brusca, giro cerrado)
+  DRIVING_EVENT: 'driving:event',
+
+  // Excesos de velocidad
+  SPEEDING_STARTED: 'speeding:started',
+  SPEEDING_ENDED: 'speeding:ended',
+
+  // Eventos de combustible (cargas / caídas)
+  FUEL_EVENT: 'fuel:event',
+
+  // Episodios de ralentí (motor encendido sin movimiento)
+  IDLE_STARTED: 'idle:started',
+  IDLE_COMPLETED: 'idle:completed',
+
   // Estado del tracker
   TRACKER_STATE_CHANGED: 'tracker:state:changed',
 } as const;
 
+/**
+ * Streams Redis de ingesta (INGESTION_MODE=streams, sin prefijo - se aplica al consumir)
+ * Cada entrada lleva el payload JSON en el campo `data`.
+ */
+export const REDIS_STREAMS = {
+  POSITION_NEW: 'stream:position:new',
+  IGNITION_CHANGED: 'stream:ignition:changed',
+} as const;
+
 /**
  * Patrones para búsqueda de keys (con wildcard)
  */
@@ -7,6 +7,7 @@ import {
   REDIS_PORT,
   REDIS_PASSWORD,
   REDIS_KEY_PREFIX,
+  STREAMS_MAX_LEN,
 } from '../../env';
 import { LoggerService } from '../logger/logger.service';
 
@@ -188,6 +189,11 @@ export class RedisService implements OnModuleInit {
     return this.client.ttl(this.prefixKey(key));
   }
 
+  async pTtl(key: string): Promise<number> {
+    await this.waitForConnection();
+    return this.client.pttl(this.prefixKey(key));
+  }
+
   async incr(key: string): Promise<number> {
     await this.waitForConnection();
     return this.client.incr(this.prefixKey(key));
@@ -235,6 +241,89 @@ export class RedisService implements OnModuleInit {
     return this.client.sismember(prefixedKey, stringValue);
   }
 
+  // Sorted set operations
+  async zAdd(key: string, score: number, member: string): Promise<number> {
+    await this.waitForConnection();
+    return this.client.zadd(this.prefixKey(key), score, member);
+  }
+
+  async zRem(key: string, member: string): Promise<number> {
+    await this.waitForConnection();
+    return this.client.zrem(this.prefixKey(key), member);
+  }
+
+  async zScore(key: string, member: string): Promise<number | null> {
+    await this.waitForConnection();
+    const score = await this.client.zscore(this.prefixKey(key), member);
+    return score === null ? null : Number(score);
+  }
+
+  async zRangeByScore(
+    key: string,
+    min: number | string,
+    max: number | string,
+  ): Promise<string[]> {
+    await this.waitForConnection();
+    return this.client.zrangebyscore(this.prefixKey(key), min, max);
+  }
+
+  async zRemRangeByScore(
+    key: string,
+    min: number | string,
+    max: number | string,
+  ): Promise<number> {
+    await this.waitForConnection();
+    return this.client.zremrangebyscore(this.prefixKey(key), min, max);
+  }
+
+  /**
+   * Hora del servidor Redis en ms (reloj común a todas las instancias)
+   */
+  async time(): Promise<number> {
+    await this.waitForConnection();
+    const [seconds, microseconds] = await this.client.time();
+    return Number(seconds) * 1000 + Math.floor(Number(microseconds) / 1000);
+  }
+
+  // Ownership leases
+  /**
+   * Toma o renueva una key como "dueño" por ttlMs.
+   * Solo tiene éxito si la key no existe o ya es de `owner`.
+   */
+  async claimKey(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    await this.waitForConnection();
+    const result = await this.client.eval(
+      `local current = redis.call('GET', KEYS[1])
+       if not current or current == ARGV[1] then
+         redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+         return 1
+       end
+       return 0`,
+      1,
+      this.prefixKey(key),
+      owner,
+      ttlMs,
+    );
+    return result === 1;
+  }
+
+  /**
+   * Libera una key tomada con claimKey (solo si sigue siendo de `owner`)
+   */
+  async releaseClaim(key: string, owner: string): Promise<boolean> {
+    await this.waitForConnection();
+    const result = await this.client.eval(
+      `if redis.call('GET', KEYS[1]) == ARGV[1] then
+         return redis.call('DEL', KEYS[1])
+       end
+       return 0`,
+      1,
+      this.prefixKey(key),
+      owner,
+    );
+    return result === 1;
+  }
+
   // Publish/Subscribe
   async publish(channel: string, message: any): Promise<number> {
     await this.waitForConnection();
@@ -244,6 +333,36 @@ export class RedisService implements OnModuleInit {
     return this.client.publish(prefixedChannel, stringMessage);
   }
 
+  // Streams
+  /**
+   * Agrega una entrada al stream con el payload JSON en el campo `data`
+   * (formato que lee RedisStreamConsumer). Recorta el stream a ~STREAMS_MAX_LEN.
+   */
+  async xAdd(stream: string, message: any): Promise<string | null> {
+    await this.waitForConnection();
+    const stringMessage =
+      typeof message === 'string' ? message : JSON.stringify(message);
+
+    if (STREAMS_MAX_LEN <= 0) {
+      return this.client.xadd(
+        this.prefixKey(stream),
+        '*',
+        'data',
+        stringMessage,
+      );
+    }
+
+    return this.client.xadd(
+      this.prefixKey(stream),
+      'MAXLEN',
+      '~',
+      STREAMS_MAX_LEN,
+      '*',
+      'data',
+      stringMessage,
+    );
+  }
+
   /**
    * Crea un subscriber para un canal (aplica prefijo automáticamente)
    * @param channel Canal a suscribir
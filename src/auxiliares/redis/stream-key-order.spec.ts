@@ -0,0 +1,93 @@
+import { IStreamEntry } from './redis-stream.consumer';
+import {
+  StreamKeyOrder,
+  compareStreamIds,
+  readEntryField,
+} from './stream-key-order';
+
+const entry = (id: string, deviceId?: string): IStreamEntry => ({
+  id,
+  data: JSON.stringify({ deviceId }),
+});
+
+const keyOf = (e: IStreamEntry) => readEntryField(e, 'deviceId');
+
+/**
+ * Orden por device: una entrada pendiente retiene a las posteriores de su device
+ * hasta que se procesa (o se descarta), y no afecta a los demás devices.
+ */
+describe('StreamKeyOrder', () => {
+  let order: StreamKeyOrder;
+  let processed: string[];
+  let failIds: Set<string>;
+
+  const handle = (e: IStreamEntry) => {
+    if (failIds.has(e.id)) return Promise.resolve(false);
+    processed.push(e.id);
+    return Promise.resolve(true);
+  };
+
+  beforeEach(() => {
+    order = new StreamKeyOrder();
+    processed = [];
+    failIds = new Set();
+  });
+
+  it('compara IDs de stream por milisegundos y secuencia', () => {
+    expect(compareStreamIds('10-1', '9-5')).toBeGreaterThan(0);
+    expect(compareStreamIds('10-1', '10-2')).toBeLessThan(0);
+    expect(compareStreamIds('10-0', '10-0')).toBe(0);
+  });
+
+  it('si una entrada falla retiene las posteriores del device hasta reintentarla', async () => {
+    failIds.add('1-0');
+
+    const acked = await order.process(
+      [entry('1-0', 'A'), entry('1-1', 'B'), entry('1-2', 'A')],
+      keyOf,
+      handle,
+    );
+
+    // 1-2 no se procesa: queda pendiente detrás de 1-0
+    expect(acked).toEqual(['1-1']);
+    expect(processed).toEqual(['1-1']);
+
+    // Llega una nueva del device antes del reintento: también espera
+    await expect(
+      order.process([entry('2-0', 'A')], keyOf, handle),
+    ).resolves.toEqual([]);
+
+    // Reintento (reclamo) en orden de ID
+    failIds.clear();
+    const retried = await order.process(
+      [entry('1-0', 'A'), entry('1-2', 'A'), entry('2-0', 'A')],
+      keyOf,
+      handle,
+    );
+
+    expect(retried).toEqual(['1-0', '1-2', '2-0']);
+    expect(processed).toEqual(['1-1', '1-0', '1-2', '2-0']);
+    expect(order.size).toBe(0);
+  });
+
+  it('las entradas descartadas dejan de retener a las posteriores', async () => {
+    failIds.add('1-0');
+    await order.process([entry('1-0', 'A')], keyOf, handle);
+
+    order.forget(['1-0']);
+
+    await expect(
+      order.process([entry('1-1', 'A')], keyOf, handle),
+    ).resolves.toEqual(['1-1']);
+  });
+
+  it('las entradas sin device se procesan sin orden', async () => {
+    const acked = await order.process(
+      [{ id: '1-0', data: 'not json' }, entry('1-1')],
+      keyOf,
+      handle,
+    );
+
+    expect(acked.sort()).toEqual(['1-0', '1-1']);
+  });
+});
@@ -0,0 +1,137 @@
+import { IStreamEntry } from './redis-stream.consumer';
+
+/**
+ * Compara IDs de entradas de stream (`<ms>-<seq>`)
+ */
+export const compareStreamIds = (a: string, b: string): number => {
+  const [aMs, aSeq = '0'] = a.split('-');
+  const [bMs, bSeq = '0'] = b.split('-');
+  return Number(aMs) - Number(bMs) || Number(aSeq) - Number(bSeq);
+};
+
+/**
+ * Campo string del payload JSON de una entrada (ej: deviceId), null si no lo trae
+ */
+export const readEntryField = (
+  entry: IStreamEntry,
+  field: string,
+): string | null => {
+  try {
+    const payload = entry.data
+      ? (JSON.parse(entry.data) as Record<string, unknown> | null)
+      : null;
+    const value = payload?.[field];
+    return typeof value === 'string' && value ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Orden por key (deviceId) de las entradas de un consumidor de stream
+ *
+ * Las entradas de un mismo key se procesan en orden. Si una queda pendiente (falló o
+ * todavía no se puede procesar), las posteriores del mismo key también quedan
+ * pendientes detrás de ella, sin procesarse. Al reclamarlas (en orden de ID) se
+ * procesan todas en secuencia, así un device nunca ve una posición vieja después de
+ * una más nueva.
+ */
+export class StreamKeyOrder {
+  // IDs pendientes por key, ordenados
+  private readonly pending = new Map<string, string[]>();
+
+  /**
+   * Procesa un lote: los keys en paralelo y las entradas de cada key en orden
+   *
+   * @param keyOf Key de la entrada; sin key se procesa sin orden
+   * @param handle true si la entrada se puede confirmar
+   * @returns IDs a confirmar (XACK)
+   */
+  async process(
+    entries: IStreamEntry[],
+    keyOf: (entry: IStreamEntry) => string | null,
+    handle: (entry: IStreamEntry) => Promise<boolean>,
+  ): Promise<string[]> {
+    const ackIds: string[] = [];
+    const chains = new Map<string, IStreamEntry[]>();
+    const unkeyed: IStreamEntry[] = [];
+
+    for (const entry of entries) {
+      const key = keyOf(entry);
+      if (key === null) {
+        unkeyed.push(entry);
+      } else {
+        chains.set(key, [...(chains.get(key) ?? []), entry]);
+      }
+    }
+
+    await Promise.all([
+      ...unkeyed.map(async (entry) => {
+        if (await handle(entry)) ackIds.push(entry.id);
+      }),
+      ...[...chains].map(async ([key, chain]) => {
+        for (const entry of chain) {
+          if (this.canProcess(key, entry.id) && (await handle(entry))) {
+            this.release(key, entry.id);
+            ackIds.push(entry.id);
+          } else {
+            this.hold(key, entry.id);
+          }
+        }
+      }),
+    ]);
+
+    return ackIds;
+  }
+
+  /**
+   * Olvida entradas que el consumidor descartó (maxDeliveries o recortadas del
+   * stream) para no trabar a las posteriores de su key
+   */
+  forget(ids: string[]): void {
+    const dropped = new Set(ids);
+
+    for (const [key, pending] of this.pending) {
+      const rest = pending.filter((id) => !dropped.has(id));
+      if (rest.length === 0) {
+        this.pending.delete(key);
+      } else {
+        this.pending.set(key, rest);
+      }
+    }
+  }
+
+  /**
+   * Cantidad de keys con entradas pendientes
+   */
+  get size(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Se puede procesar si no hay una entrada anterior del mismo key pendiente
+   */
+  private canProcess(key: string, id: string): boolean {
+    const pending = this.pending.get(key);
+    return !pending || compareStreamIds(pending[0], id) >= 0;
+  }
+
+  private hold(key: string, id: string): void {
+    const pending = this.pending.get(key) ?? [];
+    if (pending.includes(id)) return;
+
+    pending.push(id);
+    pending.sort(compareStreamIds);
+    this.pending.set(key, pending);
+  }
+
+  private release(key: string, id: string): void {
+    const rest = (this.pending.get(key) ?? []).filter((item) => item !== id);
+
+    if (rest.length === 0) {
+      this.pending.delete(key);
+    } else {
+      this.pending.set(key, rest);
+    }
+  }
+}
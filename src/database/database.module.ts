@@ -8,11 +8,45 @@ import {
   DB_DATABASE,
   DB_LOGGING,
 } from '../env';
-import { Trip, Stop, TrackerState } from './entities';
+import {
+  Trip,
+  Stop,
+  DrivingEvent,
+  SpeedingEvent,
+  TrackerState,
+  ThresholdProfile,
+  ThresholdProfileAssignment,
+  Geofence,
+  DeviceGroup,
+  WebhookSubscription,
+  WebhookDelivery,
+  WebhookDeadLetter,
+  Driver,
+  DriverAssignment,
+  FuelSensor,
+  FuelEvent,
+  IdleEvent,
+  Place,
+  OdometerAdjustment,
+  OdometerSource,
+} from './entities';
 import {
   TripRepository,
   StopRepository,
+  DrivingEventRepository,
+  SpeedingEventRepository,
   TrackerStateRepository,
+  ThresholdProfileRepository,
+  GeofenceRepository,
+  DeviceGroupRepository,
+  WebhookRepository,
+  DriverRepository,
+  FuelSensorRepository,
+  FuelEventRepository,
+  IdleEventRepository,
+  PlaceRepository,
+  OdometerAdjustmentRepository,
+  OdometerSourceRepository,
 } from './repositories';
 
 @Module({
@@ -24,7 +58,29 @@ import {
       username: DB_USERNAME,
       password: DB_PASSWORD,
       database: DB_DATABASE,
-      entities: [Trip, Stop, TrackerState],
+      entities: [
+        Trip,
+        Stop,
+        DrivingEvent,
+        SpeedingEvent,
+        SpeedingEvent,
+        TrackerState,
+        ThresholdProfile,
+        ThresholdProfileAssignment,
+        Geofence,
+        DeviceGroup,
+        WebhookSubscription,
+        WebhookDelivery,
+        WebhookDeadLetter,
+        Driver,
+        DriverAssignment,
+        FuelSensor,
+        FuelEvent,
+        IdleEvent,
+        Place,
+        OdometerAdjustment,
+        OdometerSource,
+      ],
       synchronize: true, // TypeORM auto-crea/actualiza tablas
       logging: DB_LOGGING,
       extra: {
@@ -33,14 +89,65 @@ import {
         idleTimeoutMillis: 30000,
       },
     }),
-    TypeOrmModule.forFeature([Trip, Stop, TrackerState]),
+    TypeOrmModule.forFeature([
+      Trip,
+      Stop,
+      DrivingEvent,
+      SpeedingEvent,
+      TrackerState,
+      ThresholdProfile,
+      ThresholdProfileAssignment,
+      Geofence,
+      DeviceGroup,
+      WebhookSubscription,
+      WebhookDelivery,
+      WebhookDeadLetter,
+      Driver,
+      DriverAssignment,
+      FuelSensor,
+      FuelEvent,
+      IdleEvent,
+      Place,
+      OdometerAdjustment,
+      OdometerSource,
+    ]),
+  ],
+  providers: [
+    TripRepository,
+    StopRepository,
+    DrivingEventRepository,
+    SpeedingEventRepository,
+    TrackerStateRepository,
+    ThresholdProfileRepository,
+    GeofenceRepository,
+    DeviceGroupRepository,
+    WebhookRepository,
+    DriverRepository,
+    FuelSensorRepository,
+    FuelEventRepository,
+    IdleEventRepository,
+    PlaceRepository,
+    OdometerAdjustmentRepository,
+    OdometerSourceRepository,
   ],
-  providers: [TripRepository, StopRepository, TrackerStateRepository],
   exports: [
     TypeOrmModule,
     TripRepository,
     StopRepository,
+    DrivingEventRepository,
+    SpeedingEventRepository,
     TrackerStateRepository,
+    ThresholdProfileRepository,
+    GeofenceRepository,
+    DeviceGroupRepository,
+    WebhookRepository,
+    DriverRepository,
+    FuelSensorRepository,
+    FuelEventRepository,
+    IdleEventRepository,
+    PlaceRepository,
+    OdometerAdjustmentRepository,
+    OdometerSourceRepository,
   ],
 })
 export class DatabaseModule {}
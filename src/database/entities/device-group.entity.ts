@@ -0,0 +1,47 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * Grupo de dispositivos (equivalente a los grupos de Traccar)
+ *
+ * - ID numérico para que los clientes de Traccar puedan consultar reportes con
+ *   groupId sin cambios.
+ * - Los grupos se pueden anidar (parent_id): un grupo incluye los dispositivos de
+ *   todos sus subgrupos.
+ * - Un dispositivo puede estar en más de un grupo.
+ */
+@Entity('device_groups')
+@Index(['parent_id'])
+@Index(['tenant_id'])
+export class DeviceGroup {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({ type: 'integer', name: 'parent_id', nullable: true })
+  parent_id: number | null;
+
+  // IDs de dispositivos miembros directos (sin los de los subgrupos)
+  @Column({ type: 'text', name: 'device_ids', array: true, default: '{}' })
+  device_ids: string[];
+
+  @Column({ type: 'varchar', length: 255, name: 'tenant_id', nullable: true })
+  tenant_id: string | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  metadata: Record<string, any> | null;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  created_at: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz', name: 'updated_at' })
+  updated_at: Date;
+}
@@ -0,0 +1,37 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index,
+  CreateDateColumn,
+} from 'typeorm';
+
+/**
+ * Asignación de un conductor a un dispositivo durante un período
+ * (el device X lo maneja el conductor Y desde T1 hasta T2).
+ * Se usa cuando las posiciones no traen el identificador del conductor.
+ */
+@Entity('driver_assignments')
+@Index(['device_id', 'start_time'])
+@Index(['driver_unique_id'])
+export class DriverAssignment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 255, name: 'device_id' })
+  device_id: string;
+
+  // drivers.unique_id (no hace falta que el conductor esté dado de alta)
+  @Column({ type: 'varchar', length: 255, name: 'driver_unique_id' })
+  driver_unique_id: string;
+
+  @Column({ type: 'timestamptz', name: 'start_time' })
+  start_time: Date;
+
+  // null: asignación abierta (sigue vigente)
+  @Column({ type: 'timestamptz', name: 'end_time', nullable: true })
+  end_time: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  created_at: Date;
+}
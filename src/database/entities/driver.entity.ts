@@ -0,0 +1,36 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+@Entity('drivers')
+@Index(['unique_id'], { unique: true })
+@Index(['tenant_id'])
+export class Driver {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Identificador que reporta el equipo (iButton / tarjeta RFID) o que usan las
+  // asignaciones. Es el driver_id que se guarda en trips y stops.
+  @Column({ type: 'varchar', length: 255, name: 'unique_id' })
+  unique_id: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({ type: 'varchar', length: 255, name: 'tenant_id', nullable: true })
+  tenant_id: string | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  metadata: Record<string, any> | null;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  created_at: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz', name: 'updated_at' })
+  updated_at: Date;
+}
@@ -0,0 +1,68 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  Index,
+  CreateDateColumn,
+} from 'typeorm';
+import type { DrivingEventType } from '../../interfaces/driving-event.interface';
+
+/**
+ * Evento de manejo brusco detectado durante un trip
+ * (se elimina junto con el trip: descarte o replay)
+ */
+@Entity('driving_events')
+@Index(['trip_id', 'timestamp'])
+@Index(['id_activo', 'timestamp'])
+export class DrivingEvent {
+  // eventId del evento driving:event (tipo + device + timestamp)
+  @PrimaryColumn({ type: 'varchar', length: 255 })
+  id: string;
+
+  @Column({ type: 'varchar', length: 255, name: 'trip_id' })
+  trip_id: string;
+
+  @Column({ type: 'varchar', length: 255, name: 'id_activo' })
+  id_activo: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  @Index()
+  type: DrivingEventType;
+
+  @Column({ type: 'timestamptz' })
+  timestamp: Date;
+
+  @Column({ type: 'float8' })
+  latitude: number;
+
+  @Column({ type: 'float8' })
+  longitude: number;
+
+  // Velocidad en la posición y en la anterior (km/h)
+  @Column({ type: 'float8' })
+  speed: number;
+
+  @Column({ type: 'float8', name: 'previous_speed' })
+  previous_speed: number;
+
+  // Aceleración medida y umbral superado (m/s²)
+  @Column({ type: 'float8' })
+  value: number;
+
+  @Column({ type: 'float8' })
+  threshold: number;
+
+  // Cambio de rumbo en grados (solo sharp_cornering)
+  @Column({ type: 'float8', name: 'heading_change', nullable: true })
+  heading_change: number | null;
+
+  // Segundos entre las dos posiciones evaluadas
+  @Column({ type: 'float8' })
+  interval: number;
+
+  @Column({ type: 'jsonb', nullable: true })
+  metadata: Record<string, any> | null;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  created_at: Date;
+}
@@ -0,0 +1,65 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  Index,
+  CreateDateColumn,
+} from 'typeorm';
+import type { FuelEventType } from '../../interfaces/fuel-event.interface';
+
+/**
+ * Carga de combustible o caída brusca del nivel con el vehículo detenido
+ * (posible robo), detectadas por el sensor de nivel
+ */
+@Entity('fuel_events')
+@Index(['id_activo', 'start_time'])
+@Index(['type'])
+export class FuelEvent {
+  // eventId de fuel:event (tipo + device + timestamp de inicio)
+  @PrimaryColumn({ type: 'varchar', length: 255 })
+  id: string;
+
+  @Column({ type: 'varchar', length: 255, name: 'id_activo' })
+  id_activo: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  type: FuelEventType;
+
+  @Column({ type: 'timestamptz', name: 'start_time' })
+  start_time: Date;
+
+  @Column({ type: 'timestamptz', name: 'end_time' })
+  end_time: Date;
+
+  @Column({ type: 'int' })
+  duration: number; // segundos
+
+  // Litros cargados o perdidos, y nivel (suavizado) antes y después
+  @Column({ type: 'float8' })
+  amount: number;
+
+  @Column({ type: 'float8', name: 'level_before' })
+  level_before: number;
+
+  @Column({ type: 'float8', name: 'level_after' })
+  level_after: number;
+
+  @Column({ type: 'float8' })
+  latitude: number;
+
+  @Column({ type: 'float8' })
+  longitude: number;
+
+  // Trip / stop en curso cuando ocurrió (si había)
+  @Column({ type: 'varchar', length: 255, name: 'trip_id', nullable: true })
+  trip_id: string | null;
+
+  @Column({ type: 'varchar', length: 255, name: 'stop_id', nullable: true })
+  stop_id: string | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  metadata: Record<string, any> | null;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  created_at: Date;
+}
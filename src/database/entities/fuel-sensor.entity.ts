@@ -0,0 +1,49 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * Tipo de sensor de combustible:
+ * - level: nivel del tanque (se suaviza; detecta cargas y caídas)
+ * - counter: contador de combustible usado (CAN), creciente
+ */
+export type FuelSensorType = 'level' | 'counter';
+
+/**
+ * Unidad de la lectura: litros, o porcentaje del tanque (requiere tank_capacity)
+ */
+export type FuelSensorUnit = 'liters' | 'percent';
+
+/**
+ * Sensor de combustible de un device: de qué clave de la metadata de las
+ * posiciones sale la lectura y cómo interpretarla
+ */
+@Entity('fuel_sensors')
+export class FuelSensor {
+  @PrimaryColumn({ type: 'varchar', length: 255, name: 'device_id' })
+  device_id: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  type: FuelSensorType;
+
+  // Clave de position.metadata con la lectura (ej: "fuel", "io84", "fuelUsed")
+  @Column({ type: 'varchar', length: 100, name: 'metadata_key' })
+  metadata_key: string;
+
+  @Column({ type: 'varchar', length: 20, default: 'liters' })
+  unit: FuelSensorUnit;
+
+  // Capacidad del tanque (litros): convierte lecturas en porcentaje a litros
+  @Column({ type: 'float8', name: 'tank_capacity', nullable: true })
+  tank_capacity: number | null;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  created_at: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz', name: 'updated_at' })
+  updated_at: Date;
+}
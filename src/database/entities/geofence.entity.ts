@@ -0,0 +1,67 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * Tipo de geocerca:
+ * - polygon: anillo de vértices en `coordinates` ([lon, lat], orden GeoJSON)
+ * - circle: centro (center_lat/center_lon) + radio en metros
+ */
+export type GeofenceType = 'polygon' | 'circle';
+
+@Entity('geofences')
+@Index(['category'])
+@Index(['tenant_id'])
+export class Geofence {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  type: GeofenceType;
+
+  // Solo polygon: [[lon, lat], ...] (el anillo puede o no repetir el primer vértice)
+  @Column({ type: 'jsonb', nullable: true })
+  coordinates: Array<[number, number]> | null;
+
+  // Solo circle
+  @Column({ type: 'float8', name: 'center_lat', nullable: true })
+  center_lat: number | null;
+
+  @Column({ type: 'float8', name: 'center_lon', nullable: true })
+  center_lon: number | null;
+
+  @Column({ type: 'float8', nullable: true })
+  radius: number | null; // metros
+
+  // Agrupa geocercas para los reportes (ej: "customer", "depot")
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  category: string | null;
+
+  // Si se define, la geocerca solo aplica a posiciones con ese metadata.tenant_id
+  @Column({ type: 'varchar', length: 255, name: 'tenant_id', nullable: true })
+  tenant_id: string | null;
+
+  // Límite de velocidad dentro de la geocerca (km/h); reemplaza al del perfil del device
+  @Column({ type: 'float8', name: 'speed_limit', nullable: true })
+  speed_limit: number | null;
+
+  @Column({ type: 'boolean', name: 'is_active', default: true })
+  is_active: boolean;
+
+  @Column({ type: 'jsonb', nullable: true })
+  metadata: Record<string, any> | null;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  created_at: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz', name: 'updated_at' })
+  updated_at: Date;
+}
@@ -0,0 +1,58 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  Index,
+  CreateDateColumn,
+} from 'typeorm';
+
+/**
+ * Episodio de ralentí: motor encendido sin movimiento (se guarda al terminar)
+ */
+@Entity('idle_events')
+@Index(['id_activo', 'start_time'])
+@Index(['trip_id'])
+@Index(['geofence_id'])
+export class IdleEvent {
+  // idleId de idle:started / idle:completed (device + timestamp de inicio)
+  @PrimaryColumn({ type: 'varchar', length: 255 })
+  id: string;
+
+  @Column({ type: 'varchar', length: 255, name: 'id_activo' })
+  id_activo: string;
+
+  // Trip confirmado en el que ocurrió (sin trip: ralentí fuera de un viaje)
+  @Column({ type: 'varchar', length: 255, name: 'trip_id', nullable: true })
+  trip_id: string | null;
+
+  @Column({ type: 'varchar', length: 255, name: 'stop_id', nullable: true })
+  stop_id: string | null;
+
+  @Column({ type: 'timestamptz', name: 'start_time' })
+  start_time: Date;
+
+  @Column({ type: 'timestamptz', name: 'end_time' })
+  end_time: Date;
+
+  @Column({ type: 'int' })
+  duration: number; // segundos
+
+  @Column({ type: 'float8' })
+  latitude: number;
+
+  @Column({ type: 'float8' })
+  longitude: number;
+
+  @Column({ type: 'text', name: 'address', nullable: true })
+  address: string | null;
+
+  // Geocerca en la que ocurrió (para reportes por lugar)
+  @Column({ type: 'uuid', name: 'geofence_id', nullable: true })
+  geofence_id: string | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  metadata: Record<string, any> | null;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  created_at: Date;
+}
@@ -1,3 +1,29 @@
 export { Trip } from './trip.entity';
 export { Stop } from './stop.entity';
+export { DrivingEvent } from './driving-event.entity';
+export { SpeedingEvent } from './speeding-event.entity';
 export { TrackerState } from './tracker-state.entity';
+export { ThresholdProfile } from './threshold-profile.entity';
+export { ThresholdProfileAssignment } from './threshold-profile-assignment.entity';
+export type { ThresholdProfileScope } from './threshold-profile-assignment.entity';
+export { Geofence } from './geofence.entity';
+export type { GeofenceType } from './geofence.entity';
+export { DeviceGroup } from './device-group.entity';
+export { WebhookSubscription } from './webhook-subscription.entity';
+export { WebhookDelivery } from './webhook-delivery.entity';
+export { WebhookDeadLetter } from './webhook-dead-letter.entity';
+export { Driver } from './driver.entity';
+export { DriverAssignment } from './driver-assignment.entity';
+export { FuelSensor } from './fuel-sensor.entity';
+export type { FuelSensorType, FuelSensorUnit } from './fuel-sensor.entity';
+export { FuelEvent } from './fuel-event.entity';
+export { IdleEvent } from './idle-event.entity';
+export { Place } from './place.entity';
+export type { PlaceLabel } from './place.entity';
+export { OdometerAdjustment } from './odometer-adjustment.entity';
+export type { OdometerAdjustmentType } from './odometer-adjustment.entity';
+export { OdometerSource } from './odometer-source.entity';
+export type {
+  OdometerSourceType,
+  OdometerSourceUnit,
+} from './odometer-source.entity';
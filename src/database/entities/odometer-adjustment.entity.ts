@@ -0,0 +1,47 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index } from 'typeorm';
+
+/**
+ * Tipo de ajuste del odómetro:
+ * - reset: POST /trackers/:id/odometer/reset (reemplaza el odómetro GPS acumulado)
+ * - set: POST /trackers/:id/odometer (cambia el offset sobre el odómetro GPS)
+ */
+export type OdometerAdjustmentType = 'reset' | 'set';
+
+/**
+ * Registro de auditoría de un ajuste manual del odómetro.
+ * Los valores son los que muestra el tracker (odómetro GPS + offset), en metros.
+ */
+@Entity('odometer_adjustments')
+@Index(['tracker_id', 'adjusted_at'])
+export class OdometerAdjustment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 255, name: 'tracker_id' })
+  tracker_id: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  type: OdometerAdjustmentType;
+
+  @Column({ type: 'float8', name: 'previous_odometer' })
+  previous_odometer: number;
+
+  @Column({ type: 'float8', name: 'new_odometer' })
+  new_odometer: number;
+
+  @Column({ type: 'float8', name: 'previous_offset' })
+  previous_offset: number;
+
+  @Column({ type: 'float8', name: 'odometer_offset' })
+  odometer_offset: number;
+
+  @Column({ type: 'text', nullable: true })
+  reason: string | null;
+
+  // Quién hizo el ajuste (usuario o sistema que llamó a la API)
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  actor: string | null;
+
+  @Column({ type: 'timestamptz', name: 'adjusted_at' })
+  adjusted_at: Date;
+}
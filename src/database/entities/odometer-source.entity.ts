@@ -0,0 +1,55 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * Fuente del odómetro de un device:
+ * - gps: distancia haversine entre posiciones (default)
+ * - device: odómetro reportado por el equipo (CAN / hardware); GPS solo en los huecos
+ * - hybrid: odómetro del equipo mientras coincida con la distancia GPS, GPS si no
+ */
+export type OdometerSourceType = 'gps' | 'device' | 'hybrid';
+
+/**
+ * Unidad de la lectura del odómetro del equipo
+ */
+export type OdometerSourceUnit = 'meters' | 'km';
+
+/**
+ * Configuración del odómetro de un device: de dónde sale la distancia acumulada y
+ * cómo leer el odómetro que reporta el equipo en la metadata de las posiciones
+ */
+@Entity('odometer_sources')
+export class OdometerSource {
+  @PrimaryColumn({ type: 'varchar', length: 255, name: 'device_id' })
+  device_id: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  source: OdometerSourceType;
+
+  // Clave de position.metadata con la lectura (null: DEVICE_ODOMETER_METADATA_KEYS)
+  @Column({
+    type: 'varchar',
+    length: 100,
+    name: 'metadata_key',
+    nullable: true,
+  })
+  metadata_key: string | null;
+
+  @Column({ type: 'varchar', length: 20, default: 'meters' })
+  unit: OdometerSourceUnit;
+
+  // Valor en el que el contador del equipo vuelve a 0 (en la unidad de la lectura)
+  @Column({ type: 'float8', nullable: true })
+  rollover: number | null;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  created_at: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz', name: 'updated_at' })
+  updated_at: Date;
+}
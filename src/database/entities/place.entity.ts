@@ -0,0 +1,76 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * Etiqueta automática de un lugar frecuente:
+ * - home_base: donde el vehículo pasa más noches
+ * - overnight: otro lugar donde suele pasar la noche
+ * - depot: el lugar con más visitas fuera de los anteriores
+ */
+export type PlaceLabel = 'home_base' | 'depot' | 'overnight';
+
+/**
+ * Lugar frecuente de un device: paradas recurrentes agrupadas por densidad.
+ * Lo recalcula periódicamente PlaceClusteringService.
+ */
+@Entity('places')
+@Index(['device_id'])
+export class Place {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 255, name: 'device_id' })
+  device_id: string;
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  label: PlaceLabel | null;
+
+  // Centro (promedio de las paradas)
+  @Column({ type: 'float8' })
+  latitude: number;
+
+  @Column({ type: 'float8' })
+  longitude: number;
+
+  @Column({ type: 'float8' })
+  radius: number; // metros
+
+  // Dirección más frecuente de las paradas
+  @Column({ type: 'text', nullable: true })
+  address: string | null;
+
+  @Column({ type: 'integer', name: 'visit_count' })
+  visit_count: number;
+
+  @Column({ type: 'integer', name: 'total_dwell_time' })
+  total_dwell_time: number; // segundos
+
+  // Paradas que pasaron la noche (cruzan la medianoche local)
+  @Column({ type: 'integer', name: 'overnight_count', default: 0 })
+  overnight_count: number;
+
+  // Hora local (PLACES_TIMEZONE) más frecuente de llegada / salida
+  @Column({ type: 'smallint', name: 'typical_arrival_hour', nullable: true })
+  typical_arrival_hour: number | null;
+
+  @Column({ type: 'smallint', name: 'typical_departure_hour', nullable: true })
+  typical_departure_hour: number | null;
+
+  @Column({ type: 'timestamptz', name: 'first_visit_at' })
+  first_visit_at: Date;
+
+  @Column({ type: 'timestamptz', name: 'last_visit_at' })
+  last_visit_at: Date;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  created_at: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz', name: 'updated_at' })
+  updated_at: Date;
+}
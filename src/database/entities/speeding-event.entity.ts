@@ -0,0 +1,68 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  Index,
+  CreateDateColumn,
+} from 'typeorm';
+
+/**
+ * Episodio de exceso de velocidad de un trip (se guarda al terminar)
+ * (se elimina junto con el trip: descarte o replay)
+ */
+@Entity('speeding_events')
+@Index(['trip_id', 'start_time'])
+@Index(['id_activo', 'start_time'])
+export class SpeedingEvent {
+  // speedingId de speeding:started / speeding:ended (device + timestamp de inicio)
+  @PrimaryColumn({ type: 'varchar', length: 255 })
+  id: string;
+
+  @Column({ type: 'varchar', length: 255, name: 'trip_id' })
+  trip_id: string;
+
+  @Column({ type: 'varchar', length: 255, name: 'id_activo' })
+  id_activo: string;
+
+  @Column({ type: 'timestamptz', name: 'start_time' })
+  start_time: Date;
+
+  @Column({ type: 'timestamptz', name: 'end_time' })
+  end_time: Date;
+
+  @Column({ type: 'int' })
+  duration: number; // segundos
+
+  @Column({ type: 'float8' })
+  distance: number; // metros
+
+  // Velocidad máxima del episodio y límite vigente (km/h)
+  @Column({ type: 'float8', name: 'max_speed' })
+  max_speed: number;
+
+  @Column({ type: 'float8', name: 'speed_limit' })
+  speed_limit: number;
+
+  // Geocerca de la que sale el límite (null: perfil del device)
+  @Column({ type: 'uuid', name: 'geofence_id', nullable: true })
+  @Index()
+  geofence_id: string | null;
+
+  @Column({ type: 'float8', name: 'start_lat' })
+  start_lat: number;
+
+  @Column({ type: 'float8', name: 'start_lon' })
+  start_lon: number;
+
+  @Column({ type: 'float8', name: 'end_lat' })
+  end_lat: number;
+
+  @Column({ type: 'float8', name: 'end_lon' })
+  end_lon: number;
+
+  @Column({ type: 'jsonb', nullable: true })
+  metadata: Record<string, any> | null;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  created_at: Date;
+}
@@ -47,6 +47,11 @@ export class Stop {
   @Column({ type: 'text', name: 'address', nullable: true })
   address: string | null;
 
+  // Geocerca en la que cae el stop (la más chica si hay varias)
+  @Column({ type: 'uuid', name: 'geofence_id', nullable: true })
+  @Index()
+  geofence_id: string | null;
+
   @Column({ type: 'text', name: 'reason', default: 'ignition_off' })
   reason: string; // 'ignition_off' | 'no_movement' | 'parking'
 
@@ -56,6 +61,23 @@ export class Stop {
   @Column({ type: 'float8', name: 'end_odometer', nullable: true })
   end_odometer: number | null;
 
+  // Horómetro (horas, con offset) al inicio/fin del stop
+  @Column({ type: 'float8', name: 'start_engine_hours', nullable: true })
+  start_engine_hours: number | null;
+
+  @Column({ type: 'float8', name: 'end_engine_hours', nullable: true })
+  end_engine_hours: number | null;
+
+  // Conductor (drivers.unique_id) según la posición o la asignación vigente
+  @Column({ type: 'varchar', length: 255, name: 'driver_id', nullable: true })
+  @Index()
+  driver_id: string | null;
+
+  // Lugar frecuente (places) en el que cae el stop
+  @Column({ type: 'uuid', name: 'place_id', nullable: true })
+  @Index()
+  place_id: string | null;
+
   @Column({ type: 'boolean', name: 'is_active', default: true })
   @Index()
   is_active: boolean;
@@ -0,0 +1,34 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index,
+  CreateDateColumn,
+} from 'typeorm';
+
+/**
+ * Alcance de una asignación de perfil de umbrales.
+ * Prioridad al resolver: device > fleet (metadata.fleet_id) > tenant (metadata.tenant_id)
+ */
+export type ThresholdProfileScope = 'device' | 'fleet' | 'tenant';
+
+@Entity('threshold_profile_assignments')
+@Index(['scope', 'scope_id'], { unique: true })
+@Index(['profile_id'])
+export class ThresholdProfileAssignment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  scope: ThresholdProfileScope;
+
+  // deviceId, fleet_id o tenant_id según scope
+  @Column({ type: 'varchar', length: 255, name: 'scope_id' })
+  scope_id: string;
+
+  @Column({ type: 'uuid', name: 'profile_id' })
+  profile_id: string;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  created_at: Date;
+}
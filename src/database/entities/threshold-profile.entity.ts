@@ -0,0 +1,33 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import type { IDetectionThresholds } from '../../detection/models';
+
+/**
+ * Perfil de umbrales de detección (moto, camión, máquina vial, etc.)
+ * Solo guarda los umbrales que difieren de DEFAULT_THRESHOLDS.
+ */
+@Entity('threshold_profiles')
+export class ThresholdProfile {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 100, unique: true })
+  name: string;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  @Column({ type: 'jsonb', default: {} })
+  thresholds: Partial<IDetectionThresholds>;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  created_at: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz', name: 'updated_at' })
+  updated_at: Date;
+}
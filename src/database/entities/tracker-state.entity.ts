@@ -31,6 +31,36 @@ export class TrackerState {
   @Column({ type: 'float8', name: 'trip_odometer_start', nullable: true })
   trip_odometer_start: number | null;
 
+  // Odómetro reportado por el equipo (CAN / hardware)
+  @Column({ type: 'float8', name: 'device_odometer', nullable: true })
+  device_odometer: number | null;
+
+  @Column({ type: 'timestamptz', name: 'device_odometer_at', nullable: true })
+  device_odometer_at: Date | null;
+
+  @Column({ type: 'float8', name: 'device_odometer_offset', default: 0 })
+  device_odometer_offset: number;
+
+  @Column({ type: 'float8', name: 'gps_since_device_reading', default: 0 })
+  gps_since_device_reading: number;
+
+  // Deriva GPS vs equipo: distancia de cada uno en los tramos medidos por ambos
+  @Column({ type: 'float8', name: 'drift_device_distance', default: 0 })
+  drift_device_distance: number;
+
+  @Column({ type: 'float8', name: 'drift_gps_distance', default: 0 })
+  drift_gps_distance: number;
+
+  // Horas de motor (en segundos con ignición encendida)
+  @Column({ type: 'float8', name: 'total_engine_time', default: 0 })
+  total_engine_time: number;
+
+  @Column({ type: 'float8', name: 'engine_time_offset', default: 0 })
+  engine_time_offset: number;
+
+  @Column({ type: 'float8', name: 'trip_engine_time_start', nullable: true })
+  trip_engine_time_start: number | null;
+
   // Última posición conocida
   @Column({ type: 'timestamptz', name: 'last_position_time', nullable: true })
   last_position_time: Date | null;
@@ -75,6 +75,15 @@ export class Trip {
   @Column({ type: 'text', name: 'end_address', nullable: true })
   end_address: string | null;
 
+  // Geocerca en la que empezó/terminó el trip (la más chica si hay varias)
+  @Column({ type: 'uuid', name: 'start_geofence_id', nullable: true })
+  @Index()
+  start_geofence_id: string | null;
+
+  @Column({ type: 'uuid', name: 'end_geofence_id', nullable: true })
+  @Index()
+  end_geofence_id: string | null;
+
   @Column({ type: 'jsonb', name: 'route_points', default: '[]' })
   route_points: Array<{
     lat: number;
@@ -86,6 +95,32 @@ export class Trip {
   @Column({ type: 'int', name: 'stop_count', default: 0 })
   stop_count: number;
 
+  // Eventos de manejo brusco del trip (detalle en driving_events)
+  @Column({ type: 'int', name: 'harsh_acceleration_count', default: 0 })
+  harsh_acceleration_count: number;
+
+  @Column({ type: 'int', name: 'harsh_braking_count', default: 0 })
+  harsh_braking_count: number;
+
+  @Column({ type: 'int', name: 'sharp_cornering_count', default: 0 })
+  sharp_cornering_count: number;
+
+  // Horómetro (horas, con offset) al inicio/fin del trip
+  @Column({ type: 'float8', name: 'start_engine_hours', nullable: true })
+  start_engine_hours: number | null;
+
+  @Column({ type: 'float8', name: 'end_engine_hours', nullable: true })
+  end_engine_hours: number | null;
+
+  // Conductor (drivers.unique_id) según la posición o la asignación vigente
+  @Column({ type: 'varchar', length: 255, name: 'driver_id', nullable: true })
+  @Index()
+  driver_id: string | null;
+
+  // Combustible consumido (litros) según el sensor del device; null sin sensor
+  @Column({ type: 'float8', name: 'spent_fuel', nullable: true })
+  spent_fuel: number | null;
+
   @Column({ type: 'boolean', name: 'is_active', default: true })
   @Index()
   is_active: boolean;
@@ -0,0 +1,42 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index,
+  CreateDateColumn,
+} from 'typeorm';
+
+/**
+ * Envío de webhook que agotó sus reintentos (se puede reenviar vía API)
+ */
+@Entity('webhook_dead_letters')
+@Index(['subscription_id'])
+export class WebhookDeadLetter {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid', name: 'subscription_id' })
+  subscription_id: string;
+
+  @Column({ type: 'varchar', length: 50, name: 'event_type' })
+  event_type: string;
+
+  @Column({ type: 'jsonb' })
+  payload: Record<string, any>;
+
+  @Column({ type: 'int' })
+  attempts: number;
+
+  @Column({ type: 'int', name: 'last_status_code', nullable: true })
+  last_status_code: number | null;
+
+  @Column({ type: 'text', name: 'last_error', nullable: true })
+  last_error: string | null;
+
+  // Momento en que se generó el evento (created_at del envío original)
+  @Column({ type: 'timestamptz', name: 'event_created_at' })
+  event_created_at: Date;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'failed_at' })
+  failed_at: Date;
+}
@@ -0,0 +1,45 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index,
+  CreateDateColumn,
+} from 'typeorm';
+
+/**
+ * Envío de webhook pendiente (cola de entrega)
+ *
+ * Se elimina al entregarse; tras WEBHOOKS_MAX_ATTEMPTS fallos pasa a
+ * webhook_dead_letters.
+ */
+@Entity('webhook_deliveries')
+@Index(['next_attempt_at'])
+@Index(['subscription_id'])
+export class WebhookDelivery {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid', name: 'subscription_id' })
+  subscription_id: string;
+
+  @Column({ type: 'varchar', length: 50, name: 'event_type' })
+  event_type: string;
+
+  @Column({ type: 'jsonb' })
+  payload: Record<string, any>;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @Column({ type: 'timestamptz', name: 'next_attempt_at' })
+  next_attempt_at: Date;
+
+  @Column({ type: 'int', name: 'last_status_code', nullable: true })
+  last_status_code: number | null;
+
+  @Column({ type: 'text', name: 'last_error', nullable: true })
+  last_error: string | null;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  created_at: Date;
+}
@@ -0,0 +1,49 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * Suscripción a los eventos de Tripero por webhook (HTTP POST firmado con HMAC)
+ */
+@Entity('webhook_subscriptions')
+@Index(['tenant_id'])
+export class WebhookSubscription {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 2048 })
+  url: string;
+
+  // Tipos de evento (ej: 'trip:completed'); vacío = todos
+  @Column({ type: 'text', array: true, name: 'event_types', default: '{}' })
+  event_types: string[];
+
+  // Si se define, solo eventos con ese metadata.tenant_id
+  @Column({ type: 'varchar', length: 255, name: 'tenant_id', nullable: true })
+  tenant_id: string | null;
+
+  // Pares clave/valor que el metadata del evento debe tener (todos)
+  @Column({ type: 'jsonb', name: 'metadata_filter', nullable: true })
+  metadata_filter: Record<string, any> | null;
+
+  // Clave HMAC-SHA256 para firmar los envíos
+  @Column({ type: 'varchar', length: 255 })
+  secret: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  description: string | null;
+
+  @Column({ type: 'boolean', name: 'is_active', default: true })
+  is_active: boolean;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  created_at: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz', name: 'updated_at' })
+  updated_at: Date;
+}
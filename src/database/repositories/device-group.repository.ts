@@ -0,0 +1,104 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { DeviceGroup } from '../entities';
+
+export interface ICreateDeviceGroupData {
+  name: string;
+  parent_id?: number | null;
+  device_ids?: string[];
+  tenant_id?: string | null;
+  metadata?: Record<string, any> | null;
+}
+
+export type IUpdateDeviceGroupData = Partial<ICreateDeviceGroupData>;
+
+@Injectable()
+export class DeviceGroupRepository {
+  constructor(
+    @InjectRepository(DeviceGroup)
+    private readonly deviceGroupRepo: Repository<DeviceGroup>,
+  ) {}
+
+  async findAll(filters?: { tenantId?: string }): Promise<DeviceGroup[]> {
+    const where: any = {};
+    if (filters?.tenantId) where.tenant_id = filters.tenantId;
+
+    return await this.deviceGroupRepo.find({ where, order: { name: 'ASC' } });
+  }
+
+  async findById(id: number): Promise<DeviceGroup | null> {
+    return await this.deviceGroupRepo.findOne({ where: { id } });
+  }
+
+  async findChildren(id: number): Promise<DeviceGroup[]> {
+    return await this.deviceGroupRepo.find({
+      where: { parent_id: id },
+      order: { name: 'ASC' },
+    });
+  }
+
+  /**
+   * IDs del grupo y de todos sus subgrupos (recursivo)
+   */
+  async findSubtreeIds(id: number): Promise<number[]> {
+    const rows: Array<{ id: number }> = await this.deviceGroupRepo.query(
+      `WITH RECURSIVE tree AS (
+         SELECT id FROM device_groups WHERE id = $1
+         UNION
+         SELECT g.id FROM device_groups g JOIN tree t ON g.parent_id = t.id
+       )
+       SELECT id FROM tree`,
+      [id],
+    );
+
+    return rows.map((row) => Number(row.id));
+  }
+
+  /**
+   * Dispositivos de los grupos, incluyendo los de sus subgrupos (sin duplicados).
+   * UNION (no UNION ALL) corta la recursión aunque hubiera un ciclo en parent_id.
+   */
+  async findDeviceIdsByGroups(groupIds: number[]): Promise<string[]> {
+    if (groupIds.length === 0) return [];
+
+    const rows: Array<{ device_id: string }> = await this.deviceGroupRepo.query(
+      `WITH RECURSIVE tree AS (
+         SELECT id FROM device_groups WHERE id = ANY($1::int[])
+         UNION
+         SELECT g.id FROM device_groups g JOIN tree t ON g.parent_id = t.id
+       )
+       SELECT DISTINCT unnest(g.device_ids) AS device_id
+       FROM device_groups g
+       JOIN tree t ON g.id = t.id
+       ORDER BY device_id`,
+      [groupIds],
+    );
+
+    return rows.map((row) => row.device_id);
+  }
+
+  async create(data: ICreateDeviceGroupData): Promise<DeviceGroup> {
+    const group = this.deviceGroupRepo.create(data);
+    return await this.deviceGroupRepo.save(group);
+  }
+
+  async update(
+    id: number,
+    data: IUpdateDeviceGroupData,
+  ): Promise<DeviceGroup | null> {
+    const group = await this.findById(id);
+    if (!group) return null;
+
+    Object.assign(group, data);
+    return await this.deviceGroupRepo.save(group);
+  }
+
+  /**
+   * @returns true si se eliminó, false si no existía
+   */
+  async delete(id: number): Promise<boolean> {
+    const result = await this.deviceGroupRepo.delete({ id });
+    return (result.affected || 0) > 0;
+  }
+}
@@ -0,0 +1,148 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Driver, DriverAssignment } from '../entities';
+
+export interface ICreateDriverData {
+  unique_id: string;
+  name: string;
+  tenant_id?: string | null;
+  metadata?: Record<string, any> | null;
+}
+
+export type IUpdateDriverData = Partial<Omit<ICreateDriverData, 'unique_id'>>;
+
+export interface ICreateDriverAssignmentData {
+  device_id: string;
+  driver_unique_id: string;
+  start_time: Date;
+  end_time?: Date | null;
+}
+
+@Injectable()
+export class DriverRepository {
+  constructor(
+    @InjectRepository(Driver)
+    private readonly driverRepo: Repository<Driver>,
+    @InjectRepository(DriverAssignment)
+    private readonly assignmentRepo: Repository<DriverAssignment>,
+  ) {}
+
+  async findAll(filters?: { tenantId?: string }): Promise<Driver[]> {
+    const where: any = {};
+    if (filters?.tenantId) where.tenant_id = filters.tenantId;
+
+    return await this.driverRepo.find({ where, order: { name: 'ASC' } });
+  }
+
+  async findById(id: string): Promise<Driver | null> {
+    return await this.driverRepo.findOne({ where: { id } });
+  }
+
+  async findByUniqueId(uniqueId: string): Promise<Driver | null> {
+    return await this.driverRepo.findOne({ where: { unique_id: uniqueId } });
+  }
+
+  async findByUniqueIds(uniqueIds: string[]): Promise<Driver[]> {
+    if (uniqueIds.length === 0) return [];
+    return await this.driverRepo.find({
+      where: { unique_id: In(uniqueIds) },
+    });
+  }
+
+  async create(data: ICreateDriverData): Promise<Driver> {
+    const driver = this.driverRepo.create(data);
+    return await this.driverRepo.save(driver);
+  }
+
+  async update(id: string, data: IUpdateDriverData): Promise<Driver | null> {
+    const driver = await this.findById(id);
+    if (!driver) return null;
+
+    Object.assign(driver, data);
+    return await this.driverRepo.save(driver);
+  }
+
+  /**
+   * Elimina un conductor junto con sus asignaciones
+   * (los trips/stops ya registrados conservan su driver_id)
+   * @returns true si se eliminó, false si no existía
+   */
+  async delete(id: string): Promise<boolean> {
+    const driver = await this.findById(id);
+    if (!driver) return false;
+
+    await this.assignmentRepo.delete({ driver_unique_id: driver.unique_id });
+    const result = await this.driverRepo.delete({ id });
+    return (result.affected || 0) > 0;
+  }
+
+  /**
+   * Asignaciones que se solapan con [from, to] (sin rango: todas)
+   */
+  async findAssignments(filters: {
+    deviceId?: string;
+    driverUniqueId?: string;
+    from?: Date;
+    to?: Date;
+  }): Promise<DriverAssignment[]> {
+    const queryBuilder = this.assignmentRepo
+      .createQueryBuilder('assignment')
+      .orderBy('assignment.start_time', 'DESC');
+
+    if (filters.deviceId) {
+      queryBuilder.andWhere('assignment.device_id = :deviceId', {
+        deviceId: filters.deviceId,
+      });
+    }
+
+    if (filters.driverUniqueId) {
+      queryBuilder.andWhere('assignment.driver_unique_id = :driverUniqueId', {
+        driverUniqueId: filters.driverUniqueId,
+      });
+    }
+
+    if (filters.to) {
+      queryBuilder.andWhere('assignment.start_time <= :to', { to: filters.to });
+    }
+
+    if (filters.from) {
+      queryBuilder.andWhere(
+        '(assignment.end_time IS NULL OR assignment.end_time >= :from)',
+        { from: filters.from },
+      );
+    }
+
+    return await queryBuilder.getMany();
+  }
+
+  async findAssignmentById(id: string): Promise<DriverAssignment | null> {
+    return await this.assignmentRepo.findOne({ where: { id } });
+  }
+
+  async createAssignment(
+    data: ICreateDriverAssignmentData,
+  ): Promise<DriverAssignment> {
+    const assignment = this.assignmentRepo.create(data);
+    return await this.assignmentRepo.save(assignment);
+  }
+
+  async updateAssignment(
+    id: string,
+    data: Partial<ICreateDriverAssignmentData>,
+  ): Promise<DriverAssignment | null> {
+    const assignment = await this.findAssignmentById(id);
+    if (!assignment) return null;
+
+    Object.assign(assignment, data);
+    return await this.assignmentRepo.save(assignment);
+  }
+
+  /**
+   * @returns true si se eliminó, false si no existía
+   */
+  async deleteAssignment(id: string): Promise<boolean> {
+    const result = await this.assignmentRepo.delete({ id });
+    return (result.affected || 0) > 0;
+  }
+}
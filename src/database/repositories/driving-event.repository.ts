@@ -0,0 +1,77 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, EntityManager } from 'typeorm';
+import { DrivingEvent } from '../entities';
+import type { DrivingEventType } from '../../interfaces/driving-event.interface';
+
+export interface ICreateDrivingEventData {
+  id: string;
+  trip_id: string;
+  id_activo: string;
+  type: DrivingEventType;
+  timestamp: Date;
+  latitude: number;
+  longitude: number;
+  speed: number;
+  previous_speed: number;
+  value: number;
+  threshold: number;
+  heading_change?: number | null;
+  interval: number;
+  metadata?: Record<string, any> | null;
+}
+
+@Injectable()
+export class DrivingEventRepository {
+  constructor(
+    @InjectRepository(DrivingEvent)
+    private readonly drivingEventRepo: Repository<DrivingEvent>,
+  ) {}
+
+  /**
+   * Repositorio a usar: el de la transacción si se pasa un manager (replay)
+   */
+  private repo(manager?: EntityManager): Repository<DrivingEvent> {
+    return manager
+      ? manager.getRepository(DrivingEvent)
+      : this.drivingEventRepo;
+  }
+
+  async create(
+    data: ICreateDrivingEventData,
+    manager?: EntityManager,
+  ): Promise<DrivingEvent> {
+    const repo = this.repo(manager);
+    return await repo.save(repo.create(data));
+  }
+
+  async findById(
+    id: string,
+    manager?: EntityManager,
+  ): Promise<DrivingEvent | null> {
+    return await this.repo(manager).findOne({ where: { id } });
+  }
+
+  async findByTrip(trip_id: string): Promise<DrivingEvent[]> {
+    return await this.drivingEventRepo.find({
+      where: { trip_id },
+      order: { timestamp: 'ASC' },
+    });
+  }
+
+  /**
+   * Elimina los eventos de los trips indicados (trip descartado o regenerado por replay)
+   */
+  async deleteByTripIds(
+    tripIds: string[],
+    manager?: EntityManager,
+  ): Promise<number> {
+    if (tripIds.length === 0) return 0;
+
+    const result = await this.repo(manager).delete({
+      trip_id: In(tripIds),
+    });
+
+    return result.affected || 0;
+  }
+}
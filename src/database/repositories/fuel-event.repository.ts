@@ -0,0 +1,178 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  Repository,
+  Between,
+  SelectQueryBuilder,
+  In,
+  EntityManager,
+} from 'typeorm';
+import { FuelEvent } from '../entities';
+import type { FuelEventType } from '../../interfaces';
+import {
+  IReportQuery,
+  IReportPage,
+  IReportPageOptions,
+  findReportPage,
+} from './report-page';
+
+export interface ICreateFuelEventData {
+  id: string;
+  id_activo: string;
+  type: FuelEventType;
+  start_time: Date;
+  end_time: Date;
+  duration: number;
+  amount: number;
+  level_before: number;
+  level_after: number;
+  latitude: number;
+  longitude: number;
+  trip_id?: string | null;
+  stop_id?: string | null;
+  metadata?: Record<string, any> | null;
+}
+
+@Injectable()
+export class FuelEventRepository {
+  constructor(
+    @InjectRepository(FuelEvent)
+    private readonly fuelEventRepo: Repository<FuelEvent>,
+  ) {}
+
+  /**
+   * Repositorio a usar: el de la transacción si se pasa un manager (replay)
+   */
+  private repo(manager?: EntityManager): Repository<FuelEvent> {
+    return manager ? manager.getRepository(FuelEvent) : this.fuelEventRepo;
+  }
+
+  async create(
+    data: ICreateFuelEventData,
+    manager?: EntityManager,
+  ): Promise<FuelEvent> {
+    const repo = this.repo(manager);
+    return await repo.save(repo.create(data));
+  }
+
+  async findById(
+    id: string,
+    manager?: EntityManager,
+  ): Promise<FuelEvent | null> {
+    return await this.repo(manager).findOne({ where: { id } });
+  }
+
+  /**
+   * Página del reporte de combustible: cargas/caídas que empiezan en el período,
+   * con los filtros de dispositivo, metadata y tipo
+   */
+  async findReportPage(
+    query: IReportQuery,
+    options: IReportPageOptions,
+  ): Promise<IReportPage<FuelEvent>> {
+    return await findReportPage(this.createReportQuery(query), 'fuel', options);
+  }
+
+  /**
+   * Eventos del device que empiezan en el rango (replay)
+   */
+  async findByAssetStartingBetween(
+    id_activo: string,
+    startTime: Date,
+    endTime: Date,
+  ): Promise<FuelEvent[]> {
+    return await this.fuelEventRepo.find({
+      where: { id_activo, start_time: Between(startTime, endTime) },
+      order: { start_time: 'ASC' },
+    });
+  }
+
+  /**
+   * Eventos por ID (replay: lo guardado con el mismo ID que lo regenerado)
+   */
+  async findByIds(ids: string[]): Promise<FuelEvent[]> {
+    if (ids.length === 0) return [];
+
+    return await this.fuelEventRepo.find({ where: { id: In(ids) } });
+  }
+
+  /**
+   * Elimina eventos por ID (replay)
+   */
+  async deleteByIds(ids: string[], manager?: EntityManager): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    const result = await this.repo(manager).delete({ id: In(ids) });
+    return result.affected || 0;
+  }
+
+  /**
+   * Query base de findReportPage (sin orden ni límite)
+   */
+  private createReportQuery(
+    query: IReportQuery,
+  ): SelectQueryBuilder<FuelEvent> {
+    const {
+      deviceIds,
+      from: fromDate,
+      to: toDate,
+      tenantId,
+      clientId,
+      fleetId,
+      metadata,
+      driverIds,
+      fuelEventType,
+    } = query;
+
+    const queryBuilder = this.fuelEventRepo
+      .createQueryBuilder('fuel')
+      .where('fuel.start_time BETWEEN :fromDate AND :toDate', {
+        fromDate,
+        toDate,
+      });
+
+    if (deviceIds && deviceIds.length > 0) {
+      queryBuilder.andWhere('fuel.id_activo IN (:...deviceIds)', {
+        deviceIds,
+      });
+    }
+
+    if (tenantId) {
+      queryBuilder.andWhere("fuel.metadata->>'tenant_id' = :tenantId", {
+        tenantId,
+      });
+    }
+
+    if (clientId) {
+      queryBuilder.andWhere("fuel.metadata->>'client_id' = :clientId", {
+        clientId,
+      });
+    }
+
+    if (fleetId) {
+      queryBuilder.andWhere("fuel.metadata->>'fleet_id' = :fleetId", {
+        fleetId,
+      });
+    }
+
+    if (metadata && Object.keys(metadata).length > 0) {
+      queryBuilder.andWhere('fuel.metadata @> :metadata', {
+        metadata: JSON.stringify(metadata),
+      });
+    }
+
+    // Conductor del trip en el que ocurrió (paradas dentro de un trip)
+    if (driverIds && driverIds.length > 0) {
+      queryBuilder.andWhere(
+        'fuel.trip_id IN (SELECT t.id FROM trips t WHERE t.driver_id IN (:...driverIds))',
+        { driverIds },
+      );
+    }
+
+    if (fuelEventType) {
+      queryBuilder.andWhere('fuel.type = :fuelEventType', { fuelEventType });
+    }
+
+    return queryBuilder;
+  }
+}
@@ -0,0 +1,50 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { FuelSensor, FuelSensorType, FuelSensorUnit } from '../entities';
+
+export interface IUpsertFuelSensorData {
+  type: FuelSensorType;
+  metadata_key: string;
+  unit: FuelSensorUnit;
+  tank_capacity?: number | null;
+}
+
+@Injectable()
+export class FuelSensorRepository {
+  constructor(
+    @InjectRepository(FuelSensor)
+    private readonly fuelSensorRepo: Repository<FuelSensor>,
+  ) {}
+
+  async findAll(): Promise<FuelSensor[]> {
+    return await this.fuelSensorRepo.find({ order: { device_id: 'ASC' } });
+  }
+
+  async findByDeviceId(device_id: string): Promise<FuelSensor | null> {
+    return await this.fuelSensorRepo.findOne({ where: { device_id } });
+  }
+
+  /**
+   * Crea o reemplaza el sensor del device
+   */
+  async upsert(
+    device_id: string,
+    data: IUpsertFuelSensorData,
+  ): Promise<FuelSensor> {
+    const sensor =
+      (await this.findByDeviceId(device_id)) ??
+      this.fuelSensorRepo.create({ device_id });
+
+    Object.assign(sensor, { tank_capacity: null, ...data });
+    return await this.fuelSensorRepo.save(sensor);
+  }
+
+  /**
+   * @returns true si se eliminó, false si no existía
+   */
+  async delete(device_id: string): Promise<boolean> {
+    const result = await this.fuelSensorRepo.delete({ device_id });
+    return (result.affected || 0) > 0;
+  }
+}
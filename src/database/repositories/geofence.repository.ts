@@ -0,0 +1,71 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Geofence, GeofenceType } from '../entities';
+
+export interface ICreateGeofenceData {
+  name: string;
+  type: GeofenceType;
+  coordinates?: Array<[number, number]> | null;
+  center_lat?: number | null;
+  center_lon?: number | null;
+  radius?: number | null;
+  category?: string | null;
+  tenant_id?: string | null;
+  speed_limit?: number | null;
+  is_active?: boolean;
+  metadata?: Record<string, any> | null;
+}
+
+export type IUpdateGeofenceData = Partial<ICreateGeofenceData>;
+
+@Injectable()
+export class GeofenceRepository {
+  constructor(
+    @InjectRepository(Geofence)
+    private readonly geofenceRepo: Repository<Geofence>,
+  ) {}
+
+  async findAll(filters?: {
+    category?: string;
+    tenantId?: string;
+  }): Promise<Geofence[]> {
+    const where: any = {};
+    if (filters?.category) where.category = filters.category;
+    if (filters?.tenantId) where.tenant_id = filters.tenantId;
+
+    return await this.geofenceRepo.find({ where, order: { name: 'ASC' } });
+  }
+
+  async findAllActive(): Promise<Geofence[]> {
+    return await this.geofenceRepo.find({ where: { is_active: true } });
+  }
+
+  async findById(id: string): Promise<Geofence | null> {
+    return await this.geofenceRepo.findOne({ where: { id } });
+  }
+
+  async create(data: ICreateGeofenceData): Promise<Geofence> {
+    const geofence = this.geofenceRepo.create(data);
+    return await this.geofenceRepo.save(geofence);
+  }
+
+  async update(
+    id: string,
+    data: IUpdateGeofenceData,
+  ): Promise<Geofence | null> {
+    const geofence = await this.findById(id);
+    if (!geofence) return null;
+
+    Object.assign(geofence, data);
+    return await this.geofenceRepo.save(geofence);
+  }
+
+  /**
+   * @returns true si se eliminó, false si no existía
+   */
+  async delete(id: string): Promise<boolean> {
+    const result = await this.geofenceRepo.delete({ id });
+    return (result.affected || 0) > 0;
+  }
+}
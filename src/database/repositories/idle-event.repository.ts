@@ -0,0 +1,238 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  Repository,
+  Between,
+  SelectQueryBuilder,
+  In,
+  EntityManager,
+} from 'typeorm';
+import { IdleEvent } from '../entities';
+import {
+  IReportQuery,
+  IReportPage,
+  IReportPageOptions,
+  findReportPage,
+} from './report-page';
+
+export interface ICreateIdleEventData {
+  id: string;
+  id_activo: string;
+  trip_id?: string | null;
+  stop_id?: string | null;
+  start_time: Date;
+  end_time: Date;
+  duration: number;
+  latitude: number;
+  longitude: number;
+  address?: string | null;
+  geofence_id?: string | null;
+  metadata?: Record<string, any> | null;
+}
+
+/**
+ * Fila agregada de episodios de ralentí por dispositivo (y día) del reporte resumen
+ */
+export interface IIdleSummaryRow {
+  device_id: string;
+  day: string | null;
+  idle_time: string | null;
+}
+
+@Injectable()
+export class IdleEventRepository {
+  constructor(
+    @InjectRepository(IdleEvent)
+    private readonly idleEventRepo: Repository<IdleEvent>,
+  ) {}
+
+  /**
+   * Repositorio a usar: el de la transacción si se pasa un manager (replay)
+   */
+  private repo(manager?: EntityManager): Repository<IdleEvent> {
+    return manager ? manager.getRepository(IdleEvent) : this.idleEventRepo;
+  }
+
+  async create(
+    data: ICreateIdleEventData,
+    manager?: EntityManager,
+  ): Promise<IdleEvent> {
+    const repo = this.repo(manager);
+    return await repo.save(repo.create(data));
+  }
+
+  async findById(
+    id: string,
+    manager?: EntityManager,
+  ): Promise<IdleEvent | null> {
+    return await this.repo(manager).findOne({ where: { id } });
+  }
+
+  /**
+   * Episodios de un activo que se solapan con el período (timeline diario)
+   */
+  async findOverlappingByAsset(
+    id_activo: string,
+    startTime: Date,
+    endTime: Date,
+  ): Promise<IdleEvent[]> {
+    return await this.idleEventRepo
+      .createQueryBuilder('idle')
+      .where('idle.id_activo = :id_activo', { id_activo })
+      .andWhere('idle.start_time <= :endTime', { endTime })
+      .andWhere('idle.end_time >= :startTime', { startTime })
+      .orderBy('idle.start_time', 'ASC')
+      .getMany();
+  }
+
+  /**
+   * Página del reporte de ralentí: episodios que empiezan en el período,
+   * con los filtros de dispositivo, metadata, geocerca y conductor
+   */
+  async findReportPage(
+    query: IReportQuery,
+    options: IReportPageOptions,
+  ): Promise<IReportPage<IdleEvent>> {
+    return await findReportPage(this.createReportQuery(query), 'idle', options);
+  }
+
+  /**
+   * Resumen de los episodios de ralentí que empiezan en el período, por dispositivo
+   * (y por día en la zona horaria `dailyTimezone`, si se indica)
+   */
+  async getSummaryRows(
+    query: IReportQuery,
+    dailyTimezone?: string,
+  ): Promise<IIdleSummaryRow[]> {
+    const queryBuilder = this.createReportQuery(query)
+      .select('idle.id_activo', 'device_id')
+      .addSelect('SUM(idle.duration)', 'idle_time')
+      .groupBy('idle.id_activo');
+
+    if (dailyTimezone) {
+      queryBuilder
+        .addSelect(
+          "to_char(idle.start_time AT TIME ZONE :timezone, 'YYYY-MM-DD')",
+          'day',
+        )
+        .addGroupBy('day')
+        .setParameter('timezone', dailyTimezone);
+    }
+
+    return await queryBuilder.getRawMany<IIdleSummaryRow>();
+  }
+
+  /**
+   * Episodios del device que empiezan en el rango (replay)
+   */
+  async findByAssetStartingBetween(
+    id_activo: string,
+    startTime: Date,
+    endTime: Date,
+  ): Promise<IdleEvent[]> {
+    return await this.idleEventRepo.find({
+      where: { id_activo, start_time: Between(startTime, endTime) },
+      order: { start_time: 'ASC' },
+    });
+  }
+
+  /**
+   * Episodios por ID (replay: lo guardado con el mismo ID que lo regenerado)
+   */
+  async findByIds(ids: string[]): Promise<IdleEvent[]> {
+    if (ids.length === 0) return [];
+
+    return await this.idleEventRepo.find({ where: { id: In(ids) } });
+  }
+
+  /**
+   * Elimina episodios por ID (replay)
+   */
+  async deleteByIds(ids: string[], manager?: EntityManager): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    const result = await this.repo(manager).delete({ id: In(ids) });
+    return result.affected || 0;
+  }
+
+  /**
+   * Query base de findReportPage (sin orden ni límite)
+   */
+  private createReportQuery(
+    query: IReportQuery,
+  ): SelectQueryBuilder<IdleEvent> {
+    const {
+      deviceIds,
+      from: fromDate,
+      to: toDate,
+      tenantId,
+      clientId,
+      fleetId,
+      metadata,
+      geofenceIds,
+      geofenceCategory,
+      driverIds,
+    } = query;
+
+    const queryBuilder = this.idleEventRepo
+      .createQueryBuilder('idle')
+      .where('idle.start_time BETWEEN :fromDate AND :toDate', {
+        fromDate,
+        toDate,
+      });
+
+    if (deviceIds && deviceIds.length > 0) {
+      queryBuilder.andWhere('idle.id_activo IN (:...deviceIds)', {
+        deviceIds,
+      });
+    }
+
+    if (tenantId) {
+      queryBuilder.andWhere("idle.metadata->>'tenant_id' = :tenantId", {
+        tenantId,
+      });
+    }
+
+    if (clientId) {
+      queryBuilder.andWhere("idle.metadata->>'client_id' = :clientId", {
+        clientId,
+      });
+    }
+
+    if (fleetId) {
+      queryBuilder.andWhere("idle.metadata->>'fleet_id' = :fleetId", {
+        fleetId,
+      });
+    }
+
+    if (metadata && Object.keys(metadata).length > 0) {
+      queryBuilder.andWhere('idle.metadata @> :metadata', {
+        metadata: JSON.stringify(metadata),
+      });
+    }
+
+    // Geocerca en la que ocurrió el ralentí
+    if (geofenceIds && geofenceIds.length > 0) {
+      queryBuilder.andWhere('idle.geofence_id IN (:...geofenceIds)', {
+        geofenceIds,
+      });
+    }
+
+    if (geofenceCategory) {
+      queryBuilder.andWhere(
+        'idle.geofence_id IN (SELECT g.id FROM geofences g WHERE g.category = :geofenceCategory)',
+        { geofenceCategory },
+      );
+    }
+
+    // Conductor del trip en el que ocurrió
+    if (driverIds && driverIds.length > 0) {
+      queryBuilder.andWhere(
+        'idle.trip_id IN (SELECT t.id FROM trips t WHERE t.driver_id IN (:...driverIds))',
+        { driverIds },
+      );
+    }
+
+    return queryBuilder;
+  }
+}
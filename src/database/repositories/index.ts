@@ -1,3 +1,16 @@
 export { TripRepository } from './trip.repository';
 export { StopRepository } from './stop.repository';
+export { DrivingEventRepository } from './driving-event.repository';
+export { SpeedingEventRepository } from './speeding-event.repository';
 export { TrackerStateRepository } from './tracker-state.repository';
+export { ThresholdProfileRepository } from './threshold-profile.repository';
+export { GeofenceRepository } from './geofence.repository';
+export { DeviceGroupRepository } from './device-group.repository';
+export { WebhookRepository } from './webhook.repository';
+export { DriverRepository } from './driver.repository';
+export { FuelSensorRepository } from './fuel-sensor.repository';
+export { FuelEventRepository } from './fuel-event.repository';
+export { IdleEventRepository } from './idle-event.repository';
+export { PlaceRepository } from './place.repository';
+export { OdometerAdjustmentRepository } from './odometer-adjustment.repository';
+export { OdometerSourceRepository } from './odometer-source.repository';
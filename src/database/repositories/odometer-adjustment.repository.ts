@@ -0,0 +1,47 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, EntityManager } from 'typeorm';
+import { OdometerAdjustment, OdometerAdjustmentType } from '../entities';
+
+export interface ICreateOdometerAdjustmentData {
+  tracker_id: string;
+  type: OdometerAdjustmentType;
+  previous_odometer: number;
+  new_odometer: number;
+  previous_offset: number;
+  odometer_offset: number;
+  reason: string | null;
+  actor: string | null;
+  adjusted_at: Date;
+}
+
+@Injectable()
+export class OdometerAdjustmentRepository {
+  constructor(
+    @InjectRepository(OdometerAdjustment)
+    private readonly adjustmentRepo: Repository<OdometerAdjustment>,
+  ) {}
+
+  /**
+   * @param manager Transacción en la que se guarda (junto con el estado del tracker)
+   */
+  async create(
+    data: ICreateOdometerAdjustmentData,
+    manager?: EntityManager,
+  ): Promise<OdometerAdjustment> {
+    const repo = manager
+      ? manager.getRepository(OdometerAdjustment)
+      : this.adjustmentRepo;
+    return await repo.save(repo.create(data));
+  }
+
+  /**
+   * Ajustes del tracker en orden cronológico
+   */
+  async findByTracker(tracker_id: string): Promise<OdometerAdjustment[]> {
+    return await this.adjustmentRepo.find({
+      where: { tracker_id },
+      order: { adjusted_at: 'ASC' },
+    });
+  }
+}
@@ -0,0 +1,54 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  OdometerSource,
+  OdometerSourceType,
+  OdometerSourceUnit,
+} from '../entities';
+
+export interface IUpsertOdometerSourceData {
+  source: OdometerSourceType;
+  metadata_key?: string | null;
+  unit: OdometerSourceUnit;
+  rollover?: number | null;
+}
+
+@Injectable()
+export class OdometerSourceRepository {
+  constructor(
+    @InjectRepository(OdometerSource)
+    private readonly odometerSourceRepo: Repository<OdometerSource>,
+  ) {}
+
+  async findAll(): Promise<OdometerSource[]> {
+    return await this.odometerSourceRepo.find({ order: { device_id: 'ASC' } });
+  }
+
+  async findByDeviceId(device_id: string): Promise<OdometerSource | null> {
+    return await this.odometerSourceRepo.findOne({ where: { device_id } });
+  }
+
+  /**
+   * Crea o reemplaza la configuración del device
+   */
+  async upsert(
+    device_id: string,
+    data: IUpsertOdometerSourceData,
+  ): Promise<OdometerSource> {
+    const source =
+      (await this.findByDeviceId(device_id)) ??
+      this.odometerSourceRepo.create({ device_id });
+
+    Object.assign(source, { metadata_key: null, rollover: null, ...data });
+    return await this.odometerSourceRepo.save(source);
+  }
+
+  /**
+   * @returns true si se eliminó, false si no existía
+   */
+  async delete(device_id: string): Promise<boolean> {
+    const result = await this.odometerSourceRepo.delete({ device_id });
+    return (result.affected || 0) > 0;
+  }
+}
@@ -0,0 +1,59 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import { Place, PlaceLabel } from '../entities';
+
+export interface ISavePlaceData {
+  id?: string; // Sin id se crea un lugar nuevo
+  device_id: string;
+  label: PlaceLabel | null;
+  latitude: number;
+  longitude: number;
+  radius: number;
+  address: string | null;
+  visit_count: number;
+  total_dwell_time: number;
+  overnight_count: number;
+  typical_arrival_hour: number | null;
+  typical_departure_hour: number | null;
+  first_visit_at: Date;
+  last_visit_at: Date;
+}
+
+@Injectable()
+export class PlaceRepository {
+  constructor(
+    @InjectRepository(Place)
+    private readonly placeRepo: Repository<Place>,
+  ) {}
+
+  async findAll(): Promise<Place[]> {
+    return await this.placeRepo.find();
+  }
+
+  /**
+   * Lugares del device, los más visitados primero
+   */
+  async findByDevice(device_id: string): Promise<Place[]> {
+    return await this.placeRepo.find({
+      where: { device_id },
+      order: { visit_count: 'DESC' },
+    });
+  }
+
+  /**
+   * Crea o actualiza (por id) los lugares
+   */
+  async save(places: ISavePlaceData[]): Promise<Place[]> {
+    return await this.placeRepo.save(
+      places.map((place) => this.placeRepo.create(place)),
+    );
+  }
+
+  async deleteByIds(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    const result = await this.placeRepo.delete({ id: In(ids) });
+    return result.affected || 0;
+  }
+}
@@ -0,0 +1,90 @@
+import { SelectQueryBuilder } from 'typeorm';
+import { findReportPage } from './report-page';
+
+interface IRow {
+  id: string;
+  distance: number;
+  start_time: Date;
+}
+
+/**
+ * Query builder mínimo: registra las llamadas y devuelve las filas dadas
+ */
+const createQueryBuilder = (rows: IRow[], count = rows.length) => {
+  const calls: Array<[string, ...unknown[]]> = [];
+  const queryBuilder = {
+    clone: () => ({ getCount: () => Promise.resolve(count) }),
+    orderBy: (...args: unknown[]) => {
+      calls.push(['orderBy', ...args]);
+      return queryBuilder;
+    },
+    addOrderBy: (...args: unknown[]) => {
+      calls.push(['addOrderBy', ...args]);
+      return queryBuilder;
+    },
+    andWhere: (...args: unknown[]) => {
+      calls.push(['andWhere', ...args]);
+      return queryBuilder;
+    },
+    limit: (...args: unknown[]) => {
+      calls.push(['limit', ...args]);
+      return queryBuilder;
+    },
+    getMany: () => Promise.resolve([...rows]),
+  };
+
+  return {
+    queryBuilder: queryBuilder as unknown as SelectQueryBuilder<IRow>,
+    calls,
+  };
+};
+
+const row = (id: string, distance: number): IRow => ({
+  id,
+  distance,
+  start_time: new Date('2025-01-10T12:00:00Z'),
+});
+
+describe('findReportPage', () => {
+  it('reads one extra row to decide whether there is a next page', async () => {
+    const { queryBuilder, calls } = createQueryBuilder([
+      row('t3', 300),
+      row('t2', 200),
+      row('t1', 200),
+    ]);
+
+    const page = await findReportPage(queryBuilder, 'trip', {
+      sort: 'distance',
+      order: 'DESC',
+      limit: 2,
+      withTotal: true,
+    });
+
+    expect(calls).toContainEqual(['orderBy', 'trip.distance', 'DESC']);
+    expect(calls).toContainEqual(['addOrderBy', 'trip.id', 'DESC']);
+    expect(calls).toContainEqual(['limit', 3]);
+    expect(page.rows.map((r) => r.id)).toEqual(['t3', 't2']);
+    expect(page.next).toEqual({ value: 200, id: 't2' });
+    expect(page.total).toBe(3);
+  });
+
+  it('continues after the cursor row and ends without next on the last page', async () => {
+    const { queryBuilder, calls } = createQueryBuilder([row('t1', 200)]);
+
+    const page = await findReportPage(queryBuilder, 'trip', {
+      sort: 'start_time',
+      order: 'ASC',
+      after: { value: '2025-01-10T11:00:00.000Z', id: 't0' },
+      limit: 2,
+    });
+
+    expect(calls).toContainEqual([
+      'andWhere',
+      '(trip.start_time, trip.id) > (:afterValue, :afterId)',
+      { afterValue: new Date('2025-01-10T11:00:00.000Z'), afterId: 't0' },
+    ]);
+    expect(page.rows).toHaveLength(1);
+    expect(page.next).toBeUndefined();
+    expect(page.total).toBeUndefined();
+  });
+});
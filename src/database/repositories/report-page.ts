@@ -0,0 +1,101 @@
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import type { FuelEventType } from '../../interfaces';
+
+/**
+ * Filtros de los reportes de trips y stops
+ */
+export interface IReportQuery {
+  deviceIds?: string[]; // undefined: todos los dispositivos
+  from: Date;
+  to: Date;
+  tenantId?: string;
+  clientId?: string;
+  fleetId?: string;
+  metadata?: Record<string, any>;
+  geofenceIds?: string[];
+  geofenceCategory?: string;
+  driverIds?: string[]; // drivers.unique_id
+  fuelEventType?: FuelEventType; // solo reporte de combustible
+}
+
+export type ReportSortOrder = 'ASC' | 'DESC';
+
+/**
+ * Posición de una fila en el orden del reporte: valor de la columna de orden
+ * más el id como desempate (dos trips pueden tener la misma distancia)
+ */
+export interface IReportKeyset {
+  value: string | number; // fechas en ISO 8601
+  id: string;
+}
+
+export interface IReportPageOptions {
+  sort: string; // columna de la entidad
+  order: ReportSortOrder;
+  after?: IReportKeyset; // seguir después de esta fila
+  limit?: number; // sin limit: todas las filas
+  withTotal?: boolean; // contar las filas de todas las páginas
+}
+
+export interface IReportPage<T> {
+  rows: T[];
+  next?: IReportKeyset; // posición de la última fila si hay otra página
+  total?: number;
+}
+
+/**
+ * Página de un reporte por keyset: ORDER BY (sort, id) y WHERE (sort, id) < / > la
+ * última fila de la página anterior. A diferencia de OFFSET, el costo no crece con
+ * el número de página y una fila insertada entre pedidos no corre las siguientes.
+ *
+ * Las columnas de orden no admiten NULL (la comparación de filas no los ordena).
+ */
+export const findReportPage = async <T extends ObjectLiteral & { id: string }>(
+  queryBuilder: SelectQueryBuilder<T>,
+  alias: string,
+  options: IReportPageOptions,
+): Promise<IReportPage<T>> => {
+  const { sort, order, after, limit } = options;
+
+  // El total no depende de la página: se cuenta antes del keyset
+  const total = options.withTotal
+    ? await queryBuilder.clone().getCount()
+    : undefined;
+
+  queryBuilder
+    .orderBy(`${alias}.${sort}`, order)
+    .addOrderBy(`${alias}.id`, order);
+
+  if (after) {
+    queryBuilder.andWhere(
+      `(${alias}.${sort}, ${alias}.id) ${order === 'DESC' ? '<' : '>'} (:afterValue, :afterId)`,
+      {
+        afterValue: sort === 'start_time' ? new Date(after.value) : after.value,
+        afterId: after.id,
+      },
+    );
+  }
+
+  // Una fila de más para saber si hay otra página
+  if (limit) {
+    queryBuilder.limit(limit + 1);
+  }
+
+  const rows = await queryBuilder.getMany();
+  if (!limit || rows.length <= limit) {
+    return { rows, total };
+  }
+
+  rows.length = limit;
+  const last = rows[limit - 1];
+  const value: unknown = last[sort];
+
+  return {
+    rows,
+    total,
+    next: {
+      value: value instanceof Date ? value.toISOString() : Number(value),
+      id: last.id,
+    },
+  };
+};
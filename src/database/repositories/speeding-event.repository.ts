@@ -0,0 +1,179 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, SelectQueryBuilder, EntityManager } from 'typeorm';
+import { SpeedingEvent } from '../entities';
+import {
+  IReportQuery,
+  IReportPage,
+  IReportPageOptions,
+  findReportPage,
+} from './report-page';
+
+export interface ICreateSpeedingEventData {
+  id: string;
+  trip_id: string;
+  id_activo: string;
+  start_time: Date;
+  end_time: Date;
+  duration: number;
+  distance: number;
+  max_speed: number;
+  speed_limit: number;
+  geofence_id?: string | null;
+  start_lat: number;
+  start_lon: number;
+  end_lat: number;
+  end_lon: number;
+  metadata?: Record<string, any> | null;
+}
+
+@Injectable()
+export class SpeedingEventRepository {
+  constructor(
+    @InjectRepository(SpeedingEvent)
+    private readonly speedingEventRepo: Repository<SpeedingEvent>,
+  ) {}
+
+  /**
+   * Repositorio a usar: el de la transacción si se pasa un manager (replay)
+   */
+  private repo(manager?: EntityManager): Repository<SpeedingEvent> {
+    return manager
+      ? manager.getRepository(SpeedingEvent)
+      : this.speedingEventRepo;
+  }
+
+  async create(
+    data: ICreateSpeedingEventData,
+    manager?: EntityManager,
+  ): Promise<SpeedingEvent> {
+    const repo = this.repo(manager);
+    return await repo.save(repo.create(data));
+  }
+
+  async findById(
+    id: string,
+    manager?: EntityManager,
+  ): Promise<SpeedingEvent | null> {
+    return await this.repo(manager).findOne({ where: { id } });
+  }
+
+  async findByTrip(trip_id: string): Promise<SpeedingEvent[]> {
+    return await this.speedingEventRepo.find({
+      where: { trip_id },
+      order: { start_time: 'ASC' },
+    });
+  }
+
+  /**
+   * Página del reporte de excesos de velocidad: los que empiezan en el período,
+   * con los filtros de dispositivo, metadata y geocerca
+   */
+  async findReportPage(
+    query: IReportQuery,
+    options: IReportPageOptions,
+  ): Promise<IReportPage<SpeedingEvent>> {
+    return await findReportPage(
+      this.createReportQuery(query),
+      'speeding',
+      options,
+    );
+  }
+
+  /**
+   * Elimina los excesos de los trips indicados (trip descartado o regenerado por replay)
+   */
+  async deleteByTripIds(
+    tripIds: string[],
+    manager?: EntityManager,
+  ): Promise<number> {
+    if (tripIds.length === 0) return 0;
+
+    const result = await this.repo(manager).delete({
+      trip_id: In(tripIds),
+    });
+
+    return result.affected || 0;
+  }
+
+  /**
+   * Query base de findReportPage (sin orden ni límite)
+   */
+  private createReportQuery(
+    query: IReportQuery,
+  ): SelectQueryBuilder<SpeedingEvent> {
+    const {
+      deviceIds,
+      from: fromDate,
+      to: toDate,
+      tenantId,
+      clientId,
+      fleetId,
+      metadata,
+      geofenceIds,
+      geofenceCategory,
+      driverIds,
+    } = query;
+
+    const queryBuilder = this.speedingEventRepo
+      .createQueryBuilder('speeding')
+      .where('speeding.start_time BETWEEN :fromDate AND :toDate', {
+        fromDate,
+        toDate,
+      });
+
+    if (deviceIds && deviceIds.length > 0) {
+      queryBuilder.andWhere('speeding.id_activo IN (:...deviceIds)', {
+        deviceIds,
+      });
+    }
+
+    if (tenantId) {
+      queryBuilder.andWhere("speeding.metadata->>'tenant_id' = :tenantId", {
+        tenantId,
+      });
+    }
+
+    if (clientId) {
+      queryBuilder.andWhere("speeding.metadata->>'client_id' = :clientId", {
+        clientId,
+      });
+    }
+
+    if (fleetId) {
+      queryBuilder.andWhere("speeding.metadata->>'fleet_id' = :fleetId", {
+        fleetId,
+      });
+    }
+
+    if (metadata && Object.keys(metadata).length > 0) {
+      queryBuilder.andWhere('speeding.metadata @> :metadata', {
+        metadata: JSON.stringify(metadata),
+      });
+    }
+
+    // Geocercas de las que sale el límite (zonas con velocidad máxima)
+    if (geofenceIds && geofenceIds.length > 0) {
+      queryBuilder.andWhere('speeding.geofence_id IN (:...geofenceIds)', {
+        geofenceIds,
+      });
+    }
+
+    if (geofenceCategory) {
+      queryBuilder.andWhere(
+        'speeding.geofence_id IN (SELECT g.id FROM geofences g WHERE g.category = :geofenceCategory)',
+        { geofenceCategory },
+      );
+    }
+
+    // Conductor del trip en el que ocurrió el exceso
+    if (driverIds && driverIds.length > 0) {
+      queryBuilder.andWhere(
+        'speeding.trip_id IN (SELECT t.id FROM trips t WHERE t.driver_id IN (:...driverIds))',
+        { driverIds },
+      );
+    }
+
+    return queryBuilder;
+  }
+}
@@ -1,7 +1,20 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, LessThanOrEqual, SelectQueryBuilder } from 'typeorm';
+import {
+  Repository,
+  Between,
+  In,
+  LessThanOrEqual,
+  SelectQueryBuilder,
+  EntityManager,
+} from 'typeorm';
 import { Stop } from '../entities/stop.entity';
+import {
+  IReportQuery,
+  IReportPage,
+  IReportPageOptions,
+  findReportPage,
+} from './report-page';
 
 export interface ICreateStopData {
   id: string;
@@ -10,9 +23,12 @@ export interface ICreateStopData {
   latitude: number;
   longitude: number;
   address?: string | null;
+  geofence_id?: string | null;
   reason?: string;
   trip_id?: string;
   start_odometer?: number;
+  start_engine_hours?: number | null;
+  driver_id?: string | null;
   metadata?: Record<string, any>;
 }
 
@@ -22,9 +38,36 @@ export interface IUpdateStopData {
   address?: string;
   is_active?: boolean;
   end_odometer?: number;
+  end_engine_hours?: number | null;
+  place_id?: string | null;
   metadata?: Record<string, any>;
 }
 
+/**
+ * Fila agregada de stops por dispositivo (y día) del reporte resumen
+ */
+export interface IStopSummaryRow {
+  device_id: string;
+  day: string | null;
+  stop_count: string;
+  start_odometer: string | null;
+  end_odometer: string | null;
+  start_engine_hours: string | null;
+  end_engine_hours: string | null;
+}
+
+/**
+ * Valor del primer stop del grupo (por hora de inicio) que lo tiene
+ */
+const firstByTime = (expression: string): string =>
+  `(ARRAY_AGG(${expression} ORDER BY stop.start_time ASC) FILTER (WHERE ${expression} IS NOT NULL))[1]`;
+
+/**
+ * Valor del último stop del grupo (por hora de inicio) que lo tiene
+ */
+const lastByTime = (expression: string): string =>
+  `(ARRAY_AGG(${expression} ORDER BY stop.start_time DESC) FILTER (WHERE ${expression} IS NOT NULL))[1]`;
+
 @Injectable()
 export class StopRepository {
   constructor(
@@ -32,18 +75,26 @@ export class StopRepository {
     private readonly stopRepo: Repository<Stop>,
   ) {}
 
-  async create(data: ICreateStopData): Promise<Stop> {
-    const stop = this.stopRepo.create({
+  /**
+   * Repositorio a usar: el de la transacción si se pasa un manager (replay)
+   */
+  private repo(manager?: EntityManager): Repository<Stop> {
+    return manager ? manager.getRepository(Stop) : this.stopRepo;
+  }
+
+  async create(data: ICreateStopData, manager?: EntityManager): Promise<Stop> {
+    const repo = this.repo(manager);
+    const stop = repo.create({
       ...data,
       is_active: true,
       duration: 0,
     });
 
-    return await this.stopRepo.save(stop);
+    return await repo.save(stop);
   }
 
-  async findById(id: string): Promise<Stop | null> {
-    return await this.stopRepo.findOne({ where: { id } });
+  async findById(id: string, manager?: EntityManager): Promise<Stop | null> {
+    return await this.repo(manager).findOne({ where: { id } });
   }
 
   async findActiveByAsset(id_activo: string): Promise<Stop | null> {
@@ -60,8 +111,12 @@ export class StopRepository {
     });
   }
 
-  async update(id: string, data: IUpdateStopData): Promise<Stop | null> {
-    const stop = await this.findById(id);
+  async update(
+    id: string,
+    data: IUpdateStopData,
+    manager?: EntityManager,
+  ): Promise<Stop | null> {
+    const stop = await this.findById(id, manager);
     if (!stop) return null;
 
     Object.assign(stop, {
@@ -69,7 +124,7 @@ export class StopRepository {
       updated_at: new Date(),
     });
 
-    return await this.stopRepo.save(stop);
+    return await this.repo(manager).save(stop);
   }
 
   /**
@@ -117,6 +172,17 @@ export class StopRepository {
     return await qb.orderBy('stop.start_time', 'DESC').getMany();
   }
 
+  /**
+   * Página del reporte de stops: los que se solapan con el período (incluye los
+   * en curso), con los filtros de dispositivo, metadata y geocerca
+   */
+  async findReportPage(
+    query: IReportQuery,
+    options: IReportPageOptions,
+  ): Promise<IReportPage<Stop>> {
+    return await findReportPage(this.createReportQuery(query), 'stop', options);
+  }
+
   /**
    * Filtra paradas que se SOLAPAN con el rango [startTime, endTime], en vez de
    * solo las que inician dentro del rango. Una parada se cruza con el período si:
@@ -142,6 +208,44 @@ export class StopRepository {
     }
   }
 
+  /**
+   * Resumen de los stops completados que empiezan en el período, por dispositivo
+   * (y por día en la zona horaria `dailyTimezone`, si se indica).
+   * Odómetro y horómetro: los del primer y el último stop por hora de inicio (no el
+   * mínimo y el máximo, que no sirven si se ajustaron o el contador se reseteó).
+   */
+  async getSummaryRows(
+    query: IReportQuery,
+    dailyTimezone?: string,
+  ): Promise<IStopSummaryRow[]> {
+    const queryBuilder = this.createSummaryQuery(query)
+      .select('stop.id_activo', 'device_id')
+      .addSelect('COUNT(*)', 'stop_count')
+      .addSelect(firstByTime('stop.start_odometer'), 'start_odometer')
+      .addSelect(
+        lastByTime('COALESCE(stop.end_odometer, stop.start_odometer)'),
+        'end_odometer',
+      )
+      .addSelect(firstByTime('stop.start_engine_hours'), 'start_engine_hours')
+      .addSelect(
+        lastByTime('COALESCE(stop.end_engine_hours, stop.start_engine_hours)'),
+        'end_engine_hours',
+      )
+      .groupBy('stop.id_activo');
+
+    if (dailyTimezone) {
+      queryBuilder
+        .addSelect(
+          "to_char(stop.start_time AT TIME ZONE :timezone, 'YYYY-MM-DD')",
+          'day',
+        )
+        .addGroupBy('day')
+        .setParameter('timezone', dailyTimezone);
+    }
+
+    return await queryBuilder.getRawMany<IStopSummaryRow>();
+  }
+
   async closeStop(
     id: string,
     endData: {
@@ -205,6 +309,165 @@ export class StopRepository {
     };
   }
 
+  /**
+   * Stops de un activo cuyo INICIO cae en [startTime, endTime] (incluye activos).
+   * Es la ventana que reemplaza el replay.
+   */
+  async findByAssetStartingBetween(
+    id_activo: string,
+    startTime: Date,
+    endTime: Date,
+  ): Promise<Stop[]> {
+    return await this.stopRepo.find({
+      where: { id_activo, start_time: Between(startTime, endTime) },
+      order: { start_time: 'ASC' },
+    });
+  }
+
+  /**
+   * Último stop cerrado de un activo que terminó antes de `time`
+   * (el replay toma su end_odometer como odómetro inicial)
+   */
+  async findLastClosedBefore(
+    id_activo: string,
+    time: Date,
+  ): Promise<Stop | null> {
+    return await this.stopRepo
+      .createQueryBuilder('stop')
+      .where('stop.id_activo = :id_activo', { id_activo })
+      .andWhere('stop.is_active = false')
+      .andWhere('stop.end_time <= :time', { time })
+      .orderBy('stop.end_time', 'DESC')
+      .getOne();
+  }
+
+  /**
+   * Último stop del activo con odómetro registrado que empieza hasta `at` inclusive
+   * (odómetro a una fecha)
+   */
+  async findLastWithOdometerUntil(
+    id_activo: string,
+    at: Date,
+  ): Promise<Stop | null> {
+    return await this.stopRepo
+      .createQueryBuilder('stop')
+      .where('stop.id_activo = :id_activo', { id_activo })
+      .andWhere('stop.start_time <= :at', { at })
+      .andWhere('stop.start_odometer IS NOT NULL')
+      .orderBy('stop.start_time', 'DESC')
+      .getOne();
+  }
+
+  /**
+   * Primer stop del activo con odómetro registrado que empieza después de `at`
+   */
+  async findFirstWithOdometerAfter(
+    id_activo: string,
+    at: Date,
+  ): Promise<Stop | null> {
+    return await this.stopRepo
+      .createQueryBuilder('stop')
+      .where('stop.id_activo = :id_activo', { id_activo })
+      .andWhere('stop.start_time > :at', { at })
+      .andWhere('stop.start_odometer IS NOT NULL')
+      .orderBy('stop.start_time', 'ASC')
+      .getOne();
+  }
+
+  /**
+   * Activos con stops cerrados que empiezan desde `since` (lugares frecuentes)
+   */
+  async findAssetsWithClosedStopsSince(since: Date): Promise<string[]> {
+    const rows: Array<{ id_activo: string }> = await this.stopRepo
+      .createQueryBuilder('stop')
+      .select('DISTINCT stop.id_activo', 'id_activo')
+      .where('stop.start_time >= :since', { since })
+      .andWhere('stop.is_active = false')
+      .getRawMany();
+
+    return rows.map((row) => row.id_activo);
+  }
+
+  /**
+   * Stops cerrados de un activo que empiezan desde `since`, solo con las columnas
+   * que usa el agrupamiento en lugares frecuentes
+   */
+  async findClosedByAssetSince(
+    id_activo: string,
+    since: Date,
+  ): Promise<Stop[]> {
+    return await this.stopRepo
+      .createQueryBuilder('stop')
+      .select([
+        'stop.id',
+        'stop.latitude',
+        'stop.longitude',
+        'stop.address',
+        'stop.start_time',
+        'stop.end_time',
+      ])
+      .where('stop.id_activo = :id_activo', { id_activo })
+      .andWhere('stop.start_time >= :since', { since })
+      .andWhere('stop.is_active = false')
+      .orderBy('stop.start_time', 'ASC')
+      .getMany();
+  }
+
+  /**
+   * Asigna el lugar frecuente a los stops (null lo quita)
+   */
+  async setPlace(ids: string[], place_id: string | null): Promise<void> {
+    if (ids.length === 0) return;
+
+    await this.stopRepo.update({ id: In(ids) }, { place_id });
+  }
+
+  /**
+   * Quita el lugar frecuente a los stops de un activo que empiezan desde `since`
+   * o que apuntan a alguno de `placeIds` (lugares eliminados)
+   */
+  async clearPlaces(
+    id_activo: string,
+    since: Date,
+    placeIds: string[],
+  ): Promise<void> {
+    const qb = this.stopRepo
+      .createQueryBuilder()
+      .update(Stop)
+      .set({ place_id: null })
+      .where('id_activo = :id_activo', { id_activo });
+
+    if (placeIds.length > 0) {
+      qb.andWhere('(start_time >= :since OR place_id IN (:...placeIds))', {
+        since,
+        placeIds,
+      });
+    } else {
+      qb.andWhere('start_time >= :since', { since });
+    }
+
+    await qb.andWhere('place_id IS NOT NULL').execute();
+  }
+
+  /**
+   * Stops por ID (replay: lo guardado con el mismo ID que lo regenerado)
+   */
+  async findByIds(ids: string[]): Promise<Stop[]> {
+    if (ids.length === 0) return [];
+
+    return await this.stopRepo.find({ where: { id: In(ids) } });
+  }
+
+  /**
+   * Elimina stops por ID (replay)
+   */
+  async deleteByIds(ids: string[], manager?: EntityManager): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    const result = await this.repo(manager).delete({ id: In(ids) });
+    return result.affected || 0;
+  }
+
   async deleteOldStops(olderThan: Date): Promise<number> {
     const result = await this.stopRepo.delete({
       start_time: LessThanOrEqual(olderThan),
@@ -228,4 +491,136 @@ export class StopRepository {
       })
       .then((stops) => stops.filter((stop) => stop.updated_at < cutoffTime));
   }
+
+  /**
+   * Query base de findReportPage (sin orden ni límite)
+   */
+  private createReportQuery(query: IReportQuery): SelectQueryBuilder<Stop> {
+    const {
+      deviceIds,
+      from: fromDate,
+      to: toDate,
+      tenantId,
+      clientId,
+      fleetId,
+      metadata,
+      geofenceIds,
+      geofenceCategory,
+      driverIds,
+    } = query;
+
+    // NOTA: a diferencia de trips, NO filtramos is_active=false: incluimos paradas en curso.
+    // Solapamiento de intervalos (no solo "inicio dentro del rango"): la parada se cruza con
+    // [fromDate, toDate] si empezó antes del fin del rango y terminó después del inicio o sigue
+    // en curso. Así se incluyen paradas que comenzaron antes de fromDate y terminaron dentro,
+    // y paradas aún no terminadas (p. ej. cuando toDate es la hora actual).
+    const queryBuilder = this.stopRepo
+      .createQueryBuilder('stop')
+      .where('stop.start_time <= :toDate', { toDate })
+      .andWhere('(stop.end_time >= :fromDate OR stop.end_time IS NULL)', {
+        fromDate,
+      });
+
+    // Filtro por deviceId
+    if (deviceIds && deviceIds.length > 0) {
+      queryBuilder.andWhere('stop.id_activo IN (:...deviceIds)', { deviceIds });
+    }
+
+    // Filtros optimizados con B-tree indexes (~1-2ms)
+    if (tenantId) {
+      queryBuilder.andWhere("stop.metadata->>'tenant_id' = :tenantId", {
+        tenantId,
+      });
+    }
+
+    if (clientId) {
+      queryBuilder.andWhere("stop.metadata->>'client_id' = :clientId", {
+        clientId,
+      });
+    }
+
+    if (fleetId) {
+      queryBuilder.andWhere("stop.metadata->>'fleet_id' = :fleetId", {
+        fleetId,
+      });
+    }
+
+    // Filtro genérico JSONB con GIN index (~5-10ms)
+    if (metadata && Object.keys(metadata).length > 0) {
+      queryBuilder.andWhere('stop.metadata @> :metadata', {
+        metadata: JSON.stringify(metadata),
+      });
+    }
+
+    // Geocercas en las que cae el stop
+    if (geofenceIds && geofenceIds.length > 0) {
+      queryBuilder.andWhere('stop.geofence_id IN (:...geofenceIds)', {
+        geofenceIds,
+      });
+    }
+
+    if (geofenceCategory) {
+      queryBuilder.andWhere(
+        'stop.geofence_id IN (SELECT g.id FROM geofences g WHERE g.category = :geofenceCategory)',
+        { geofenceCategory },
+      );
+    }
+
+    if (driverIds && driverIds.length > 0) {
+      queryBuilder.andWhere('stop.driver_id IN (:...driverIds)', { driverIds });
+    }
+
+    return queryBuilder;
+  }
+
+  /**
+   * Query base del resumen: stops completados que empiezan en el período, con los
+   * filtros de dispositivo, tenant/cliente/flota, metadata y conductor
+   */
+  private createSummaryQuery(query: IReportQuery): SelectQueryBuilder<Stop> {
+    const { deviceIds, tenantId, clientId, fleetId, metadata, driverIds } =
+      query;
+
+    const queryBuilder = this.stopRepo
+      .createQueryBuilder('stop')
+      .where('stop.start_time BETWEEN :fromDate AND :toDate', {
+        fromDate: query.from,
+        toDate: query.to,
+      })
+      .andWhere('stop.is_active = false');
+
+    if (deviceIds && deviceIds.length > 0) {
+      queryBuilder.andWhere('stop.id_activo IN (:...deviceIds)', { deviceIds });
+    }
+
+    if (tenantId) {
+      queryBuilder.andWhere("stop.metadata->>'tenant_id' = :tenantId", {
+        tenantId,
+      });
+    }
+
+    if (clientId) {
+      queryBuilder.andWhere("stop.metadata->>'client_id' = :clientId", {
+        clientId,
+      });
+    }
+
+    if (fleetId) {
+      queryBuilder.andWhere("stop.metadata->>'fleet_id' = :fleetId", {
+        fleetId,
+      });
+    }
+
+    if (metadata && Object.keys(metadata).length > 0) {
+      queryBuilder.andWhere('stop.metadata @> :metadata', {
+        metadata: JSON.stringify(metadata),
+      });
+    }
+
+    if (driverIds && driverIds.length > 0) {
+      queryBuilder.andWhere('stop.driver_id IN (:...driverIds)', { driverIds });
+    }
+
+    return queryBuilder;
+  }
 }
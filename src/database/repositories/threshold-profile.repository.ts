@@ -0,0 +1,118 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  ThresholdProfile,
+  ThresholdProfileAssignment,
+  ThresholdProfileScope,
+} from '../entities';
+
+export interface ICreateThresholdProfileData {
+  name: string;
+  description?: string | null;
+  thresholds: ThresholdProfile['thresholds'];
+}
+
+export type IUpdateThresholdProfileData = Partial<ICreateThresholdProfileData>;
+
+@Injectable()
+export class ThresholdProfileRepository {
+  constructor(
+    @InjectRepository(ThresholdProfile)
+    private readonly profileRepo: Repository<ThresholdProfile>,
+    @InjectRepository(ThresholdProfileAssignment)
+    private readonly assignmentRepo: Repository<ThresholdProfileAssignment>,
+  ) {}
+
+  async findAll(): Promise<ThresholdProfile[]> {
+    return await this.profileRepo.find({ order: { name: 'ASC' } });
+  }
+
+  async findById(id: string): Promise<ThresholdProfile | null> {
+    return await this.profileRepo.findOne({ where: { id } });
+  }
+
+  async findByName(name: string): Promise<ThresholdProfile | null> {
+    return await this.profileRepo.findOne({ where: { name } });
+  }
+
+  async create(data: ICreateThresholdProfileData): Promise<ThresholdProfile> {
+    const profile = this.profileRepo.create(data);
+    return await this.profileRepo.save(profile);
+  }
+
+  async update(
+    id: string,
+    data: IUpdateThresholdProfileData,
+  ): Promise<ThresholdProfile | null> {
+    const profile = await this.findById(id);
+    if (!profile) return null;
+
+    Object.assign(profile, data);
+    return await this.profileRepo.save(profile);
+  }
+
+  /**
+   * Elimina un perfil junto con sus asignaciones
+   * @returns true si se eliminó, false si no existía
+   */
+  async delete(id: string): Promise<boolean> {
+    await this.assignmentRepo.delete({ profile_id: id });
+    const result = await this.profileRepo.delete({ id });
+    return (result.affected || 0) > 0;
+  }
+
+  async findAllAssignments(): Promise<ThresholdProfileAssignment[]> {
+    return await this.assignmentRepo.find();
+  }
+
+  async findAssignmentsByProfile(
+    profileId: string,
+  ): Promise<ThresholdProfileAssignment[]> {
+    return await this.assignmentRepo.find({
+      where: { profile_id: profileId },
+      order: { scope: 'ASC', scope_id: 'ASC' },
+    });
+  }
+
+  /**
+   * Asigna un perfil a un device/fleet/tenant.
+   * Si el alcance ya tenía un perfil asignado, se reemplaza.
+   */
+  async assign(
+    profileId: string,
+    scope: ThresholdProfileScope,
+    scopeId: string,
+  ): Promise<ThresholdProfileAssignment> {
+    let assignment = await this.assignmentRepo.findOne({
+      where: { scope, scope_id: scopeId },
+    });
+
+    if (assignment) {
+      assignment.profile_id = profileId;
+    } else {
+      assignment = this.assignmentRepo.create({
+        scope,
+        scope_id: scopeId,
+        profile_id: profileId,
+      });
+    }
+
+    return await this.assignmentRepo.save(assignment);
+  }
+
+  /**
+   * Quita la asignación de un device/fleet/tenant
+   * @returns true si se eliminó, false si no existía
+   */
+  async unassign(
+    scope: ThresholdProfileScope,
+    scopeId: string,
+  ): Promise<boolean> {
+    const result = await this.assignmentRepo.delete({
+      scope,
+      scope_id: scopeId,
+    });
+    return (result.affected || 0) > 0;
+  }
+}
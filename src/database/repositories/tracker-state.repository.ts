@@ -1,6 +1,6 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, MoreThan, LessThan } from 'typeorm';
+import { Repository, MoreThan, LessThan, EntityManager } from 'typeorm';
 import { TrackerState } from '../entities';
 
 @Injectable()
@@ -10,11 +10,21 @@ export class TrackerStateRepository {
     private readonly repository: Repository<TrackerState>,
   ) {}
 
+  /**
+   * Repositorio a usar: el de la transacción si se pasa un manager (ajustes de odómetro)
+   */
+  private repo(manager?: EntityManager): Repository<TrackerState> {
+    return manager ? manager.getRepository(TrackerState) : this.repository;
+  }
+
   /**
    * Obtener estado de un tracker por trackerId
    */
-  async findByTrackerId(trackerId: string): Promise<TrackerState | null> {
-    return this.repository.findOne({
+  async findByTrackerId(
+    trackerId: string,
+    manager?: EntityManager,
+  ): Promise<TrackerState | null> {
+    return this.repo(manager).findOne({
       where: { tracker_id: trackerId },
     });
   }
@@ -25,8 +35,10 @@ export class TrackerStateRepository {
   async upsert(
     trackerId: string,
     data: Partial<TrackerState>,
+    manager?: EntityManager,
   ): Promise<TrackerState> {
-    let trackerState = await this.findByTrackerId(trackerId);
+    const repository = this.repo(manager);
+    let trackerState = await this.findByTrackerId(trackerId, manager);
 
     if (trackerState) {
       // Actualizar existente
@@ -34,7 +46,7 @@ export class TrackerStateRepository {
       trackerState.updated_at = new Date();
     } else {
       // Crear nuevo
-      trackerState = this.repository.create({
+      trackerState = repository.create({
         tracker_id: trackerId,
         device_id: trackerId,
         total_odometer: 0,
@@ -48,7 +60,7 @@ export class TrackerStateRepository {
       });
     }
 
-    return this.repository.save(trackerState);
+    return repository.save(trackerState);
   }
 
   /**
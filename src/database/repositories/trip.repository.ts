@@ -1,7 +1,62 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, Between, LessThanOrEqual } from 'typeorm';
+import {
+  Repository,
+  Between,
+  In,
+  LessThanOrEqual,
+  SelectQueryBuilder,
+  EntityManager,
+} from 'typeorm';
 import { Trip } from '../entities/trip.entity';
+import {
+  IReportQuery,
+  IReportPage,
+  IReportPageOptions,
+  findReportPage,
+} from './report-page';
+import type { DrivingEventType } from '../../interfaces/driving-event.interface';
+
+// Columnas de los reportes de trips: route_points no se lee (puede pesar varios KB por trip)
+const TRIP_REPORT_COLUMNS = [
+  'id',
+  'id_activo',
+  'start_time',
+  'end_time',
+  'duration',
+  'distance',
+  'avg_speed',
+  'max_speed',
+  'start_address',
+  'start_geofence_id',
+  'start_lat',
+  'start_lon',
+  'end_address',
+  'end_geofence_id',
+  'end_lat',
+  'end_lon',
+  'harsh_acceleration_count',
+  'harsh_braking_count',
+  'sharp_cornering_count',
+  'start_engine_hours',
+  'end_engine_hours',
+  'driver_id',
+  'spent_fuel',
+].map((column) => `trip.${column}`);
+
+// Contador del trip de cada tipo de evento de manejo
+const DRIVING_EVENT_COUNT_COLUMNS: Record<DrivingEventType, keyof Trip> = {
+  harsh_acceleration: 'harsh_acceleration_count',
+  harsh_braking: 'harsh_braking_count',
+  sharp_cornering: 'sharp_cornering_count',
+};
+
+export interface IRoutePoint {
+  lat: number;
+  lon: number;
+  timestamp: string; // ISO 8601
+  speed: number; // km/h
+}
 
 export interface ICreateTripData {
   id: string;
@@ -10,7 +65,10 @@ export interface ICreateTripData {
   start_lat: number;
   start_lon: number;
   start_address?: string | null;
+  start_geofence_id?: string | null;
   detection_method?: string;
+  start_engine_hours?: number | null;
+  driver_id?: string | null;
   metadata?: Record<string, any>;
 }
 
@@ -19,6 +77,7 @@ export interface IUpdateTripData {
   end_lat?: number;
   end_lon?: number;
   end_address?: string | null;
+  end_geofence_id?: string | null;
   distance?: number;
   distance_original?: number;
   distance_linear?: number;
@@ -29,17 +88,47 @@ export interface IUpdateTripData {
   max_speed?: number;
   avg_speed?: number;
   duration?: number;
-  route_points?: Array<{
-    lat: number;
-    lon: number;
-    timestamp: string;
-    speed: number;
-  }>;
+  route_points?: IRoutePoint[];
   stop_count?: number;
+  end_engine_hours?: number | null;
+  driver_id?: string | null;
+  spent_fuel?: number | null;
   is_active?: boolean;
   metadata?: Record<string, any>;
 }
 
+/**
+ * Fila agregada de trips por dispositivo (y día) del reporte resumen
+ */
+export interface ITripSummaryRow {
+  device_id: string;
+  day: string | null;
+  trip_count: string;
+  distance: string | null;
+  driving_time: string | null;
+  max_speed: string | null;
+  spent_fuel: string | null;
+  start_time: Date | null;
+  end_time: Date | null;
+}
+
+/**
+ * Fila agregada de trips por conductor del reporte de conductores
+ */
+export interface IDriverSummaryRow {
+  driver_id: string;
+  device_ids: string[];
+  trip_count: string;
+  distance: string | null;
+  driving_time: string | null;
+  max_speed: string | null;
+  harsh_acceleration_count: string | null;
+  harsh_braking_count: string | null;
+  sharp_cornering_count: string | null;
+  start_time: Date | null;
+  end_time: Date | null;
+}
+
 @Injectable()
 export class TripRepository {
   constructor(
@@ -47,8 +136,16 @@ export class TripRepository {
     private readonly tripRepo: Repository<Trip>,
   ) {}
 
-  async create(data: ICreateTripData): Promise<Trip> {
-    const trip = this.tripRepo.create({
+  /**
+   * Repositorio a usar: el de la transacción si se pasa un manager (replay)
+   */
+  private repo(manager?: EntityManager): Repository<Trip> {
+    return manager ? manager.getRepository(Trip) : this.tripRepo;
+  }
+
+  async create(data: ICreateTripData, manager?: EntityManager): Promise<Trip> {
+    const repo = this.repo(manager);
+    const trip = repo.create({
       ...data,
       is_active: true,
       distance: 0,
@@ -59,11 +156,11 @@ export class TripRepository {
       route_points: [],
     });
 
-    return await this.tripRepo.save(trip);
+    return await repo.save(trip);
   }
 
-  async findById(id: string): Promise<Trip | null> {
-    return await this.tripRepo.findOne({ where: { id } });
+  async findById(id: string, manager?: EntityManager): Promise<Trip | null> {
+    return await this.repo(manager).findOne({ where: { id } });
   }
 
   async findActiveByAsset(id_activo: string): Promise<Trip | null> {
@@ -73,8 +170,12 @@ export class TripRepository {
     });
   }
 
-  async update(id: string, data: IUpdateTripData): Promise<Trip | null> {
-    const trip = await this.findById(id);
+  async update(
+    id: string,
+    data: IUpdateTripData,
+    manager?: EntityManager,
+  ): Promise<Trip | null> {
+    const trip = await this.findById(id, manager);
     if (!trip) return null;
 
     Object.assign(trip, {
@@ -82,7 +183,14 @@ export class TripRepository {
       updated_at: new Date(),
     });
 
-    return await this.tripRepo.save(trip);
+    // route_points crece por appendRoutePoints (concatenación en BD) en paralelo con
+    // este update. Si no se pide explícitamente, no se incluye en el save: el valor
+    // leído arriba puede estar desactualizado y pisaría los lotes agregados entretanto.
+    if (data.route_points === undefined) {
+      delete (trip as Partial<Trip>).route_points;
+    }
+
+    return await this.repo(manager).save(trip);
   }
 
   async findByAssetAndTimeRange(
@@ -166,6 +274,89 @@ export class TripRepository {
     return await this.tripRepo.save(trip);
   }
 
+  /**
+   * Agrega un lote de puntos al final de route_points con un único UPDATE
+   * (concatenación JSONB en la BD, sin leer el trip).
+   * @returns false si el trip todavía no existe en BD (aún no se procesó trip:started)
+   */
+  async appendRoutePoints(
+    id: string,
+    points: IRoutePoint[],
+    manager?: EntityManager,
+  ): Promise<boolean> {
+    if (points.length === 0) return true;
+
+    const result = await this.repo(manager)
+      .createQueryBuilder()
+      .update(Trip)
+      .set({
+        route_points: () => 'route_points || CAST(:points AS jsonb)',
+        updated_at: new Date(),
+      })
+      .where('id = :id', { id })
+      .setParameter('points', JSON.stringify(points))
+      .execute();
+
+    return (result.affected || 0) > 0;
+  }
+
+  /**
+   * Trips de un activo que se SOLAPAN con [startTime, endTime] (incluye activos).
+   * A diferencia de findByAssetAndTimeRange, también trae trips que empezaron antes
+   * del rango y terminaron dentro — necesario para armar el recorrido de un período.
+   */
+  async findOverlappingByAsset(
+    id_activo: string,
+    startTime: Date,
+    endTime: Date,
+  ): Promise<Trip[]> {
+    return await this.tripRepo
+      .createQueryBuilder('trip')
+      .where('trip.id_activo = :id_activo', { id_activo })
+      .andWhere('trip.start_time <= :endTime', { endTime })
+      .andWhere('(trip.end_time >= :startTime OR trip.end_time IS NULL)', {
+        startTime,
+      })
+      .orderBy('trip.start_time', 'ASC')
+      .getMany();
+  }
+
+  /**
+   * Trips de un activo que se solapan con el período (incluye el en curso),
+   * sin route_points (timeline diario)
+   */
+  async findOverlappingByAssetForReport(
+    id_activo: string,
+    startTime: Date,
+    endTime: Date,
+  ): Promise<Trip[]> {
+    return await this.tripRepo
+      .createQueryBuilder('trip')
+      .select([...TRIP_REPORT_COLUMNS, 'trip.stop_count', 'trip.is_active'])
+      .where('trip.id_activo = :id_activo', { id_activo })
+      .andWhere('trip.start_time <= :endTime', { endTime })
+      .andWhere('(trip.end_time >= :startTime OR trip.end_time IS NULL)', {
+        startTime,
+      })
+      .orderBy('trip.start_time', 'ASC')
+      .getMany();
+  }
+
+  /**
+   * Página del reporte de trips: completados que empiezan en el período, con los
+   * filtros de dispositivo, metadata y geocerca. Sin route_points.
+   */
+  async findReportPage(
+    query: IReportQuery,
+    options: IReportPageOptions,
+  ): Promise<IReportPage<Trip>> {
+    return await findReportPage(
+      this.createReportQuery(query).select(TRIP_REPORT_COLUMNS),
+      'trip',
+      options,
+    );
+  }
+
   async incrementStopCount(id: string): Promise<Trip | null> {
     const trip = await this.findById(id);
     if (!trip) return null;
@@ -176,6 +367,90 @@ export class TripRepository {
     return await this.tripRepo.save(trip);
   }
 
+  /**
+   * Suma un evento de manejo al contador del trip con un único UPDATE
+   * @returns false si el trip no existe en BD
+   */
+  async incrementDrivingEventCount(
+    id: string,
+    type: DrivingEventType,
+    manager?: EntityManager,
+  ): Promise<boolean> {
+    const column = DRIVING_EVENT_COUNT_COLUMNS[type];
+
+    const result = await this.repo(manager)
+      .createQueryBuilder()
+      .update(Trip)
+      .set({
+        [column]: () => `${column} + 1`,
+        updated_at: new Date(),
+      })
+      .where('id = :id', { id })
+      .execute();
+
+    return (result.affected || 0) > 0;
+  }
+
+  /**
+   * Resumen de los trips completados que empiezan en el período, por dispositivo
+   * (y por día en la zona horaria `dailyTimezone`, si se indica).
+   * Un trip que cruza la medianoche cuenta en el día en que empezó.
+   */
+  async getSummaryRows(
+    query: IReportQuery,
+    dailyTimezone?: string,
+  ): Promise<ITripSummaryRow[]> {
+    const queryBuilder = this.createSummaryQuery(query)
+      .select('trip.id_activo', 'device_id')
+      .addSelect('COUNT(*)', 'trip_count')
+      .addSelect('SUM(trip.distance)', 'distance')
+      .addSelect('SUM(trip.duration)', 'driving_time')
+      .addSelect('MAX(trip.max_speed)', 'max_speed')
+      .addSelect('SUM(trip.spent_fuel)', 'spent_fuel')
+      .addSelect('MIN(trip.start_time)', 'start_time')
+      .addSelect('MAX(trip.end_time)', 'end_time')
+      .groupBy('trip.id_activo');
+
+    if (dailyTimezone) {
+      queryBuilder
+        .addSelect(
+          "to_char(trip.start_time AT TIME ZONE :timezone, 'YYYY-MM-DD')",
+          'day',
+        )
+        .addGroupBy('day')
+        .setParameter('timezone', dailyTimezone);
+    }
+
+    return await queryBuilder.getRawMany<ITripSummaryRow>();
+  }
+
+  /**
+   * Resumen de los trips completados con conductor que empiezan en el período,
+   * por conductor
+   */
+  async getDriverSummaryRows(
+    query: IReportQuery,
+  ): Promise<IDriverSummaryRow[]> {
+    return await this.createSummaryQuery(query)
+      .select('trip.driver_id', 'driver_id')
+      .addSelect('array_agg(DISTINCT trip.id_activo)', 'device_ids')
+      .addSelect('COUNT(*)', 'trip_count')
+      .addSelect('SUM(trip.distance)', 'distance')
+      .addSelect('SUM(trip.duration)', 'driving_time')
+      .addSelect('MAX(trip.max_speed)', 'max_speed')
+      .addSelect(
+        'SUM(trip.harsh_acceleration_count)',
+        'harsh_acceleration_count',
+      )
+      .addSelect('SUM(trip.harsh_braking_count)', 'harsh_braking_count')
+      .addSelect('SUM(trip.sharp_cornering_count)', 'sharp_cornering_count')
+      .addSelect('MIN(trip.start_time)', 'start_time')
+      .addSelect('MAX(trip.end_time)', 'end_time')
+      .andWhere('trip.driver_id IS NOT NULL')
+      .groupBy('trip.driver_id')
+      .getRawMany<IDriverSummaryRow>();
+  }
+
   /**
    * Actualiza el timestamp updated_at del trip para indicar actividad reciente
    * Usado para detectar trips huérfanos (sin posiciones recientes)
@@ -251,6 +526,16 @@ export class TripRepository {
     return (result.affected || 0) > 0;
   }
 
+  /**
+   * Elimina trips por ID (replay)
+   */
+  async deleteByIds(ids: string[], manager?: EntityManager): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    const result = await this.repo(manager).delete({ id: In(ids) });
+    return result.affected || 0;
+  }
+
   async deleteOldTrips(olderThan: Date): Promise<number> {
     const result = await this.tripRepo.delete({
       start_time: LessThanOrEqual(olderThan),
@@ -258,4 +543,135 @@ export class TripRepository {
 
     return result.affected || 0;
   }
+
+  /**
+   * Query base de findReportPage (sin columnas, orden ni límite)
+   */
+  private createReportQuery(query: IReportQuery): SelectQueryBuilder<Trip> {
+    const {
+      deviceIds,
+      from: fromDate,
+      to: toDate,
+      tenantId,
+      clientId,
+      fleetId,
+      metadata,
+      geofenceIds,
+      geofenceCategory,
+      driverIds,
+    } = query;
+
+    const queryBuilder = this.tripRepo
+      .createQueryBuilder('trip')
+      .where('trip.start_time BETWEEN :fromDate AND :toDate', {
+        fromDate,
+        toDate,
+      })
+      .andWhere('trip.is_active = false');
+
+    // Filtro por deviceId
+    if (deviceIds && deviceIds.length > 0) {
+      queryBuilder.andWhere('trip.id_activo IN (:...deviceIds)', { deviceIds });
+    }
+
+    // Filtros optimizados con B-tree indexes (~1-2ms)
+    if (tenantId) {
+      queryBuilder.andWhere("trip.metadata->>'tenant_id' = :tenantId", {
+        tenantId,
+      });
+    }
+
+    if (clientId) {
+      queryBuilder.andWhere("trip.metadata->>'idCliente' = :clientId", {
+        clientId,
+      });
+    }
+
+    if (fleetId) {
+      queryBuilder.andWhere("trip.metadata->>'fleet_id' = :fleetId", {
+        fleetId,
+      });
+    }
+
+    // Filtro genérico JSONB con GIN index (~5-10ms)
+    // Usa el operador @> (contains) para buscar coincidencias parciales
+    if (metadata && Object.keys(metadata).length > 0) {
+      queryBuilder.andWhere('trip.metadata @> :metadata', {
+        metadata: JSON.stringify(metadata),
+      });
+    }
+
+    // Geocercas: el trip empieza o termina en ellas
+    if (geofenceIds && geofenceIds.length > 0) {
+      queryBuilder.andWhere(
+        '(trip.start_geofence_id IN (:...geofenceIds) OR trip.end_geofence_id IN (:...geofenceIds))',
+        { geofenceIds },
+      );
+    }
+
+    if (geofenceCategory) {
+      queryBuilder.andWhere(
+        '(trip.start_geofence_id IN (SELECT g.id FROM geofences g WHERE g.category = :geofenceCategory) ' +
+          'OR trip.end_geofence_id IN (SELECT g.id FROM geofences g WHERE g.category = :geofenceCategory))',
+        { geofenceCategory },
+      );
+    }
+
+    if (driverIds && driverIds.length > 0) {
+      queryBuilder.andWhere('trip.driver_id IN (:...driverIds)', { driverIds });
+    }
+
+    return queryBuilder;
+  }
+
+  /**
+   * Query base de los resúmenes: trips completados que empiezan en el período, con
+   * los filtros de dispositivo, tenant/cliente/flota, metadata y conductor
+   */
+  private createSummaryQuery(query: IReportQuery): SelectQueryBuilder<Trip> {
+    const { deviceIds, tenantId, clientId, fleetId, metadata, driverIds } =
+      query;
+
+    const queryBuilder = this.tripRepo
+      .createQueryBuilder('trip')
+      .where('trip.start_time BETWEEN :fromDate AND :toDate', {
+        fromDate: query.from,
+        toDate: query.to,
+      })
+      .andWhere('trip.is_active = false');
+
+    if (deviceIds && deviceIds.length > 0) {
+      queryBuilder.andWhere('trip.id_activo IN (:...deviceIds)', { deviceIds });
+    }
+
+    if (tenantId) {
+      queryBuilder.andWhere("trip.metadata->>'tenant_id' = :tenantId", {
+        tenantId,
+      });
+    }
+
+    if (clientId) {
+      queryBuilder.andWhere("trip.metadata->>'idCliente' = :clientId", {
+        clientId,
+      });
+    }
+
+    if (fleetId) {
+      queryBuilder.andWhere("trip.metadata->>'fleet_id' = :fleetId", {
+        fleetId,
+      });
+    }
+
+    if (metadata && Object.keys(metadata).length > 0) {
+      queryBuilder.andWhere('trip.metadata @> :metadata', {
+        metadata: JSON.stringify(metadata),
+      });
+    }
+
+    if (driverIds && driverIds.length > 0) {
+      queryBuilder.andWhere('trip.driver_id IN (:...driverIds)', { driverIds });
+    }
+
+    return queryBuilder;
+  }
 }
@@ -0,0 +1,206 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, DataSource } from 'typeorm';
+import {
+  WebhookSubscription,
+  WebhookDelivery,
+  WebhookDeadLetter,
+} from '../entities';
+
+export interface ICreateWebhookSubscriptionData {
+  url: string;
+  event_types?: string[];
+  tenant_id?: string | null;
+  metadata_filter?: Record<string, any> | null;
+  secret: string;
+  description?: string | null;
+  is_active?: boolean;
+}
+
+export type IUpdateWebhookSubscriptionData =
+  Partial<ICreateWebhookSubscriptionData>;
+
+export interface ICreateWebhookDeliveryData {
+  subscription_id: string;
+  event_type: string;
+  payload: Record<string, any>;
+  next_attempt_at: Date;
+}
+
+@Injectable()
+export class WebhookRepository {
+  constructor(
+    @InjectRepository(WebhookSubscription)
+    private readonly subscriptionRepo: Repository<WebhookSubscription>,
+    @InjectRepository(WebhookDelivery)
+    private readonly deliveryRepo: Repository<WebhookDelivery>,
+    @InjectRepository(WebhookDeadLetter)
+    private readonly deadLetterRepo: Repository<WebhookDeadLetter>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  // Suscripciones
+
+  async findAllSubscriptions(filters?: {
+    tenantId?: string;
+  }): Promise<WebhookSubscription[]> {
+    const where: any = {};
+    if (filters?.tenantId) where.tenant_id = filters.tenantId;
+
+    return await this.subscriptionRepo.find({
+      where,
+      order: { created_at: 'ASC' },
+    });
+  }
+
+  async findActiveSubscriptions(): Promise<WebhookSubscription[]> {
+    return await this.subscriptionRepo.find({ where: { is_active: true } });
+  }
+
+  async findSubscriptionById(id: string): Promise<WebhookSubscription | null> {
+    return await this.subscriptionRepo.findOne({ where: { id } });
+  }
+
+  async createSubscription(
+    data: ICreateWebhookSubscriptionData,
+  ): Promise<WebhookSubscription> {
+    const subscription = this.subscriptionRepo.create(data);
+    return await this.subscriptionRepo.save(subscription);
+  }
+
+  async updateSubscription(
+    id: string,
+    data: IUpdateWebhookSubscriptionData,
+  ): Promise<WebhookSubscription | null> {
+    const subscription = await this.findSubscriptionById(id);
+    if (!subscription) return null;
+
+    Object.assign(subscription, data);
+    return await this.subscriptionRepo.save(subscription);
+  }
+
+  /**
+   * Elimina una suscripción junto con sus envíos pendientes y dead letters
+   * @returns true si se eliminó, false si no existía
+   */
+  async deleteSubscription(id: string): Promise<boolean> {
+    await this.deliveryRepo.delete({ subscription_id: id });
+    await this.deadLetterRepo.delete({ subscription_id: id });
+    const result = await this.subscriptionRepo.delete({ id });
+    return (result.affected || 0) > 0;
+  }
+
+  // Envíos pendientes
+
+  async createDeliveries(data: ICreateWebhookDeliveryData[]): Promise<void> {
+    if (data.length === 0) return;
+    await this.deliveryRepo.insert(data);
+  }
+
+  /**
+   * Toma hasta `limit` envíos vencidos y los reserva hasta `leaseUntil`
+   * (FOR UPDATE SKIP LOCKED: varias instancias no toman el mismo envío)
+   */
+  async claimDueDeliveries(
+    limit: number,
+    leaseUntil: Date,
+  ): Promise<WebhookDelivery[]> {
+    const [rows]: [WebhookDelivery[], number] = await this.deliveryRepo.query(
+      `UPDATE webhook_deliveries SET next_attempt_at = $2
+       WHERE id IN (
+         SELECT id FROM webhook_deliveries
+         WHERE next_attempt_at <= NOW()
+         ORDER BY next_attempt_at ASC
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [limit, leaseUntil],
+    );
+
+    return rows;
+  }
+
+  async deleteDelivery(id: string): Promise<void> {
+    await this.deliveryRepo.delete({ id });
+  }
+
+  async scheduleRetry(
+    id: string,
+    data: {
+      attempts: number;
+      next_attempt_at: Date;
+      last_status_code: number | null;
+      last_error: string | null;
+    },
+  ): Promise<void> {
+    await this.deliveryRepo.update({ id }, data);
+  }
+
+  async countPendingDeliveries(): Promise<number> {
+    return await this.deliveryRepo.count();
+  }
+
+  // Dead letters
+
+  /**
+   * Mueve un envío a dead letters (en una transacción)
+   */
+  async moveToDeadLetter(
+    delivery: WebhookDelivery,
+    result: { last_status_code: number | null; last_error: string | null },
+  ): Promise<void> {
+    await this.dataSource.transaction(async (manager) => {
+      await manager.insert(WebhookDeadLetter, {
+        subscription_id: delivery.subscription_id,
+        event_type: delivery.event_type,
+        payload: delivery.payload,
+        attempts: delivery.attempts,
+        last_status_code: result.last_status_code,
+        last_error: result.last_error,
+        event_created_at: delivery.created_at,
+      });
+      await manager.delete(WebhookDelivery, { id: delivery.id });
+    });
+  }
+
+  async findDeadLetters(filters: {
+    subscriptionId?: string;
+    limit: number;
+  }): Promise<WebhookDeadLetter[]> {
+    const where: any = {};
+    if (filters.subscriptionId) where.subscription_id = filters.subscriptionId;
+
+    return await this.deadLetterRepo.find({
+      where,
+      order: { failed_at: 'DESC' },
+      take: filters.limit,
+    });
+  }
+
+  async findDeadLetterById(id: string): Promise<WebhookDeadLetter | null> {
+    return await this.deadLetterRepo.findOne({ where: { id } });
+  }
+
+  /**
+   * Vuelve a encolar un dead letter (intentos desde cero) y lo elimina
+   * @returns el envío creado
+   */
+  async redeliverDeadLetter(
+    deadLetter: WebhookDeadLetter,
+  ): Promise<WebhookDelivery> {
+    return await this.dataSource.transaction(async (manager) => {
+      const delivery = await manager.save(
+        manager.create(WebhookDelivery, {
+          subscription_id: deadLetter.subscription_id,
+          event_type: deadLetter.event_type,
+          payload: deadLetter.payload,
+          attempts: 0,
+          next_attempt_at: new Date(),
+        }),
+      );
+      await manager.delete(WebhookDeadLetter, { id: deadLetter.id });
+      return delivery;
+    });
+  }
+}
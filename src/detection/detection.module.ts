@@ -1,8 +1,18 @@
 import { Module } from '@nestjs/common';
 import { AuxiliaresModule } from '../auxiliares/auxiliares.module';
 import { DatabaseModule } from '../database/database.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
 import {
   StateMachineService,
+  DrivingBehaviorService,
+  SpeedingService,
+  IdlingService,
+  ThresholdProfileService,
+  GeofenceService,
+  DriverService,
+  FuelService,
+  OdometerSourceService,
+  PlaceService,
   DeviceStateService,
   EventPublisherService,
   PositionProcessorService,
@@ -10,18 +20,33 @@ import {
   IgnitionSubscriberService,
   TrackerStateService,
   TripPersistenceService,
+  TripRouteBufferService,
   StopPersistenceService,
+  DrivingEventPersistenceService,
+  SpeedingPersistenceService,
+  FuelEventPersistenceService,
+  IdlePersistenceService,
   DeviceQueueManager,
   DeviceEventQueueManager,
   DistanceValidatorService,
   TripQualityAnalyzerService,
   OrphanTripCleanupService,
+  PlaceClusteringService,
 } from './services';
 
 @Module({
-  imports: [AuxiliaresModule, DatabaseModule],
+  imports: [AuxiliaresModule, DatabaseModule, WebhooksModule],
   providers: [
     StateMachineService,
+    DrivingBehaviorService,
+    SpeedingService,
+    IdlingService,
+    ThresholdProfileService,
+    GeofenceService,
+    DriverService,
+    FuelService,
+    OdometerSourceService,
+    PlaceService,
     DeviceStateService,
     EventPublisherService,
     PositionProcessorService,
@@ -31,13 +56,28 @@ import {
     IgnitionSubscriberService,
     TrackerStateService,
     TripPersistenceService,
+    TripRouteBufferService,
     StopPersistenceService,
+    DrivingEventPersistenceService,
+    SpeedingPersistenceService,
+    FuelEventPersistenceService,
+    IdlePersistenceService,
     DistanceValidatorService,
     TripQualityAnalyzerService,
     OrphanTripCleanupService,
+    PlaceClusteringService,
   ],
   exports: [
     StateMachineService,
+    DrivingBehaviorService,
+    SpeedingService,
+    IdlingService,
+    ThresholdProfileService,
+    GeofenceService,
+    DriverService,
+    FuelService,
+    OdometerSourceService,
+    PlaceService,
     DeviceStateService,
     EventPublisherService,
     PositionProcessorService,
@@ -47,10 +87,16 @@ import {
     IgnitionSubscriberService,
     TrackerStateService,
     TripPersistenceService,
+    TripRouteBufferService,
     StopPersistenceService,
+    DrivingEventPersistenceService,
+    SpeedingPersistenceService,
+    FuelEventPersistenceService,
+    IdlePersistenceService,
     DistanceValidatorService,
     TripQualityAnalyzerService,
     OrphanTripCleanupService,
+    PlaceClusteringService,
   ],
 })
 export class DetectionModule {}
@@ -1,3 +1,5 @@
+import { IDrivingEvent } from '../../interfaces/driving-event.interface';
+
 /**
  * Estados de la máquina de estados para detección de trips
  */
@@ -35,6 +37,66 @@ export enum DetectionReason {
   THRESHOLD_REACHED = 'threshold_reached',
 }
 
+/**
+ * Episodio de exceso de velocidad en curso (se guarda en device:state)
+ */
+export interface ISpeedingEpisode {
+  speedingId: string;
+  tripId: string;
+  speedLimit: number; // km/h vigente al iniciar el episodio
+  geofenceId?: string; // Geocerca de la que sale el límite
+  startTime: number;
+  startLat: number;
+  startLon: number;
+  lastTimestamp: number; // Última posición por encima del límite
+  lastLat: number;
+  lastLon: number;
+  maxSpeed: number; // km/h
+  distance: number; // metros acumulados por encima del límite
+  confirmed: boolean; // true si ya se publicó speeding:started (superó speedingMinDuration)
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Episodio de ralentí en curso (se guarda en device:state)
+ */
+export interface IIdleEpisode {
+  idleId: string;
+  tripId?: string; // Trip confirmado en el que ocurre (si hay)
+  stopId?: string; // Stop en curso al empezar
+  startTime: number;
+  lat: number;
+  lon: number;
+  lastTimestamp: number; // Última posición en IDLE
+  confirmed: boolean; // true si ya se publicó idle:started (superó minIdleDuration)
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Estado del sensor de combustible del device (se guarda en device:state)
+ */
+export interface IFuelState {
+  samples: number[]; // Últimas lecturas de nivel (litros) para la mediana
+  level?: number; // Nivel suavizado (litros)
+  counter?: number; // Última lectura del contador de combustible usado (litros)
+  consumed: number; // Consumo acumulado del device (litros), base del consumo por trip
+
+  // Nivel estable al quedar detenido (o después del último evento): referencia para
+  // detectar cargas y caídas
+  anchor?: {
+    level: number;
+    timestamp: number;
+    lat: number;
+    lon: number;
+  };
+
+  // Trip en curso y consumo acumulado al iniciarlo
+  tripId?: string;
+  tripConsumedStart?: number;
+  // Último trip terminado (cuando cierra y empieza otro en la misma posición)
+  lastTrip?: { tripId: string; spentFuel: number };
+}
+
 /**
  * Estado de movimiento almacenado en Redis para cada dispositivo
  */
@@ -53,6 +115,7 @@ export interface IDeviceMotionState {
   tripStopsCount?: number;
   tripConfirmed?: boolean; // true si el trip ya fue publicado a BD (cumplió mínimos)
   tripMetadata?: Record<string, any>; // Metadata del trip (se propaga del position event)
+  tripDriverId?: string; // Conductor del trip (drivers.unique_id); si cambia, el trip se parte
 
   // === Contexto para detección de ruido GPS ===
   tripMaxDistanceFromOrigin?: number; // Distancia máxima alcanzada desde el origen
@@ -88,6 +151,7 @@ export interface IDeviceMotionState {
   lastLat: number;
   lastLon: number;
   lastSpeed: number;
+  lastHeading?: number; // rumbo reportado (grados), para detectar giros cerrados
   lastIgnition: boolean;
 
   // Promedios de velocidad (para detección más precisa)
@@ -104,6 +168,22 @@ export interface IDeviceMotionState {
     ignition: boolean;
   }>;
 
+  // Eventos de manejo del trip en curso que esperan la confirmación del trip
+  // (se publican junto con trip:started; se descartan si el trip no se confirma)
+  pendingDrivingEvents?: IDrivingEvent[];
+
+  // Geocercas que contienen la última posición (para detectar entradas/salidas)
+  geofenceIds?: string[];
+
+  // Exceso de velocidad en curso (dentro del trip confirmado)
+  speedingEpisode?: ISpeedingEpisode;
+
+  // Ralentí en curso (motor encendido sin movimiento)
+  idleEpisode?: IIdleEpisode;
+
+  // Sensor de combustible (solo devices con sensor configurado)
+  fuel?: IFuelState;
+
   // Metadata
   lastUpdate: number; // timestamp de última actualización
   version: number; // para optimistic locking
@@ -143,6 +223,49 @@ export interface IDetectionThresholds {
   // Si el vehículo está en IDLE (motor encendido, sin movimiento) por más de este tiempo,
   // se cierra el trip automáticamente para evitar trips "fantasma" de larga duración
   maxIdleDuration: number;
+
+  // Aceleración longitudinal mínima para una aceleración brusca (m/s²)
+  harshAccelerationThreshold: number;
+
+  // Desaceleración longitudinal mínima para una frenada brusca (m/s², valor absoluto)
+  harshBrakingThreshold: number;
+
+  // Aceleración lateral mínima para un giro cerrado (m/s²)
+  // Se estima como velocidad angular del rumbo × velocidad
+  sharpCorneringThreshold: number;
+
+  // Intervalo máximo entre dos posiciones para evaluar eventos de manejo (segundos)
+  // Con intervalos mayores el Δv/Δt promedia y ya no representa una maniobra puntual
+  drivingEventMaxInterval: number;
+
+  // Velocidad mínima para evaluar giros cerrados (km/h)
+  // Por debajo el rumbo reportado por el GPS es inestable
+  corneringMinSpeed: number;
+
+  // Límite de velocidad del device/flota (km/h, 0 = sin límite)
+  // Una geocerca con speed_limit lo reemplaza mientras la posición está dentro
+  speedLimit: number;
+
+  // Duración mínima por encima del límite para registrar un exceso (segundos)
+  // Filtra picos de velocidad de una sola posición
+  speedingMinDuration: number;
+
+  // Lecturas de nivel de combustible que se combinan con la mediana
+  // Filtra el ruido del sensor (oleaje del tanque, pendientes)
+  fuelSmoothingWindow: number;
+
+  // Subida mínima del nivel con el vehículo detenido para registrar una carga (litros)
+  fuelRefuelThreshold: number;
+
+  // Caída mínima del nivel con el vehículo detenido para registrar una caída (litros)
+  fuelDrainThreshold: number;
+
+  // Tiempo máximo en que se produce la carga o caída (segundos)
+  // Cambios más lentos (consumo en ralentí) no cuentan como evento
+  fuelEventMaxDuration: number;
+
+  // Duración mínima en ralentí para registrar un episodio (segundos)
+  minIdleDuration: number;
 }
 
 /**
@@ -158,4 +281,16 @@ export const DEFAULT_THRESHOLDS: IDetectionThresholds = {
   positionBufferSize: 300, // últimas 300 posiciones (~5 minutos a 1 pos/seg)
   orphanTripTimeout: 1800, // 30 minutos - tiempo para considerar trip huérfano (reducido de 4h)
   maxIdleDuration: 1800, // 30 minutos - cierra trip si está en IDLE por más de este tiempo
+  harshAccelerationThreshold: 3, // m/s² (~0.3 g)
+  harshBrakingThreshold: 4, // m/s² (~0.4 g)
+  sharpCorneringThreshold: 4, // m/s² (~0.4 g)
+  drivingEventMaxInterval: 5, // segundos
+  corneringMinSpeed: 20, // km/h
+  speedLimit: 0, // km/h - sin límite
+  speedingMinDuration: 10, // segundos
+  fuelSmoothingWindow: 5, // lecturas
+  fuelRefuelThreshold: 10, // litros
+  fuelDrainThreshold: 8, // litros
+  fuelEventMaxDuration: 1800, // 30 minutos
+  minIdleDuration: 300, // 5 minutos
 };
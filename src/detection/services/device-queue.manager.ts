@@ -2,6 +2,15 @@ import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { IPositionEvent } from '../../interfaces';
 import { PositionProcessorService } from './position-processor.service';
 
+/**
+ * Posición encolada. onProcessed se llama al terminar de procesarla
+ * (true si processPosition no falló)
+ */
+interface IQueuedPosition {
+  position: IPositionEvent;
+  onProcessed?: (processed: boolean) => void;
+}
+
 /**
  * Cola de procesamiento para un dispositivo específico
  *
@@ -9,7 +18,7 @@ import { PositionProcessorService } from './position-processor.service';
  * en la creación/completado de stops y trips
  */
 class DeviceQueue {
-  private queue: IPositionEvent[] = [];
+  private queue: IQueuedPosition[] = [];
   private processing = false;
   private lastActivity: number;
   private readonly logger: Logger;
@@ -28,8 +37,11 @@ class DeviceQueue {
   /**
    * Agrega una posición a la cola y dispara el procesamiento si no está activo
    */
-  async add(position: IPositionEvent): Promise<void> {
-    this.queue.push(position);
+  async add(
+    position: IPositionEvent,
+    onProcessed?: (processed: boolean) => void,
+  ): Promise<void> {
+    this.queue.push({ position, onProcessed });
     this.lastActivity = Date.now();
 
     // Log solo si la cola empieza a crecer (potencial problema)
@@ -59,9 +71,9 @@ class DeviceQueue {
 
     try {
       while (this.queue.length > 0) {
-        const position = this.queue.shift();
+        const item = this.queue.shift();
 
-        if (!position) {
+        if (!item) {
           continue;
         }
 
@@ -69,7 +81,8 @@ class DeviceQueue {
 
         try {
           // Procesar posición de forma secuencial
-          await this.processor.processPosition(position);
+          const processed = await this.processor.processPosition(item.position);
+          item.onProcessed?.(processed);
 
           const processingTime = Date.now() - startTime;
 
@@ -83,6 +96,7 @@ class DeviceQueue {
             `Error processing position for device ${this.deviceId}`,
             error.stack,
           );
+          item.onProcessed?.(false);
           // Continuar con la siguiente posición incluso si esta falló
         }
       }
@@ -162,7 +176,11 @@ export class DeviceQueueManager implements OnModuleInit {
   /**
    * Encola una posición para procesamiento secuencial por dispositivo
    */
-  async enqueue(deviceId: string, position: IPositionEvent): Promise<void> {
+  async enqueue(
+    deviceId: string,
+    position: IPositionEvent,
+    onProcessed?: (processed: boolean) => void,
+  ): Promise<void> {
     let queue = this.queues.get(deviceId);
 
     if (!queue) {
@@ -171,7 +189,7 @@ export class DeviceQueueManager implements OnModuleInit {
     }
 
     this.totalEnqueued++;
-    await queue.add(position);
+    await queue.add(position, onProcessed);
 
     // Actualizar máximo tamaño de cola
     const currentSize = queue.getSize();
@@ -186,6 +204,18 @@ export class DeviceQueueManager implements OnModuleInit {
     }
   }
 
+  /**
+   * Encola una posición y espera a que se procese (ingesta por Redis Streams:
+   * la entrada se confirma recién después de procesarla)
+   *
+   * @returns true si processPosition terminó sin error
+   */
+  enqueueAndWait(deviceId: string, position: IPositionEvent): Promise<boolean> {
+    return new Promise((resolve) => {
+      this.enqueue(deviceId, position, resolve).catch(() => resolve(false));
+    });
+  }
+
   /**
    * Inicia tarea de limpieza de colas inactivas
    */
@@ -0,0 +1,126 @@
+import { findDriverId } from './driver.service';
+import { StateMachineService } from './state-machine.service';
+import { DistanceValidatorService } from './distance-validator.service';
+import { DEFAULT_THRESHOLDS, IDeviceMotionState, MotionState } from '../models';
+import { IPositionEvent } from '../../interfaces';
+import { DriverAssignment } from '../../database/entities';
+
+const T0 = Date.parse('2025-01-10T12:00:00Z');
+
+const position = (o: Partial<IPositionEvent> = {}): IPositionEvent => ({
+  deviceId: 'TRUCK-1',
+  timestamp: T0,
+  latitude: -34.6,
+  longitude: -58.4,
+  speed: 50,
+  ignition: true,
+  ...o,
+});
+
+const assignment = (
+  driver: string,
+  startHours: number,
+  endHours?: number,
+): DriverAssignment =>
+  ({
+    device_id: 'TRUCK-1',
+    driver_unique_id: driver,
+    start_time: new Date(T0 + startHours * 3600000),
+    end_time: endHours === undefined ? null : new Date(T0 + endHours * 3600000),
+  }) as DriverAssignment;
+
+describe('findDriverId', () => {
+  // Ordenadas por start_time DESC, como las devuelve el repositorio
+  const assignments = [assignment('NIGHT', 2), assignment('DAY', -6, 2)];
+
+  it('prefers the driver reported in the position metadata', () => {
+    expect(
+      findDriverId(
+        position({ metadata: { driverUniqueId: ' IBUTTON-01 ' } }),
+        assignments,
+        ['driverUniqueId', 'driver_id'],
+      ),
+    ).toBe('IBUTTON-01');
+
+    // Clave vacía: sigue con la siguiente y después con las asignaciones
+    expect(
+      findDriverId(
+        position({ metadata: { driverUniqueId: '', driver_id: 42 } }),
+        assignments,
+        ['driverUniqueId', 'driver_id'],
+      ),
+    ).toBe('42');
+  });
+
+  it('falls back to the assignment in force at the position time', () => {
+    expect(findDriverId(position(), assignments)).toBe('DAY');
+    // end_time exclusivo: el cambio de turno ya es del conductor nuevo
+    expect(
+      findDriverId(position({ timestamp: T0 + 2 * 3600000 }), assignments),
+    ).toBe('NIGHT');
+    expect(
+      findDriverId(position({ timestamp: T0 - 7 * 3600000 }), assignments),
+    ).toBeUndefined();
+    expect(findDriverId(position(), undefined)).toBeUndefined();
+  });
+});
+
+describe('StateMachineService — driver change', () => {
+  const service = new StateMachineService(new DistanceValidatorService());
+
+  // Trip de 20 minutos y 8km en curso, manejado por DAY
+  const movingState = (): IDeviceMotionState => ({
+    deviceId: 'TRUCK-1',
+    state: MotionState.MOVING,
+    stateStartTime: T0 - 1200000,
+    currentTripId: 'trip_TRUCK-1_1',
+    tripStartTime: T0 - 1200000,
+    tripStartLat: -34.67,
+    tripStartLon: -58.4,
+    tripDistance: 8000,
+    tripMaxSpeed: 70,
+    tripMaxDistanceFromOrigin: 8000,
+    tripDriverId: 'DAY',
+    lastTimestamp: T0 - 10000,
+    lastLat: -34.6,
+    lastLon: -58.4,
+    lastSpeed: 50,
+    lastIgnition: true,
+    lastUpdate: T0 - 10000,
+    version: 1,
+  });
+
+  it('ends the trip and starts a new one when another driver is identified', () => {
+    const result = service.processPosition(
+      position({ latitude: -34.5999 }),
+      movingState(),
+      undefined,
+      DEFAULT_THRESHOLDS,
+      'NIGHT',
+    );
+
+    expect(result.actions.endTrip).toBe(true);
+    expect(result.actions.startTrip).toBe(true);
+    expect(result.previousTrip).toMatchObject({
+      tripId: 'trip_TRUCK-1_1',
+      driverId: 'DAY',
+    });
+    expect(result.updatedState.currentTripId).not.toBe('trip_TRUCK-1_1');
+  });
+
+  it('keeps the trip when the driver is the same or unknown', () => {
+    for (const driverId of ['DAY', undefined]) {
+      const result = service.processPosition(
+        position({ latitude: -34.5999 }),
+        movingState(),
+        undefined,
+        DEFAULT_THRESHOLDS,
+        driverId,
+      );
+
+      expect(result.actions.endTrip).toBe(false);
+      expect(result.actions.startTrip).toBe(false);
+      expect(result.updatedState.currentTripId).toBe('trip_TRUCK-1_1');
+    }
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { DriverRepository } from '../../database/repositories/driver.repository';
+import { DriverAssignment } from '../../database/entities';
+import { IPositionEvent } from '../../interfaces';
+import { DRIVER_METADATA_KEYS, DRIVERS_REFRESH_MS } from '../../env';
+import { PeriodicCache } from '../../auxiliares/cache/periodic-cache';
+
+// Asignaciones terminadas que se mantienen en memoria: cubre posiciones que llegan
+// con atraso (equipos que descargan su buffer al recuperar señal)
+const ASSIGNMENT_CACHE_HOURS = 48;
+
+/**
+ * Conductor de una posición: el de su metadata (iButton / RFID) o, si no trae,
+ * el de la asignación del device vigente en su timestamp (la más reciente si hay
+ * varias superpuestas).
+ *
+ * @param assignments Asignaciones del device ordenadas por start_time DESC
+ */
+export const findDriverId = (
+  position: IPositionEvent,
+  assignments: DriverAssignment[] | undefined,
+  metadataKeys: string[] = DRIVER_METADATA_KEYS,
+): string | undefined => {
+  for (const key of metadataKeys) {
+    const value: unknown = position.metadata?.[key];
+    if (
+      (typeof value === 'string' || typeof value === 'number') &&
+      String(value).trim() !== ''
+    ) {
+      return String(value).trim();
+    }
+  }
+
+  const assignment = assignments?.find(
+    (candidate) =>
+      candidate.start_time.getTime() <= position.timestamp &&
+      (!candidate.end_time ||
+        candidate.end_time.getTime() > position.timestamp),
+  );
+
+  return assignment?.driver_unique_id;
+};
+
+/**
+ * Servicio de conductores
+ *
+ * - Resuelve el conductor de cada posición (metadata o asignación vigente).
+ * - Mantiene en memoria las asignaciones abiertas y las terminadas en las últimas
+ *   ASSIGNMENT_CACHE_HOURS horas (se recargan cada DRIVERS_REFRESH_MS y después de
+ *   cada cambio hecho vía API) para no consultar la BD por cada posición.
+ */
+@Injectable()
+export class DriverService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(DriverService.name);
+  private readonly cache = new PeriodicCache(
+    'driver assignments',
+    DRIVERS_REFRESH_MS,
+    () => this.load(),
+    this.logger,
+  );
+  private assignments = new Map<string, DriverAssignment[]>();
+
+  constructor(private readonly driverRepository: DriverRepository) {}
+
+  async onModuleInit() {
+    await this.cache.start();
+  }
+
+  onModuleDestroy() {
+    this.cache.stop();
+  }
+
+  /**
+   * Recarga las asignaciones recientes desde la BD
+   */
+  reload(): Promise<void> {
+    return this.cache.reload();
+  }
+
+  private async load(): Promise<void> {
+    const assignments = await this.driverRepository.findAssignments({
+      from: new Date(Date.now() - ASSIGNMENT_CACHE_HOURS * 3600 * 1000),
+    });
+
+    this.assignments = this.groupByDevice(assignments);
+
+    this.logger.debug(`Loaded ${assignments.length} driver assignments`);
+  }
+
+  /**
+   * Conductor de la posición (undefined si no trae ni tiene asignación vigente)
+   */
+  resolveDriverId(position: IPositionEvent): string | undefined {
+    return findDriverId(position, this.assignments.get(position.deviceId));
+  }
+
+  /**
+   * Asignaciones agrupadas por device, la más reciente primero
+   * (findAssignments ya las devuelve por start_time DESC)
+   */
+  private groupByDevice(
+    assignments: DriverAssignment[],
+  ): Map<string, DriverAssignment[]> {
+    const byDevice = new Map<string, DriverAssignment[]>();
+
+    for (const assignment of assignments) {
+      const list = byDevice.get(assignment.device_id) || [];
+      list.push(assignment);
+      byDevice.set(assignment.device_id, list);
+    }
+
+    return byDevice;
+  }
+}
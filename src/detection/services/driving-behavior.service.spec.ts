@@ -0,0 +1,175 @@
+import { DrivingBehaviorService } from './driving-behavior.service';
+import { DistanceValidatorService } from './distance-validator.service';
+import { DEFAULT_THRESHOLDS, IDeviceMotionState, MotionState } from '../models';
+import { IPositionEvent } from '../../interfaces';
+
+const T0 = Date.parse('2025-01-10T12:00:00Z');
+
+// Estado del device en la posición anterior: trip en curso que ya se alejó del origen
+const previousState = (
+  o: Partial<IDeviceMotionState> = {},
+): IDeviceMotionState => ({
+  deviceId: 'DEV-1',
+  state: MotionState.MOVING,
+  stateStartTime: T0 - 600000,
+  currentTripId: 'trip_DEV-1_1',
+  tripStartLat: -34.7,
+  tripStartLon: -58.4,
+  tripMaxDistanceFromOrigin: 2000,
+  lastTimestamp: T0,
+  lastLat: -34.6,
+  lastLon: -58.4,
+  lastSpeed: 60,
+  lastHeading: 0,
+  lastIgnition: true,
+  lastUpdate: T0,
+  version: 1,
+  ...o,
+});
+
+// ~14m al norte de la posición anterior (compatible con ~50 km/h durante 1s)
+const position = (o: Partial<IPositionEvent> = {}): IPositionEvent => ({
+  deviceId: 'DEV-1',
+  timestamp: T0 + 1000,
+  latitude: -34.59987,
+  longitude: -58.4,
+  speed: 60,
+  heading: 0,
+  ignition: true,
+  ...o,
+});
+
+describe('DrivingBehaviorService', () => {
+  const service = new DrivingBehaviorService(new DistanceValidatorService());
+
+  it('detects harsh braking and acceleration from the speed delta per second', () => {
+    // 60 → 40 km/h en 1s: 5.56 m/s² de desaceleración
+    const [braking] = service.detect(
+      position({ speed: 40 }),
+      previousState(),
+      'trip_DEV-1_1',
+      DEFAULT_THRESHOLDS,
+    );
+
+    expect(braking).toMatchObject({
+      eventId: `harsh_braking_DEV-1_${T0 + 1000}`,
+      tripId: 'trip_DEV-1_1',
+      type: 'harsh_braking',
+      value: 5.56,
+      threshold: DEFAULT_THRESHOLDS.harshBrakingThreshold,
+      speed: 40,
+      previousSpeed: 60,
+      interval: 1,
+    });
+
+    // 30 → 45 km/h en 1s: 4.17 m/s²
+    const [acceleration] = service.detect(
+      position({ speed: 45 }),
+      previousState({ lastSpeed: 30 }),
+      'trip_DEV-1_1',
+      DEFAULT_THRESHOLDS,
+    );
+    expect(acceleration.type).toBe('harsh_acceleration');
+
+    // 60 → 50 km/h en 1s (2.78 m/s²) no llega al umbral de frenada
+    expect(
+      service.detect(
+        position({ speed: 50 }),
+        previousState(),
+        'trip_DEV-1_1',
+        DEFAULT_THRESHOLDS,
+      ),
+    ).toEqual([]);
+  });
+
+  it('detects sharp cornering from heading rate × speed, wrapping through north', () => {
+    // 45° en 1s a 40 km/h: 0.785 rad/s × 11.1 m/s ≈ 8.7 m/s²
+    const [cornering] = service.detect(
+      position({ speed: 40, heading: 45 }),
+      previousState({ lastSpeed: 40 }),
+      'trip_DEV-1_1',
+      DEFAULT_THRESHOLDS,
+    );
+    expect(cornering).toMatchObject({
+      type: 'sharp_cornering',
+      headingChange: 45,
+      value: 8.73,
+    });
+
+    // 350° → 10° es un giro de 20° (≈ 3.9 m/s²), no de 340°
+    expect(
+      service.detect(
+        position({ speed: 40, heading: 10 }),
+        previousState({ lastSpeed: 40, lastHeading: 350 }),
+        'trip_DEV-1_1',
+        DEFAULT_THRESHOLDS,
+      ),
+    ).toEqual([]);
+
+    // Sin heading o por debajo de corneringMinSpeed no se evalúa el giro
+    expect(
+      service.detect(
+        position({ speed: 15, heading: 90 }),
+        previousState({ lastSpeed: 15 }),
+        'trip_DEV-1_1',
+        DEFAULT_THRESHOLDS,
+      ),
+    ).toEqual([]);
+    expect(
+      service.detect(
+        position({ speed: 40, heading: 90 }),
+        previousState({ lastSpeed: 40, lastHeading: undefined }),
+        'trip_DEV-1_1',
+        DEFAULT_THRESHOLDS,
+      ),
+    ).toEqual([]);
+  });
+
+  it('ignores samples without trip, with long intervals or flagged by the distance validator', () => {
+    const braking = position({ speed: 0 });
+
+    expect(
+      service.detect(braking, previousState(), undefined, DEFAULT_THRESHOLDS),
+    ).toEqual([]);
+    expect(
+      service.detect(braking, null, 'trip_DEV-1_1', DEFAULT_THRESHOLDS),
+    ).toEqual([]);
+
+    // 60 → 0 km/h en 10s: el intervalo supera drivingEventMaxInterval
+    expect(
+      service.detect(
+        position({ speed: 0, timestamp: T0 + 10000 }),
+        previousState(),
+        'trip_DEV-1_1',
+        DEFAULT_THRESHOLDS,
+      ),
+    ).toEqual([]);
+
+    // Salto de ~11km en 1s: velocidad imposible (posición inválida)
+    expect(
+      service.detect(
+        position({ speed: 0, latitude: -34.5 }),
+        previousState(),
+        'trip_DEV-1_1',
+        DEFAULT_THRESHOLDS,
+      ),
+    ).toEqual([]);
+
+    // Ruido GPS de un vehículo que nunca se alejó del origen
+    expect(
+      service.detect(
+        position({ speed: 0, latitude: -34.59998 }),
+        previousState({
+          lastSpeed: 20,
+          tripStartLat: -34.6,
+          tripStartLon: -58.4,
+          tripMaxDistanceFromOrigin: 10,
+          tripSpeedSum: 8,
+          tripPositionCount: 4,
+        }),
+        'trip_DEV-1_1',
+        DEFAULT_THRESHOLDS,
+      ),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,190 @@
+import { Injectable } from '@nestjs/common';
+import { IDeviceMotionState, IDetectionThresholds } from '../models';
+import {
+  IPositionEvent,
+  IDrivingEvent,
+  DrivingEventType,
+} from '../../interfaces';
+import { DistanceValidatorService } from './distance-validator.service';
+import { buildTripContext } from './state-machine.service';
+
+const KMH_TO_MS = 1 / 3.6;
+const DEG_TO_RAD = Math.PI / 180;
+
+/**
+ * Servicio que detecta eventos de manejo brusco entre dos posiciones consecutivas
+ *
+ * - Aceleración / frenada brusca: Δvelocidad / Δt (aceleración longitudinal)
+ * - Giro cerrado: velocidad angular del rumbo × velocidad (aceleración lateral).
+ *   Requiere que el tracker reporte heading en ambas posiciones.
+ *
+ * No se evalúan intervalos más largos que drivingEventMaxInterval (el promedio ya no
+ * representa una maniobra) ni segmentos que DistanceValidatorService marca como
+ * inválidos o ruido GPS. Los umbrales vienen del perfil del device.
+ */
+@Injectable()
+export class DrivingBehaviorService {
+  constructor(private readonly distanceValidator: DistanceValidatorService) {}
+
+  /**
+   * Evalúa la posición contra la anterior (guardada en device:state)
+   *
+   * @param previous Estado del device ANTES de procesar la posición
+   * @param tripId Trip al que pertenece la posición (sin trip no hay eventos)
+   */
+  detect(
+    position: IPositionEvent,
+    previous: IDeviceMotionState | null,
+    tripId: string | undefined,
+    thresholds: IDetectionThresholds,
+  ): IDrivingEvent[] {
+    if (!previous || !tripId) {
+      return [];
+    }
+
+    const interval = (position.timestamp - previous.lastTimestamp) / 1000;
+    if (interval <= 0 || interval > thresholds.drivingEventMaxInterval) {
+      return [];
+    }
+
+    const validation = this.distanceValidator.validateSegment(
+      {
+        lat: previous.lastLat,
+        lon: previous.lastLon,
+        timestamp: previous.lastTimestamp,
+        speed: previous.lastSpeed,
+        ignition: previous.lastIgnition,
+      },
+      {
+        lat: position.latitude,
+        lon: position.longitude,
+        timestamp: position.timestamp,
+        speed: position.speed,
+        ignition: position.ignition ?? false,
+      },
+      previous.currentTripId ? buildTripContext(previous) : undefined,
+    );
+
+    if (!validation.isValid || validation.metadata.isGpsNoise) {
+      return [];
+    }
+
+    const events: IDrivingEvent[] = [];
+    const base = { position, previous, tripId, interval };
+
+    const acceleration =
+      ((position.speed - previous.lastSpeed) * KMH_TO_MS) / interval;
+
+    if (acceleration >= thresholds.harshAccelerationThreshold) {
+      events.push(
+        this.createEvent(
+          'harsh_acceleration',
+          base,
+          acceleration,
+          thresholds.harshAccelerationThreshold,
+        ),
+      );
+    } else if (-acceleration >= thresholds.harshBrakingThreshold) {
+      events.push(
+        this.createEvent(
+          'harsh_braking',
+          base,
+          -acceleration,
+          thresholds.harshBrakingThreshold,
+        ),
+      );
+    }
+
+    const cornering = this.lateralAcceleration(
+      position,
+      previous,
+      interval,
+      thresholds,
+    );
+
+    if (
+      cornering &&
+      cornering.acceleration >= thresholds.sharpCorneringThreshold
+    ) {
+      events.push(
+        this.createEvent(
+          'sharp_cornering',
+          base,
+          cornering.acceleration,
+          thresholds.sharpCorneringThreshold,
+          cornering.headingChange,
+        ),
+      );
+    }
+
+    return events;
+  }
+
+  /**
+   * Aceleración lateral estimada (m/s²) y cambio de rumbo (grados)
+   * null si falta el heading o la velocidad es muy baja para que sea confiable
+   */
+  private lateralAcceleration(
+    position: IPositionEvent,
+    previous: IDeviceMotionState,
+    interval: number,
+    thresholds: IDetectionThresholds,
+  ): { acceleration: number; headingChange: number } | null {
+    if (position.heading === undefined || previous.lastHeading === undefined) {
+      return null;
+    }
+
+    if (
+      Math.min(position.speed, previous.lastSpeed) <
+      thresholds.corneringMinSpeed
+    ) {
+      return null;
+    }
+
+    // Diferencia angular más corta (0-180°): 350° → 10° es un giro de 20°
+    const headingChange = Math.abs(
+      ((position.heading - previous.lastHeading + 540) % 360) - 180,
+    );
+    const angularSpeed = (headingChange * DEG_TO_RAD) / interval; // rad/s
+    const speed = ((position.speed + previous.lastSpeed) / 2) * KMH_TO_MS; // m/s
+
+    return { acceleration: angularSpeed * speed, headingChange };
+  }
+
+  private createEvent(
+    type: DrivingEventType,
+    base: {
+      position: IPositionEvent;
+      previous: IDeviceMotionState;
+      tripId: string;
+      interval: number;
+    },
+    value: number,
+    threshold: number,
+    headingChange?: number,
+  ): IDrivingEvent {
+    const { position, previous, tripId, interval } = base;
+
+    return {
+      eventId: `${type}_${position.deviceId}_${position.timestamp}`,
+      tripId,
+      deviceId: position.deviceId,
+      type,
+      timestamp: new Date(position.timestamp).toISOString(),
+      location: {
+        type: 'Point',
+        coordinates: [position.longitude, position.latitude],
+      },
+      speed: position.speed,
+      previousSpeed: previous.lastSpeed,
+      headingChange:
+        headingChange !== undefined
+          ? Math.round(headingChange * 10) / 10
+          : undefined,
+      interval,
+      value: Math.round(value * 100) / 100,
+      threshold,
+      metadata: position.metadata,
+    };
+  }
+}
@@ -0,0 +1,179 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { EntityManager } from 'typeorm';
+import { RedisService } from '../../auxiliares/redis/redis.service';
+import { ClusterService } from '../../auxiliares/cluster/cluster.service';
+import { REDIS_CHANNELS } from '../../auxiliares/redis/redis.constants';
+import { DrivingEventRepository } from '../../database/repositories/driving-event.repository';
+import { TripRepository } from '../../database/repositories/trip.repository';
+import { DeviceEventQueueManager } from './device-event-queue.manager';
+import { IDrivingEvent } from '../../interfaces/driving-event.interface';
+
+/**
+ * Servicio encargado de escuchar eventos de manejo
+ * y persistirlos en PostgreSQL
+ *
+ * Eventos:
+ * - driving:event - Crear registro en driving_events y sumar el contador del trip
+ *
+ * Los eventos se publican recién con el trip confirmado, después de trip:started,
+ * y pasan por la misma cola del device: el trip ya existe al procesarlos.
+ */
+@Injectable()
+export class DrivingEventPersistenceService implements OnModuleInit {
+  private readonly logger = new Logger(DrivingEventPersistenceService.name);
+  private subscriber: any; // Redis client para suscripciones
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly drivingEventRepository: DrivingEventRepository,
+    private readonly tripRepository: TripRepository,
+    private readonly eventQueueManager: DeviceEventQueueManager,
+    private readonly clusterService: ClusterService,
+  ) {}
+
+  /**
+   * Al iniciar el módulo, suscribirse a eventos de manejo
+   */
+  async onModuleInit() {
+    await this.subscribeToDrivingEvents();
+  }
+
+  /**
+   * Suscribirse a eventos de manejo via Redis PubSub
+   */
+  private async subscribeToDrivingEvents(): Promise<void> {
+    try {
+      this.logger.log('Suscribiéndose a eventos de manejo...');
+
+      this.subscriber = this.redisService.createSubscriber();
+
+      const drivingEventChannel = this.redisService.getPrefixedChannel(
+        REDIS_CHANNELS.DRIVING_EVENT,
+      );
+
+      this.subscriber.on(
+        'message',
+        async (channel: string, message: string) => {
+          try {
+            const event = JSON.parse(message);
+            const deviceId = event.deviceId;
+
+            if (!deviceId) {
+              this.logger.warn(`Event without deviceId on channel ${channel}`);
+              return;
+            }
+
+            // Modo multi-instancia: persiste solo la instancia dueña del device
+            if (!(await this.clusterService.ownsDevice(deviceId))) {
+              return;
+            }
+
+            if (channel === drivingEventChannel) {
+              await this.eventQueueManager.enqueue(deviceId, async () => {
+                await this.handleDrivingEvent(message);
+              });
+            }
+          } catch (error) {
+            this.logger.error(
+              `Error enqueuing event from channel ${channel}`,
+              error.stack,
+            );
+          }
+        },
+      );
+
+      await this.subscriber.subscribe(drivingEventChannel);
+
+      this.logger.log(`Suscrito a eventos: ${drivingEventChannel}`);
+    } catch (error) {
+      this.logger.error(
+        'Error suscribiéndose a eventos de manejo',
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Maneja evento driving:event
+   * Crea el registro del evento y suma uno al contador del trip
+   */
+  async handleDrivingEvent(message: string): Promise<void> {
+    try {
+      const event: IDrivingEvent = JSON.parse(message);
+      await this.saveDrivingEvent(event);
+    } catch (error) {
+      this.logger.error(
+        `Error creando driving event en BD: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Crea el registro del evento y suma uno al contador del trip
+   * PÚBLICO: también lo usa ReplayService (manager: su transacción). Los errores se propagan.
+   */
+  async saveDrivingEvent(
+    event: IDrivingEvent,
+    manager?: EntityManager,
+  ): Promise<void> {
+    // Un reenvío del mismo evento no suma dos veces al contador
+    const existing = await this.drivingEventRepository.findById(
+      event.eventId,
+      manager,
+    );
+    if (existing) {
+      this.logger.warn(
+        `Driving event ${event.eventId} ya existe en BD, ignorando evento duplicado`,
+      );
+      return;
+    }
+
+    const [longitude, latitude] = event.location.coordinates;
+
+    await this.drivingEventRepository.create(
+      {
+        id: event.eventId,
+        trip_id: event.tripId,
+        id_activo: event.deviceId,
+        type: event.type,
+        timestamp: new Date(event.timestamp),
+        latitude,
+        longitude,
+        speed: event.speed,
+        previous_speed: event.previousSpeed,
+        value: event.value,
+        threshold: event.threshold,
+        heading_change: event.headingChange ?? null,
+        interval: event.interval,
+        metadata: event.metadata ?? null,
+      },
+      manager,
+    );
+
+    const counted = await this.tripRepository.incrementDrivingEventCount(
+      event.tripId,
+      event.type,
+      manager,
+    );
+    if (!counted) {
+      this.logger.warn(
+        `Trip ${event.tripId} no encontrado en BD al contar ${event.type}`,
+      );
+    }
+
+    this.logger.debug(
+      `Driving event ${event.eventId} creado en BD para trip ${event.tripId}`,
+    );
+  }
+
+  /**
+   * Cleanup al destruir el servicio
+   */
+  async onModuleDestroy() {
+    if (this.subscriber) {
+      await this.subscriber.quit();
+    }
+  }
+}
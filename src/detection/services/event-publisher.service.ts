@@ -8,21 +8,39 @@ import {
   IStopStartedEvent,
   IStopCompletedEvent,
   ITrackerStateChangedEvent,
+  IGeofenceEvent,
+  IPositionUpdatedEvent,
+  IDrivingEvent,
+  ISpeedingStartedEvent,
+  ISpeedingEndedEvent,
+  IFuelEvent,
+  IIdleStartedEvent,
+  IIdleCompletedEvent,
 } from '../../interfaces';
+import { WebhookDispatcherService } from '../../webhooks/webhook-dispatcher.service';
 
 /**
- * Servicio para publicar eventos de trips y stops
+ * Servicio para publicar eventos de trips, stops, geocercas, manejo, velocidad,
+ * combustible y ralentí
+ *
+ * Cada evento se publica en Redis y se encola para los webhooks suscriptos
+ * (sin esperar la entrega).
  */
 @Injectable()
 export class EventPublisherService {
   private readonly logger = new Logger(EventPublisherService.name);
 
-  constructor(private readonly redis: RedisService) {}
+  constructor(
+    private readonly redis: RedisService,
+    private readonly webhooks: WebhookDispatcherService,
+  ) {}
 
   /**
    * Publica evento de trip iniciado
    */
   async publishTripStarted(event: ITripStartedEvent): Promise<void> {
+    this.webhooks.dispatch(REDIS_CHANNELS.TRIP_STARTED, event);
+
     try {
       await this.redis.publish(
         REDIS_CHANNELS.TRIP_STARTED,
@@ -43,6 +61,8 @@ export class EventPublisherService {
    * Publica evento de trip completado
    */
   async publishTripCompleted(event: ITripCompletedEvent): Promise<void> {
+    this.webhooks.dispatch(REDIS_CHANNELS.TRIP_COMPLETED, event);
+
     try {
       await this.redis.publish(
         REDIS_CHANNELS.TRIP_COMPLETED,
@@ -63,6 +83,8 @@ export class EventPublisherService {
    * Publica evento de trip descartado (por no cumplir mínimos)
    */
   async publishTripDiscarded(event: ITripDiscardedEvent): Promise<void> {
+    this.webhooks.dispatch(REDIS_CHANNELS.TRIP_DISCARDED, event);
+
     try {
       await this.redis.publish(
         REDIS_CHANNELS.TRIP_DISCARDED,
@@ -84,6 +106,8 @@ export class EventPublisherService {
    * Publica evento de stop iniciado
    */
   async publishStopStarted(event: IStopStartedEvent): Promise<void> {
+    this.webhooks.dispatch(REDIS_CHANNELS.STOP_STARTED, event);
+
     try {
       await this.redis.publish(
         REDIS_CHANNELS.STOP_STARTED,
@@ -104,6 +128,8 @@ export class EventPublisherService {
    * Publica evento de stop completado
    */
   async publishStopCompleted(event: IStopCompletedEvent): Promise<void> {
+    this.webhooks.dispatch(REDIS_CHANNELS.STOP_COMPLETED, event);
+
     try {
       await this.redis.publish(
         REDIS_CHANNELS.STOP_COMPLETED,
@@ -120,12 +146,165 @@ export class EventPublisherService {
     }
   }
 
+  /**
+   * Publica evento de entrada a una geocerca
+   */
+  async publishGeofenceEntered(event: IGeofenceEvent): Promise<void> {
+    await this.publishGeofenceEvent(REDIS_CHANNELS.GEOFENCE_ENTERED, event);
+  }
+
+  /**
+   * Publica evento de salida de una geocerca
+   */
+  async publishGeofenceExited(event: IGeofenceEvent): Promise<void> {
+    await this.publishGeofenceEvent(REDIS_CHANNELS.GEOFENCE_EXITED, event);
+  }
+
+  /**
+   * Publica evento de manejo brusco (aceleración, frenada o giro cerrado)
+   */
+  async publishDrivingEvent(event: IDrivingEvent): Promise<void> {
+    this.webhooks.dispatch(REDIS_CHANNELS.DRIVING_EVENT, event);
+
+    try {
+      await this.redis.publish(
+        REDIS_CHANNELS.DRIVING_EVENT,
+        JSON.stringify(event),
+      );
+      this.logger.log(
+        `Published ${REDIS_CHANNELS.DRIVING_EVENT} for device ${event.deviceId}, trip ${event.tripId}: ` +
+          `${event.type} (${event.value} m/s²)`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error publishing ${REDIS_CHANNELS.DRIVING_EVENT}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Publica inicio de exceso de velocidad (episodio confirmado)
+   */
+  async publishSpeedingStarted(event: ISpeedingStartedEvent): Promise<void> {
+    this.webhooks.dispatch(REDIS_CHANNELS.SPEEDING_STARTED, event);
+
+    try {
+      await this.redis.publish(
+        REDIS_CHANNELS.SPEEDING_STARTED,
+        JSON.stringify(event),
+      );
+      this.logger.log(
+        `Published ${REDIS_CHANNELS.SPEEDING_STARTED} for device ${event.deviceId}, trip ${event.tripId}: ` +
+          `${event.speed} km/h (limit ${event.speedLimit} km/h)`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error publishing ${REDIS_CHANNELS.SPEEDING_STARTED}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Publica fin de exceso de velocidad
+   */
+  async publishSpeedingEnded(event: ISpeedingEndedEvent): Promise<void> {
+    this.webhooks.dispatch(REDIS_CHANNELS.SPEEDING_ENDED, event);
+
+    try {
+      await this.redis.publish(
+        REDIS_CHANNELS.SPEEDING_ENDED,
+        JSON.stringify(event),
+      );
+      this.logger.log(
+        `Published ${REDIS_CHANNELS.SPEEDING_ENDED} for device ${event.deviceId}, trip ${event.tripId}: ` +
+          `${event.duration}s, max ${event.maxSpeed} km/h (limit ${event.speedLimit} km/h)`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error publishing ${REDIS_CHANNELS.SPEEDING_ENDED}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Publica una carga o caída de combustible
+   */
+  async publishFuelEvent(event: IFuelEvent): Promise<void> {
+    this.webhooks.dispatch(REDIS_CHANNELS.FUEL_EVENT, event);
+
+    try {
+      await this.redis.publish(
+        REDIS_CHANNELS.FUEL_EVENT,
+        JSON.stringify(event),
+      );
+      this.logger.log(
+        `Published ${REDIS_CHANNELS.FUEL_EVENT} (${event.type}) for device ${event.deviceId}: ` +
+          `${event.amount} L (${event.levelBefore} → ${event.levelAfter})`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error publishing ${REDIS_CHANNELS.FUEL_EVENT}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Publica el inicio de un episodio de ralentí (ya superó minIdleDuration)
+   */
+  async publishIdleStarted(event: IIdleStartedEvent): Promise<void> {
+    this.webhooks.dispatch(REDIS_CHANNELS.IDLE_STARTED, event);
+
+    try {
+      await this.redis.publish(
+        REDIS_CHANNELS.IDLE_STARTED,
+        JSON.stringify(event),
+      );
+      this.logger.log(
+        `Published ${REDIS_CHANNELS.IDLE_STARTED} for device ${event.deviceId}, ${event.idleId}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error publishing ${REDIS_CHANNELS.IDLE_STARTED}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Publica el fin de un episodio de ralentí
+   */
+  async publishIdleCompleted(event: IIdleCompletedEvent): Promise<void> {
+    this.webhooks.dispatch(REDIS_CHANNELS.IDLE_COMPLETED, event);
+
+    try {
+      await this.redis.publish(
+        REDIS_CHANNELS.IDLE_COMPLETED,
+        JSON.stringify(event),
+      );
+      this.logger.log(
+        `Published ${REDIS_CHANNELS.IDLE_COMPLETED} for device ${event.deviceId}, ${event.idleId}: ` +
+          `${event.duration}s`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error publishing ${REDIS_CHANNELS.IDLE_COMPLETED}`,
+        error.stack,
+      );
+    }
+  }
+
   /**
    * Publica evento de cambio de estado del tracker
    */
   async publishTrackerStateChanged(
     event: ITrackerStateChangedEvent,
   ): Promise<void> {
+    this.webhooks.dispatch(REDIS_CHANNELS.TRACKER_STATE_CHANGED, event);
+
     try {
       await this.redis.publish(
         REDIS_CHANNELS.TRACKER_STATE_CHANGED,
@@ -142,4 +321,39 @@ export class EventPublisherService {
       );
     }
   }
+
+  /**
+   * Publica la posición procesada para el stream en vivo (no va a webhooks)
+   */
+  async publishPositionUpdated(event: IPositionUpdatedEvent): Promise<void> {
+    try {
+      await this.redis.publish(
+        REDIS_CHANNELS.POSITION_UPDATED,
+        JSON.stringify(event),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error publishing ${REDIS_CHANNELS.POSITION_UPDATED}`,
+        error.stack,
+      );
+    }
+  }
+
+  private async publishGeofenceEvent(
+    channel:
+      | typeof REDIS_CHANNELS.GEOFENCE_ENTERED
+      | typeof REDIS_CHANNELS.GEOFENCE_EXITED,
+    event: IGeofenceEvent,
+  ): Promise<void> {
+    this.webhooks.dispatch(channel, event);
+
+    try {
+      await this.redis.publish(channel, JSON.stringify(event));
+      this.logger.log(
+        `Published ${channel} for device ${event.deviceId}, geofence ${event.geofenceId} (${event.geofenceName})`,
+      );
+    } catch (error) {
+      this.logger.error(`Error publishing ${channel}`, error.stack);
+    }
+  }
 }
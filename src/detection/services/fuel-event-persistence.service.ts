@@ -0,0 +1,162 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { EntityManager } from 'typeorm';
+import { RedisService } from '../../auxiliares/redis/redis.service';
+import { ClusterService } from '../../auxiliares/cluster/cluster.service';
+import { REDIS_CHANNELS } from '../../auxiliares/redis/redis.constants';
+import { FuelEventRepository } from '../../database/repositories/fuel-event.repository';
+import { DeviceEventQueueManager } from './device-event-queue.manager';
+import { IFuelEvent } from '../../interfaces/fuel-event.interface';
+
+/**
+ * Servicio encargado de escuchar cargas y caídas de combustible
+ * y persistirlas en PostgreSQL
+ *
+ * Eventos:
+ * - fuel:event - Crear registro en fuel_events
+ */
+@Injectable()
+export class FuelEventPersistenceService implements OnModuleInit {
+  private readonly logger = new Logger(FuelEventPersistenceService.name);
+  private subscriber: any; // Redis client para suscripciones
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly fuelEventRepository: FuelEventRepository,
+    private readonly eventQueueManager: DeviceEventQueueManager,
+    private readonly clusterService: ClusterService,
+  ) {}
+
+  /**
+   * Al iniciar el módulo, suscribirse a eventos de combustible
+   */
+  async onModuleInit() {
+    await this.subscribeToFuelEvents();
+  }
+
+  /**
+   * Suscribirse a eventos de combustible via Redis PubSub
+   */
+  private async subscribeToFuelEvents(): Promise<void> {
+    try {
+      this.logger.log('Suscribiéndose a eventos de combustible...');
+
+      this.subscriber = this.redisService.createSubscriber();
+
+      const fuelEventChannel = this.redisService.getPrefixedChannel(
+        REDIS_CHANNELS.FUEL_EVENT,
+      );
+
+      this.subscriber.on(
+        'message',
+        async (channel: string, message: string) => {
+          try {
+            const event = JSON.parse(message);
+            const deviceId = event.deviceId;
+
+            if (!deviceId) {
+              this.logger.warn(`Event without deviceId on channel ${channel}`);
+              return;
+            }
+
+            // Modo multi-instancia: persiste solo la instancia dueña del device
+            if (!(await this.clusterService.ownsDevice(deviceId))) {
+              return;
+            }
+
+            if (channel === fuelEventChannel) {
+              await this.eventQueueManager.enqueue(deviceId, async () => {
+                await this.handleFuelEvent(message);
+              });
+            }
+          } catch (error) {
+            this.logger.error(
+              `Error enqueuing event from channel ${channel}`,
+              error.stack,
+            );
+          }
+        },
+      );
+
+      await this.subscriber.subscribe(fuelEventChannel);
+
+      this.logger.log(`Suscrito a eventos: ${fuelEventChannel}`);
+    } catch (error) {
+      this.logger.error(
+        'Error suscribiéndose a eventos de combustible',
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Maneja evento fuel:event
+   * Crea el registro de la carga/caída
+   */
+  async handleFuelEvent(message: string): Promise<void> {
+    try {
+      const event: IFuelEvent = JSON.parse(message);
+      await this.saveFuelEvent(event);
+    } catch (error) {
+      this.logger.error(
+        `Error creando evento de combustible en BD: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Crea el registro de la carga/caída
+   * PÚBLICO: también lo usa ReplayService (manager: su transacción). Los errores se propagan.
+   */
+  async saveFuelEvent(
+    event: IFuelEvent,
+    manager?: EntityManager,
+  ): Promise<void> {
+    const existing = await this.fuelEventRepository.findById(
+      event.eventId,
+      manager,
+    );
+    if (existing) {
+      this.logger.warn(
+        `Fuel event ${event.eventId} ya existe en BD, ignorando evento duplicado`,
+      );
+      return;
+    }
+
+    const [lon, lat] = event.location.coordinates;
+
+    await this.fuelEventRepository.create(
+      {
+        id: event.eventId,
+        id_activo: event.deviceId,
+        type: event.type,
+        start_time: new Date(event.startTime),
+        end_time: new Date(event.endTime),
+        duration: event.duration,
+        amount: event.amount,
+        level_before: event.levelBefore,
+        level_after: event.levelAfter,
+        latitude: lat,
+        longitude: lon,
+        trip_id: event.tripId ?? null,
+        stop_id: event.stopId ?? null,
+        metadata: event.metadata ?? null,
+      },
+      manager,
+    );
+
+    this.logger.debug(
+      `Fuel event ${event.eventId} (${event.type}, ${event.amount} L) creado en BD`,
+    );
+  }
+
+  /**
+   * Cleanup al destruir el servicio
+   */
+  async onModuleDestroy() {
+    if (this.subscriber) {
+      await this.subscriber.quit();
+    }
+  }
+}
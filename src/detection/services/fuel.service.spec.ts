@@ -0,0 +1,144 @@
+import { FuelService } from './fuel.service';
+import { FuelSensorRepository } from '../../database/repositories/fuel-sensor.repository';
+import { FuelSensor } from '../../database/entities';
+import { DEFAULT_THRESHOLDS, IFuelState } from '../models';
+import { IPositionEvent } from '../../interfaces';
+
+const T0 = Date.parse('2025-01-10T12:00:00Z');
+const TRIP = 'trip_DEV-1_1';
+
+const LEVEL = {
+  device_id: 'DEV-1',
+  type: 'level',
+  metadata_key: 'fuel',
+  unit: 'liters',
+  tank_capacity: null,
+} as FuelSensor;
+
+// Posición a los `seconds` segundos con la lectura del sensor
+const position = (
+  seconds: number,
+  fuel: number | undefined,
+  speed = 0,
+): IPositionEvent => ({
+  deviceId: 'DEV-1',
+  timestamp: T0 + seconds * 1000,
+  latitude: -34.6,
+  longitude: -58.4,
+  speed,
+  ignition: speed > 0,
+  metadata: fuel === undefined ? {} : { fuel },
+});
+
+describe('FuelService', () => {
+  const service = new FuelService({} as FuelSensorRepository);
+
+  // Pasa las lecturas en orden, una cada 60s, y devuelve el estado y los eventos
+  const run = (
+    sensor: FuelSensor,
+    readings: Array<[number | undefined, number?]>,
+    tripId?: string,
+    initial?: IFuelState,
+  ) => {
+    let state = initial;
+    const events = readings.flatMap(([fuel, speed], i) => {
+      const update = service.evaluate(
+        position(i * 60, fuel, speed),
+        sensor,
+        state,
+        tripId,
+        undefined,
+        DEFAULT_THRESHOLDS,
+      );
+      state = update.state;
+      return update.events;
+    });
+    return { state: state!, events };
+  };
+
+  it('reads liters from the metadata key and converts percent with the tank capacity', () => {
+    expect(service.readFuel(position(0, 120), LEVEL)).toBe(120);
+    expect(
+      service.readFuel(position(0, 40), {
+        ...LEVEL,
+        unit: 'percent',
+        tank_capacity: 300,
+      } as FuelSensor),
+    ).toBe(120);
+    expect(service.readFuel(position(0, undefined), LEVEL)).toBeUndefined();
+  });
+
+  it('detects a refuel while stopped once the smoothed level settles', () => {
+    // Un pico aislado (200) no mueve la mediana; la carga de 100 → 160 sí
+    const { state, events } = run(LEVEL, [
+      [100],
+      [100],
+      [200],
+      [100],
+      [100],
+      [130],
+      [160],
+      [160],
+      [160],
+      [160],
+      [160],
+    ]);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      eventId: `fuel_refuel_DEV-1_${T0}`,
+      type: 'refuel',
+      amount: 60,
+      levelBefore: 100,
+      levelAfter: 160,
+      location: { type: 'Point', coordinates: [-58.4, -34.6] },
+    });
+    // La carga no cuenta como consumo negativo
+    expect(state.consumed).toBe(0);
+  });
+
+  it('detects a drop while stopped and counts consumption while moving', () => {
+    const { state, events } = run(
+      LEVEL,
+      [
+        [200, 60],
+        [196, 60],
+        [192, 60],
+        [192, 60],
+        [192, 60],
+        // Detenido: cae 40 L
+        [192],
+        [192],
+        [152],
+        [152],
+        [152],
+        [152],
+      ],
+      TRIP,
+    );
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: 'drain',
+      amount: 40,
+      levelBefore: 192,
+      levelAfter: 152,
+      tripId: TRIP,
+    });
+    // 8 L consumidos andando; la caída no es consumo
+    expect(service.getSpentFuel(state, TRIP)).toBe(8);
+  });
+
+  it('accumulates a consumption counter and keeps the spent fuel of the previous trip', () => {
+    const counter = { ...LEVEL, type: 'counter' } as FuelSensor;
+
+    const first = run(counter, [[1000], [1004], [1009]], TRIP);
+    expect(service.getSpentFuel(first.state, TRIP)).toBe(9);
+
+    // Termina el trip y empieza otro en la misma posición
+    const next = run(counter, [[1012]], 'trip_DEV-1_2', first.state);
+    expect(service.getSpentFuel(next.state, TRIP)).toBe(12);
+    expect(service.getSpentFuel(next.state, 'trip_DEV-1_2')).toBe(0);
+    expect(next.events).toEqual([]);
+  });
+});
@@ -0,0 +1,303 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { FuelSensorRepository } from '../../database/repositories/fuel-sensor.repository';
+import { FuelSensor } from '../../database/entities';
+import { IDetectionThresholds, IFuelState } from '../models';
+import { IPositionEvent, IFuelEvent, FuelEventType } from '../../interfaces';
+import { FUEL_SENSORS_REFRESH_MS } from '../../env';
+import { PeriodicCache } from '../../auxiliares/cache/periodic-cache';
+
+/**
+ * Resultado de evaluar una posición: estado del sensor y cargas/caídas a publicar
+ */
+export interface IFuelUpdate {
+  state?: IFuelState;
+  events: IFuelEvent[];
+}
+
+/**
+ * Servicio de combustible
+ *
+ * - La lectura sale de la clave de metadata configurada para el device (fuel_sensors).
+ * - Sensor de nivel: se suaviza con la mediana de las últimas fuelSmoothingWindow
+ *   lecturas. Con el vehículo detenido, una subida o bajada mayor al umbral del perfil
+ *   que se produce en menos de fuelEventMaxDuration es una carga (refuel) o una caída
+ *   (drain, posible robo). El evento se publica cuando el nivel deja de cambiar o el
+ *   vehículo arranca.
+ * - Consumo: `consumed` acumula lo que baja el nivel (sumando las cargas y restando
+ *   las caídas) o lo que sube el contador CAN. El consumo de un trip es la diferencia
+ *   entre el fin y el inicio, como el odómetro.
+ */
+@Injectable()
+export class FuelService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(FuelService.name);
+  private readonly cache = new PeriodicCache(
+    'fuel sensors',
+    FUEL_SENSORS_REFRESH_MS,
+    () => this.load(),
+    this.logger,
+  );
+  private sensors = new Map<string, FuelSensor>();
+
+  constructor(private readonly fuelSensorRepository: FuelSensorRepository) {}
+
+  async onModuleInit() {
+    await this.cache.start();
+  }
+
+  onModuleDestroy() {
+    this.cache.stop();
+  }
+
+  /**
+   * Recarga los sensores desde la BD.
+   * Se llama periódicamente y después de cada cambio hecho vía API.
+   */
+  reload(): Promise<void> {
+    return this.cache.reload();
+  }
+
+  private async load(): Promise<void> {
+    const sensors = await this.fuelSensorRepository.findAll();
+    this.sensors = new Map(sensors.map((sensor) => [sensor.device_id, sensor]));
+
+    this.logger.debug(`Loaded ${sensors.length} fuel sensors`);
+  }
+
+  getSensor(deviceId: string): FuelSensor | undefined {
+    return this.sensors.get(deviceId);
+  }
+
+  /**
+   * Lectura del sensor en litros, o undefined si la posición no la trae
+   */
+  readFuel(position: IPositionEvent, sensor: FuelSensor): number | undefined {
+    const raw: unknown = position.metadata?.[sensor.metadata_key];
+    const value =
+      typeof raw === 'number'
+        ? raw
+        : typeof raw === 'string' && raw.trim() !== ''
+          ? Number(raw)
+          : NaN;
+
+    if (!Number.isFinite(value) || value < 0) {
+      return undefined;
+    }
+
+    if (sensor.unit === 'percent') {
+      return sensor.tank_capacity
+        ? (value / 100) * sensor.tank_capacity
+        : undefined;
+    }
+
+    return value;
+  }
+
+  /**
+   * Evalúa la posición contra el estado del sensor (guardado en device:state)
+   *
+   * @param tripId Trip en curso después de la máquina de estados
+   * @param stopId Stop en curso
+   */
+  evaluate(
+    position: IPositionEvent,
+    sensor: FuelSensor,
+    state: IFuelState | undefined,
+    tripId: string | undefined,
+    stopId: string | undefined,
+    thresholds: IDetectionThresholds,
+  ): IFuelUpdate {
+    const events: IFuelEvent[] = [];
+    const reading = this.readFuel(position, sensor);
+
+    let next: IFuelState | undefined = state
+      ? { ...state, samples: [...state.samples] }
+      : undefined;
+
+    if (reading !== undefined) {
+      next = next ?? { samples: [], consumed: 0 };
+
+      if (sensor.type === 'counter') {
+        // Contador creciente: si vuelve atrás (reset del equipo) se toma como nueva base
+        if (next.counter !== undefined && reading > next.counter) {
+          next.consumed += reading - next.counter;
+        }
+        next.counter = reading;
+      } else {
+        const event = this.updateLevel(
+          next,
+          reading,
+          position,
+          tripId,
+          stopId,
+          thresholds,
+        );
+        if (event) {
+          events.push(event);
+        }
+      }
+    }
+
+    if (next && next.tripId !== tripId) {
+      // Cambió el trip: guardar el consumo del que terminó para trip:completed
+      if (next.tripId && next.tripConsumedStart !== undefined) {
+        next.lastTrip = {
+          tripId: next.tripId,
+          spentFuel: this.round(next.consumed - next.tripConsumedStart),
+        };
+      }
+      next.tripId = tripId;
+      next.tripConsumedStart = tripId ? next.consumed : undefined;
+    }
+
+    return { state: next, events };
+  }
+
+  /**
+   * Combustible consumido en el trip (litros), o undefined si el sensor no lo cubrió
+   * desde el inicio
+   */
+  getSpentFuel(
+    state: IFuelState | undefined,
+    tripId: string,
+  ): number | undefined {
+    if (state?.tripId === tripId && state.tripConsumedStart !== undefined) {
+      return this.round(Math.max(0, state.consumed - state.tripConsumedStart));
+    }
+
+    if (state?.lastTrip?.tripId === tripId) {
+      return Math.max(0, state.lastTrip.spentFuel);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Suaviza la lectura de nivel, acumula el consumo y detecta cargas/caídas
+   */
+  private updateLevel(
+    state: IFuelState,
+    reading: number,
+    position: IPositionEvent,
+    tripId: string | undefined,
+    stopId: string | undefined,
+    thresholds: IDetectionThresholds,
+  ): IFuelEvent | undefined {
+    state.samples.push(reading);
+    state.samples = state.samples.slice(-thresholds.fuelSmoothingWindow);
+
+    const previous = state.level;
+    const level = this.median(state.samples);
+    state.level = level;
+
+    if (previous !== undefined) {
+      state.consumed += previous - level;
+    }
+
+    const stationary = position.speed < thresholds.minMovingSpeed;
+    const anchor = state.anchor;
+
+    if (!anchor) {
+      if (stationary) {
+        state.anchor = this.anchorAt(level, position);
+      }
+      return undefined;
+    }
+
+    const delta = level - anchor.level;
+    const type: FuelEventType = delta > 0 ? 'refuel' : 'drain';
+    const threshold =
+      type === 'refuel'
+        ? thresholds.fuelRefuelThreshold
+        : thresholds.fuelDrainThreshold;
+    const crossed = Math.abs(delta) >= threshold;
+
+    // Sigue subiendo/bajando, o la mediana todavía no alcanzó la última lectura:
+    // esperar a que el nivel se estabilice
+    const pending = type === 'refuel' ? reading - level : level - reading;
+    const stillChanging =
+      pending >= threshold ||
+      (previous !== undefined &&
+        (type === 'refuel' ? level > previous : level < previous));
+
+    let event: IFuelEvent | undefined;
+
+    if (crossed && (!stationary || !stillChanging)) {
+      event = this.buildEvent(type, anchor, level, position, tripId, stopId);
+
+      // La subida/bajada ya se contó como consumo negativo/positivo: se compensa
+      state.consumed += type === 'refuel' ? event.amount : -event.amount;
+    }
+
+    if (!stationary) {
+      state.anchor = undefined;
+    } else if (
+      event ||
+      (!crossed &&
+        (position.timestamp - anchor.timestamp) / 1000 >
+          thresholds.fuelEventMaxDuration)
+    ) {
+      // Nueva referencia: después del evento, o cambio demasiado lento para serlo
+      state.anchor = this.anchorAt(level, position);
+    }
+
+    return event;
+  }
+
+  private buildEvent(
+    type: FuelEventType,
+    anchor: NonNullable<IFuelState['anchor']>,
+    level: number,
+    position: IPositionEvent,
+    tripId: string | undefined,
+    stopId: string | undefined,
+  ): IFuelEvent {
+    return {
+      eventId: `fuel_${type}_${position.deviceId}_${anchor.timestamp}`,
+      deviceId: position.deviceId,
+      type,
+      startTime: new Date(anchor.timestamp).toISOString(),
+      endTime: new Date(position.timestamp).toISOString(),
+      duration: Math.round((position.timestamp - anchor.timestamp) / 1000),
+      location: {
+        type: 'Point',
+        coordinates: [anchor.lon, anchor.lat],
+      },
+      amount: this.round(Math.abs(level - anchor.level)),
+      levelBefore: this.round(anchor.level),
+      levelAfter: this.round(level),
+      tripId,
+      stopId,
+      metadata: position.metadata,
+    };
+  }
+
+  private anchorAt(
+    level: number,
+    position: IPositionEvent,
+  ): NonNullable<IFuelState['anchor']> {
+    return {
+      level,
+      timestamp: position.timestamp,
+      lat: position.latitude,
+      lon: position.longitude,
+    };
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+
+    return sorted.length % 2 === 0
+      ? (sorted[middle - 1] + sorted[middle]) / 2
+      : sorted[middle];
+  }
+
+  private round(liters: number): number {
+    return Math.round(liters * 10) / 10;
+  }
+}
@@ -0,0 +1,142 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { GeofenceService } from './geofence.service';
+import { GeofenceRepository } from '../../database/repositories/geofence.repository';
+import { IPositionEvent } from '../../interfaces';
+
+const position = (
+  latitude: number,
+  longitude: number,
+  metadata?: Record<string, any>,
+): IPositionEvent => ({
+  deviceId: 'DEV-1',
+  timestamp: Date.parse('2025-01-01T10:00:00Z'),
+  latitude,
+  longitude,
+  speed: 20,
+  metadata,
+});
+
+/**
+ * Evaluación de geocercas: pertenencia (polygon/circle), la más chica primero,
+ * geocercas por tenant y detección de entradas/salidas.
+ */
+describe('GeofenceService', () => {
+  let service: GeofenceService;
+
+  beforeEach(async () => {
+    const repository = {
+      findAllActive: jest.fn().mockResolvedValue([
+        {
+          // Barrio: ~1.1km x 1.1km
+          id: 'g-barrio',
+          name: 'Barrio',
+          type: 'polygon',
+          coordinates: [
+            [-58.41, -34.6],
+            [-58.4, -34.6],
+            [-58.4, -34.61],
+            [-58.41, -34.61],
+          ],
+          category: 'zone',
+          tenant_id: null,
+        },
+        {
+          // Cliente dentro del barrio: radio 100m
+          id: 'g-cliente',
+          name: 'Cliente',
+          type: 'circle',
+          center_lat: -34.605,
+          center_lon: -58.405,
+          radius: 100,
+          category: 'customer',
+          tenant_id: null,
+        },
+        {
+          id: 'g-acme',
+          name: 'Depósito ACME',
+          type: 'circle',
+          center_lat: -34.605,
+          center_lon: -58.405,
+          radius: 300,
+          category: 'depot',
+          tenant_id: 'acme',
+        },
+      ]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GeofenceService,
+        { provide: GeofenceRepository, useValue: repository },
+      ],
+    }).compile();
+
+    // Sin init(): no se arranca la recarga periódica
+    service = module.get(GeofenceService);
+    await service.reload();
+  });
+
+  it('devuelve las geocercas que contienen el punto, la más chica primero', () => {
+    const ids = service
+      .findContaining(-34.605, -58.405)
+      .map((geofence) => geofence.id);
+
+    expect(ids).toEqual(['g-cliente', 'g-barrio']);
+    expect(service.findBestMatch(-34.605, -58.405)?.id).toBe('g-cliente');
+  });
+
+  it('circle: fuera del radio no matchea', () => {
+    // ~200m al este del centro del cliente, dentro del barrio
+    const ids = service
+      .findContaining(-34.605, -58.4028)
+      .map((geofence) => geofence.id);
+
+    expect(ids).toEqual(['g-barrio']);
+  });
+
+  it('polygon: fuera del polígono no matchea', () => {
+    expect(service.findContaining(-34.62, -58.405)).toEqual([]);
+    expect(service.findBestMatch(-34.62, -58.405)).toBeNull();
+  });
+
+  it('las geocercas con tenant solo aplican a ese tenant', () => {
+    const ids = service
+      .findContaining(-34.605, -58.405, { tenant_id: 'acme' })
+      .map((geofence) => geofence.id);
+
+    expect(ids).toEqual(['g-cliente', 'g-acme', 'g-barrio']);
+  });
+
+  it('sin estado previo no emite entradas', () => {
+    const result = service.evaluate(position(-34.605, -58.405), undefined);
+
+    expect(result.current).toEqual(['g-cliente', 'g-barrio']);
+    expect(result.entered).toEqual([]);
+    expect(result.exited).toEqual([]);
+  });
+
+  it('detecta entradas y salidas respecto de la posición anterior', () => {
+    const entering = service.evaluate(position(-34.605, -58.405), ['g-barrio']);
+    expect(entering.entered.map((geofence) => geofence.id)).toEqual([
+      'g-cliente',
+    ]);
+    expect(entering.exited).toEqual([]);
+
+    const leaving = service.evaluate(position(-34.62, -58.405), [
+      'g-cliente',
+      'g-barrio',
+    ]);
+    expect(leaving.current).toEqual([]);
+    expect(leaving.entered).toEqual([]);
+    expect(leaving.exited.map((geofence) => geofence.id).sort()).toEqual([
+      'g-barrio',
+      'g-cliente',
+    ]);
+  });
+
+  it('no emite salida de una geocerca que ya no existe', () => {
+    const result = service.evaluate(position(-34.62, -58.405), ['g-borrada']);
+
+    expect(result.exited).toEqual([]);
+  });
+});
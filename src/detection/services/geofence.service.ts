@@ -0,0 +1,304 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { GeofenceRepository } from '../../database/repositories/geofence.repository';
+import { Geofence } from '../../database/entities';
+import { IPositionEvent } from '../../interfaces';
+import { GEOFENCES_REFRESH_MS } from '../../env';
+import { PeriodicCache } from '../../auxiliares/cache/periodic-cache';
+
+/**
+ * Geocerca preparada para evaluar posiciones (bounding box y área precalculados)
+ */
+interface ICachedGeofence {
+  geofence: Geofence;
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+  area: number; // m², para elegir la geocerca más específica
+}
+
+/**
+ * Resultado de evaluar una posición contra las geocercas
+ */
+export interface IGeofenceTransitions {
+  current: string[]; // IDs de las geocercas que contienen la posición
+  entered: Geofence[];
+  exited: Geofence[];
+}
+
+/**
+ * Servicio de geocercas
+ *
+ * - Mantiene las geocercas activas en memoria (se recargan cada GEOFENCES_REFRESH_MS)
+ *   para no consultar la BD por cada posición.
+ * - Detecta entradas/salidas comparando con las geocercas de la posición anterior
+ *   (guardadas en device:state).
+ * - Resuelve la geocerca de un punto para etiquetar stops y trips (la de menor área
+ *   si hay varias superpuestas).
+ * - Resuelve el límite de velocidad de zona (también la de menor área con límite).
+ *
+ * Una geocerca con tenant_id solo aplica a posiciones con ese metadata.tenant_id.
+ */
+@Injectable()
+export class GeofenceService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(GeofenceService.name);
+  private readonly cache = new PeriodicCache(
+    'geofences',
+    GEOFENCES_REFRESH_MS,
+    () => this.load(),
+    this.logger,
+  );
+  private geofences: ICachedGeofence[] = [];
+
+  constructor(private readonly geofenceRepository: GeofenceRepository) {}
+
+  async onModuleInit() {
+    await this.cache.start();
+  }
+
+  onModuleDestroy() {
+    this.cache.stop();
+  }
+
+  /**
+   * Recarga las geocercas activas desde la BD.
+   * Se llama periódicamente y después de cada cambio hecho vía API.
+   */
+  reload(): Promise<void> {
+    return this.cache.reload();
+  }
+
+  private async load(): Promise<void> {
+    const geofences = await this.geofenceRepository.findAllActive();
+
+    const next: ICachedGeofence[] = [];
+    for (const geofence of geofences) {
+      const cached = this.prepare(geofence);
+      if (cached) {
+        next.push(cached);
+      } else {
+        this.logger.warn(
+          `Geofence ${geofence.id} (${geofence.name}) has invalid geometry, ignoring`,
+        );
+      }
+    }
+
+    // Más chicas primero: findContaining devuelve la más específica al principio
+    next.sort((a, b) => a.area - b.area);
+    this.geofences = next;
+
+    this.logger.debug(`Loaded ${next.length} geofences`);
+  }
+
+  /**
+   * Geocercas que contienen el punto, de menor a mayor área
+   *
+   * @param metadata Metadata de la posición (tenant_id)
+   */
+  findContaining(
+    lat: number,
+    lon: number,
+    metadata?: Record<string, any>,
+  ): Geofence[] {
+    const tenantId = metadata?.tenant_id;
+
+    return this.geofences
+      .filter(
+        (cached) =>
+          (!cached.geofence.tenant_id ||
+            cached.geofence.tenant_id === tenantId) &&
+          lat >= cached.minLat &&
+          lat <= cached.maxLat &&
+          lon >= cached.minLon &&
+          lon <= cached.maxLon &&
+          this.contains(cached.geofence, lat, lon),
+      )
+      .map((cached) => cached.geofence);
+  }
+
+  /**
+   * Geocerca más específica (menor área) que contiene el punto, o null
+   */
+  findBestMatch(
+    lat: number,
+    lon: number,
+    metadata?: Record<string, any>,
+  ): Geofence | null {
+    return this.findContaining(lat, lon, metadata)[0] ?? null;
+  }
+
+  /**
+   * Compara las geocercas de la posición con las de la posición anterior
+   *
+   * @param previousIds Geocercas de la posición anterior (device:state).
+   *   undefined si no hay estado previo: se inicializa sin emitir entradas.
+   */
+  evaluate(
+    position: IPositionEvent,
+    previousIds: string[] | undefined,
+  ): IGeofenceTransitions {
+    const containing = this.findContaining(
+      position.latitude,
+      position.longitude,
+      position.metadata,
+    );
+    const current = containing.map((geofence) => geofence.id);
+
+    if (!previousIds) {
+      return { current, entered: [], exited: [] };
+    }
+
+    const previous = new Set(previousIds);
+    const currentSet = new Set(current);
+
+    // Una geocerca eliminada o desactivada ya no está en cache: no se emite su salida
+    const exited = this.geofences
+      .map((cached) => cached.geofence)
+      .filter(
+        (geofence) => previous.has(geofence.id) && !currentSet.has(geofence.id),
+      );
+
+    return {
+      current,
+      entered: containing.filter((geofence) => !previous.has(geofence.id)),
+      exited,
+    };
+  }
+
+  /**
+   * Geocerca más específica (menor área) con límite de velocidad entre las indicadas
+   *
+   * @param geofenceIds Geocercas que contienen la posición (IGeofenceTransitions.current)
+   */
+  findSpeedLimit(geofenceIds: string[]): Geofence | null {
+    if (geofenceIds.length === 0) return null;
+
+    const ids = new Set(geofenceIds);
+    const match = this.geofences.find(
+      (cached) =>
+        ids.has(cached.geofence.id) && cached.geofence.speed_limit != null,
+    );
+
+    return match?.geofence ?? null;
+  }
+
+  private prepare(geofence: Geofence): ICachedGeofence | null {
+    if (geofence.type === 'circle') {
+      const { center_lat: lat, center_lon: lon, radius } = geofence;
+      if (lat == null || lon == null || !radius || radius <= 0) return null;
+
+      // Bounding box aproximado del círculo (1° de latitud ≈ 111.32 km)
+      const dLat = radius / 111320;
+      const dLon = radius / (111320 * Math.max(Math.cos(toRad(lat)), 1e-6));
+
+      return {
+        geofence,
+        minLat: lat - dLat,
+        maxLat: lat + dLat,
+        minLon: lon - dLon,
+        maxLon: lon + dLon,
+        area: Math.PI * radius * radius,
+      };
+    }
+
+    const ring = geofence.coordinates;
+    if (!Array.isArray(ring) || ring.length < 3) return null;
+
+    const lons = ring.map(([lon]) => lon);
+    const lats = ring.map(([, lat]) => lat);
+
+    return {
+      geofence,
+      minLat: Math.min(...lats),
+      maxLat: Math.max(...lats),
+      minLon: Math.min(...lons),
+      maxLon: Math.max(...lons),
+      area: this.polygonArea(ring),
+    };
+  }
+
+  private contains(geofence: Geofence, lat: number, lon: number): boolean {
+    if (geofence.type === 'circle') {
+      return (
+        this.haversineDistance(
+          geofence.center_lat as number,
+          geofence.center_lon as number,
+          lat,
+          lon,
+        ) <= (geofence.radius as number)
+      );
+    }
+
+    // Ray casting sobre [lon, lat]
+    const ring = geofence.coordinates as Array<[number, number]>;
+    let inside = false;
+
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [lonI, latI] = ring[i];
+      const [lonJ, latJ] = ring[j];
+
+      if (
+        latI > lat !== latJ > lat &&
+        lon < ((lonJ - lonI) * (lat - latI)) / (latJ - latI) + lonI
+      ) {
+        inside = !inside;
+      }
+    }
+
+    return inside;
+  }
+
+  /**
+   * Área aproximada del polígono en m² (proyección equirectangular local).
+   * Solo se usa para ordenar geocercas superpuestas.
+   */
+  private polygonArea(ring: Array<[number, number]>): number {
+    const lat0 = toRad(
+      ring.reduce((sum, [, lat]) => sum + lat, 0) / ring.length,
+    );
+    const project = ([lon, lat]: [number, number]) => [
+      toRad(lon) * EARTH_RADIUS_M * Math.cos(lat0),
+      toRad(lat) * EARTH_RADIUS_M,
+    ];
+
+    let area = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = project(ring[i]);
+      const [xj, yj] = project(ring[j]);
+      area += xj * yi - xi * yj;
+    }
+
+    return Math.abs(area / 2);
+  }
+
+  /**
+   * Distancia en metros entre dos puntos (fórmula de Haversine)
+   */
+  private haversineDistance(
+    lat1: number,
+    lon1: number,
+    lat2: number,
+    lon2: number,
+  ): number {
+    const dLat = toRad(lat2 - lat1);
+    const dLon = toRad(lon2 - lon1);
+
+    const a =
+      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+      Math.cos(toRad(lat1)) *
+        Math.cos(toRad(lat2)) *
+        Math.sin(dLon / 2) *
+        Math.sin(dLon / 2);
+
+    return EARTH_RADIUS_M * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  }
+}
+
+const EARTH_RADIUS_M = 6371000;
+
+const toRad = (degrees: number): number => (degrees * Math.PI) / 180;
@@ -0,0 +1,176 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { EntityManager } from 'typeorm';
+import { RedisService } from '../../auxiliares/redis/redis.service';
+import { GeocodeClientService } from '../../auxiliares/geocode/geocode-client.service';
+import { ClusterService } from '../../auxiliares/cluster/cluster.service';
+import { REDIS_CHANNELS } from '../../auxiliares/redis/redis.constants';
+import { IdleEventRepository } from '../../database/repositories/idle-event.repository';
+import { DeviceEventQueueManager } from './device-event-queue.manager';
+import { GeofenceService } from './geofence.service';
+import { IIdleCompletedEvent } from '../../interfaces/idle-events.interface';
+
+/**
+ * Servicio encargado de escuchar episodios de ralentí
+ * y persistirlos en PostgreSQL
+ *
+ * Eventos:
+ * - idle:completed - Crear registro en idle_events con el episodio completo
+ *
+ * idle:started no se persiste: es un aviso en vivo y el episodio recién tiene
+ * fin y duración con idle:completed.
+ */
+@Injectable()
+export class IdlePersistenceService implements OnModuleInit {
+  private readonly logger = new Logger(IdlePersistenceService.name);
+  private subscriber: any; // Redis client para suscripciones
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly idleEventRepository: IdleEventRepository,
+    private readonly eventQueueManager: DeviceEventQueueManager,
+    private readonly geocode: GeocodeClientService,
+    private readonly geofences: GeofenceService,
+    private readonly clusterService: ClusterService,
+  ) {}
+
+  /**
+   * Al iniciar el módulo, suscribirse a episodios de ralentí
+   */
+  async onModuleInit() {
+    await this.subscribeToIdleEvents();
+  }
+
+  /**
+   * Suscribirse a episodios de ralentí via Redis PubSub
+   */
+  private async subscribeToIdleEvents(): Promise<void> {
+    try {
+      this.logger.log('Suscribiéndose a episodios de ralentí...');
+
+      this.subscriber = this.redisService.createSubscriber();
+
+      const idleCompletedChannel = this.redisService.getPrefixedChannel(
+        REDIS_CHANNELS.IDLE_COMPLETED,
+      );
+
+      this.subscriber.on(
+        'message',
+        async (channel: string, message: string) => {
+          try {
+            const event = JSON.parse(message);
+            const deviceId = event.deviceId;
+
+            if (!deviceId) {
+              this.logger.warn(`Event without deviceId on channel ${channel}`);
+              return;
+            }
+
+            // Modo multi-instancia: persiste solo la instancia dueña del device
+            if (!(await this.clusterService.ownsDevice(deviceId))) {
+              return;
+            }
+
+            if (channel === idleCompletedChannel) {
+              await this.eventQueueManager.enqueue(deviceId, async () => {
+                await this.handleIdleCompleted(message);
+              });
+            }
+          } catch (error) {
+            this.logger.error(
+              `Error enqueuing event from channel ${channel}`,
+              error.stack,
+            );
+          }
+        },
+      );
+
+      await this.subscriber.subscribe(idleCompletedChannel);
+
+      this.logger.log(`Suscrito a eventos: ${idleCompletedChannel}`);
+    } catch (error) {
+      this.logger.error(
+        'Error suscribiéndose a episodios de ralentí',
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Maneja evento idle:completed
+   * Crea el registro del episodio con la dirección y la geocerca del lugar
+   */
+  async handleIdleCompleted(message: string): Promise<void> {
+    try {
+      const event: IIdleCompletedEvent = JSON.parse(message);
+      await this.saveIdleCompleted(event);
+    } catch (error) {
+      this.logger.error(
+        `Error creando ralentí en BD: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Crea el registro del episodio con la dirección y la geocerca del lugar
+   * PÚBLICO: también lo usa ReplayService (manager: su transacción). Los errores se propagan.
+   */
+  async saveIdleCompleted(
+    event: IIdleCompletedEvent,
+    manager?: EntityManager,
+  ): Promise<void> {
+    const existing = await this.idleEventRepository.findById(
+      event.idleId,
+      manager,
+    );
+    if (existing) {
+      this.logger.warn(
+        `Idle ${event.idleId} ya existe en BD, ignorando evento duplicado`,
+      );
+      return;
+    }
+
+    const [longitude, latitude] = event.location.coordinates;
+
+    // Geocodificar una sola vez (al crear el registro), best-effort
+    const address = await this.geocode.reverse(latitude, longitude);
+
+    const geofence = this.geofences.findBestMatch(
+      latitude,
+      longitude,
+      event.metadata,
+    );
+
+    await this.idleEventRepository.create(
+      {
+        id: event.idleId,
+        id_activo: event.deviceId,
+        trip_id: event.tripId ?? null,
+        stop_id: event.stopId ?? null,
+        start_time: new Date(event.startTime),
+        end_time: new Date(event.endTime),
+        duration: event.duration,
+        latitude,
+        longitude,
+        address,
+        geofence_id: geofence?.id ?? null,
+        metadata: event.metadata ?? null,
+      },
+      manager,
+    );
+
+    this.logger.debug(
+      `Idle ${event.idleId} creado en BD para device ${event.deviceId} (${event.duration}s)`,
+    );
+  }
+
+  /**
+   * Cleanup al destruir el servicio
+   */
+  async onModuleDestroy() {
+    if (this.subscriber) {
+      await this.subscriber.quit();
+    }
+  }
+}
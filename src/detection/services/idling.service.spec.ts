@@ -0,0 +1,99 @@
+import { IdlingService } from './idling.service';
+import { DEFAULT_THRESHOLDS, IIdleEpisode, MotionState } from '../models';
+import { IPositionEvent } from '../../interfaces';
+
+const T0 = Date.parse('2025-01-10T12:00:00Z');
+const TRIP = 'trip_DEV-1_1';
+
+// Posición detenida a los `seconds` segundos
+const position = (seconds: number): IPositionEvent => ({
+  deviceId: 'DEV-1',
+  timestamp: T0 + seconds * 1000,
+  latitude: -34.6,
+  longitude: -58.4,
+  speed: 0,
+  ignition: true,
+  metadata: { fleet_id: 'trucks' },
+});
+
+describe('IdlingService', () => {
+  const service = new IdlingService();
+
+  // Pasa los estados en orden, uno cada 60s, y devuelve el episodio y los eventos
+  const run = (states: MotionState[], tripId?: string) => {
+    let episode: IIdleEpisode | undefined;
+    const updates = states.map((state, i) => {
+      const update = service.evaluate(
+        position(i * 60),
+        episode,
+        state,
+        tripId,
+        undefined,
+        DEFAULT_THRESHOLDS,
+      );
+      episode = update.episode;
+      return update;
+    });
+    return { episode, updates };
+  };
+
+  it('confirms an episode after minIdleDuration and completes it when leaving IDLE', () => {
+    const { episode, updates } = run(
+      [...Array<MotionState>(6).fill(MotionState.IDLE), MotionState.MOVING],
+      TRIP,
+    );
+
+    // 0s..240s: todavía por debajo de minIdleDuration (300s)
+    expect(updates.slice(0, 5).every((u) => !u.started)).toBe(true);
+    expect(updates[5].started).toMatchObject({
+      idleId: `idle_DEV-1_${T0}`,
+      tripId: TRIP,
+      startTime: new Date(T0).toISOString(),
+      location: { type: 'Point', coordinates: [-58.4, -34.6] },
+      metadata: { fleet_id: 'trucks' },
+    });
+
+    // 360s: arranca → idle:completed en esta posición
+    expect(episode).toBeUndefined();
+    expect(updates[6].completed).toMatchObject({
+      idleId: `idle_DEV-1_${T0}`,
+      endTime: new Date(T0 + 360000).toISOString(),
+      duration: 360,
+    });
+  });
+
+  it('drops episodes shorter than minIdleDuration', () => {
+    const { episode, updates } = run([
+      MotionState.IDLE,
+      MotionState.IDLE,
+      MotionState.MOVING,
+    ]);
+
+    expect(episode).toBeUndefined();
+    expect(updates.every((u) => !u.started && !u.completed)).toBe(true);
+  });
+
+  it('closes at the last idle position after a reporting gap', () => {
+    const { episode } = run(Array<MotionState>(6).fill(MotionState.IDLE));
+
+    // Dos horas sin reportes: el episodio termina en su última posición (300s)
+    const update = service.evaluate(
+      position(7500),
+      episode,
+      MotionState.IDLE,
+      undefined,
+      undefined,
+      DEFAULT_THRESHOLDS,
+    );
+
+    expect(update.completed).toMatchObject({
+      idleId: `idle_DEV-1_${T0}`,
+      duration: 300,
+    });
+    // Empieza un episodio nuevo en la posición actual
+    expect(update.episode).toMatchObject({
+      idleId: `idle_DEV-1_${T0 + 7500000}`,
+      confirmed: false,
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { Injectable } from '@nestjs/common';
+import { IDetectionThresholds, IIdleEpisode, MotionState } from '../models';
+import {
+  IPositionEvent,
+  IIdleStartedEvent,
+  IIdleCompletedEvent,
+} from '../../interfaces';
+
+/**
+ * Resultado de evaluar una posición: episodio en curso y eventos a publicar
+ * (primero completed y después started: tras un corte de reporte termina un episodio
+ * y puede empezar otro en la misma posición)
+ */
+export interface IIdleUpdate {
+  episode?: IIdleEpisode;
+  started?: IIdleStartedEvent;
+  completed?: IIdleCompletedEvent;
+}
+
+/**
+ * Servicio que detecta episodios de ralentí (motor encendido sin movimiento)
+ *
+ * - Un episodio empieza en la primera posición en IDLE y termina en la primera que
+ *   sale de IDLE (arranca o se apaga el motor). Si se corta el reporte
+ *   (maxGapDuration), termina en su última posición en IDLE.
+ * - idle:started se publica recién cuando el episodio supera minIdleDuration; los
+ *   episodios más cortos (semáforos, maniobras) se descartan sin eventos.
+ * - Dentro o fuera de un trip: el episodio guarda el trip confirmado en el que ocurre.
+ */
+@Injectable()
+export class IdlingService {
+  /**
+   * Evalúa la posición contra el episodio en curso (guardado en device:state)
+   *
+   * @param state Estado de la máquina de estados después de la posición
+   * @param tripId Trip confirmado en curso
+   * @param stopId Stop en curso
+   */
+  evaluate(
+    position: IPositionEvent,
+    episode: IIdleEpisode | undefined,
+    state: MotionState,
+    tripId: string | undefined,
+    stopId: string | undefined,
+    thresholds: IDetectionThresholds,
+  ): IIdleUpdate {
+    const update: IIdleUpdate = {};
+    let current = episode;
+
+    if (current) {
+      const gap = (position.timestamp - current.lastTimestamp) / 1000;
+
+      if (gap > thresholds.maxGapDuration) {
+        // Sin datos del tramo: termina en la última posición en IDLE
+        update.completed = this.buildCompleted(
+          current,
+          position.deviceId,
+          current.lastTimestamp,
+        );
+        current = undefined;
+      } else if (state === MotionState.IDLE) {
+        current = {
+          ...current,
+          lastTimestamp: position.timestamp,
+          // Un trip que se confirma durante el ralentí lo adopta
+          tripId: current.tripId ?? tripId,
+        };
+      } else {
+        update.completed = this.buildCompleted(
+          current,
+          position.deviceId,
+          position.timestamp,
+        );
+        current = undefined;
+      }
+    }
+
+    if (!current && state === MotionState.IDLE) {
+      current = {
+        idleId: `idle_${position.deviceId}_${position.timestamp}`,
+        tripId,
+        stopId,
+        startTime: position.timestamp,
+        lat: position.latitude,
+        lon: position.longitude,
+        lastTimestamp: position.timestamp,
+        confirmed: false,
+        metadata: position.metadata,
+      };
+    }
+
+    if (
+      current &&
+      !current.confirmed &&
+      (current.lastTimestamp - current.startTime) / 1000 >=
+        thresholds.minIdleDuration
+    ) {
+      current.confirmed = true;
+      update.started = {
+        idleId: current.idleId,
+        deviceId: position.deviceId,
+        tripId: current.tripId,
+        stopId: current.stopId,
+        startTime: new Date(current.startTime).toISOString(),
+        location: {
+          type: 'Point',
+          coordinates: [current.lon, current.lat],
+        },
+        metadata: current.metadata,
+      };
+    }
+
+    update.episode = current;
+    return update;
+  }
+
+  /**
+   * idle:completed del episodio, o undefined si nunca se confirmó
+   */
+  private buildCompleted(
+    episode: IIdleEpisode,
+    deviceId: string,
+    endTime: number,
+  ): IIdleCompletedEvent | undefined {
+    if (!episode.confirmed) {
+      return undefined;
+    }
+
+    return {
+      idleId: episode.idleId,
+      deviceId,
+      tripId: episode.tripId,
+      stopId: episode.stopId,
+      startTime: new Date(episode.startTime).toISOString(),
+      endTime: new Date(endTime).toISOString(),
+      duration: Math.round((endTime - episode.startTime) / 1000),
+      location: {
+        type: 'Point',
+        coordinates: [episode.lon, episode.lat],
+      },
+      metadata: episode.metadata,
+    };
+  }
+}
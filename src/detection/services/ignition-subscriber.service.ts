@@ -6,9 +6,38 @@ import {
 } from '@nestjs/common';
 import Redis from 'ioredis';
 import { RedisService } from '../../auxiliares/redis/redis.service';
-import { REDIS_CHANNELS } from '../../auxiliares/redis/redis.constants';
+import {
+  REDIS_CHANNELS,
+  REDIS_STREAMS,
+} from '../../auxiliares/redis/redis.constants';
+import {
+  RedisStreamConsumer,
+  IStreamEntry,
+} from '../../auxiliares/redis/redis-stream.consumer';
+import {
+  StreamKeyOrder,
+  readEntryField,
+} from '../../auxiliares/redis/stream-key-order';
+import { ClusterService } from '../../auxiliares/cluster/cluster.service';
 import { TrackerStateService } from './tracker-state.service';
 import { IIgnitionEvent, validateIgnitionEvent } from '../../interfaces';
+import {
+  INGESTION_MODE,
+  STREAMS_GROUP,
+  STREAMS_BATCH_SIZE,
+  STREAMS_BLOCK_MS,
+  STREAMS_CLAIM_IDLE_MS,
+  STREAMS_MAX_DELIVERIES,
+  STREAMS_MAX_LEN,
+} from '../../env';
+
+/**
+ * Resultado de preparar un mensaje: el evento a procesar, o por qué se descarta
+ * (inválido o de un device que esta instancia no procesa)
+ */
+type PreparedIgnitionEvent =
+  | { event: IIgnitionEvent }
+  | { discarded: 'invalid' | 'not_owner'; deviceId?: string };
 
 /**
  * Servicio de suscripción a eventos de ignición
@@ -16,6 +45,9 @@ import { IIgnitionEvent, validateIgnitionEvent } from '../../interfaces';
  * Escucha el canal Redis PubSub 'ignition:changed' y actualiza el estado de ignición
  * de los trackers en TrackerState. Esto permite que trackers que reportan ignición
  * como eventos separados (ej: GPS103) mantengan un estado persistente.
+ *
+ * Con INGESTION_MODE=streams consume el stream 'stream:ignition:changed' (ver
+ * PositionSubscriberService).
  */
 @Injectable()
 export class IgnitionSubscriberService
@@ -23,6 +55,8 @@ export class IgnitionSubscriberService
 {
   private readonly logger = new Logger(IgnitionSubscriberService.name);
   private subscriber: Redis;
+  private streamConsumer?: RedisStreamConsumer;
+  private readonly streamOrder = new StreamKeyOrder();
   private isSubscribed = false;
   private receivedCount = 0;
   private invalidCount = 0;
@@ -30,11 +64,17 @@ export class IgnitionSubscriberService
   constructor(
     private readonly redisService: RedisService,
     private readonly trackerStateService: TrackerStateService,
+    private readonly clusterService: ClusterService,
   ) {}
 
   async onModuleInit() {
     this.logger.log('Initializing ignition subscriber...');
-    await this.subscribe();
+
+    if (INGESTION_MODE === 'streams') {
+      await this.startStreamConsumer();
+    } else {
+      await this.subscribe();
+    }
 
     // Log de métricas cada minuto
     setInterval(() => {
@@ -49,9 +89,90 @@ export class IgnitionSubscriberService
   }
 
   async onModuleDestroy() {
+    if (this.streamConsumer) {
+      await this.streamConsumer.stop();
+      this.isSubscribed = false;
+      return;
+    }
+
     await this.unsubscribe();
   }
 
+  /**
+   * Consume el stream de ignición (INGESTION_MODE=streams)
+   */
+  private async startStreamConsumer(): Promise<void> {
+    this.streamConsumer = new RedisStreamConsumer(this.redisService, {
+      stream: REDIS_STREAMS.IGNITION_CHANGED,
+      group: this.clusterService.streamGroup(STREAMS_GROUP),
+      consumer: this.clusterService.instanceId,
+      batchSize: STREAMS_BATCH_SIZE,
+      blockMs: STREAMS_BLOCK_MS,
+      claimIdleMs: STREAMS_CLAIM_IDLE_MS,
+      maxDeliveries: STREAMS_MAX_DELIVERIES,
+      maxLen: STREAMS_MAX_LEN,
+      handler: (entries) => this.handleStreamEntries(entries),
+      onDropped: (ids) => this.streamOrder.forget(ids),
+    });
+
+    try {
+      await this.streamConsumer.start();
+      this.isSubscribed = true;
+    } catch (error) {
+      this.logger.error('Error starting ignition stream consumer', error.stack);
+
+      // Reintentar después de 5 segundos
+      setTimeout(() => {
+        this.logger.log('Retrying ignition stream consumer...');
+        this.startStreamConsumer();
+      }, 5000);
+    }
+  }
+
+  /**
+   * Procesa un lote del stream y devuelve los IDs a confirmar
+   *
+   * Los eventos de cada device se procesan en orden (StreamKeyOrder). Los inválidos o
+   * de un device asignado a otra instancia se confirman; los que no se pudieron
+   * guardar, o los de un device en traspaso (ver ClusterService.awaitsOwner), quedan
+   * pendientes y retienen a los posteriores del mismo device.
+   */
+  private handleStreamEntries(entries: IStreamEntry[]): Promise<string[]> {
+    return this.streamOrder.process(
+      entries,
+      (entry) => readEntryField(entry, 'deviceId'),
+      (entry) => this.handleStreamEntry(entry),
+    );
+  }
+
+  /**
+   * @returns true si la entrada se puede confirmar
+   */
+  private async handleStreamEntry(entry: IStreamEntry): Promise<boolean> {
+    this.receivedCount++;
+
+    try {
+      const prepared: PreparedIgnitionEvent = entry.data
+        ? await this.prepareEvent(entry.data)
+        : { discarded: 'invalid' };
+
+      if ('discarded' in prepared) {
+        return (
+          prepared.discarded === 'invalid' ||
+          !(await this.clusterService.awaitsOwner(prepared.deviceId))
+        );
+      }
+
+      return await this.processIgnitionEvent(prepared.event);
+    } catch (error) {
+      this.logger.error(
+        `Error handling ignition stream entry ${entry.id}`,
+        error.stack,
+      );
+      return false;
+    }
+  }
+
   /**
    * Suscribe al canal ignition:changed
    */
@@ -138,33 +259,60 @@ export class IgnitionSubscriberService
     this.receivedCount++;
 
     try {
-      const event: IIgnitionEvent = JSON.parse(message);
-
-      // Validar evento
-      if (!validateIgnitionEvent(event)) {
-        this.invalidCount++;
-        this.logger.warn(`Invalid ignition event received: ${message}`);
-        return;
-      }
+      const prepared = await this.prepareEvent(message);
 
       // Procesar evento
-      await this.processIgnitionEvent(event);
+      if ('event' in prepared) {
+        await this.processIgnitionEvent(prepared.event);
+      }
     } catch (error) {
       this.invalidCount++;
       this.logger.error('Error handling ignition message', error.stack);
     }
   }
 
+  /**
+   * Parsea y valida un mensaje de ignición
+   *
+   * @returns El evento, o el motivo del descarte
+   */
+  private async prepareEvent(message: string): Promise<PreparedIgnitionEvent> {
+    let event: IIgnitionEvent;
+    try {
+      event = JSON.parse(message);
+    } catch {
+      this.invalidCount++;
+      this.logger.warn(`Invalid ignition message (not JSON): ${message}`);
+      return { discarded: 'invalid' };
+    }
+
+    // Validar evento
+    if (!validateIgnitionEvent(event)) {
+      this.invalidCount++;
+      this.logger.warn(`Invalid ignition event received: ${message}`);
+      return { discarded: 'invalid' };
+    }
+
+    // Modo multi-instancia: solo la instancia dueña del device actualiza su estado
+    if (!(await this.clusterService.ownsDevice(event.deviceId))) {
+      return { discarded: 'not_owner', deviceId: event.deviceId };
+    }
+
+    return { event };
+  }
+
   /**
    * Procesa un evento de ignición validado
+   *
+   * @returns false si no se pudo guardar el estado
    */
-  private async processIgnitionEvent(event: IIgnitionEvent): Promise<void> {
+  private async processIgnitionEvent(event: IIgnitionEvent): Promise<boolean> {
     this.logger.debug(
       `Ignition ${event.ignition ? 'ON' : 'OFF'} for device ${event.deviceId}`,
     );
 
     // Actualizar estado del tracker
-    await this.trackerStateService.updateIgnition(
+    return this.trackerStateService.updateIgnition(
       event.deviceId,
       event.ignition,
       event.timestamp,
@@ -1,4 +1,14 @@
 export * from './state-machine.service';
+export * from './driving-behavior.service';
+export * from './speeding.service';
+export * from './idling.service';
+export * from './threshold-profile.service';
+export * from './geofence.service';
+export * from './driver.service';
+export * from './fuel.service';
+export * from './odometer-source.service';
+export * from './place.service';
+export * from './place-clustering.service';
 export * from './device-state.service';
 export * from './event-publisher.service';
 export * from './position-processor.service';
@@ -6,7 +16,12 @@ export * from './position-subscriber.service';
 export * from './ignition-subscriber.service';
 export * from './tracker-state.service';
 export * from './trip-persistence.service';
+export * from './trip-route-buffer.service';
 export * from './stop-persistence.service';
+export * from './driving-event-persistence.service';
+export * from './speeding-persistence.service';
+export * from './fuel-event-persistence.service';
+export * from './idle-persistence.service';
 export * from './device-queue.manager';
 export * from './device-event-queue.manager';
 export * from './distance-validator.service';
@@ -0,0 +1,121 @@
+import { OdometerSourceService } from './odometer-source.service';
+import { OdometerSourceRepository } from '../../database/repositories/odometer-source.repository';
+import { OdometerSource } from '../../database/entities';
+import { IPositionEvent } from '../../interfaces';
+import { ITrackerState } from '../../models';
+
+const T0 = Date.parse('2025-01-10T12:00:00Z');
+
+const SOURCES = [
+  { device_id: 'CAN-1', source: 'device', metadata_key: null, unit: 'meters' },
+  {
+    device_id: 'CAN-KM',
+    source: 'device',
+    metadata_key: 'io87',
+    unit: 'km',
+    rollover: 1000,
+  },
+  { device_id: 'HYB-1', source: 'hybrid', metadata_key: null, unit: 'meters' },
+] as OdometerSource[];
+
+describe('OdometerSourceService', () => {
+  let service: OdometerSourceService;
+
+  beforeEach(async () => {
+    service = new OdometerSourceService({
+      findAll: jest.fn().mockResolvedValue(SOURCES),
+    } as unknown as OdometerSourceRepository);
+    await service.reload();
+  });
+
+  // Pasa [distancia GPS, lectura del equipo] en orden, una posición cada 60s, y
+  // devuelve lo que sumó cada una al odómetro
+  const run = (
+    deviceId: string,
+    steps: Array<[number, number?]>,
+    totalOdometer = 0,
+  ) => {
+    const state = {
+      totalOdometer,
+      driftDeviceDistance: 0,
+      driftGpsDistance: 0,
+    } as ITrackerState;
+    const key = deviceId === 'CAN-KM' ? 'io87' : 'odometer';
+
+    const added = steps.map(([gps, reading], i) => {
+      const position: IPositionEvent = {
+        deviceId,
+        timestamp: T0 + i * 60 * 1000,
+        latitude: -34.6,
+        longitude: -58.4,
+        speed: 50,
+        metadata: reading === undefined ? {} : { [key]: reading },
+      };
+      const distance = service.accumulate(state, position, gps);
+      state.totalOdometer += distance;
+      return distance;
+    });
+
+    return { added, state };
+  };
+
+  it('uses the device odometer, replacing the GPS distance added during gaps', () => {
+    const { added, state } = run(
+      'CAN-1',
+      [
+        [0, 1000], // base: el odómetro pasa a ser la lectura
+        [900, 2000],
+        [800, undefined], // sin lectura: GPS
+        [700, 3600], // el contador avanzó 1600 m desde la última lectura
+      ],
+      400, // acumulado por GPS antes de la primera lectura
+    );
+
+    expect(added).toEqual([600, 1000, 800, 800]);
+    expect(state.totalOdometer).toBe(3600);
+    expect(state.deviceOdometer).toBe(3600);
+    expect(state.driftDeviceDistance).toBe(2600);
+    expect(state.driftGpsDistance).toBe(2400);
+  });
+
+  it('handles counter rollovers and resets with the counter offset', () => {
+    const { added, state } = run('CAN-KM', [
+      [0, 999.5], // base (km)
+      [700, 0.3], // vuelta del contador a 1000 km: 800 m
+      [500, 250], // salto imposible en 60s: reset, nueva base y GPS
+      [900, 250.9],
+    ]);
+
+    expect(added.map(Math.round)).toEqual([999_500, 800, 500, 900]);
+    // El odómetro sigue siendo lectura + offset, sin saltos
+    expect(state.totalOdometer).toBeCloseTo(
+      (state.deviceOdometer ?? 0) + (state.deviceOdometerOffset ?? 0),
+    );
+    expect(Math.round(state.totalOdometer)).toBe(1_001_700);
+    // El tramo del reset no cuenta para la deriva
+    expect(Math.round(state.driftDeviceDistance)).toBe(1700);
+    expect(state.driftGpsDistance).toBe(1600);
+  });
+
+  it('falls back to GPS in hybrid mode when the counter disagrees', () => {
+    const { added } = run('HYB-1', [
+      [0, 5000],
+      [900, 5000], // contador trabado
+      [1000, 6050],
+    ]);
+
+    expect(added).toEqual([0, 900, 1050]);
+  });
+
+  it('keeps the GPS distance in gps mode but tracks the drift', () => {
+    const { added, state } = run('GPS-1', [
+      [0, 10000],
+      [950, 11000],
+    ]);
+
+    expect(added).toEqual([0, 950]);
+    expect(service.getSource('GPS-1')).toBe('gps');
+    expect(state.driftGpsDistance).toBe(950);
+    expect(state.driftDeviceDistance).toBe(1000);
+  });
+});
@@ -0,0 +1,248 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { OdometerSourceRepository } from '../../database/repositories/odometer-source.repository';
+import { OdometerSource, OdometerSourceType } from '../../database/entities';
+import { IPositionEvent } from '../../interfaces';
+import { ITrackerState } from '../../models';
+import {
+  DEVICE_ODOMETER_METADATA_KEYS,
+  ODOMETER_SOURCES_REFRESH_MS,
+  ODOMETER_HYBRID_TOLERANCE,
+} from '../../env';
+import { PeriodicCache } from '../../auxiliares/cache/periodic-cache';
+
+// Retrocesos del contador menores a esto son redondeos del equipo, no un reset (metros)
+const COUNTER_JITTER = 100;
+
+// Modo hybrid: por debajo de esta diferencia (metros) siempre se acepta el equipo
+const HYBRID_MIN_TOLERANCE = 100;
+
+// Velocidad máxima para validar el avance del contador (igual que el odómetro GPS)
+const MAX_SPEED_MS = 200 / 3.6;
+
+/**
+ * Servicio del odómetro reportado por el equipo (CAN / hardware)
+ *
+ * - La lectura sale de la clave de metadata configurada para el device
+ *   (odometer_sources) o de DEVICE_ODOMETER_METADATA_KEYS, en metros o km.
+ * - Cada lectura se compara con la anterior: un retroceso cerca del valor de rollover
+ *   es una vuelta del contador; otro retroceso o un avance imposible (más de 200 km/h)
+ *   es un reset del equipo y la lectura pasa a ser la nueva base.
+ * - El offset del contador (deviceOdometerOffset) suma las vueltas y los resets, así
+ *   lectura + offset es el odómetro del equipo sin saltos.
+ * - Según la fuente del device, el odómetro suma la distancia GPS (gps), es el
+ *   odómetro del equipo (device) o suma el avance del contador mientras coincida con
+ *   la GPS (hybrid). Las posiciones sin lectura suman la distancia GPS; cuando vuelve
+ *   la lectura, el contador reemplaza lo sumado en el hueco.
+ * - En todas las fuentes acumula la distancia de ambos en los tramos medidos por los
+ *   dos, para informar la deriva del GPS en el estado del tracker.
+ */
+@Injectable()
+export class OdometerSourceService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(OdometerSourceService.name);
+  private readonly cache = new PeriodicCache(
+    'odometer sources',
+    ODOMETER_SOURCES_REFRESH_MS,
+    () => this.load(),
+    this.logger,
+  );
+  private sources = new Map<string, OdometerSource>();
+
+  constructor(
+    private readonly odometerSourceRepository: OdometerSourceRepository,
+  ) {}
+
+  async onModuleInit() {
+    await this.cache.start();
+  }
+
+  onModuleDestroy() {
+    this.cache.stop();
+  }
+
+  /**
+   * Recarga las fuentes desde la BD.
+   * Se llama periódicamente y después de cada cambio hecho vía API.
+   */
+  reload(): Promise<void> {
+    return this.cache.reload();
+  }
+
+  private async load(): Promise<void> {
+    const sources = await this.odometerSourceRepository.findAll();
+    this.sources = new Map(sources.map((source) => [source.device_id, source]));
+
+    this.logger.debug(`Loaded ${sources.length} odometer sources`);
+  }
+
+  getSource(deviceId: string): OdometerSourceType {
+    return this.sources.get(deviceId)?.source ?? 'gps';
+  }
+
+  /**
+   * Lectura del odómetro del equipo en metros, o undefined si la posición no la trae
+   */
+  readOdometer(
+    position: IPositionEvent,
+    config?: OdometerSource,
+  ): number | undefined {
+    const keys = config?.metadata_key
+      ? [config.metadata_key]
+      : DEVICE_ODOMETER_METADATA_KEYS;
+
+    for (const key of keys) {
+      const raw: unknown = position.metadata?.[key];
+      const value =
+        typeof raw === 'number'
+          ? raw
+          : typeof raw === 'string' && raw.trim() !== ''
+            ? Number(raw)
+            : NaN;
+
+      if (Number.isFinite(value) && value >= 0) {
+        return config?.unit === 'km' ? value * 1000 : value;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Evalúa la posición contra la última lectura del equipo (guardada en el estado del
+   * tracker) y devuelve la distancia a sumar al odómetro
+   *
+   * @param gpsDelta Distancia GPS desde la posición anterior (metros)
+   */
+  accumulate(
+    state: ITrackerState,
+    position: IPositionEvent,
+    gpsDelta: number,
+  ): number {
+    const config = this.sources.get(position.deviceId);
+    const reading = this.readOdometer(position, config);
+    const last = state.deviceOdometer;
+
+    const source = config?.source ?? 'gps';
+
+    if (last === undefined || last === null || !state.deviceOdometerAt) {
+      // Primera lectura del equipo: es la base
+      if (reading === undefined) {
+        return gpsDelta;
+      }
+      this.setBase(state, reading, position.timestamp);
+      return source === 'device'
+        ? this.deviceOdometer(state) - state.totalOdometer
+        : gpsDelta;
+    }
+
+    const gpsSinceReading = (state.gpsSinceDeviceReading || 0) + gpsDelta;
+
+    if (reading === undefined) {
+      // Hueco sin lectura: distancia GPS
+      state.gpsSinceDeviceReading = gpsSinceReading;
+      return gpsDelta;
+    }
+
+    const elapsed =
+      (position.timestamp - new Date(state.deviceOdometerAt).getTime()) / 1000;
+    const { delta, base } = this.counterDelta(last, reading, elapsed, config);
+
+    // El offset absorbe la diferencia entre el avance y la nueva base (vuelta del
+    // contador, redondeo o reset, donde el tramo se cuenta con la distancia GPS)
+    state.deviceOdometerOffset =
+      (state.deviceOdometerOffset || 0) +
+      last +
+      (delta ?? gpsSinceReading) -
+      base;
+    this.setBase(state, base, position.timestamp);
+
+    if (delta === undefined) {
+      this.logger.warn(
+        `Device odometer reset for ${position.deviceId}: ${last}m → ${reading}m ` +
+          `in ${elapsed}s (new base)`,
+      );
+    } else {
+      // Deriva: tramos medidos por ambas fuentes
+      state.driftDeviceDistance = (state.driftDeviceDistance || 0) + delta;
+      state.driftGpsDistance = (state.driftGpsDistance || 0) + gpsSinceReading;
+    }
+
+    if (source === 'device') {
+      // El odómetro es el del equipo (reemplaza lo sumado por GPS en el hueco)
+      return this.deviceOdometer(state) - state.totalOdometer;
+    }
+
+    if (source === 'gps' || delta === undefined) {
+      return gpsDelta;
+    }
+
+    const agrees =
+      Math.abs(delta - gpsSinceReading) <=
+      Math.max(
+        HYBRID_MIN_TOLERANCE,
+        ODOMETER_HYBRID_TOLERANCE * gpsSinceReading,
+      );
+    const distance = agrees ? delta : gpsSinceReading;
+
+    // Lo ya sumado por GPS en las posiciones sin lectura del tramo
+    return Math.max(0, distance - (gpsSinceReading - gpsDelta));
+  }
+
+  /**
+   * Avance del contador entre dos lecturas (metros), o undefined si fue un reset
+   */
+  private counterDelta(
+    last: number,
+    reading: number,
+    elapsed: number,
+    config?: OdometerSource,
+  ): { delta?: number; base: number } {
+    const rollover = config?.rollover
+      ? config.rollover * (config.unit === 'km' ? 1000 : 1)
+      : undefined;
+
+    let delta: number | undefined;
+    let base = reading;
+
+    if (reading >= last) {
+      delta = reading - last;
+    } else if (
+      rollover &&
+      last >= rollover * 0.9 &&
+      reading <= rollover * 0.1
+    ) {
+      // Vuelta del contador
+      delta = rollover - last + reading;
+    } else if (last - reading <= COUNTER_JITTER) {
+      // Redondeo: se mantiene la base más alta para no contar dos veces
+      delta = 0;
+      base = last;
+    }
+
+    if (
+      delta !== undefined &&
+      delta > MAX_SPEED_MS * Math.max(0, elapsed) + COUNTER_JITTER
+    ) {
+      delta = undefined;
+    }
+
+    return { delta, base };
+  }
+
+  /**
+   * Odómetro del equipo: última lectura (base) más el offset del contador
+   */
+  private deviceOdometer(state: ITrackerState): number {
+    return (state.deviceOdometer || 0) + (state.deviceOdometerOffset || 0);
+  }
+
+  private setBase(state: ITrackerState, reading: number, timestamp: number) {
+    state.deviceOdometer = reading;
+    state.deviceOdometerAt = new Date(timestamp);
+    state.gpsSinceDeviceReading = 0;
+  }
+}
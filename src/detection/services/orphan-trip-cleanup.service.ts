@@ -4,6 +4,7 @@ import {
   OnModuleInit,
   OnModuleDestroy,
 } from '@nestjs/common';
+import { ClusterService } from '../../auxiliares/cluster/cluster.service';
 import { TripRepository } from '../../database/repositories/trip.repository';
 import { StopRepository } from '../../database/repositories/stop.repository';
 import { DeviceStateService } from './device-state.service';
@@ -48,6 +49,7 @@ export class OrphanTripCleanupService implements OnModuleInit, OnModuleDestroy {
     private readonly deviceStateService: DeviceStateService,
     private readonly trackerStateService: TrackerStateService,
     private readonly tripQualityAnalyzer: TripQualityAnalyzerService,
+    private readonly clusterService: ClusterService,
   ) {}
 
   async onModuleInit() {
@@ -152,6 +154,12 @@ export class OrphanTripCleanupService implements OnModuleInit, OnModuleDestroy {
    * Ejecuta el proceso de limpieza completo
    */
   async runCleanup(): Promise<void> {
+    // Modo multi-instancia: la limpieza la hace solo la instancia líder
+    if (!this.clusterService.isLeader()) {
+      this.logger.debug('Skipping orphan cleanup: not the cluster leader');
+      return;
+    }
+
     const startTime = Date.now();
     this.logger.log('Starting orphan cleanup...');
 
@@ -0,0 +1,113 @@
+import { PlaceClusteringService } from './place-clustering.service';
+import { DistanceValidatorService } from './distance-validator.service';
+import { Stop } from '../../database/entities';
+
+const HOME = { lat: -31.4135, lon: -64.181 };
+const DEPOT = { lat: -31.3901, lon: -64.2255 };
+const DAY = 24 * 3600 * 1000;
+
+let seq = 0;
+
+// Parada cerrada en `at` (desplazada `offset` metros al norte) de `hours` horas
+const stop = (
+  at: { lat: number; lon: number },
+  start: string,
+  hours: number,
+  offset = 0,
+): Stop =>
+  ({
+    id: `stop-${++seq}`,
+    latitude: at.lat + offset / 111320,
+    longitude: at.lon,
+    address: 'Av. Colón 4500',
+    start_time: new Date(start),
+    end_time: new Date(Date.parse(start) + hours * 3600 * 1000),
+  }) as Stop;
+
+describe('PlaceClusteringService', () => {
+  const service = new PlaceClusteringService(
+    null as any,
+    null as any,
+    null as any,
+    new DistanceValidatorService(),
+    null as any,
+  );
+
+  it('runs the clustering once at startup, before the first interval', () => {
+    const startup = new PlaceClusteringService(
+      null as any,
+      null as any,
+      null as any,
+      new DistanceValidatorService(),
+      null as any,
+    );
+    const run = jest
+      .spyOn(startup, 'runClustering')
+      .mockResolvedValue(undefined);
+
+    startup.onModuleInit();
+    startup.onModuleDestroy();
+
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('clusters recurring stops into places and labels home base and depot', () => {
+    const stops: Stop[] = [];
+    for (let day = 0; day < 4; day++) {
+      const date = new Date(Date.parse('2025-01-06T00:00:00Z') + day * DAY)
+        .toISOString()
+        .slice(0, 10);
+      // Noche en la base (19:00 → 07:00 del día siguiente), a pocos metros cada vez
+      stops.push(stop(HOME, `${date}T19:00:00Z`, 12, day * 20));
+      // Dos pasadas por el depósito durante el día
+      stops.push(stop(DEPOT, `${date}T09:00:00Z`, 1, day * 10));
+      stops.push(stop(DEPOT, `${date}T14:00:00Z`, 0.5, day * 10));
+    }
+
+    const places = service.buildPlaces(stops);
+
+    expect(places).toHaveLength(2);
+
+    const [depot, home] = places;
+    expect(depot).toMatchObject({
+      label: 'depot',
+      visit_count: 8,
+      overnight_count: 0,
+      total_dwell_time: 4 * 1.5 * 3600,
+      typical_arrival_hour: 9,
+    });
+    expect(depot.stopIds).toHaveLength(8);
+
+    expect(home).toMatchObject({
+      label: 'home_base',
+      visit_count: 4,
+      overnight_count: 4,
+      radius: 150,
+      address: 'Av. Colón 4500',
+      typical_arrival_hour: 19,
+      typical_departure_hour: 7,
+      first_visit_at: new Date('2025-01-06T19:00:00Z'),
+      last_visit_at: new Date('2025-01-09T19:00:00Z'),
+    });
+    expect(home.latitude).toBeCloseTo(HOME.lat + 30 / 111320, 6);
+  });
+
+  it('leaves isolated stops out of any place', () => {
+    const stops = [
+      stop(DEPOT, '2025-01-06T09:00:00Z', 1),
+      stop(DEPOT, '2025-01-07T09:00:00Z', 1, 50),
+      // A 400 m: fuera del radio de las demás
+      stop(DEPOT, '2025-01-08T09:00:00Z', 1, 400),
+    ];
+
+    expect(service.buildPlaces(stops)).toEqual([]);
+
+    const places = service.buildPlaces([
+      ...stops,
+      stop(DEPOT, '2025-01-09T09:00:00Z', 1, 100),
+    ]);
+    expect(places).toHaveLength(1);
+    expect(places[0].visit_count).toBe(3);
+    expect(places[0].stopIds).not.toContain(stops[2].id);
+  });
+});
@@ -0,0 +1,418 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ClusterService } from '../../auxiliares/cluster/cluster.service';
+import { StopRepository } from '../../database/repositories/stop.repository';
+import {
+  PlaceRepository,
+  ISavePlaceData,
+} from '../../database/repositories/place.repository';
+import { Stop } from '../../database/entities';
+import { DistanceValidatorService } from './distance-validator.service';
+import { PlaceService } from './place.service';
+import {
+  PLACES_ENABLED,
+  PLACES_RADIUS,
+  PLACES_MIN_VISITS,
+  PLACES_LOOKBACK_DAYS,
+  PLACES_CLUSTER_INTERVAL_MS,
+  PLACES_TIMEZONE,
+} from '../../env';
+
+// Una parada que cruza la medianoche local y dura al menos esto es un pernocte
+const OVERNIGHT_MIN_DURATION_S = 4 * 3600;
+
+// Metros por grado de latitud (para acotar la búsqueda de vecinos)
+const METERS_PER_DEGREE = 111320;
+
+/**
+ * Lugar calculado a partir de un grupo de paradas, con las paradas que lo forman
+ */
+export interface IPlaceDraft extends Omit<ISavePlaceData, 'id' | 'device_id'> {
+  stopIds: string[];
+}
+
+/**
+ * Proceso periódico que agrupa las paradas de cada device en lugares frecuentes
+ *
+ * - DBSCAN sobre las paradas cerradas de los últimos PLACES_LOOKBACK_DAYS días: una
+ *   parada con al menos PLACES_MIN_VISITS paradas (contándose) a menos de
+ *   PLACES_RADIUS metros forma o extiende un lugar; las paradas aisladas no son lugar.
+ * - Cada lugar guarda visitas, tiempo total detenido, pernoctes, horas típicas de
+ *   llegada/salida (PLACES_TIMEZONE) y una etiqueta automática (ver assignLabels).
+ * - Los lugares conservan su id entre corridas si el centro nuevo cae dentro del
+ *   lugar anterior, así stops.place_id sigue siendo válido.
+ *
+ * Solo corre en el líder del cluster (o en la única instancia).
+ */
+@Injectable()
+export class PlaceClusteringService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PlaceClusteringService.name);
+  private clusterInterval: NodeJS.Timeout | null = null;
+  private readonly localTime = new Intl.DateTimeFormat('en-CA', {
+    timeZone: PLACES_TIMEZONE,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+  });
+
+  constructor(
+    private readonly stopRepository: StopRepository,
+    private readonly placeRepository: PlaceRepository,
+    private readonly places: PlaceService,
+    private readonly distanceValidator: DistanceValidatorService,
+    private readonly clusterService: ClusterService,
+  ) {}
+
+  onModuleInit() {
+    if (!PLACES_ENABLED) {
+      this.logger.warn(
+        'Lugares frecuentes DESACTIVADOS (PLACES_ENABLED=false). No se agruparán las paradas.',
+      );
+      return;
+    }
+
+    // Clustering inicial (solo la líder, ver runClustering). No se espera: con
+    // muchos devices tarda y no debe demorar el arranque.
+    this.runClustering().catch((error) => {
+      this.logger.error('Error in initial place clustering', error.stack);
+    });
+
+    this.clusterInterval = setInterval(() => {
+      this.runClustering().catch((error) => {
+        this.logger.error('Error in scheduled place clustering', error.stack);
+      });
+    }, PLACES_CLUSTER_INTERVAL_MS);
+
+    this.logger.log(
+      `Place clustering started (interval: ${PLACES_CLUSTER_INTERVAL_MS / 1000 / 60} minutes, ` +
+        `radius: ${PLACES_RADIUS}m, min visits: ${PLACES_MIN_VISITS})`,
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.clusterInterval) {
+      clearInterval(this.clusterInterval);
+      this.clusterInterval = null;
+    }
+  }
+
+  /**
+   * Recalcula los lugares de todos los devices con paradas en el período
+   */
+  async runClustering(): Promise<void> {
+    if (!this.clusterService.isLeader()) {
+      this.logger.debug('Skipping place clustering: not the cluster leader');
+      return;
+    }
+
+    const startTime = Date.now();
+    const since = new Date(startTime - PLACES_LOOKBACK_DAYS * 24 * 3600 * 1000);
+    const deviceIds =
+      await this.stopRepository.findAssetsWithClosedStopsSince(since);
+
+    let placeCount = 0;
+    for (const deviceId of deviceIds) {
+      try {
+        placeCount += await this.clusterDevice(deviceId, since);
+      } catch (error) {
+        this.logger.error(
+          `Error clustering places for device ${deviceId}`,
+          error.stack,
+        );
+      }
+    }
+
+    await this.places.reload();
+
+    this.logger.log(
+      `Place clustering completed: ${placeCount} places for ${deviceIds.length} devices ` +
+        `in ${Date.now() - startTime}ms`,
+    );
+  }
+
+  /**
+   * Recalcula los lugares de un device y reetiqueta sus paradas del período
+   *
+   * @returns Cantidad de lugares del device
+   */
+  async clusterDevice(deviceId: string, since: Date): Promise<number> {
+    const stops = await this.stopRepository.findClosedByAssetSince(
+      deviceId,
+      since,
+    );
+    const drafts = this.buildPlaces(stops);
+    const existing = await this.placeRepository.findByDevice(deviceId);
+
+    // Reusar el id del lugar anterior que contiene el centro nuevo (el más cercano)
+    const unused = new Map(existing.map((place) => [place.id, place]));
+    const data: ISavePlaceData[] = [];
+    const members: string[][] = [];
+
+    for (const { stopIds, ...draft } of drafts) {
+      let id: string | undefined;
+      let bestDistance = Infinity;
+
+      for (const place of unused.values()) {
+        const distance = this.distanceValidator.haversineDistance(
+          draft.latitude,
+          draft.longitude,
+          place.latitude,
+          place.longitude,
+        );
+        if (distance <= place.radius && distance < bestDistance) {
+          id = place.id;
+          bestDistance = distance;
+        }
+      }
+      if (id) {
+        unused.delete(id);
+      }
+
+      data.push({ ...draft, id, device_id: deviceId });
+      members.push(stopIds);
+    }
+
+    const saved = await this.placeRepository.save(data);
+    const removedIds = [...unused.keys()];
+    await this.placeRepository.deleteByIds(removedIds);
+
+    await this.stopRepository.clearPlaces(deviceId, since, removedIds);
+    for (const [index, place] of saved.entries()) {
+      await this.stopRepository.setPlace(members[index], place.id);
+    }
+
+    return saved.length;
+  }
+
+  /**
+   * Agrupa las paradas de un device en lugares (DBSCAN) y calcula sus datos y etiquetas.
+   * Devuelve los lugares de más a menos visitados.
+   */
+  buildPlaces(stops: Stop[]): IPlaceDraft[] {
+    const drafts = this.cluster(stops).map((members) => this.describe(members));
+
+    drafts.sort((a, b) => b.visit_count - a.visit_count);
+    this.assignLabels(drafts);
+
+    return drafts;
+  }
+
+  /**
+   * DBSCAN: grupos de paradas con densidad PLACES_MIN_VISITS en PLACES_RADIUS
+   */
+  private cluster(stops: Stop[]): Stop[][] {
+    // Ordenadas por latitud para buscar vecinos solo en la franja del radio
+    const sorted = [...stops].sort((a, b) => a.latitude - b.latitude);
+    const band = PLACES_RADIUS / METERS_PER_DEGREE;
+
+    const neighbors = (index: number): number[] => {
+      const origin = sorted[index];
+      const result: number[] = [];
+
+      for (let i = index; i >= 0; i--) {
+        if (origin.latitude - sorted[i].latitude > band) break;
+        if (this.within(origin, sorted[i])) result.push(i);
+      }
+      for (let i = index + 1; i < sorted.length; i++) {
+        if (sorted[i].latitude - origin.latitude > band) break;
+        if (this.within(origin, sorted[i])) result.push(i);
+      }
+
+      return result;
+    };
+
+    const assigned = new Array<number | undefined>(sorted.length);
+    const visited = new Array<boolean>(sorted.length).fill(false);
+    const clusters: Stop[][] = [];
+
+    for (let index = 0; index < sorted.length; index++) {
+      if (visited[index]) continue;
+      visited[index] = true;
+
+      const seeds = neighbors(index);
+      if (seeds.length < PLACES_MIN_VISITS) continue; // Ruido (por ahora)
+
+      const clusterId = clusters.length;
+      const members: Stop[] = [];
+      clusters.push(members);
+
+      const queue = [...seeds];
+      while (queue.length > 0) {
+        const current = queue.pop()!;
+
+        if (assigned[current] === undefined) {
+          assigned[current] = clusterId;
+          members.push(sorted[current]);
+        }
+        if (visited[current]) continue;
+        visited[current] = true;
+
+        const next = neighbors(current);
+        if (next.length >= PLACES_MIN_VISITS) {
+          queue.push(...next);
+        }
+      }
+    }
+
+    return clusters;
+  }
+
+  private within(a: Stop, b: Stop): boolean {
+    return (
+      this.distanceValidator.haversineDistance(
+        a.latitude,
+        a.longitude,
+        b.latitude,
+        b.longitude,
+      ) <= PLACES_RADIUS
+    );
+  }
+
+  /**
+   * Datos del lugar: centro, radio, visitas, tiempo detenido, pernoctes y horarios
+   */
+  private describe(cluster: Stop[]): IPlaceDraft {
+    // En orden cronológico: ante un empate de horas gana la de la primera visita
+    const members = [...cluster].sort(
+      (a, b) => a.start_time.getTime() - b.start_time.getTime(),
+    );
+    const latitude =
+      members.reduce((sum, stop) => sum + stop.latitude, 0) / members.length;
+    const longitude =
+      members.reduce((sum, stop) => sum + stop.longitude, 0) / members.length;
+
+    const spread = Math.max(
+      ...members.map((stop) =>
+        this.distanceValidator.haversineDistance(
+          latitude,
+          longitude,
+          stop.latitude,
+          stop.longitude,
+        ),
+      ),
+    );
+
+    let totalDwellTime = 0;
+    let overnightCount = 0;
+    const arrivals: number[] = [];
+    const departures: number[] = [];
+
+    for (const stop of members) {
+      const end = stop.end_time ?? stop.start_time;
+      const duration = (end.getTime() - stop.start_time.getTime()) / 1000;
+      totalDwellTime += duration;
+
+      const arrival = this.toLocal(stop.start_time);
+      const departure = this.toLocal(end);
+      arrivals.push(arrival.hour);
+      departures.push(departure.hour);
+
+      if (
+        arrival.date !== departure.date &&
+        duration >= OVERNIGHT_MIN_DURATION_S
+      ) {
+        overnightCount++;
+      }
+    }
+
+    const times = members.map((stop) => stop.start_time.getTime());
+
+    return {
+      stopIds: members.map((stop) => stop.id),
+      label: null,
+      latitude,
+      longitude,
+      radius: Math.round(Math.max(PLACES_RADIUS, spread)),
+      address: this.mode(
+        members
+          .map((stop) => stop.address)
+          .filter((address): address is string => !!address),
+      ),
+      visit_count: members.length,
+      total_dwell_time: Math.round(totalDwellTime),
+      overnight_count: overnightCount,
+      typical_arrival_hour: this.mode(arrivals),
+      typical_departure_hour: this.mode(departures),
+      first_visit_at: new Date(Math.min(...times)),
+      last_visit_at: new Date(Math.max(...times)),
+    };
+  }
+
+  /**
+   * Etiquetas automáticas de los lugares de un device:
+   * - home_base: el de más pernoctes (al menos PLACES_MIN_VISITS)
+   * - overnight: los demás donde al menos la mitad de las visitas son pernoctes
+   * - depot: entre los que quedan, el de más visitas (a igual cantidad, más tiempo)
+   */
+  private assignLabels(drafts: IPlaceDraft[]): void {
+    const byOvernights = [...drafts].sort(
+      (a, b) => b.overnight_count - a.overnight_count,
+    );
+    const home = byOvernights[0];
+    if (home && home.overnight_count >= PLACES_MIN_VISITS) {
+      home.label = 'home_base';
+    }
+
+    for (const draft of drafts) {
+      if (
+        !draft.label &&
+        draft.overnight_count > 0 &&
+        draft.overnight_count * 2 >= draft.visit_count
+      ) {
+        draft.label = 'overnight';
+      }
+    }
+
+    const depot = drafts
+      .filter((draft) => !draft.label)
+      .sort(
+        (a, b) =>
+          b.visit_count - a.visit_count ||
+          b.total_dwell_time - a.total_dwell_time,
+      )[0];
+    if (depot) {
+      depot.label = 'depot';
+    }
+  }
+
+  /**
+   * Fecha (YYYY-MM-DD) y hora local en PLACES_TIMEZONE
+   */
+  private toLocal(time: Date): { date: string; hour: number } {
+    const parts = Object.fromEntries(
+      this.localTime.formatToParts(time).map((part) => [part.type, part.value]),
+    );
+
+    return {
+      date: `${parts.year}-${parts.month}-${parts.day}`,
+      hour: Number(parts.hour),
+    };
+  }
+
+  /**
+   * Valor más frecuente (a igual frecuencia, el primero), o null si no hay valores
+   */
+  private mode<T>(values: T[]): T | null {
+    const counts = new Map<T, number>();
+    for (const value of values) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+
+    let best: T | null = null;
+    let bestCount = 0;
+    for (const [value, count] of counts) {
+      if (count > bestCount) {
+        best = value;
+        bestCount = count;
+      }
+    }
+
+    return best;
+  }
+}
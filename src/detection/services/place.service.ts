@@ -0,0 +1,129 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { PlaceRepository } from '../../database/repositories/place.repository';
+import { Place, PlaceLabel } from '../../database/entities';
+import { DistanceValidatorService } from './distance-validator.service';
+import { PLACES_REFRESH_MS } from '../../env';
+import { PeriodicCache } from '../../auxiliares/cache/periodic-cache';
+
+/**
+ * Lugar frecuente tal como lo devuelve GET /trackers/:trackerId/places
+ */
+export interface ITrackerPlace {
+  id: string;
+  label: PlaceLabel | null;
+  latitude: number;
+  longitude: number;
+  radius: number;
+  address: string | null;
+  visitCount: number;
+  totalDwellTime: number; // segundos
+  overnightCount: number;
+  typicalArrivalHour: number | null;
+  typicalDepartureHour: number | null;
+  firstVisitAt: string;
+  lastVisitAt: string;
+}
+
+/**
+ * Servicio de lugares frecuentes
+ *
+ * Mantiene en memoria los lugares de cada device (los calcula PlaceClusteringService)
+ * para etiquetar los stops que se completan sin ir a la BD.
+ */
+@Injectable()
+export class PlaceService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PlaceService.name);
+  private readonly cache = new PeriodicCache(
+    'places',
+    PLACES_REFRESH_MS,
+    () => this.load(),
+    this.logger,
+  );
+  private places = new Map<string, Place[]>();
+
+  constructor(
+    private readonly placeRepository: PlaceRepository,
+    private readonly distanceValidator: DistanceValidatorService,
+  ) {}
+
+  async onModuleInit() {
+    await this.cache.start();
+  }
+
+  onModuleDestroy() {
+    this.cache.stop();
+  }
+
+  /**
+   * Recarga los lugares desde la BD.
+   * Se llama periódicamente y después de cada agrupamiento.
+   */
+  reload(): Promise<void> {
+    return this.cache.reload();
+  }
+
+  private async load(): Promise<void> {
+    const places = await this.placeRepository.findAll();
+
+    const next = new Map<string, Place[]>();
+    for (const place of places) {
+      const list = next.get(place.device_id) ?? [];
+      list.push(place);
+      next.set(place.device_id, list);
+    }
+    this.places = next;
+
+    this.logger.debug(`Loaded ${places.length} places`);
+  }
+
+  /**
+   * Lugar del device que contiene el punto (el de centro más cercano), o null
+   */
+  findPlace(deviceId: string, lat: number, lon: number): Place | null {
+    let best: Place | null = null;
+    let bestDistance = Infinity;
+
+    for (const place of this.places.get(deviceId) ?? []) {
+      const distance = this.distanceValidator.haversineDistance(
+        lat,
+        lon,
+        place.latitude,
+        place.longitude,
+      );
+      if (distance <= place.radius && distance < bestDistance) {
+        best = place;
+        bestDistance = distance;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Lugares del device leídos de la BD, los más visitados primero
+   */
+  async getPlaces(deviceId: string): Promise<ITrackerPlace[]> {
+    const places = await this.placeRepository.findByDevice(deviceId);
+
+    return places.map((place) => ({
+      id: place.id,
+      label: place.label,
+      latitude: place.latitude,
+      longitude: place.longitude,
+      radius: place.radius,
+      address: place.address,
+      visitCount: place.visit_count,
+      totalDwellTime: place.total_dwell_time,
+      overnightCount: place.overnight_count,
+      typicalArrivalHour: place.typical_arrival_hour,
+      typicalDepartureHour: place.typical_departure_hour,
+      firstVisitAt: place.first_visit_at.toISOString(),
+      lastVisitAt: place.last_visit_at.toISOString(),
+    }));
+  }
+}
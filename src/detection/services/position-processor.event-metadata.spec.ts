@@ -0,0 +1,176 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PositionProcessorService } from './position-processor.service';
+import { StateMachineService } from './state-machine.service';
+import { DeviceStateService } from './device-state.service';
+import { EventPublisherService } from './event-publisher.service';
+import { TrackerStateService } from './tracker-state.service';
+import { TripRouteBufferService } from './trip-route-buffer.service';
+import { ThresholdProfileService } from './threshold-profile.service';
+import { GeofenceService } from './geofence.service';
+import { DrivingBehaviorService } from './driving-behavior.service';
+import { SpeedingService } from './speeding.service';
+import { DriverService } from './driver.service';
+import { FuelService } from './fuel.service';
+import { IdlingService } from './idling.service';
+import { DEFAULT_THRESHOLDS } from '../models';
+import { TripRepository } from '../../database/repositories/trip.repository';
+import { StopRepository } from '../../database/repositories/stop.repository';
+import { IPositionEvent } from '../../interfaces';
+
+/**
+ * tracker:state:changed y trip:discarded llevan la metadata del device: sin ella las
+ * suscripciones de webhooks filtradas por tenant/metadata nunca los reciben.
+ */
+describe('PositionProcessorService — metadata de los eventos', () => {
+  let service: PositionProcessorService;
+  let stateMachine: { processPosition: jest.Mock };
+  let eventPublisher: Record<string, jest.Mock>;
+
+  const metadata = { tenant_id: 'acme', fleet_id: 'trucks' };
+
+  const baseActions = {
+    startTrip: false,
+    endTrip: false,
+    discardTrip: false,
+    updateTrip: false,
+    startStop: false,
+    endStop: false,
+  };
+
+  beforeEach(async () => {
+    stateMachine = { processPosition: jest.fn() };
+    eventPublisher = {
+      publishTrackerStateChanged: jest.fn().mockResolvedValue(undefined),
+      publishTripDiscarded: jest.fn().mockResolvedValue(undefined),
+      publishPositionUpdated: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PositionProcessorService,
+        { provide: StateMachineService, useValue: stateMachine },
+        {
+          provide: DeviceStateService,
+          useValue: {
+            isPositionThrottled: jest.fn().mockResolvedValue(false),
+            getDeviceState: jest.fn().mockResolvedValue(null),
+            saveDeviceState: jest.fn().mockResolvedValue(undefined),
+          },
+        },
+        { provide: EventPublisherService, useValue: eventPublisher },
+        {
+          provide: TrackerStateService,
+          useValue: {
+            updateWithPosition: jest.fn().mockResolvedValue(undefined),
+            getState: jest.fn().mockResolvedValue({
+              hasIgnition: false,
+              totalOdometer: 0,
+              odometerOffset: 0,
+            }),
+            getDisplayEngineHours: jest.fn().mockReturnValue(0),
+            updateMotionState: jest.fn().mockResolvedValue(undefined),
+          },
+        },
+        { provide: TripRepository, useValue: { touchTrip: jest.fn() } },
+        { provide: StopRepository, useValue: { touchStop: jest.fn() } },
+        {
+          provide: TripRouteBufferService,
+          useValue: {
+            addPoint: jest.fn().mockResolvedValue(undefined),
+            discard: jest.fn(),
+          },
+        },
+        {
+          provide: ThresholdProfileService,
+          useValue: {
+            resolveThresholds: jest.fn().mockReturnValue(DEFAULT_THRESHOLDS),
+          },
+        },
+        {
+          provide: GeofenceService,
+          useValue: {
+            evaluate: jest
+              .fn()
+              .mockReturnValue({ current: [], entered: [], exited: [] }),
+          },
+        },
+        {
+          provide: DrivingBehaviorService,
+          useValue: { detect: jest.fn().mockReturnValue([]) },
+        },
+        {
+          provide: SpeedingService,
+          useValue: {
+            resolveSpeedLimit: jest.fn().mockReturnValue(null),
+            evaluate: jest.fn().mockReturnValue({}),
+          },
+        },
+        {
+          provide: DriverService,
+          useValue: { resolveDriverId: jest.fn().mockReturnValue(undefined) },
+        },
+        { provide: FuelService, useValue: { getSensor: jest.fn() } },
+        {
+          provide: IdlingService,
+          useValue: { evaluate: jest.fn().mockReturnValue({}) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(PositionProcessorService);
+  });
+
+  const pos = (o: Partial<IPositionEvent> = {}): IPositionEvent => ({
+    deviceId: 'DEV-1',
+    timestamp: 1_000_000,
+    latitude: -34.71,
+    longitude: -58.39,
+    speed: 0,
+    ignition: true,
+    metadata,
+    ...o,
+  });
+
+  it('tracker:state:changed lleva la metadata de la posición', async () => {
+    stateMachine.processPosition.mockReturnValue({
+      previousState: 'STOPPED',
+      newState: 'IDLE',
+      transitionOccurred: true,
+      reason: 'ignition_on',
+      actions: { ...baseActions },
+      updatedState: { deviceId: 'DEV-1', lastTimestamp: 1_000_000 },
+    });
+
+    await service.processPosition(pos());
+
+    expect(eventPublisher.publishTrackerStateChanged).toHaveBeenCalledWith(
+      expect.objectContaining({ deviceId: 'DEV-1', metadata }),
+    );
+  });
+
+  it('trip:discarded lleva la metadata del trip descartado', async () => {
+    const tripMetadata = { tenant_id: 'acme', fleet_id: 'vans' };
+    stateMachine.processPosition.mockReturnValue({
+      previousState: 'MOVING',
+      newState: 'STOPPED',
+      transitionOccurred: false,
+      reason: 'no_movement',
+      actions: { ...baseActions, discardTrip: true },
+      updatedState: {
+        deviceId: 'DEV-1',
+        currentTripId: 'trip_1',
+        tripStartTime: 970_000,
+        tripDistance: 50,
+        tripConfirmed: true,
+        tripMetadata,
+        lastTimestamp: 1_000_000,
+      },
+    });
+
+    await service.processPosition(pos());
+
+    expect(eventPublisher.publishTripDiscarded).toHaveBeenCalledWith(
+      expect.objectContaining({ tripId: 'trip_1', metadata: tripMetadata }),
+    );
+  });
+});
@@ -1,4 +1,9 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
 import {
   IPositionEvent,
   ITripStartedEvent,
@@ -7,13 +12,32 @@ import {
   IStopStartedEvent,
   IStopCompletedEvent,
   ITrackerStateChangedEvent,
+  IDrivingEvent,
 } from '../../interfaces';
-import { StateMachineService } from './state-machine.service';
+import {
+  StateMachineService,
+  IStateTransitionResult,
+} from './state-machine.service';
+import { ThresholdProfileService } from './threshold-profile.service';
+import { GeofenceService, IGeofenceTransitions } from './geofence.service';
+import { DrivingBehaviorService } from './driving-behavior.service';
+import { SpeedingService } from './speeding.service';
+import { DriverService } from './driver.service';
+import { FuelService } from './fuel.service';
+import { IdlingService } from './idling.service';
 import { DeviceStateService } from './device-state.service';
 import { EventPublisherService } from './event-publisher.service';
 import { TrackerStateService } from './tracker-state.service';
+import { TripRouteBufferService } from './trip-route-buffer.service';
+import {
+  IDeviceMotionState,
+  IDetectionThresholds,
+  MotionState,
+} from '../models';
+import { ITrackerState } from '../../models';
 import { TripRepository } from '../../database/repositories/trip.repository';
 import { StopRepository } from '../../database/repositories/stop.repository';
+import { LIVE_STREAM_ENABLED } from '../../env';
 
 /**
  * Servicio principal de procesamiento de posiciones GPS
@@ -25,9 +49,15 @@ import { StopRepository } from '../../database/repositories/stop.repository';
  * - Cálculo de odómetro
  * - Persistencia de estado
  * - Publicación de eventos
+ * - Entradas/salidas de geocercas
+ * - Eventos de manejo brusco
+ * - Excesos de velocidad
+ * - Conductor de trips y stops
+ * - Combustible (consumo por trip, cargas y caídas)
+ * - Episodios de ralentí
  */
 @Injectable()
-export class PositionProcessorService {
+export class PositionProcessorService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(PositionProcessorService.name);
   private processedCount = 0;
   private errorCount = 0;
@@ -39,6 +69,11 @@ export class PositionProcessorService {
   private lastStopUpdateTime = new Map<string, number>();
   private readonly TRIP_UPDATE_THROTTLE_MS = 60000; // 60 segundos
 
+  // Los timers se arrancan en onModuleInit (no en el constructor) para que las
+  // instancias aisladas que crea el replay no dejen intervalos corriendo.
+  private metricsInterval?: NodeJS.Timeout;
+  private throttleCleanupInterval?: NodeJS.Timeout;
+
   constructor(
     private readonly stateMachine: StateMachineService,
     private readonly deviceState: DeviceStateService,
@@ -46,9 +81,19 @@ export class PositionProcessorService {
     private readonly trackerState: TrackerStateService,
     private readonly tripRepository: TripRepository,
     private readonly stopRepository: StopRepository,
-  ) {
+    private readonly tripRouteBuffer: TripRouteBufferService,
+    private readonly thresholdProfiles: ThresholdProfileService,
+    private readonly geofences: GeofenceService,
+    private readonly drivingBehavior: DrivingBehaviorService,
+    private readonly speeding: SpeedingService,
+    private readonly drivers: DriverService,
+    private readonly fuel: FuelService,
+    private readonly idling: IdlingService,
+  ) {}
+
+  onModuleInit() {
     // Log de métricas cada minuto
-    setInterval(() => {
+    this.metricsInterval = setInterval(() => {
       this.logger.log(
         `Metrics: ${this.processedCount} positions processed, ${this.errorCount} errors`,
       );
@@ -57,7 +102,7 @@ export class PositionProcessorService {
     }, 60000);
 
     // Cleanup del cache de throttling cada 10 minutos
-    setInterval(() => {
+    this.throttleCleanupInterval = setInterval(() => {
       const now = Date.now();
       const cutoff = now - this.TRIP_UPDATE_THROTTLE_MS * 2;
       for (const [tripId, timestamp] of this.lastTripUpdateTime.entries()) {
@@ -73,10 +118,17 @@ export class PositionProcessorService {
     }, 600000);
   }
 
+  onModuleDestroy() {
+    clearInterval(this.metricsInterval);
+    clearInterval(this.throttleCleanupInterval);
+  }
+
   /**
    * Procesa una nueva posición GPS
+   *
+   * @returns false si el procesamiento falló (el error se loguea y no se propaga)
    */
-  async processPosition(position: IPositionEvent): Promise<void> {
+  async processPosition(position: IPositionEvent): Promise<boolean> {
     const startTime = Date.now();
 
     try {
@@ -88,7 +140,7 @@ export class PositionProcessorService {
 
       if (isThrottled) {
         this.logger.debug(`Position throttled for device ${position.deviceId}`);
-        return;
+        return true;
       }
 
       // 2. Actualizar estado del tracker (odómetro, última posición, etc.)
@@ -105,16 +157,89 @@ export class PositionProcessorService {
       );
       const hasIgnition = trackerStateForSM?.hasIgnition === true;
       const lastIgnitionSeenAt = trackerStateForSM?.lastIgnitionSeenAt;
-      const result = this.stateMachine.processPosition(position, currentState, {
-        hasIgnition,
-        lastIgnitionSeenAt,
-      });
+      // Umbrales del perfil del device (o de su flota/tenant); DEFAULT_THRESHOLDS si no tiene
+      const thresholds = this.thresholdProfiles.resolveThresholds(
+        position.deviceId,
+        position.metadata,
+      );
+      // Conductor de la posición (metadata o asignación); si cambia en movimiento se parte el trip
+      const driverId = this.drivers.resolveDriverId(position);
+      const result = this.stateMachine.processPosition(
+        position,
+        currentState,
+        {
+          hasIgnition,
+          lastIgnitionSeenAt,
+        },
+        thresholds,
+        driverId,
+      );
+
+      // 4a. Conductor del trip: el de la posición que lo inicia (un trip sin conductor
+      // adopta el primero que aparece)
+      if (result.actions.startTrip) {
+        result.updatedState.tripDriverId = driverId;
+      } else if (
+        result.updatedState.currentTripId &&
+        !result.updatedState.tripDriverId
+      ) {
+        result.updatedState.tripDriverId = driverId;
+      }
+
+      // 4b. Geocercas: comparar con las de la posición anterior (se guardan en device:state)
+      const geofenceTransitions = this.geofences.evaluate(
+        position,
+        currentState?.geofenceIds,
+      );
+      result.updatedState.geofenceIds = geofenceTransitions.current;
+
+      // 4c. Eventos de manejo brusco respecto de la posición anterior
+      const drivingEvents = this.drivingBehavior.detect(
+        position,
+        currentState,
+        result.updatedState.currentTripId,
+        thresholds,
+      );
+      await this.queueDrivingEvents(result.updatedState, drivingEvents);
+
+      // 4d. Excesos de velocidad (límite del perfil o de la geocerca de la posición)
+      await this.evaluateSpeeding(
+        position,
+        result,
+        geofenceTransitions.current,
+        thresholds,
+      );
+
+      // 4e. Combustible (solo devices con sensor configurado)
+      await this.evaluateFuel(position, result.updatedState, thresholds);
+
+      // 4f. Ralentí (motor encendido sin movimiento)
+      await this.evaluateIdling(position, result.updatedState, thresholds);
 
       // 5. Guardar nuevo estado
       await this.deviceState.saveDeviceState(result.updatedState);
 
       // 6. Ejecutar acciones (publicar eventos)
-      await this.executeActions(position, result);
+      await this.executeActions(position, result, driverId);
+
+      // 6a. Publicar entradas/salidas de geocercas
+      await this.publishGeofenceEvents(
+        position,
+        geofenceTransitions,
+        result.updatedState,
+      );
+
+      // 6b. Acumular la posición en el recorrido del trip en curso (se persiste en lotes)
+      if (result.updatedState.currentTripId) {
+        await this.tripRouteBuffer.addPoint(
+          result.updatedState.currentTripId,
+          position.deviceId,
+          position,
+        );
+      }
+
+      // 6c. Publicar los eventos de manejo pendientes si el trip se acaba de confirmar
+      await this.flushPendingDrivingEvents(result.updatedState);
 
       // 7. Publicar evento de cambio de estado si ocurrió transición
       if (result.transitionOccurred) {
@@ -127,6 +252,15 @@ export class PositionProcessorService {
         );
       }
 
+      // 7b. Posición procesada para el stream en vivo (SSE / WebSocket)
+      if (LIVE_STREAM_ENABLED) {
+        await this.publishPositionUpdated(
+          position,
+          result.updatedState,
+          trackerStateForSM,
+        );
+      }
+
       // 8. Actualizar updated_at del trip si hay uno activo (throttled)
       // Esto permite que el cleanup detecte trips huérfanos cuando el tracker deja de reportar
       await this.updateTripTimestamp(result.updatedState.currentTripId);
@@ -144,12 +278,164 @@ export class PositionProcessorService {
           `Slow position processing for device ${position.deviceId}: ${processingTime}ms`,
         );
       }
+
+      return true;
     } catch (error) {
       this.errorCount++;
       this.logger.error(
         `Error processing position for device ${position.deviceId}`,
         error.stack,
       );
+      return false;
+    }
+  }
+
+  /**
+   * Publica los eventos de manejo de un trip confirmado. Si el trip todavía no se
+   * confirmó (no existe en BD), quedan pendientes en device:state hasta que se
+   * publique trip:started; si se descarta, se pierden con él.
+   */
+  private async queueDrivingEvents(
+    state: IDeviceMotionState,
+    events: IDrivingEvent[],
+  ): Promise<void> {
+    if (state.tripConfirmed) {
+      for (const event of events) {
+        await this.eventPublisher.publishDrivingEvent(event);
+      }
+      return;
+    }
+
+    // Solo los pendientes del trip en curso (un trip nuevo descarta los del anterior)
+    const pending = (state.pendingDrivingEvents || []).filter(
+      (event) => event.tripId === state.currentTripId,
+    );
+    pending.push(...events);
+    state.pendingDrivingEvents = pending.length > 0 ? pending : undefined;
+  }
+
+  /**
+   * Publica los eventos de manejo pendientes una vez confirmado el trip (después de
+   * trip:started) o los descarta si el trip terminó sin confirmarse
+   */
+  private async flushPendingDrivingEvents(
+    state: IDeviceMotionState,
+  ): Promise<void> {
+    const pending = state.pendingDrivingEvents;
+    if (!pending || (state.currentTripId && !state.tripConfirmed)) {
+      return;
+    }
+
+    if (state.currentTripId) {
+      for (const event of pending) {
+        if (event.tripId === state.currentTripId) {
+          await this.eventPublisher.publishDrivingEvent(event);
+        }
+      }
+    }
+
+    state.pendingDrivingEvents = undefined;
+    await this.deviceState.saveDeviceState(state);
+  }
+
+  /**
+   * Actualiza el exceso de velocidad en curso y publica speeding:ended / speeding:started.
+   * Solo cuenta el trip ya confirmado (existe en BD): si la posición cierra el trip,
+   * el episodio termina en su última posición excedida antes de trip:completed.
+   */
+  private async evaluateSpeeding(
+    position: IPositionEvent,
+    result: IStateTransitionResult,
+    geofenceIds: string[],
+    thresholds: IDetectionThresholds,
+  ): Promise<void> {
+    const { actions, updatedState } = result;
+    const tripId =
+      updatedState.tripConfirmed && !actions.endTrip && !actions.discardTrip
+        ? updatedState.currentTripId
+        : undefined;
+
+    if (!tripId && !updatedState.speedingEpisode) {
+      return;
+    }
+
+    const limit = tripId
+      ? this.speeding.resolveSpeedLimit(geofenceIds, thresholds)
+      : null;
+    const update = this.speeding.evaluate(
+      position,
+      updatedState.speedingEpisode,
+      tripId,
+      limit,
+      thresholds,
+    );
+    updatedState.speedingEpisode = update.episode;
+
+    if (update.ended) {
+      await this.eventPublisher.publishSpeedingEnded(update.ended);
+    }
+    if (update.started) {
+      await this.eventPublisher.publishSpeedingStarted(update.started);
+    }
+  }
+
+  /**
+   * Actualiza el nivel/contador de combustible y publica las cargas y caídas detectadas.
+   * Corre antes de executeActions: si la posición cierra el trip, su consumo queda
+   * disponible para trip:completed.
+   */
+  private async evaluateFuel(
+    position: IPositionEvent,
+    updatedState: IDeviceMotionState,
+    thresholds: IDetectionThresholds,
+  ): Promise<void> {
+    const sensor = this.fuel.getSensor(position.deviceId);
+    if (!sensor) {
+      return;
+    }
+
+    const update = this.fuel.evaluate(
+      position,
+      sensor,
+      updatedState.fuel,
+      updatedState.currentTripId,
+      updatedState.currentStopId,
+      thresholds,
+    );
+    updatedState.fuel = update.state;
+
+    for (const event of update.events) {
+      await this.eventPublisher.publishFuelEvent(event);
+    }
+  }
+
+  /**
+   * Actualiza el episodio de ralentí en curso y publica idle:completed / idle:started
+   */
+  private async evaluateIdling(
+    position: IPositionEvent,
+    updatedState: IDeviceMotionState,
+    thresholds: IDetectionThresholds,
+  ): Promise<void> {
+    if (updatedState.state !== MotionState.IDLE && !updatedState.idleEpisode) {
+      return;
+    }
+
+    const update = this.idling.evaluate(
+      position,
+      updatedState.idleEpisode,
+      updatedState.state,
+      updatedState.tripConfirmed ? updatedState.currentTripId : undefined,
+      updatedState.currentStopId,
+      thresholds,
+    );
+    updatedState.idleEpisode = update.episode;
+
+    if (update.completed) {
+      await this.eventPublisher.publishIdleCompleted(update.completed);
+    }
+    if (update.started) {
+      await this.eventPublisher.publishIdleStarted(update.started);
     }
   }
 
@@ -159,6 +445,7 @@ export class PositionProcessorService {
   private async executeActions(
     position: IPositionEvent,
     result: any,
+    driverId?: string,
   ): Promise<void> {
     const { actions, updatedState, overnightGap } = result;
 
@@ -177,6 +464,9 @@ export class PositionProcessorService {
       const displayOdometer = trackerState
         ? trackerState.totalOdometer + (trackerState.odometerOffset || 0)
         : 0;
+      const displayEngineHours = trackerState
+        ? this.trackerState.getDisplayEngineHours(trackerState)
+        : 0;
 
       // IMPORTANTE: Finalizar trip ANTES de iniciar nuevo para evitar race conditions
       // Usamos previousTrip cuando está disponible (auto-close) para tener los datos correctos
@@ -193,6 +483,8 @@ export class PositionProcessorService {
         };
 
         if (tripData.tripId) {
+          this.tripRouteBuffer.discard(tripData.tripId);
+
           const tripDuration =
             (updatedState.lastTimestamp - tripData.startTime) / 1000;
           const tripDistance = tripData.distance;
@@ -218,6 +510,8 @@ export class PositionProcessorService {
               reason,
               duration: Math.round(tripDuration),
               distance: Math.round(tripDistance),
+              // Todavía es la del trip descartado (un trip nuevo la pisa más abajo)
+              metadata: updatedState.tripMetadata || position.metadata,
             };
 
             await this.eventPublisher.publishTripDiscarded(event);
@@ -248,6 +542,7 @@ export class PositionProcessorService {
           updatedState.tripStopsCount = undefined;
           updatedState.tripConfirmed = undefined;
           updatedState.tripMetadata = undefined;
+          updatedState.tripDriverId = undefined;
 
           await this.deviceState.saveDeviceState(updatedState);
         }
@@ -265,6 +560,7 @@ export class PositionProcessorService {
           distance: updatedState.tripDistance || 0,
           maxSpeed: updatedState.tripMaxSpeed || 0,
           stopsCount: updatedState.tripStopsCount || 0,
+          driverId: updatedState.tripDriverId,
         };
 
         // Fin del trip estilo Traccar: si el cierre es por una parada, el trip termina en el
@@ -327,6 +623,9 @@ export class PositionProcessorService {
             | 'IDLE'
             | 'MOVING',
           odometer: Math.round(displayOdometer),
+          engineHours: displayEngineHours,
+          driverId: tripData.driverId,
+          spentFuel: this.fuel.getSpentFuel(updatedState.fuel, tripData.tripId),
           metadata: {
             ...updatedState.tripMetadata,
             closureType: 'natural', // Trip cerrado por cambio de estado del vehículo
@@ -335,6 +634,9 @@ export class PositionProcessorService {
 
         await this.eventPublisher.publishTripCompleted(event);
 
+        // Escribir los puntos del recorrido que quedaron pendientes
+        await this.tripRouteBuffer.complete(tripData.tripId);
+
         // Notificar al TrackerStateService (para actualizar estadísticas)
         await this.trackerState.onTripCompleted(
           position.deviceId,
@@ -356,6 +658,7 @@ export class PositionProcessorService {
           updatedState.tripStopsCount = undefined;
           updatedState.tripConfirmed = undefined;
           updatedState.tripMetadata = undefined;
+          updatedState.tripDriverId = undefined;
 
           await this.deviceState.saveDeviceState(updatedState);
         }
@@ -408,10 +711,22 @@ export class PositionProcessorService {
             detectionMethod: position.ignition ? 'ignition' : 'motion',
             currentState: 'MOVING',
             odometer: Math.round(displayOdometer),
+            // Horómetro al inicio real del trip (se confirma unas posiciones después)
+            engineHours: trackerState
+              ? this.trackerState.getDisplayEngineHours(
+                  trackerState,
+                  trackerState.tripEngineTimeStart,
+                )
+              : 0,
+            driverId: updatedState.tripDriverId,
             metadata: updatedState.tripMetadata || position.metadata,
           };
 
           await this.eventPublisher.publishTripStarted(event);
+          this.tripRouteBuffer.markConfirmed(
+            updatedState.currentTripId,
+            position.deviceId,
+          );
 
           this.logger.log(
             `Trip ${updatedState.currentTripId} confirmed for device ${position.deviceId}: ` +
@@ -483,6 +798,7 @@ export class PositionProcessorService {
               | 'IDLE'
               | 'MOVING',
             odometer: Math.round(displayOdometer),
+            engineHours: displayEngineHours,
             metadata: {
               ...stopData.metadata,
               closureType: 'natural',
@@ -534,7 +850,9 @@ export class PositionProcessorService {
         const stopLat = updatedState.stopStartLat ?? position.latitude;
         const stopLon = updatedState.stopStartLon ?? position.longitude;
         const stopMetadata =
-          updatedState.stopMetadata || position.metadata || updatedState.tripMetadata;
+          updatedState.stopMetadata ||
+          position.metadata ||
+          updatedState.tripMetadata;
 
         const event: IStopStartedEvent = {
           stopId,
@@ -548,6 +866,8 @@ export class PositionProcessorService {
           reason,
           currentState: 'IDLE',
           odometer: Math.round(displayOdometer),
+          engineHours: displayEngineHours,
+          driverId: driverId ?? updatedState.tripDriverId,
           metadata: stopMetadata,
         };
 
@@ -584,6 +904,8 @@ export class PositionProcessorService {
           reason: 'gap',
           currentState: 'MOVING',
           odometer: Math.round(displayOdometer),
+          engineHours: displayEngineHours,
+          driverId,
           metadata: position.metadata,
         };
         await this.eventPublisher.publishStopStarted(startedEvent);
@@ -599,6 +921,7 @@ export class PositionProcessorService {
           reason: 'gap',
           currentState: 'MOVING',
           odometer: Math.round(displayOdometer),
+          engineHours: displayEngineHours,
           metadata: { closureType: 'gap' },
         };
         await this.eventPublisher.publishStopCompleted(completedEvent);
@@ -704,6 +1027,7 @@ export class PositionProcessorService {
           age,
         },
         currentTrip: currentTripInfo,
+        metadata: position.metadata,
       };
 
       await this.eventPublisher.publishTrackerStateChanged(event);
@@ -723,6 +1047,81 @@ export class PositionProcessorService {
     }
   }
 
+  /**
+   * Publica position:updated con el estado resultante de la posición
+   */
+  private async publishPositionUpdated(
+    position: IPositionEvent,
+    deviceState: IDeviceMotionState,
+    trackerState: ITrackerState | null,
+  ): Promise<void> {
+    await this.eventPublisher.publishPositionUpdated({
+      deviceId: position.deviceId,
+      timestamp: new Date(position.timestamp).toISOString(),
+      latitude: position.latitude,
+      longitude: position.longitude,
+      speed: position.speed,
+      heading: position.heading,
+      altitude: position.altitude,
+      ignition: position.ignition,
+      currentState: deviceState.state as 'STOPPED' | 'IDLE' | 'MOVING',
+      tripId: deviceState.currentTripId,
+      odometer: trackerState
+        ? Math.round(
+            trackerState.totalOdometer + (trackerState.odometerOffset || 0),
+          )
+        : 0,
+      metadata: position.metadata,
+    });
+  }
+
+  /**
+   * Publica geofence:exited y geofence:entered (en ese orden) para la posición
+   */
+  private async publishGeofenceEvents(
+    position: IPositionEvent,
+    transitions: IGeofenceTransitions,
+    deviceState: IDeviceMotionState,
+  ): Promise<void> {
+    if (transitions.entered.length === 0 && transitions.exited.length === 0) {
+      return;
+    }
+
+    const base = {
+      deviceId: position.deviceId,
+      timestamp: new Date(position.timestamp).toISOString(),
+      location: {
+        type: 'Point' as const,
+        coordinates: [position.longitude, position.latitude] as [
+          number,
+          number,
+        ],
+      },
+      speed: position.speed,
+      currentState: deviceState.state as 'STOPPED' | 'IDLE' | 'MOVING',
+      tripId: deviceState.currentTripId,
+      metadata: position.metadata,
+    };
+
+    for (const geofence of transitions.exited) {
+      await this.eventPublisher.publishGeofenceExited({
+        ...base,
+        geofenceId: geofence.id,
+        geofenceName: geofence.name,
+        category: geofence.category,
+      });
+    }
+
+    for (const geofence of transitions.entered) {
+      await this.eventPublisher.publishGeofenceEntered({
+        ...base,
+        geofenceId: geofence.id,
+        geofenceName: geofence.name,
+        category: geofence.category,
+      });
+    }
+  }
+
   /**
    * Calcula velocidad promedio
    */
@@ -769,9 +1168,7 @@ export class PositionProcessorService {
    * Si el tracker deja de reportar, updated_at deja de avanzar y el cleanup la cierra
    * correctamente al último heartbeat.
    */
-  private async updateStopTimestamp(
-    stopId: string | undefined,
-  ): Promise<void> {
+  private async updateStopTimestamp(stopId: string | undefined): Promise<void> {
     if (!stopId) return;
 
     try {
@@ -4,6 +4,15 @@ import { StateMachineService } from './state-machine.service';
 import { DeviceStateService } from './device-state.service';
 import { EventPublisherService } from './event-publisher.service';
 import { TrackerStateService } from './tracker-state.service';
+import { TripRouteBufferService } from './trip-route-buffer.service';
+import { ThresholdProfileService } from './threshold-profile.service';
+import { GeofenceService } from './geofence.service';
+import { DrivingBehaviorService } from './driving-behavior.service';
+import { SpeedingService } from './speeding.service';
+import { DriverService } from './driver.service';
+import { FuelService } from './fuel.service';
+import { IdlingService } from './idling.service';
+import { DEFAULT_THRESHOLDS } from '../models';
 import { TripRepository } from '../../database/repositories/trip.repository';
 import { StopRepository } from '../../database/repositories/stop.repository';
 import { IPositionEvent } from '../../interfaces';
@@ -45,12 +54,36 @@ describe('PositionProcessorService — heartbeat de parada en curso', () => {
         totalOdometer: 0,
         odometerOffset: 0,
       }),
+      getDisplayEngineHours: jest.fn().mockReturnValue(0),
     };
     const eventPublisher = {
       publishStopStarted: jest.fn().mockResolvedValue(undefined),
       publishStopCompleted: jest.fn().mockResolvedValue(undefined),
       publishTripStarted: jest.fn().mockResolvedValue(undefined),
+      publishPositionUpdated: jest.fn().mockResolvedValue(undefined),
     };
+    const tripRouteBuffer = {
+      addPoint: jest.fn().mockResolvedValue(undefined),
+      markConfirmed: jest.fn(),
+      complete: jest.fn().mockResolvedValue(undefined),
+      discard: jest.fn(),
+    };
+    const thresholdProfiles = {
+      resolveThresholds: jest.fn().mockReturnValue(DEFAULT_THRESHOLDS),
+    };
+    const geofences = {
+      evaluate: jest
+        .fn()
+        .mockReturnValue({ current: [], entered: [], exited: [] }),
+    };
+    const drivingBehavior = { detect: jest.fn().mockReturnValue([]) };
+    const speeding = {
+      resolveSpeedLimit: jest.fn().mockReturnValue(null),
+      evaluate: jest.fn().mockReturnValue({}),
+    };
+    const drivers = { resolveDriverId: jest.fn().mockReturnValue(undefined) };
+    const fuel = { getSensor: jest.fn().mockReturnValue(undefined) };
+    const idling = { evaluate: jest.fn().mockReturnValue({}) };
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -61,6 +94,14 @@ describe('PositionProcessorService — heartbeat de parada en curso', () => {
         { provide: TrackerStateService, useValue: trackerState },
         { provide: TripRepository, useValue: tripRepository },
         { provide: StopRepository, useValue: stopRepository },
+        { provide: TripRouteBufferService, useValue: tripRouteBuffer },
+        { provide: ThresholdProfileService, useValue: thresholdProfiles },
+        { provide: GeofenceService, useValue: geofences },
+        { provide: DrivingBehaviorService, useValue: drivingBehavior },
+        { provide: SpeedingService, useValue: speeding },
+        { provide: DriverService, useValue: drivers },
+        { provide: FuelService, useValue: fuel },
+        { provide: IdlingService, useValue: idling },
       ],
     }).compile();
 
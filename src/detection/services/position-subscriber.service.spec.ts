@@ -0,0 +1,124 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PositionSubscriberService } from './position-subscriber.service';
+import { DeviceQueueManager } from './device-queue.manager';
+import { TrackerStateService } from './tracker-state.service';
+import { RedisService } from '../../auxiliares/redis/redis.service';
+import {
+  ClusterService,
+  buildRing,
+  findRingOwner,
+} from '../../auxiliares/cluster/cluster.service';
+import { IStreamEntry } from '../../auxiliares/redis/redis-stream.consumer';
+
+jest.mock('../../env', () => ({
+  ...jest.requireActual('../../env'),
+  CLUSTER_ENABLED: true,
+  CLUSTER_INSTANCE_ID: 'node-a',
+}));
+
+const devices = Array.from({ length: 100 }, (_, i) => `DEV-${i}`);
+
+// Device asignado a `owner` con las instancias [node-a, node-b]
+const deviceOf = (owner: string) =>
+  devices.find(
+    (deviceId) =>
+      findRingOwner(buildRing(['node-a', 'node-b']), deviceId) === owner,
+  )!;
+
+/**
+ * Streams en modo multi-instancia: qué entradas confirma una instancia sin
+ * procesarlas y cuáles deja pendientes.
+ */
+describe('PositionSubscriberService — entradas de stream en cluster', () => {
+  let service: PositionSubscriberService;
+  let redis: Record<string, jest.Mock>;
+  let queueManager: { enqueueAndWait: jest.Mock };
+
+  const entry = (
+    id: string,
+    payload: Record<string, unknown>,
+  ): IStreamEntry => ({
+    id,
+    data: JSON.stringify(payload),
+  });
+
+  const position = (deviceId: string) => ({
+    deviceId,
+    timestamp: Date.now(),
+    latitude: -34.6,
+    longitude: -58.4,
+    speed: 40,
+    ignition: true,
+  });
+
+  const handle = (entries: IStreamEntry[]): Promise<string[]> =>
+    (service as any).handleStreamEntries(entries);
+
+  beforeEach(async () => {
+    const now = Date.now();
+    redis = {
+      time: jest.fn().mockResolvedValue(now),
+      zAdd: jest.fn().mockResolvedValue(1),
+      zRemRangeByScore: jest.fn().mockResolvedValue(0),
+      zRangeByScore: jest.fn().mockResolvedValue(['node-a', 'node-b']),
+      zScore: jest.fn().mockResolvedValue(now),
+      claimKey: jest.fn().mockResolvedValue(true),
+      pTtl: jest.fn().mockResolvedValue(-2),
+      publish: jest.fn().mockResolvedValue(1),
+    };
+    queueManager = { enqueueAndWait: jest.fn().mockResolvedValue(true) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PositionSubscriberService,
+        ClusterService,
+        { provide: RedisService, useValue: redis },
+        { provide: DeviceQueueManager, useValue: queueManager },
+        { provide: TrackerStateService, useValue: { getState: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get(PositionSubscriberService);
+    // Un heartbeat sin arrancar el intervalo
+    const cluster: any = module.get(ClusterService);
+    await cluster.heartbeat();
+  });
+
+  it('confirma sin procesar las entradas de un device de otra instancia viva aunque su lease haya vencido', async () => {
+    // Sin device:owner (el device reporta cada más de CLUSTER_DEVICE_LEASE_MS)
+    const deviceId = deviceOf('node-b');
+
+    await expect(handle([entry('1-0', position(deviceId))])).resolves.toEqual([
+      '1-0',
+    ]);
+    expect(queueManager.enqueueAndWait).not.toHaveBeenCalled();
+    expect(redis.claimKey).not.toHaveBeenCalled();
+  });
+
+  it('deja pendientes las entradas de un device asignado cuyo lease tiene la dueña anterior', async () => {
+    redis.claimKey.mockResolvedValue(false);
+    redis.pTtl.mockResolvedValue(8000);
+
+    await expect(
+      handle([entry('1-0', position(deviceOf('node-a')))]),
+    ).resolves.toEqual([]);
+    expect(queueManager.enqueueAndWait).not.toHaveBeenCalled();
+  });
+
+  it('confirma enseguida los payloads inválidos sin retener a las posteriores del device', async () => {
+    const deviceId = deviceOf('node-a');
+
+    const acked = await handle([
+      entry('1-0', { ...position(deviceId), latitude: 'x' }),
+      { id: '1-1', data: 'not json' },
+      entry('1-2', position(deviceId)),
+    ]);
+
+    expect(acked.sort()).toEqual(['1-0', '1-1', '1-2']);
+    expect(queueManager.enqueueAndWait).toHaveBeenCalledTimes(1);
+    expect(redis.publish).toHaveBeenCalledWith(
+      'position:rejected',
+      expect.objectContaining({ deviceId }),
+    );
+  });
+});
@@ -6,7 +6,19 @@ import {
 } from '@nestjs/common';
 import Redis from 'ioredis';
 import { RedisService } from '../../auxiliares/redis/redis.service';
-import { REDIS_CHANNELS } from '../../auxiliares/redis/redis.constants';
+import {
+  REDIS_CHANNELS,
+  REDIS_STREAMS,
+} from '../../auxiliares/redis/redis.constants';
+import {
+  RedisStreamConsumer,
+  IStreamEntry,
+} from '../../auxiliares/redis/redis-stream.consumer';
+import {
+  StreamKeyOrder,
+  readEntryField,
+} from '../../auxiliares/redis/stream-key-order';
+import { ClusterService } from '../../auxiliares/cluster/cluster.service';
 import { DeviceQueueManager } from './device-queue.manager';
 import { TrackerStateService } from './tracker-state.service';
 import {
@@ -14,11 +26,30 @@ import {
   IPositionRejectedEvent,
   validatePositionEventWithReason,
 } from '../../interfaces';
+import {
+  INGESTION_MODE,
+  STREAMS_GROUP,
+  STREAMS_BATCH_SIZE,
+  STREAMS_BLOCK_MS,
+  STREAMS_CLAIM_IDLE_MS,
+  STREAMS_MAX_DELIVERIES,
+  STREAMS_MAX_LEN,
+} from '../../env';
+
+/**
+ * Resultado de preparar un mensaje: la posición a procesar, o por qué se descarta
+ * (inválido o de un device que esta instancia no procesa)
+ */
+type PreparedPosition =
+  | { position: IPositionEvent }
+  | { discarded: 'invalid' | 'not_owner'; deviceId?: unknown };
 
 /**
  * Servicio de suscripción a eventos de posiciones GPS
  *
- * Escucha el canal Redis PubSub 'position:new' y procesa cada posición
+ * Escucha el canal Redis PubSub 'position:new' y procesa cada posición.
+ * Con INGESTION_MODE=streams consume en cambio el stream 'stream:position:new' con un
+ * consumer group y confirma cada entrada recién después de procesarla.
  */
 @Injectable()
 export class PositionSubscriberService
@@ -26,6 +57,8 @@ export class PositionSubscriberService
 {
   private readonly logger = new Logger(PositionSubscriberService.name);
   private subscriber: Redis;
+  private streamConsumer?: RedisStreamConsumer;
+  private readonly streamOrder = new StreamKeyOrder();
   private isSubscribed = false;
   private receivedCount = 0;
   private invalidCount = 0;
@@ -34,11 +67,17 @@ export class PositionSubscriberService
     private readonly redisService: RedisService,
     private readonly queueManager: DeviceQueueManager,
     private readonly trackerStateService: TrackerStateService,
+    private readonly clusterService: ClusterService,
   ) {}
 
   async onModuleInit() {
     this.logger.log('Initializing position subscriber...');
-    await this.subscribe();
+
+    if (INGESTION_MODE === 'streams') {
+      await this.startStreamConsumer();
+    } else {
+      await this.subscribe();
+    }
 
     // Log de métricas cada minuto
     setInterval(() => {
@@ -53,9 +92,100 @@ export class PositionSubscriberService
   }
 
   async onModuleDestroy() {
+    if (this.streamConsumer) {
+      await this.streamConsumer.stop();
+      this.isSubscribed = false;
+      return;
+    }
+
     await this.unsubscribe();
   }
 
+  /**
+   * Consume el stream de posiciones (INGESTION_MODE=streams)
+   *
+   * En modo multi-instancia cada instancia usa su propio grupo (ver
+   * ClusterService.streamGroup): todas reciben todas las entradas y confirman sin
+   * procesar las de devices que tiene otra instancia.
+   */
+  private async startStreamConsumer(): Promise<void> {
+    this.streamConsumer = new RedisStreamConsumer(this.redisService, {
+      stream: REDIS_STREAMS.POSITION_NEW,
+      group: this.clusterService.streamGroup(STREAMS_GROUP),
+      consumer: this.clusterService.instanceId,
+      batchSize: STREAMS_BATCH_SIZE,
+      blockMs: STREAMS_BLOCK_MS,
+      claimIdleMs: STREAMS_CLAIM_IDLE_MS,
+      maxDeliveries: STREAMS_MAX_DELIVERIES,
+      maxLen: STREAMS_MAX_LEN,
+      handler: (entries) => this.handleStreamEntries(entries),
+      onDropped: (ids) => this.streamOrder.forget(ids),
+    });
+
+    try {
+      await this.streamConsumer.start();
+      this.isSubscribed = true;
+    } catch (error) {
+      this.logger.error('Error starting position stream consumer', error.stack);
+
+      // Reintentar después de 5 segundos
+      setTimeout(() => {
+        this.logger.log('Retrying position stream consumer...');
+        this.startStreamConsumer();
+      }, 5000);
+    }
+  }
+
+  /**
+   * Procesa un lote del stream y devuelve los IDs a confirmar
+   *
+   * Los devices se procesan en paralelo y las posiciones de cada device en orden
+   * (StreamKeyOrder): si una queda pendiente, las posteriores del mismo device
+   * esperan detrás de ella. Las inválidas o de un device asignado a otra instancia
+   * se confirman sin procesar; las que fallan, o las de un device en traspaso o de
+   * una instancia caída (ver ClusterService.awaitsOwner), quedan pendientes para
+   * reintentarse.
+   */
+  private handleStreamEntries(entries: IStreamEntry[]): Promise<string[]> {
+    return this.streamOrder.process(
+      entries,
+      (entry) => readEntryField(entry, 'deviceId'),
+      (entry) => this.handleStreamEntry(entry),
+    );
+  }
+
+  /**
+   * @returns true si la entrada se puede confirmar
+   */
+  private async handleStreamEntry(entry: IStreamEntry): Promise<boolean> {
+    this.receivedCount++;
+
+    try {
+      const prepared: PreparedPosition = entry.data
+        ? await this.preparePosition(entry.data)
+        : { discarded: 'invalid' };
+
+      if ('discarded' in prepared) {
+        return (
+          prepared.discarded === 'invalid' ||
+          !(await this.clusterService.awaitsOwner(prepared.deviceId))
+        );
+      }
+
+      return await this.queueManager.enqueueAndWait(
+        prepared.position.deviceId,
+        prepared.position,
+      );
+    } catch (error) {
+      // Error transitorio (ej: Redis): sin confirmar, se reintenta
+      this.logger.error(
+        `Error handling stream entry ${entry.id}: ${entry.data}`,
+        error.stack,
+      );
+      return false;
+    }
+  }
+
   /**
    * Suscribe al canal position:new
    */
@@ -139,50 +269,13 @@ export class PositionSubscriberService
     this.receivedCount++;
 
     try {
-      // Parsear el mensaje JSON
-      const position = JSON.parse(message);
-
-      // Validar el payload
-      const validation = validatePositionEventWithReason(position);
-      if (!validation.valid) {
-        this.invalidCount++;
-        this.logger.warn(
-          `Invalid position event: ${validation.reason}. Event: ${JSON.stringify(position)}`,
-        );
-
-        // Publicar evento de rechazo
-        await this.publishRejectedEvent(
-          position,
-          validation.reason || 'unknown',
-        );
-
-        return;
-      }
-
-      // Si no viene ignición, consultar último estado conocido
-      let ignition = position.ignition;
-
-      if (ignition === undefined) {
-        const trackerState = await this.trackerStateService.getState(
-          position.deviceId,
-        );
-        ignition = trackerState?.lastIgnition ?? false;
-
-        this.logger.debug(
-          `Position without ignition, using last known: ${ignition} for ${position.deviceId}`,
-        );
-      }
-
-      // Normalizar posición con ignition
-      const normalizedPosition: IPositionEvent = {
-        ...position,
-        ignition,
-      };
+      const prepared = await this.preparePosition(message);
+      if ('discarded' in prepared) return;
 
       // Encolar la posición para procesamiento secuencial por dispositivo
       await this.queueManager.enqueue(
-        normalizedPosition.deviceId,
-        normalizedPosition,
+        prepared.position.deviceId,
+        prepared.position,
       );
     } catch (error) {
       this.logger.error(
@@ -192,6 +285,64 @@ export class PositionSubscriberService
     }
   }
 
+  /**
+   * Parsea, valida y normaliza un mensaje de posición
+   *
+   * @returns La posición normalizada, o el motivo del descarte
+   */
+  private async preparePosition(message: string): Promise<PreparedPosition> {
+    // Parsear el mensaje JSON
+    let position: any;
+    try {
+      position = JSON.parse(message);
+    } catch {
+      this.invalidCount++;
+      this.logger.warn(`Invalid position message (not JSON): ${message}`);
+      return { discarded: 'invalid' };
+    }
+
+    // Modo multi-instancia: cada device se procesa solo en la instancia dueña
+    const deviceId: unknown = position?.deviceId;
+    if (!(await this.clusterService.ownsDevice(deviceId))) {
+      return { discarded: 'not_owner', deviceId };
+    }
+
+    // Validar el payload
+    const validation = validatePositionEventWithReason(position);
+    if (!validation.valid) {
+      this.invalidCount++;
+      this.logger.warn(
+        `Invalid position event: ${validation.reason}. Event: ${JSON.stringify(position)}`,
+      );
+
+      // Publicar evento de rechazo
+      await this.publishRejectedEvent(position, validation.reason || 'unknown');
+
+      return { discarded: 'invalid' };
+    }
+
+    // Si no viene ignición, consultar último estado conocido
+    let ignition = position.ignition;
+
+    if (ignition === undefined) {
+      const trackerState = await this.trackerStateService.getState(
+        position.deviceId,
+      );
+      ignition = trackerState?.lastIgnition ?? false;
+
+      this.logger.debug(
+        `Position without ignition, using last known: ${ignition} for ${position.deviceId}`,
+      );
+    }
+
+    // Normalizar posición con ignition
+    const normalized: IPositionEvent = {
+      ...position,
+      ignition,
+    };
+    return { position: normalized };
+  }
+
   /**
    * Verifica si está suscrito
    */
@@ -204,9 +355,13 @@ export class PositionSubscriberService
    */
   getMetrics() {
     return {
+      mode: INGESTION_MODE,
       isSubscribed: this.isSubscribed,
       receivedCount: this.receivedCount,
       invalidCount: this.invalidCount,
+      ...(this.streamConsumer && {
+        stream: this.streamConsumer.getMetrics(),
+      }),
     };
   }
 
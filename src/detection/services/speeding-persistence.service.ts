@@ -0,0 +1,167 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { EntityManager } from 'typeorm';
+import { RedisService } from '../../auxiliares/redis/redis.service';
+import { ClusterService } from '../../auxiliares/cluster/cluster.service';
+import { REDIS_CHANNELS } from '../../auxiliares/redis/redis.constants';
+import { SpeedingEventRepository } from '../../database/repositories/speeding-event.repository';
+import { DeviceEventQueueManager } from './device-event-queue.manager';
+import { ISpeedingEndedEvent } from '../../interfaces/speeding-events.interface';
+
+/**
+ * Servicio encargado de escuchar excesos de velocidad
+ * y persistirlos en PostgreSQL
+ *
+ * Eventos:
+ * - speeding:ended - Crear registro en speeding_events con el episodio completo
+ *
+ * speeding:started no se persiste: es un aviso en vivo y el episodio recién tiene
+ * fin, duración y distancia con speeding:ended.
+ */
+@Injectable()
+export class SpeedingPersistenceService implements OnModuleInit {
+  private readonly logger = new Logger(SpeedingPersistenceService.name);
+  private subscriber: any; // Redis client para suscripciones
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly speedingEventRepository: SpeedingEventRepository,
+    private readonly eventQueueManager: DeviceEventQueueManager,
+    private readonly clusterService: ClusterService,
+  ) {}
+
+  /**
+   * Al iniciar el módulo, suscribirse a excesos de velocidad
+   */
+  async onModuleInit() {
+    await this.subscribeToSpeedingEvents();
+  }
+
+  /**
+   * Suscribirse a excesos de velocidad via Redis PubSub
+   */
+  private async subscribeToSpeedingEvents(): Promise<void> {
+    try {
+      this.logger.log('Suscribiéndose a excesos de velocidad...');
+
+      this.subscriber = this.redisService.createSubscriber();
+
+      const speedingEndedChannel = this.redisService.getPrefixedChannel(
+        REDIS_CHANNELS.SPEEDING_ENDED,
+      );
+
+      this.subscriber.on(
+        'message',
+        async (channel: string, message: string) => {
+          try {
+            const event = JSON.parse(message);
+            const deviceId = event.deviceId;
+
+            if (!deviceId) {
+              this.logger.warn(`Event without deviceId on channel ${channel}`);
+              return;
+            }
+
+            // Modo multi-instancia: persiste solo la instancia dueña del device
+            if (!(await this.clusterService.ownsDevice(deviceId))) {
+              return;
+            }
+
+            if (channel === speedingEndedChannel) {
+              await this.eventQueueManager.enqueue(deviceId, async () => {
+                await this.handleSpeedingEnded(message);
+              });
+            }
+          } catch (error) {
+            this.logger.error(
+              `Error enqueuing event from channel ${channel}`,
+              error.stack,
+            );
+          }
+        },
+      );
+
+      await this.subscriber.subscribe(speedingEndedChannel);
+
+      this.logger.log(`Suscrito a eventos: ${speedingEndedChannel}`);
+    } catch (error) {
+      this.logger.error(
+        'Error suscribiéndose a excesos de velocidad',
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Maneja evento speeding:ended
+   * Crea el registro del episodio
+   */
+  async handleSpeedingEnded(message: string): Promise<void> {
+    try {
+      const event: ISpeedingEndedEvent = JSON.parse(message);
+      await this.saveSpeedingEnded(event);
+    } catch (error) {
+      this.logger.error(
+        `Error creando speeding en BD: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Crea el registro del episodio
+   * PÚBLICO: también lo usa ReplayService (manager: su transacción). Los errores se propagan.
+   */
+  async saveSpeedingEnded(
+    event: ISpeedingEndedEvent,
+    manager?: EntityManager,
+  ): Promise<void> {
+    const existing = await this.speedingEventRepository.findById(
+      event.speedingId,
+      manager,
+    );
+    if (existing) {
+      this.logger.warn(
+        `Speeding ${event.speedingId} ya existe en BD, ignorando evento duplicado`,
+      );
+      return;
+    }
+
+    const [startLon, startLat] = event.startLocation.coordinates;
+    const [endLon, endLat] = event.endLocation.coordinates;
+
+    await this.speedingEventRepository.create(
+      {
+        id: event.speedingId,
+        trip_id: event.tripId,
+        id_activo: event.deviceId,
+        start_time: new Date(event.startTime),
+        end_time: new Date(event.endTime),
+        duration: event.duration,
+        distance: event.distance,
+        max_speed: event.maxSpeed,
+        speed_limit: event.speedLimit,
+        geofence_id: event.geofenceId ?? null,
+        start_lat: startLat,
+        start_lon: startLon,
+        end_lat: endLat,
+        end_lon: endLon,
+        metadata: event.metadata ?? null,
+      },
+      manager,
+    );
+
+    this.logger.debug(
+      `Speeding ${event.speedingId} creado en BD para trip ${event.tripId}`,
+    );
+  }
+
+  /**
+   * Cleanup al destruir el servicio
+   */
+  async onModuleDestroy() {
+    if (this.subscriber) {
+      await this.subscriber.quit();
+    }
+  }
+}
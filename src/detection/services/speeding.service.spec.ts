@@ -0,0 +1,182 @@
+import { SpeedingService, ISpeedLimit } from './speeding.service';
+import { DistanceValidatorService } from './distance-validator.service';
+import { GeofenceService } from './geofence.service';
+import { DEFAULT_THRESHOLDS, IDetectionThresholds } from '../models';
+import { IPositionEvent } from '../../interfaces';
+import { Geofence } from '../../database/entities';
+
+const T0 = Date.parse('2025-01-10T12:00:00Z');
+const TRIP = 'trip_DEV-1_1';
+const LIMIT: ISpeedLimit = { speedLimit: 80 };
+
+// Posición a los `seconds` segundos, ~28m al norte por segundo (≈ 100 km/h)
+const position = (
+  seconds: number,
+  speed: number,
+  o: Partial<IPositionEvent> = {},
+): IPositionEvent => ({
+  deviceId: 'DEV-1',
+  timestamp: T0 + seconds * 1000,
+  latitude: -34.6 + seconds * 0.00025,
+  longitude: -58.4,
+  speed,
+  ignition: true,
+  metadata: { fleet_id: 'trucks' },
+  ...o,
+});
+
+describe('SpeedingService', () => {
+  const findSpeedLimit = jest.fn();
+  const service = new SpeedingService(new DistanceValidatorService(), {
+    findSpeedLimit,
+  } as unknown as GeofenceService);
+
+  it('resolves the smallest geofence limit before the profile limit', () => {
+    const thresholds: IDetectionThresholds = {
+      ...DEFAULT_THRESHOLDS,
+      speedLimit: 100,
+    };
+
+    findSpeedLimit.mockReturnValueOnce({
+      id: 'school-zone',
+      speed_limit: 30,
+    } as Geofence);
+    expect(service.resolveSpeedLimit(['school-zone'], thresholds)).toEqual({
+      speedLimit: 30,
+      geofenceId: 'school-zone',
+    });
+
+    findSpeedLimit.mockReturnValueOnce(null);
+    expect(service.resolveSpeedLimit([], thresholds)).toEqual({
+      speedLimit: 100,
+    });
+
+    // speedLimit 0 en el perfil: sin límite
+    findSpeedLimit.mockReturnValueOnce(null);
+    expect(service.resolveSpeedLimit([], DEFAULT_THRESHOLDS)).toBeNull();
+  });
+
+  it('confirms an episode after speedingMinDuration and ends it back within the limit', () => {
+    // 0s: empieza el episodio, todavía sin evento
+    let update = service.evaluate(
+      position(0, 95),
+      undefined,
+      TRIP,
+      LIMIT,
+      DEFAULT_THRESHOLDS,
+    );
+    expect(update.started).toBeUndefined();
+    expect(update.episode).toMatchObject({
+      speedingId: `speeding_DEV-1_${T0}`,
+      confirmed: false,
+    });
+
+    // 10s: supera speedingMinDuration → speeding:started con el inicio del episodio
+    update = service.evaluate(
+      position(10, 110),
+      update.episode,
+      TRIP,
+      LIMIT,
+      DEFAULT_THRESHOLDS,
+    );
+    expect(update.started).toMatchObject({
+      speedingId: `speeding_DEV-1_${T0}`,
+      tripId: TRIP,
+      startTime: new Date(T0).toISOString(),
+      speed: 110,
+      speedLimit: 80,
+      metadata: { fleet_id: 'trucks' },
+    });
+
+    // 20s: vuelve al límite → speeding:ended en esta posición
+    update = service.evaluate(
+      position(20, 70),
+      update.episode,
+      TRIP,
+      LIMIT,
+      DEFAULT_THRESHOLDS,
+    );
+    expect(update.episode).toBeUndefined();
+    expect(update.ended).toMatchObject({
+      speedingId: `speeding_DEV-1_${T0}`,
+      endTime: new Date(T0 + 20000).toISOString(),
+      duration: 20,
+      maxSpeed: 110,
+      speedLimit: 80,
+    });
+    expect(update.ended!.distance).toBeGreaterThan(500);
+    expect(update.ended!.distance).toBeLessThan(600);
+  });
+
+  it('drops single-position spikes and closes at the last position when the trip ends', () => {
+    // Un solo reporte por encima del límite: se descarta sin eventos
+    const spike = service.evaluate(
+      position(0, 120),
+      undefined,
+      TRIP,
+      LIMIT,
+      DEFAULT_THRESHOLDS,
+    );
+    const after = service.evaluate(
+      position(30, 60),
+      spike.episode,
+      TRIP,
+      LIMIT,
+      DEFAULT_THRESHOLDS,
+    );
+    expect(after).toEqual({ episode: undefined });
+
+    // Episodio confirmado cuyo trip termina: cierra en su última posición excedida
+    const confirmed = service.evaluate(
+      position(15, 100),
+      spike.episode,
+      TRIP,
+      LIMIT,
+      DEFAULT_THRESHOLDS,
+    );
+    const closed = service.evaluate(
+      position(25, 100),
+      confirmed.episode,
+      undefined,
+      null,
+      DEFAULT_THRESHOLDS,
+    );
+    expect(closed.episode).toBeUndefined();
+    expect(closed.ended).toMatchObject({
+      endTime: new Date(T0 + 15000).toISOString(),
+      duration: 15,
+    });
+  });
+
+  it('restarts the episode when the limit changes while still speeding', () => {
+    const episode = service.evaluate(
+      position(10, 90),
+      service.evaluate(
+        position(0, 90),
+        undefined,
+        TRIP,
+        LIMIT,
+        DEFAULT_THRESHOLDS,
+      ).episode,
+      TRIP,
+      LIMIT,
+      DEFAULT_THRESHOLDS,
+    ).episode;
+
+    // Entra a una zona de 60 km/h a 90 km/h: termina un episodio y empieza otro
+    const update = service.evaluate(
+      position(12, 90),
+      episode,
+      TRIP,
+      { speedLimit: 60, geofenceId: 'zone' },
+      { ...DEFAULT_THRESHOLDS, speedingMinDuration: 0 },
+    );
+
+    expect(update.ended).toMatchObject({ speedLimit: 80, duration: 12 });
+    expect(update.started).toMatchObject({
+      speedingId: `speeding_DEV-1_${T0 + 12000}`,
+      speedLimit: 60,
+      geofenceId: 'zone',
+    });
+  });
+});
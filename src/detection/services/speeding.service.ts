@@ -0,0 +1,207 @@
+import { Injectable } from '@nestjs/common';
+import { IDetectionThresholds, ISpeedingEpisode } from '../models';
+import {
+  IPositionEvent,
+  ISpeedingStartedEvent,
+  ISpeedingEndedEvent,
+} from '../../interfaces';
+import { DistanceValidatorService } from './distance-validator.service';
+import { GeofenceService } from './geofence.service';
+
+/**
+ * Límite de velocidad vigente para una posición
+ */
+export interface ISpeedLimit {
+  speedLimit: number; // km/h
+  geofenceId?: string; // Geocerca de la que sale (sin geocerca: perfil del device)
+}
+
+/**
+ * Resultado de evaluar una posición: episodio en curso y eventos a publicar
+ * (primero ended y después started: al cambiar el límite termina un episodio y
+ * empieza otro en la misma posición)
+ */
+export interface ISpeedingUpdate {
+  episode?: ISpeedingEpisode;
+  started?: ISpeedingStartedEvent;
+  ended?: ISpeedingEndedEvent;
+}
+
+/**
+ * Servicio que detecta excesos de velocidad dentro de los trips
+ *
+ * - El límite sale de la geocerca más chica con speed_limit que contiene la posición,
+ *   o del perfil de umbrales del device/flota (speedLimit, 0 = sin límite).
+ * - Un episodio empieza en la primera posición por encima del límite y termina en la
+ *   primera que vuelve a estar dentro (o al cambiar el límite). Si termina el trip o
+ *   se corta el reporte (maxGapDuration), termina en su última posición excedida.
+ * - speeding:started se publica recién cuando el episodio supera speedingMinDuration;
+ *   los episodios más cortos (picos de una posición) se descartan sin eventos.
+ */
+@Injectable()
+export class SpeedingService {
+  constructor(
+    private readonly distanceValidator: DistanceValidatorService,
+    private readonly geofences: GeofenceService,
+  ) {}
+
+  /**
+   * Límite vigente para la posición, o null si no hay límite
+   *
+   * @param geofenceIds Geocercas que contienen la posición
+   */
+  resolveSpeedLimit(
+    geofenceIds: string[],
+    thresholds: IDetectionThresholds,
+  ): ISpeedLimit | null {
+    const geofence = this.geofences.findSpeedLimit(geofenceIds);
+    if (geofence?.speed_limit) {
+      return { speedLimit: geofence.speed_limit, geofenceId: geofence.id };
+    }
+
+    return thresholds.speedLimit > 0
+      ? { speedLimit: thresholds.speedLimit }
+      : null;
+  }
+
+  /**
+   * Evalúa la posición contra el episodio en curso (guardado en device:state)
+   *
+   * @param tripId Trip confirmado al que pertenece la posición (sin trip no hay excesos)
+   */
+  evaluate(
+    position: IPositionEvent,
+    episode: ISpeedingEpisode | undefined,
+    tripId: string | undefined,
+    limit: ISpeedLimit | null,
+    thresholds: IDetectionThresholds,
+  ): ISpeedingUpdate {
+    const update: ISpeedingUpdate = {};
+    let current = episode;
+
+    if (current) {
+      const gap = (position.timestamp - current.lastTimestamp) / 1000;
+
+      if (current.tripId !== tripId || gap > thresholds.maxGapDuration) {
+        // Sin datos del tramo: termina en la última posición excedida
+        update.ended = this.buildEnded(current, position.deviceId);
+        current = undefined;
+      } else {
+        current = this.extend(current, position);
+
+        const limitChanged =
+          !limit ||
+          limit.speedLimit !== current.speedLimit ||
+          limit.geofenceId !== current.geofenceId;
+
+        if (limitChanged || position.speed <= current.speedLimit) {
+          update.ended = this.buildEnded(current, position.deviceId);
+          current = undefined;
+        }
+      }
+    }
+
+    if (!current && tripId && limit && position.speed > limit.speedLimit) {
+      current = {
+        speedingId: `speeding_${position.deviceId}_${position.timestamp}`,
+        tripId,
+        speedLimit: limit.speedLimit,
+        geofenceId: limit.geofenceId,
+        startTime: position.timestamp,
+        startLat: position.latitude,
+        startLon: position.longitude,
+        lastTimestamp: position.timestamp,
+        lastLat: position.latitude,
+        lastLon: position.longitude,
+        maxSpeed: position.speed,
+        distance: 0,
+        confirmed: false,
+        metadata: position.metadata,
+      };
+    }
+
+    if (
+      current &&
+      !current.confirmed &&
+      (current.lastTimestamp - current.startTime) / 1000 >=
+        thresholds.speedingMinDuration
+    ) {
+      current.confirmed = true;
+      update.started = {
+        speedingId: current.speedingId,
+        tripId: current.tripId,
+        deviceId: position.deviceId,
+        startTime: new Date(current.startTime).toISOString(),
+        location: {
+          type: 'Point',
+          coordinates: [current.startLon, current.startLat],
+        },
+        speed: position.speed,
+        speedLimit: current.speedLimit,
+        geofenceId: current.geofenceId,
+        metadata: current.metadata,
+      };
+    }
+
+    update.episode = current;
+    return update;
+  }
+
+  /**
+   * Suma el tramo hasta la posición al episodio
+   */
+  private extend(
+    episode: ISpeedingEpisode,
+    position: IPositionEvent,
+  ): ISpeedingEpisode {
+    return {
+      ...episode,
+      lastTimestamp: position.timestamp,
+      lastLat: position.latitude,
+      lastLon: position.longitude,
+      maxSpeed: Math.max(episode.maxSpeed, position.speed),
+      distance:
+        episode.distance +
+        this.distanceValidator.haversineDistance(
+          episode.lastLat,
+          episode.lastLon,
+          position.latitude,
+          position.longitude,
+        ),
+    };
+  }
+
+  /**
+   * speeding:ended del episodio, o undefined si nunca se confirmó
+   */
+  private buildEnded(
+    episode: ISpeedingEpisode,
+    deviceId: string,
+  ): ISpeedingEndedEvent | undefined {
+    if (!episode.confirmed) {
+      return undefined;
+    }
+
+    return {
+      speedingId: episode.speedingId,
+      tripId: episode.tripId,
+      deviceId,
+      startTime: new Date(episode.startTime).toISOString(),
+      endTime: new Date(episode.lastTimestamp).toISOString(),
+      duration: Math.round((episode.lastTimestamp - episode.startTime) / 1000),
+      distance: Math.round(episode.distance),
+      maxSpeed: Math.round(episode.maxSpeed),
+      speedLimit: episode.speedLimit,
+      geofenceId: episode.geofenceId,
+      startLocation: {
+        type: 'Point',
+        coordinates: [episode.startLon, episode.startLat],
+      },
+      endLocation: {
+        type: 'Point',
+        coordinates: [episode.lastLon, episode.lastLat],
+      },
+      metadata: episode.metadata,
+    };
+  }
+}
@@ -7,7 +7,10 @@ import {
   DEFAULT_THRESHOLDS,
 } from '../models';
 import { IPositionEvent } from '../../interfaces';
-import { DistanceValidatorService } from './distance-validator.service';
+import {
+  DistanceValidatorService,
+  ITripContext,
+} from './distance-validator.service';
 import { IGNITION_EXPIRY_DAYS } from '../../env';
 
 export interface IIgnitionContext {
@@ -15,6 +18,26 @@ export interface IIgnitionContext {
   lastIgnitionSeenAt?: Date;
 }
 
+/**
+ * Contexto del trip en curso para la detección de ruido GPS, armado desde el estado
+ * del device. También lo usa DrivingBehaviorService para validar los mismos segmentos.
+ */
+export const buildTripContext = (state: IDeviceMotionState): ITripContext => ({
+  startLat: state.tripStartLat || state.lastLat,
+  startLon: state.tripStartLon || state.lastLon,
+  currentDistance: state.tripDistance || 0,
+  startTime: state.tripStartTime || state.lastTimestamp,
+  maxDistanceFromOrigin: state.tripMaxDistanceFromOrigin || 0,
+  boundingBox: state.tripBoundingBox || {
+    minLat: state.tripStartLat || state.lastLat,
+    maxLat: state.tripStartLat || state.lastLat,
+    minLon: state.tripStartLon || state.lastLon,
+    maxLon: state.tripStartLon || state.lastLon,
+  },
+  speedSum: state.tripSpeedSum || 0,
+  positionCount: state.tripPositionCount || 0,
+});
+
 /**
  * Resultado de procesar una posición
  */
@@ -47,6 +70,7 @@ export interface IStateTransitionResult {
     maxSpeed: number;
     stopsCount: number;
     confirmed?: boolean; // true si el trip fue publicado a BD
+    driverId?: string;
   };
 
   // Datos del stop anterior (para cerrar correctamente cuando la misma transición
@@ -94,49 +118,72 @@ export interface IStateTransitionResult {
 @Injectable()
 export class StateMachineService {
   private readonly logger = new Logger(StateMachineService.name);
-  private readonly thresholds: IDetectionThresholds = DEFAULT_THRESHOLDS;
 
   constructor(private readonly distanceValidator: DistanceValidatorService) {}
 
   /**
    * Procesa una nueva posición y determina el nuevo estado
+   *
+   * @param thresholds Umbrales del perfil resuelto para el device (DEFAULT_THRESHOLDS si no tiene)
+   * @param driverId Conductor de la posición (metadata o asignación), si se conoce
    */
   processPosition(
     position: IPositionEvent,
     currentState: IDeviceMotionState | null,
     ignitionContext?: IIgnitionContext,
+    thresholds: IDetectionThresholds = DEFAULT_THRESHOLDS,
+    driverId?: string,
   ): IStateTransitionResult {
     // Si no hay estado previo, crear uno inicial
     if (!currentState) {
-      return this.handleFirstPosition(position, ignitionContext);
+      return this.handleFirstPosition(position, thresholds, ignitionContext);
     }
 
     // Validar gap temporal
     const gap = position.timestamp - currentState.lastTimestamp;
-    if (gap > this.thresholds.maxGapDuration * 1000) {
+    if (gap > thresholds.maxGapDuration * 1000) {
       this.logger.warn(
         `Large time gap detected for device ${position.deviceId}: ${gap}ms`,
       );
-      return this.handleLargeGap(position, currentState, ignitionContext);
+      return this.handleLargeGap(
+        position,
+        currentState,
+        thresholds,
+        ignitionContext,
+      );
     }
 
     // Determinar nuevo estado basado en ignición y velocidad
     const newState = this.determineState(
       position,
       currentState,
+      thresholds,
       ignitionContext,
     );
     const previousState = currentState.state;
     const transitionOccurred = newState !== previousState;
 
     // Actualizar estado
-    const updatedState = this.updateState(position, currentState, newState);
+    const updatedState = this.updateState(
+      position,
+      currentState,
+      newState,
+      thresholds,
+    );
 
     // Determinar acciones
     const actions = this.determineActions(
       previousState,
       newState,
       updatedState,
+      thresholds,
+    );
+    this.splitTripOnDriverChange(
+      newState,
+      updatedState,
+      actions,
+      thresholds,
+      driverId,
     );
 
     return this.applyTransition(
@@ -194,6 +241,7 @@ export class StateMachineService {
         maxSpeed: updatedState.tripMaxSpeed || 0,
         stopsCount: updatedState.tripStopsCount || 0,
         confirmed: updatedState.tripConfirmed || false,
+        driverId: updatedState.tripDriverId,
       };
     }
 
@@ -302,16 +350,17 @@ export class StateMachineService {
    */
   private handleFirstPosition(
     position: IPositionEvent,
+    thresholds: IDetectionThresholds,
     ignitionContext?: IIgnitionContext,
   ): IStateTransitionResult {
-    const useIgnition = this.shouldUseIgnition(ignitionContext);
+    const useIgnition = this.shouldUseIgnition(position, ignitionContext);
     const state: MotionState = useIgnition
       ? position.ignition
-        ? position.speed >= this.thresholds.minMovingSpeed
+        ? position.speed >= thresholds.minMovingSpeed
           ? MotionState.MOVING
           : MotionState.IDLE
         : MotionState.STOPPED
-      : position.speed >= this.thresholds.minMovingSpeed
+      : position.speed >= thresholds.minMovingSpeed
         ? MotionState.MOVING
         : MotionState.STOPPED;
 
@@ -323,6 +372,7 @@ export class StateMachineService {
       lastLat: position.latitude,
       lastLon: position.longitude,
       lastSpeed: position.speed,
+      lastHeading: position.heading,
       lastIgnition: position.ignition ?? false,
       lastUpdate: Date.now(),
       version: 1,
@@ -409,14 +459,15 @@ export class StateMachineService {
   private determineState(
     position: IPositionEvent,
     currentState: IDeviceMotionState,
+    thresholds: IDetectionThresholds,
     ignitionContext?: IIgnitionContext,
   ): MotionState {
-    const useIgnition = this.shouldUseIgnition(ignitionContext);
+    const useIgnition = this.shouldUseIgnition(position, ignitionContext);
 
     // Velocidad EFECTIVA = max(speed reportado, velocidad implícita por GPS).
     // Colchón para trackers que reportan speed=0 estando en movimiento: si el desplazamiento
     // GPS entre posiciones implica una velocidad mayor, se usa esa. Evita paradas fantasma.
-    const effSpeed = this.effectiveSpeed(position, currentState);
+    const effSpeed = this.effectiveSpeed(position, currentState, thresholds);
 
     const cameFromStop =
       currentState.state === MotionState.STOPPED ||
@@ -434,8 +485,8 @@ export class StateMachineService {
 
     if (!useIgnition) {
       // Motion-only: decidir solo por velocidad
-      const isMoving = effSpeed >= this.thresholds.minMovingSpeed;
-      const isMovingByAvg = avgSpeed >= this.thresholds.minMovingSpeed;
+      const isMoving = effSpeed >= thresholds.minMovingSpeed;
+      const isMovingByAvg = avgSpeed >= thresholds.minMovingSpeed;
 
       // Reanudación responsiva: si venimos de detenido y hay movimiento instantáneo claro,
       // pasar a MOVING ya (sin esperar el promedio). Cierra el stop cuando el vehículo
@@ -454,8 +505,8 @@ export class StateMachineService {
     // ignition_off mientras el auto va a 90 km/h.
     if (!position.ignition) {
       if (
-        effSpeed >= this.thresholds.minMovingSpeed &&
-        avgSpeed >= this.thresholds.minMovingSpeed
+        effSpeed >= thresholds.minMovingSpeed &&
+        avgSpeed >= thresholds.minMovingSpeed
       ) {
         return MotionState.MOVING;
       }
@@ -463,8 +514,8 @@ export class StateMachineService {
     }
 
     // Ignición ON - evaluar velocidad
-    const isMoving = effSpeed >= this.thresholds.minMovingSpeed;
-    const isMovingByAvg = avgSpeed >= this.thresholds.minMovingSpeed;
+    const isMoving = effSpeed >= thresholds.minMovingSpeed;
+    const isMovingByAvg = avgSpeed >= thresholds.minMovingSpeed;
 
     // Reanudación responsiva desde detenido (ver nota en la rama motion-only).
     if (cameFromStop && isMoving) return MotionState.MOVING;
@@ -482,6 +533,7 @@ export class StateMachineService {
   private effectiveSpeed(
     position: IPositionEvent,
     currentState: IDeviceMotionState,
+    thresholds: IDetectionThresholds,
   ): number {
     const dt = (position.timestamp - currentState.lastTimestamp) / 1000;
     if (dt <= 0 || dt > 300) return position.speed;
@@ -492,7 +544,7 @@ export class StateMachineService {
       position.longitude,
     );
     const impliedKmh = (dist / dt) * 3.6;
-    if (impliedKmh > this.thresholds.minMovingSpeed && impliedKmh <= 200) {
+    if (impliedKmh > thresholds.minMovingSpeed && impliedKmh <= 200) {
       return Math.max(position.speed, impliedKmh);
     }
     return position.speed;
@@ -503,13 +555,18 @@ export class StateMachineService {
    * Usa ignition-first solo si el device tuvo ignición Y la última vez
    * que llegó ignition=true fue dentro del período de expiración configurado.
    */
-  private shouldUseIgnition(ignitionContext?: IIgnitionContext): boolean {
+  private shouldUseIgnition(
+    position: IPositionEvent,
+    ignitionContext?: IIgnitionContext,
+  ): boolean {
     if (!ignitionContext?.hasIgnition) return false;
     if (!ignitionContext.lastIgnitionSeenAt) return false;
 
+    // Se mide contra el timestamp de la posición (no Date.now()): en vivo es equivalente,
+    // y al reprocesar posiciones históricas (replay) se decide igual que cuando llegaron.
     const expiryMs = IGNITION_EXPIRY_DAYS * 24 * 60 * 60 * 1000;
     const lastSeen = new Date(ignitionContext.lastIgnitionSeenAt);
-    const elapsed = Date.now() - lastSeen.getTime();
+    const elapsed = position.timestamp - lastSeen.getTime();
     return elapsed < expiryMs;
   }
 
@@ -520,6 +577,7 @@ export class StateMachineService {
     position: IPositionEvent,
     currentState: IDeviceMotionState,
     newState: MotionState,
+    thresholds: IDetectionThresholds,
   ): IDeviceMotionState {
     // Actualizar buffer de posiciones recientes.
     // Se guarda la velocidad EFECTIVA (max reportado / implícita GPS) para que los promedios
@@ -530,13 +588,13 @@ export class StateMachineService {
         timestamp: position.timestamp,
         lat: position.latitude,
         lon: position.longitude,
-        speed: this.effectiveSpeed(position, currentState),
+        speed: this.effectiveSpeed(position, currentState, thresholds),
         ignition: position.ignition ?? false,
       },
     ];
 
     // Mantener solo las últimas N posiciones
-    if (recentPositions.length > this.thresholds.positionBufferSize) {
+    if (recentPositions.length > thresholds.positionBufferSize) {
       recentPositions.shift();
     }
 
@@ -553,6 +611,7 @@ export class StateMachineService {
       lastLat: position.latitude,
       lastLon: position.longitude,
       lastSpeed: position.speed,
+      lastHeading: position.heading,
       lastIgnition: position.ignition ?? false,
       speedAvg30s,
       speedAvg1min,
@@ -565,21 +624,7 @@ export class StateMachineService {
     // Si hay trip activo, actualizar métricas
     if (currentState.currentTripId) {
       // Construir contexto del trip para detección de ruido GPS
-      const tripContext = {
-        startLat: currentState.tripStartLat || currentState.lastLat,
-        startLon: currentState.tripStartLon || currentState.lastLon,
-        currentDistance: currentState.tripDistance || 0,
-        startTime: currentState.tripStartTime || currentState.lastTimestamp,
-        maxDistanceFromOrigin: currentState.tripMaxDistanceFromOrigin || 0,
-        boundingBox: currentState.tripBoundingBox || {
-          minLat: currentState.tripStartLat || currentState.lastLat,
-          maxLat: currentState.tripStartLat || currentState.lastLat,
-          minLon: currentState.tripStartLon || currentState.lastLon,
-          maxLon: currentState.tripStartLon || currentState.lastLon,
-        },
-        speedSum: currentState.tripSpeedSum || 0,
-        positionCount: currentState.tripPositionCount || 0,
-      };
+      const tripContext = buildTripContext(currentState);
 
       // Validar segmento GPS (detecta ruido GPS)
       const validation = this.distanceValidator.validateSegment(
@@ -669,6 +714,7 @@ export class StateMachineService {
     previousState: MotionState,
     newState: MotionState,
     updatedState: IDeviceMotionState,
+    thresholds: IDetectionThresholds,
   ): IStateTransitionResult['actions'] {
     const actions: IStateTransitionResult['actions'] = {
       startTrip: false,
@@ -698,7 +744,7 @@ export class StateMachineService {
       // Esto evita sobre-segmentación de trips por paradas cortas (ej: semáforos, entregas rápidas, etc.)
       const shouldStartNewTrip =
         !updatedState.currentTripId ||
-        stopDuration >= this.thresholds.minStopDuration;
+        stopDuration >= thresholds.minStopDuration;
 
       if (shouldStartNewTrip) {
         // Si había un trip activo previo, finalizarlo antes de crear uno nuevo
@@ -710,8 +756,8 @@ export class StateMachineService {
 
           // Validar si el trip cumple con los mínimos para ser guardado
           if (
-            tripDuration >= this.thresholds.minTripDuration &&
-            tripDistance >= this.thresholds.minTripDistance
+            tripDuration >= thresholds.minTripDuration &&
+            tripDistance >= thresholds.minTripDistance
           ) {
             actions.endTrip = true;
             this.logger.log(
@@ -728,12 +774,12 @@ export class StateMachineService {
 
         actions.startTrip = true;
         this.logger.log(
-          `Starting new trip for device ${updatedState.deviceId} after ${Math.round(stopDuration)}s stop (>= ${this.thresholds.minStopDuration}s threshold)`,
+          `Starting new trip for device ${updatedState.deviceId} after ${Math.round(stopDuration)}s stop (>= ${thresholds.minStopDuration}s threshold)`,
         );
       } else {
         // Stop muy corto - NO crear nuevo trip, continuar el actual
         this.logger.debug(
-          `Continuing trip for device ${updatedState.deviceId} after short ${Math.round(stopDuration)}s stop (< ${this.thresholds.minStopDuration}s threshold)`,
+          `Continuing trip for device ${updatedState.deviceId} after short ${Math.round(stopDuration)}s stop (< ${thresholds.minStopDuration}s threshold)`,
         );
       }
 
@@ -753,7 +799,7 @@ export class StateMachineService {
       actions.startStop = true;
 
       this.logger.debug(
-        `Vehicle stopped for device ${updatedState.deviceId}, trip continues (will close if stop >= ${this.thresholds.minStopDuration}s)`,
+        `Vehicle stopped for device ${updatedState.deviceId}, trip continues (will close if stop >= ${thresholds.minStopDuration}s)`,
       );
     }
 
@@ -801,7 +847,7 @@ export class StateMachineService {
       const idleDuration =
         (updatedState.lastTimestamp - updatedState.stateStartTime) / 1000;
 
-      if (idleDuration >= this.thresholds.maxIdleDuration) {
+      if (idleDuration >= thresholds.maxIdleDuration) {
         const tripDuration =
           (updatedState.lastTimestamp - (updatedState.tripStartTime || 0)) /
           1000;
@@ -809,14 +855,14 @@ export class StateMachineService {
 
         // Validar si el trip cumple con los mínimos para ser guardado
         if (
-          tripDuration >= this.thresholds.minTripDuration &&
-          tripDistance >= this.thresholds.minTripDistance
+          tripDuration >= thresholds.minTripDuration &&
+          tripDistance >= thresholds.minTripDistance
         ) {
           actions.endTrip = true;
           this.logger.log(
             `Closing trip for device ${updatedState.deviceId} after ${Math.round(idleDuration)}s IDLE: ` +
               `duration=${tripDuration.toFixed(1)}s, distance=${Math.round(tripDistance)}m ` +
-              `(maxIdleDuration=${this.thresholds.maxIdleDuration}s exceeded)`,
+              `(maxIdleDuration=${thresholds.maxIdleDuration}s exceeded)`,
           );
         } else {
           // Trip muy corto, marcarlo para cerrar sin guardar
@@ -851,19 +897,19 @@ export class StateMachineService {
     ) {
       const parkedSec =
         (updatedState.lastTimestamp - updatedState.stopStartTime) / 1000;
-      if (parkedSec >= this.thresholds.minStopDuration) {
+      if (parkedSec >= thresholds.minStopDuration) {
         const tripDuration =
           (updatedState.stopStartTime - (updatedState.tripStartTime || 0)) /
           1000;
         const tripDistance = updatedState.tripDistance || 0;
         if (
-          tripDuration >= this.thresholds.minTripDuration &&
-          tripDistance >= this.thresholds.minTripDistance
+          tripDuration >= thresholds.minTripDuration &&
+          tripDistance >= thresholds.minTripDistance
         ) {
           actions.endTrip = true;
           this.logger.log(
             `Closing trip for device ${updatedState.deviceId} at parking start ` +
-              `(stopped ${Math.round(parkedSec)}s >= ${this.thresholds.minStopDuration}s): ` +
+              `(stopped ${Math.round(parkedSec)}s >= ${thresholds.minStopDuration}s): ` +
               `trip duration=${tripDuration.toFixed(0)}s, distance=${Math.round(tripDistance)}m`,
           );
         } else {
@@ -875,6 +921,57 @@ export class StateMachineService {
     return actions;
   }
 
+  /**
+   * Cambio de conductor con el vehículo en movimiento: el trip en curso se cierra y
+   * arranca uno nuevo para el conductor nuevo (p. ej. cambio de turno en una parada
+   * más corta que minStopDuration, que de otro modo continuaría el mismo trip).
+   *
+   * Si la parada estaba abierta, el trip viejo termina en su inicio (tripClosure).
+   * Un trip sin conductor adopta el primero que aparece (no se parte).
+   */
+  private splitTripOnDriverChange(
+    newState: MotionState,
+    updatedState: IDeviceMotionState,
+    actions: IStateTransitionResult['actions'],
+    thresholds: IDetectionThresholds,
+    driverId?: string,
+  ): void {
+    if (
+      newState !== MotionState.MOVING ||
+      !updatedState.currentTripId ||
+      !driverId ||
+      !updatedState.tripDriverId ||
+      driverId === updatedState.tripDriverId ||
+      actions.startTrip ||
+      actions.endTrip ||
+      actions.discardTrip
+    ) {
+      return;
+    }
+
+    const tripEndMs =
+      updatedState.currentStopId && updatedState.stopStartTime !== undefined
+        ? updatedState.stopStartTime
+        : updatedState.lastTimestamp;
+    const tripDuration = (tripEndMs - (updatedState.tripStartTime || 0)) / 1000;
+    const tripDistance = updatedState.tripDistance || 0;
+
+    if (
+      tripDuration >= thresholds.minTripDuration &&
+      tripDistance >= thresholds.minTripDistance
+    ) {
+      actions.endTrip = true;
+    } else {
+      actions.discardTrip = true;
+    }
+    actions.startTrip = true;
+
+    this.logger.log(
+      `Driver changed for device ${updatedState.deviceId} ` +
+        `(${updatedState.tripDriverId} → ${driverId}): splitting trip ${updatedState.currentTripId}`,
+    );
+  }
+
   /**
    * Maneja gaps temporales grandes (pérdida de señal GPS)
    *
@@ -886,20 +983,26 @@ export class StateMachineService {
   private handleLargeGap(
     position: IPositionEvent,
     currentState: IDeviceMotionState,
+    thresholds: IDetectionThresholds,
     ignitionContext?: IIgnitionContext,
   ): IStateTransitionResult {
     const gapDuration =
       (position.timestamp - currentState.lastTimestamp) / 1000;
-    const isOvernightGap =
-      gapDuration >= this.thresholds.maxOvernightGapDuration;
+    const isOvernightGap = gapDuration >= thresholds.maxOvernightGapDuration;
 
     const previousState = currentState.state;
     const newState = this.determineState(
       position,
       currentState,
+      thresholds,
       ignitionContext,
     );
-    const updatedState = this.updateState(position, currentState, newState);
+    const updatedState = this.updateState(
+      position,
+      currentState,
+      newState,
+      thresholds,
+    );
 
     // CLAVE: usar la MISMA lógica de transiciones que el flujo normal, NO resetear como
     // "primera posición". Si el vehículo sigue detenido a través del gap (reportes espaciados
@@ -911,6 +1014,7 @@ export class StateMachineService {
       previousState,
       newState,
       updatedState,
+      thresholds,
     );
 
     // Datos del inicio del silencio (última posición conocida antes del gap).
@@ -945,8 +1049,8 @@ export class StateMachineService {
       const tripDuration = (gapStartMs - (updatedState.tripStartTime || 0)) / 1000;
       const tripDistance = updatedState.tripDistance || 0;
       if (
-        tripDuration >= this.thresholds.minTripDuration &&
-        tripDistance >= this.thresholds.minTripDistance
+        tripDuration >= thresholds.minTripDuration &&
+        tripDistance >= thresholds.minTripDistance
       ) {
         actions.endTrip = true;
       } else {
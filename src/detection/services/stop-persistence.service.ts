@@ -1,8 +1,12 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { EntityManager } from 'typeorm';
 import { RedisService } from '../../auxiliares/redis/redis.service';
 import { GeocodeClientService } from '../../auxiliares/geocode/geocode-client.service';
+import { ClusterService } from '../../auxiliares/cluster/cluster.service';
 import { StopRepository } from '../../database/repositories/stop.repository';
 import { DeviceEventQueueManager } from './device-event-queue.manager';
+import { GeofenceService } from './geofence.service';
+import { PlaceService } from './place.service';
 import {
   IStopStartedEvent,
   IStopCompletedEvent,
@@ -26,6 +30,9 @@ export class StopPersistenceService implements OnModuleInit {
     private readonly stopRepository: StopRepository,
     private readonly eventQueueManager: DeviceEventQueueManager,
     private readonly geocode: GeocodeClientService,
+    private readonly geofences: GeofenceService,
+    private readonly places: PlaceService,
+    private readonly clusterService: ClusterService,
   ) {}
 
   /**
@@ -64,6 +71,11 @@ export class StopPersistenceService implements OnModuleInit {
               return;
             }
 
+            // Modo multi-instancia: persiste solo la instancia dueña del device
+            if (!(await this.clusterService.ownsDevice(deviceId))) {
+              return;
+            }
+
             // Encolar evento para procesamiento secuencial
             if (channel === stopStartedChannel) {
               await this.eventQueueManager.enqueue(deviceId, async () => {
@@ -100,102 +112,144 @@ export class StopPersistenceService implements OnModuleInit {
    * Maneja evento stop:started
    * Crea un nuevo registro de stop en la BD
    */
-  private async handleStopStarted(message: string): Promise<void> {
+  async handleStopStarted(message: string): Promise<void> {
     try {
       const event: IStopStartedEvent = JSON.parse(message);
+      await this.saveStopStarted(event);
+    } catch (error) {
+      this.logger.error(
+        `Error creando stop en BD: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
 
-      // Verificar si el stop ya existe (puede ocurrir al reiniciar el servicio)
-      const existing = await this.stopRepository.findById(event.stopId);
-      if (existing) {
-        this.logger.warn(
-          `Stop ${event.stopId} ya existe en BD, ignorando evento duplicado`,
-        );
-        return;
-      }
-
-      this.logger.debug(
-        `Creando stop ${event.stopId} para device ${event.deviceId}`,
+  /**
+   * Crea el registro del stop
+   * PÚBLICO: también lo usa ReplayService (manager: su transacción). Los errores se propagan.
+   */
+  async saveStopStarted(
+    event: IStopStartedEvent,
+    manager?: EntityManager,
+  ): Promise<void> {
+    // Verificar si el stop ya existe (puede ocurrir al reiniciar el servicio)
+    const existing = await this.stopRepository.findById(event.stopId, manager);
+    if (existing) {
+      this.logger.warn(
+        `Stop ${event.stopId} ya existe en BD, ignorando evento duplicado`,
       );
+      return;
+    }
+
+    this.logger.debug(
+      `Creando stop ${event.stopId} para device ${event.deviceId}`,
+    );
 
-      // Extraer lat/lon del formato GeoJSON [lon, lat]
-      const [longitude, latitude] = event.location.coordinates;
+    // Extraer lat/lon del formato GeoJSON [lon, lat]
+    const [longitude, latitude] = event.location.coordinates;
 
-      // Geocodificar la dirección una sola vez (al crear el stop), best-effort.
-      // Así las lecturas (getStops) no geocodifican.
-      const address = await this.geocode.reverse(latitude, longitude);
+    // Geocodificar la dirección una sola vez (al crear el stop), best-effort.
+    // Así las lecturas (getStops) no geocodifican.
+    const address = await this.geocode.reverse(latitude, longitude);
 
-      await this.stopRepository.create({
+    // Geocerca en la que cae el stop (para reportes por geocerca)
+    const geofence = this.geofences.findBestMatch(
+      latitude,
+      longitude,
+      event.metadata,
+    );
+
+    await this.stopRepository.create(
+      {
         id: event.stopId,
         id_activo: event.deviceId,
         start_time: new Date(event.startTime),
         latitude,
         longitude,
         address,
+        geofence_id: geofence?.id ?? null,
         reason: event.reason,
         trip_id: event.tripId,
         start_odometer: event.odometer,
+        start_engine_hours: event.engineHours ?? null,
+        driver_id: event.driverId ?? null,
         metadata: event.metadata,
-      });
+      },
+      manager,
+    );
 
-      this.logger.log(
-        `Stop ${event.stopId} creado en BD para device ${event.deviceId} (razón: ${event.reason})`,
-      );
+    this.logger.log(
+      `Stop ${event.stopId} creado en BD para device ${event.deviceId} (razón: ${event.reason})`,
+    );
+  }
+
+  /**
+   * Maneja evento stop:completed
+   * Actualiza el stop con datos finales
+   */
+  async handleStopCompleted(message: string): Promise<void> {
+    try {
+      const event: IStopCompletedEvent = JSON.parse(message);
+      await this.saveStopCompleted(event);
     } catch (error) {
       this.logger.error(
-        `Error creando stop en BD: ${error.message}`,
+        `Error completando stop en BD: ${error.message}`,
         error.stack,
       );
     }
   }
 
   /**
-   * Maneja evento stop:completed
-   * Actualiza el stop con datos finales
+   * Completa el stop con los datos finales
+   * PÚBLICO: también lo usa ReplayService (manager: su transacción). Los errores se propagan.
    */
-  private async handleStopCompleted(message: string): Promise<void> {
-    try {
-      const event: IStopCompletedEvent = JSON.parse(message);
+  async saveStopCompleted(
+    event: IStopCompletedEvent,
+    manager?: EntityManager,
+  ): Promise<void> {
+    this.logger.debug(
+      `Completando stop ${event.stopId} para device ${event.deviceId}`,
+    );
+
+    // Buscar stop por ID directo para evitar race conditions
+    // cuando hay múltiples stops sucesivos
+    const stop = await this.stopRepository.findById(event.stopId, manager);
+
+    if (!stop) {
+      this.logger.warn(`Stop ${event.stopId} no encontrado en BD`);
+      return;
+    }
 
-      this.logger.debug(
-        `Completando stop ${event.stopId} para device ${event.deviceId}`,
+    // Verificar que el stop pertenece al dispositivo correcto (seguridad)
+    if (stop.id_activo !== event.deviceId) {
+      this.logger.error(
+        `Stop ${event.stopId} pertenece a device ${stop.id_activo}, no a ${event.deviceId}`,
       );
+      return;
+    }
 
-      // Buscar stop por ID directo para evitar race conditions
-      // cuando hay múltiples stops sucesivos
-      const stop = await this.stopRepository.findById(event.stopId);
-
-      if (!stop) {
-        this.logger.warn(`Stop ${event.stopId} no encontrado en BD`);
-        return;
-      }
-
-      // Verificar que el stop pertenece al dispositivo correcto (seguridad)
-      if (stop.id_activo !== event.deviceId) {
-        this.logger.error(
-          `Stop ${event.stopId} pertenece a device ${stop.id_activo}, no a ${event.deviceId}`,
-        );
-        return;
-      }
-
-      // Actualizar con datos finales
-      await this.stopRepository.update(stop.id, {
+    // Actualizar con datos finales
+    await this.stopRepository.update(
+      stop.id,
+      {
         end_time: new Date(event.endTime),
         duration: event.duration,
         is_active: false,
         end_odometer: event.odometer,
+        end_engine_hours: event.engineHours ?? null,
+        // Lugar frecuente donde quedó detenido (se recalcula en cada agrupamiento)
+        place_id:
+          this.places.findPlace(stop.id_activo, stop.latitude, stop.longitude)
+            ?.id ?? null,
         metadata: event.metadata || stop.metadata || undefined,
-      });
+      },
+      manager,
+    );
 
-      this.logger.log(
-        `Stop ${stop.id} completado para device ${event.deviceId}: ` +
-          `${event.duration}s (${stop.latitude.toFixed(4)}, ${stop.longitude.toFixed(4)})`,
-      );
-    } catch (error) {
-      this.logger.error(
-        `Error completando stop en BD: ${error.message}`,
-        error.stack,
-      );
-    }
+    this.logger.log(
+      `Stop ${stop.id} completado para device ${event.deviceId}: ` +
+        `${event.duration}s (${stop.latitude.toFixed(4)}, ${stop.longitude.toFixed(4)})`,
+    );
   }
 
   /**
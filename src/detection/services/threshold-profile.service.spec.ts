@@ -0,0 +1,86 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ThresholdProfileService } from './threshold-profile.service';
+import { ThresholdProfileRepository } from '../../database/repositories/threshold-profile.repository';
+import { DEFAULT_THRESHOLDS } from '../models';
+
+/**
+ * Resolución de umbrales: device > flota > tenant > DEFAULT_THRESHOLDS,
+ * combinando el perfil sobre los valores por defecto.
+ */
+describe('ThresholdProfileService', () => {
+  let service: ThresholdProfileService;
+  let repository: {
+    findAll: jest.Mock;
+    findAllAssignments: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    repository = {
+      findAll: jest.fn().mockResolvedValue([
+        { id: 'p-motos', thresholds: { minMovingSpeed: 8 } },
+        { id: 'p-camiones', thresholds: { minStopDuration: 600 } },
+        { id: 'p-maquinas', thresholds: { maxIdleDuration: 7200 } },
+      ]),
+      findAllAssignments: jest.fn().mockResolvedValue([
+        { scope: 'device', scope_id: 'MOTO-1', profile_id: 'p-motos' },
+        { scope: 'fleet', scope_id: 'trucks', profile_id: 'p-camiones' },
+        { scope: 'tenant', scope_id: 'acme', profile_id: 'p-maquinas' },
+      ]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ThresholdProfileService,
+        { provide: ThresholdProfileRepository, useValue: repository },
+      ],
+    }).compile();
+
+    // Sin init(): no se arranca la recarga periódica
+    service = module.get(ThresholdProfileService);
+    await service.reload();
+  });
+
+  it('sin asignación usa DEFAULT_THRESHOLDS', () => {
+    expect(service.resolveThresholds('OTRO-1')).toBe(DEFAULT_THRESHOLDS);
+  });
+
+  it('el perfil del device se combina sobre los valores por defecto', () => {
+    expect(service.resolveThresholds('MOTO-1')).toEqual({
+      ...DEFAULT_THRESHOLDS,
+      minMovingSpeed: 8,
+    });
+  });
+
+  it('el device tiene prioridad sobre flota y tenant', () => {
+    const thresholds = service.resolveThresholds('MOTO-1', {
+      fleet_id: 'trucks',
+      tenant_id: 'acme',
+    });
+    expect(thresholds.minMovingSpeed).toBe(8);
+    expect(thresholds.minStopDuration).toBe(DEFAULT_THRESHOLDS.minStopDuration);
+  });
+
+  it('la flota tiene prioridad sobre el tenant', () => {
+    const thresholds = service.resolveThresholds('TRUCK-1', {
+      fleet_id: 'trucks',
+      tenant_id: 'acme',
+    });
+    expect(thresholds.minStopDuration).toBe(600);
+    expect(thresholds.maxIdleDuration).toBe(DEFAULT_THRESHOLDS.maxIdleDuration);
+  });
+
+  it('cae al perfil del tenant si la flota no tiene asignación', () => {
+    const thresholds = service.resolveThresholds('EXC-1', {
+      fleet_id: 'excavadoras',
+      tenant_id: 'acme',
+    });
+    expect(thresholds.maxIdleDuration).toBe(7200);
+  });
+
+  it('si la recarga falla conserva los perfiles cargados', async () => {
+    repository.findAll.mockRejectedValueOnce(new Error('db down'));
+    await service.reload();
+
+    expect(service.resolveThresholds('MOTO-1').minMovingSpeed).toBe(8);
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ThresholdProfileRepository } from '../../database/repositories/threshold-profile.repository';
+import { IDetectionThresholds, DEFAULT_THRESHOLDS } from '../models';
+import { THRESHOLD_PROFILES_REFRESH_MS } from '../../env';
+import { PeriodicCache } from '../../auxiliares/cache/periodic-cache';
+
+/**
+ * Servicio que resuelve los umbrales de detección de cada device
+ *
+ * Prioridad:
+ * 1. Perfil asignado al device
+ * 2. Perfil asignado a su flota (metadata.fleet_id de la posición)
+ * 3. Perfil asignado a su tenant (metadata.tenant_id de la posición)
+ * 4. DEFAULT_THRESHOLDS
+ *
+ * Los umbrales del perfil se combinan sobre DEFAULT_THRESHOLDS (un perfil solo
+ * define lo que cambia). Perfiles y asignaciones se mantienen en memoria para no
+ * consultar la BD por cada posición.
+ */
+@Injectable()
+export class ThresholdProfileService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ThresholdProfileService.name);
+  private readonly cache = new PeriodicCache(
+    'threshold profiles',
+    THRESHOLD_PROFILES_REFRESH_MS,
+    () => this.load(),
+    this.logger,
+  );
+
+  // profileId -> umbrales completos (ya combinados con DEFAULT_THRESHOLDS)
+  private profiles = new Map<string, IDetectionThresholds>();
+  // `${scope}:${scopeId}` -> profileId
+  private assignments = new Map<string, string>();
+
+  constructor(
+    private readonly thresholdProfileRepository: ThresholdProfileRepository,
+  ) {}
+
+  async onModuleInit() {
+    await this.cache.start();
+  }
+
+  onModuleDestroy() {
+    this.cache.stop();
+  }
+
+  /**
+   * Recarga perfiles y asignaciones desde la BD.
+   * Se llama periódicamente y después de cada cambio hecho vía API.
+   */
+  reload(): Promise<void> {
+    return this.cache.reload();
+  }
+
+  private async load(): Promise<void> {
+    const [profiles, assignments] = await Promise.all([
+      this.thresholdProfileRepository.findAll(),
+      this.thresholdProfileRepository.findAllAssignments(),
+    ]);
+
+    const nextProfiles = new Map<string, IDetectionThresholds>();
+    for (const profile of profiles) {
+      nextProfiles.set(profile.id, this.mergeWithDefaults(profile.thresholds));
+    }
+
+    const nextAssignments = new Map<string, string>();
+    for (const assignment of assignments) {
+      nextAssignments.set(
+        `${assignment.scope}:${assignment.scope_id}`,
+        assignment.profile_id,
+      );
+    }
+
+    this.profiles = nextProfiles;
+    this.assignments = nextAssignments;
+
+    this.logger.debug(
+      `Loaded ${profiles.length} threshold profiles, ${assignments.length} assignments`,
+    );
+  }
+
+  /**
+   * Resuelve los umbrales a usar para un device
+   *
+   * @param metadata Metadata de la posición (tenant_id, fleet_id)
+   */
+  resolveThresholds(
+    deviceId: string,
+    metadata?: Record<string, any>,
+  ): IDetectionThresholds {
+    const candidates: string[] = [`device:${deviceId}`];
+    if (metadata?.fleet_id) candidates.push(`fleet:${metadata.fleet_id}`);
+    if (metadata?.tenant_id) candidates.push(`tenant:${metadata.tenant_id}`);
+
+    for (const key of candidates) {
+      const profileId = this.assignments.get(key);
+      const thresholds = profileId ? this.profiles.get(profileId) : undefined;
+      if (thresholds) return thresholds;
+    }
+
+    return DEFAULT_THRESHOLDS;
+  }
+
+  /**
+   * Combina los umbrales de un perfil sobre DEFAULT_THRESHOLDS
+   * (ignora valores no numéricos que pudieran haber quedado en el JSONB)
+   */
+  mergeWithDefaults(
+    thresholds: Partial<IDetectionThresholds> | null | undefined,
+  ): IDetectionThresholds {
+    const merged: IDetectionThresholds = { ...DEFAULT_THRESHOLDS };
+
+    for (const key of Object.keys(DEFAULT_THRESHOLDS) as Array<
+      keyof IDetectionThresholds
+    >) {
+      const value = thresholds?.[key];
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        merged[key] = value;
+      }
+    }
+
+    return merged;
+  }
+}
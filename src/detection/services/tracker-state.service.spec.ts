@@ -0,0 +1,267 @@
+import { DataSource } from 'typeorm';
+import { TrackerStateService } from './tracker-state.service';
+import {
+  TrackerStateRepository,
+  OdometerAdjustmentRepository,
+  StopRepository,
+  OdometerSourceRepository,
+} from '../../database/repositories';
+import { OdometerSourceService } from './odometer-source.service';
+import { RedisService } from '../../auxiliares/redis/redis.service';
+import { IPositionEvent } from '../../interfaces';
+
+const T0 = Date.parse('2025-01-10T08:00:00Z');
+
+// Posición quieta (máquina trabajando en el lugar) a los `seconds` segundos
+const position = (seconds: number, ignition: boolean): IPositionEvent => ({
+  deviceId: 'EXC-1',
+  timestamp: T0 + seconds * 1000,
+  latitude: -34.6,
+  longitude: -58.4,
+  speed: 0,
+  ignition,
+});
+
+describe('TrackerStateService engine hours', () => {
+  let service: TrackerStateService;
+  let upsert: jest.Mock;
+
+  beforeEach(() => {
+    // Redis en memoria: get devuelve el objeto parseado como RedisService
+    const store = new Map<string, string>();
+    const redis = {
+      get: jest.fn((key: string) =>
+        Promise.resolve(store.has(key) ? JSON.parse(store.get(key)!) : null),
+      ),
+      set: jest.fn((key: string, value: string) => {
+        store.set(key, value);
+        return Promise.resolve('OK');
+      }),
+      incr: jest.fn().mockResolvedValue(1),
+      expire: jest.fn().mockResolvedValue(1),
+      del: jest.fn().mockResolvedValue(1),
+    };
+    upsert = jest.fn().mockResolvedValue(undefined);
+
+    service = new TrackerStateService(
+      {
+        findByTrackerId: jest.fn().mockResolvedValue(null),
+        upsert,
+      } as unknown as TrackerStateRepository,
+      redis as unknown as RedisService,
+      {} as unknown as OdometerAdjustmentRepository,
+      {} as unknown as StopRepository,
+      new OdometerSourceService({} as unknown as OdometerSourceRepository),
+      {} as unknown as DataSource,
+    );
+  });
+
+  it('accumulates the time between reports while the ignition was on', async () => {
+    await service.updateWithPosition(position(0, true));
+    await service.updateWithPosition(position(600, true));
+    // El tramo 600 → 900 se suma con la ignición del reporte anterior (encendida)
+    await service.updateWithPosition(position(900, false));
+    await service.updateWithPosition(position(1800, false));
+    // Evento de ignición separado (ej: GPS103 ACC)
+    await service.updateIgnition('EXC-1', true, T0 + 2400 * 1000);
+    await service.updateWithPosition(position(3000, true));
+
+    const state = await service.getState('EXC-1');
+    expect(state!.totalEngineTime).toBe(1500);
+    expect(upsert).toHaveBeenLastCalledWith(
+      'EXC-1',
+      expect.objectContaining({ total_engine_time: 900 }),
+      undefined,
+    );
+  });
+
+  it('skips reporting gaps longer than ENGINE_HOURS_MAX_GAP', async () => {
+    await service.updateWithPosition(position(0, true));
+    await service.updateWithPosition(position(300, true));
+    // Dos horas sin reportes: no se sabe si el motor siguió encendido
+    await service.updateWithPosition(position(7500, true));
+    await service.updateWithPosition(position(7800, true));
+
+    const state = await service.getState('EXC-1');
+    expect(state!.totalEngineTime).toBe(600);
+  });
+
+  it('sets the hour meter with an offset over the ignition-based time', async () => {
+    await service.updateWithPosition(position(0, true));
+    await service.updateWithPosition(position(720, true));
+
+    const result = await service.setEngineHours('EXC-1', 1520.5, 'sync');
+    expect(result).toEqual({
+      previousEngineHours: 0.2,
+      newEngineHours: 1520.5,
+      engineHoursOffset: 1520.3,
+    });
+
+    await service.updateWithPosition(position(1440, true));
+    const state = await service.getState('EXC-1');
+    expect(service.getDisplayEngineHours(state!)).toBe(1520.7);
+
+    const status = await service.getTrackerStatus('EXC-1');
+    expect(status!.engineHours).toEqual({
+      total: 1520.7,
+      totalSeconds: 5474520,
+      currentTrip: 0,
+    });
+  });
+});
+
+describe('TrackerStateService odometer adjustments', () => {
+  const HOUR = 3600 * 1000;
+  let service: TrackerStateService;
+  let create: jest.Mock;
+  let upsert: jest.Mock;
+  let redis: Record<string, jest.Mock>;
+  let dataSource: { transaction: jest.Mock };
+  const manager = { transactional: true };
+
+  // Stop A (detenido 1h) → trip → stop B; el odómetro se ajusta durante el trip
+  const stopA = {
+    id: 'stop-a',
+    start_time: new Date(T0),
+    end_time: new Date(T0 + HOUR),
+    start_odometer: 40000,
+    end_odometer: 40000,
+  };
+  const stopB = {
+    id: 'stop-b',
+    start_time: new Date(T0 + 3 * HOUR),
+    end_time: null,
+    start_odometer: 146000, // GPS 46000 + offset 100000
+    end_odometer: null,
+  };
+
+  beforeEach(() => {
+    const store = new Map<string, string>();
+    redis = {
+      get: jest.fn((key: string) =>
+        Promise.resolve(store.has(key) ? JSON.parse(store.get(key)!) : null),
+      ),
+      set: jest.fn((key: string, value: string) => {
+        store.set(key, value);
+        return Promise.resolve('OK');
+      }),
+      incr: jest.fn().mockResolvedValue(1),
+      expire: jest.fn().mockResolvedValue(1),
+    };
+    create = jest.fn().mockResolvedValue(undefined);
+    upsert = jest.fn().mockResolvedValue(undefined);
+    dataSource = {
+      transaction: jest.fn((work: (m: unknown) => Promise<void>) =>
+        work(manager),
+      ),
+    };
+
+    service = new TrackerStateService(
+      {
+        findByTrackerId: jest.fn().mockResolvedValue({
+          tracker_id: 'VAN-1',
+          device_id: 'VAN-1',
+          total_odometer: 50000,
+          odometer_offset: 100000,
+        }),
+        upsert,
+      } as unknown as TrackerStateRepository,
+      redis as unknown as RedisService,
+      {
+        create,
+        findByTracker: jest.fn().mockResolvedValue([
+          {
+            adjusted_at: new Date(T0 + 2 * HOUR),
+            previous_odometer: 45000,
+            new_odometer: 145000,
+            previous_offset: 0,
+            odometer_offset: 100000,
+          },
+        ]),
+      } as unknown as OdometerAdjustmentRepository,
+      {
+        findLastWithOdometerUntil: jest.fn().mockResolvedValue(stopA),
+        findFirstWithOdometerAfter: jest.fn().mockResolvedValue(stopB),
+      } as unknown as StopRepository,
+      new OdometerSourceService({} as unknown as OdometerSourceRepository),
+      dataSource as unknown as DataSource,
+    );
+  });
+
+  it('records each adjustment with previous and new values, reason and actor', async () => {
+    await service.setOdometer('VAN-1', 200000, 'sync', 'ops@fleet');
+
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tracker_id: 'VAN-1',
+        type: 'set',
+        previous_odometer: 150000,
+        new_odometer: 200000,
+        previous_offset: 100000,
+        odometer_offset: 150000,
+        reason: 'sync',
+        actor: 'ops@fleet',
+      }),
+      manager,
+    );
+  });
+
+  it('saves the state and the adjustment in one transaction before updating Redis', async () => {
+    await service.getState('VAN-1'); // carga el estado de la BD a Redis
+    redis.set.mockClear();
+
+    await service.resetOdometer('VAN-1', { newValue: 0, reason: 'new unit' });
+
+    expect(dataSource.transaction).toHaveBeenCalledTimes(1);
+    expect(upsert).toHaveBeenCalledWith(
+      'VAN-1',
+      // El offset del contador acompaña al reset (fuente device)
+      expect.objectContaining({
+        total_odometer: 0,
+        device_odometer_offset: -50000,
+      }),
+      manager,
+    );
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'reset', new_odometer: 100000 }),
+      manager,
+    );
+    expect(redis.set).toHaveBeenCalledTimes(1);
+    expect(redis.set.mock.invocationCallOrder[0]).toBeGreaterThan(
+      create.mock.invocationCallOrder[0],
+    );
+  });
+
+  it('leaves Redis untouched when the transaction fails', async () => {
+    await service.getState('VAN-1');
+    redis.set.mockClear();
+    create.mockRejectedValueOnce(new Error('db down'));
+
+    await expect(service.setOdometer('VAN-1', 200000)).rejects.toThrow(
+      'db down',
+    );
+    expect(redis.set).not.toHaveBeenCalled();
+    expect((await service.getState('VAN-1'))!.odometerOffset).toBe(100000);
+  });
+
+  it('returns the odometer at a past time taking adjustments into account', async () => {
+    // Detenido en el stop A, antes del ajuste
+    expect(
+      await service.getOdometerAt('VAN-1', new Date(T0 + HOUR / 2)),
+    ).toMatchObject({
+      odometer: 40000,
+      odometerOffset: 0,
+      method: 'stop',
+      stopId: 'stop-a',
+    });
+
+    // En el trip, después del ajuste: 6 km recorridos entre A y B, 3/4 del tiempo
+    expect(
+      await service.getOdometerAt('VAN-1', new Date(T0 + 2.5 * HOUR)),
+    ).toMatchObject({
+      odometer: 40000 + 100000 + 4500,
+      odometerOffset: 100000,
+      method: 'interpolated',
+    });
+  });
+});
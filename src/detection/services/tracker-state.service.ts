@@ -1,16 +1,31 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { TrackerStateRepository } from '../../database/repositories';
-import { TrackerState } from '../../database/entities';
+import { DataSource, EntityManager } from 'typeorm';
+import {
+  TrackerStateRepository,
+  OdometerAdjustmentRepository,
+  StopRepository,
+} from '../../database/repositories';
+import { ICreateOdometerAdjustmentData } from '../../database/repositories/odometer-adjustment.repository';
+import { TrackerState, OdometerAdjustment } from '../../database/entities';
 import { RedisService } from '../../auxiliares/redis/redis.service';
+import { OdometerSourceService } from './odometer-source.service';
 import { IPositionEvent } from '../../interfaces';
-import { ITrackerState, ITrackerStatus, IResetOdometer } from '../../models';
-import { TRACKER_STATE_TTL } from '../../env';
+import {
+  ITrackerState,
+  ITrackerStatus,
+  IResetOdometer,
+  IOdometerAdjustment,
+  IOdometerAtTime,
+} from '../../models';
+import { TRACKER_STATE_TTL, ENGINE_HOURS_MAX_GAP } from '../../env';
 
 /**
  * Servicio de gestión de estado de trackers
  *
  * Responsabilidades:
- * - Calcular y mantener odómetro acumulativo
+ * - Calcular y mantener odómetro acumulativo (GPS o el del equipo según la fuente)
+ * - Acumular horas de motor (tiempo con ignición encendida)
+ * - Auditar los ajustes manuales del odómetro (odometer_adjustments)
  * - Actualizar última posición conocida
  * - Sincronizar estado entre Redis (rápido) y PostgreSQL (persistente)
  * - Proveer estado actual de trackers
@@ -24,6 +39,10 @@ export class TrackerStateService {
   constructor(
     private readonly trackerStateRepository: TrackerStateRepository,
     private readonly redisService: RedisService,
+    private readonly odometerAdjustmentRepository: OdometerAdjustmentRepository,
+    private readonly stopRepository: StopRepository,
+    private readonly odometerSources: OdometerSourceService,
+    private readonly dataSource: DataSource,
   ) {}
 
   /**
@@ -74,8 +93,15 @@ export class TrackerStateService {
         }
       }
 
-      // 4. Actualizar odómetro
-      state.totalOdometer += distanceDelta;
+      // 4. Actualizar odómetro (distancia GPS o del equipo según la fuente del device)
+      state.totalOdometer += this.odometerSources.accumulate(
+        state,
+        position,
+        distanceDelta,
+      );
+
+      // 4b. Sumar horas de motor (con la ignición del reporte anterior)
+      this.accumulateEngineTime(state, position.timestamp);
 
       // 5. Actualizar última posición
       state.lastPositionTime = new Date(position.timestamp);
@@ -130,6 +156,7 @@ export class TrackerStateService {
     state.currentTripId = tripId;
     state.tripStartTime = new Date();
     state.tripOdometerStart = state.totalOdometer;
+    state.tripEngineTimeStart = state.totalEngineTime;
     state.tripStartLat = startLat;
     state.tripStartLon = startLon;
     state.tripMaxSpeed = 0; // Inicializar velocidad máxima del trip
@@ -152,6 +179,7 @@ export class TrackerStateService {
     state.currentTripId = undefined;
     state.tripStartTime = undefined;
     state.tripOdometerStart = undefined;
+    state.tripEngineTimeStart = undefined;
     state.tripStartLat = undefined;
     state.tripStartLon = undefined;
     state.tripMaxSpeed = undefined;
@@ -256,6 +284,7 @@ export class TrackerStateService {
           avgSpeed: number;
           maxSpeed: number;
           odometerAtStart: number;
+          engineHoursAtStart: number;
           startLat?: number;
           startLon?: number;
         }
@@ -282,6 +311,10 @@ export class TrackerStateService {
             : 0,
         maxSpeed: state.tripMaxSpeed || 0,
         odometerAtStart: state.tripOdometerStart,
+        engineHoursAtStart: this.toEngineHours(
+          (state.tripEngineTimeStart ?? state.totalEngineTime) +
+            state.engineTimeOffset,
+        ),
         startLat: state.tripStartLat,
         startLon: state.tripStartLon,
       };
@@ -290,6 +323,9 @@ export class TrackerStateService {
     // Calcular odómetro con offset (GPS + offset = odómetro real)
     const displayOdometer = state.totalOdometer + (state.odometerOffset || 0);
 
+    // Horómetro con offset (ignición + offset = horómetro real)
+    const displayEngineTime = state.totalEngineTime + state.engineTimeOffset;
+
     // Determinar si hay problema de energía y recomendación
     // hasPowerIssue = true cuando se detecta conexión switched (ACC/contacto)
     // Esto indica que el tracker pierde energía cuando el vehículo está apagado
@@ -316,6 +352,29 @@ export class TrackerStateService {
         currentTripKm: currentTrip
           ? Math.round(currentTrip.distance / 1000)
           : 0,
+        source: this.odometerSources.getSource(trackerId),
+        device:
+          state.deviceOdometer !== undefined &&
+          state.deviceOdometer !== null &&
+          state.deviceOdometerAt
+            ? {
+                reading: Math.round(state.deviceOdometer),
+                readingKm: Math.round(state.deviceOdometer / 1000),
+                readingAt: state.deviceOdometerAt,
+              }
+            : undefined,
+        drift: this.getOdometerDrift(state),
+      },
+
+      engineHours: {
+        total: this.toEngineHours(displayEngineTime),
+        totalSeconds: Math.round(displayEngineTime),
+        currentTrip: currentTrip
+          ? this.toEngineHours(
+              state.totalEngineTime -
+                (state.tripEngineTimeStart ?? state.totalEngineTime),
+            )
+          : 0,
       },
 
       currentState: {
@@ -386,11 +445,28 @@ export class TrackerStateService {
       `Resetting odometer for ${trackerId} from ${state.totalOdometer} to ${resetData.newValue}. Reason: ${resetData.reason}`,
     );
 
+    const offset = state.odometerOffset || 0;
+    const previousDisplayOdometer = state.totalOdometer + offset;
+
+    // Con fuente device el odómetro sale del contador: se corre su offset también
+    state.deviceOdometerOffset =
+      (state.deviceOdometerOffset || 0) +
+      resetData.newValue -
+      state.totalOdometer;
     state.totalOdometer = resetData.newValue;
     state.updatedAt = new Date();
 
-    await this.saveStateToRedis(trackerId, state);
-    await this.persistToDb(state);
+    await this.saveAdjustment(state, {
+      tracker_id: trackerId,
+      type: 'reset',
+      previous_odometer: previousDisplayOdometer,
+      new_odometer: resetData.newValue + offset,
+      previous_offset: offset,
+      odometer_offset: offset,
+      reason: resetData.reason,
+      actor: resetData.actor || null,
+      adjusted_at: state.updatedAt,
+    });
   }
 
   /**
@@ -401,6 +477,7 @@ export class TrackerStateService {
     trackerId: string,
     initialOdometer: number,
     reason?: string,
+    actor?: string,
   ): Promise<{
     previousOdometer: number;
     newOdometer: number;
@@ -411,8 +488,8 @@ export class TrackerStateService {
       throw new Error(`Tracker ${trackerId} not found`);
     }
 
-    const previousDisplayOdometer =
-      state.totalOdometer + (state.odometerOffset || 0);
+    const previousOffset = state.odometerOffset || 0;
+    const previousDisplayOdometer = state.totalOdometer + previousOffset;
 
     // Calcular nuevo offset: initialOdometer - totalOdometer (GPS)
     const newOffset = initialOdometer - state.totalOdometer;
@@ -426,8 +503,17 @@ export class TrackerStateService {
     state.odometerOffset = newOffset;
     state.updatedAt = new Date();
 
-    await this.saveStateToRedis(trackerId, state);
-    await this.persistToDb(state);
+    await this.saveAdjustment(state, {
+      tracker_id: trackerId,
+      type: 'set',
+      previous_odometer: previousDisplayOdometer,
+      new_odometer: initialOdometer,
+      previous_offset: previousOffset,
+      odometer_offset: newOffset,
+      reason: reason || null,
+      actor: actor || null,
+      adjusted_at: state.updatedAt,
+    });
 
     return {
       previousOdometer: Math.round(previousDisplayOdometer),
@@ -436,6 +522,189 @@ export class TrackerStateService {
     };
   }
 
+  /**
+   * Guarda un ajuste manual del odómetro: el estado y su registro en
+   * odometer_adjustments van en una transacción (no queda uno sin el otro) y Redis
+   * se actualiza recién después del commit.
+   */
+  private async saveAdjustment(
+    state: ITrackerState,
+    adjustment: ICreateOdometerAdjustmentData,
+  ): Promise<void> {
+    await this.dataSource.transaction(async (manager) => {
+      await this.persistToDb(state, manager);
+      await this.odometerAdjustmentRepository.create(adjustment, manager);
+    });
+
+    await this.saveStateToRedis(state.trackerId, state);
+  }
+
+  /**
+   * Ajustes manuales del odómetro del tracker, los más recientes primero
+   */
+  async getOdometerHistory(trackerId: string): Promise<IOdometerAdjustment[]> {
+    const adjustments =
+      await this.odometerAdjustmentRepository.findByTracker(trackerId);
+
+    return adjustments.reverse().map((adjustment) => ({
+      id: adjustment.id,
+      type: adjustment.type,
+      previousOdometer: Math.round(adjustment.previous_odometer),
+      newOdometer: Math.round(adjustment.new_odometer),
+      previousOffset: Math.round(adjustment.previous_offset),
+      odometerOffset: Math.round(adjustment.odometer_offset),
+      reason: adjustment.reason,
+      actor: adjustment.actor,
+      adjustedAt: adjustment.adjusted_at.toISOString(),
+    }));
+  }
+
+  /**
+   * Odómetro que mostraba el tracker en el instante `at`
+   *
+   * Parte del odómetro registrado en los stops (valor mostrado en ese momento, con el
+   * offset vigente) y suma los saltos de los ajustes posteriores al registro. En
+   * movimiento interpola por tiempo la distancia entre el fin del stop anterior y el
+   * inicio del siguiente (o el odómetro actual), descontando los ajustes del tramo.
+   *
+   * @returns null si el tracker no existe o no hay stops con odómetro hasta `at`
+   */
+  async getOdometerAt(
+    trackerId: string,
+    at: Date,
+  ): Promise<IOdometerAtTime | null> {
+    const state = await this.getState(trackerId);
+    if (!state) {
+      return null;
+    }
+
+    const adjustments =
+      await this.odometerAdjustmentRepository.findByTracker(trackerId);
+    const time = at.getTime();
+    const now = Date.now();
+    const currentOdometer = state.totalOdometer + (state.odometerOffset || 0);
+
+    let odometer: number;
+    let method: IOdometerAtTime['method'];
+    let stopId: string | undefined;
+
+    if (time >= now) {
+      odometer = currentOdometer;
+      method = 'current';
+    } else {
+      const stop = await this.stopRepository.findLastWithOdometerUntil(
+        trackerId,
+        at,
+      );
+      if (!stop) {
+        return null;
+      }
+
+      const stopStart = stop.start_time.getTime();
+
+      if (!stop.end_time || stop.end_time.getTime() >= time) {
+        // Detenido: el odómetro solo cambia por ajustes
+        odometer =
+          stop.start_odometer! +
+          this.adjustmentJumps(adjustments, stopStart, time);
+        method = 'stop';
+        stopId = stop.id;
+      } else {
+        const fromTime = stop.end_time.getTime();
+        const fromOdometer = stop.end_odometer ?? stop.start_odometer!;
+
+        const next = await this.stopRepository.findFirstWithOdometerAfter(
+          trackerId,
+          at,
+        );
+        const toTime = next ? next.start_time.getTime() : now;
+        const toOdometer = next ? next.start_odometer! : currentOdometer;
+
+        const travelled = Math.max(
+          0,
+          toOdometer -
+            fromOdometer -
+            this.adjustmentJumps(adjustments, fromTime, toTime),
+        );
+        const fraction =
+          toTime > fromTime ? (time - fromTime) / (toTime - fromTime) : 1;
+
+        odometer =
+          fromOdometer +
+          this.adjustmentJumps(adjustments, fromTime, time) +
+          travelled * fraction;
+        method = 'interpolated';
+      }
+    }
+
+    return {
+      trackerId,
+      at: at.toISOString(),
+      odometer: Math.round(odometer),
+      odometerKm: Math.round(odometer / 1000),
+      odometerOffset: Math.round(
+        this.offsetAt(adjustments, time, state.odometerOffset || 0),
+      ),
+      method,
+      stopId,
+    };
+  }
+
+  /**
+   * Setea el horómetro inicial de un tracker (usando offset)
+   * Igual que setOdometer: las horas acumuladas por ignición no se tocan
+   */
+  async setEngineHours(
+    trackerId: string,
+    initialEngineHours: number,
+    reason?: string,
+  ): Promise<{
+    previousEngineHours: number;
+    newEngineHours: number;
+    engineHoursOffset: number;
+  }> {
+    const state = await this.getState(trackerId);
+    if (!state) {
+      throw new Error(`Tracker ${trackerId} not found`);
+    }
+
+    const previousDisplayEngineTime =
+      state.totalEngineTime + state.engineTimeOffset;
+
+    // Calcular nuevo offset: initialEngineHours (en segundos) - totalEngineTime (ignición)
+    const newOffset = initialEngineHours * 3600 - state.totalEngineTime;
+
+    this.logger.log(
+      `Setting engine hours for ${trackerId}: ignition=${state.totalEngineTime}s, ` +
+        `initialEngineHours=${initialEngineHours}h, offset=${newOffset}s. ` +
+        `Reason: ${reason || 'not specified'}`,
+    );
+
+    state.engineTimeOffset = newOffset;
+    state.updatedAt = new Date();
+
+    await this.saveStateToRedis(trackerId, state);
+    await this.persistToDb(state);
+
+    return {
+      previousEngineHours: this.toEngineHours(previousDisplayEngineTime),
+      newEngineHours: this.toEngineHours(initialEngineHours * 3600),
+      engineHoursOffset: this.toEngineHours(newOffset),
+    };
+  }
+
+  /**
+   * Horómetro (horas, con offset) para incluir en eventos
+   *
+   * @param engineTime Tiempo de motor a convertir (default: el acumulado actual)
+   */
+  getDisplayEngineHours(
+    state: ITrackerState,
+    engineTime: number = state.totalEngineTime,
+  ): number {
+    return this.toEngineHours(engineTime + state.engineTimeOffset);
+  }
+
   /**
    * Obtiene lista de trackers activos
    */
@@ -462,6 +731,61 @@ export class TrackerStateService {
 
   // ========== MÉTODOS PRIVADOS ==========
 
+  /**
+   * Deriva del odómetro GPS respecto del equipo, o undefined sin tramos medidos por ambos
+   */
+  private getOdometerDrift(
+    state: ITrackerState,
+  ): ITrackerStatus['odometer']['drift'] {
+    const deviceDistance = state.driftDeviceDistance || 0;
+    const gpsDistance = state.driftGpsDistance || 0;
+    if (deviceDistance <= 0) {
+      return undefined;
+    }
+
+    const drift = gpsDistance - deviceDistance;
+    return {
+      gpsDistance: Math.round(gpsDistance),
+      deviceDistance: Math.round(deviceDistance),
+      drift: Math.round(drift),
+      driftPercent: Math.round((drift / deviceDistance) * 1000) / 10,
+    };
+  }
+
+  /**
+   * Suma de los saltos del odómetro mostrado por ajustes en (from, to]
+   */
+  private adjustmentJumps(
+    adjustments: OdometerAdjustment[],
+    from: number,
+    to: number,
+  ): number {
+    return adjustments
+      .filter((adjustment) => {
+        const time = adjustment.adjusted_at.getTime();
+        return time > from && time <= to;
+      })
+      .reduce(
+        (total, adjustment) =>
+          total + adjustment.new_odometer - adjustment.previous_odometer,
+        0,
+      );
+  }
+
+  /**
+   * Offset vigente en `time` según los ajustes (ordenados cronológicamente)
+   */
+  private offsetAt(
+    adjustments: OdometerAdjustment[],
+    time: number,
+    currentOffset: number,
+  ): number {
+    const next = adjustments.find(
+      (adjustment) => adjustment.adjusted_at.getTime() > time,
+    );
+    return next ? next.previous_offset : currentOffset;
+  }
+
   /**
    * Obtiene estado desde Redis o PostgreSQL
    * PÚBLICO: Usado por PositionSubscriberService para obtener último estado de ignición
@@ -500,6 +824,9 @@ export class TrackerStateService {
       // Convertir strings de fecha a Date objects
       return {
         ...data,
+        // Estados guardados antes de acumular horas de motor
+        totalEngineTime: data.totalEngineTime || 0,
+        engineTimeOffset: data.engineTimeOffset || 0,
         lastPositionTime: data.lastPositionTime
           ? new Date(data.lastPositionTime)
           : undefined,
@@ -538,38 +865,54 @@ export class TrackerStateService {
   /**
    * Persiste estado en PostgreSQL
    */
-  private async persistToDb(state: ITrackerState): Promise<void> {
-    await this.trackerStateRepository.upsert(state.trackerId, {
-      device_id: state.deviceId,
-      total_odometer: state.totalOdometer,
-      odometer_offset: state.odometerOffset,
-      trip_odometer_start: state.tripOdometerStart || null,
-      last_position_time: state.lastPositionTime || null,
-      last_latitude: state.lastLatitude || null,
-      last_longitude: state.lastLongitude || null,
-      last_speed: state.lastSpeed || null,
-      last_ignition: state.lastIgnition || null,
-      last_heading: state.lastHeading || null,
-      last_altitude: state.lastAltitude || null,
-      current_state: state.currentState || null,
-      state_since: state.stateSince || null,
-      current_trip_id: state.currentTripId || null,
-      trip_start_time: state.tripStartTime || null,
-      trip_start_lat: state.tripStartLat || null,
-      trip_start_lon: state.tripStartLon || null,
-      trip_max_speed: state.tripMaxSpeed || null,
-      total_trips_count: state.totalTripsCount,
-      total_driving_time: state.totalDrivingTime,
-      total_idle_time: state.totalIdleTime,
-      total_stops_count: state.totalStopsCount,
-      has_ignition: state.hasIgnition || false,
-      last_ignition_seen_at: state.lastIgnitionSeenAt || null,
-      overnight_gap_count: state.overnightGapCount || 0,
-      last_overnight_gap_at: state.lastOvernightGapAt || null,
-      power_type: state.powerType || 'unknown',
-      first_seen_at: state.firstSeenAt,
-      last_seen_at: state.lastSeenAt,
-    });
+  private async persistToDb(
+    state: ITrackerState,
+    manager?: EntityManager,
+  ): Promise<void> {
+    await this.trackerStateRepository.upsert(
+      state.trackerId,
+      {
+        device_id: state.deviceId,
+        total_odometer: state.totalOdometer,
+        odometer_offset: state.odometerOffset,
+        trip_odometer_start: state.tripOdometerStart || null,
+        device_odometer: state.deviceOdometer ?? null,
+        device_odometer_at: state.deviceOdometerAt ?? null,
+        device_odometer_offset: state.deviceOdometerOffset || 0,
+        gps_since_device_reading: state.gpsSinceDeviceReading || 0,
+        drift_device_distance: state.driftDeviceDistance || 0,
+        drift_gps_distance: state.driftGpsDistance || 0,
+        total_engine_time: state.totalEngineTime,
+        engine_time_offset: state.engineTimeOffset,
+        trip_engine_time_start: state.tripEngineTimeStart ?? null,
+        last_position_time: state.lastPositionTime || null,
+        last_latitude: state.lastLatitude || null,
+        last_longitude: state.lastLongitude || null,
+        last_speed: state.lastSpeed || null,
+        last_ignition: state.lastIgnition || null,
+        last_heading: state.lastHeading || null,
+        last_altitude: state.lastAltitude || null,
+        current_state: state.currentState || null,
+        state_since: state.stateSince || null,
+        current_trip_id: state.currentTripId || null,
+        trip_start_time: state.tripStartTime || null,
+        trip_start_lat: state.tripStartLat || null,
+        trip_start_lon: state.tripStartLon || null,
+        trip_max_speed: state.tripMaxSpeed || null,
+        total_trips_count: state.totalTripsCount,
+        total_driving_time: state.totalDrivingTime,
+        total_idle_time: state.totalIdleTime,
+        total_stops_count: state.totalStopsCount,
+        has_ignition: state.hasIgnition || false,
+        last_ignition_seen_at: state.lastIgnitionSeenAt || null,
+        overnight_gap_count: state.overnightGapCount || 0,
+        last_overnight_gap_at: state.lastOvernightGapAt || null,
+        power_type: state.powerType || 'unknown',
+        first_seen_at: state.firstSeenAt,
+        last_seen_at: state.lastSeenAt,
+      },
+      manager,
+    );
   }
 
   /**
@@ -604,6 +947,10 @@ export class TrackerStateService {
       deviceId: trackerId,
       totalOdometer: 0,
       odometerOffset: 0,
+      driftDeviceDistance: 0,
+      driftGpsDistance: 0,
+      totalEngineTime: 0,
+      engineTimeOffset: 0,
       totalTripsCount: 0,
       totalDrivingTime: 0,
       totalIdleTime: 0,
@@ -629,6 +976,15 @@ export class TrackerStateService {
       totalOdometer: entity.total_odometer,
       odometerOffset: entity.odometer_offset || 0,
       tripOdometerStart: entity.trip_odometer_start,
+      deviceOdometer: entity.device_odometer ?? undefined,
+      deviceOdometerAt: entity.device_odometer_at ?? undefined,
+      deviceOdometerOffset: entity.device_odometer_offset || 0,
+      gpsSinceDeviceReading: entity.gps_since_device_reading || 0,
+      driftDeviceDistance: entity.drift_device_distance || 0,
+      driftGpsDistance: entity.drift_gps_distance || 0,
+      totalEngineTime: entity.total_engine_time || 0,
+      engineTimeOffset: entity.engine_time_offset || 0,
+      tripEngineTimeStart: entity.trip_engine_time_start ?? undefined,
       lastPositionTime: entity.last_position_time,
       lastLatitude: entity.last_latitude,
       lastLongitude: entity.last_longitude,
@@ -659,6 +1015,27 @@ export class TrackerStateService {
     };
   }
 
+  /**
+   * Suma al tiempo de motor el tramo desde el último reporte si la ignición estaba encendida
+   * Tramos más largos que ENGINE_HOURS_MAX_GAP no se suman: no se sabe si el motor
+   * siguió encendido mientras el tracker no reportó
+   */
+  private accumulateEngineTime(state: ITrackerState, timestamp: number): void {
+    if (state.lastIgnition !== true || !state.lastPositionTime) return;
+
+    const delta = (timestamp - state.lastPositionTime.getTime()) / 1000;
+    if (delta > 0 && delta <= ENGINE_HOURS_MAX_GAP) {
+      state.totalEngineTime += delta;
+    }
+  }
+
+  /**
+   * Segundos → horas con dos decimales
+   */
+  private toEngineHours(seconds: number): number {
+    return Math.round((seconds / 3600) * 100) / 100;
+  }
+
   /**
    * Calcula distancia entre dos coordenadas GPS (Haversine)
    * Retorna distancia en metros
@@ -689,12 +1066,14 @@ export class TrackerStateService {
   /**
    * Actualiza solo el estado de ignición de un tracker
    * Usado cuando recibimos eventos de ignición separados (ej: GPS103 ACC events)
+   *
+   * @returns false si no se pudo guardar (el error se loguea y no se propaga)
    */
   async updateIgnition(
     deviceId: string,
     ignition: boolean,
     timestamp: number,
-  ): Promise<void> {
+  ): Promise<boolean> {
     try {
       let state = await this.getState(deviceId);
 
@@ -704,6 +1083,11 @@ export class TrackerStateService {
         this.logger.log(`Creating new tracker state for ${deviceId}`);
       }
 
+      // Sumar horas de motor con la ignición anterior, antes de pisarla
+      if (timestamp) {
+        this.accumulateEngineTime(state, timestamp);
+      }
+
       // Actualizar ignición
       const previousIgnition = state.lastIgnition;
       state.lastIgnition = ignition;
@@ -724,8 +1108,10 @@ export class TrackerStateService {
       this.logger.log(
         `Ignition updated for ${deviceId}: ${previousIgnition ?? 'unknown'} → ${ignition}`,
       );
+      return true;
     } catch (error) {
       this.logger.error(`Error updating ignition for ${deviceId}`, error.stack);
+      return false;
     }
   }
 
@@ -1,7 +1,11 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { EntityManager } from 'typeorm';
 import { RedisService } from '../../auxiliares/redis/redis.service';
 import { GeocodeClientService } from '../../auxiliares/geocode/geocode-client.service';
+import { ClusterService } from '../../auxiliares/cluster/cluster.service';
 import { TripRepository } from '../../database/repositories/trip.repository';
+import { DrivingEventRepository } from '../../database/repositories/driving-event.repository';
+import { SpeedingEventRepository } from '../../database/repositories/speeding-event.repository';
 import { DeviceEventQueueManager } from './device-event-queue.manager';
 import {
   ITripStartedEvent,
@@ -9,6 +13,7 @@ import {
   ITripDiscardedEvent,
 } from '../../interfaces/trip-events.interface';
 import { TripQualityAnalyzerService } from './trip-quality-analyzer.service';
+import { GeofenceService } from './geofence.service';
 
 /**
  * Servicio encargado de escuchar eventos de trips
@@ -17,7 +22,7 @@ import { TripQualityAnalyzerService } from './trip-quality-analyzer.service';
  * Eventos:
  * - trip:started - Crear registro de trip en BD
  * - trip:completed - Actualizar trip con datos finales
- * - trip:discarded - Eliminar trip de BD (no cumplió mínimos)
+ * - trip:discarded - Eliminar trip de BD (no cumplió mínimos) y sus eventos de manejo
  */
 @Injectable()
 export class TripPersistenceService implements OnModuleInit {
@@ -27,9 +32,13 @@ export class TripPersistenceService implements OnModuleInit {
   constructor(
     private readonly redisService: RedisService,
     private readonly tripRepository: TripRepository,
+    private readonly drivingEventRepository: DrivingEventRepository,
+    private readonly speedingEventRepository: SpeedingEventRepository,
     private readonly eventQueueManager: DeviceEventQueueManager,
     private readonly tripQualityAnalyzer: TripQualityAnalyzerService,
     private readonly geocode: GeocodeClientService,
+    private readonly geofences: GeofenceService,
+    private readonly clusterService: ClusterService,
   ) {}
 
   /**
@@ -70,6 +79,11 @@ export class TripPersistenceService implements OnModuleInit {
               return;
             }
 
+            // Modo multi-instancia: persiste solo la instancia dueña del device
+            if (!(await this.clusterService.ownsDevice(deviceId))) {
+              return;
+            }
+
             // Encolar evento para procesamiento secuencial
             if (channel === tripStartedChannel) {
               await this.eventQueueManager.enqueue(deviceId, async () => {
@@ -111,49 +125,70 @@ export class TripPersistenceService implements OnModuleInit {
    * Maneja evento trip:started
    * Crea un nuevo registro de trip en la BD
    */
-  private async handleTripStarted(message: string): Promise<void> {
+  async handleTripStarted(message: string): Promise<void> {
     try {
       const event: ITripStartedEvent = JSON.parse(message);
+      await this.saveTripStarted(event);
+    } catch (error) {
+      this.logger.error(
+        `Error creando trip en BD: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
 
-      // Verificar si el trip ya existe (puede ocurrir al reiniciar el servicio)
-      const existing = await this.tripRepository.findById(event.tripId);
-      if (existing) {
-        this.logger.warn(
-          `Trip ${event.tripId} ya existe en BD, ignorando evento duplicado`,
-        );
-        return;
-      }
-
-      this.logger.debug(
-        `Creando trip ${event.tripId} para device ${event.deviceId}`,
+  /**
+   * Crea el registro del trip
+   * PÚBLICO: también lo usa ReplayService (manager: su transacción). Los errores se propagan.
+   */
+  async saveTripStarted(
+    event: ITripStartedEvent,
+    manager?: EntityManager,
+  ): Promise<void> {
+    // Verificar si el trip ya existe (puede ocurrir al reiniciar el servicio)
+    const existing = await this.tripRepository.findById(event.tripId, manager);
+    if (existing) {
+      this.logger.warn(
+        `Trip ${event.tripId} ya existe en BD, ignorando evento duplicado`,
       );
+      return;
+    }
 
-      // Extraer lat/lon del formato GeoJSON [lon, lat]
-      const [longitude, latitude] = event.startLocation.coordinates;
+    this.logger.debug(
+      `Creando trip ${event.tripId} para device ${event.deviceId}`,
+    );
 
-      // Geocodificar el inicio una sola vez (al crear el trip), best-effort.
-      const start_address = await this.geocode.reverse(latitude, longitude);
+    // Extraer lat/lon del formato GeoJSON [lon, lat]
+    const [longitude, latitude] = event.startLocation.coordinates;
 
-      await this.tripRepository.create({
+    // Geocodificar el inicio una sola vez (al crear el trip), best-effort.
+    const start_address = await this.geocode.reverse(latitude, longitude);
+    const startGeofence = this.geofences.findBestMatch(
+      latitude,
+      longitude,
+      event.metadata,
+    );
+
+    await this.tripRepository.create(
+      {
         id: event.tripId,
         id_activo: event.deviceId,
         start_time: new Date(event.startTime),
         start_lat: latitude,
         start_lon: longitude,
         start_address,
+        start_geofence_id: startGeofence?.id ?? null,
         detection_method: event.detectionMethod,
+        start_engine_hours: event.engineHours ?? null,
+        driver_id: event.driverId ?? null,
         metadata: event.metadata,
-      });
+      },
+      manager,
+    );
 
-      this.logger.log(
-        `Trip ${event.tripId} creado en BD para device ${event.deviceId}`,
-      );
-    } catch (error) {
-      this.logger.error(
-        `Error creando trip en BD: ${error.message}`,
-        error.stack,
-      );
-    }
+    this.logger.log(
+      `Trip ${event.tripId} creado en BD para device ${event.deviceId}`,
+    );
   }
 
   /**
@@ -163,65 +198,89 @@ export class TripPersistenceService implements OnModuleInit {
    * NOTA: La distancia ya viene corregida por ruido GPS desde StateMachine.
    * NO aplicamos correcciones adicionales aquí.
    */
-  private async handleTripCompleted(message: string): Promise<void> {
+  async handleTripCompleted(message: string): Promise<void> {
     try {
       const event: ITripCompletedEvent = JSON.parse(message);
-
-      this.logger.debug(
-        `Completando trip ${event.tripId} para device ${event.deviceId}`,
+      await this.saveTripCompleted(event);
+    } catch (error) {
+      this.logger.error(
+        `Error completando trip en BD: ${error.message}`,
+        error.stack,
       );
+    }
+  }
 
-      // Buscar trip por ID directo para evitar race conditions
-      const trip = await this.tripRepository.findById(event.tripId);
-
-      if (!trip) {
-        this.logger.warn(`Trip ${event.tripId} no encontrado en BD`);
-        return;
-      }
-
-      // Verificar que el trip pertenece al dispositivo correcto
-      if (trip.id_activo !== event.deviceId) {
-        this.logger.error(
-          `Trip ${event.tripId} pertenece a device ${trip.id_activo}, no a ${event.deviceId}`,
-        );
-        return;
-      }
+  /**
+   * Completa el trip con los datos finales y las métricas de calidad
+   * PÚBLICO: también lo usa ReplayService (manager: su transacción). Los errores se propagan.
+   */
+  async saveTripCompleted(
+    event: ITripCompletedEvent,
+    manager?: EntityManager,
+  ): Promise<void> {
+    this.logger.debug(
+      `Completando trip ${event.tripId} para device ${event.deviceId}`,
+    );
+
+    // Buscar trip por ID directo para evitar race conditions
+    const trip = await this.tripRepository.findById(event.tripId, manager);
+
+    if (!trip) {
+      this.logger.warn(`Trip ${event.tripId} no encontrado en BD`);
+      return;
+    }
 
-      // Extraer lat/lon del formato GeoJSON [lon, lat]
-      const [endLongitude, endLatitude] = event.endLocation.coordinates;
-      const [startLongitude, startLatitude] = [trip.start_lon, trip.start_lat];
-
-      // Extraer métricas del contexto del trip (vienen en metadata)
-      const tripMetrics = event.metadata?.tripQualityMetrics || {};
-      const maxDistanceFromOrigin = event.metadata?.maxDistanceFromOrigin || 0;
-      const boundingBoxDiameter = event.metadata?.boundingBoxDiameter || 0;
-
-      // Analizar calidad del trip (solo métricas, SIN correcciones)
-      const qualityAnalysis = this.tripQualityAnalyzer.analyzeTripQuality(
-        startLatitude,
-        startLongitude,
-        endLatitude,
-        endLongitude,
-        event.distance, // Ya viene corregida por ruido GPS
-        maxDistanceFromOrigin,
-        boundingBoxDiameter,
-        event.avgSpeed || 0,
-        tripMetrics.gpsNoiseSegments || 0,
-        tripMetrics.segmentsTotal || 0,
+    // Verificar que el trip pertenece al dispositivo correcto
+    if (trip.id_activo !== event.deviceId) {
+      this.logger.error(
+        `Trip ${event.tripId} pertenece a device ${trip.id_activo}, no a ${event.deviceId}`,
       );
+      return;
+    }
 
-      // La distancia final es la que viene del evento (ya corregida por ruido GPS)
-      const finalDistance = event.distance;
-
-      // Geocodificar el fin una sola vez (al completar el trip), best-effort.
-      const end_address = await this.geocode.reverse(endLatitude, endLongitude);
-
-      // Actualizar con datos finales y métricas de calidad
-      await this.tripRepository.update(trip.id, {
+    // Extraer lat/lon del formato GeoJSON [lon, lat]
+    const [endLongitude, endLatitude] = event.endLocation.coordinates;
+    const [startLongitude, startLatitude] = [trip.start_lon, trip.start_lat];
+
+    // Extraer métricas del contexto del trip (vienen en metadata)
+    const tripMetrics = event.metadata?.tripQualityMetrics || {};
+    const maxDistanceFromOrigin = event.metadata?.maxDistanceFromOrigin || 0;
+    const boundingBoxDiameter = event.metadata?.boundingBoxDiameter || 0;
+
+    // Analizar calidad del trip (solo métricas, SIN correcciones)
+    const qualityAnalysis = this.tripQualityAnalyzer.analyzeTripQuality(
+      startLatitude,
+      startLongitude,
+      endLatitude,
+      endLongitude,
+      event.distance, // Ya viene corregida por ruido GPS
+      maxDistanceFromOrigin,
+      boundingBoxDiameter,
+      event.avgSpeed || 0,
+      tripMetrics.gpsNoiseSegments || 0,
+      tripMetrics.segmentsTotal || 0,
+    );
+
+    // La distancia final es la que viene del evento (ya corregida por ruido GPS)
+    const finalDistance = event.distance;
+
+    // Geocodificar el fin una sola vez (al completar el trip), best-effort.
+    const end_address = await this.geocode.reverse(endLatitude, endLongitude);
+    const endGeofence = this.geofences.findBestMatch(
+      endLatitude,
+      endLongitude,
+      event.metadata,
+    );
+
+    // Actualizar con datos finales y métricas de calidad
+    await this.tripRepository.update(
+      trip.id,
+      {
         end_time: new Date(event.endTime),
         end_lat: endLatitude,
         end_lon: endLongitude,
         end_address,
+        end_geofence_id: endGeofence?.id ?? null,
         distance: finalDistance,
         distance_original: tripMetrics.originalDistance || event.distance,
         distance_linear: qualityAnalysis.linearDistance,
@@ -241,21 +300,21 @@ export class TripPersistenceService implements OnModuleInit {
         avg_speed: event.avgSpeed,
         duration: event.duration,
         stop_count: event.stopsCount,
+        end_engine_hours: event.engineHours ?? null,
+        // El conductor puede aparecer después de confirmado el trip
+        driver_id: event.driverId ?? trip.driver_id,
+        spent_fuel: event.spentFuel ?? null,
         is_active: false,
         metadata: event.metadata || trip.metadata || undefined,
-      });
-
-      this.logger.log(
-        `Trip ${trip.id} completado para device ${event.deviceId}: ` +
-          `${finalDistance.toFixed(0)}m en ${event.duration}s ` +
-          `(quality: ${qualityAnalysis.qualityFlag})`,
-      );
-    } catch (error) {
-      this.logger.error(
-        `Error completando trip en BD: ${error.message}`,
-        error.stack,
-      );
-    }
+      },
+      manager,
+    );
+
+    this.logger.log(
+      `Trip ${trip.id} completado para device ${event.deviceId}: ` +
+        `${finalDistance.toFixed(0)}m en ${event.duration}s ` +
+        `(quality: ${qualityAnalysis.qualityFlag})`,
+    );
   }
 
   /**
@@ -288,8 +347,10 @@ export class TripPersistenceService implements OnModuleInit {
         return;
       }
 
-      // Eliminar trip de la BD
+      // Eliminar trip de la BD (con sus eventos de manejo y excesos de velocidad)
       await this.tripRepository.delete(event.tripId);
+      await this.drivingEventRepository.deleteByTripIds([event.tripId]);
+      await this.speedingEventRepository.deleteByTripIds([event.tripId]);
 
       this.logger.log(
         `Trip ${event.tripId} eliminado de BD para device ${event.deviceId}: ` +
@@ -0,0 +1,158 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TripRouteBufferService } from './trip-route-buffer.service';
+import { TripRepository } from '../../database/repositories/trip.repository';
+import { ClusterService } from '../../auxiliares/cluster/cluster.service';
+import { IPositionEvent } from '../../interfaces';
+import { ROUTE_POINTS_BATCH_SIZE } from '../../env';
+
+/**
+ * El recorrido de un trip se escribe en lotes: nada se persiste antes de confirmar
+ * el trip, los lotes conservan el orden aunque la escritura falle, y un trip
+ * descartado no escribe nada.
+ */
+describe('TripRouteBufferService', () => {
+  let service: TripRouteBufferService;
+  let tripRepository: { appendRoutePoints: jest.Mock };
+
+  const tripId = 'trip_TEST-001_1';
+
+  const pos = (i: number): IPositionEvent => ({
+    deviceId: 'TEST-001',
+    timestamp: Date.UTC(2024, 0, 1, 8, 0, i),
+    latitude: -31.4 + i * 0.001,
+    longitude: -64.18,
+    speed: 30,
+  });
+
+  beforeEach(async () => {
+    tripRepository = {
+      appendRoutePoints: jest.fn().mockResolvedValue(true),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TripRouteBufferService,
+        { provide: TripRepository, useValue: tripRepository },
+        { provide: ClusterService, useValue: { onRelease: jest.fn() } },
+      ],
+    }).compile();
+
+    // Sin init(): no se arranca el flush periódico
+    service = module.get(TripRouteBufferService);
+  });
+
+  it('no escribe puntos de un trip sin confirmar', async () => {
+    for (let i = 0; i < ROUTE_POINTS_BATCH_SIZE + 5; i++) {
+      await service.addPoint(tripId, 'TEST-001', pos(i));
+    }
+    await service.flushAll();
+
+    expect(tripRepository.appendRoutePoints).not.toHaveBeenCalled();
+    expect(service.getMetrics().pendingPoints).toBe(
+      ROUTE_POINTS_BATCH_SIZE + 5,
+    );
+  });
+
+  it('escribe en un único lote al alcanzar el tamaño de batch', async () => {
+    service.markConfirmed(tripId, 'TEST-001');
+    for (let i = 0; i < ROUTE_POINTS_BATCH_SIZE; i++) {
+      await service.addPoint(tripId, 'TEST-001', pos(i));
+    }
+
+    expect(tripRepository.appendRoutePoints).toHaveBeenCalledTimes(1);
+    const [id, points] = tripRepository.appendRoutePoints.mock.calls[0];
+    expect(id).toBe(tripId);
+    expect(points).toHaveLength(ROUTE_POINTS_BATCH_SIZE);
+    expect(points[0]).toEqual({
+      lat: -31.4,
+      lon: -64.18,
+      timestamp: '2024-01-01T08:00:00.000Z',
+      speed: 30,
+    });
+  });
+
+  it('al completar el trip escribe lo pendiente y libera el buffer', async () => {
+    await service.addPoint(tripId, 'TEST-001', pos(0));
+    await service.addPoint(tripId, 'TEST-001', pos(1));
+    await service.complete(tripId);
+
+    expect(tripRepository.appendRoutePoints).toHaveBeenCalledWith(
+      tripId,
+      expect.any(Array),
+    );
+    expect(service.getMetrics()).toEqual({
+      activeBuffers: 0,
+      pendingPoints: 0,
+      droppedPoints: 0,
+    });
+  });
+
+  it('si el trip aún no está en BD conserva los puntos en orden para el próximo flush', async () => {
+    tripRepository.appendRoutePoints.mockResolvedValueOnce(false);
+    service.markConfirmed(tripId, 'TEST-001');
+    await service.addPoint(tripId, 'TEST-001', pos(0));
+    await service.flushAll();
+    await service.addPoint(tripId, 'TEST-001', pos(1));
+    await service.flushAll();
+
+    expect(tripRepository.appendRoutePoints).toHaveBeenCalledTimes(2);
+    const [, points] = tripRepository.appendRoutePoints.mock.calls[1];
+    expect(points.map((p: { timestamp: string }) => p.timestamp)).toEqual([
+      '2024-01-01T08:00:00.000Z',
+      '2024-01-01T08:00:01.000Z',
+    ]);
+  });
+
+  it('un trip descartado no escribe nada', async () => {
+    service.markConfirmed(tripId, 'TEST-001');
+    await service.addPoint(tripId, 'TEST-001', pos(0));
+    service.discard(tripId);
+    await service.flushAll();
+
+    expect(tripRepository.appendRoutePoints).not.toHaveBeenCalled();
+    expect(service.getMetrics().activeBuffers).toBe(0);
+  });
+
+  it('al liberar el device escribe lo pendiente y suelta sus buffers', async () => {
+    const otherTrip = 'trip_TEST-002_1';
+    service.markConfirmed(tripId, 'TEST-001');
+    await service.addPoint(tripId, 'TEST-001', pos(0));
+    await service.addPoint(otherTrip, 'TEST-002', pos(1));
+
+    await service.releaseDevice('TEST-001');
+
+    expect(tripRepository.appendRoutePoints).toHaveBeenCalledWith(tripId, [
+      expect.objectContaining({ timestamp: '2024-01-01T08:00:00.000Z' }),
+    ]);
+    // Los demás devices siguen en memoria
+    expect(service.getMetrics()).toEqual({
+      activeBuffers: 1,
+      pendingPoints: 1,
+      droppedPoints: 0,
+    });
+  });
+
+  it('espera la escritura en curso antes de liberar y cuenta lo que no se escribió', async () => {
+    let finishWrite!: (written: boolean) => void;
+    tripRepository.appendRoutePoints.mockReturnValueOnce(
+      new Promise((resolve) => (finishWrite = resolve)),
+    );
+    service.markConfirmed(tripId, 'TEST-001');
+    await service.addPoint(tripId, 'TEST-001', pos(0));
+    const scheduled = service.flushAll();
+
+    // Llega otra posición mientras se escribe la anterior
+    await service.addPoint(tripId, 'TEST-001', pos(1));
+    tripRepository.appendRoutePoints.mockResolvedValue(false);
+    const released = service.releaseDevice('TEST-001');
+    finishWrite(true);
+    await Promise.all([scheduled, released]);
+
+    expect(tripRepository.appendRoutePoints).toHaveBeenCalledTimes(2);
+    expect(service.getMetrics()).toEqual({
+      activeBuffers: 0,
+      pendingPoints: 0,
+      droppedPoints: 1,
+    });
+  });
+});
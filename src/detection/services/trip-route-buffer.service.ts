@@ -0,0 +1,311 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import {
+  TripRepository,
+  IRoutePoint,
+} from '../../database/repositories/trip.repository';
+import { IPositionEvent } from '../../interfaces';
+import { ClusterService } from '../../auxiliares/cluster/cluster.service';
+import { DEFAULT_THRESHOLDS } from '../models';
+import {
+  ROUTE_POINTS_ENABLED,
+  ROUTE_POINTS_BATCH_SIZE,
+  ROUTE_POINTS_FLUSH_INTERVAL_MS,
+} from '../../env';
+
+/**
+ * Convierte una posición al formato de trips.route_points
+ */
+export const toRoutePoint = (position: IPositionEvent): IRoutePoint => ({
+  lat: position.latitude,
+  lon: position.longitude,
+  timestamp: new Date(position.timestamp).toISOString(),
+  speed: position.speed,
+});
+
+/**
+ * Buffer del recorrido de un trip pendiente de escribir en BD
+ */
+interface ITripRouteBuffer {
+  deviceId: string;
+  points: IRoutePoint[];
+  confirmed: boolean; // el trip ya se publicó (trip:started) → existe o existirá en BD
+  completed: boolean; // el trip terminó: flushear lo pendiente y liberar el buffer
+  flushing?: Promise<void>; // escritura en curso
+  failedFlushes: number;
+  lastActivity: number;
+}
+
+/**
+ * Servicio que acumula las posiciones de cada trip y las persiste en
+ * trips.route_points en lotes.
+ *
+ * - Las posiciones se bufferean desde el inicio del trip, pero solo se escriben
+ *   cuando el trip fue confirmado (ya se publicó trip:started).
+ * - Se flushea al llegar a ROUTE_POINTS_BATCH_SIZE puntos, periódicamente
+ *   (ROUTE_POINTS_FLUSH_INTERVAL_MS) y al completarse el trip.
+ * - Si el trip todavía no existe en BD (trip:started aún en la cola de persistencia),
+ *   los puntos quedan en el buffer y se reintenta en el próximo flush.
+ * - Un trip descartado libera su buffer sin escribir.
+ * - Al apagarse la instancia, o al pasar el device a otra instancia (ver
+ *   ClusterService.onRelease), se escribe lo pendiente antes de liberar el device:
+ *   la nueva dueña continúa el trip sin huecos en el recorrido.
+ * - Los puntos que no se pudieron escribir se cuentan en las métricas
+ *   (droppedPoints).
+ */
+@Injectable()
+export class TripRouteBufferService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(TripRouteBufferService.name);
+  private buffers = new Map<string, ITripRouteBuffer>();
+  private flushInterval?: NodeJS.Timeout;
+  private droppedPoints = 0;
+
+  // Reintentos de un lote cuyo trip no aparece en BD antes de descartarlo
+  private readonly MAX_FAILED_FLUSHES = 10;
+  // Buffers sin actividad por más de este tiempo se liberan (trip cerrado por cleanup)
+  private readonly STALE_BUFFER_MS =
+    DEFAULT_THRESHOLDS.orphanTripTimeout * 1000;
+
+  constructor(
+    private readonly tripRepository: TripRepository,
+    private readonly clusterService: ClusterService,
+  ) {}
+
+  onModuleInit() {
+    if (!ROUTE_POINTS_ENABLED) {
+      this.logger.warn(
+        'Route points DESACTIVADO (ROUTE_POINTS_ENABLED=false). Los trips no guardan recorrido.',
+      );
+      return;
+    }
+
+    this.clusterService.onRelease((deviceId) => this.releaseDevice(deviceId));
+
+    this.flushInterval = setInterval(() => {
+      this.flushAll().catch((error) => {
+        this.logger.error('Error in scheduled route flush', error.stack);
+      });
+    }, ROUTE_POINTS_FLUSH_INTERVAL_MS);
+  }
+
+  async onModuleDestroy() {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+    }
+    await this.flushAll();
+  }
+
+  /**
+   * Agrega una posición al recorrido del trip
+   */
+  async addPoint(
+    tripId: string,
+    deviceId: string,
+    position: IPositionEvent,
+  ): Promise<void> {
+    if (!ROUTE_POINTS_ENABLED) return;
+
+    const buffer = this.getOrCreateBuffer(tripId, deviceId);
+    buffer.points.push(toRoutePoint(position));
+    buffer.lastActivity = Date.now();
+
+    if (buffer.confirmed && buffer.points.length >= ROUTE_POINTS_BATCH_SIZE) {
+      await this.flush(tripId);
+    }
+  }
+
+  /**
+   * Marca el trip como confirmado: a partir de ahora sus puntos se pueden escribir
+   */
+  markConfirmed(tripId: string, deviceId: string): void {
+    if (!ROUTE_POINTS_ENABLED) return;
+
+    this.getOrCreateBuffer(tripId, deviceId).confirmed = true;
+  }
+
+  /**
+   * El trip terminó: escribe lo pendiente y libera el buffer
+   */
+  async complete(tripId: string): Promise<void> {
+    const buffer = this.buffers.get(tripId);
+    if (!buffer) return;
+
+    buffer.confirmed = true;
+    buffer.completed = true;
+    await this.flush(tripId);
+  }
+
+  /**
+   * El trip fue descartado: se liberan sus puntos sin escribirlos
+   */
+  discard(tripId: string): void {
+    this.buffers.delete(tripId);
+  }
+
+  /**
+   * El device pasa a otra instancia (o esta se apaga): escribe lo pendiente de sus
+   * trips y libera los buffers, para no escribir después que la nueva dueña
+   */
+  async releaseDevice(deviceId: string): Promise<void> {
+    for (const [tripId, buffer] of this.buffers) {
+      if (buffer.deviceId !== deviceId) continue;
+
+      await this.flush(tripId);
+
+      if (!this.buffers.has(tripId)) continue;
+      this.buffers.delete(tripId);
+
+      if (buffer.points.length > 0) {
+        this.droppedPoints += buffer.points.length;
+        this.logger.warn(
+          `Releasing route buffer for trip ${tripId} (device ${deviceId}): ` +
+            `${buffer.points.length} points not written` +
+            (buffer.confirmed ? '' : ' (trip not confirmed yet)'),
+        );
+      }
+    }
+  }
+
+  /**
+   * Flushea todos los buffers confirmados y libera los abandonados
+   */
+  async flushAll(): Promise<void> {
+    const now = Date.now();
+
+    for (const [tripId, buffer] of this.buffers) {
+      await this.flush(tripId);
+
+      if (
+        this.buffers.has(tripId) &&
+        now - buffer.lastActivity > this.STALE_BUFFER_MS
+      ) {
+        this.logger.warn(
+          `Releasing stale route buffer for trip ${tripId} (device ${buffer.deviceId}): ` +
+            `${buffer.points.length} points not written`,
+        );
+        this.droppedPoints += buffer.points.length;
+        this.buffers.delete(tripId);
+      }
+    }
+  }
+
+  /**
+   * Obtiene métricas del buffer
+   */
+  getMetrics() {
+    let pendingPoints = 0;
+    for (const buffer of this.buffers.values()) {
+      pendingPoints += buffer.points.length;
+    }
+
+    return {
+      activeBuffers: this.buffers.size,
+      pendingPoints,
+      droppedPoints: this.droppedPoints,
+    };
+  }
+
+  private getOrCreateBuffer(
+    tripId: string,
+    deviceId: string,
+  ): ITripRouteBuffer {
+    let buffer = this.buffers.get(tripId);
+
+    if (!buffer) {
+      buffer = {
+        deviceId,
+        points: [],
+        confirmed: false,
+        completed: false,
+        failedFlushes: 0,
+        lastActivity: Date.now(),
+      };
+      this.buffers.set(tripId, buffer);
+    }
+
+    return buffer;
+  }
+
+  /**
+   * Escribe los puntos pendientes de un trip en un único UPDATE.
+   * Si ya hay una escritura en curso espera a que termine y escribe lo que llegó
+   * mientras tanto (no escribe en paralelo).
+   */
+  private async flush(tripId: string): Promise<void> {
+    const buffer = this.buffers.get(tripId);
+    if (!buffer || !buffer.confirmed) return;
+
+    if (buffer.flushing) {
+      await buffer.flushing;
+      return this.flush(tripId);
+    }
+
+    if (buffer.points.length === 0) {
+      if (buffer.completed) this.buffers.delete(tripId);
+      return;
+    }
+
+    buffer.flushing = this.write(tripId, buffer).finally(() => {
+      buffer.flushing = undefined;
+    });
+    await buffer.flushing;
+  }
+
+  /**
+   * Los puntos se sacan del buffer antes de escribir; si la escritura falla vuelven
+   * al frente del buffer para conservar el orden.
+   */
+  private async write(tripId: string, buffer: ITripRouteBuffer): Promise<void> {
+    const points = buffer.points.splice(0);
+
+    try {
+      const written = await this.tripRepository.appendRoutePoints(
+        tripId,
+        points,
+      );
+
+      if (written) {
+        buffer.failedFlushes = 0;
+        this.logger.debug(
+          `Appended ${points.length} route points to trip ${tripId}`,
+        );
+      } else {
+        buffer.points.unshift(...points);
+        this.registerFailedFlush(tripId, buffer, 'trip not found in DB');
+      }
+    } catch (error) {
+      buffer.points.unshift(...points);
+      this.registerFailedFlush(tripId, buffer, error.message);
+    }
+
+    if (buffer.completed && buffer.points.length === 0) {
+      this.buffers.delete(tripId);
+    }
+  }
+
+  private registerFailedFlush(
+    tripId: string,
+    buffer: ITripRouteBuffer,
+    reason: string,
+  ): void {
+    buffer.failedFlushes++;
+
+    if (buffer.failedFlushes >= this.MAX_FAILED_FLUSHES) {
+      this.logger.error(
+        `Dropping ${buffer.points.length} route points for trip ${tripId} ` +
+          `(device ${buffer.deviceId}) after ${buffer.failedFlushes} failed flushes: ${reason}`,
+      );
+      this.droppedPoints += buffer.points.length;
+      this.buffers.delete(tripId);
+      return;
+    }
+
+    this.logger.debug(
+      `Route flush for trip ${tripId} postponed (${buffer.failedFlushes}/${this.MAX_FAILED_FLUSHES}): ${reason}`,
+    );
+  }
+}
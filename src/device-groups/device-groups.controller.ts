@@ -0,0 +1,438 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  ParseIntPipe,
+  ValidationPipe,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { DeviceGroupRepository } from '../database/repositories';
+import type { DeviceGroup } from '../database/entities';
+import {
+  CreateDeviceGroupDto,
+  UpdateDeviceGroupDto,
+  AddGroupDevicesDto,
+  QueryDeviceGroupsDto,
+} from './dto';
+
+/**
+ * Controller de grupos de dispositivos
+ *
+ * Endpoints:
+ * - GET /device-groups?tenantId= - Lista de grupos
+ * - GET /device-groups/:id - Grupo (miembros directos y subgrupos)
+ * - GET /device-groups/:id/devices - Dispositivos del grupo incluyendo subgrupos
+ * - POST /device-groups - Crear grupo
+ * - PATCH /device-groups/:id - Modificar grupo (deviceIds reemplaza los miembros)
+ * - DELETE /device-groups/:id - Eliminar grupo (sin subgrupos)
+ * - POST /device-groups/:id/devices - Agregar dispositivos
+ * - DELETE /device-groups/:id/devices/:deviceId - Quitar un dispositivo
+ *
+ * Los reportes aceptan ?groupId= y lo expanden a los dispositivos del grupo.
+ */
+@Controller('device-groups')
+export class DeviceGroupsController {
+  private readonly logger = new Logger(DeviceGroupsController.name);
+
+  constructor(private readonly deviceGroupRepository: DeviceGroupRepository) {}
+
+  /**
+   * GET /device-groups
+   */
+  @Get()
+  async listGroups(
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: QueryDeviceGroupsDto,
+  ) {
+    try {
+      const groups = await this.deviceGroupRepository.findAll({
+        tenantId: query.tenantId,
+      });
+
+      return {
+        success: true,
+        data: groups.map((group) => this.mapGroup(group)),
+      };
+    } catch (error) {
+      this.logger.error('Error listing device groups', error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: 'Error listing device groups',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * GET /device-groups/:id
+   */
+  @Get(':id')
+  async getGroup(@Param('id', ParseIntPipe) id: number) {
+    try {
+      const group = await this.findGroupOrFail(id);
+      const children = await this.deviceGroupRepository.findChildren(id);
+
+      return {
+        success: true,
+        data: {
+          ...this.mapGroup(group),
+          childGroupIds: children.map((child) => child.id),
+        },
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Error getting device group ${id}`, error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: 'Error getting device group',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * GET /device-groups/:id/devices
+   * Dispositivos que incluye el grupo en los reportes (con los de sus subgrupos)
+   */
+  @Get(':id/devices')
+  async getGroupDevices(@Param('id', ParseIntPipe) id: number) {
+    try {
+      await this.findGroupOrFail(id);
+      const deviceIds = await this.deviceGroupRepository.findDeviceIdsByGroups([
+        id,
+      ]);
+
+      return {
+        success: true,
+        data: {
+          groupId: id,
+          deviceIds,
+        },
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Error getting devices of group ${id}`, error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: 'Error getting group devices',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * POST /device-groups
+   *
+   * Body:
+   * { "name": "Camiones", "parentId": 1, "deviceIds": ["TRUCK-001", "TRUCK-002"] }
+   */
+  @Post()
+  async createGroup(
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: CreateDeviceGroupDto,
+  ) {
+    try {
+      if (dto.parentId !== undefined) {
+        await this.validateParent(null, dto.parentId);
+      }
+
+      const group = await this.deviceGroupRepository.create({
+        name: dto.name,
+        parent_id: dto.parentId ?? null,
+        device_ids: this.unique(dto.deviceIds ?? []),
+        tenant_id: dto.tenantId ?? null,
+        metadata: dto.metadata ?? null,
+      });
+
+      this.logger.log(`Device group created: ${group.name} (${group.id})`);
+
+      return {
+        success: true,
+        data: this.mapGroup(group),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error('Error creating device group', error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error creating device group',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * PATCH /device-groups/:id
+   */
+  @Patch(':id')
+  async updateGroup(
+    @Param('id', ParseIntPipe) id: number,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: UpdateDeviceGroupDto,
+  ) {
+    try {
+      await this.findGroupOrFail(id);
+
+      if (dto.parentId != null) {
+        await this.validateParent(id, dto.parentId);
+      }
+
+      const group = await this.deviceGroupRepository.update(id, {
+        name: dto.name,
+        parent_id: dto.parentId,
+        device_ids: dto.deviceIds ? this.unique(dto.deviceIds) : undefined,
+        tenant_id: dto.tenantId,
+        metadata: dto.metadata,
+      });
+
+      this.logger.log(`Device group updated: ${id}`);
+
+      return {
+        success: true,
+        data: this.mapGroup(group!),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Error updating device group ${id}`, error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error updating device group',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * DELETE /device-groups/:id
+   * Un grupo con subgrupos no se puede eliminar (moverlos o eliminarlos antes)
+   */
+  @Delete(':id')
+  async deleteGroup(@Param('id', ParseIntPipe) id: number) {
+    try {
+      await this.findGroupOrFail(id);
+
+      const children = await this.deviceGroupRepository.findChildren(id);
+      if (children.length > 0) {
+        throw new HttpException(
+          {
+            statusCode: HttpStatus.CONFLICT,
+            message: `Device group ${id} has ${children.length} child group(s)`,
+            error: 'Conflict',
+          },
+          HttpStatus.CONFLICT,
+        );
+      }
+
+      await this.deviceGroupRepository.delete(id);
+
+      this.logger.log(`Device group deleted: ${id}`);
+
+      return {
+        success: true,
+        message: `Device group ${id} deleted`,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Error deleting device group ${id}`, error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error deleting device group',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * POST /device-groups/:id/devices
+   *
+   * Body:
+   * { "deviceIds": ["TRUCK-003"] }
+   */
+  @Post(':id/devices')
+  async addDevices(
+    @Param('id', ParseIntPipe) id: number,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: AddGroupDevicesDto,
+  ) {
+    try {
+      const current = await this.findGroupOrFail(id);
+
+      const group = await this.deviceGroupRepository.update(id, {
+        device_ids: this.unique([...current.device_ids, ...dto.deviceIds]),
+      });
+
+      this.logger.log(
+        `Devices added to group ${id}: ${dto.deviceIds.join(', ')}`,
+      );
+
+      return {
+        success: true,
+        data: this.mapGroup(group!),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Error adding devices to group ${id}`, error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error adding devices to group',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * DELETE /device-groups/:id/devices/:deviceId
+   */
+  @Delete(':id/devices/:deviceId')
+  async removeDevice(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('deviceId') deviceId: string,
+  ) {
+    try {
+      const current = await this.findGroupOrFail(id);
+
+      const group = await this.deviceGroupRepository.update(id, {
+        device_ids: current.device_ids.filter((member) => member !== deviceId),
+      });
+
+      this.logger.log(`Device ${deviceId} removed from group ${id}`);
+
+      return {
+        success: true,
+        data: this.mapGroup(group!),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(
+        `Error removing device ${deviceId} from group ${id}`,
+        error.stack,
+      );
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error removing device from group',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * El padre debe existir y no puede ser el propio grupo ni uno de sus subgrupos
+   *
+   * @param groupId Grupo que se modifica (null si se está creando)
+   */
+  private async validateParent(
+    groupId: number | null,
+    parentId: number,
+  ): Promise<void> {
+    const parent = await this.deviceGroupRepository.findById(parentId);
+    if (!parent) {
+      throw this.badRequest(`Parent group ${parentId} not found`);
+    }
+
+    if (groupId !== null) {
+      const subtree = await this.deviceGroupRepository.findSubtreeIds(groupId);
+      if (subtree.includes(parentId)) {
+        throw this.badRequest(
+          `Group ${groupId} cannot be moved under itself or one of its subgroups`,
+        );
+      }
+    }
+  }
+
+  private unique(deviceIds: string[]): string[] {
+    return [...new Set(deviceIds.map((deviceId) => deviceId.trim()))];
+  }
+
+  private badRequest(message: string): HttpException {
+    return new HttpException(
+      {
+        statusCode: HttpStatus.BAD_REQUEST,
+        message,
+        error: 'Bad Request',
+      },
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+
+  private async findGroupOrFail(id: number): Promise<DeviceGroup> {
+    const group = await this.deviceGroupRepository.findById(id);
+
+    if (!group) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.NOT_FOUND,
+          message: `Device group ${id} not found`,
+          error: 'Not Found',
+        },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    return group;
+  }
+
+  private mapGroup(group: DeviceGroup) {
+    return {
+      id: group.id,
+      name: group.name,
+      parentId: group.parent_id,
+      deviceIds: group.device_ids,
+      tenantId: group.tenant_id,
+      metadata: group.metadata,
+      createdAt: group.created_at.toISOString(),
+      updatedAt: group.updated_at.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { DeviceGroupsController } from './device-groups.controller';
+
+/**
+ * Módulo de grupos de dispositivos (CRUD). La expansión de groupId en los
+ * reportes vive en ReportsService.
+ */
+@Module({
+  imports: [DatabaseModule],
+  controllers: [DeviceGroupsController],
+})
+export class DeviceGroupsModule {}
@@ -0,0 +1,98 @@
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsArray,
+  IsInt,
+  IsObject,
+  ArrayMinSize,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * DTO para crear un grupo de dispositivos
+ */
+export class CreateDeviceGroupDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  /**
+   * Grupo padre (el grupo queda incluido en los reportes del padre)
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  parentId?: number;
+
+  /**
+   * Dispositivos miembros
+   * Ejemplo: ["TEST-001", "TEST-002"]
+   */
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  deviceIds?: string[];
+
+  @IsOptional()
+  @IsString()
+  tenantId?: string;
+
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
+
+/**
+ * DTO para modificar un grupo
+ * deviceIds reemplaza la lista completa de miembros; parentId: null lo deja en la raíz
+ */
+export class UpdateDeviceGroupDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  parentId?: number | null;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  deviceIds?: string[];
+
+  @IsOptional()
+  @IsString()
+  tenantId?: string;
+
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
+
+/**
+ * DTO para agregar dispositivos a un grupo
+ */
+export class AddGroupDevicesDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  deviceIds: string[];
+}
+
+/**
+ * Query params de GET /device-groups
+ */
+export class QueryDeviceGroupsDto {
+  @IsOptional()
+  @IsString()
+  tenantId?: string;
+}
@@ -0,0 +1 @@
+export * from './device-group.dto';
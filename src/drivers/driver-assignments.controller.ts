@@ -0,0 +1,326 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  ValidationPipe,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { DriverService } from '../detection/services';
+import { DriverRepository } from '../database/repositories';
+import type { DriverAssignment } from '../database/entities';
+import {
+  CreateDriverAssignmentDto,
+  UpdateDriverAssignmentDto,
+  QueryDriverAssignmentsDto,
+} from './dto';
+
+/**
+ * Controller de asignaciones de conductores a dispositivos
+ *
+ * Endpoints:
+ * - GET /driver-assignments?deviceId=&driverId=&from=&to= - Lista de asignaciones
+ * - POST /driver-assignments - Asignar un conductor a un dispositivo desde/hasta
+ * - PATCH /driver-assignments/:id - Cerrar (endTime) o reabrir (endTime: null)
+ * - DELETE /driver-assignments/:id - Eliminar asignación
+ *
+ * Las asignaciones de un mismo dispositivo no se pueden superponer. Solo se usan para
+ * las posiciones que no traen el conductor en su metadata; los trips/stops ya
+ * registrados no cambian (para recalcularlos: POST /replay).
+ */
+@Controller('driver-assignments')
+export class DriverAssignmentsController {
+  private readonly logger = new Logger(DriverAssignmentsController.name);
+
+  constructor(
+    private readonly driverRepository: DriverRepository,
+    private readonly driverService: DriverService,
+  ) {}
+
+  /**
+   * GET /driver-assignments
+   */
+  @Get()
+  async listAssignments(
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: QueryDriverAssignmentsDto,
+  ) {
+    try {
+      const assignments = await this.driverRepository.findAssignments({
+        deviceId: query.deviceId,
+        driverUniqueId: query.driverId,
+        from: query.from ? new Date(query.from) : undefined,
+        to: query.to ? new Date(query.to) : undefined,
+      });
+
+      return {
+        success: true,
+        data: assignments.map((assignment) => this.mapAssignment(assignment)),
+      };
+    } catch (error) {
+      this.logger.error('Error listing driver assignments', error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: 'Error listing driver assignments',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * POST /driver-assignments
+   *
+   * Body:
+   * { "deviceId": "TRUCK-001", "driverId": "IBUTTON-01A2B3", "startTime": "2024-01-15T06:00:00Z" }
+   *
+   * Si el dispositivo tiene una asignación abierta que empezó antes de startTime, se
+   * cierra en startTime (cambio de turno).
+   */
+  @Post()
+  async createAssignment(
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: CreateDriverAssignmentDto,
+  ) {
+    try {
+      const startTime = new Date(dto.startTime);
+      const endTime = dto.endTime ? new Date(dto.endTime) : null;
+      this.validateRange(startTime, endTime);
+
+      const overlapping = await this.findOverlapping(
+        dto.deviceId,
+        startTime,
+        endTime,
+      );
+      const replaced = overlapping.filter(
+        (assignment) =>
+          !assignment.end_time && assignment.start_time < startTime,
+      );
+      if (replaced.length < overlapping.length) {
+        throw this.conflict(
+          `Device ${dto.deviceId} already has a driver assigned in that period`,
+        );
+      }
+
+      for (const assignment of replaced) {
+        await this.driverRepository.updateAssignment(assignment.id, {
+          end_time: startTime,
+        });
+      }
+
+      const assignment = await this.driverRepository.createAssignment({
+        device_id: dto.deviceId,
+        driver_unique_id: dto.driverId,
+        start_time: startTime,
+        end_time: endTime,
+      });
+      await this.driverService.reload();
+
+      this.logger.log(
+        `Driver ${dto.driverId} assigned to device ${dto.deviceId} from ${dto.startTime}`,
+      );
+
+      return {
+        success: true,
+        data: this.mapAssignment(assignment),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error('Error creating driver assignment', error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error creating driver assignment',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * PATCH /driver-assignments/:id
+   *
+   * Body: { "endTime": "2024-01-15T14:00:00Z" }
+   */
+  @Patch(':id')
+  async updateAssignment(
+    @Param('id') id: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: UpdateDriverAssignmentDto,
+  ) {
+    try {
+      const current = await this.findAssignmentOrFail(id);
+
+      if (dto.endTime === undefined) {
+        return {
+          success: true,
+          data: this.mapAssignment(current),
+        };
+      }
+
+      const endTime = dto.endTime ? new Date(dto.endTime) : null;
+      this.validateRange(current.start_time, endTime);
+
+      const overlapping = await this.findOverlapping(
+        current.device_id,
+        current.start_time,
+        endTime,
+        id,
+      );
+      if (overlapping.length > 0) {
+        throw this.conflict(
+          `Device ${current.device_id} already has a driver assigned in that period`,
+        );
+      }
+
+      const assignment = await this.driverRepository.updateAssignment(id, {
+        end_time: endTime,
+      });
+      await this.driverService.reload();
+
+      this.logger.log(`Driver assignment updated: ${id}`);
+
+      return {
+        success: true,
+        data: this.mapAssignment(assignment!),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Error updating driver assignment ${id}`, error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error updating driver assignment',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * DELETE /driver-assignments/:id
+   */
+  @Delete(':id')
+  async deleteAssignment(@Param('id') id: string) {
+    try {
+      await this.findAssignmentOrFail(id);
+      await this.driverRepository.deleteAssignment(id);
+      await this.driverService.reload();
+
+      this.logger.log(`Driver assignment deleted: ${id}`);
+
+      return {
+        success: true,
+        message: `Driver assignment ${id} deleted`,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Error deleting driver assignment ${id}`, error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error deleting driver assignment',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Asignaciones del dispositivo que se superponen con [startTime, endTime)
+   * (endTime null: abierta)
+   */
+  private async findOverlapping(
+    deviceId: string,
+    startTime: Date,
+    endTime: Date | null,
+    excludeId?: string,
+  ): Promise<DriverAssignment[]> {
+    const candidates = await this.driverRepository.findAssignments({
+      deviceId,
+      from: startTime,
+      to: endTime ?? undefined,
+    });
+
+    // El repositorio compara con <= / >=: una asignación que termina justo cuando
+    // empieza la otra no se superpone
+    return candidates.filter(
+      (assignment) =>
+        assignment.id !== excludeId &&
+        (!endTime || assignment.start_time < endTime) &&
+        (!assignment.end_time || assignment.end_time > startTime),
+    );
+  }
+
+  private validateRange(startTime: Date, endTime: Date | null): void {
+    if (endTime && endTime <= startTime) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.BAD_REQUEST,
+          message: 'endTime must be after startTime',
+          error: 'Bad Request',
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+
+  private conflict(message: string): HttpException {
+    return new HttpException(
+      {
+        statusCode: HttpStatus.CONFLICT,
+        message,
+        error: 'Conflict',
+      },
+      HttpStatus.CONFLICT,
+    );
+  }
+
+  private async findAssignmentOrFail(id: string): Promise<DriverAssignment> {
+    const assignment = await this.driverRepository.findAssignmentById(id);
+
+    if (!assignment) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.NOT_FOUND,
+          message: `Driver assignment ${id} not found`,
+          error: 'Not Found',
+        },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    return assignment;
+  }
+
+  private mapAssignment(assignment: DriverAssignment) {
+    return {
+      id: assignment.id,
+      deviceId: assignment.device_id,
+      driverId: assignment.driver_unique_id,
+      startTime: assignment.start_time.toISOString(),
+      endTime: assignment.end_time?.toISOString() ?? null,
+      createdAt: assignment.created_at.toISOString(),
+    };
+  }
+}
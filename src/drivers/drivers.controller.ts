@@ -0,0 +1,257 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  ValidationPipe,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { DriverService } from '../detection/services';
+import { DriverRepository } from '../database/repositories';
+import type { Driver } from '../database/entities';
+import { CreateDriverDto, UpdateDriverDto, QueryDriversDto } from './dto';
+
+/**
+ * Controller de conductores
+ *
+ * Endpoints:
+ * - GET /drivers?tenantId= - Lista de conductores
+ * - GET /drivers/:id - Conductor
+ * - POST /drivers - Dar de alta un conductor
+ * - PATCH /drivers/:id - Modificar conductor (nombre, tenant, metadata)
+ * - DELETE /drivers/:id - Eliminar conductor y sus asignaciones
+ *
+ * El alta no es obligatoria para registrar el conductor en trips/stops: solo agrega
+ * el nombre en los reportes. Los trips/stops ya registrados conservan su driver_id.
+ */
+@Controller('drivers')
+export class DriversController {
+  private readonly logger = new Logger(DriversController.name);
+
+  constructor(
+    private readonly driverRepository: DriverRepository,
+    private readonly driverService: DriverService,
+  ) {}
+
+  /**
+   * GET /drivers
+   */
+  @Get()
+  async listDrivers(
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: QueryDriversDto,
+  ) {
+    try {
+      const drivers = await this.driverRepository.findAll({
+        tenantId: query.tenantId,
+      });
+
+      return {
+        success: true,
+        data: drivers.map((driver) => this.mapDriver(driver)),
+      };
+    } catch (error) {
+      this.logger.error('Error listing drivers', error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: 'Error listing drivers',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * GET /drivers/:id
+   */
+  @Get(':id')
+  async getDriver(@Param('id') id: string) {
+    try {
+      const driver = await this.findDriverOrFail(id);
+
+      return {
+        success: true,
+        data: this.mapDriver(driver),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Error getting driver ${id}`, error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: 'Error getting driver',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * POST /drivers
+   *
+   * Body:
+   * { "uniqueId": "IBUTTON-01A2B3", "name": "Juan Pérez", "tenantId": "acme-corp" }
+   */
+  @Post()
+  async createDriver(
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: CreateDriverDto,
+  ) {
+    try {
+      const existing = await this.driverRepository.findByUniqueId(dto.uniqueId);
+      if (existing) {
+        throw new HttpException(
+          {
+            statusCode: HttpStatus.CONFLICT,
+            message: `Driver '${dto.uniqueId}' already exists`,
+            error: 'Conflict',
+          },
+          HttpStatus.CONFLICT,
+        );
+      }
+
+      const driver = await this.driverRepository.create({
+        unique_id: dto.uniqueId,
+        name: dto.name,
+        tenant_id: dto.tenantId ?? null,
+        metadata: dto.metadata ?? null,
+      });
+
+      this.logger.log(`Driver created: ${driver.name} (${driver.unique_id})`);
+
+      return {
+        success: true,
+        data: this.mapDriver(driver),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error('Error creating driver', error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error creating driver',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * PATCH /drivers/:id
+   */
+  @Patch(':id')
+  async updateDriver(
+    @Param('id') id: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: UpdateDriverDto,
+  ) {
+    try {
+      await this.findDriverOrFail(id);
+
+      const driver = await this.driverRepository.update(id, {
+        name: dto.name,
+        tenant_id: dto.tenantId,
+        metadata: dto.metadata,
+      });
+
+      this.logger.log(`Driver updated: ${id}`);
+
+      return {
+        success: true,
+        data: this.mapDriver(driver!),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Error updating driver ${id}`, error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error updating driver',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * DELETE /drivers/:id
+   */
+  @Delete(':id')
+  async deleteDriver(@Param('id') id: string) {
+    try {
+      await this.findDriverOrFail(id);
+      await this.driverRepository.delete(id);
+      await this.driverService.reload();
+
+      this.logger.log(`Driver deleted: ${id}`);
+
+      return {
+        success: true,
+        message: `Driver ${id} deleted`,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Error deleting driver ${id}`, error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error deleting driver',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  private async findDriverOrFail(id: string): Promise<Driver> {
+    const driver = await this.driverRepository.findById(id);
+
+    if (!driver) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.NOT_FOUND,
+          message: `Driver ${id} not found`,
+          error: 'Not Found',
+        },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    return driver;
+  }
+
+  private mapDriver(driver: Driver) {
+    return {
+      id: driver.id,
+      uniqueId: driver.unique_id,
+      name: driver.name,
+      tenantId: driver.tenant_id,
+      metadata: driver.metadata,
+      createdAt: driver.created_at.toISOString(),
+      updatedAt: driver.updated_at.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { DetectionModule } from '../detection/detection.module';
+import { DriversController } from './drivers.controller';
+import { DriverAssignmentsController } from './driver-assignments.controller';
+
+/**
+ * Módulo de conductores y sus asignaciones a dispositivos (CRUD). La resolución del
+ * conductor de cada posición vive en DetectionModule (DriverService).
+ */
+@Module({
+  imports: [DatabaseModule, DetectionModule],
+  controllers: [DriversController, DriverAssignmentsController],
+})
+export class DriversModule {}
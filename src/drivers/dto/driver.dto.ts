@@ -0,0 +1,124 @@
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsObject,
+  IsDateString,
+  MaxLength,
+} from 'class-validator';
+
+/**
+ * DTO para dar de alta un conductor
+ */
+export class CreateDriverDto {
+  /**
+   * Identificador que reporta el equipo (iButton / tarjeta RFID) o que usan las
+   * asignaciones. No se puede modificar: es el driver_id de los trips y stops.
+   * Ejemplo: "IBUTTON-01A2B3"
+   */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  uniqueId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  tenantId?: string;
+
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
+
+/**
+ * DTO para modificar un conductor
+ */
+export class UpdateDriverDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  tenantId?: string;
+
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Query params de GET /drivers
+ */
+export class QueryDriversDto {
+  @IsOptional()
+  @IsString()
+  tenantId?: string;
+}
+
+/**
+ * DTO para asignar un conductor a un dispositivo
+ *
+ * Si el dispositivo tiene una asignación abierta que empezó antes, se cierra en startTime.
+ */
+export class CreateDriverAssignmentDto {
+  @IsString()
+  @IsNotEmpty()
+  deviceId: string;
+
+  /**
+   * ID único del conductor (no hace falta que esté dado de alta en /drivers)
+   */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  driverId: string;
+
+  @IsDateString()
+  startTime: string;
+
+  /**
+   * Sin endTime la asignación queda abierta hasta que se cierre o la reemplace otra
+   */
+  @IsOptional()
+  @IsDateString()
+  endTime?: string;
+}
+
+/**
+ * DTO para cerrar (o reabrir con null) una asignación
+ */
+export class UpdateDriverAssignmentDto {
+  @IsOptional()
+  @IsDateString()
+  endTime?: string | null;
+}
+
+/**
+ * Query params de GET /driver-assignments
+ * Con from/to: asignaciones que se solapan con el período
+ */
+export class QueryDriverAssignmentsDto {
+  @IsOptional()
+  @IsString()
+  deviceId?: string;
+
+  @IsOptional()
+  @IsString()
+  driverId?: string;
+
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
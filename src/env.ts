@@ -44,12 +44,19 @@ export const IGNITION_EXPIRY_DAYS = parseInt(
   10,
 ); // Días sin ignition=true antes de caer a motion-only
 
+// Engine hours
+export const ENGINE_HOURS_MAX_GAP = parseInt(
+  process.env.ENGINE_HOURS_MAX_GAP || '900',
+  10,
+); // Segundos máximos entre reportes para sumar horas de motor
+
 // Geocode (servicio EXTERNO de geocodificación inversa). Tripero guarda la
 // dirección de stops/trips al crearlos/completarlos (no en el path de lectura).
 // Genérico: no asume que sea gestión -> URL + PATH + API key configurables.
 // Si GEOCODE_URL está vacío, el geocoding queda deshabilitado (best-effort).
 export const GEOCODE_URL = process.env.GEOCODE_URL || '';
-export const GEOCODE_PATH = process.env.GEOCODE_PATH || '/geocode-cache/reverse';
+export const GEOCODE_PATH =
+  process.env.GEOCODE_PATH || '/geocode-cache/reverse';
 export const GEOCODE_APIKEY = process.env.GEOCODE_APIKEY || '';
 export const GEOCODE_TIMEOUT_MS = parseInt(
   process.env.GEOCODE_TIMEOUT_MS || '4000',
@@ -62,3 +69,222 @@ export const GEOCODE_TIMEOUT_MS = parseInt(
 // apuntada a una BD compartida, para no cerrar trips/stops de otros devices).
 export const ORPHAN_CLEANUP_ENABLED =
   process.env.ORPHAN_CLEANUP_ENABLED !== 'false';
+
+// Route points (recorrido de cada trip)
+// Las posiciones de los trips confirmados se acumulan en memoria y se escriben en
+// trips.route_points en lotes (no un UPDATE por posición).
+export const ROUTE_POINTS_ENABLED =
+  process.env.ROUTE_POINTS_ENABLED !== 'false';
+export const ROUTE_POINTS_BATCH_SIZE = parseInt(
+  process.env.ROUTE_POINTS_BATCH_SIZE || '50',
+  10,
+); // Posiciones acumuladas que disparan un flush inmediato
+export const ROUTE_POINTS_FLUSH_INTERVAL_MS = parseInt(
+  process.env.ROUTE_POINTS_FLUSH_INTERVAL_MS || '30000',
+  10,
+); // Flush periódico de lo pendiente (trips en curso)
+
+// Perfiles de umbrales (threshold_profiles)
+// Los perfiles y asignaciones se cachean en memoria y se recargan periódicamente
+// (los cambios hechos vía API en otra instancia se ven a lo sumo tras este intervalo).
+export const THRESHOLD_PROFILES_REFRESH_MS = parseInt(
+  process.env.THRESHOLD_PROFILES_REFRESH_MS || '60000',
+  10,
+);
+
+// Geocercas: se cachean en memoria y se recargan periódicamente (igual que los perfiles)
+export const GEOFENCES_REFRESH_MS = parseInt(
+  process.env.GEOFENCES_REFRESH_MS || '60000',
+  10,
+);
+
+// Conductores: claves de metadata de la posición con el identificador del conductor
+// (iButton / RFID; la primera presente gana). Sin ninguna se usa la asignación vigente
+// del device (driver_assignments, cacheadas en memoria igual que las geocercas).
+export const DRIVER_METADATA_KEYS = (
+  process.env.DRIVER_METADATA_KEYS || 'driverUniqueId,driver_id'
+)
+  .split(',')
+  .map((key) => key.trim())
+  .filter((key) => key.length > 0);
+export const DRIVERS_REFRESH_MS = parseInt(
+  process.env.DRIVERS_REFRESH_MS || '60000',
+  10,
+);
+
+// Combustible: sensores por device (clave de metadata, nivel/contador) cacheados en
+// memoria y recargados cada N ms. Los umbrales de cargas/caídas van en los perfiles.
+export const FUEL_SENSORS_REFRESH_MS = parseInt(
+  process.env.FUEL_SENSORS_REFRESH_MS || '60000',
+  10,
+);
+
+// Lugares frecuentes: proceso periódico (solo el líder) que agrupa las paradas de cada
+// device por densidad (DBSCAN) en lugares recurrentes. Los stops que se completan se
+// etiquetan con el lugar en el que caen (cache en memoria, recargado cada N ms).
+export const PLACES_ENABLED = process.env.PLACES_ENABLED !== 'false';
+export const PLACES_RADIUS = parseInt(process.env.PLACES_RADIUS || '150', 10); // metros
+export const PLACES_MIN_VISITS = parseInt(
+  process.env.PLACES_MIN_VISITS || '3',
+  10,
+); // Paradas necesarias para formar un lugar
+export const PLACES_LOOKBACK_DAYS = parseInt(
+  process.env.PLACES_LOOKBACK_DAYS || '90',
+  10,
+);
+export const PLACES_CLUSTER_INTERVAL_MS = parseInt(
+  process.env.PLACES_CLUSTER_INTERVAL_MS || String(6 * 60 * 60 * 1000),
+  10,
+); // 6 horas por defecto
+export const PLACES_REFRESH_MS = parseInt(
+  process.env.PLACES_REFRESH_MS || '600000',
+  10,
+);
+// Zona horaria de los horarios típicos de llegada/salida y de los pernoctes
+export const PLACES_TIMEZONE = process.env.PLACES_TIMEZONE || 'UTC';
+
+// Odómetro del equipo (CAN / hardware): fuente por device (gps | device | hybrid) en
+// odometer_sources, cacheada en memoria. Sin clave configurada se lee la primera de
+// estas claves de metadata presente (en metros, como la reenvía Traccar).
+export const DEVICE_ODOMETER_METADATA_KEYS = (
+  process.env.DEVICE_ODOMETER_METADATA_KEYS || 'odometer'
+)
+  .split(',')
+  .map((key) => key.trim())
+  .filter((key) => key.length > 0);
+export const ODOMETER_SOURCES_REFRESH_MS = parseInt(
+  process.env.ODOMETER_SOURCES_REFRESH_MS || '60000',
+  10,
+);
+// Modo hybrid: diferencia máxima con la distancia GPS (fracción) para usar el equipo
+export const ODOMETER_HYBRID_TOLERANCE = parseFloat(
+  process.env.ODOMETER_HYBRID_TOLERANCE || '0.2',
+);
+
+// Modo multi-instancia (varias réplicas de Tripero contra el mismo Redis)
+// Los devices se reparten entre las instancias vivas con hashing consistente; cada
+// device se procesa en una sola instancia (lease en Redis). Si una instancia cae, sus
+// devices pasan al resto al vencer su heartbeat y sus leases.
+export const CLUSTER_ENABLED = process.env.CLUSTER_ENABLED === 'true';
+export const CLUSTER_INSTANCE_ID = process.env.CLUSTER_INSTANCE_ID || ''; // default: hostname-pid (obligatorio con INGESTION_MODE=streams)
+export const CLUSTER_HEARTBEAT_MS = parseInt(
+  process.env.CLUSTER_HEARTBEAT_MS || '5000',
+  10,
+);
+export const CLUSTER_MEMBER_TIMEOUT_MS = parseInt(
+  process.env.CLUSTER_MEMBER_TIMEOUT_MS || '15000',
+  10,
+); // Sin heartbeat por más de este tiempo la instancia sale del anillo
+export const CLUSTER_DEVICE_LEASE_MS = parseInt(
+  process.env.CLUSTER_DEVICE_LEASE_MS || '15000',
+  10,
+); // Duración del lease de un device (se renueva mientras la instancia sea su dueña)
+export const CLUSTER_VIRTUAL_NODES = parseInt(
+  process.env.CLUSTER_VIRTUAL_NODES || '100',
+  10,
+); // Nodos virtuales por instancia en el anillo
+
+// Modo de ingesta de position:new / ignition:changed
+// - pubsub: Redis Pub/Sub (default). Los mensajes publicados mientras Tripero está caído
+//   o reiniciando se pierden.
+// - streams: Redis Streams con consumer group. Cada entrada se confirma (XACK) recién
+//   después de procesarla; las pendientes se reprocesan al reiniciar.
+export const INGESTION_MODE: 'pubsub' | 'streams' =
+  process.env.INGESTION_MODE === 'streams' ? 'streams' : 'pubsub';
+export const STREAMS_GROUP = process.env.STREAMS_GROUP || 'tripero';
+export const STREAMS_BATCH_SIZE = parseInt(
+  process.env.STREAMS_BATCH_SIZE || '100',
+  10,
+); // Entradas por XREADGROUP
+export const STREAMS_BLOCK_MS = parseInt(
+  process.env.STREAMS_BLOCK_MS || '5000',
+  10,
+); // Espera máxima de XREADGROUP BLOCK
+export const STREAMS_CLAIM_IDLE_MS = parseInt(
+  process.env.STREAMS_CLAIM_IDLE_MS || '60000',
+  10,
+); // Entradas pendientes sin confirmar por más de este tiempo se reintentan
+export const STREAMS_MAX_DELIVERIES = parseInt(
+  process.env.STREAMS_MAX_DELIVERIES || '5',
+  10,
+); // Entregas antes de descartar una entrada que siempre falla
+export const STREAMS_MAX_LEN = parseInt(
+  process.env.STREAMS_MAX_LEN || '1000000',
+  10,
+); // Largo aproximado máximo de cada stream (MAXLEN ~ al agregar, XTRIM al consumir); 0 = sin recorte
+
+// Ingesta HTTP (POST /api/positions, POST /api/ignition)
+export const INGESTION_MAX_BODY_SIZE =
+  process.env.INGESTION_MAX_BODY_SIZE || '10mb'; // Tamaño máximo del body (ya descomprimido)
+export const INGESTION_MAX_BATCH_SIZE = parseInt(
+  process.env.INGESTION_MAX_BATCH_SIZE || '10000',
+  10,
+); // Items por request
+// Adapter de forwarding de Traccar: deviceId de Tripero a partir del id interno de
+// Traccar ('id', el que usan sus reportes) o del identificador del equipo ('uniqueId')
+export const TRACCAR_DEVICE_ID: 'id' | 'uniqueId' =
+  process.env.TRACCAR_DEVICE_ID === 'uniqueId' ? 'uniqueId' : 'id';
+
+// Webhooks (eventos de trips/stops/estado por HTTP POST firmado)
+// Las suscripciones activas se cachean en memoria (igual que geocercas/perfiles)
+export const WEBHOOKS_REFRESH_MS = parseInt(
+  process.env.WEBHOOKS_REFRESH_MS || '60000',
+  10,
+);
+export const WEBHOOKS_POLL_MS = parseInt(
+  process.env.WEBHOOKS_POLL_MS || '1000',
+  10,
+); // Intervalo de búsqueda de envíos vencidos
+export const WEBHOOKS_BATCH_SIZE = parseInt(
+  process.env.WEBHOOKS_BATCH_SIZE || '50',
+  10,
+); // Envíos en paralelo por ciclo
+export const WEBHOOKS_TIMEOUT_MS = parseInt(
+  process.env.WEBHOOKS_TIMEOUT_MS || '10000',
+  10,
+);
+export const WEBHOOKS_MAX_ATTEMPTS = parseInt(
+  process.env.WEBHOOKS_MAX_ATTEMPTS || '10',
+  10,
+); // Intentos antes de pasar el envío a dead letters
+export const WEBHOOKS_RETRY_BASE_MS = parseInt(
+  process.env.WEBHOOKS_RETRY_BASE_MS || '10000',
+  10,
+); // Backoff exponencial: base * 2^(intento-1), hasta WEBHOOKS_RETRY_MAX_MS
+export const WEBHOOKS_RETRY_MAX_MS = parseInt(
+  process.env.WEBHOOKS_RETRY_MAX_MS || '3600000',
+  10,
+);
+
+// Stream en vivo (SSE /api/stream y WebSocket /api/stream/ws)
+// Con false no se publica position:updated y los endpoints responden 503
+export const LIVE_STREAM_ENABLED = process.env.LIVE_STREAM_ENABLED !== 'false';
+// Mensajes pendientes por conexión antes de cortar a un cliente lento
+export const LIVE_STREAM_MAX_QUEUE = parseInt(
+  process.env.LIVE_STREAM_MAX_QUEUE || '1000',
+  10,
+);
+export const LIVE_STREAM_HEARTBEAT_MS = parseInt(
+  process.env.LIVE_STREAM_HEARTBEAT_MS || '30000',
+  10,
+);
+
+// Replay (reprocesamiento de posiciones históricas)
+// Directorio de archivos JSONL (el request solo puede leer archivos dentro de él)
+export const REPLAY_DATA_DIR = process.env.REPLAY_DATA_DIR || './replay-data';
+export const REPLAY_POSITIONS_TABLE =
+  process.env.REPLAY_POSITIONS_TABLE || 'positions';
+export const REPLAY_POSITIONS_DEVICE_COLUMN =
+  process.env.REPLAY_POSITIONS_DEVICE_COLUMN || 'device_id';
+export const REPLAY_POSITIONS_TIME_COLUMN =
+  process.env.REPLAY_POSITIONS_TIME_COLUMN || 'fix_time';
+// Horas de posiciones posteriores a `to` que se procesan para que los trips/stops que
+// empezaron en la ventana puedan cerrarse (solo se escriben los que empiezan en la ventana)
+export const REPLAY_TAIL_HOURS = parseInt(
+  process.env.REPLAY_TAIL_HOURS || '24',
+  10,
+);
+export const REPLAY_MAX_WINDOW_DAYS = parseInt(
+  process.env.REPLAY_MAX_WINDOW_DAYS || '31',
+  10,
+);
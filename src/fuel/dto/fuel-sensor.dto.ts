@@ -0,0 +1,45 @@
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsIn,
+  IsNumber,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * DTO para configurar el sensor de combustible de un dispositivo
+ */
+export class UpsertFuelSensorDto {
+  /**
+   * level = nivel del tanque (se detectan cargas y caídas),
+   * counter = contador de consumo acumulado (CAN)
+   */
+  @IsIn(['level', 'counter'])
+  type: 'level' | 'counter';
+
+  /**
+   * Clave de la metadata de la posición que trae la lectura
+   * Ejemplo: "fuel_level", "io84"
+   */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  metadataKey: string;
+
+  /**
+   * Unidad de la lectura (default liters). Con percent se necesita tankCapacity.
+   */
+  @IsOptional()
+  @IsIn(['liters', 'percent'])
+  unit?: 'liters' | 'percent';
+
+  /**
+   * Capacidad del tanque en litros
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  tankCapacity?: number;
+}
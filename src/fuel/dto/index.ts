@@ -0,0 +1 @@
+export * from './fuel-sensor.dto';
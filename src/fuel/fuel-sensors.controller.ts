@@ -0,0 +1,212 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  ValidationPipe,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { FuelService } from '../detection/services';
+import { FuelSensorRepository } from '../database/repositories';
+import type { FuelSensor } from '../database/entities';
+import { UpsertFuelSensorDto } from './dto';
+
+/**
+ * Controller de sensores de combustible
+ *
+ * Endpoints:
+ * - GET /fuel-sensors - Lista de sensores configurados
+ * - GET /fuel-sensors/:deviceId - Sensor del dispositivo
+ * - PUT /fuel-sensors/:deviceId - Configurar (crear o reemplazar) el sensor
+ * - DELETE /fuel-sensors/:deviceId - Quitar el sensor
+ *
+ * Los cambios se aplican a las posiciones siguientes; los trips y eventos ya
+ * registrados no cambian (se pueden regenerar con /replay).
+ */
+@Controller('fuel-sensors')
+export class FuelSensorsController {
+  private readonly logger = new Logger(FuelSensorsController.name);
+
+  constructor(
+    private readonly fuelSensorRepository: FuelSensorRepository,
+    private readonly fuelService: FuelService,
+  ) {}
+
+  /**
+   * GET /fuel-sensors
+   */
+  @Get()
+  async listSensors() {
+    try {
+      const sensors = await this.fuelSensorRepository.findAll();
+
+      return {
+        success: true,
+        data: sensors.map((sensor) => this.mapSensor(sensor)),
+      };
+    } catch (error) {
+      this.logger.error('Error listing fuel sensors', error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: 'Error listing fuel sensors',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * GET /fuel-sensors/:deviceId
+   */
+  @Get(':deviceId')
+  async getSensor(@Param('deviceId') deviceId: string) {
+    try {
+      const sensor = await this.findSensorOrFail(deviceId);
+
+      return {
+        success: true,
+        data: this.mapSensor(sensor),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Error getting fuel sensor ${deviceId}`, error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: 'Error getting fuel sensor',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * PUT /fuel-sensors/:deviceId
+   *
+   * Body:
+   * { "type": "level", "metadataKey": "fuel_level", "unit": "percent", "tankCapacity": 300 }
+   */
+  @Put(':deviceId')
+  async upsertSensor(
+    @Param('deviceId') deviceId: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: UpsertFuelSensorDto,
+  ) {
+    const unit = dto.unit ?? 'liters';
+
+    if (unit === 'percent' && dto.tankCapacity === undefined) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.BAD_REQUEST,
+          message: 'tankCapacity is required when unit is percent',
+          error: 'Bad Request',
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    try {
+      const sensor = await this.fuelSensorRepository.upsert(deviceId, {
+        type: dto.type,
+        metadata_key: dto.metadataKey,
+        unit,
+        tank_capacity: dto.tankCapacity ?? null,
+      });
+      await this.fuelService.reload();
+
+      this.logger.log(
+        `Fuel sensor configured for ${deviceId}: ${sensor.type} (${sensor.metadata_key})`,
+      );
+
+      return {
+        success: true,
+        data: this.mapSensor(sensor),
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error configuring fuel sensor ${deviceId}`,
+        error.stack,
+      );
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error configuring fuel sensor',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * DELETE /fuel-sensors/:deviceId
+   */
+  @Delete(':deviceId')
+  async deleteSensor(@Param('deviceId') deviceId: string) {
+    try {
+      await this.findSensorOrFail(deviceId);
+      await this.fuelSensorRepository.delete(deviceId);
+      await this.fuelService.reload();
+
+      this.logger.log(`Fuel sensor deleted: ${deviceId}`);
+
+      return {
+        success: true,
+        message: `Fuel sensor for ${deviceId} deleted`,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Error deleting fuel sensor ${deviceId}`, error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error deleting fuel sensor',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  private async findSensorOrFail(deviceId: string): Promise<FuelSensor> {
+    const sensor = await this.fuelSensorRepository.findByDeviceId(deviceId);
+
+    if (!sensor) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.NOT_FOUND,
+          message: `Fuel sensor for ${deviceId} not found`,
+          error: 'Not Found',
+        },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    return sensor;
+  }
+
+  private mapSensor(sensor: FuelSensor) {
+    return {
+      deviceId: sensor.device_id,
+      type: sensor.type,
+      metadataKey: sensor.metadata_key,
+      unit: sensor.unit,
+      tankCapacity: sensor.tank_capacity,
+      createdAt: sensor.created_at.toISOString(),
+      updatedAt: sensor.updated_at.toISOString(),
+    };
+  }
+}
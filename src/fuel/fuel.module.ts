@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { DetectionModule } from '../detection/detection.module';
+import { FuelSensorsController } from './fuel-sensors.controller';
+
+/**
+ * Módulo de sensores de combustible (CRUD). La lectura y detección de cargas/caídas
+ * vive en DetectionModule (FuelService).
+ */
+@Module({
+  imports: [DatabaseModule, DetectionModule],
+  controllers: [FuelSensorsController],
+})
+export class FuelModule {}
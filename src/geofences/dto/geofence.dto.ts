@@ -0,0 +1,169 @@
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsNumber,
+  IsIn,
+  IsArray,
+  IsBoolean,
+  IsObject,
+  ArrayMinSize,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import type { GeofenceType } from '../../database/entities';
+
+/**
+ * DTO para crear una geocerca
+ *
+ * polygon: `coordinates` con al menos 3 vértices [lon, lat] (orden GeoJSON)
+ * circle: `centerLat`, `centerLon` y `radius` (metros)
+ */
+export class CreateGeofenceDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsIn(['polygon', 'circle'])
+  type: GeofenceType;
+
+  /**
+   * Vértices del polígono: [[lon, lat], ...]
+   * Ejemplo: [[-58.38, -34.60], [-58.37, -34.60], [-58.37, -34.61]]
+   */
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(3)
+  coordinates?: Array<[number, number]>;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  centerLat?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  centerLon?: number;
+
+  /**
+   * Radio del círculo en metros
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  radius?: number;
+
+  /**
+   * Categoría para agrupar geocercas en reportes
+   * Ejemplo: "customer", "depot", "workshop"
+   */
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  category?: string;
+
+  /**
+   * Si se define, la geocerca solo aplica a posiciones con ese metadata.tenant_id
+   */
+  @IsOptional()
+  @IsString()
+  tenantId?: string;
+
+  /**
+   * Límite de velocidad dentro de la geocerca (km/h)
+   * Reemplaza al del perfil de umbrales del device mientras la posición está dentro
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  speedLimit?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
+
+/**
+ * DTO para modificar una geocerca
+ * Si cambia la geometría se vuelve a validar completa (type + coordenadas/centro)
+ */
+export class UpdateGeofenceDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @IsOptional()
+  @IsIn(['polygon', 'circle'])
+  type?: GeofenceType;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(3)
+  coordinates?: Array<[number, number]>;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  centerLat?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  centerLon?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  radius?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  category?: string;
+
+  @IsOptional()
+  @IsString()
+  tenantId?: string;
+
+  /**
+   * null quita el límite de la geocerca
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  speedLimit?: number | null;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Query params de GET /geofences
+ */
+export class QueryGeofencesDto {
+  @IsOptional()
+  @IsString()
+  category?: string;
+
+  @IsOptional()
+  @IsString()
+  tenantId?: string;
+}
@@ -0,0 +1,342 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  ValidationPipe,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { GeofenceService } from '../detection/services';
+import { GeofenceRepository } from '../database/repositories';
+import type { Geofence, GeofenceType } from '../database/entities';
+import { CreateGeofenceDto, UpdateGeofenceDto, QueryGeofencesDto } from './dto';
+
+/**
+ * Geometría de una geocerca tal como se guarda en BD
+ */
+interface IGeofenceGeometry {
+  type: GeofenceType;
+  coordinates: Array<[number, number]> | null;
+  center_lat: number | null;
+  center_lon: number | null;
+  radius: number | null;
+}
+
+/**
+ * Controller de geocercas
+ *
+ * Endpoints:
+ * - GET /geofences?category=&tenantId= - Lista de geocercas
+ * - GET /geofences/:id - Geocerca
+ * - POST /geofences - Crear geocerca (polygon o circle)
+ * - PATCH /geofences/:id - Modificar geocerca
+ * - DELETE /geofences/:id - Eliminar geocerca
+ *
+ * Los stops/trips ya etiquetados conservan su geofence_id aunque la geocerca cambie.
+ */
+@Controller('geofences')
+export class GeofencesController {
+  private readonly logger = new Logger(GeofencesController.name);
+
+  constructor(
+    private readonly geofenceRepository: GeofenceRepository,
+    private readonly geofenceService: GeofenceService,
+  ) {}
+
+  /**
+   * GET /geofences
+   */
+  @Get()
+  async listGeofences(
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: QueryGeofencesDto,
+  ) {
+    try {
+      const geofences = await this.geofenceRepository.findAll({
+        category: query.category,
+        tenantId: query.tenantId,
+      });
+
+      return {
+        success: true,
+        data: geofences.map((geofence) => this.mapGeofence(geofence)),
+      };
+    } catch (error) {
+      this.logger.error('Error listing geofences', error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: 'Error listing geofences',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * GET /geofences/:id
+   */
+  @Get(':id')
+  async getGeofence(@Param('id') id: string) {
+    try {
+      const geofence = await this.findGeofenceOrFail(id);
+
+      return {
+        success: true,
+        data: this.mapGeofence(geofence),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Error getting geofence ${id}`, error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: 'Error getting geofence',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * POST /geofences
+   *
+   * Body (polygon):
+   * {
+   *   "name": "Cliente ACME",
+   *   "type": "polygon",
+   *   "coordinates": [[-58.38, -34.60], [-58.37, -34.60], [-58.37, -34.61]],
+   *   "category": "customer"
+   * }
+   *
+   * Body (circle):
+   * { "name": "Depósito", "type": "circle", "centerLat": -34.6, "centerLon": -58.4, "radius": 150 }
+   */
+  @Post()
+  async createGeofence(
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: CreateGeofenceDto,
+  ) {
+    try {
+      const geometry = this.validateGeometry({
+        type: dto.type,
+        coordinates: dto.coordinates ?? null,
+        center_lat: dto.centerLat ?? null,
+        center_lon: dto.centerLon ?? null,
+        radius: dto.radius ?? null,
+      });
+
+      const geofence = await this.geofenceRepository.create({
+        name: dto.name,
+        ...geometry,
+        category: dto.category ?? null,
+        tenant_id: dto.tenantId ?? null,
+        speed_limit: dto.speedLimit ?? null,
+        is_active: dto.isActive ?? true,
+        metadata: dto.metadata ?? null,
+      });
+      await this.geofenceService.reload();
+
+      this.logger.log(`Geofence created: ${geofence.name} (${geofence.id})`);
+
+      return {
+        success: true,
+        data: this.mapGeofence(geofence),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error('Error creating geofence', error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error creating geofence',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * PATCH /geofences/:id
+   */
+  @Patch(':id')
+  async updateGeofence(
+    @Param('id') id: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: UpdateGeofenceDto,
+  ) {
+    try {
+      const current = await this.findGeofenceOrFail(id);
+
+      const geometry = this.validateGeometry({
+        type: dto.type ?? current.type,
+        coordinates: dto.coordinates ?? current.coordinates,
+        center_lat: dto.centerLat ?? current.center_lat,
+        center_lon: dto.centerLon ?? current.center_lon,
+        radius: dto.radius ?? current.radius,
+      });
+
+      const geofence = await this.geofenceRepository.update(id, {
+        name: dto.name,
+        ...geometry,
+        category: dto.category,
+        tenant_id: dto.tenantId,
+        speed_limit: dto.speedLimit,
+        is_active: dto.isActive,
+        metadata: dto.metadata,
+      });
+      await this.geofenceService.reload();
+
+      this.logger.log(`Geofence updated: ${id}`);
+
+      return {
+        success: true,
+        data: this.mapGeofence(geofence!),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Error updating geofence ${id}`, error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error updating geofence',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * DELETE /geofences/:id
+   */
+  @Delete(':id')
+  async deleteGeofence(@Param('id') id: string) {
+    try {
+      await this.findGeofenceOrFail(id);
+      await this.geofenceRepository.delete(id);
+      await this.geofenceService.reload();
+
+      this.logger.log(`Geofence deleted: ${id}`);
+
+      return {
+        success: true,
+        message: `Geofence ${id} deleted`,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Error deleting geofence ${id}`, error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error deleting geofence',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Valida la geometría según el tipo y descarta los campos del otro tipo
+   */
+  private validateGeometry(geometry: IGeofenceGeometry): IGeofenceGeometry {
+    if (geometry.type === 'circle') {
+      if (
+        geometry.center_lat == null ||
+        geometry.center_lon == null ||
+        geometry.radius == null
+      ) {
+        throw this.badRequest(
+          'circle geofences require centerLat, centerLon and radius',
+        );
+      }
+
+      return { ...geometry, coordinates: null };
+    }
+
+    const ring = geometry.coordinates;
+    const validVertex = (vertex: unknown) =>
+      Array.isArray(vertex) &&
+      vertex.length === 2 &&
+      vertex.every((value) => typeof value === 'number' && isFinite(value)) &&
+      Math.abs(vertex[0] as number) <= 180 &&
+      Math.abs(vertex[1] as number) <= 90;
+
+    if (!ring || ring.length < 3 || !ring.every(validVertex)) {
+      throw this.badRequest(
+        'polygon geofences require coordinates with at least 3 [lon, lat] vertices',
+      );
+    }
+
+    return { ...geometry, center_lat: null, center_lon: null, radius: null };
+  }
+
+  private badRequest(message: string): HttpException {
+    return new HttpException(
+      {
+        statusCode: HttpStatus.BAD_REQUEST,
+        message,
+        error: 'Bad Request',
+      },
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+
+  private async findGeofenceOrFail(id: string): Promise<Geofence> {
+    const geofence = await this.geofenceRepository.findById(id);
+
+    if (!geofence) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.NOT_FOUND,
+          message: `Geofence ${id} not found`,
+          error: 'Not Found',
+        },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    return geofence;
+  }
+
+  private mapGeofence(geofence: Geofence) {
+    return {
+      id: geofence.id,
+      name: geofence.name,
+      type: geofence.type,
+      coordinates: geofence.coordinates ?? undefined,
+      centerLat: geofence.center_lat ?? undefined,
+      centerLon: geofence.center_lon ?? undefined,
+      radius: geofence.radius ?? undefined,
+      category: geofence.category,
+      tenantId: geofence.tenant_id,
+      speedLimit: geofence.speed_limit,
+      isActive: geofence.is_active,
+      metadata: geofence.metadata,
+      createdAt: geofence.created_at.toISOString(),
+      updatedAt: geofence.updated_at.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { DetectionModule } from '../detection/detection.module';
+import { GeofencesController } from './geofences.controller';
+
+/**
+ * Módulo de geocercas (CRUD). La evaluación de posiciones vive en DetectionModule.
+ */
+@Module({
+  imports: [DatabaseModule, DetectionModule],
+  controllers: [GeofencesController],
+})
+export class GeofencesModule {}
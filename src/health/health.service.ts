@@ -2,11 +2,13 @@ import { Injectable } from '@nestjs/common';
 import { InjectConnection } from '@nestjs/typeorm';
 import { Connection } from 'typeorm';
 import { RedisService } from '../auxiliares/redis/redis.service';
+import { ClusterService } from '../auxiliares/cluster/cluster.service';
 
 @Injectable()
 export class HealthService {
   constructor(
     private redis: RedisService,
+    private cluster: ClusterService,
     @InjectConnection()
     private connection: Connection,
   ) {}
@@ -42,6 +44,7 @@ export class HealthService {
                 },
         },
       },
+      cluster: this.cluster.getMetrics(),
     };
   }
 
@@ -0,0 +1,181 @@
+import {
+  Controller,
+  Post,
+  Body,
+  HttpCode,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { IngestionService } from './ingestion.service';
+import { mapTraccarPosition, mapTraccarEvent } from './traccar-forward.mapper';
+import { INGESTION_MAX_BATCH_SIZE, TRACCAR_DEVICE_ID } from '../env';
+
+/**
+ * Controller de ingesta HTTP (alternativa a publicar en Redis)
+ *
+ * Endpoints:
+ * - POST /api/positions - Posiciones GPS (mismo formato que position:new)
+ * - POST /api/ignition  - Eventos de ignición (mismo formato que ignition:changed)
+ * - POST /api/traccar/positions - Position forwarding de Traccar (forward.url)
+ * - POST /api/traccar/events    - Event forwarding de Traccar (event.forward.url)
+ *
+ * Body: un objeto, un array de objetos, o NDJSON (Content-Type: application/x-ndjson).
+ * Se acepta Content-Encoding: gzip para cargas masivas.
+ *
+ * Responde 202 con los items aceptados y rechazados (índice en el body y motivo).
+ * Aceptado = validado y encolado para procesamiento.
+ */
+@Controller('api')
+export class IngestionController {
+  private readonly logger = new Logger(IngestionController.name);
+
+  constructor(private readonly ingestionService: IngestionService) {}
+
+  /**
+   * POST /api/positions
+   */
+  @Post('positions')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async ingestPositions(@Body() body: unknown) {
+    const items = this.toItems(body);
+
+    try {
+      const result = await this.ingestionService.ingestPositions(items);
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (error) {
+      this.logger.error('Error ingesting positions', error.stack);
+      throw this.internalError('Error ingesting positions');
+    }
+  }
+
+  /**
+   * POST /api/ignition
+   */
+  @Post('ignition')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async ingestIgnition(@Body() body: unknown) {
+    const items = this.toItems(body);
+
+    try {
+      const result = await this.ingestionService.ingestIgnition(items);
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (error) {
+      this.logger.error('Error ingesting ignition events', error.stack);
+      throw this.internalError('Error ingesting ignition events');
+    }
+  }
+
+  /**
+   * POST /api/traccar/positions
+   *
+   * Body de Traccar con forward.type=json: { "position": {...}, "device": {...} }
+   * (speed en nudos, fixTime ISO 8601, attributes.ignition / attributes.sat)
+   */
+  @Post('traccar/positions')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async ingestTraccarPositions(@Body() body: unknown) {
+    const items = this.toItems(body).map((payload) =>
+      mapTraccarPosition(payload, TRACCAR_DEVICE_ID),
+    );
+
+    try {
+      const result = await this.ingestionService.ingestPositions(items);
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (error) {
+      this.logger.error('Error ingesting Traccar positions', error.stack);
+      throw this.internalError('Error ingesting Traccar positions');
+    }
+  }
+
+  /**
+   * POST /api/traccar/events
+   *
+   * Body de event forwarding: { "event": {...}, "position": {...}, "device": {...} }
+   * Solo se procesan ignitionOn / ignitionOff; el resto se informa como rechazado.
+   */
+  @Post('traccar/events')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async ingestTraccarEvents(@Body() body: unknown) {
+    const items = this.toItems(body).map((payload) =>
+      mapTraccarEvent(payload, TRACCAR_DEVICE_ID),
+    );
+
+    try {
+      const result = await this.ingestionService.ingestIgnition(items);
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (error) {
+      this.logger.error('Error ingesting Traccar events', error.stack);
+      throw this.internalError('Error ingesting Traccar events');
+    }
+  }
+
+  /**
+   * Normaliza el body a una lista de items (objeto, array o texto NDJSON)
+   */
+  private toItems(body: unknown): unknown[] {
+    const items =
+      typeof body === 'string'
+        ? this.ingestionService.parseNdjson(body)
+        : Array.isArray(body)
+          ? body
+          : [body];
+
+    const isEmptyObject =
+      items.length === 1 &&
+      typeof items[0] === 'object' &&
+      items[0] !== null &&
+      Object.keys(items[0]).length === 0;
+
+    if (items.length === 0 || isEmptyObject) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.BAD_REQUEST,
+          message: 'Request body is empty',
+          error: 'Bad Request',
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    if (items.length > INGESTION_MAX_BATCH_SIZE) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.PAYLOAD_TOO_LARGE,
+          message: `Too many items: ${items.length} (max ${INGESTION_MAX_BATCH_SIZE})`,
+          error: 'Payload Too Large',
+        },
+        HttpStatus.PAYLOAD_TOO_LARGE,
+      );
+    }
+
+    return items;
+  }
+
+  private internalError(message: string): HttpException {
+    return new HttpException(
+      {
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message,
+        error: 'Internal Server Error',
+      },
+      HttpStatus.INTERNAL_SERVER_ERROR,
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { AuxiliaresModule } from '../auxiliares/auxiliares.module';
+import { DetectionModule } from '../detection/detection.module';
+import { IngestionController } from './ingestion.controller';
+import { IngestionService } from './ingestion.service';
+
+/**
+ * Módulo de ingesta HTTP de posiciones y eventos de ignición
+ */
+@Module({
+  imports: [AuxiliaresModule, DetectionModule],
+  controllers: [IngestionController],
+  providers: [IngestionService],
+})
+export class IngestionModule {}
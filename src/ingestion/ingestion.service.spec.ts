@@ -0,0 +1,125 @@
+import { IngestionService, InvalidIngestionItem } from './ingestion.service';
+import { RedisService } from '../auxiliares/redis/redis.service';
+import { ClusterService } from '../auxiliares/cluster/cluster.service';
+import { DeviceQueueManager, TrackerStateService } from '../detection/services';
+
+describe('IngestionService', () => {
+  let service: IngestionService;
+  let redis: { publish: jest.Mock; xAdd: jest.Mock };
+  let cluster: { ownsDevice: jest.Mock };
+  let queue: { enqueue: jest.Mock };
+  let trackerState: { getState: jest.Mock; updateIgnition: jest.Mock };
+
+  const position = (deviceId: string, timestamp: number, extra = {}) => ({
+    deviceId,
+    timestamp,
+    latitude: -31.42,
+    longitude: -64.18,
+    speed: 30,
+    ignition: true,
+    ...extra,
+  });
+
+  beforeEach(() => {
+    redis = {
+      publish: jest.fn().mockResolvedValue(1),
+      xAdd: jest.fn().mockResolvedValue('1-0'),
+    };
+    cluster = { ownsDevice: jest.fn().mockResolvedValue(true) };
+    queue = { enqueue: jest.fn().mockResolvedValue(undefined) };
+    trackerState = {
+      getState: jest.fn().mockResolvedValue({ lastIgnition: true }),
+      updateIgnition: jest.fn().mockResolvedValue(true),
+    };
+
+    service = new IngestionService(
+      redis as unknown as RedisService,
+      cluster as unknown as ClusterService,
+      queue as unknown as DeviceQueueManager,
+      trackerState as unknown as TrackerStateService,
+    );
+  });
+
+  it('parsea NDJSON ignorando líneas vacías y marcando las inválidas', () => {
+    const items = service.parseNdjson('{"a":1}\n\nnot json\r\n{"b":2}\n');
+
+    expect(items).toHaveLength(3);
+    expect(items[0]).toEqual({ a: 1 });
+    expect(items[1]).toBeInstanceOf(InvalidIngestionItem);
+    expect(items[2]).toEqual({ b: 2 });
+  });
+
+  it('acepta las válidas, rechaza con motivo y encola ordenado por timestamp', async () => {
+    const now = Date.now();
+    const result = await service.ingestPositions([
+      position('DEV-1', now - 1000),
+      position('DEV-1', now - 5000),
+      position('DEV-2', now, { speed: -1 }),
+      'texto',
+      new InvalidIngestionItem('invalid JSON'),
+    ]);
+
+    expect(result.received).toBe(5);
+    expect(result.accepted).toEqual([
+      { index: 0, deviceId: 'DEV-1' },
+      { index: 1, deviceId: 'DEV-1' },
+    ]);
+    expect(result.rejected).toEqual([
+      { index: 2, deviceId: 'DEV-2', reason: 'speed negative: -1' },
+      { index: 3, reason: 'item is not an object' },
+      { index: 4, reason: 'invalid JSON' },
+    ]);
+    expect(
+      queue.enqueue.mock.calls.map(
+        ([, p]) => (p as { timestamp: number }).timestamp,
+      ),
+    ).toEqual([now - 5000, now - 1000]);
+  });
+
+  it('completa la ignición faltante con el último estado conocido', async () => {
+    const withoutIgnition = position('DEV-1', Date.now(), {
+      ignition: undefined,
+    });
+
+    await service.ingestPositions([withoutIgnition]);
+
+    expect(queue.enqueue).toHaveBeenCalledWith(
+      'DEV-1',
+      expect.objectContaining({ ignition: true }),
+    );
+  });
+
+  it('reenvía por Redis los devices de otra instancia', async () => {
+    cluster.ownsDevice.mockResolvedValue(false);
+
+    const result = await service.ingestPositions([
+      position('DEV-1', Date.now()),
+    ]);
+
+    expect(result.accepted).toHaveLength(1);
+    expect(queue.enqueue).not.toHaveBeenCalled();
+    expect(redis.publish).toHaveBeenCalledWith(
+      'position:new',
+      expect.objectContaining({ deviceId: 'DEV-1' }),
+    );
+  });
+
+  it('rechaza eventos de ignición inválidos o que no se pudieron guardar', async () => {
+    trackerState.updateIgnition
+      .mockResolvedValueOnce(true)
+      .mockResolvedValueOnce(false);
+    const now = Date.now();
+
+    const result = await service.ingestIgnition([
+      { deviceId: 'DEV-1', ignition: true, timestamp: now },
+      { deviceId: 'DEV-1', ignition: false, timestamp: now },
+      { deviceId: 'DEV-1', ignition: 'on', timestamp: now },
+    ]);
+
+    expect(result.accepted).toEqual([{ index: 0, deviceId: 'DEV-1' }]);
+    expect(result.rejected.map((r) => r.reason)).toEqual([
+      'failed to store ignition state',
+      'invalid ignition event',
+    ]);
+  });
+});
@@ -0,0 +1,258 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { RedisService } from '../auxiliares/redis/redis.service';
+import {
+  REDIS_CHANNELS,
+  REDIS_STREAMS,
+} from '../auxiliares/redis/redis.constants';
+import { ClusterService } from '../auxiliares/cluster/cluster.service';
+import { DeviceQueueManager, TrackerStateService } from '../detection/services';
+import {
+  IPositionEvent,
+  IIgnitionEvent,
+  validatePositionEventWithReason,
+  validateIgnitionEvent,
+} from '../interfaces';
+import { INGESTION_MODE } from '../env';
+
+/**
+ * Item que no se pudo interpretar antes de validarlo (línea NDJSON que no es JSON,
+ * payload de Traccar sin mapeo): se rechaza con este motivo
+ */
+export class InvalidIngestionItem {
+  constructor(readonly reason: string) {}
+}
+
+export interface IIngestionAccepted {
+  index: number; // Posición del item en el body (línea no vacía en NDJSON)
+  deviceId: string;
+}
+
+export interface IIngestionRejected {
+  index: number;
+  deviceId?: string;
+  reason: string;
+}
+
+export interface IIngestionResult {
+  received: number;
+  accepted: IIngestionAccepted[];
+  rejected: IIngestionRejected[];
+}
+
+/**
+ * Servicio de ingesta HTTP de posiciones y eventos de ignición
+ *
+ * Recorre el mismo camino que los mensajes de Redis: valida cada item, completa la
+ * ignición faltante con el último estado conocido y encola en DeviceQueueManager.
+ *
+ * - Las posiciones de un lote se encolan ordenadas por timestamp (datos bufferizados
+ *   offline suelen llegar desordenados).
+ * - En modo multi-instancia, los items de devices de otra instancia se reenvían por
+ *   Redis (canal o stream según INGESTION_MODE) para que los procese su dueña.
+ */
+@Injectable()
+export class IngestionService {
+  private readonly logger = new Logger(IngestionService.name);
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly clusterService: ClusterService,
+    private readonly queueManager: DeviceQueueManager,
+    private readonly trackerStateService: TrackerStateService,
+  ) {}
+
+  /**
+   * Parsea un body NDJSON (un objeto JSON por línea, las líneas vacías se ignoran)
+   */
+  parseNdjson(body: string): unknown[] {
+    return body
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => {
+        try {
+          return JSON.parse(line) as unknown;
+        } catch {
+          return new InvalidIngestionItem('invalid JSON');
+        }
+      });
+  }
+
+  async ingestPositions(items: unknown[]): Promise<IIngestionResult> {
+    const result: IIngestionResult = {
+      received: items.length,
+      accepted: [],
+      rejected: [],
+    };
+    const valid: Array<{ index: number; position: IPositionEvent }> = [];
+
+    items.forEach((item, index) => {
+      const reason = this.checkItem(item);
+      if (reason) {
+        result.rejected.push({ index, reason });
+        return;
+      }
+
+      const validation = validatePositionEventWithReason(item);
+      if (!validation.valid) {
+        result.rejected.push({
+          index,
+          deviceId: this.deviceIdOf(item),
+          reason: validation.reason || 'unknown',
+        });
+        return;
+      }
+
+      valid.push({ index, position: item as IPositionEvent });
+    });
+
+    // Orden estable por timestamp: la cola de cada device las procesa en este orden
+    valid.sort((a, b) => a.position.timestamp - b.position.timestamp);
+
+    for (const { index, position } of valid) {
+      try {
+        if (!(await this.clusterService.ownsDevice(position.deviceId))) {
+          await this.forward(REDIS_CHANNELS.POSITION_NEW, position);
+        } else {
+          const normalized = await this.normalizeIgnition(position);
+          await this.queueManager.enqueue(normalized.deviceId, normalized);
+        }
+
+        result.accepted.push({ index, deviceId: position.deviceId });
+      } catch (error) {
+        this.logger.error(
+          `Error ingesting position for device ${position.deviceId}`,
+          error.stack,
+        );
+        result.rejected.push({
+          index,
+          deviceId: position.deviceId,
+          reason: 'internal error',
+        });
+      }
+    }
+
+    // Las respuestas listan los items en el orden del body
+    result.accepted.sort((a, b) => a.index - b.index);
+
+    this.logger.debug(
+      `HTTP positions: ${result.accepted.length} accepted, ${result.rejected.length} rejected`,
+    );
+
+    return result;
+  }
+
+  async ingestIgnition(items: unknown[]): Promise<IIngestionResult> {
+    const result: IIngestionResult = {
+      received: items.length,
+      accepted: [],
+      rejected: [],
+    };
+
+    // Secuencial: cada evento pisa el estado de ignición del anterior
+    for (const [index, item] of items.entries()) {
+      const reason = this.checkItem(item);
+      if (reason) {
+        result.rejected.push({ index, reason });
+        continue;
+      }
+
+      if (!validateIgnitionEvent(item)) {
+        result.rejected.push({
+          index,
+          deviceId: this.deviceIdOf(item),
+          reason: 'invalid ignition event',
+        });
+        continue;
+      }
+
+      const event: IIgnitionEvent = item;
+
+      try {
+        if (!(await this.clusterService.ownsDevice(event.deviceId))) {
+          await this.forward(REDIS_CHANNELS.IGNITION_CHANGED, event);
+        } else if (
+          !(await this.trackerStateService.updateIgnition(
+            event.deviceId,
+            event.ignition,
+            event.timestamp,
+          ))
+        ) {
+          result.rejected.push({
+            index,
+            deviceId: event.deviceId,
+            reason: 'failed to store ignition state',
+          });
+          continue;
+        }
+
+        result.accepted.push({ index, deviceId: event.deviceId });
+      } catch (error) {
+        this.logger.error(
+          `Error ingesting ignition event for device ${event.deviceId}`,
+          error.stack,
+        );
+        result.rejected.push({
+          index,
+          deviceId: event.deviceId,
+          reason: 'internal error',
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Motivo de rechazo de un item que ni siquiera es un objeto, o null
+   */
+  private checkItem(item: unknown): string | null {
+    if (item instanceof InvalidIngestionItem) return item.reason;
+    if (item === null || typeof item !== 'object' || Array.isArray(item)) {
+      return 'item is not an object';
+    }
+    return null;
+  }
+
+  private deviceIdOf(item: unknown): string | undefined {
+    const deviceId = (item as Record<string, unknown>).deviceId;
+    return typeof deviceId === 'string' ? deviceId : undefined;
+  }
+
+  /**
+   * Si no viene ignición, usa el último estado conocido (igual que PositionSubscriber)
+   */
+  private async normalizeIgnition(
+    position: IPositionEvent,
+  ): Promise<IPositionEvent> {
+    if (position.ignition !== undefined) return position;
+
+    const trackerState = await this.trackerStateService.getState(
+      position.deviceId,
+    );
+
+    return { ...position, ignition: trackerState?.lastIgnition ?? false };
+  }
+
+  /**
+   * Reenvía un item a la instancia dueña del device por la misma vía que usan los
+   * productores (canal Pub/Sub o stream)
+   */
+  private async forward(
+    channel:
+      | typeof REDIS_CHANNELS.POSITION_NEW
+      | typeof REDIS_CHANNELS.IGNITION_CHANGED,
+    message: IPositionEvent | IIgnitionEvent,
+  ): Promise<void> {
+    if (INGESTION_MODE === 'streams') {
+      await this.redisService.xAdd(
+        channel === REDIS_CHANNELS.POSITION_NEW
+          ? REDIS_STREAMS.POSITION_NEW
+          : REDIS_STREAMS.IGNITION_CHANGED,
+        message,
+      );
+      return;
+    }
+
+    await this.redisService.publish(channel, message);
+  }
+}
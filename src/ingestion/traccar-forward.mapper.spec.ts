@@ -0,0 +1,85 @@
+import { mapTraccarPosition, mapTraccarEvent } from './traccar-forward.mapper';
+import { InvalidIngestionItem } from './ingestion.service';
+
+describe('Traccar forward mapper', () => {
+  const fixTime = '2025-01-10T12:00:00.000+00:00';
+  const payload = {
+    position: {
+      id: 991,
+      deviceId: 17,
+      protocol: 'teltonika',
+      fixTime,
+      outdated: false,
+      valid: true,
+      latitude: -31.42,
+      longitude: -64.18,
+      altitude: 420,
+      speed: 10, // nudos
+      course: 135,
+      accuracy: 0,
+      attributes: { ignition: true, sat: 9, totalDistance: 1234.5 },
+    },
+    device: { id: 17, name: 'Camión 1', uniqueId: '865413050000001' },
+  };
+
+  it('mapea la posición a position:new (nudos → km/h)', () => {
+    expect(mapTraccarPosition(payload, 'id')).toEqual({
+      deviceId: '17',
+      timestamp: Date.parse(fixTime),
+      latitude: -31.42,
+      longitude: -64.18,
+      speed: 18.52,
+      ignition: true,
+      altitude: 420,
+      heading: 135,
+      accuracy: undefined, // 0 = desconocida en Traccar
+      satellites: 9,
+      metadata: { ignition: true, sat: 9, totalDistance: 1234.5 },
+    });
+  });
+
+  it('usa device.uniqueId con TRACCAR_DEVICE_ID=uniqueId', () => {
+    expect(mapTraccarPosition(payload, 'uniqueId')).toMatchObject({
+      deviceId: '865413050000001',
+    });
+  });
+
+  it('rechaza posiciones outdated y payloads sin position', () => {
+    expect(
+      mapTraccarPosition(
+        { ...payload, position: { ...payload.position, outdated: true } },
+        'id',
+      ),
+    ).toEqual(new InvalidIngestionItem('outdated position'));
+    expect(mapTraccarPosition({ device: payload.device }, 'id')).toEqual(
+      new InvalidIngestionItem('position missing'),
+    );
+  });
+
+  it('mapea ignitionOn / ignitionOff a ignition:changed', () => {
+    const event = {
+      ...payload,
+      event: {
+        id: 5,
+        type: 'ignitionOff',
+        eventTime: fixTime,
+        deviceId: 17,
+        positionId: 991,
+      },
+    };
+
+    expect(mapTraccarEvent(event, 'id')).toEqual({
+      deviceId: '17',
+      timestamp: Date.parse(fixTime),
+      ignition: false,
+      latitude: -31.42,
+      longitude: -64.18,
+    });
+    expect(
+      mapTraccarEvent(
+        { ...event, event: { ...event.event, type: 'alarm' } },
+        'id',
+      ),
+    ).toEqual(new InvalidIngestionItem('event type alarm not supported'));
+  });
+});
@@ -0,0 +1,150 @@
+import { IPositionEvent, IIgnitionEvent } from '../interfaces';
+import { InvalidIngestionItem } from './ingestion.service';
+
+const KNOTS_TO_KMH = 1.852;
+
+/**
+ * Posición de Traccar (modelo org.traccar.model.Position, serializado a JSON)
+ */
+export interface ITraccarPosition {
+  id?: number;
+  deviceId: number;
+  protocol?: string;
+  fixTime: string;
+  outdated?: boolean;
+  valid?: boolean;
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+  speed: number; // nudos
+  course?: number;
+  accuracy?: number; // 0 = desconocida
+  attributes?: Record<string, any>;
+}
+
+export interface ITraccarDevice {
+  id: number;
+  name?: string;
+  uniqueId?: string;
+}
+
+export interface ITraccarEvent {
+  id?: number;
+  type: string; // ignitionOn, ignitionOff, deviceOnline, alarm, ...
+  eventTime: string;
+  deviceId: number;
+  positionId?: number;
+  attributes?: Record<string, any>;
+}
+
+/**
+ * Body de forward.url (forward.type=json) y de event.forward.url
+ */
+export interface ITraccarForwardPayload {
+  position?: ITraccarPosition;
+  device?: ITraccarDevice;
+  event?: ITraccarEvent;
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const optionalNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+/**
+ * deviceId de Tripero según TRACCAR_DEVICE_ID
+ */
+const resolveDeviceId = (
+  payload: ITraccarForwardPayload,
+  deviceIdField: 'id' | 'uniqueId',
+  traccarDeviceId: unknown,
+): string | undefined => {
+  if (deviceIdField === 'uniqueId') {
+    return payload.device?.uniqueId || undefined;
+  }
+
+  const id = traccarDeviceId ?? payload.device?.id;
+  return typeof id === 'number' || typeof id === 'string'
+    ? String(id)
+    : undefined;
+};
+
+/**
+ * Convierte un payload de position forwarding de Traccar en un evento position:new.
+ * Los campos se dejan tal cual para que validatePositionEventWithReason dé el motivo
+ * de rechazo; solo se convierten unidades y nombres.
+ */
+export const mapTraccarPosition = (
+  payload: unknown,
+  deviceIdField: 'id' | 'uniqueId',
+): IPositionEvent | InvalidIngestionItem => {
+  if (!isObject(payload) || !isObject(payload.position)) {
+    return new InvalidIngestionItem('position missing');
+  }
+
+  const forward = payload as ITraccarForwardPayload;
+  const position = forward.position as ITraccarPosition;
+
+  // Traccar reenvía una copia de la última posición cuando no hay una nueva
+  if (position.outdated) {
+    return new InvalidIngestionItem('outdated position');
+  }
+
+  const attributes = isObject(position.attributes) ? position.attributes : {};
+  const accuracy = optionalNumber(position.accuracy);
+
+  return {
+    deviceId: resolveDeviceId(
+      forward,
+      deviceIdField,
+      position.deviceId,
+    ) as string,
+    timestamp: Date.parse(position.fixTime),
+    latitude: position.latitude,
+    longitude: position.longitude,
+    speed:
+      typeof position.speed === 'number'
+        ? position.speed * KNOTS_TO_KMH
+        : position.speed,
+    ignition:
+      typeof attributes.ignition === 'boolean'
+        ? attributes.ignition
+        : undefined,
+    altitude: optionalNumber(position.altitude),
+    heading: optionalNumber(position.course),
+    accuracy: accuracy && accuracy > 0 ? accuracy : undefined,
+    satellites: optionalNumber(attributes.sat),
+    metadata: Object.keys(attributes).length > 0 ? attributes : undefined,
+  };
+};
+
+/**
+ * Convierte un payload de event forwarding de Traccar en un evento ignition:changed.
+ * Solo ignitionOn / ignitionOff; el resto de los tipos se rechazan.
+ */
+export const mapTraccarEvent = (
+  payload: unknown,
+  deviceIdField: 'id' | 'uniqueId',
+): IIgnitionEvent | InvalidIngestionItem => {
+  if (!isObject(payload) || !isObject(payload.event)) {
+    return new InvalidIngestionItem('event missing');
+  }
+
+  const forward = payload as ITraccarForwardPayload;
+  const event = forward.event as ITraccarEvent;
+
+  if (event.type !== 'ignitionOn' && event.type !== 'ignitionOff') {
+    return new InvalidIngestionItem(`event type ${event.type} not supported`);
+  }
+
+  const position = isObject(forward.position) ? forward.position : undefined;
+
+  return {
+    deviceId: resolveDeviceId(forward, deviceIdField, event.deviceId) as string,
+    timestamp: Date.parse(event.eventTime ?? position?.fixTime ?? ''),
+    ignition: event.type === 'ignitionOn',
+    latitude: optionalNumber(position?.latitude),
+    longitude: optionalNumber(position?.longitude),
+  };
+};
@@ -0,0 +1,31 @@
+/**
+ * Evento de salida: driving:event
+ *
+ * Canal: Redis PubSub
+ * Se emite por cada aceleración brusca, frenada brusca o giro cerrado detectado
+ * entre dos posiciones consecutivas de un trip
+ */
+
+export type DrivingEventType =
+  | 'harsh_acceleration'
+  | 'harsh_braking'
+  | 'sharp_cornering';
+
+export interface IDrivingEvent {
+  eventId: string; // Determinístico (tipo + device + timestamp): idempotente ante reenvíos
+  tripId: string;
+  deviceId: string;
+  type: DrivingEventType;
+  timestamp: string; // ISO 8601 (timestamp de la posición que cierra el intervalo)
+  location: {
+    type: 'Point';
+    coordinates: [number, number]; // [lon, lat]
+  };
+  speed: number; // km/h en la posición
+  previousSpeed: number; // km/h en la posición anterior
+  headingChange?: number; // Grados (solo sharp_cornering)
+  interval: number; // Segundos entre las dos posiciones
+  value: number; // Aceleración medida (m/s², valor absoluto)
+  threshold: number; // Umbral superado (m/s²)
+  metadata?: Record<string, any>; // Metadata personalizado (ej: tenant_id, fleet_id, etc.)
+}
@@ -0,0 +1,29 @@
+/**
+ * Evento de salida: fuel:event
+ *
+ * Canal: Redis PubSub
+ * Se emite cuando el nivel de combustible (sensor de nivel, suavizado) sube o baja
+ * más que el umbral del perfil mientras el vehículo está detenido y después se
+ * estabiliza (o el vehículo arranca).
+ */
+
+export type FuelEventType = 'refuel' | 'drain';
+
+export interface IFuelEvent {
+  eventId: string; // Determinístico (tipo + device + timestamp de inicio)
+  deviceId: string;
+  type: FuelEventType; // refuel: carga; drain: caída con el vehículo detenido (posible robo)
+  startTime: string; // ISO 8601 (último nivel estable antes del cambio)
+  endTime: string; // ISO 8601 (nivel estable después del cambio)
+  duration: number; // Segundos
+  location: {
+    type: 'Point';
+    coordinates: [number, number]; // [lon, lat]
+  };
+  amount: number; // Litros cargados / perdidos
+  levelBefore: number; // Litros
+  levelAfter: number; // Litros
+  tripId?: string; // Trip en curso (parada dentro de un trip)
+  stopId?: string; // Stop en curso
+  metadata?: Record<string, any>; // Metadata personalizado (ej: tenant_id, fleet_id, etc.)
+}
@@ -0,0 +1,22 @@
+/**
+ * Eventos de salida: geofence:entered, geofence:exited
+ *
+ * Canales: Redis PubSub
+ * Se emiten cuando una posición entra/sale de una geocerca respecto de la anterior
+ */
+
+export interface IGeofenceEvent {
+  deviceId: string;
+  geofenceId: string;
+  geofenceName: string;
+  category: string | null; // Categoría de la geocerca (ej: "customer")
+  timestamp: string; // ISO 8601 (timestamp de la posición)
+  location: {
+    type: 'Point';
+    coordinates: [number, number]; // [lon, lat]
+  };
+  speed: number; // km/h
+  currentState: 'STOPPED' | 'IDLE' | 'MOVING';
+  tripId?: string; // Trip en curso, si hay
+  metadata?: Record<string, any>; // Metadata personalizado (ej: tenant_id, fleet_id, etc.)
+}
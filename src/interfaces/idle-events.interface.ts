@@ -0,0 +1,36 @@
+/**
+ * Eventos de salida: idle:started / idle:completed
+ *
+ * Canal: Redis PubSub
+ * Un episodio de ralentí (motor encendido sin movimiento, estado IDLE) empieza con la
+ * primera posición en IDLE y termina con la primera que sale de IDLE (o al cortarse
+ * el reporte). Solo se publican los episodios que superan minIdleDuration.
+ */
+
+export interface IIdleStartedEvent {
+  idleId: string; // Determinístico (device + timestamp de inicio)
+  deviceId: string;
+  tripId?: string; // Trip confirmado en el que ocurre (sin trip: ralentí fuera de un viaje)
+  stopId?: string;
+  startTime: string; // ISO 8601 (primera posición en IDLE)
+  location: {
+    type: 'Point';
+    coordinates: [number, number]; // [lon, lat]
+  };
+  metadata?: Record<string, any>; // Metadata personalizado (ej: tenant_id, fleet_id, etc.)
+}
+
+export interface IIdleCompletedEvent {
+  idleId: string;
+  deviceId: string;
+  tripId?: string;
+  stopId?: string;
+  startTime: string; // ISO 8601
+  endTime: string; // ISO 8601
+  duration: number; // segundos
+  location: {
+    type: 'Point';
+    coordinates: [number, number]; // [lon, lat]
+  };
+  metadata?: Record<string, any>;
+}
@@ -2,3 +2,9 @@ export * from './position-event.interface';
 export * from './trip-events.interface';
 export * from './ignition-event.interface';
 export * from './tracker-state-event.interface';
+export * from './geofence-events.interface';
+export * from './position-updated-event.interface';
+export * from './driving-event.interface';
+export * from './speeding-events.interface';
+export * from './fuel-event.interface';
+export * from './idle-events.interface';
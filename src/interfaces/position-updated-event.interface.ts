@@ -0,0 +1,22 @@
+/**
+ * Evento de salida: position:updated
+ *
+ * Canal: Redis PubSub (solo con LIVE_STREAM_ENABLED=true)
+ * Se emite después de procesar cada posición. Lo consume el stream en vivo
+ * (SSE / WebSocket) de todas las instancias.
+ */
+
+export interface IPositionUpdatedEvent {
+  deviceId: string;
+  timestamp: string; // ISO 8601 (timestamp de la posición)
+  latitude: number;
+  longitude: number;
+  speed: number; // km/h
+  heading?: number;
+  altitude?: number;
+  ignition?: boolean;
+  currentState: 'STOPPED' | 'IDLE' | 'MOVING';
+  tripId?: string; // Trip en curso, si hay
+  odometer: number; // Odómetro total en metros (incluye offset)
+  metadata?: Record<string, any>; // Metadata personalizado (ej: tenant_id, fleet_id, etc.)
+}
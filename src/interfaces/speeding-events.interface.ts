@@ -0,0 +1,45 @@
+/**
+ * Eventos de salida: speeding:started / speeding:ended
+ *
+ * Canal: Redis PubSub
+ * Un episodio de exceso de velocidad empieza con la primera posición de un trip por
+ * encima del límite y termina con la primera que vuelve a estar dentro del límite
+ * (o al cambiar el límite, terminar el trip o cortarse el reporte).
+ */
+
+export interface ISpeedingStartedEvent {
+  speedingId: string; // Determinístico (device + timestamp de inicio)
+  tripId: string;
+  deviceId: string;
+  startTime: string; // ISO 8601 (primera posición por encima del límite)
+  location: {
+    type: 'Point';
+    coordinates: [number, number]; // [lon, lat]
+  };
+  speed: number; // km/h al confirmarse el episodio
+  speedLimit: number; // km/h
+  geofenceId?: string; // Geocerca de la que sale el límite (si no es el del perfil)
+  metadata?: Record<string, any>; // Metadata personalizado (ej: tenant_id, fleet_id, etc.)
+}
+
+export interface ISpeedingEndedEvent {
+  speedingId: string;
+  tripId: string;
+  deviceId: string;
+  startTime: string; // ISO 8601
+  endTime: string; // ISO 8601
+  duration: number; // Segundos
+  distance: number; // Metros recorridos por encima del límite
+  maxSpeed: number; // km/h
+  speedLimit: number; // km/h
+  geofenceId?: string;
+  startLocation: {
+    type: 'Point';
+    coordinates: [number, number]; // [lon, lat]
+  };
+  endLocation: {
+    type: 'Point';
+    coordinates: [number, number]; // [lon, lat]
+  };
+  metadata?: Record<string, any>;
+}
@@ -89,4 +89,10 @@ export interface ITrackerStateChangedEvent {
     maxSpeed: number; // km/h
     odometerAtStart: number; // metros
   };
+
+  /**
+   * Metadata de la posición que produjo el cambio (ej: tenant_id, fleet_id).
+   * Los filtros de tenant/metadata de los webhooks se aplican sobre ella.
+   */
+  metadata?: Record<string, any>;
 }
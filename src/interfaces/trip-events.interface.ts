@@ -16,6 +16,8 @@ export interface ITripStartedEvent {
   detectionMethod: 'ignition' | 'motion';
   currentState: 'STOPPED' | 'IDLE' | 'MOVING'; // Estado actual (siempre MOVING al iniciar)
   odometer: number; // Odómetro total en metros (incluye offset)
+  engineHours: number; // Horómetro en horas (incluye offset)
+  driverId?: string; // Conductor del trip (drivers.unique_id)
   metadata?: Record<string, any>; // Metadata personalizado (ej: tenant_id, fleet_id, etc.)
 }
 
@@ -40,6 +42,9 @@ export interface ITripCompletedEvent {
   detectionMethod: 'ignition' | 'motion';
   currentState: 'STOPPED' | 'IDLE' | 'MOVING'; // Estado actual (puede ser STOPPED o IDLE)
   odometer: number; // Odómetro total en metros (incluye offset)
+  engineHours: number; // Horómetro en horas (incluye offset)
+  driverId?: string; // Conductor del trip (drivers.unique_id)
+  spentFuel?: number; // Litros consumidos (solo devices con sensor de combustible)
   metadata?: Record<string, any>; // Metadata personalizado (ej: tenant_id, fleet_id, etc.)
 }
 
@@ -55,6 +60,8 @@ export interface IStopStartedEvent {
   reason: 'ignition_off' | 'no_movement' | 'gap' | 'parking';
   currentState: 'STOPPED' | 'IDLE' | 'MOVING'; // Estado actual (siempre IDLE)
   odometer: number; // Odómetro total en metros (incluye offset)
+  engineHours: number; // Horómetro en horas (incluye offset)
+  driverId?: string; // Conductor al inicio de la parada (drivers.unique_id)
   metadata?: Record<string, any>; // Metadata personalizado (ej: tenant_id, fleet_id, etc.)
 }
 
@@ -72,6 +79,7 @@ export interface IStopCompletedEvent {
   reason: 'ignition_off' | 'no_movement' | 'gap' | 'parking';
   currentState: 'STOPPED' | 'IDLE' | 'MOVING'; // Estado actual (MOVING si retoma movimiento)
   odometer: number; // Odómetro total en metros (incluye offset)
+  engineHours: number; // Horómetro en horas (incluye offset)
   metadata?: Record<string, any>; // Metadata personalizado (ej: tenant_id, fleet_id, etc.)
 }
 
@@ -88,4 +96,5 @@ export interface ITripDiscardedEvent {
   reason: 'too_short' | 'too_small_distance' | 'below_minimums';
   duration: number; // Duración del trip descartado (segundos)
   distance: number; // Distancia del trip descartado (metros)
+  metadata?: Record<string, any>; // Metadata del trip (ej: tenant_id, fleet_id, etc.)
 }
@@ -0,0 +1,43 @@
+import { IsString, IsOptional, IsArray, ArrayMaxSize } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+/**
+ * Filtro del stream en vivo
+ *
+ * SSE: query params de GET /api/stream (?deviceIds=a,b&tenantId=acme)
+ * WebSocket: data del mensaje { "event": "subscribe", "data": { ... } }
+ */
+export class LiveStreamFilterDto {
+  /**
+   * Devices a seguir; omitido = todos los que cumplan tenantId/fleetId
+   * Ejemplo: ?deviceIds=TRACKER001,TRACKER002
+   */
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      return value
+        .split(',')
+        .map((id) => id.trim())
+        .filter((id) => id.length > 0);
+    }
+    return value;
+  })
+  @IsArray()
+  @ArrayMaxSize(1000)
+  @IsString({ each: true })
+  deviceIds?: string[];
+
+  /**
+   * Solo devices con este metadata.tenant_id
+   */
+  @IsOptional()
+  @IsString()
+  tenantId?: string;
+
+  /**
+   * Solo devices con este metadata.fleet_id
+   */
+  @IsOptional()
+  @IsString()
+  fleetId?: string;
+}
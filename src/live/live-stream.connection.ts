@@ -0,0 +1,141 @@
+/**
+ * Filtro de una conexión del stream en vivo
+ *
+ * Sin deviceIds se reciben todos los devices que cumplan tenant/flota.
+ */
+export interface ILiveStreamFilter {
+  deviceIds?: string[];
+  tenantId?: string; // metadata.tenant_id
+  fleetId?: string; // metadata.fleet_id
+}
+
+/**
+ * Transporte de una conexión (SSE o WebSocket)
+ */
+export interface ILiveStreamTransport {
+  /**
+   * Escribe un mensaje; la promesa se resuelve cuando el socket puede recibir el siguiente
+   */
+  write(event: string, data: unknown): Promise<void>;
+  close(reason: string): void;
+}
+
+interface IQueuedMessage {
+  event: string;
+  data: unknown;
+  key?: string;
+}
+
+/**
+ * Conexión de un cliente del stream en vivo con control de backpressure
+ *
+ * - Los mensajes se escriben de a uno: el siguiente sale cuando el transporte terminó
+ *   de escribir el anterior (drain en SSE, callback de send en WebSocket).
+ * - Mientras hay mensajes pendientes, una posición nueva de un device reemplaza a la
+ *   que todavía no se envió (el cliente solo necesita la última).
+ * - Si la cola supera maxQueue el cliente no da abasto: se cierra la conexión.
+ */
+export class LiveStreamConnection {
+  filter: ILiveStreamFilter | null = null; // null: todavía no se suscribió
+
+  private queue: IQueuedMessage[] = [];
+  private queuedByKey = new Map<string, IQueuedMessage>();
+  private writing = false;
+  private closed = false;
+  private sentCount = 0;
+  private coalescedCount = 0;
+
+  constructor(
+    readonly id: string,
+    private readonly transport: ILiveStreamTransport,
+    private readonly maxQueue: number,
+  ) {}
+
+  /**
+   * Encola un mensaje
+   *
+   * @param key Si hay un mensaje pendiente con la misma key se reemplaza su contenido
+   */
+  send(event: string, data: unknown, key?: string): void {
+    if (this.closed) return;
+
+    const pending = key ? this.queuedByKey.get(key) : undefined;
+    if (pending) {
+      pending.data = data;
+      this.coalescedCount++;
+      return;
+    }
+
+    if (this.queue.length >= this.maxQueue) {
+      this.close('slow consumer');
+      return;
+    }
+
+    const message: IQueuedMessage = { event, data, key };
+    this.queue.push(message);
+    if (key) this.queuedByKey.set(key, message);
+
+    void this.drain();
+  }
+
+  /**
+   * Encola un mensaje antes de los pendientes (snapshot inicial)
+   */
+  sendFirst(event: string, data: unknown): void {
+    if (this.closed) return;
+
+    this.queue.unshift({ event, data });
+    void this.drain();
+  }
+
+  close(reason: string): void {
+    if (this.closed) return;
+
+    this.closed = true;
+    this.queue = [];
+    this.queuedByKey.clear();
+    this.transport.close(reason);
+  }
+
+  /**
+   * Marca la conexión como cerrada por el cliente (no se llama al transporte)
+   */
+  markClosed(): void {
+    this.closed = true;
+    this.queue = [];
+    this.queuedByKey.clear();
+  }
+
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  getMetrics() {
+    return {
+      id: this.id,
+      queued: this.queue.length,
+      sent: this.sentCount,
+      coalesced: this.coalescedCount,
+    };
+  }
+
+  private async drain(): Promise<void> {
+    if (this.writing) return;
+    this.writing = true;
+
+    try {
+      while (!this.closed && this.queue.length > 0) {
+        const message = this.queue.shift() as IQueuedMessage;
+        if (message.key) this.queuedByKey.delete(message.key);
+
+        await this.transport.write(message.event, message.data);
+        this.sentCount++;
+      }
+    } catch {
+      // El socket se cerró o falló la escritura: no tiene sentido seguir
+      this.close('write error');
+    } finally {
+      this.writing = false;
+    }
+  }
+}
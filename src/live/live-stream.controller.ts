@@ -0,0 +1,131 @@
+import {
+  Controller,
+  Get,
+  Query,
+  Req,
+  Res,
+  HttpException,
+  HttpStatus,
+  Logger,
+  ValidationPipe,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import { LiveStreamService } from './live-stream.service';
+import {
+  LiveStreamConnection,
+  ILiveStreamTransport,
+} from './live-stream.connection';
+import { LiveStreamFilterDto } from './dto';
+import { LIVE_STREAM_MAX_QUEUE, LIVE_STREAM_HEARTBEAT_MS } from '../env';
+
+/**
+ * Controller del stream en vivo por Server-Sent Events
+ *
+ * Endpoints:
+ * - GET /api/stream - Snapshot de los trackers del filtro y luego sus eventos en vivo
+ *
+ * Se escribe sobre la respuesta de Express (no @Sse) para respetar el backpressure
+ * del socket: ver LiveStreamConnection.
+ */
+@Controller('api')
+export class LiveStreamController {
+  private readonly logger = new Logger(LiveStreamController.name);
+
+  constructor(private readonly liveStream: LiveStreamService) {}
+
+  /**
+   * GET /api/stream?deviceIds=TRACKER001,TRACKER002
+   * GET /api/stream?tenantId=acme&fleetId=delivery-trucks
+   *
+   * Eventos: snapshot, position:updated, tracker:state:changed, trip:*, stop:*
+   */
+  @Get('stream')
+  async stream(
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    filter: LiveStreamFilterDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    if (!this.liveStream.isEnabled()) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.SERVICE_UNAVAILABLE,
+          message: 'Live stream is disabled',
+          error: 'Service Unavailable',
+        },
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+
+    res.status(HttpStatus.OK);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // nginx: no bufferear la respuesta
+    res.flushHeaders();
+
+    const connection = new LiveStreamConnection(
+      randomUUID(),
+      this.createTransport(res),
+      LIVE_STREAM_MAX_QUEUE,
+    );
+
+    // Comentario SSE para que proxies y balanceadores no corten la conexión
+    const heartbeat = setInterval(() => {
+      if (!res.writableEnded) res.write(': ping\n\n');
+    }, LIVE_STREAM_HEARTBEAT_MS);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      connection.markClosed();
+      this.liveStream.unregister(connection);
+    });
+
+    this.liveStream.register(connection);
+
+    try {
+      await this.liveStream.subscribe(connection, filter);
+    } catch (error) {
+      this.logger.error(
+        `Error sending live stream snapshot to ${connection.id}`,
+        error.stack,
+      );
+      connection.close('snapshot error');
+    }
+  }
+
+  private createTransport(res: Response): ILiveStreamTransport {
+    return {
+      write: (event, data) =>
+        new Promise<void>((resolve, reject) => {
+          if (res.writableEnded || res.destroyed) {
+            reject(new Error('Connection closed'));
+            return;
+          }
+
+          const ready = res.write(
+            `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`,
+          );
+          if (ready) {
+            resolve();
+            return;
+          }
+
+          // Buffer del socket lleno: esperar a que se vacíe (o a que se cierre)
+          const done = () => {
+            res.off('drain', done);
+            res.off('close', done);
+            resolve();
+          };
+          res.on('drain', done);
+          res.on('close', done);
+        }),
+      close: (reason) => {
+        if (res.writableEnded) return;
+        res.write(`event: close\ndata: ${JSON.stringify({ reason })}\n\n`);
+        res.end();
+      },
+    };
+  }
+}
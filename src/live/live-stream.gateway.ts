@@ -0,0 +1,124 @@
+import { Logger, ValidationPipe } from '@nestjs/common';
+import {
+  WebSocketGateway,
+  SubscribeMessage,
+  MessageBody,
+  ConnectedSocket,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  WsException,
+} from '@nestjs/websockets';
+import { WebSocket } from 'ws';
+import { randomUUID } from 'crypto';
+import { LiveStreamService } from './live-stream.service';
+import {
+  LiveStreamConnection,
+  ILiveStreamTransport,
+} from './live-stream.connection';
+import { LiveStreamFilterDto } from './dto';
+import { LIVE_STREAM_MAX_QUEUE, LIVE_STREAM_HEARTBEAT_MS } from '../env';
+
+// 1013 Try Again Later: servicio desactivado o cliente que no da abasto
+const CLOSE_TRY_AGAIN_LATER = 1013;
+
+interface IGatewayClient {
+  connection: LiveStreamConnection;
+  heartbeat: NodeJS.Timeout;
+}
+
+/**
+ * Gateway WebSocket del stream en vivo: ws://host/api/stream/ws
+ *
+ * Mensajes en JSON { "event": ..., "data": ... }. El cliente envía
+ * { "event": "subscribe", "data": { "deviceIds": [...], "tenantId": ..., "fleetId": ... } }
+ * (cada subscribe reemplaza el filtro anterior) y recibe el snapshot y los mismos
+ * eventos que GET /api/stream.
+ */
+@WebSocketGateway({ path: '/api/stream/ws' })
+export class LiveStreamGateway
+  implements OnGatewayConnection, OnGatewayDisconnect
+{
+  private readonly logger = new Logger(LiveStreamGateway.name);
+  private clients = new Map<WebSocket, IGatewayClient>();
+
+  constructor(private readonly liveStream: LiveStreamService) {}
+
+  handleConnection(client: WebSocket) {
+    if (!this.liveStream.isEnabled()) {
+      client.close(CLOSE_TRY_AGAIN_LATER, 'Live stream is disabled');
+      return;
+    }
+
+    const connection = new LiveStreamConnection(
+      randomUUID(),
+      this.createTransport(client),
+      LIVE_STREAM_MAX_QUEUE,
+    );
+
+    const heartbeat = setInterval(() => {
+      if (client.readyState === WebSocket.OPEN) client.ping();
+    }, LIVE_STREAM_HEARTBEAT_MS);
+
+    this.clients.set(client, { connection, heartbeat });
+    this.liveStream.register(connection);
+  }
+
+  handleDisconnect(client: WebSocket) {
+    const entry = this.clients.get(client);
+    if (!entry) return;
+
+    clearInterval(entry.heartbeat);
+    entry.connection.markClosed();
+    this.liveStream.unregister(entry.connection);
+    this.clients.delete(client);
+  }
+
+  @SubscribeMessage('subscribe')
+  async subscribe(
+    @ConnectedSocket() client: WebSocket,
+    @MessageBody(
+      new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        exceptionFactory: (errors) =>
+          new WsException(
+            errors.flatMap((error) => Object.values(error.constraints ?? {})),
+          ),
+      }),
+    )
+    filter: LiveStreamFilterDto,
+  ) {
+    const entry = this.clients.get(client);
+    if (!entry) return;
+
+    try {
+      await this.liveStream.subscribe(entry.connection, filter);
+    } catch (error) {
+      this.logger.error(
+        `Error sending live stream snapshot to ${entry.connection.id}`,
+        error.stack,
+      );
+      throw new WsException('Error getting tracker snapshot');
+    }
+  }
+
+  private createTransport(client: WebSocket): ILiveStreamTransport {
+    return {
+      write: (event, data) =>
+        new Promise<void>((resolve, reject) => {
+          if (client.readyState !== WebSocket.OPEN) {
+            reject(new Error('Connection closed'));
+            return;
+          }
+
+          // El callback se llama cuando el mensaje se escribió en el socket
+          client.send(JSON.stringify({ event, data }), (error) =>
+            error ? reject(error) : resolve(),
+          );
+        }),
+      close: (reason) => {
+        client.close(CLOSE_TRY_AGAIN_LATER, reason);
+      },
+    };
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { AuxiliaresModule } from '../auxiliares/auxiliares.module';
+import { DetectionModule } from '../detection/detection.module';
+import { LiveStreamController } from './live-stream.controller';
+import { LiveStreamGateway } from './live-stream.gateway';
+import { LiveStreamService } from './live-stream.service';
+
+/**
+ * Módulo del stream en vivo de trackers (SSE y WebSocket)
+ */
+@Module({
+  imports: [AuxiliaresModule, DetectionModule],
+  controllers: [LiveStreamController],
+  providers: [LiveStreamService, LiveStreamGateway],
+})
+export class LiveStreamModule {}
@@ -0,0 +1,145 @@
+import { LiveStreamService } from './live-stream.service';
+import {
+  LiveStreamConnection,
+  ILiveStreamTransport,
+} from './live-stream.connection';
+import { RedisService } from '../auxiliares/redis/redis.service';
+import { TrackerStateService } from '../detection/services';
+
+/**
+ * Transporte que retiene cada escritura hasta que el test la libera (simula backpressure)
+ */
+const createTransport = () => {
+  const written: Array<{ event: string; data: any }> = [];
+  const pending: Array<() => void> = [];
+  const closed: string[] = [];
+
+  const transport: ILiveStreamTransport = {
+    write: (event, data) => {
+      written.push({ event, data });
+      return new Promise<void>((resolve) => pending.push(resolve));
+    },
+    close: (reason) => closed.push(reason),
+  };
+
+  const flush = async () => {
+    while (pending.length > 0) {
+      pending.shift()?.();
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  };
+
+  return { transport, written, closed, flush };
+};
+
+describe('LiveStreamService', () => {
+  let service: LiveStreamService;
+  let trackerStateService: { getTrackerStatus: jest.Mock };
+
+  const publish = (channel: string, event: Record<string, any>) =>
+    (
+      service as unknown as {
+        handleMessage: (channel: string, message: string) => void;
+      }
+    ).handleMessage(channel, JSON.stringify(event));
+
+  beforeEach(() => {
+    trackerStateService = {
+      getTrackerStatus: jest.fn((trackerId: string) =>
+        Promise.resolve({ trackerId }),
+      ),
+    };
+    service = new LiveStreamService(
+      {} as RedisService,
+      trackerStateService as unknown as TrackerStateService,
+    );
+  });
+
+  it('filters by metadata using the last metadata seen for the device', async () => {
+    const { transport, written, flush } = createTransport();
+    const connection = new LiveStreamConnection('c1', transport, 100);
+    service.register(connection);
+    await service.subscribe(connection, { tenantId: 'acme' });
+    await flush();
+
+    publish('position:updated', {
+      deviceId: 'T1',
+      metadata: { tenant_id: 'acme' },
+    });
+    publish('position:updated', {
+      deviceId: 'T2',
+      metadata: { tenant_id: 'other' },
+    });
+    // tracker:state:changed no trae metadata: se usa la de la última posición
+    publish('tracker:state:changed', { trackerId: 'T1', deviceId: 'T1' });
+    publish('tracker:state:changed', { trackerId: 'T2', deviceId: 'T2' });
+    await flush();
+
+    expect(written.map((m) => [m.event, m.data.deviceId])).toEqual([
+      ['snapshot', undefined],
+      ['position:updated', 'T1'],
+      ['tracker:state:changed', 'T1'],
+    ]);
+  });
+
+  it('sends the snapshot before events queued while it was loading', async () => {
+    const { transport, written, flush } = createTransport();
+    const connection = new LiveStreamConnection('c1', transport, 100);
+    service.register(connection);
+
+    const subscribed = service.subscribe(connection, { deviceIds: ['T1'] });
+    publish('trip:started', { deviceId: 'T1', tripId: 'trip-1' });
+    await subscribed;
+    await flush();
+
+    expect(written[0].event).toBe('trip:started');
+    // El trip:started salió antes de tener el snapshot; el resto de la cola va después
+    publish('stop:started', { deviceId: 'T1', stopId: 'stop-1' });
+    await flush();
+
+    expect(written.map((m) => m.event)).toEqual([
+      'trip:started',
+      'snapshot',
+      'stop:started',
+    ]);
+    expect(written[1].data.trackers).toEqual([{ trackerId: 'T1' }]);
+  });
+
+  it('keeps only the latest pending position of each device for a slow client', async () => {
+    const { transport, written, flush } = createTransport();
+    const connection = new LiveStreamConnection('c1', transport, 100);
+    service.register(connection);
+    await service.subscribe(connection, { deviceIds: ['T1'] });
+
+    // El snapshot está escribiéndose: lo siguiente queda en cola
+    publish('position:updated', { deviceId: 'T1', speed: 10 });
+    publish('trip:started', { deviceId: 'T1', tripId: 'trip-1' });
+    publish('position:updated', { deviceId: 'T1', speed: 20 });
+    publish('position:updated', { deviceId: 'T1', speed: 30 });
+    await flush();
+
+    expect(written.map((m) => [m.event, m.data.speed])).toEqual([
+      ['snapshot', undefined],
+      ['position:updated', 30],
+      ['trip:started', undefined],
+    ]);
+    expect(connection.getMetrics().coalesced).toBe(2);
+  });
+
+  it('disconnects a client whose queue exceeds the limit', async () => {
+    const { transport, closed } = createTransport();
+    const connection = new LiveStreamConnection('c1', transport, 2);
+    service.register(connection);
+    await service.subscribe(connection, {});
+
+    for (let i = 0; i < 5; i++) {
+      publish('trip:started', { deviceId: `T${i}`, tripId: `trip-${i}` });
+    }
+
+    expect(closed).toEqual(['slow consumer']);
+    expect(connection.isClosed()).toBe(true);
+
+    publish('trip:started', { deviceId: 'T9', tripId: 'trip-9' });
+    expect(service.getMetrics().connections).toBe(0);
+  });
+});
@@ -0,0 +1,219 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import Redis from 'ioredis';
+import { RedisService } from '../auxiliares/redis/redis.service';
+import { REDIS_CHANNELS } from '../auxiliares/redis/redis.constants';
+import { TrackerStateService } from '../detection/services';
+import { ITrackerStatus } from '../models';
+import {
+  LiveStreamConnection,
+  ILiveStreamFilter,
+} from './live-stream.connection';
+import { LIVE_STREAM_ENABLED } from '../env';
+
+/**
+ * Canales que se reenvían a los clientes (el evento lleva el nombre del canal)
+ */
+export const LIVE_STREAM_CHANNELS = [
+  REDIS_CHANNELS.POSITION_UPDATED,
+  REDIS_CHANNELS.TRACKER_STATE_CHANGED,
+  REDIS_CHANNELS.TRIP_STARTED,
+  REDIS_CHANNELS.TRIP_COMPLETED,
+  REDIS_CHANNELS.TRIP_DISCARDED,
+  REDIS_CHANNELS.STOP_STARTED,
+  REDIS_CHANNELS.STOP_COMPLETED,
+] as const;
+
+/**
+ * Indica si un evento de un device corresponde al filtro de una conexión
+ */
+export const matchesLiveStreamFilter = (
+  filter: ILiveStreamFilter,
+  deviceId: string,
+  metadata: Record<string, any> | undefined,
+): boolean => {
+  if (filter.deviceIds?.length && !filter.deviceIds.includes(deviceId)) {
+    return false;
+  }
+
+  if (filter.tenantId && metadata?.tenant_id !== filter.tenantId) {
+    return false;
+  }
+
+  return !filter.fleetId || metadata?.fleet_id === filter.fleetId;
+};
+
+/**
+ * Servicio del stream en vivo (SSE y WebSocket)
+ *
+ * - Escucha en Redis los eventos que publica EventPublisherService (incluido
+ *   position:updated), así cada cliente recibe los devices de todas las instancias.
+ * - Recuerda la última metadata de cada device para filtrar por tenant/flota los
+ *   eventos que no la traen (tracker:state:changed).
+ * - Al suscribirse, el cliente recibe un snapshot con el ITrackerStatus actual de los
+ *   devices del filtro. Con filtros de metadata solo se incluyen los devices que
+ *   reportaron desde que arrancó la instancia.
+ */
+@Injectable()
+export class LiveStreamService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(LiveStreamService.name);
+  private subscriber?: Redis;
+  private connections = new Set<LiveStreamConnection>();
+  private deviceMetadata = new Map<string, Record<string, any>>();
+  private receivedCount = 0;
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly trackerStateService: TrackerStateService,
+  ) {}
+
+  async onModuleInit() {
+    if (!LIVE_STREAM_ENABLED) {
+      this.logger.warn(
+        'Live stream DESACTIVADO (LIVE_STREAM_ENABLED=false). /api/stream responde 503.',
+      );
+      return;
+    }
+
+    const prefix = this.redisService.getPrefix();
+    this.subscriber = this.redisService.createSubscriber();
+
+    // ioredis reconecta y vuelve a suscribirse solo
+    this.subscriber.on('error', (error) => {
+      this.logger.error('Live stream subscriber error', error.stack);
+    });
+
+    this.subscriber.on('message', (channel: string, message: string) => {
+      this.handleMessage(channel.slice(prefix.length), message);
+    });
+
+    try {
+      await this.subscriber.subscribe(
+        ...LIVE_STREAM_CHANNELS.map((channel) =>
+          this.redisService.getPrefixedChannel(channel),
+        ),
+      );
+      this.logger.log(
+        `Live stream subscribed to ${LIVE_STREAM_CHANNELS.length} channels`,
+      );
+    } catch (error) {
+      this.logger.error('Error subscribing live stream channels', error.stack);
+    }
+  }
+
+  async onModuleDestroy() {
+    for (const connection of this.connections) {
+      connection.close('server shutdown');
+    }
+    this.connections.clear();
+
+    if (this.subscriber) {
+      await this.subscriber.quit();
+    }
+  }
+
+  isEnabled(): boolean {
+    return LIVE_STREAM_ENABLED;
+  }
+
+  register(connection: LiveStreamConnection): void {
+    this.connections.add(connection);
+    this.logger.debug(
+      `Live stream client ${connection.id} connected (${this.connections.size} total)`,
+    );
+  }
+
+  unregister(connection: LiveStreamConnection): void {
+    if (this.connections.delete(connection)) {
+      this.logger.debug(
+        `Live stream client ${connection.id} disconnected (${this.connections.size} total)`,
+      );
+    }
+  }
+
+  /**
+   * Aplica el filtro de la conexión y le envía el snapshot de sus trackers
+   *
+   * El filtro se aplica antes de leer el estado: el snapshot se envía primero y los
+   * eventos que llegaron mientras tanto ya están reflejados en él.
+   */
+  async subscribe(
+    connection: LiveStreamConnection,
+    filter: ILiveStreamFilter,
+  ): Promise<void> {
+    connection.filter = filter;
+
+    const deviceIds = filter.deviceIds?.length
+      ? filter.deviceIds
+      : [...this.deviceMetadata.keys()];
+
+    const trackers: ITrackerStatus[] = [];
+    for (const deviceId of deviceIds) {
+      if (
+        !matchesLiveStreamFilter(
+          filter,
+          deviceId,
+          this.deviceMetadata.get(deviceId),
+        )
+      ) {
+        continue;
+      }
+
+      const status = await this.trackerStateService.getTrackerStatus(deviceId);
+      if (status) trackers.push(status);
+    }
+
+    connection.sendFirst('snapshot', { filter, trackers });
+  }
+
+  getMetrics() {
+    return {
+      enabled: LIVE_STREAM_ENABLED,
+      connections: this.connections.size,
+      knownDevices: this.deviceMetadata.size,
+      receivedEvents: this.receivedCount,
+    };
+  }
+
+  private handleMessage(channel: string, message: string): void {
+    let event: Record<string, any>;
+    try {
+      event = JSON.parse(message);
+    } catch {
+      this.logger.warn(`Invalid ${channel} message: ${message}`);
+      return;
+    }
+
+    const deviceId: string | undefined = event.deviceId ?? event.trackerId;
+    if (!deviceId) return;
+
+    this.receivedCount++;
+
+    if (event.metadata && typeof event.metadata === 'object') {
+      this.deviceMetadata.set(deviceId, event.metadata);
+    }
+    const metadata = event.metadata ?? this.deviceMetadata.get(deviceId);
+
+    // Posiciones: si el cliente está atrasado solo se envía la última de cada device
+    const key =
+      channel === REDIS_CHANNELS.POSITION_UPDATED ? deviceId : undefined;
+
+    for (const connection of this.connections) {
+      if (connection.isClosed()) {
+        this.unregister(connection);
+        continue;
+      }
+
+      if (
+        connection.filter &&
+        matchesLiveStreamFilter(connection.filter, deviceId, metadata)
+      ) {
+        connection.send(channel, event, key);
+      }
+    }
+  }
+}
@@ -1,10 +1,24 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { Logger } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
+import { WsAdapter } from '@nestjs/platform-ws';
+import { INGESTION_MAX_BODY_SIZE } from './env';
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+
+  // Ingesta HTTP: lotes grandes en JSON o NDJSON (Content-Encoding: gzip se descomprime)
+  app.useBodyParser('json', { limit: INGESTION_MAX_BODY_SIZE });
+  app.useBodyParser('text', {
+    type: ['application/x-ndjson', 'application/ndjson'],
+    limit: INGESTION_MAX_BODY_SIZE,
+  });
+
+  // Stream en vivo por WebSocket (ws nativo, mismo puerto que la API)
+  app.useWebSocketAdapter(new WsAdapter(app));
+
   const port = process.env.PORT ?? 3000;
   await app.listen(port);
   logger.log(`🚀 Application is running on: http://localhost:${port}`);
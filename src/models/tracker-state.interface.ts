@@ -10,10 +10,23 @@ export interface ITrackerState {
   deviceId: string; // Mismo que trackerId (compatibilidad)
 
   // Odómetro (en metros)
-  totalOdometer: number; // Odómetro acumulativo total (GPS-based)
+  totalOdometer: number; // Odómetro acumulativo total (GPS o equipo según la fuente)
   odometerOffset: number; // Offset para sincronizar con odómetro real del vehículo
   tripOdometerStart?: number; // Odómetro cuando empezó el trip actual
 
+  // Odómetro reportado por el equipo (CAN / hardware), ver OdometerSourceService
+  deviceOdometer?: number; // Última lectura (base) del contador, en metros
+  deviceOdometerAt?: Date; // Posición de esa lectura
+  deviceOdometerOffset?: number; // Vueltas y resets del contador: lectura + offset = odómetro del equipo
+  gpsSinceDeviceReading?: number; // Distancia GPS desde esa lectura (metros)
+  driftDeviceDistance: number; // Distancia del equipo en los tramos medidos por ambos
+  driftGpsDistance: number; // Distancia GPS en esos mismos tramos
+
+  // Horas de motor (en segundos con ignición encendida)
+  totalEngineTime: number; // Tiempo de motor acumulado (ignition-based)
+  engineTimeOffset: number; // Offset para sincronizar con el horómetro real del vehículo
+  tripEngineTimeStart?: number; // Tiempo de motor cuando empezó el trip actual
+
   // Última posición conocida
   lastPositionTime?: Date;
   lastLatitude?: number;
@@ -91,6 +104,25 @@ export interface ITrackerStatus {
     totalKm: number; // convertido a km
     currentTrip: number; // metros del trip actual
     currentTripKm: number; // km del trip actual
+    source: 'gps' | 'device' | 'hybrid'; // fuente de la distancia acumulada
+    device?: {
+      reading: number; // última lectura del equipo (metros)
+      readingKm: number;
+      readingAt: Date;
+    };
+    // Deriva del GPS respecto del equipo en los tramos medidos por ambos
+    drift?: {
+      gpsDistance: number; // metros
+      deviceDistance: number; // metros
+      drift: number; // gpsDistance - deviceDistance (metros)
+      driftPercent: number; // respecto de deviceDistance
+    };
+  };
+
+  engineHours: {
+    total: number; // horas (incluye offset)
+    totalSeconds: number; // segundos (incluye offset)
+    currentTrip: number; // horas del trip actual
   };
 
   currentState: {
@@ -118,6 +150,7 @@ export interface ITrackerStatus {
     avgSpeed: number;
     maxSpeed: number;
     odometerAtStart: number;
+    engineHoursAtStart: number;
     startLat?: number;
     startLon?: number;
   };
@@ -169,6 +202,7 @@ export interface ITrackerStatus {
 export interface IResetOdometer {
   newValue: number; // nuevo valor en metros
   reason: string; // motivo del reset
+  actor?: string; // quién hace el reset (queda en odometer_adjustments)
 }
 
 /**
@@ -177,4 +211,49 @@ export interface IResetOdometer {
 export interface ISetOdometer {
   initialOdometer: number; // valor del odómetro real del vehículo en metros
   reason?: string; // motivo del ajuste
+  actor?: string; // quién hace el ajuste (queda en odometer_adjustments)
+}
+
+/**
+ * DTO para setear el horómetro inicial (con offset)
+ */
+export interface ISetEngineHours {
+  initialEngineHours: number; // valor del horómetro real del vehículo en horas
+  reason?: string; // motivo del ajuste
+}
+
+/**
+ * Ajuste manual del odómetro (GET /trackers/:trackerId/odometer/history)
+ * Valores en metros, tal como los muestra el tracker (odómetro GPS + offset)
+ */
+export interface IOdometerAdjustment {
+  id: string;
+  type: 'reset' | 'set';
+  previousOdometer: number;
+  newOdometer: number;
+  previousOffset: number;
+  odometerOffset: number;
+  reason: string | null;
+  actor: string | null;
+  adjustedAt: string;
+}
+
+/**
+ * Odómetro de un tracker en un instante (GET /trackers/:trackerId/odometer?at=)
+ */
+export interface IOdometerAtTime {
+  trackerId: string;
+  at: string;
+  odometer: number; // metros, con el offset vigente en ese momento
+  odometerKm: number;
+  odometerOffset: number; // offset vigente en ese momento
+  /**
+   * Cómo se obtuvo el valor:
+   * - 'stop': el vehículo estaba detenido (odómetro registrado al inicio del stop)
+   * - 'interpolated': en movimiento, interpolado entre el fin del stop anterior y el
+   *   inicio del siguiente (o el odómetro actual)
+   * - 'current': `at` es ahora o futuro, odómetro actual
+   */
+  method: 'stop' | 'interpolated' | 'current';
+  stopId?: string;
 }
@@ -0,0 +1 @@
+export * from './replay-request.dto';
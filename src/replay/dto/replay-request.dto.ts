@@ -0,0 +1,56 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsIn,
+  IsDateString,
+  IsOptional,
+  IsBoolean,
+  ValidateIf,
+} from 'class-validator';
+
+export type ReplaySource = 'jsonl' | 'table';
+
+/**
+ * DTO para reprocesar las posiciones históricas de un device
+ */
+export class ReplayRequestDto {
+  /**
+   * ID del dispositivo a reprocesar
+   */
+  @IsString()
+  @IsNotEmpty()
+  deviceId: string;
+
+  /**
+   * Inicio de la ventana (ISO 8601). Se reemplazan los trips/stops que empiezan en ella.
+   */
+  @IsDateString()
+  from: string;
+
+  /**
+   * Fin de la ventana (ISO 8601)
+   */
+  @IsDateString()
+  to: string;
+
+  /**
+   * Origen de las posiciones: archivo JSONL o tabla de posiciones
+   */
+  @IsIn(['jsonl', 'table'])
+  source: ReplaySource;
+
+  /**
+   * Archivo JSONL relativo a REPLAY_DATA_DIR (requerido si source=jsonl)
+   */
+  @ValidateIf((dto: ReplayRequestDto) => dto.source === 'jsonl')
+  @IsString()
+  @IsNotEmpty()
+  file?: string;
+
+  /**
+   * Si es true (default) solo devuelve el diff, sin tocar la BD
+   */
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean = true;
+}
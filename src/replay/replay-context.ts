@@ -0,0 +1,304 @@
+import { DataSource } from 'typeorm';
+import {
+  StateMachineService,
+  DeviceStateService,
+  EventPublisherService,
+  PositionProcessorService,
+  TrackerStateService,
+  TripRouteBufferService,
+  ThresholdProfileService,
+  GeofenceService,
+  DrivingBehaviorService,
+  SpeedingService,
+  DriverService,
+  FuelService,
+  IdlingService,
+  OdometerSourceService,
+  findDriverId,
+  toRoutePoint,
+} from '../detection/services';
+import { RedisService } from '../auxiliares/redis/redis.service';
+import { TrackerStateRepository } from '../database/repositories/tracker-state.repository';
+import {
+  TripRepository,
+  IRoutePoint,
+} from '../database/repositories/trip.repository';
+import { StopRepository } from '../database/repositories/stop.repository';
+import { OdometerAdjustmentRepository } from '../database/repositories/odometer-adjustment.repository';
+import { DriverAssignment } from '../database/entities';
+import {
+  IPositionEvent,
+  ITripStartedEvent,
+  ITripCompletedEvent,
+  ITripDiscardedEvent,
+  IStopStartedEvent,
+  IStopCompletedEvent,
+  IDrivingEvent,
+  ISpeedingEndedEvent,
+  IFuelEvent,
+  IIdleCompletedEvent,
+} from '../interfaces';
+
+/**
+ * Evento capturado durante el replay (lo que en vivo se publicaría en Redis)
+ */
+export type ReplayEvent =
+  | { type: 'trip:started'; event: ITripStartedEvent }
+  | { type: 'trip:completed'; event: ITripCompletedEvent }
+  | { type: 'trip:discarded'; event: ITripDiscardedEvent }
+  | { type: 'stop:started'; event: IStopStartedEvent }
+  | { type: 'stop:completed'; event: IStopCompletedEvent }
+  | { type: 'driving:event'; event: IDrivingEvent }
+  | { type: 'speeding:ended'; event: ISpeedingEndedEvent }
+  | { type: 'fuel:event'; event: IFuelEvent }
+  | { type: 'idle:completed'; event: IIdleCompletedEvent };
+
+/**
+ * Redis en memoria con la misma semántica que RedisService (serializa a JSON),
+ * sin TTLs. Aísla device:state / tracker:state del replay del Redis real.
+ */
+class ReplayRedisStore {
+  private data = new Map<string, string>();
+
+  get<T = any>(key: string): Promise<T | null> {
+    const result = this.data.get(key);
+    if (!result) return Promise.resolve(null);
+
+    try {
+      return Promise.resolve(JSON.parse(result) as T);
+    } catch {
+      return Promise.resolve(result as T);
+    }
+  }
+
+  set(key: string, value: any): Promise<'OK'> {
+    this.data.set(
+      key,
+      typeof value === 'string' ? value : JSON.stringify(value),
+    );
+    return Promise.resolve('OK');
+  }
+
+  del(key: string): Promise<number> {
+    return Promise.resolve(this.data.delete(key) ? 1 : 0);
+  }
+
+  incr(key: string): Promise<number> {
+    const value = parseInt(this.data.get(key) || '0', 10) + 1;
+    this.data.set(key, String(value));
+    return Promise.resolve(value);
+  }
+
+  expire(): Promise<number> {
+    return Promise.resolve(1);
+  }
+}
+
+/**
+ * Reemplaza a EventPublisherService: en vez de publicar, acumula los eventos en orden
+ */
+class ReplayEventCollector {
+  readonly events: ReplayEvent[] = [];
+
+  publishTripStarted(event: ITripStartedEvent): Promise<void> {
+    return this.collect({ type: 'trip:started', event });
+  }
+
+  publishTripCompleted(event: ITripCompletedEvent): Promise<void> {
+    return this.collect({ type: 'trip:completed', event });
+  }
+
+  publishTripDiscarded(event: ITripDiscardedEvent): Promise<void> {
+    return this.collect({ type: 'trip:discarded', event });
+  }
+
+  publishStopStarted(event: IStopStartedEvent): Promise<void> {
+    return this.collect({ type: 'stop:started', event });
+  }
+
+  publishStopCompleted(event: IStopCompletedEvent): Promise<void> {
+    return this.collect({ type: 'stop:completed', event });
+  }
+
+  publishDrivingEvent(event: IDrivingEvent): Promise<void> {
+    return this.collect({ type: 'driving:event', event });
+  }
+
+  publishSpeedingStarted(): Promise<void> {
+    // Aviso en vivo: el episodio se guarda con speeding:ended
+    return Promise.resolve();
+  }
+
+  publishSpeedingEnded(event: ISpeedingEndedEvent): Promise<void> {
+    return this.collect({ type: 'speeding:ended', event });
+  }
+
+  publishFuelEvent(event: IFuelEvent): Promise<void> {
+    return this.collect({ type: 'fuel:event', event });
+  }
+
+  publishIdleStarted(): Promise<void> {
+    // Aviso en vivo: el episodio se guarda con idle:completed
+    return Promise.resolve();
+  }
+
+  publishIdleCompleted(event: IIdleCompletedEvent): Promise<void> {
+    return this.collect({ type: 'idle:completed', event });
+  }
+
+  publishTrackerStateChanged(): Promise<void> {
+    // El cambio de estado en vivo no aplica a un replay
+    return Promise.resolve();
+  }
+
+  publishGeofenceEntered(): Promise<void> {
+    // Entradas/salidas de geocercas son eventos en vivo: no se regeneran
+    return Promise.resolve();
+  }
+
+  publishGeofenceExited(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  publishPositionUpdated(): Promise<void> {
+    // El stream en vivo no recibe posiciones reprocesadas
+    return Promise.resolve();
+  }
+
+  private collect(event: ReplayEvent): Promise<void> {
+    this.events.push(event);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Reemplaza a TripRouteBufferService: acumula el recorrido de cada trip en memoria
+ */
+class ReplayRouteCollector {
+  readonly routes = new Map<string, IRoutePoint[]>();
+
+  addPoint(
+    tripId: string,
+    _deviceId: string,
+    position: IPositionEvent,
+  ): Promise<void> {
+    const points = this.routes.get(tripId) || [];
+    points.push(toRoutePoint(position));
+    this.routes.set(tripId, points);
+    return Promise.resolve();
+  }
+
+  markConfirmed(): void {}
+
+  complete(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  discard(tripId: string): void {
+    this.routes.delete(tripId);
+  }
+}
+
+export interface IReplayContext {
+  processor: PositionProcessorService;
+  events: ReplayEvent[];
+  routes: Map<string, IRoutePoint[]>;
+}
+
+/**
+ * Arma un PositionProcessorService aislado para reprocesar posiciones de un device.
+ *
+ * Usa la misma máquina de estados, perfiles de umbrales, DeviceStateService y
+ * TrackerStateService que en vivo, pero sobre un Redis en memoria, sin escribir en BD
+ * y capturando los eventos en lugar de publicarlos.
+ *
+ * @param initialOdometer Odómetro (metros, con offset) al inicio de la ventana
+ * @param initialEngineHours Horómetro (horas, con offset) al inicio de la ventana
+ * @param assignments Asignaciones de conductor del device que cubren la ventana
+ */
+export const createReplayContext = (
+  deviceId: string,
+  initialOdometer: number,
+  initialEngineHours: number,
+  stateMachine: StateMachineService,
+  thresholdProfiles: ThresholdProfileService,
+  geofences: GeofenceService,
+  drivingBehavior: DrivingBehaviorService,
+  speeding: SpeedingService,
+  assignments: DriverAssignment[],
+  fuel: FuelService,
+  idling: IdlingService,
+  odometerSources: OdometerSourceService,
+): IReplayContext => {
+  const redis = new ReplayRedisStore() as unknown as RedisService;
+  const eventCollector = new ReplayEventCollector();
+  const routeCollector = new ReplayRouteCollector();
+
+  // El tracker arranca "nuevo" pero con el odómetro y horómetro que tenía al inicio
+  // de la ventana
+  const now = new Date();
+  const trackerStateRepository = {
+    findByTrackerId: () =>
+      Promise.resolve({
+        tracker_id: deviceId,
+        device_id: deviceId,
+        total_odometer: initialOdometer,
+        odometer_offset: 0,
+        total_engine_time: initialEngineHours * 3600,
+        engine_time_offset: 0,
+        total_trips_count: 0,
+        total_driving_time: 0,
+        total_idle_time: 0,
+        total_stops_count: 0,
+        first_seen_at: now,
+        last_seen_at: now,
+        created_at: now,
+        updated_at: now,
+      }),
+    upsert: () => Promise.resolve(undefined),
+  } as unknown as TrackerStateRepository;
+
+  const noopTripRepository = {
+    touchTrip: () => Promise.resolve(),
+  } as unknown as TripRepository;
+  const noopStopRepository = {
+    touchStop: () => Promise.resolve(),
+  } as unknown as StopRepository;
+
+  // El conductor sale de las asignaciones de la ventana, no del cache en vivo (48h)
+  const drivers = {
+    resolveDriverId: (position: IPositionEvent) =>
+      findDriverId(position, assignments),
+  } as unknown as DriverService;
+
+  const processor = new PositionProcessorService(
+    stateMachine,
+    new DeviceStateService(redis),
+    eventCollector as unknown as EventPublisherService,
+    // Los ajustes de odómetro son solo vía API: el replay no los usa
+    new TrackerStateService(
+      trackerStateRepository,
+      redis,
+      {} as unknown as OdometerAdjustmentRepository,
+      noopStopRepository,
+      odometerSources,
+      {} as unknown as DataSource,
+    ),
+    noopTripRepository,
+    noopStopRepository,
+    routeCollector as unknown as TripRouteBufferService,
+    thresholdProfiles,
+    geofences,
+    drivingBehavior,
+    speeding,
+    drivers,
+    fuel,
+    idling,
+  );
+
+  return {
+    processor,
+    events: eventCollector.events,
+    routes: routeCollector.routes,
+  };
+};
@@ -0,0 +1,220 @@
+import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { createReadStream, existsSync } from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { IPositionEvent } from '../interfaces';
+import {
+  REPLAY_DATA_DIR,
+  REPLAY_POSITIONS_TABLE,
+  REPLAY_POSITIONS_DEVICE_COLUMN,
+  REPLAY_POSITIONS_TIME_COLUMN,
+} from '../env';
+
+export interface IReplayPositions {
+  positions: IPositionEvent[];
+  rejected: number; // Líneas/filas descartadas por formato inválido
+}
+
+// Nombre de tabla/columna SQL (opcionalmente con schema): se interpola en la query
+const SQL_IDENTIFIER = /^[a-zA-Z_][a-zA-Z0-9_]*(\.[a-zA-Z_][a-zA-Z0-9_]*)?$/;
+
+/**
+ * Carga las posiciones históricas de un device para el replay
+ *
+ * Fuentes:
+ * - jsonl: archivo dentro de REPLAY_DATA_DIR, un evento position:new por línea
+ *   (timestamp en ms o ISO 8601)
+ * - table: tabla REPLAY_POSITIONS_TABLE de la BD de Tripero, con columnas
+ *   latitude, longitude, speed y opcionales ignition, altitude, heading,
+ *   accuracy, satellites, metadata
+ *
+ * Devuelve las posiciones ordenadas por timestamp ASC.
+ */
+@Injectable()
+export class ReplayPositionLoader {
+  private readonly logger = new Logger(ReplayPositionLoader.name);
+
+  constructor(private readonly dataSource: DataSource) {}
+
+  async loadFromJsonl(
+    file: string,
+    deviceId: string,
+    from: Date,
+    to: Date,
+  ): Promise<IReplayPositions> {
+    const baseDir = path.resolve(REPLAY_DATA_DIR);
+    const filePath = path.resolve(baseDir, file);
+
+    // Solo archivos dentro de REPLAY_DATA_DIR
+    if (!filePath.startsWith(baseDir + path.sep)) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.BAD_REQUEST,
+          message: `file must be inside the replay data directory`,
+          error: 'Bad Request',
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    if (!existsSync(filePath)) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.NOT_FOUND,
+          message: `Replay file ${file} not found`,
+          error: 'Not Found',
+        },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    const positions: IPositionEvent[] = [];
+    let rejected = 0;
+
+    const lines = readline.createInterface({
+      input: createReadStream(filePath, { encoding: 'utf8' }),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+
+      let raw: any;
+      try {
+        raw = JSON.parse(line);
+      } catch {
+        rejected++;
+        continue;
+      }
+
+      if (raw?.deviceId !== deviceId) continue;
+
+      const position = this.normalize(raw);
+      if (!position) {
+        rejected++;
+        continue;
+      }
+
+      if (
+        position.timestamp >= from.getTime() &&
+        position.timestamp <= to.getTime()
+      ) {
+        positions.push(position);
+      }
+    }
+
+    this.logger.debug(
+      `Loaded ${positions.length} positions for ${deviceId} from ${file} (${rejected} rejected)`,
+    );
+
+    return { positions: this.sort(positions), rejected };
+  }
+
+  async loadFromTable(
+    deviceId: string,
+    from: Date,
+    to: Date,
+  ): Promise<IReplayPositions> {
+    const table = REPLAY_POSITIONS_TABLE;
+    const deviceColumn = REPLAY_POSITIONS_DEVICE_COLUMN;
+    const timeColumn = REPLAY_POSITIONS_TIME_COLUMN;
+
+    if (
+      ![table, deviceColumn, timeColumn].every((id) => SQL_IDENTIFIER.test(id))
+    ) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: 'Invalid REPLAY_POSITIONS_* configuration',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+
+    const rows: Record<string, any>[] = await this.dataSource.query(
+      `SELECT * FROM ${table} ` +
+        `WHERE ${deviceColumn} = $1 AND ${timeColumn} >= $2 AND ${timeColumn} <= $3 ` +
+        `ORDER BY ${timeColumn} ASC`,
+      [deviceId, from, to],
+    );
+
+    const positions: IPositionEvent[] = [];
+    let rejected = 0;
+
+    for (const row of rows) {
+      const position = this.normalize({
+        ...row,
+        deviceId,
+        timestamp: row[timeColumn],
+      });
+
+      if (position) {
+        positions.push(position);
+      } else {
+        rejected++;
+      }
+    }
+
+    this.logger.debug(
+      `Loaded ${positions.length} positions for ${deviceId} from table ${table} (${rejected} rejected)`,
+    );
+
+    return { positions: this.sort(positions), rejected };
+  }
+
+  /**
+   * Convierte una línea/fila al formato IPositionEvent.
+   * No aplica el límite de antigüedad de position:new (son posiciones históricas).
+   */
+  private normalize(raw: Record<string, any>): IPositionEvent | null {
+    const timestamp =
+      typeof raw.timestamp === 'number'
+        ? raw.timestamp
+        : new Date(raw.timestamp).getTime();
+    const latitude = Number(raw.latitude);
+    const longitude = Number(raw.longitude);
+    const speed = Number(raw.speed ?? 0);
+
+    if (
+      !Number.isFinite(timestamp) ||
+      !Number.isFinite(latitude) ||
+      !Number.isFinite(longitude) ||
+      !Number.isFinite(speed) ||
+      latitude < -90 ||
+      latitude > 90 ||
+      longitude < -180 ||
+      longitude > 180 ||
+      speed < 0
+    ) {
+      return null;
+    }
+
+    const optionalNumber = (value: unknown): number | undefined =>
+      value === null || value === undefined || !Number.isFinite(Number(value))
+        ? undefined
+        : Number(value);
+
+    return {
+      deviceId: String(raw.deviceId),
+      timestamp,
+      latitude,
+      longitude,
+      speed,
+      ignition: typeof raw.ignition === 'boolean' ? raw.ignition : undefined,
+      altitude: optionalNumber(raw.altitude),
+      heading: optionalNumber(raw.heading),
+      accuracy: optionalNumber(raw.accuracy),
+      satellites: optionalNumber(raw.satellites),
+      metadata:
+        raw.metadata && typeof raw.metadata === 'object'
+          ? raw.metadata
+          : undefined,
+    };
+  }
+
+  private sort(positions: IPositionEvent[]): IPositionEvent[] {
+    return positions.sort((a, b) => a.timestamp - b.timestamp);
+  }
+}
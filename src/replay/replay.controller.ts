@@ -0,0 +1,69 @@
+import {
+  Controller,
+  Post,
+  Body,
+  ValidationPipe,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { ReplayService } from './replay.service';
+import { ReplayRequestDto } from './dto';
+
+/**
+ * Controller de reprocesamiento de posiciones históricas
+ *
+ * Endpoints:
+ * - POST /api/replay - Regenera los trips/stops de un device en una ventana
+ */
+@Controller('api/replay')
+export class ReplayController {
+  private readonly logger = new Logger(ReplayController.name);
+
+  constructor(private readonly replayService: ReplayService) {}
+
+  /**
+   * POST /api/replay
+   *
+   * Body:
+   * {
+   *   "deviceId": "123",
+   *   "from": "2025-01-01T00:00:00Z",
+   *   "to": "2025-01-08T00:00:00Z",
+   *   "source": "jsonl",            // jsonl | table
+   *   "file": "123-enero.jsonl",    // relativo a REPLAY_DATA_DIR (solo jsonl)
+   *   "dryRun": true                // default: true (solo diff, no escribe)
+   * }
+   */
+  @Post()
+  async replay(
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: ReplayRequestDto,
+  ) {
+    try {
+      const result = await this.replayService.replay(dto);
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(
+        `Error replaying positions for device ${dto.deviceId}`,
+        error.stack,
+      );
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: 'Error replaying positions',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { DetectionModule } from '../detection/detection.module';
+import { ReplayController } from './replay.controller';
+import { ReplayService } from './replay.service';
+import { ReplayPositionLoader } from './replay-position.loader';
+
+/**
+ * Módulo de reprocesamiento de posiciones históricas (regenerar trips/stops)
+ */
+@Module({
+  imports: [DatabaseModule, DetectionModule],
+  controllers: [ReplayController],
+  providers: [ReplayService, ReplayPositionLoader],
+})
+export class ReplayModule {}
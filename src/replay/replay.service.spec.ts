@@ -0,0 +1,123 @@
+import {
+  diffTrips,
+  overlapsAny,
+  withSameId,
+  IReplayTripSummary,
+} from './replay.service';
+
+const trip = (
+  tripId: string,
+  start: string,
+  end: string,
+  distance: number,
+): IReplayTripSummary => ({
+  tripId,
+  startTime: `2025-01-01T${start}:00.000Z`,
+  endTime: `2025-01-01T${end}:00.000Z`,
+  duration:
+    (Date.parse(`2025-01-01T${end}:00Z`) -
+      Date.parse(`2025-01-01T${start}:00Z`)) /
+    1000,
+  distance,
+});
+
+/**
+ * Diff del dry-run: los trips regenerados se emparejan con los guardados
+ * por superposición temporal.
+ */
+describe('diffTrips', () => {
+  it('empareja por superposición y clasifica sin cambios / modificados', () => {
+    const oldTrips = [
+      trip('old-1', '08:00', '08:30', 12000),
+      trip('old-2', '10:00', '10:45', 30000),
+    ];
+    const newTrips = [
+      trip('new-1', '08:00', '08:30', 12005),
+      trip('new-2', '10:00', '11:00', 34000),
+    ];
+
+    const diff = diffTrips(oldTrips, newTrips);
+
+    expect(diff.unchanged).toBe(1);
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].old.tripId).toBe('old-2');
+    expect(diff.changed[0].new.tripId).toBe('new-2');
+    expect(diff.changed[0].distanceDelta).toBe(4000);
+    expect(diff.changed[0].durationDelta).toBe(900);
+    expect(diff.added).toHaveLength(0);
+    expect(diff.removed).toHaveLength(0);
+  });
+
+  it('un trip partido en dos: el mayor se empareja, el resto es alta', () => {
+    const oldTrips = [trip('old-1', '08:00', '10:00', 50000)];
+    const newTrips = [
+      trip('new-1', '08:00', '08:20', 8000),
+      trip('new-2', '08:40', '10:00', 42000),
+    ];
+
+    const diff = diffTrips(oldTrips, newTrips);
+
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].new.tripId).toBe('new-1');
+    expect(diff.added.map((t) => t.tripId)).toEqual(['new-2']);
+    expect(diff.removed).toHaveLength(0);
+  });
+
+  it('trips viejos sin equivalente quedan como bajas', () => {
+    const oldTrips = [
+      trip('old-1', '08:00', '08:10', 900),
+      trip('old-2', '09:00', '09:30', 15000),
+    ];
+    const newTrips = [trip('new-1', '09:00', '09:30', 15000)];
+
+    const diff = diffTrips(oldTrips, newTrips);
+
+    expect(diff.unchanged).toBe(1);
+    expect(diff.removed.map((t) => t.tripId)).toEqual(['old-1']);
+  });
+});
+
+/**
+ * Qué reemplaza el replay: lo guardado que se superpone con lo regenerado
+ */
+describe('overlapsAny', () => {
+  const span = (start: string, end: string | null) => ({
+    start: Date.parse(`2025-01-01T${start}:00Z`),
+    end: end ? Date.parse(`2025-01-01T${end}:00Z`) : Infinity,
+  });
+  const covered = [span('08:00', '08:30'), span('08:30', '10:00')];
+
+  it('lo que se superpone con lo regenerado se reemplaza', () => {
+    expect(overlapsAny(span('08:10', '08:40'), covered)).toBe(true);
+    expect(overlapsAny(span('09:00', null), covered)).toBe(true);
+  });
+
+  it('lo que solo toca un extremo no se reemplaza', () => {
+    expect(overlapsAny(span('10:00', '10:20'), covered)).toBe(false);
+    expect(overlapsAny(span('07:30', '08:00'), covered)).toBe(false);
+  });
+
+  it('un trip sin cerrar después de lo regenerado queda intacto', () => {
+    expect(overlapsAny(span('10:30', null), covered)).toBe(false);
+  });
+
+  it('lo que empieza en el mismo instante se reemplaza aunque dure 0', () => {
+    expect(overlapsAny(span('08:00', '08:00'), covered)).toBe(true);
+  });
+});
+
+/**
+ * IDs deterministas (ej: stop 'gap' que empieza en el borde de la ventana): lo
+ * guardado con el mismo ID también se reemplaza, para no chocar al escribirlo
+ */
+describe('withSameId', () => {
+  it('suma lo guardado con el mismo ID que lo regenerado, sin repetirlo', () => {
+    const replaced = [{ id: 'stop_DEV-1_1000' }];
+    const sameId = [{ id: 'stop_DEV-1_1000' }, { id: 'stop_DEV-1_500_gap' }];
+
+    expect(withSameId(replaced, sameId).map((row) => row.id)).toEqual([
+      'stop_DEV-1_1000',
+      'stop_DEV-1_500_gap',
+    ]);
+  });
+});
@@ -0,0 +1,770 @@
+import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import { DataSource, EntityManager } from 'typeorm';
+import {
+  StateMachineService,
+  ThresholdProfileService,
+  GeofenceService,
+  TripPersistenceService,
+  StopPersistenceService,
+  DrivingEventPersistenceService,
+  DrivingBehaviorService,
+  SpeedingService,
+  SpeedingPersistenceService,
+  FuelService,
+  FuelEventPersistenceService,
+  IdlingService,
+  OdometerSourceService,
+  IdlePersistenceService,
+  DeviceEventQueueManager,
+} from '../detection/services';
+import {
+  TripRepository,
+  IRoutePoint,
+} from '../database/repositories/trip.repository';
+import { StopRepository } from '../database/repositories/stop.repository';
+import { DrivingEventRepository } from '../database/repositories/driving-event.repository';
+import { SpeedingEventRepository } from '../database/repositories/speeding-event.repository';
+import { DriverRepository } from '../database/repositories/driver.repository';
+import { FuelEventRepository } from '../database/repositories/fuel-event.repository';
+import { IdleEventRepository } from '../database/repositories/idle-event.repository';
+import {
+  Trip,
+  Stop,
+  FuelEvent,
+  IdleEvent,
+  DriverAssignment,
+} from '../database/entities';
+import { IPositionEvent } from '../interfaces';
+import { createReplayContext, ReplayEvent } from './replay-context';
+import { ReplayPositionLoader } from './replay-position.loader';
+import { ReplayRequestDto } from './dto';
+import {
+  REPLAY_TAIL_HOURS,
+  REPLAY_MAX_WINDOW_DAYS,
+  ROUTE_POINTS_ENABLED,
+} from '../env';
+
+// Diferencias por debajo de estos valores no cuentan como "trip modificado"
+const DISTANCE_TOLERANCE_M = 10;
+const DURATION_TOLERANCE_S = 5;
+
+export interface IReplayTripSummary {
+  tripId: string;
+  startTime: string;
+  endTime: string | null;
+  duration: number; // segundos
+  distance: number; // metros
+}
+
+export interface IReplayTripChange {
+  old: IReplayTripSummary;
+  new: IReplayTripSummary;
+  distanceDelta: number;
+  durationDelta: number;
+}
+
+export interface IReplayTripDiff {
+  unchanged: number;
+  changed: IReplayTripChange[];
+  added: IReplayTripSummary[];
+  removed: IReplayTripSummary[];
+}
+
+/**
+ * Intervalo de tiempo en ms (end = Infinity si sigue abierto)
+ */
+export interface IReplaySpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * Registros guardados que reemplaza el replay (se superponen con lo regenerado)
+ */
+interface IReplayReplaced {
+  trips: Trip[];
+  stops: Stop[];
+  fuelEvents: FuelEvent[];
+  idleEvents: IdleEvent[];
+}
+
+export interface IReplayResult {
+  deviceId: string;
+  from: string;
+  to: string;
+  dryRun: boolean;
+  // skipped: posiciones cuyo procesamiento falló (no aportan a lo regenerado)
+  positions: { processed: number; rejected: number; skipped: number };
+  initialOdometer: number; // metros
+  initialEngineHours: number; // horas
+  trips: { old: number; new: number; diff: IReplayTripDiff };
+  stops: { old: number; new: number };
+  // Trips/stops que empiezan en la ventana pero no cerraron dentro de REPLAY_TAIL_HOURS
+  unfinished: { trips: number; stops: number };
+  // Trips regenerados que se superponen con trips fuera de la ventana (no se escriben)
+  overlapping: IReplayTripSummary[];
+  // Trips/stops guardados en la ventana que ningún trip/stop regenerado reemplaza
+  // (no se borran)
+  untouched: { trips: number; stops: number };
+  applied?: {
+    deletedTrips: number;
+    deletedStops: number;
+    createdTrips: number;
+    createdStops: number;
+  };
+}
+
+/**
+ * Compara los trips guardados con los regenerados.
+ * Cada trip nuevo se empareja con el trip viejo (aún no emparejado) con el que
+ * más se superpone en el tiempo; los que no se superponen con ninguno son altas/bajas.
+ */
+export const diffTrips = (
+  oldTrips: IReplayTripSummary[],
+  newTrips: IReplayTripSummary[],
+): IReplayTripDiff => {
+  const diff: IReplayTripDiff = {
+    unchanged: 0,
+    changed: [],
+    added: [],
+    removed: [],
+  };
+  const unmatched = new Set(oldTrips);
+
+  for (const newTrip of newTrips) {
+    let best: IReplayTripSummary | undefined;
+    let bestOverlap = 0;
+
+    for (const oldTrip of unmatched) {
+      const overlap = overlapMs(oldTrip, newTrip);
+      if (overlap > bestOverlap) {
+        best = oldTrip;
+        bestOverlap = overlap;
+      }
+    }
+
+    if (!best) {
+      diff.added.push(newTrip);
+      continue;
+    }
+
+    unmatched.delete(best);
+
+    const distanceDelta = newTrip.distance - best.distance;
+    const durationDelta = newTrip.duration - best.duration;
+
+    if (
+      Math.abs(distanceDelta) < DISTANCE_TOLERANCE_M &&
+      Math.abs(durationDelta) < DURATION_TOLERANCE_S
+    ) {
+      diff.unchanged++;
+    } else {
+      diff.changed.push({
+        old: best,
+        new: newTrip,
+        distanceDelta,
+        durationDelta,
+      });
+    }
+  }
+
+  diff.removed.push(...unmatched);
+  return diff;
+};
+
+const overlapMs = (a: IReplayTripSummary, b: IReplayTripSummary): number => {
+  const start = Math.max(Date.parse(a.startTime), Date.parse(b.startTime));
+  const end = Math.min(
+    a.endTime ? Date.parse(a.endTime) : Infinity,
+    b.endTime ? Date.parse(b.endTime) : Infinity,
+  );
+
+  // Trips de duración 0 cuentan si comparten el instante de inicio
+  return end >= start ? end - start + 1 : 0;
+};
+
+/**
+ * true si el intervalo se superpone con alguno de los cubiertos
+ * (los que solo se tocan en un extremo no cuentan, salvo que empiecen juntos)
+ */
+export const overlapsAny = (
+  span: IReplaySpan,
+  covered: IReplaySpan[],
+): boolean =>
+  covered.some(
+    (other) =>
+      span.start === other.start ||
+      (span.start < other.end && other.start < span.end),
+  );
+
+const isCovered = (time: number, covered: IReplaySpan[]): boolean =>
+  covered.some((span) => time >= span.start && time <= span.end);
+
+const storedSpan = (row: { start_time: Date; end_time: Date | null }) => ({
+  start: row.start_time.getTime(),
+  end: row.end_time ? row.end_time.getTime() : Infinity,
+});
+
+/**
+ * Suma a lo reemplazado lo guardado con el mismo ID que algo regenerado: los IDs
+ * deterministas (stops 'gap', ralentí, cargas) se repiten aunque lo guardado quede
+ * fuera de la ventana o no se superponga, y escribirlo de nuevo chocaría con la fila
+ * existente
+ */
+export const withSameId = <T extends { id: string }>(
+  replaced: T[],
+  sameId: T[],
+): T[] => [
+  ...replaced,
+  ...sameId.filter((row) => !replaced.some((other) => other.id === row.id)),
+];
+
+const summarizeTrip = (trip: Trip): IReplayTripSummary => ({
+  tripId: trip.id,
+  startTime: trip.start_time.toISOString(),
+  endTime: trip.end_time ? trip.end_time.toISOString() : null,
+  duration: trip.duration,
+  distance: trip.distance,
+});
+
+/**
+ * Servicio de reprocesamiento de posiciones históricas
+ *
+ * Flujo:
+ * 1. Carga las posiciones del device en [from, to + REPLAY_TAIL_HOURS]
+ * 2. Las pasa por un PositionProcessorService aislado (ver createReplayContext):
+ *    no toca device:state/tracker:state en Redis ni publica eventos
+ * 3. Se quedan los trips/stops que empiezan en [from, to] y que cerraron
+ * 4. dryRun: devuelve el diff contra lo guardado
+ *    !dryRun: en una transacción, borra lo guardado que se superpone con los
+ *    trips/stops regenerados y escribe los regenerados con la misma lógica que la
+ *    persistencia en vivo, dentro de la cola de eventos del device. Lo guardado que
+ *    no se reemplaza (p. ej. trips sin cerrar al final de la ventana) queda intacto.
+ */
+@Injectable()
+export class ReplayService {
+  private readonly logger = new Logger(ReplayService.name);
+  private readonly running = new Set<string>();
+
+  constructor(
+    private readonly positionLoader: ReplayPositionLoader,
+    private readonly stateMachine: StateMachineService,
+    private readonly thresholdProfiles: ThresholdProfileService,
+    private readonly geofences: GeofenceService,
+    private readonly drivingBehavior: DrivingBehaviorService,
+    private readonly speeding: SpeedingService,
+    private readonly fuel: FuelService,
+    private readonly idling: IdlingService,
+    private readonly odometerSources: OdometerSourceService,
+    private readonly tripPersistence: TripPersistenceService,
+    private readonly stopPersistence: StopPersistenceService,
+    private readonly drivingEventPersistence: DrivingEventPersistenceService,
+    private readonly speedingPersistence: SpeedingPersistenceService,
+    private readonly fuelEventPersistence: FuelEventPersistenceService,
+    private readonly idlePersistence: IdlePersistenceService,
+    private readonly eventQueueManager: DeviceEventQueueManager,
+    private readonly tripRepository: TripRepository,
+    private readonly stopRepository: StopRepository,
+    private readonly drivingEventRepository: DrivingEventRepository,
+    private readonly speedingEventRepository: SpeedingEventRepository,
+    private readonly driverRepository: DriverRepository,
+    private readonly fuelEventRepository: FuelEventRepository,
+    private readonly idleEventRepository: IdleEventRepository,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async replay(dto: ReplayRequestDto): Promise<IReplayResult> {
+    const from = new Date(dto.from);
+    const to = new Date(dto.to);
+    const dryRun = dto.dryRun !== false;
+
+    this.validateWindow(from, to);
+
+    if (this.running.has(dto.deviceId)) {
+      throw this.conflict(
+        `A replay is already running for device ${dto.deviceId}`,
+      );
+    }
+
+    this.running.add(dto.deviceId);
+
+    try {
+      return await this.run(dto, from, to, dryRun);
+    } finally {
+      this.running.delete(dto.deviceId);
+    }
+  }
+
+  private async run(
+    dto: ReplayRequestDto,
+    from: Date,
+    to: Date,
+    dryRun: boolean,
+  ): Promise<IReplayResult> {
+    const { deviceId } = dto;
+    const loadEnd = new Date(to.getTime() + REPLAY_TAIL_HOURS * 3600 * 1000);
+
+    const { positions, rejected } =
+      dto.source === 'jsonl'
+        ? await this.positionLoader.loadFromJsonl(
+            dto.file as string,
+            deviceId,
+            from,
+            loadEnd,
+          )
+        : await this.positionLoader.loadFromTable(deviceId, from, loadEnd);
+
+    // Odómetro y horómetro al inicio de la ventana: los del último stop cerrado
+    // antes de `from`
+    const previousStop = await this.stopRepository.findLastClosedBefore(
+      deviceId,
+      from,
+    );
+    const initialOdometer = previousStop?.end_odometer ?? 0;
+    const initialEngineHours = previousStop?.end_engine_hours ?? 0;
+
+    const assignments = await this.driverRepository.findAssignments({
+      deviceId,
+      from,
+      to: loadEnd,
+    });
+
+    const processed = await this.process(
+      deviceId,
+      positions,
+      initialOdometer,
+      initialEngineHours,
+      assignments,
+    );
+    const kept = this.selectEvents(processed.events, from, to);
+
+    const [oldTrips, oldStops, oldFuelEvents, oldIdleEvents, surrounding] =
+      await Promise.all([
+        this.tripRepository.findByAssetAndTimeRange(deviceId, from, to, true),
+        this.stopRepository.findByAssetStartingBetween(deviceId, from, to),
+        this.fuelEventRepository.findByAssetStartingBetween(deviceId, from, to),
+        this.idleEventRepository.findByAssetStartingBetween(deviceId, from, to),
+        this.tripRepository.findOverlappingByAsset(deviceId, from, loadEnd),
+      ]);
+
+    // Trips guardados fuera de la ventana (no se borran): un trip regenerado que se
+    // superpone con uno de ellos lo duplicaría, así que no se escribe
+    const preserved = surrounding
+      .filter((trip) => trip.start_time < from || trip.start_time > to)
+      .map(summarizeTrip);
+    const overlapping = kept.trips.filter((trip) =>
+      preserved.some((other) => overlapMs(trip, other) > 0),
+    );
+    for (const trip of overlapping) {
+      kept.tripIds.delete(trip.tripId);
+    }
+
+    const newTrips = kept.trips.filter((trip) => kept.tripIds.has(trip.tripId));
+
+    // Período que cubren los trips/stops que se escriben: lo guardado que se superpone
+    // con él se reemplaza; las cargas/caídas y ralentís solo se reemplazan dentro de él
+    const written = processed.events.filter((item) => this.isKept(item, kept));
+    const covered: IReplaySpan[] = [];
+    for (const item of written) {
+      if (item.type === 'trip:completed' || item.type === 'stop:completed') {
+        covered.push({
+          start: Date.parse(item.event.startTime),
+          end: Date.parse(item.event.endTime),
+        });
+      }
+    }
+    const toWrite = written.filter(
+      (item) =>
+        (item.type !== 'fuel:event' && item.type !== 'idle:completed') ||
+        isCovered(Date.parse(item.event.startTime), covered),
+    );
+
+    // Lo guardado con el mismo ID que algo regenerado también se reemplaza
+    const stopIds: string[] = [];
+    const fuelEventIds: string[] = [];
+    const idleIds: string[] = [];
+    for (const item of toWrite) {
+      switch (item.type) {
+        case 'stop:started':
+          stopIds.push(item.event.stopId);
+          break;
+        case 'fuel:event':
+          fuelEventIds.push(item.event.eventId);
+          break;
+        case 'idle:completed':
+          idleIds.push(item.event.idleId);
+          break;
+      }
+    }
+    const [sameIdStops, sameIdFuelEvents, sameIdIdleEvents] = await Promise.all(
+      [
+        this.stopRepository.findByIds(stopIds),
+        this.fuelEventRepository.findByIds(fuelEventIds),
+        this.idleEventRepository.findByIds(idleIds),
+      ],
+    );
+
+    const replaced: IReplayReplaced = {
+      trips: oldTrips.filter((trip) => overlapsAny(storedSpan(trip), covered)),
+      stops: withSameId(
+        oldStops.filter((stop) => overlapsAny(storedSpan(stop), covered)),
+        sameIdStops,
+      ),
+      fuelEvents: withSameId(
+        oldFuelEvents.filter((event) =>
+          isCovered(event.start_time.getTime(), covered),
+        ),
+        sameIdFuelEvents,
+      ),
+      idleEvents: withSameId(
+        oldIdleEvents.filter((event) =>
+          isCovered(event.start_time.getTime(), covered),
+        ),
+        sameIdIdleEvents,
+      ),
+    };
+    const replacedStopIds = new Set(replaced.stops.map((stop) => stop.id));
+
+    const oldSummaries = oldTrips
+      .map(summarizeTrip)
+      .sort((a, b) => Date.parse(a.startTime) - Date.parse(b.startTime));
+
+    const result: IReplayResult = {
+      deviceId,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      dryRun,
+      positions: {
+        processed: positions.length,
+        rejected,
+        skipped: processed.skipped,
+      },
+      initialOdometer,
+      initialEngineHours,
+      trips: {
+        old: oldTrips.length,
+        new: newTrips.length,
+        diff: diffTrips(oldSummaries, newTrips),
+      },
+      stops: { old: oldStops.length, new: kept.stopIds.size },
+      unfinished: kept.unfinished,
+      overlapping,
+      untouched: {
+        trips: oldTrips.length - replaced.trips.length,
+        stops: oldStops.filter((stop) => !replacedStopIds.has(stop.id)).length,
+      },
+    };
+
+    if (!dryRun) {
+      result.applied = await this.apply(
+        deviceId,
+        oldTrips,
+        oldStops,
+        replaced,
+        toWrite,
+        processed.routes,
+      );
+    }
+
+    this.logger.log(
+      `Replay ${dryRun ? '(dry-run) ' : ''}for ${deviceId} ` +
+        `[${result.from} → ${result.to}]: ${positions.length} positions ` +
+        `(${processed.skipped} skipped), ` +
+        `trips ${result.trips.old} → ${result.trips.new}, ` +
+        `stops ${result.stops.old} → ${result.stops.new}`,
+    );
+
+    return result;
+  }
+
+  /**
+   * Pasa las posiciones por un procesador aislado y devuelve los eventos generados
+   * y la cantidad de posiciones cuyo procesamiento falló
+   */
+  private async process(
+    deviceId: string,
+    positions: IPositionEvent[],
+    initialOdometer: number,
+    initialEngineHours: number,
+    assignments: DriverAssignment[],
+  ) {
+    const context = createReplayContext(
+      deviceId,
+      initialOdometer,
+      initialEngineHours,
+      this.stateMachine,
+      this.thresholdProfiles,
+      this.geofences,
+      this.drivingBehavior,
+      this.speeding,
+      assignments,
+      this.fuel,
+      this.idling,
+      this.odometerSources,
+    );
+
+    let skipped = 0;
+    for (const position of positions) {
+      if (!(await context.processor.processPosition(position))) {
+        skipped++;
+      }
+    }
+
+    return { events: context.events, routes: context.routes, skipped };
+  }
+
+  /**
+   * Trips/stops a escribir: empiezan en [from, to] y tienen su evento de cierre.
+   * Los trips descartados (no cumplieron mínimos) no se escriben.
+   * Las cargas/caídas de combustible y los ralentís se escriben si empiezan en
+   * [from, to].
+   */
+  private selectEvents(events: ReplayEvent[], from: Date, to: Date) {
+    const inWindow = (time: string) => {
+      const ms = Date.parse(time);
+      return ms >= from.getTime() && ms <= to.getTime();
+    };
+
+    const startedTrips = new Set<string>();
+    const startedStops = new Set<string>();
+    const tripIds = new Set<string>();
+    const stopIds = new Set<string>();
+    const fuelEventIds = new Set<string>();
+    const idleIds = new Set<string>();
+    const trips: IReplayTripSummary[] = [];
+
+    for (const item of events) {
+      switch (item.type) {
+        case 'trip:started':
+          if (inWindow(item.event.startTime)) {
+            startedTrips.add(item.event.tripId);
+          }
+          break;
+        case 'trip:completed':
+          if (startedTrips.delete(item.event.tripId)) {
+            tripIds.add(item.event.tripId);
+            trips.push({
+              tripId: item.event.tripId,
+              startTime: item.event.startTime,
+              endTime: item.event.endTime,
+              duration: item.event.duration,
+              distance: item.event.distance,
+            });
+          }
+          break;
+        case 'trip:discarded':
+          startedTrips.delete(item.event.tripId);
+          break;
+        case 'stop:started':
+          if (inWindow(item.event.startTime)) {
+            startedStops.add(item.event.stopId);
+          }
+          break;
+        case 'stop:completed':
+          if (startedStops.delete(item.event.stopId)) {
+            stopIds.add(item.event.stopId);
+          }
+          break;
+        case 'fuel:event':
+          if (inWindow(item.event.startTime)) {
+            fuelEventIds.add(item.event.eventId);
+          }
+          break;
+        case 'idle:completed':
+          if (inWindow(item.event.startTime)) {
+            idleIds.add(item.event.idleId);
+          }
+          break;
+      }
+    }
+
+    return {
+      tripIds,
+      stopIds,
+      fuelEventIds,
+      idleIds,
+      trips,
+      unfinished: { trips: startedTrips.size, stops: startedStops.size },
+    };
+  }
+
+  private isKept(
+    item: ReplayEvent,
+    kept: {
+      tripIds: Set<string>;
+      stopIds: Set<string>;
+      fuelEventIds: Set<string>;
+      idleIds: Set<string>;
+    },
+  ): boolean {
+    switch (item.type) {
+      case 'trip:started':
+      case 'trip:completed':
+      case 'driving:event':
+      case 'speeding:ended':
+        return kept.tripIds.has(item.event.tripId);
+      case 'stop:started':
+      case 'stop:completed':
+        return kept.stopIds.has(item.event.stopId);
+      case 'fuel:event':
+        return kept.fuelEventIds.has(item.event.eventId);
+      case 'idle:completed':
+        return kept.idleIds.has(item.event.idleId);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Reemplaza lo guardado que se superpone con lo regenerado, en una transacción:
+   * si algo falla no se borra nada.
+   * Corre dentro de la cola de eventos del device para no intercalarse con la
+   * persistencia en vivo.
+   */
+  private async apply(
+    deviceId: string,
+    oldTrips: Trip[],
+    oldStops: Stop[],
+    replaced: IReplayReplaced,
+    events: ReplayEvent[],
+    routes: Map<string, IRoutePoint[]>,
+  ): Promise<NonNullable<IReplayResult['applied']>> {
+    if (
+      oldTrips.some((trip) => trip.is_active) ||
+      [...oldStops, ...replaced.stops].some((stop) => stop.is_active)
+    ) {
+      throw this.conflict(
+        `Device ${deviceId} has an active trip or stop in the replay window`,
+      );
+    }
+
+    return await new Promise((resolve, reject) => {
+      this.eventQueueManager
+        .enqueue(deviceId, async () => {
+          try {
+            resolve(
+              await this.dataSource.transaction((manager) =>
+                this.rewrite(manager, replaced, events, routes),
+              ),
+            );
+          } catch (error) {
+            reject(error as Error);
+          }
+        })
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Borra lo reemplazado y escribe lo regenerado con el manager de la transacción
+   */
+  private async rewrite(
+    manager: EntityManager,
+    replaced: IReplayReplaced,
+    events: ReplayEvent[],
+    routes: Map<string, IRoutePoint[]>,
+  ): Promise<NonNullable<IReplayResult['applied']>> {
+    const ids = (rows: Array<{ id: string }>) => rows.map((row) => row.id);
+    const tripIds = ids(replaced.trips);
+
+    const deletedStops = await this.stopRepository.deleteByIds(
+      ids(replaced.stops),
+      manager,
+    );
+    await this.drivingEventRepository.deleteByTripIds(tripIds, manager);
+    await this.speedingEventRepository.deleteByTripIds(tripIds, manager);
+    const deletedTrips = await this.tripRepository.deleteByIds(
+      tripIds,
+      manager,
+    );
+    await this.fuelEventRepository.deleteByIds(
+      ids(replaced.fuelEvents),
+      manager,
+    );
+    await this.idleEventRepository.deleteByIds(
+      ids(replaced.idleEvents),
+      manager,
+    );
+
+    let createdTrips = 0;
+    let createdStops = 0;
+
+    for (const item of events) {
+      switch (item.type) {
+        case 'trip:started':
+          await this.tripPersistence.saveTripStarted(item.event, manager);
+          createdTrips++;
+          break;
+        case 'trip:completed':
+          await this.tripPersistence.saveTripCompleted(item.event, manager);
+          if (ROUTE_POINTS_ENABLED) {
+            await this.tripRepository.appendRoutePoints(
+              item.event.tripId,
+              routes.get(item.event.tripId) || [],
+              manager,
+            );
+          }
+          break;
+        case 'stop:started':
+          await this.stopPersistence.saveStopStarted(item.event, manager);
+          createdStops++;
+          break;
+        case 'stop:completed':
+          await this.stopPersistence.saveStopCompleted(item.event, manager);
+          break;
+        case 'driving:event':
+          await this.drivingEventPersistence.saveDrivingEvent(
+            item.event,
+            manager,
+          );
+          break;
+        case 'speeding:ended':
+          await this.speedingPersistence.saveSpeedingEnded(item.event, manager);
+          break;
+        case 'fuel:event':
+          await this.fuelEventPersistence.saveFuelEvent(item.event, manager);
+          break;
+        case 'idle:completed':
+          await this.idlePersistence.saveIdleCompleted(item.event, manager);
+          break;
+      }
+    }
+
+    return { deletedTrips, deletedStops, createdTrips, createdStops };
+  }
+
+  private validateWindow(from: Date, to: Date): void {
+    let message: string | undefined;
+
+    if (from >= to) {
+      message = 'from must be before to';
+    } else if (
+      to.getTime() - from.getTime() >
+      REPLAY_MAX_WINDOW_DAYS * 24 * 3600 * 1000
+    ) {
+      message = `Replay window cannot exceed ${REPLAY_MAX_WINDOW_DAYS} days`;
+    }
+
+    if (message) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.BAD_REQUEST,
+          message,
+          error: 'Bad Request',
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+
+  private conflict(message: string): HttpException {
+    return new HttpException(
+      {
+        statusCode: HttpStatus.CONFLICT,
+        message,
+        error: 'Conflict',
+      },
+      HttpStatus.CONFLICT,
+    );
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * DTO de respuesta para el resumen por conductor (GET /api/reports/drivers)
+ */
+export class DriverSummaryResponseDto {
+  /**
+   * ID único del conductor (drivers.unique_id)
+   */
+  driverUniqueId: string;
+
+  /**
+   * Nombre del conductor (opcional, si está dado de alta en /drivers)
+   */
+  driverName?: string;
+
+  /**
+   * Dispositivos que manejó en el período
+   */
+  deviceIds: string[];
+
+  /**
+   * Distancia total recorrida en los trips (metros)
+   */
+  distance: number;
+
+  /**
+   * Velocidad promedio ponderada por distancia de los trips (km/h)
+   */
+  averageSpeed: number;
+
+  /**
+   * Velocidad máxima alcanzada (km/h)
+   */
+  maxSpeed: number;
+
+  /**
+   * Tiempo en movimiento: suma de la duración de los trips (segundos)
+   */
+  drivingTime: number;
+
+  /**
+   * Cantidad de trips
+   */
+  tripCount: number;
+
+  /**
+   * Eventos de manejo brusco en sus trips
+   */
+  harshAccelerationCount: number;
+  harshBrakingCount: number;
+  sharpCorneringCount: number;
+
+  /**
+   * Inicio del primer trip del período (ISO 8601)
+   */
+  startTime?: string;
+
+  /**
+   * Fin del último trip del período (ISO 8601)
+   */
+  endTime?: string;
+}
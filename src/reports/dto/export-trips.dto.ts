@@ -0,0 +1,34 @@
+import { IsIn, IsString, IsNotEmpty, IsDateString } from 'class-validator';
+import { TRIP_EXPORT_FORMATS } from '../trip-export.formatter';
+import type { TripExportFormat } from '../trip-export.formatter';
+
+/**
+ * DTO para exportar un trip
+ * Ejemplo: ?format=kml
+ */
+export class ExportTripDto {
+  @IsIn(TRIP_EXPORT_FORMATS)
+  format: TripExportFormat;
+}
+
+/**
+ * DTO para exportar los trips de un dispositivo en un período
+ * Ejemplo: ?deviceId=TEST-001&from=2024-01-01T00:00:00Z&to=2024-01-01T23:59:59Z&format=gpx
+ */
+export class ExportTripsDto extends ExportTripDto {
+  @IsString()
+  @IsNotEmpty()
+  deviceId: string;
+
+  /**
+   * Fecha de inicio en formato ISO 8601 (trips que empiezan desde esta fecha)
+   */
+  @IsDateString()
+  from: string;
+
+  /**
+   * Fecha de fin en formato ISO 8601
+   */
+  @IsDateString()
+  to: string;
+}
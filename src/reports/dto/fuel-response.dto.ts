@@ -0,0 +1,54 @@
+/**
+ * DTO de respuesta para cargas y caídas de combustible
+ */
+export class FuelResponseDto {
+  /**
+   * ID del evento (eventId de fuel:event)
+   */
+  id: string;
+
+  /**
+   * ID del dispositivo
+   */
+  deviceId: string;
+
+  /**
+   * refuel = carga, drain = caída con el vehículo detenido (posible robo)
+   */
+  type: 'refuel' | 'drain';
+
+  /**
+   * Timestamp de inicio (nivel antes del cambio, ISO 8601)
+   */
+  startTime: string;
+
+  /**
+   * Timestamp de fin (nivel estabilizado, ISO 8601)
+   */
+  endTime: string;
+
+  /**
+   * Duración en segundos
+   */
+  duration: number;
+
+  /**
+   * Litros cargados o perdidos
+   */
+  amount: number;
+
+  /**
+   * Nivel antes y después (litros, suavizado)
+   */
+  levelBefore: number;
+  levelAfter: number;
+
+  latitude: number;
+  longitude: number;
+
+  /**
+   * Trip / stop en curso cuando ocurrió
+   */
+  tripId?: string;
+  stopId?: string;
+}
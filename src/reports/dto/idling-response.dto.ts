@@ -0,0 +1,48 @@
+/**
+ * DTO de respuesta para episodios de ralentí (motor encendido sin movimiento)
+ */
+export class IdlingResponseDto {
+  /**
+   * ID del episodio (idleId de idle:started / idle:completed)
+   */
+  id: string;
+
+  /**
+   * ID del dispositivo
+   */
+  deviceId: string;
+
+  /**
+   * Timestamp de inicio (ISO 8601)
+   */
+  startTime: string;
+
+  /**
+   * Timestamp de fin (ISO 8601)
+   */
+  endTime: string;
+
+  /**
+   * Duración en segundos
+   */
+  duration: number;
+
+  latitude: number;
+  longitude: number;
+
+  /**
+   * Dirección (geocodificación inversa, si está configurada)
+   */
+  address?: string;
+
+  /**
+   * Geocerca en la que ocurrió
+   */
+  geofenceId?: string;
+
+  /**
+   * Trip / stop en curso cuando ocurrió
+   */
+  tripId?: string;
+  stopId?: string;
+}
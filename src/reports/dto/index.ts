@@ -1,3 +1,15 @@
 export * from './query-reports.dto';
 export * from './trip-response.dto';
 export * from './stop-response.dto';
+export * from './speeding-response.dto';
+export * from './fuel-response.dto';
+export * from './idling-response.dto';
+export * from './route-response.dto';
+export * from './query-summary.dto';
+export * from './summary-response.dto';
+export * from './query-timeline.dto';
+export * from './timeline-response.dto';
+export * from './driver-summary-response.dto';
+export * from './export-trips.dto';
+export * from './spreadsheet-options.dto';
+export * from './report-page.dto';
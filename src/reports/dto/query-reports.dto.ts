@@ -4,10 +4,26 @@ import {
   IsDateString,
   IsArray,
   IsInt,
+  IsIn,
+  IsBoolean,
+  Matches,
   Min,
 } from 'class-validator';
 import { Transform, Type } from 'class-transformer';
 
+/**
+ * Columnas por las que se pueden ordenar los reportes
+ * (stops y combustible: solo start_time y duration; speeding: todas)
+ */
+export const REPORT_SORT_FIELDS = [
+  'start_time',
+  'distance',
+  'duration',
+  'max_speed',
+] as const;
+
+export type ReportSortField = (typeof REPORT_SORT_FIELDS)[number];
+
 /**
  * DTO para query params de reportes
  * Compatible con API de Traccar
@@ -29,7 +45,9 @@ export class QueryReportsDto {
   deviceId?: string[];
 
   /**
-   * ID de grupo(s) - Opcional, no implementado aún
+   * ID de grupo(s) de dispositivos - Opcional
+   * Se expande a los dispositivos del grupo y de sus subgrupos (se suman a deviceId)
+   * Ejemplo: "3" o "3,7"
    */
   @IsOptional()
   @Transform(({ value }) => {
@@ -39,6 +57,7 @@ export class QueryReportsDto {
     return Array.isArray(value) ? value : [value];
   })
   @IsArray()
+  @Matches(/^\d+$/, { each: true, message: 'groupId must be numeric' })
   groupId?: string[];
 
   /**
@@ -105,9 +124,58 @@ export class QueryReportsDto {
   })
   metadata?: Record<string, any>;
 
+  /**
+   * ID de geocerca(s): stops que caen en ellas / trips que empiezan o terminan en ellas /
+   * excesos de velocidad con el límite de esas geocercas / ralentís ocurridos en ellas
+   * Ejemplo: ?geofenceId=uuid1,uuid2
+   */
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      return value.split(',').map((id) => id.trim());
+    }
+    return Array.isArray(value) ? value : [value];
+  })
+  @IsArray()
+  geofenceId?: string[];
+
+  /**
+   * Categoría de geocerca: igual que geofenceId pero para todas las geocercas
+   * de la categoría
+   * Ejemplo: ?geofenceCategory=customer ("todas las paradas en clientes")
+   */
+  @IsOptional()
+  @IsString()
+  geofenceCategory?: string;
+
+  /**
+   * ID único de conductor(es): trips/stops registrados con ese conductor /
+   * excesos de velocidad en sus trips
+   * Ejemplo: ?driverId=IBUTTON-01A2B3,IBUTTON-04C5D6
+   */
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      return value.split(',').map((id) => id.trim());
+    }
+    return Array.isArray(value) ? value : [value];
+  })
+  @IsArray()
+  driverId?: string[];
+
+  /**
+   * Tipo de evento de combustible (solo /api/reports/fuel): refuel = cargas,
+   * drain = caídas con el vehículo detenido
+   * Ejemplo: ?type=drain
+   */
+  @IsOptional()
+  @IsIn(['refuel', 'drain'])
+  type?: 'refuel' | 'drain';
+
   /**
    * Límite de resultados
    * Trae los últimos x registros ordenados por fecha de inicio DESC
+   * (o por sort/order). Es el tamaño de página: si hay más, se devuelve nextCursor
    * Ejemplo: ?limit=100
    */
   @IsOptional()
@@ -115,4 +183,38 @@ export class QueryReportsDto {
   @IsInt()
   @Min(1)
   limit?: number;
+
+  /**
+   * Columna de orden (default start_time)
+   * Ejemplo: ?sort=distance
+   */
+  @IsOptional()
+  @IsIn(REPORT_SORT_FIELDS)
+  sort?: ReportSortField;
+
+  /**
+   * Sentido del orden (default desc)
+   */
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.toLowerCase() : value,
+  )
+  @IsIn(['asc', 'desc'])
+  order?: 'asc' | 'desc';
+
+  /**
+   * Cursor opaco de la página siguiente (nextCursor de la respuesta anterior).
+   * Se usa con el mismo sort/order y filtros que la primera página.
+   */
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  /**
+   * true: responder { data, nextCursor, total } en lugar del array
+   */
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  envelope?: boolean;
 }
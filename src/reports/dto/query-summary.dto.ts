@@ -0,0 +1,27 @@
+import { IsBoolean, IsOptional, IsTimeZone } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { QueryReportsDto } from './query-reports.dto';
+
+/**
+ * DTO para query params del reporte resumen
+ * Acepta los mismos filtros que trips/stops
+ */
+export class QuerySummaryDto extends QueryReportsDto {
+  /**
+   * Si es true, devuelve una fila por dispositivo y día
+   * Ejemplo: ?daily=true
+   */
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  daily?: boolean;
+
+  /**
+   * Zona horaria IANA para cortar los días cuando daily=true (default UTC).
+   * Es el mismo `tz` de la exportación como planilla y del timeline.
+   * Ejemplo: ?tz=America/Argentina/Buenos_Aires
+   */
+  @IsOptional()
+  @IsTimeZone()
+  tz?: string;
+}
@@ -0,0 +1,30 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsTimeZone,
+  Matches,
+} from 'class-validator';
+
+/**
+ * DTO para query params del timeline diario de un dispositivo
+ * Ejemplo: ?deviceId=TEST-001&date=2024-01-15&tz=America/Argentina/Buenos_Aires
+ */
+export class QueryTimelineDto {
+  @IsString()
+  @IsNotEmpty()
+  deviceId: string;
+
+  /**
+   * Día (YYYY-MM-DD) en la zona horaria tz
+   */
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'date must be YYYY-MM-DD' })
+  date: string;
+
+  /**
+   * Zona horaria IANA en la que se corta el día (default UTC)
+   */
+  @IsOptional()
+  @IsTimeZone()
+  tz?: string;
+}
@@ -0,0 +1,19 @@
+/**
+ * DTO de respuesta paginada de trips/stops (?envelope=true)
+ */
+export class ReportPageDto<T> {
+  /**
+   * Filas de la página
+   */
+  data: T[];
+
+  /**
+   * Cursor de la página siguiente (?cursor=), null en la última página
+   */
+  nextCursor: string | null;
+
+  /**
+   * Total de filas de todas las páginas (solo con envelope=true)
+   */
+  total?: number;
+}
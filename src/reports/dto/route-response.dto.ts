@@ -0,0 +1,70 @@
+/**
+ * DTO de respuesta para un punto del recorrido
+ * Compatible con formato de Traccar API (posiciones de /api/reports/route)
+ */
+export class RoutePointResponseDto {
+  /**
+   * ID del dispositivo
+   */
+  deviceId: string;
+
+  /**
+   * ID del trip al que pertenece el punto
+   */
+  tripId: string;
+
+  /**
+   * Latitud
+   */
+  latitude: number;
+
+  /**
+   * Longitud
+   */
+  longitude: number;
+
+  /**
+   * Velocidad en km/h
+   */
+  speed: number;
+
+  /**
+   * Timestamp GPS de la posición (ISO 8601)
+   */
+  fixTime: string;
+}
+
+/**
+ * DTO de respuesta para el recorrido de un trip
+ */
+export class TripRouteResponseDto {
+  /**
+   * ID del trip
+   */
+  tripId: string;
+
+  /**
+   * ID del dispositivo
+   */
+  deviceId: string;
+
+  /**
+   * Timestamp de inicio del trip (ISO 8601)
+   */
+  startTime: string;
+
+  /**
+   * Timestamp de fin del trip (ISO 8601). Ausente si el trip está en curso
+   */
+  endTime?: string;
+
+  /**
+   * true si el trip está en curso (el recorrido puede estar incompleto)
+   */
+  isActive: boolean;
+
+  /**
+   * Puntos del recorrido ordenados por fixTime ASC
+   */
+  points: RoutePointResponseDto[];
+}
@@ -0,0 +1,59 @@
+/**
+ * DTO de respuesta para excesos de velocidad
+ */
+export class SpeedingResponseDto {
+  /**
+   * ID del exceso (speedingId de los eventos speeding:*)
+   */
+  id: string;
+
+  /**
+   * ID del dispositivo
+   */
+  deviceId: string;
+
+  /**
+   * Trip en el que ocurrió el exceso
+   */
+  tripId: string;
+
+  /**
+   * Timestamp de inicio (primera posición por encima del límite, ISO 8601)
+   */
+  startTime: string;
+
+  /**
+   * Timestamp de fin (ISO 8601)
+   */
+  endTime: string;
+
+  /**
+   * Duración en segundos
+   */
+  duration: number;
+
+  /**
+   * Distancia recorrida por encima del límite (metros)
+   */
+  distance: number;
+
+  /**
+   * Velocidad máxima del episodio (km/h)
+   */
+  maxSpeed: number;
+
+  /**
+   * Límite de velocidad vigente (km/h)
+   */
+  speedLimit: number;
+
+  /**
+   * Geocerca de la que sale el límite (sin geocerca: límite del perfil del dispositivo)
+   */
+  geofenceId?: string;
+
+  startLat: number;
+  startLon: number;
+  endLat: number;
+  endLon: number;
+}
@@ -0,0 +1,54 @@
+import { IsIn, IsOptional, IsTimeZone } from 'class-validator';
+import {
+  SPREADSHEET_FORMATS,
+  SPREADSHEET_LANGUAGES,
+  DISTANCE_UNITS,
+  SPEED_UNITS,
+} from '../report-spreadsheet.writer';
+import type {
+  SpreadsheetFormat,
+  SpreadsheetLanguage,
+  DistanceUnit,
+  SpeedUnit,
+} from '../report-spreadsheet.writer';
+
+/**
+ * Opciones de exportación de trips, stops y summary como planilla
+ * Ejemplo: ?format=xlsx&tz=America/Argentina/Buenos_Aires&lang=es&distanceUnit=mi&speedUnit=mph
+ */
+export class SpreadsheetOptionsDto {
+  /**
+   * Formato del archivo. Sin format se usa el header Accept; sin ninguno, JSON
+   */
+  @IsOptional()
+  @IsIn(SPREADSHEET_FORMATS)
+  format?: SpreadsheetFormat;
+
+  /**
+   * Zona horaria IANA de las fechas (default UTC)
+   */
+  @IsOptional()
+  @IsTimeZone()
+  tz?: string;
+
+  /**
+   * Idioma de los encabezados (default: Accept-Language, si no en)
+   */
+  @IsOptional()
+  @IsIn(SPREADSHEET_LANGUAGES)
+  lang?: SpreadsheetLanguage;
+
+  /**
+   * Unidad de distancia y odómetro (default km)
+   */
+  @IsOptional()
+  @IsIn(DISTANCE_UNITS)
+  distanceUnit?: DistanceUnit;
+
+  /**
+   * Unidad de velocidad (default kmh)
+   */
+  @IsOptional()
+  @IsIn(SPEED_UNITS)
+  speedUnit?: SpeedUnit;
+}
@@ -44,7 +44,23 @@ export class StopResponseDto {
   address?: string;
 
   /**
-   * Horas de motor (opcional, no implementado)
+   * Geocerca en la que cae el stop (opcional)
+   */
+  geofenceId?: string;
+
+  /**
+   * ID único del conductor al inicio del stop (opcional)
+   */
+  driverUniqueId?: string;
+
+  /**
+   * Nombre del conductor (opcional, si está dado de alta en /drivers)
+   */
+  driverName?: string;
+
+  /**
+   * Horas de motor durante el stop (opcional, sin horómetro registrado)
+   * En stops 'no_movement' es el tiempo en ralentí con el motor encendido
    */
   engineHours?: number;
 
@@ -58,6 +74,16 @@ export class StopResponseDto {
    */
   endOdometer?: number;
 
+  /**
+   * Horómetro al inicio del stop (horas)
+   */
+  startEngineHours?: number;
+
+  /**
+   * Horómetro al final del stop (horas)
+   */
+  endEngineHours?: number;
+
   /**
    * Razón del stop: 'ignition_off' (motor apagado) | 'no_movement' (encendido sin movimiento) | 'gap' | 'parking'
    */
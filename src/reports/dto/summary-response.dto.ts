@@ -0,0 +1,95 @@
+/**
+ * DTO de respuesta para el reporte resumen
+ * Compatible con formato de Traccar API (/reports/summary), con campos adicionales
+ */
+export class SummaryResponseDto {
+  /**
+   * ID del dispositivo
+   */
+  deviceId: string;
+
+  /**
+   * Nombre del dispositivo (opcional)
+   */
+  deviceName?: string;
+
+  /**
+   * Día del resumen (YYYY-MM-DD, en la zona horaria pedida). Solo con daily=true
+   */
+  date?: string;
+
+  /**
+   * Distancia total recorrida en los trips (metros)
+   */
+  distance: number;
+
+  /**
+   * Velocidad promedio ponderada por distancia de los trips (km/h)
+   */
+  averageSpeed: number;
+
+  /**
+   * Velocidad máxima alcanzada (km/h)
+   */
+  maxSpeed: number;
+
+  /**
+   * Combustible consumido en litros (solo dispositivos con sensor de combustible)
+   */
+  spentFuel?: number;
+
+  /**
+   * Tiempo en movimiento: suma de la duración de los trips (segundos)
+   */
+  drivingTime: number;
+
+  /**
+   * Tiempo en ralentí: suma de la duración de los episodios de ralentí (segundos)
+   */
+  idleTime: number;
+
+  /**
+   * Cantidad de trips
+   */
+  tripCount: number;
+
+  /**
+   * Cantidad de stops
+   */
+  stopCount: number;
+
+  /**
+   * Odómetro al inicio del período (metros, del primer stop registrado)
+   */
+  startOdometer?: number;
+
+  /**
+   * Odómetro al fin del período (metros, del último stop registrado)
+   */
+  endOdometer?: number;
+
+  /**
+   * Horas de motor del período (horas, según los stops registrados)
+   */
+  engineHours?: number;
+
+  /**
+   * Horómetro al inicio del período (horas, del primer stop registrado)
+   */
+  startEngineHours?: number;
+
+  /**
+   * Horómetro al fin del período (horas, del último stop registrado)
+   */
+  endEngineHours?: number;
+
+  /**
+   * Inicio del primer trip del período (ISO 8601)
+   */
+  startTime?: string;
+
+  /**
+   * Fin del último trip del período (ISO 8601)
+   */
+  endTime?: string;
+}
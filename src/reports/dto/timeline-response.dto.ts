@@ -0,0 +1,136 @@
+/**
+ * Tipo de segmento del timeline
+ * - trip: viaje
+ * - stop: parada (incluye las paradas 'gap': silencio del equipo sin moverse)
+ * - idle: ralentí (motor encendido sin movimiento) fuera de un trip
+ * - gap: período sin trips ni paradas registrados con el equipo reportando
+ *   (reapareció lejos tras un silencio, movimiento que no llegó a ser trip)
+ * - offline: antes del primer reporte o después del último reporte del equipo
+ */
+export type TimelineSegmentType = 'trip' | 'stop' | 'idle' | 'gap' | 'offline';
+
+/**
+ * Segmento del timeline. Los segmentos no se superponen y cubren el día completo
+ * (hasta ahora, si es el día en curso).
+ */
+export class TimelineSegmentDto {
+  type: TimelineSegmentType;
+
+  /**
+   * Inicio y fin del segmento, recortados al día (ISO 8601)
+   */
+  startTime: string;
+  endTime: string;
+
+  /**
+   * Duración del segmento en segundos (la parte dentro del día)
+   */
+  duration: number;
+
+  /**
+   * true si el trip / stop todavía está en curso (termina ahora)
+   */
+  active?: boolean;
+
+  /**
+   * Registro del que sale el segmento. Un stop interrumpido por un ralentí
+   * queda en varios segmentos con el mismo stopId.
+   */
+  tripId?: string;
+  stopId?: string;
+  idleId?: string;
+
+  // ===== Trip (totales del trip completo, aunque cruce la medianoche) =====
+
+  /**
+   * Distancia en metros
+   */
+  distance?: number;
+
+  /**
+   * Velocidades en km/h
+   */
+  maxSpeed?: number;
+  averageSpeed?: number;
+
+  /**
+   * Segundos de ralentí dentro del segmento
+   */
+  idleTime?: number;
+
+  /**
+   * Paradas cortas dentro del trip (no cortaron el viaje)
+   */
+  stopCount?: number;
+
+  driverId?: string;
+  startAddress?: string;
+  endAddress?: string;
+  startLat?: number;
+  startLon?: number;
+  endLat?: number;
+  endLon?: number;
+
+  // ===== Stop / idle =====
+
+  latitude?: number;
+  longitude?: number;
+  address?: string;
+  geofenceId?: string;
+
+  /**
+   * Motivo del stop: ignition_off | no_movement | parking | gap
+   */
+  reason?: string;
+}
+
+/**
+ * Totales del día
+ */
+export class TimelineSummaryDto {
+  tripCount: number;
+
+  /**
+   * Distancia de los trips del timeline (metros)
+   */
+  distance: number;
+
+  /**
+   * Velocidad máxima de los trips del timeline (km/h)
+   */
+  maxSpeed: number;
+
+  /**
+   * Segundos de cada tipo de segmento dentro del día
+   */
+  movingTime: number;
+  stopTime: number;
+  idleTime: number;
+  gapTime: number;
+  offlineTime: number;
+
+  stopCount: number;
+  idleCount: number;
+}
+
+/**
+ * DTO de respuesta del timeline diario de un dispositivo
+ */
+export class TimelineResponseDto {
+  deviceId: string;
+
+  /**
+   * Día pedido (YYYY-MM-DD) y zona horaria en la que se cortó
+   */
+  date: string;
+  timezone: string;
+
+  /**
+   * Inicio y fin del día en UTC (ISO 8601)
+   */
+  from: string;
+  to: string;
+
+  segments: TimelineSegmentDto[];
+  summary: TimelineSummaryDto;
+}
@@ -29,7 +29,7 @@ export class TripResponseDto {
   distance: number;
 
   /**
-   * Combustible consumido (opcional, no implementado)
+   * Combustible consumido en litros (solo dispositivos con sensor de combustible)
    */
   spentFuel?: number;
 
@@ -48,6 +48,11 @@ export class TripResponseDto {
    */
   startAddress?: string;
 
+  /**
+   * Geocerca en la que empezó el trip (opcional)
+   */
+  startGeofenceId?: string;
+
   /**
    * Latitud de inicio
    */
@@ -68,6 +73,11 @@ export class TripResponseDto {
    */
   endAddress?: string;
 
+  /**
+   * Geocerca en la que terminó el trip (opcional)
+   */
+  endGeofenceId?: string;
+
   /**
    * Latitud de fin
    */
@@ -79,12 +89,42 @@ export class TripResponseDto {
   endLon: number;
 
   /**
-   * ID único del conductor (opcional, no implementado)
+   * Aceleraciones bruscas detectadas en el trip
+   */
+  harshAccelerationCount: number;
+
+  /**
+   * Frenadas bruscas detectadas en el trip
+   */
+  harshBrakingCount: number;
+
+  /**
+   * Giros cerrados detectados en el trip
+   */
+  sharpCorneringCount: number;
+
+  /**
+   * Horas de motor durante el trip (opcional, sin horómetro registrado)
+   */
+  engineHours?: number;
+
+  /**
+   * Horómetro al inicio del trip (horas)
+   */
+  startEngineHours?: number;
+
+  /**
+   * Horómetro al fin del trip (horas)
+   */
+  endEngineHours?: number;
+
+  /**
+   * ID único del conductor (iButton / RFID o asignación; opcional)
    */
   driverUniqueId?: string;
 
   /**
-   * Nombre del conductor (opcional, no implementado)
+   * Nombre del conductor (opcional, si está dado de alta en /drivers)
    */
   driverName?: string;
 }
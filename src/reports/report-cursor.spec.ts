@@ -0,0 +1,38 @@
+import { HttpException } from '@nestjs/common';
+import { encodeReportCursor, decodeReportCursor } from './report-cursor';
+
+describe('report cursor', () => {
+  it('round-trips the keyset of the last row', () => {
+    const cursor = encodeReportCursor('distance', 'desc', {
+      value: 1234.5,
+      id: 'trip_T1_1',
+    });
+
+    expect(cursor).toMatch(/^[\w-]+$/);
+    expect(decodeReportCursor(cursor, 'distance', 'desc')).toEqual({
+      value: 1234.5,
+      id: 'trip_T1_1',
+    });
+  });
+
+  it('rejects a cursor used with another sort or a tampered cursor', () => {
+    const cursor = encodeReportCursor('start_time', 'desc', {
+      value: '2025-01-10T12:00:00.000Z',
+      id: 'trip_T1_1',
+    });
+
+    expect(() => decodeReportCursor(cursor, 'start_time', 'asc')).toThrow(
+      HttpException,
+    );
+    expect(() =>
+      decodeReportCursor('not-a-cursor', 'distance', 'desc'),
+    ).toThrow('Invalid cursor');
+
+    const tampered = Buffer.from(
+      JSON.stringify({ s: 'start_time', o: 'desc', v: 'yesterday', i: 'x' }),
+    ).toString('base64url');
+    expect(() => decodeReportCursor(tampered, 'start_time', 'desc')).toThrow(
+      'Invalid cursor',
+    );
+  });
+});
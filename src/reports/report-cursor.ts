@@ -0,0 +1,77 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { IReportKeyset } from '../database/repositories/report-page';
+import type { ReportSortField } from './dto';
+
+/**
+ * Contenido del cursor: orden con el que se generó y última fila de la página
+ */
+interface IReportCursor {
+  s: ReportSortField;
+  o: 'asc' | 'desc';
+  v: string | number;
+  i: string;
+}
+
+/**
+ * Cursor opaco (base64url) de la página siguiente
+ */
+export const encodeReportCursor = (
+  sort: ReportSortField,
+  order: 'asc' | 'desc',
+  keyset: IReportKeyset,
+): string => {
+  const cursor: IReportCursor = {
+    s: sort,
+    o: order,
+    v: keyset.value,
+    i: keyset.id,
+  };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+};
+
+/**
+ * Decodifica un cursor recibido en ?cursor=
+ *
+ * El cursor guarda el orden con el que se generó: usarlo con otro sort/order
+ * saltearía o repetiría filas, así que se rechaza (400).
+ */
+export const decodeReportCursor = (
+  value: string,
+  sort: ReportSortField,
+  order: 'asc' | 'desc',
+): IReportKeyset => {
+  let cursor: Partial<IReportCursor>;
+
+  try {
+    cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    throw badCursor('Invalid cursor');
+  }
+
+  const validValue =
+    cursor.s === 'start_time'
+      ? typeof cursor.v === 'string' && !isNaN(Date.parse(cursor.v))
+      : typeof cursor.v === 'number' && Number.isFinite(cursor.v);
+
+  if (!validValue || typeof cursor.i !== 'string') {
+    throw badCursor('Invalid cursor');
+  }
+
+  if (cursor.s !== sort || cursor.o !== order) {
+    throw badCursor(
+      `Cursor was issued for sort=${cursor.s}&order=${cursor.o}; use the same sort and order`,
+    );
+  }
+
+  return { value: cursor.v as string | number, id: cursor.i };
+};
+
+const badCursor = (message: string): HttpException =>
+  new HttpException(
+    {
+      statusCode: HttpStatus.BAD_REQUEST,
+      message,
+      error: 'Bad Request',
+    },
+    HttpStatus.BAD_REQUEST,
+  );
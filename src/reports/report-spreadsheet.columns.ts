@@ -0,0 +1,96 @@
+import { ISpreadsheetColumn } from './report-spreadsheet.writer';
+import { TripResponseDto, StopResponseDto, SummaryResponseDto } from './dto';
+
+/**
+ * Columnas de la planilla de trips (GET /api/reports/trips)
+ */
+export const TRIP_SPREADSHEET_COLUMNS: ISpreadsheetColumn<TripResponseDto>[] = [
+  { key: 'deviceId', kind: 'text', value: (trip) => trip.deviceId },
+  { key: 'startTime', kind: 'datetime', value: (trip) => trip.startTime },
+  { key: 'endTime', kind: 'datetime', value: (trip) => trip.endTime },
+  { key: 'duration', kind: 'duration', value: (trip) => trip.duration },
+  { key: 'distance', kind: 'distance', value: (trip) => trip.distance },
+  { key: 'averageSpeed', kind: 'speed', value: (trip) => trip.averageSpeed },
+  { key: 'maxSpeed', kind: 'speed', value: (trip) => trip.maxSpeed },
+  { key: 'startAddress', kind: 'text', value: (trip) => trip.startAddress },
+  { key: 'startLat', kind: 'coordinate', value: (trip) => trip.startLat },
+  { key: 'startLon', kind: 'coordinate', value: (trip) => trip.startLon },
+  { key: 'endAddress', kind: 'text', value: (trip) => trip.endAddress },
+  { key: 'endLat', kind: 'coordinate', value: (trip) => trip.endLat },
+  { key: 'endLon', kind: 'coordinate', value: (trip) => trip.endLon },
+  {
+    key: 'harshAccelerationCount',
+    kind: 'number',
+    value: (trip) => trip.harshAccelerationCount,
+  },
+  {
+    key: 'harshBrakingCount',
+    kind: 'number',
+    value: (trip) => trip.harshBrakingCount,
+  },
+  {
+    key: 'sharpCorneringCount',
+    kind: 'number',
+    value: (trip) => trip.sharpCorneringCount,
+  },
+  { key: 'engineHours', kind: 'number', value: (trip) => trip.engineHours },
+  { key: 'spentFuel', kind: 'number', value: (trip) => trip.spentFuel },
+  {
+    key: 'driver',
+    kind: 'text',
+    value: (trip) => trip.driverName ?? trip.driverUniqueId,
+  },
+];
+
+/**
+ * Columnas de la planilla de stops (GET /api/reports/stops)
+ */
+export const STOP_SPREADSHEET_COLUMNS: ISpreadsheetColumn<StopResponseDto>[] = [
+  { key: 'deviceId', kind: 'text', value: (stop) => stop.deviceId },
+  { key: 'startTime', kind: 'datetime', value: (stop) => stop.startTime },
+  { key: 'endTime', kind: 'datetime', value: (stop) => stop.endTime },
+  { key: 'duration', kind: 'duration', value: (stop) => stop.duration },
+  { key: 'address', kind: 'text', value: (stop) => stop.address },
+  { key: 'latitude', kind: 'coordinate', value: (stop) => stop.latitude },
+  { key: 'longitude', kind: 'coordinate', value: (stop) => stop.longitude },
+  { key: 'reason', kind: 'text', value: (stop) => stop.reason },
+  {
+    key: 'startOdometer',
+    kind: 'distance',
+    value: (stop) => stop.startOdometer,
+  },
+  { key: 'endOdometer', kind: 'distance', value: (stop) => stop.endOdometer },
+  { key: 'engineHours', kind: 'number', value: (stop) => stop.engineHours },
+  { key: 'isActive', kind: 'text', value: (stop) => stop.isActive },
+];
+
+/**
+ * Columnas de la planilla de summary (GET /api/reports/summary)
+ */
+const SUMMARY_SPREADSHEET_COLUMNS: ISpreadsheetColumn<SummaryResponseDto>[] = [
+  { key: 'deviceId', kind: 'text', value: (row) => row.deviceId },
+  { key: 'date', kind: 'text', value: (row) => row.date },
+  { key: 'distance', kind: 'distance', value: (row) => row.distance },
+  { key: 'averageSpeed', kind: 'speed', value: (row) => row.averageSpeed },
+  { key: 'maxSpeed', kind: 'speed', value: (row) => row.maxSpeed },
+  { key: 'drivingTime', kind: 'duration', value: (row) => row.drivingTime },
+  { key: 'idleTime', kind: 'duration', value: (row) => row.idleTime },
+  { key: 'tripCount', kind: 'number', value: (row) => row.tripCount },
+  { key: 'stopCount', kind: 'number', value: (row) => row.stopCount },
+  { key: 'startTime', kind: 'datetime', value: (row) => row.startTime },
+  { key: 'endTime', kind: 'datetime', value: (row) => row.endTime },
+  { key: 'startOdometer', kind: 'distance', value: (row) => row.startOdometer },
+  { key: 'endOdometer', kind: 'distance', value: (row) => row.endOdometer },
+  { key: 'engineHours', kind: 'number', value: (row) => row.engineHours },
+  { key: 'spentFuel', kind: 'number', value: (row) => row.spentFuel },
+];
+
+/**
+ * La columna de fecha solo tiene sentido con daily=true
+ */
+export const summarySpreadsheetColumns = (
+  daily: boolean,
+): ISpreadsheetColumn<SummaryResponseDto>[] =>
+  SUMMARY_SPREADSHEET_COLUMNS.filter(
+    (column) => daily || column.key !== 'date',
+  );
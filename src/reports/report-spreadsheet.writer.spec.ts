@@ -0,0 +1,161 @@
+import * as ExcelJS from 'exceljs';
+import { Readable } from 'stream';
+import {
+  writeSpreadsheet,
+  negotiateSpreadsheetFormat,
+  negotiateSpreadsheetLanguage,
+  ISpreadsheetOptions,
+} from './report-spreadsheet.writer';
+import { TRIP_SPREADSHEET_COLUMNS } from './report-spreadsheet.columns';
+import { TripResponseDto } from './dto';
+
+const trip = {
+  deviceId: 'T1',
+  startTime: '2025-01-10T02:30:00.000Z',
+  endTime: '2025-01-10T03:45:05.000Z',
+  duration: 4505,
+  distance: 16093.44,
+  averageSpeed: 18.52,
+  maxSpeed: 92.6,
+  startAddress: 'Av. Corrientes 1234, "Centro"',
+  startLat: -34.6,
+  startLon: -58.4,
+  endLat: -34.7,
+  endLon: -58.5,
+  harshAccelerationCount: 1,
+  harshBrakingCount: 2,
+  sharpCorneringCount: 0,
+  engineHours: 1.25,
+  spentFuel: 6.8,
+  driverUniqueId: 'IBUTTON-01',
+  driverName: 'Juan Pérez',
+} as TripResponseDto;
+
+const read = async (stream: Readable): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+};
+
+const options: ISpreadsheetOptions = {
+  format: 'csv',
+  lang: 'es',
+  timezone: 'America/Argentina/Buenos_Aires',
+  distanceUnit: 'mi',
+  speedUnit: 'kn',
+};
+
+describe('writeSpreadsheet', () => {
+  it('writes a CSV with localized headers, converted units and local times', async () => {
+    const file = writeSpreadsheet(
+      'trips-2025-01-10',
+      TRIP_SPREADSHEET_COLUMNS,
+      [[trip], [{ ...trip, deviceId: 'T2', startAddress: undefined }]],
+      options,
+    );
+
+    expect(file.filename).toBe('trips-2025-01-10.csv');
+    expect(file.contentType).toBe('text/csv; charset=utf-8');
+
+    const csv = (await read(file.stream)).toString('utf8');
+    // BOM para que Excel abra el archivo como UTF-8
+    expect(csv.startsWith('\uFEFF')).toBe(true);
+    const [header, first, second] = csv.slice(1).split('\r\n');
+
+    expect(header).toBe(
+      'Dispositivo,Inicio,Fin,Duración,Distancia (mi),Velocidad promedio (kn),' +
+        'Velocidad máxima (kn),Dirección de inicio,Latitud inicio,Longitud inicio,' +
+        'Dirección de fin,Latitud fin,Longitud fin,Aceleraciones bruscas,' +
+        'Frenadas bruscas,Giros cerrados,Horas de motor,' +
+        'Combustible consumido (L),Conductor',
+    );
+    // UTC-3: el viaje empezó el día anterior en hora local
+    expect(first).toBe(
+      'T1,2025-01-09 23:30:00,2025-01-10 00:45:05,1:15:05,10,10,50,' +
+        '"Av. Corrientes 1234, ""Centro""",-34.6,-58.4,,-34.7,-58.5,1,2,0,1.25,6.8,Juan Pérez',
+    );
+    expect(second.startsWith('T2,')).toBe(true);
+  });
+
+  it('writes an XLSX with dates and durations as Excel values', async () => {
+    const file = writeSpreadsheet('trips', TRIP_SPREADSHEET_COLUMNS, [[trip]], {
+      ...options,
+      format: 'xlsx',
+      lang: 'en',
+      distanceUnit: 'km',
+    });
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.read(file.stream);
+    const sheet = workbook.getWorksheet('trips')!;
+
+    expect(sheet.getRow(1).getCell(5).value).toBe('Distance (km)');
+    const row = sheet.getRow(2);
+    expect(row.getCell(2).value).toEqual(new Date('2025-01-09T23:30:00Z'));
+    // Duración como fracción de día con formato [h]:mm:ss (ExcelJS la lee como fecha)
+    expect(row.getCell(4).numFmt).toBe('[h]:mm:ss');
+    expect(row.getCell(4).value).toEqual(new Date('1899-12-30T01:15:05Z'));
+    expect(row.getCell(5).value).toBe(16.09);
+    expect(row.getCell(11).value).toBeNull();
+  });
+
+  it('escapes text cells that spreadsheets would read as formulas', async () => {
+    const injected = {
+      ...trip,
+      deviceId: '=HYPERLINK("http://evil","x")',
+      startAddress: '+54 11 4000-0000',
+      endAddress: '@SUM(A1)',
+      driverName: '-2+3',
+    } as TripResponseDto;
+
+    const csv = (
+      await read(
+        writeSpreadsheet('trips', TRIP_SPREADSHEET_COLUMNS, [[injected]], {
+          ...options,
+          lang: 'en',
+        }).stream,
+      )
+    ).toString('utf8');
+    const row = csv.slice(1).split('\r\n')[1];
+
+    expect(row.startsWith(`"'=HYPERLINK(""http://evil"",""x"")",`)).toBe(true);
+    expect(row).toContain(",'+54 11 4000-0000,");
+    expect(row).toContain(",'@SUM(A1),");
+    expect(row.endsWith(",'-2+3")).toBe(true);
+    // Los números negativos (coordenadas) no se tocan
+    expect(row).toContain(',-34.6,-58.4,');
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.read(
+      writeSpreadsheet('trips', TRIP_SPREADSHEET_COLUMNS, [[injected]], {
+        ...options,
+        format: 'xlsx',
+      }).stream,
+    );
+    const cells = workbook.getWorksheet('trips')!.getRow(2);
+
+    expect(cells.getCell(1).value).toBe(`'=HYPERLINK("http://evil","x")`);
+    expect(cells.getCell(9).value).toBe(-34.6);
+  });
+
+  it('negotiates the format and header language', () => {
+    expect(negotiateSpreadsheetFormat(undefined, 'application/json')).toBe(
+      null,
+    );
+    expect(
+      negotiateSpreadsheetFormat(
+        undefined,
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      ),
+    ).toBe('xlsx');
+    expect(negotiateSpreadsheetFormat('csv', 'application/json')).toBe('csv');
+
+    expect(negotiateSpreadsheetLanguage(undefined, 'pt-BR,en;q=0.8')).toBe(
+      'pt',
+    );
+    expect(negotiateSpreadsheetLanguage(undefined, 'de-DE')).toBe('en');
+    expect(negotiateSpreadsheetLanguage('es', 'pt-BR')).toBe('es');
+  });
+});
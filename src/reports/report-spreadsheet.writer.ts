@@ -0,0 +1,461 @@
+import { Readable, PassThrough } from 'stream';
+import { once } from 'events';
+import * as ExcelJS from 'exceljs';
+
+export const SPREADSHEET_FORMATS = ['csv', 'xlsx'] as const;
+export type SpreadsheetFormat = (typeof SPREADSHEET_FORMATS)[number];
+
+export const SPREADSHEET_LANGUAGES = ['en', 'es', 'pt'] as const;
+export type SpreadsheetLanguage = (typeof SPREADSHEET_LANGUAGES)[number];
+
+export const DISTANCE_UNITS = ['km', 'mi'] as const;
+export type DistanceUnit = (typeof DISTANCE_UNITS)[number];
+
+export const SPEED_UNITS = ['kmh', 'mph', 'kn'] as const;
+export type SpeedUnit = (typeof SPEED_UNITS)[number];
+
+const CONTENT_TYPES: Record<SpreadsheetFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/**
+ * Tipo de valor de una columna: define la conversión de unidades y el formato
+ *
+ * - distance: metros → km / mi
+ * - speed: km/h → km/h / mph / nudos
+ * - duration: segundos → h:mm:ss
+ * - datetime: ISO 8601 → fecha y hora en la zona horaria pedida
+ */
+export type SpreadsheetColumnKind =
+  | 'text'
+  | 'number'
+  | 'coordinate'
+  | 'distance'
+  | 'speed'
+  | 'duration'
+  | 'datetime';
+
+export interface ISpreadsheetColumn<T> {
+  key: string; // clave de SPREADSHEET_HEADERS
+  kind: SpreadsheetColumnKind;
+  value: (row: T) => string | number | boolean | null | undefined;
+}
+
+export interface ISpreadsheetOptions {
+  format: SpreadsheetFormat;
+  lang: SpreadsheetLanguage;
+  timezone: string; // IANA
+  distanceUnit: DistanceUnit;
+  speedUnit: SpeedUnit;
+}
+
+/**
+ * Archivo de un reporte: el contenido se genera a medida que se lee el stream
+ */
+export interface ISpreadsheetFile {
+  filename: string;
+  contentType: string;
+  stream: Readable;
+}
+
+/**
+ * Encabezados de columna por idioma
+ */
+export const SPREADSHEET_HEADERS: Record<
+  SpreadsheetLanguage,
+  Record<string, string>
+> = {
+  en: {
+    deviceId: 'Device',
+    date: 'Date',
+    startTime: 'Start time',
+    endTime: 'End time',
+    duration: 'Duration',
+    distance: 'Distance',
+    averageSpeed: 'Average speed',
+    maxSpeed: 'Max speed',
+    startAddress: 'Start address',
+    endAddress: 'End address',
+    startLat: 'Start latitude',
+    startLon: 'Start longitude',
+    endLat: 'End latitude',
+    endLon: 'End longitude',
+    address: 'Address',
+    latitude: 'Latitude',
+    longitude: 'Longitude',
+    reason: 'Reason',
+    startOdometer: 'Start odometer',
+    endOdometer: 'End odometer',
+    engineHours: 'Engine hours',
+    spentFuel: 'Fuel used (L)',
+    driver: 'Driver',
+    isActive: 'In progress',
+    drivingTime: 'Driving time',
+    idleTime: 'Idle time',
+    tripCount: 'Trips',
+    stopCount: 'Stops',
+    harshAccelerationCount: 'Harsh accelerations',
+    harshBrakingCount: 'Harsh braking',
+    sharpCorneringCount: 'Sharp corners',
+  },
+  es: {
+    deviceId: 'Dispositivo',
+    date: 'Fecha',
+    startTime: 'Inicio',
+    endTime: 'Fin',
+    duration: 'Duración',
+    distance: 'Distancia',
+    averageSpeed: 'Velocidad promedio',
+    maxSpeed: 'Velocidad máxima',
+    startAddress: 'Dirección de inicio',
+    endAddress: 'Dirección de fin',
+    startLat: 'Latitud inicio',
+    startLon: 'Longitud inicio',
+    endLat: 'Latitud fin',
+    endLon: 'Longitud fin',
+    address: 'Dirección',
+    latitude: 'Latitud',
+    longitude: 'Longitud',
+    reason: 'Motivo',
+    startOdometer: 'Odómetro inicial',
+    endOdometer: 'Odómetro final',
+    engineHours: 'Horas de motor',
+    spentFuel: 'Combustible consumido (L)',
+    driver: 'Conductor',
+    isActive: 'En curso',
+    drivingTime: 'Tiempo de conducción',
+    idleTime: 'Tiempo en ralentí',
+    tripCount: 'Viajes',
+    stopCount: 'Paradas',
+    harshAccelerationCount: 'Aceleraciones bruscas',
+    harshBrakingCount: 'Frenadas bruscas',
+    sharpCorneringCount: 'Giros cerrados',
+  },
+  pt: {
+    deviceId: 'Dispositivo',
+    date: 'Data',
+    startTime: 'Início',
+    endTime: 'Fim',
+    duration: 'Duração',
+    distance: 'Distância',
+    averageSpeed: 'Velocidade média',
+    maxSpeed: 'Velocidade máxima',
+    startAddress: 'Endereço de início',
+    endAddress: 'Endereço de fim',
+    startLat: 'Latitude início',
+    startLon: 'Longitude início',
+    endLat: 'Latitude fim',
+    endLon: 'Longitude fim',
+    address: 'Endereço',
+    latitude: 'Latitude',
+    longitude: 'Longitude',
+    reason: 'Motivo',
+    startOdometer: 'Odômetro inicial',
+    endOdometer: 'Odômetro final',
+    engineHours: 'Horas de motor',
+    spentFuel: 'Combustível consumido (L)',
+    driver: 'Motorista',
+    isActive: 'Em andamento',
+    drivingTime: 'Tempo de condução',
+    idleTime: 'Tempo ocioso',
+    tripCount: 'Viagens',
+    stopCount: 'Paradas',
+    harshAccelerationCount: 'Acelerações bruscas',
+    harshBrakingCount: 'Frenagens bruscas',
+    sharpCorneringCount: 'Curvas acentuadas',
+  },
+};
+
+const DISTANCE_FACTORS: Record<DistanceUnit, number> = {
+  km: 1000,
+  mi: 1609.344,
+};
+
+const SPEED_FACTORS: Record<SpeedUnit, number> = {
+  kmh: 1,
+  mph: 1.609344,
+  kn: 1.852,
+};
+
+const SPEED_LABELS: Record<SpeedUnit, string> = {
+  kmh: 'km/h',
+  mph: 'mph',
+  kn: 'kn',
+};
+
+/**
+ * Formato pedido: ?format tiene prioridad sobre el header Accept.
+ * null si el cliente no pidió una planilla (se responde JSON).
+ */
+export const negotiateSpreadsheetFormat = (
+  format: SpreadsheetFormat | undefined,
+  accept: string | undefined,
+): SpreadsheetFormat | null => {
+  if (format) return format;
+  if (!accept) return null;
+
+  if (accept.includes(CONTENT_TYPES.xlsx)) return 'xlsx';
+  if (accept.includes('text/csv')) return 'csv';
+  return null;
+};
+
+/**
+ * Idioma de los encabezados: ?lang o el primero soportado de Accept-Language
+ */
+export const negotiateSpreadsheetLanguage = (
+  lang: SpreadsheetLanguage | undefined,
+  acceptLanguage: string | undefined,
+): SpreadsheetLanguage => {
+  if (lang) return lang;
+
+  for (const part of (acceptLanguage ?? '').split(',')) {
+    const tag = part.split(';')[0].trim().slice(0, 2).toLowerCase();
+    if ((SPREADSHEET_LANGUAGES as readonly string[]).includes(tag)) {
+      return tag as SpreadsheetLanguage;
+    }
+  }
+
+  return 'en';
+};
+
+/**
+ * Genera una planilla CSV o XLSX a partir de lotes de filas
+ *
+ * Los lotes se piden recién cuando el consumidor lee el stream, así un período
+ * grande nunca queda completo en memoria.
+ */
+export const writeSpreadsheet = <T>(
+  name: string,
+  columns: ISpreadsheetColumn<T>[],
+  batches: AsyncIterable<T[]> | Iterable<T[]>,
+  options: ISpreadsheetOptions,
+): ISpreadsheetFile => {
+  const formatter = new SpreadsheetValueFormatter(options);
+  const headers = columns.map((column) => formatter.header(column));
+
+  const stream =
+    options.format === 'csv'
+      ? Readable.from(csvLines(columns, headers, batches, formatter))
+      : xlsxStream(name, columns, headers, batches, formatter);
+
+  return {
+    filename: `${name.replace(/[^\w.-]+/g, '_')}.${options.format}`,
+    contentType: CONTENT_TYPES[options.format],
+    stream,
+  };
+};
+
+async function* csvLines<T>(
+  columns: ISpreadsheetColumn<T>[],
+  headers: string[],
+  batches: AsyncIterable<T[]> | Iterable<T[]>,
+  formatter: SpreadsheetValueFormatter,
+): AsyncGenerator<string> {
+  // BOM: Excel detecta UTF-8 (encabezados con acentos)
+  yield '\uFEFF' + headers.map(csvCell).join(',') + '\r\n';
+
+  for await (const batch of batches) {
+    yield batch
+      .map(
+        (row) =>
+          columns
+            .map((column) => csvCell(formatter.text(column, row)))
+            .join(',') + '\r\n',
+      )
+      .join('');
+  }
+}
+
+const xlsxStream = <T>(
+  name: string,
+  columns: ISpreadsheetColumn<T>[],
+  headers: string[],
+  batches: AsyncIterable<T[]> | Iterable<T[]>,
+  formatter: SpreadsheetValueFormatter,
+): Readable => {
+  const output = new PassThrough();
+
+  const write = async () => {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      stream: output,
+      useStyles: true,
+      useSharedStrings: false,
+    });
+    const sheet = workbook.addWorksheet(name.slice(0, 31));
+
+    sheet.columns = columns.map((column, index) => ({
+      header: headers[index],
+      key: column.key,
+      width: Math.max(12, headers[index].length + 2),
+      style:
+        column.kind === 'datetime'
+          ? { numFmt: 'yyyy-mm-dd hh:mm:ss' }
+          : column.kind === 'duration'
+            ? { numFmt: '[h]:mm:ss' }
+            : {},
+    }));
+
+    for await (const batch of batches) {
+      for (const row of batch) {
+        sheet
+          .addRow(columns.map((column) => formatter.cell(column, row)))
+          .commit();
+      }
+
+      // Backpressure: no generar más filas hasta que el cliente lea lo escrito
+      if (output.writableNeedDrain) {
+        await once(output, 'drain');
+      }
+    }
+
+    sheet.commit();
+    await workbook.commit();
+  };
+
+  write().catch((error: Error) => output.destroy(error));
+
+  return output;
+};
+
+/**
+ * Texto que Excel/LibreOffice interpretarían como fórmula (=, +, -, @, tab o CR al
+ * inicio): se antepone una comilla simple para que se muestre como texto. Evita
+ * inyectar fórmulas con datos del usuario (direcciones, conductores, IDs).
+ */
+const escapeFormula = (value: string): string =>
+  /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+const csvCell = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Conversión de unidades y formato de fechas/duraciones de una exportación
+ */
+class SpreadsheetValueFormatter {
+  private readonly dateFormat: Intl.DateTimeFormat;
+
+  constructor(private readonly options: ISpreadsheetOptions) {
+    this.dateFormat = new Intl.DateTimeFormat('en-US', {
+      timeZone: options.timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  }
+
+  header<T>(column: ISpreadsheetColumn<T>): string {
+    const label = SPREADSHEET_HEADERS[this.options.lang][column.key];
+
+    if (column.kind === 'distance') {
+      return `${label} (${this.options.distanceUnit})`;
+    }
+    if (column.kind === 'speed') {
+      return `${label} (${SPEED_LABELS[this.options.speedUnit]})`;
+    }
+    return label;
+  }
+
+  /**
+   * Valor de la celda en CSV
+   */
+  text<T>(column: ISpreadsheetColumn<T>, row: T): string {
+    const value = column.value(row);
+    if (value === null || value === undefined || value === '') return '';
+
+    switch (column.kind) {
+      case 'datetime': {
+        const parts = this.wallClock(String(value));
+        return (
+          `${parts.year}-${pad(parts.month)}-${pad(parts.day)} ` +
+          `${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}`
+        );
+      }
+      case 'duration': {
+        const seconds = Math.round(Number(value));
+        return `${Math.floor(seconds / 3600)}:${pad(Math.floor((seconds % 3600) / 60))}:${pad(seconds % 60)}`;
+      }
+      default:
+        return String(this.convert(column.kind, value));
+    }
+  }
+
+  /**
+   * Valor de la celda en XLSX: fechas y duraciones como valores de Excel
+   */
+  cell<T>(
+    column: ISpreadsheetColumn<T>,
+    row: T,
+  ): string | number | boolean | Date | null {
+    const value = column.value(row);
+    if (value === null || value === undefined || value === '') return null;
+
+    switch (column.kind) {
+      case 'datetime': {
+        // Excel no tiene zona horaria: se escribe la hora local como si fuera UTC
+        const parts = this.wallClock(String(value));
+        return new Date(
+          Date.UTC(
+            parts.year,
+            parts.month - 1,
+            parts.day,
+            parts.hour,
+            parts.minute,
+            parts.second,
+          ),
+        );
+      }
+      case 'duration':
+        return Math.round(Number(value)) / 86400; // fracción de día
+      default:
+        return this.convert(column.kind, value);
+    }
+  }
+
+  private convert(
+    kind: SpreadsheetColumnKind,
+    value: string | number | boolean,
+  ): string | number | boolean {
+    switch (kind) {
+      case 'distance':
+        return round(
+          Number(value) / DISTANCE_FACTORS[this.options.distanceUnit],
+          2,
+        );
+      case 'speed':
+        return round(Number(value) / SPEED_FACTORS[this.options.speedUnit], 1);
+      case 'number':
+      case 'coordinate':
+        return Number(value);
+      default:
+        return typeof value === 'string' ? escapeFormula(value) : value;
+    }
+  }
+
+  private wallClock(iso: string) {
+    const parts: Record<string, number> = {};
+    for (const part of this.dateFormat.formatToParts(new Date(iso))) {
+      if (part.type !== 'literal') parts[part.type] = Number(part.value);
+    }
+
+    return {
+      year: parts.year,
+      month: parts.month,
+      day: parts.day,
+      hour: parts.hour,
+      minute: parts.minute,
+      second: parts.second,
+    };
+  }
+}
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const round = (value: number, decimals: number): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
@@ -0,0 +1,140 @@
+import { buildTimeline, getDayWindow } from './report-timeline.builder';
+import { Trip } from '../database/entities/trip.entity';
+import { Stop } from '../database/entities/stop.entity';
+import { IdleEvent } from '../database/entities/idle-event.entity';
+
+// Hora del 2025-01-10 (UTC)
+const at = (time: string) => new Date(`2025-01-10T${time}:00Z`);
+
+const trip = (id: string, start: string, end: string | null) =>
+  ({
+    id,
+    start_time: at(start),
+    end_time: end ? at(end) : null,
+    distance: 10000,
+    max_speed: 80,
+    avg_speed: 40,
+    stop_count: 0,
+    start_lat: -34.6,
+    start_lon: -58.4,
+  }) as unknown as Trip;
+
+const stop = (
+  id: string,
+  start: string,
+  end: string | null,
+  reason = 'ignition_off',
+) =>
+  ({
+    id,
+    start_time: at(start),
+    end_time: end ? at(end) : null,
+    latitude: -34.6,
+    longitude: -58.4,
+    reason,
+  }) as unknown as Stop;
+
+const idle = (id: string, start: string, end: string) =>
+  ({
+    id,
+    start_time: at(start),
+    end_time: at(end),
+    latitude: -34.6,
+    longitude: -58.4,
+  }) as unknown as IdleEvent;
+
+describe('buildTimeline', () => {
+  const day = { from: at('00:00'), to: new Date('2025-01-11T00:00:00Z') };
+
+  it('merges trips, stops and idling into non-overlapping segments covering the day', () => {
+    const { segments, summary } = buildTimeline({
+      ...day,
+      now: new Date('2025-01-12T00:00:00Z'),
+      // Parada de la noche anterior que termina a las 08:00 (se recorta a las 00:00)
+      stops: [
+        {
+          ...stop('s0', '00:00', '08:00'),
+          start_time: new Date('2025-01-09T20:00:00Z'),
+        },
+        // Parada corta dentro del trip: queda en el trip
+        stop('s1', '08:20', '08:25', 'no_movement'),
+        // El trip cierra en el inicio de la parada (tripClosure)
+        stop('s2', '09:00', '12:00'),
+      ],
+      trips: [trip('t1', '08:00', '09:00')],
+      idles: [idle('i1', '08:40', '08:50'), idle('i2', '10:00', '10:30')],
+      firstSeenAt: new Date('2024-12-01T00:00:00Z'),
+      lastSeenAt: new Date('2025-01-11T12:00:00Z'),
+    });
+
+    expect(
+      segments.map((s) => [
+        s.type,
+        s.startTime.slice(11, 16),
+        s.endTime.slice(11, 16),
+      ]),
+    ).toEqual([
+      ['stop', '00:00', '08:00'],
+      ['trip', '08:00', '09:00'],
+      ['stop', '09:00', '10:00'],
+      ['idle', '10:00', '10:30'],
+      ['stop', '10:30', '12:00'],
+      ['gap', '12:00', '00:00'],
+    ]);
+    expect(segments[1]).toMatchObject({
+      tripId: 't1',
+      idleTime: 600,
+      distance: 10000,
+    });
+    expect(segments[4]).toMatchObject({ stopId: 's2', duration: 5400 });
+    expect(summary).toMatchObject({
+      tripCount: 1,
+      distance: 10000,
+      movingTime: 3600,
+      stopTime: 8 * 3600 + 3600 + 5400,
+      idleTime: 1800,
+      gapTime: 12 * 3600,
+      offlineTime: 0,
+      stopCount: 2,
+      idleCount: 1,
+    });
+  });
+
+  it('ends active records and the current day now, and marks time after the last report offline', () => {
+    const { segments, summary } = buildTimeline({
+      ...day,
+      now: at('15:00'),
+      trips: [trip('t1', '13:00', null)],
+      stops: [],
+      idles: [],
+      firstSeenAt: new Date('2024-12-01T00:00:00Z'),
+      lastSeenAt: at('06:00'),
+    });
+
+    expect(segments.map((s) => s.type)).toEqual(['gap', 'offline', 'trip']);
+    expect(segments[2]).toMatchObject({
+      active: true,
+      endTime: at('15:00').toISOString(),
+    });
+    expect(summary.offlineTime).toBe(7 * 3600);
+    expect(summary.gapTime + summary.offlineTime + summary.movingTime).toBe(
+      15 * 3600,
+    );
+  });
+});
+
+describe('getDayWindow', () => {
+  it('cuts the day at local midnight, including daylight saving changes', () => {
+    expect(
+      getDayWindow('2025-01-10', 'America/Argentina/Buenos_Aires'),
+    ).toEqual({
+      from: new Date('2025-01-10T03:00:00Z'),
+      to: new Date('2025-01-11T03:00:00Z'),
+    });
+
+    // Cambio de horario en Europa: el día dura 23 horas
+    const { from, to } = getDayWindow('2025-03-30', 'Europe/Madrid');
+    expect(from).toEqual(new Date('2025-03-29T23:00:00Z'));
+    expect(to.getTime() - from.getTime()).toBe(23 * 3600 * 1000);
+  });
+});
@@ -0,0 +1,296 @@
+import { Trip } from '../database/entities/trip.entity';
+import { Stop } from '../database/entities/stop.entity';
+import { IdleEvent } from '../database/entities/idle-event.entity';
+import {
+  TimelineSegmentDto,
+  TimelineSegmentType,
+  TimelineSummaryDto,
+} from './dto/timeline-response.dto';
+
+/**
+ * Registros del día de un dispositivo (los que se solapan con [from, to])
+ */
+export interface ITimelineInput {
+  from: Date;
+  to: Date;
+  now: Date;
+  trips: Trip[];
+  stops: Stop[];
+  idles: IdleEvent[];
+  // Primer y último reporte del equipo (tracker_state); sin ellos los huecos son offline
+  firstSeenAt?: Date;
+  lastSeenAt?: Date;
+}
+
+export interface ITimeline {
+  segments: TimelineSegmentDto[];
+  summary: TimelineSummaryDto;
+}
+
+interface IInterval {
+  start: number;
+  end: number;
+}
+
+/**
+ * Inicio y fin (UTC) del día `date` (YYYY-MM-DD) en la zona horaria `timezone`.
+ * Con horario de verano el día puede durar 23 o 25 horas.
+ */
+export const getDayWindow = (
+  date: string,
+  timezone: string,
+): { from: Date; to: Date } => {
+  const [year, month, day] = date.split('-').map(Number);
+
+  return {
+    from: new Date(zonedMidnight(year, month, day, timezone)),
+    to: new Date(zonedMidnight(year, month, day + 1, timezone)),
+  };
+};
+
+/**
+ * Arma la secuencia ordenada y sin superposiciones de segmentos del día
+ *
+ * Cada instante pertenece a un solo segmento, por prioridad:
+ * 1. trip: termina en el INICIO de la parada que lo cierra (tripClosure), así que un
+ *    stop posterior empieza donde termina el trip. Los stops cortos dentro de un trip
+ *    (el trip continuó) y los ralentís dentro de un trip quedan en sus totales.
+ * 2. idle: un ralentí dentro de un stop lo parte (stop → idle → stop).
+ * 3. stop: incluye las paradas 'gap' (closedGapStop: silencio del equipo sin moverse).
+ * 4. Lo que queda sin cubrir es offline (antes del primer reporte o después del
+ *    último) o gap (sin registros con el equipo reportando).
+ *
+ * Los trips / stops en curso terminan ahora. El día en curso termina ahora.
+ */
+export const buildTimeline = (input: ITimelineInput): ITimeline => {
+  const from = input.from.getTime();
+  const to = Math.min(input.to.getTime(), input.now.getTime());
+  const now = input.now.getTime();
+
+  const segments: TimelineSegmentDto[] = [];
+  const covered: IInterval[] = [];
+
+  // Tramo del registro dentro del día menos lo ya cubierto por uno de mayor prioridad
+  const place = (
+    start: Date,
+    end: Date | null,
+    toSegment: (piece: IInterval) => TimelineSegmentDto,
+  ): void => {
+    const interval = {
+      start: Math.max(start.getTime(), from),
+      end: Math.min(end ? end.getTime() : now, to),
+    };
+    if (interval.end <= interval.start) {
+      return;
+    }
+
+    const pieces = subtract(interval, covered);
+    for (const piece of pieces) {
+      segments.push(toSegment(piece));
+      covered.push(piece);
+    }
+    covered.sort((a, b) => a.start - b.start);
+  };
+
+  const idleIntervals = input.idles.map((idle) => ({
+    start: idle.start_time.getTime(),
+    end: idle.end_time.getTime(),
+  }));
+
+  for (const trip of input.trips) {
+    place(trip.start_time, trip.end_time, (piece) => ({
+      ...base('trip', piece),
+      active: trip.end_time ? undefined : true,
+      tripId: trip.id,
+      distance: trip.distance,
+      maxSpeed: trip.max_speed,
+      averageSpeed: trip.avg_speed,
+      idleTime: Math.round(overlap(piece, idleIntervals) / 1000),
+      stopCount: trip.stop_count,
+      driverId: trip.driver_id ?? undefined,
+      startAddress: trip.start_address ?? undefined,
+      endAddress: trip.end_address ?? undefined,
+      startLat: trip.start_lat,
+      startLon: trip.start_lon,
+      endLat: trip.end_lat ?? undefined,
+      endLon: trip.end_lon ?? undefined,
+    }));
+  }
+
+  for (const idle of input.idles) {
+    place(idle.start_time, idle.end_time, (piece) => ({
+      ...base('idle', piece),
+      idleId: idle.id,
+      tripId: idle.trip_id ?? undefined,
+      stopId: idle.stop_id ?? undefined,
+      latitude: idle.latitude,
+      longitude: idle.longitude,
+      address: idle.address ?? undefined,
+      geofenceId: idle.geofence_id ?? undefined,
+    }));
+  }
+
+  for (const stop of input.stops) {
+    place(stop.start_time, stop.end_time, (piece) => ({
+      ...base('stop', piece),
+      active: stop.end_time ? undefined : true,
+      stopId: stop.id,
+      latitude: stop.latitude,
+      longitude: stop.longitude,
+      address: stop.address ?? undefined,
+      geofenceId: stop.geofence_id ?? undefined,
+      reason: stop.reason,
+      driverId: stop.driver_id ?? undefined,
+    }));
+  }
+
+  // Huecos: offline fuera del período en que el equipo reportó, gap dentro
+  const reporting: IInterval | undefined =
+    input.firstSeenAt && input.lastSeenAt
+      ? {
+          start: input.firstSeenAt.getTime(),
+          end: input.lastSeenAt.getTime(),
+        }
+      : undefined;
+
+  for (const hole of subtract({ start: from, end: to }, covered)) {
+    const gaps = reporting ? intersect(hole, reporting) : [];
+    for (const piece of gaps) {
+      segments.push(base('gap', piece));
+    }
+    for (const piece of subtract(hole, gaps)) {
+      segments.push(base('offline', piece));
+    }
+  }
+
+  segments.sort((a, b) => Date.parse(a.startTime) - Date.parse(b.startTime));
+
+  return { segments, summary: summarize(segments) };
+};
+
+/**
+ * Totales del día: tiempos por tipo de segmento, distancia y cantidades
+ * (un stop partido por un ralentí cuenta una vez)
+ */
+const summarize = (segments: TimelineSegmentDto[]): TimelineSummaryDto => {
+  const time = (type: TimelineSegmentType) =>
+    segments
+      .filter((segment) => segment.type === type)
+      .reduce((total, segment) => total + segment.duration, 0);
+  const trips = segments.filter((segment) => segment.type === 'trip');
+
+  return {
+    tripCount: trips.length,
+    distance: trips.reduce((total, trip) => total + (trip.distance ?? 0), 0),
+    maxSpeed: trips.reduce((max, trip) => Math.max(max, trip.maxSpeed ?? 0), 0),
+    movingTime: time('trip'),
+    stopTime: time('stop'),
+    idleTime: time('idle'),
+    gapTime: time('gap'),
+    offlineTime: time('offline'),
+    stopCount: new Set(
+      segments
+        .filter((segment) => segment.type === 'stop')
+        .map((segment) => segment.stopId),
+    ).size,
+    idleCount: new Set(
+      segments
+        .filter((segment) => segment.type === 'idle')
+        .map((segment) => segment.idleId),
+    ).size,
+  };
+};
+
+const base = (
+  type: TimelineSegmentType,
+  piece: IInterval,
+): TimelineSegmentDto => ({
+  type,
+  startTime: new Date(piece.start).toISOString(),
+  endTime: new Date(piece.end).toISOString(),
+  duration: Math.round((piece.end - piece.start) / 1000),
+});
+
+/**
+ * Partes de `interval` que no cubre ninguno de `covered` (ordenados por inicio)
+ */
+const subtract = (interval: IInterval, covered: IInterval[]): IInterval[] => {
+  const pieces: IInterval[] = [];
+  let cursor = interval.start;
+
+  for (const other of covered) {
+    if (other.end <= cursor || other.start >= interval.end) {
+      continue;
+    }
+    if (other.start > cursor) {
+      pieces.push({ start: cursor, end: other.start });
+    }
+    cursor = Math.max(cursor, other.end);
+  }
+
+  if (cursor < interval.end) {
+    pieces.push({ start: cursor, end: interval.end });
+  }
+
+  return pieces;
+};
+
+const intersect = (a: IInterval, b: IInterval): IInterval[] => {
+  const start = Math.max(a.start, b.start);
+  const end = Math.min(a.end, b.end);
+  return end > start ? [{ start, end }] : [];
+};
+
+/**
+ * Milisegundos de `piece` cubiertos por `intervals`
+ */
+const overlap = (piece: IInterval, intervals: IInterval[]): number =>
+  intervals
+    .flatMap((interval) => intersect(piece, interval))
+    .reduce((total, part) => total + (part.end - part.start), 0);
+
+/**
+ * Timestamp UTC de las 00:00 del día en la zona horaria (day puede desbordar el mes)
+ */
+const zonedMidnight = (
+  year: number,
+  month: number,
+  day: number,
+  timezone: string,
+): number => {
+  const utc = Date.UTC(year, month - 1, day);
+  // Dos pasadas: el offset en la medianoche local puede diferir del de la UTC
+  const guess = utc - zoneOffset(utc, timezone);
+  return utc - zoneOffset(guess, timezone);
+};
+
+/**
+ * Diferencia (ms) entre la hora local de la zona y UTC en el instante dado
+ */
+const zoneOffset = (timestamp: number, timezone: string): number => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+      .formatToParts(new Date(timestamp))
+      .map((part) => [part.type, part.value]),
+  );
+
+  const local = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second),
+  );
+
+  return local - Math.floor(timestamp / 1000) * 1000;
+};
@@ -1,6 +1,42 @@
-import { Controller, Get, Query, ValidationPipe, Logger } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  Res,
+  Headers,
+  ValidationPipe,
+  Logger,
+  StreamableFile,
+} from '@nestjs/common';
+import type { Response } from 'express';
 import { ReportsService } from './reports.service';
-import { QueryReportsDto, TripResponseDto, StopResponseDto } from './dto';
+import {
+  QueryReportsDto,
+  TripResponseDto,
+  StopResponseDto,
+  SpeedingResponseDto,
+  FuelResponseDto,
+  IdlingResponseDto,
+  RoutePointResponseDto,
+  TripRouteResponseDto,
+  QuerySummaryDto,
+  SummaryResponseDto,
+  DriverSummaryResponseDto,
+  QueryTimelineDto,
+  TimelineResponseDto,
+  ExportTripDto,
+  ExportTripsDto,
+  SpreadsheetOptionsDto,
+  ReportPageDto,
+} from './dto';
+import { ITripExportFile } from './trip-export.formatter';
+import {
+  negotiateSpreadsheetFormat,
+  negotiateSpreadsheetLanguage,
+  ISpreadsheetFile,
+  ISpreadsheetOptions,
+} from './report-spreadsheet.writer';
 
 /**
  * Controlador de reportes históricos
@@ -21,23 +57,56 @@ export class ReportsController {
    * - groupId: string | string[] (comma-separated, opcional) - ID del/los grupo(s)
    * - from: ISO 8601 date-time - Fecha inicio
    * - to: ISO 8601 date-time - Fecha fin
-   * - limit: number (opcional) - Límite de resultados (trae los últimos x trips)
+   * - driverId: string | string[] (comma-separated, opcional) - ID único del/los conductor(es)
+   * - limit: number (opcional) - Límite de resultados (trae los últimos x trips); tamaño de página
+   * - sort: start_time | distance | duration | max_speed (opcional, default start_time)
+   * - order: asc | desc (opcional, default desc)
+   * - cursor: string (opcional) - nextCursor de la página anterior
+   * - envelope: boolean (opcional) - Responder { data, nextCursor, total }
+   *   (sin envelope, el cursor de la página siguiente va en el header X-Next-Cursor)
+   * - format, tz, lang, distanceUnit, speedUnit (opcional) - Exportar como planilla
+   *   (ver SpreadsheetOptionsDto). También con Accept: text/csv o el content type de XLSX
    *
    * Ejemplos:
    * GET /api/reports/trips?deviceId=TEST-001&from=2024-01-01T00:00:00Z&to=2024-01-31T23:59:59Z
    * GET /api/reports/trips?deviceId=TEST-001,TEST-002&from=2024-01-01T00:00:00Z&to=2024-01-31T23:59:59Z
    * GET /api/reports/trips?deviceId=TEST-001&from=2024-01-01T00:00:00Z&to=2024-01-31T23:59:59Z&limit=10
+   * GET /api/reports/trips?fleetId=trucks&from=2024-01-01T00:00:00Z&to=2024-01-31T23:59:59Z&limit=500&sort=distance&envelope=true
+   * GET /api/reports/trips?deviceId=TEST-001&from=2024-01-01T00:00:00Z&to=2024-01-31T23:59:59Z&format=xlsx&tz=America/Argentina/Buenos_Aires
+   * GET /api/reports/trips?driverId=IBUTTON-01A2B3&from=2024-01-01T00:00:00Z&to=2024-01-31T23:59:59Z
    */
   @Get('trips')
   async getTrips(
     @Query(new ValidationPipe({ transform: true }))
     query: QueryReportsDto,
-  ): Promise<TripResponseDto[]> {
+    @Query(new ValidationPipe({ transform: true }))
+    spreadsheet: SpreadsheetOptionsDto,
+    @Res({ passthrough: true }) res: Response,
+    @Headers('accept') accept?: string,
+    @Headers('accept-language') acceptLanguage?: string,
+  ): Promise<
+    TripResponseDto[] | ReportPageDto<TripResponseDto> | StreamableFile
+  > {
     this.logger.log(
       `GET /api/reports/trips - deviceId=${query.deviceId?.join(',') || 'all'}, from=${query.from}, to=${query.to}`,
     );
 
-    return await this.reportsService.getTrips(query);
+    const options = this.getSpreadsheetOptions(
+      spreadsheet,
+      accept,
+      acceptLanguage,
+    );
+    if (options) {
+      return this.toStreamableFile(
+        await this.reportsService.exportTripsSpreadsheet(query, options),
+      );
+    }
+
+    return this.sendPage(
+      res,
+      await this.reportsService.getTrips(query),
+      query.envelope,
+    );
   }
 
   /**
@@ -49,6 +118,9 @@ export class ReportsController {
    * - groupId: string | string[] (comma-separated, opcional) - ID del/los grupo(s)
    * - from: ISO 8601 date-time - Fecha inicio
    * - to: ISO 8601 date-time - Fecha fin
+   * - limit, order, cursor, envelope (opcional) - Igual que trips
+   * - sort: start_time | duration (opcional, default start_time)
+   * - format, tz, lang, distanceUnit, speedUnit (opcional) - Exportar como planilla
    *
    * Ejemplos:
    * GET /api/reports/stops?deviceId=TEST-001&from=2024-01-01T00:00:00Z&to=2024-01-31T23:59:59Z
@@ -58,11 +130,369 @@ export class ReportsController {
   async getStops(
     @Query(new ValidationPipe({ transform: true }))
     query: QueryReportsDto,
-  ): Promise<StopResponseDto[]> {
+    @Query(new ValidationPipe({ transform: true }))
+    spreadsheet: SpreadsheetOptionsDto,
+    @Res({ passthrough: true }) res: Response,
+    @Headers('accept') accept?: string,
+    @Headers('accept-language') acceptLanguage?: string,
+  ): Promise<
+    StopResponseDto[] | ReportPageDto<StopResponseDto> | StreamableFile
+  > {
     this.logger.log(
       `GET /api/reports/stops - deviceId=${query.deviceId?.join(',') || 'all'}, from=${query.from}, to=${query.to}`,
     );
 
-    return await this.reportsService.getStops(query);
+    const options = this.getSpreadsheetOptions(
+      spreadsheet,
+      accept,
+      acceptLanguage,
+    );
+    if (options) {
+      return this.toStreamableFile(
+        await this.reportsService.exportStopsSpreadsheet(query, options),
+      );
+    }
+
+    return this.sendPage(
+      res,
+      await this.reportsService.getStops(query),
+      query.envelope,
+    );
+  }
+
+  /**
+   * GET /api/reports/speeding
+   * Obtener excesos de velocidad (episodios terminados que empiezan en el período)
+   *
+   * Query params:
+   * - deviceId, groupId, from, to, tenantId, clientId, fleetId, metadata: igual que trips
+   * - geofenceId / geofenceCategory (opcional) - Geocerca de la que sale el límite
+   * - limit, sort, order, cursor, envelope (opcional) - Igual que trips
+   *
+   * Ejemplos:
+   * GET /api/reports/speeding?deviceId=TEST-001&from=2024-01-01T00:00:00Z&to=2024-01-31T23:59:59Z
+   * GET /api/reports/speeding?fleetId=trucks&from=2024-01-01T00:00:00Z&to=2024-01-31T23:59:59Z&sort=max_speed&limit=20
+   */
+  @Get('speeding')
+  async getSpeeding(
+    @Query(new ValidationPipe({ transform: true }))
+    query: QueryReportsDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<SpeedingResponseDto[] | ReportPageDto<SpeedingResponseDto>> {
+    this.logger.log(
+      `GET /api/reports/speeding - deviceId=${query.deviceId?.join(',') || 'all'}, from=${query.from}, to=${query.to}`,
+    );
+
+    return this.sendPage(
+      res,
+      await this.reportsService.getSpeeding(query),
+      query.envelope,
+    );
+  }
+
+  /**
+   * GET /api/reports/fuel
+   * Obtener cargas y caídas de combustible (dispositivos con sensor de combustible)
+   *
+   * Query params:
+   * - deviceId, groupId, from, to, tenantId, clientId, fleetId, metadata: igual que trips
+   * - type (opcional) - refuel (cargas) o drain (caídas con el vehículo detenido)
+   * - limit, sort (start_time | duration), order, cursor, envelope (opcional) - Igual que trips
+   *
+   * Ejemplos:
+   * GET /api/reports/fuel?deviceId=TEST-001&from=2024-01-01T00:00:00Z&to=2024-01-31T23:59:59Z
+   * GET /api/reports/fuel?fleetId=trucks&from=2024-01-01T00:00:00Z&to=2024-01-31T23:59:59Z&type=drain
+   */
+  @Get('fuel')
+  async getFuel(
+    @Query(new ValidationPipe({ transform: true }))
+    query: QueryReportsDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<FuelResponseDto[] | ReportPageDto<FuelResponseDto>> {
+    this.logger.log(
+      `GET /api/reports/fuel - deviceId=${query.deviceId?.join(',') || 'all'}, type=${query.type || 'all'}, from=${query.from}, to=${query.to}`,
+    );
+
+    return this.sendPage(
+      res,
+      await this.reportsService.getFuel(query),
+      query.envelope,
+    );
+  }
+
+  /**
+   * GET /api/reports/idling
+   * Obtener episodios de ralentí (motor encendido sin movimiento por más de
+   * minIdleDuration) que empiezan en el período
+   *
+   * Query params:
+   * - deviceId, groupId, driverId, from, to, tenantId, clientId, fleetId, metadata: igual que trips
+   * - geofenceId / geofenceCategory (opcional) - Geocerca en la que ocurrió
+   * - limit, sort (start_time | duration), order, cursor, envelope (opcional) - Igual que trips
+   *
+   * Ejemplos:
+   * GET /api/reports/idling?deviceId=TEST-001&from=2024-01-01T00:00:00Z&to=2024-01-31T23:59:59Z
+   * GET /api/reports/idling?fleetId=trucks&from=2024-01-01T00:00:00Z&to=2024-01-31T23:59:59Z&sort=duration&limit=20
+   */
+  @Get('idling')
+  async getIdling(
+    @Query(new ValidationPipe({ transform: true }))
+    query: QueryReportsDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<IdlingResponseDto[] | ReportPageDto<IdlingResponseDto>> {
+    this.logger.log(
+      `GET /api/reports/idling - deviceId=${query.deviceId?.join(',') || 'all'}, from=${query.from}, to=${query.to}`,
+    );
+
+    return this.sendPage(
+      res,
+      await this.reportsService.getIdling(query),
+      query.envelope,
+    );
+  }
+
+  /**
+   * GET /api/reports/summary
+   * Obtener resumen por dispositivo: distancia, tiempos, velocidades, cantidad de
+   * trips/stops y odómetro
+   *
+   * Query params:
+   * - deviceId: string | string[] (comma-separated, opcional) - ID del/los dispositivo(s)
+   * - groupId: string | string[] (comma-separated, opcional) - ID del/los grupo(s)
+   * - from: ISO 8601 date-time - Fecha inicio
+   * - to: ISO 8601 date-time - Fecha fin
+   * - daily: boolean (opcional) - Una fila por dispositivo y día
+   * - tz: string (opcional) - Zona horaria IANA para cortar los días y para las fechas
+   *   de la planilla (default UTC)
+   * - tenantId, clientId, fleetId, metadata: mismos filtros que trips/stops
+   * - format, lang, distanceUnit, speedUnit (opcional) - Exportar como planilla
+   *
+   * Ejemplos:
+   * GET /api/reports/summary?deviceId=TEST-001&from=2024-01-01T00:00:00Z&to=2024-01-31T23:59:59Z
+   * GET /api/reports/summary?fleetId=trucks&from=2024-01-01T00:00:00Z&to=2024-01-31T23:59:59Z&daily=true
+   */
+  @Get('summary')
+  async getSummary(
+    @Query(new ValidationPipe({ transform: true }))
+    query: QuerySummaryDto,
+    @Query(new ValidationPipe({ transform: true }))
+    spreadsheet: SpreadsheetOptionsDto,
+    @Headers('accept') accept?: string,
+    @Headers('accept-language') acceptLanguage?: string,
+  ): Promise<SummaryResponseDto[] | StreamableFile> {
+    this.logger.log(
+      `GET /api/reports/summary - deviceId=${query.deviceId?.join(',') || 'all'}, from=${query.from}, to=${query.to}, daily=${query.daily ? 'true' : 'false'}`,
+    );
+
+    const options = this.getSpreadsheetOptions(
+      spreadsheet,
+      accept,
+      acceptLanguage,
+    );
+    if (options) {
+      return this.toStreamableFile(
+        await this.reportsService.exportSummarySpreadsheet(query, options),
+      );
+    }
+
+    return await this.reportsService.getSummary(query);
+  }
+
+  /**
+   * GET /api/reports/drivers
+   * Obtener resumen por conductor: distancia, tiempo de manejo, velocidades, cantidad
+   * de trips y eventos de manejo brusco
+   *
+   * Query params:
+   * - from: ISO 8601 date-time - Fecha inicio
+   * - to: ISO 8601 date-time - Fecha fin
+   * - driverId: string | string[] (comma-separated, opcional) - ID único del/los conductor(es)
+   * - deviceId, groupId, tenantId, clientId, fleetId, metadata: igual que trips
+   *
+   * Ejemplos:
+   * GET /api/reports/drivers?from=2024-01-01T00:00:00Z&to=2024-01-31T23:59:59Z
+   * GET /api/reports/drivers?fleetId=trucks&driverId=IBUTTON-01A2B3&from=2024-01-01T00:00:00Z&to=2024-01-31T23:59:59Z
+   */
+  @Get('drivers')
+  async getDriverSummary(
+    @Query(new ValidationPipe({ transform: true }))
+    query: QueryReportsDto,
+  ): Promise<DriverSummaryResponseDto[]> {
+    this.logger.log(
+      `GET /api/reports/drivers - driverId=${query.driverId?.join(',') || 'all'}, from=${query.from}, to=${query.to}`,
+    );
+
+    return await this.reportsService.getDriverSummary(query);
+  }
+
+  /**
+   * GET /api/reports/route
+   * Obtener el recorrido (posiciones de los trips) en un período
+   *
+   * Query params:
+   * - deviceId: string | string[] (comma-separated) - ID del/los dispositivo(s)
+   * - groupId: string | string[] (comma-separated) - ID del/los grupo(s) (deviceId o groupId requerido)
+   * - from: ISO 8601 date-time - Fecha inicio
+   * - to: ISO 8601 date-time - Fecha fin
+   *
+   * Ejemplos:
+   * GET /api/reports/route?deviceId=TEST-001&from=2024-01-01T00:00:00Z&to=2024-01-01T23:59:59Z
+   */
+  @Get('route')
+  async getRoute(
+    @Query(new ValidationPipe({ transform: true }))
+    query: QueryReportsDto,
+  ): Promise<RoutePointResponseDto[]> {
+    this.logger.log(
+      `GET /api/reports/route - deviceId=${query.deviceId?.join(',') || 'none'}, from=${query.from}, to=${query.to}`,
+    );
+
+    return await this.reportsService.getRoute(query);
+  }
+
+  /**
+   * GET /api/reports/timeline
+   * Obtener el timeline de un día de un dispositivo: secuencia ordenada y sin
+   * superposiciones de segmentos trip / stop / idle / gap / offline, con totales
+   * por segmento y del día
+   *
+   * Query params:
+   * - deviceId: string - ID del dispositivo
+   * - date: YYYY-MM-DD - Día
+   * - tz: string (opcional) - Zona horaria IANA en la que se corta el día (default UTC)
+   *
+   * Ejemplo:
+   * GET /api/reports/timeline?deviceId=TEST-001&date=2024-01-15&tz=America/Argentina/Buenos_Aires
+   */
+  @Get('timeline')
+  async getTimeline(
+    @Query(new ValidationPipe({ transform: true }))
+    query: QueryTimelineDto,
+  ): Promise<TimelineResponseDto> {
+    this.logger.log(
+      `GET /api/reports/timeline - deviceId=${query.deviceId}, date=${query.date}, tz=${query.tz || 'UTC'}`,
+    );
+
+    return await this.reportsService.getTimeline(query);
+  }
+
+  /**
+   * GET /api/reports/trips/:id/route
+   * Obtener el recorrido completo de un trip
+   *
+   * Ejemplo:
+   * GET /api/reports/trips/trip_TEST-001_1704067200000_abc123/route
+   */
+  @Get('trips/:id/route')
+  async getTripRoute(@Param('id') id: string): Promise<TripRouteResponseDto> {
+    this.logger.log(`GET /api/reports/trips/${id}/route`);
+
+    return await this.reportsService.getTripRoute(id);
+  }
+
+  /**
+   * GET /api/reports/trips/export
+   * Exportar los trips de un dispositivo en un período como archivo
+   *
+   * Query params:
+   * - deviceId: string - ID del dispositivo
+   * - from: ISO 8601 date-time - Fecha inicio
+   * - to: ISO 8601 date-time - Fecha fin
+   * - format: gpx | kml | geojson
+   *
+   * Ejemplo:
+   * GET /api/reports/trips/export?deviceId=TEST-001&from=2024-01-01T00:00:00Z&to=2024-01-01T23:59:59Z&format=kml
+   */
+  @Get('trips/export')
+  async exportTrips(
+    @Query(new ValidationPipe({ transform: true }))
+    query: ExportTripsDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<string> {
+    this.logger.log(
+      `GET /api/reports/trips/export - deviceId=${query.deviceId}, from=${query.from}, to=${query.to}, format=${query.format}`,
+    );
+
+    return this.sendFile(res, await this.reportsService.exportTrips(query));
+  }
+
+  /**
+   * GET /api/reports/trips/:id/export
+   * Exportar un trip (recorrido, inicio/fin, stops y estadísticas) como archivo
+   *
+   * Query params:
+   * - format: gpx | kml | geojson
+   *
+   * Ejemplo:
+   * GET /api/reports/trips/trip_TEST-001_1704067200000_abc123/export?format=gpx
+   */
+  @Get('trips/:id/export')
+  async exportTrip(
+    @Param('id') id: string,
+    @Query(new ValidationPipe({ transform: true }))
+    query: ExportTripDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<string> {
+    this.logger.log(
+      `GET /api/reports/trips/${id}/export - format=${query.format}`,
+    );
+
+    return this.sendFile(
+      res,
+      await this.reportsService.exportTrip(id, query.format),
+    );
+  }
+
+  /**
+   * Página de trips/stops: el envelope completo, o el array (compatible con Traccar)
+   * con el cursor de la página siguiente en X-Next-Cursor
+   */
+  private sendPage<T>(
+    res: Response,
+    page: ReportPageDto<T>,
+    envelope?: boolean,
+  ): T[] | ReportPageDto<T> {
+    if (envelope) return page;
+
+    if (page.nextCursor) {
+      res.setHeader('X-Next-Cursor', page.nextCursor);
+    }
+    return page.data;
+  }
+
+  private sendFile(res: Response, file: ITripExportFile): string {
+    res.setHeader('Content-Type', `${file.contentType}; charset=utf-8`);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${file.filename}"`,
+    );
+    return file.body;
+  }
+
+  /**
+   * Opciones de la planilla pedida, o null si el cliente espera JSON
+   */
+  private getSpreadsheetOptions(
+    spreadsheet: SpreadsheetOptionsDto,
+    accept: string | undefined,
+    acceptLanguage: string | undefined,
+  ): ISpreadsheetOptions | null {
+    const format = negotiateSpreadsheetFormat(spreadsheet.format, accept);
+    if (!format) return null;
+
+    return {
+      format,
+      lang: negotiateSpreadsheetLanguage(spreadsheet.lang, acceptLanguage),
+      timezone: spreadsheet.tz ?? 'UTC',
+      distanceUnit: spreadsheet.distanceUnit ?? 'km',
+      speedUnit: spreadsheet.speedUnit ?? 'kmh',
+    };
+  }
+
+  private toStreamableFile(file: ISpreadsheetFile): StreamableFile {
+    return new StreamableFile(file.stream, {
+      type: file.contentType,
+      disposition: `attachment; filename="${file.filename}"`,
+    });
   }
 }
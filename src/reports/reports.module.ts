@@ -8,6 +8,14 @@ import { ReportsService } from './reports.service';
  * Endpoints compatibles con API de Traccar:
  * - GET /api/reports/trips
  * - GET /api/reports/stops
+ * - GET /api/reports/speeding
+ * - GET /api/reports/fuel
+ * - GET /api/reports/idling
+ * - GET /api/reports/summary
+ * - GET /api/reports/drivers
+ * - GET /api/reports/route
+ * - GET /api/reports/timeline
+ * - GET /api/reports/trips/:id/route
  */
 @Module({
   imports: [DatabaseModule],
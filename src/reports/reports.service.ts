@@ -1,9 +1,81 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { TripRepository } from '../database/repositories/trip.repository';
-import { StopRepository } from '../database/repositories/stop.repository';
+import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import {
+  TripRepository,
+  ITripSummaryRow,
+} from '../database/repositories/trip.repository';
+import {
+  StopRepository,
+  IStopSummaryRow,
+} from '../database/repositories/stop.repository';
+import { SpeedingEventRepository } from '../database/repositories/speeding-event.repository';
+import { FuelEventRepository } from '../database/repositories/fuel-event.repository';
+import {
+  IdleEventRepository,
+  IIdleSummaryRow,
+} from '../database/repositories/idle-event.repository';
+import { DeviceGroupRepository } from '../database/repositories/device-group.repository';
+import { DriverRepository } from '../database/repositories/driver.repository';
+import { TrackerStateRepository } from '../database/repositories/tracker-state.repository';
 import { Trip } from '../database/entities/trip.entity';
 import { Stop } from '../database/entities/stop.entity';
-import { QueryReportsDto, TripResponseDto, StopResponseDto } from './dto';
+import { SpeedingEvent } from '../database/entities/speeding-event.entity';
+import { FuelEvent } from '../database/entities/fuel-event.entity';
+import { IdleEvent } from '../database/entities/idle-event.entity';
+import {
+  IReportQuery,
+  IReportKeyset,
+  IReportPage,
+} from '../database/repositories/report-page';
+import {
+  QueryReportsDto,
+  TripResponseDto,
+  StopResponseDto,
+  SpeedingResponseDto,
+  FuelResponseDto,
+  IdlingResponseDto,
+  RoutePointResponseDto,
+  TripRouteResponseDto,
+  QuerySummaryDto,
+  SummaryResponseDto,
+  DriverSummaryResponseDto,
+  QueryTimelineDto,
+  TimelineResponseDto,
+  ExportTripsDto,
+  ReportPageDto,
+  REPORT_SORT_FIELDS,
+  ReportSortField,
+} from './dto';
+import {
+  formatTripExport,
+  ITripExportFile,
+  TripExportFormat,
+} from './trip-export.formatter';
+import {
+  writeSpreadsheet,
+  ISpreadsheetFile,
+  ISpreadsheetOptions,
+} from './report-spreadsheet.writer';
+import {
+  TRIP_SPREADSHEET_COLUMNS,
+  STOP_SPREADSHEET_COLUMNS,
+  summarySpreadsheetColumns,
+} from './report-spreadsheet.columns';
+import { encodeReportCursor, decodeReportCursor } from './report-cursor';
+import { buildTimeline, getDayWindow } from './report-timeline.builder';
+
+// Filas leídas por query al exportar trips/stops como planilla
+const SPREADSHEET_BATCH_SIZE = 1000;
+
+// Columnas de orden de cada reporte (stops, combustible y ralentí no tienen distancia
+// ni velocidad)
+const TRIP_SORT_FIELDS: readonly ReportSortField[] = REPORT_SORT_FIELDS;
+const STOP_SORT_FIELDS: readonly ReportSortField[] = ['start_time', 'duration'];
+const SPEEDING_SORT_FIELDS: readonly ReportSortField[] = REPORT_SORT_FIELDS;
+const FUEL_SORT_FIELDS: readonly ReportSortField[] = ['start_time', 'duration'];
+const IDLING_SORT_FIELDS: readonly ReportSortField[] = [
+  'start_time',
+  'duration',
+];
 
 /**
  * Servicio de reportes históricos
@@ -16,289 +88,950 @@ export class ReportsService {
   constructor(
     private readonly tripRepository: TripRepository,
     private readonly stopRepository: StopRepository,
+    private readonly speedingEventRepository: SpeedingEventRepository,
+    private readonly fuelEventRepository: FuelEventRepository,
+    private readonly idleEventRepository: IdleEventRepository,
+    private readonly deviceGroupRepository: DeviceGroupRepository,
+    private readonly driverRepository: DriverRepository,
+    private readonly trackerStateRepository: TrackerStateRepository,
   ) {}
 
   /**
    * Obtener trips históricos
    * GET /api/reports/trips
+   *
+   * Paginado por keyset: con limit, si hay más trips se devuelve nextCursor
    */
-  async getTrips(query: QueryReportsDto): Promise<TripResponseDto[]> {
-    const { deviceId, from, to, tenantId, clientId, fleetId, metadata, limit } =
-      query;
-    const fromDate = new Date(from);
-    const toDate = new Date(to);
+  async getTrips(
+    query: QueryReportsDto,
+  ): Promise<ReportPageDto<TripResponseDto>> {
+    const { from, to, limit, envelope } = query;
+    const { sort, order, after } = this.getReportSort(query, TRIP_SORT_FIELDS);
+
+    const deviceId = await this.resolveDeviceIds(query);
+    if (deviceId?.length === 0) {
+      return { data: [], nextCursor: null, total: envelope ? 0 : undefined };
+    }
 
     this.logger.debug(
       `Getting trips: deviceId=${deviceId?.join(',') || 'all'}, from=${from}, to=${to}, ` +
-        `tenantId=${tenantId || 'none'}, clientId=${clientId || 'none'}, fleetId=${fleetId || 'none'}, ` +
-        `limit=${limit || 'none'}`,
+        `tenantId=${query.tenantId || 'none'}, clientId=${query.clientId || 'none'}, fleetId=${query.fleetId || 'none'}, ` +
+        `limit=${limit || 'none'}, sort=${sort} ${order}, cursor=${query.cursor ? 'yes' : 'no'}`,
     );
 
-    let trips: Trip[];
-
-    // Si hay filtros de metadata, usar query builder
-    const hasMetadataFilters = tenantId || clientId || fleetId || metadata;
-
-    if (hasMetadataFilters) {
-      trips = await this.findTripsWithMetadata(
-        deviceId,
-        fromDate,
-        toDate,
-        {
-          tenantId,
-          clientId,
-          fleetId,
-          metadata,
-        },
+    const page = await this.tripRepository.findReportPage(
+      this.getReportQuery(query, deviceId),
+      {
+        sort,
+        order: order === 'asc' ? 'ASC' : 'DESC',
+        after,
         limit,
-      );
-    } else {
-      // Usar métodos simples del repositorio si no hay filtros de metadata
-      if (deviceId && deviceId.length > 0) {
-        const allTrips = await Promise.all(
-          deviceId.map((id) =>
-            this.tripRepository.findByAssetAndTimeRange(id, fromDate, toDate),
-          ),
-        );
-        trips = allTrips.flat();
-      } else {
-        trips = await this.tripRepository.findByTimeRange(fromDate, toDate);
-      }
-
-      // Ordenar por fecha de inicio DESC y aplicar limit si está presente
-      if (trips.length > 0) {
-        trips.sort((a, b) => b.start_time.getTime() - a.start_time.getTime());
-        if (limit && limit > 0) {
-          trips = trips.slice(0, limit);
-        }
-      }
-    }
+        withTotal: envelope,
+      },
+    );
 
-    this.logger.debug(`Found ${trips.length} trips`);
+    this.logger.debug(`Found ${page.rows.length} trips`);
 
-    return this.mapTripsToDto(trips);
+    return {
+      data: this.mapTripsToDto(
+        page.rows,
+        await this.findDriverNames(page.rows),
+      ),
+      nextCursor: page.next ? encodeReportCursor(sort, order, page.next) : null,
+      total: page.total,
+    };
   }
 
   /**
    * Obtener stops históricos
    * GET /api/reports/stops
+   *
+   * Incluye las paradas EN CURSO (sin cerrar) que se solapan con el período: una parada
+   * aún no terminada es relevante (p. ej. el vehículo quedó estacionado / silencio
+   * nocturno y todavía no reanudó). Paginado igual que getTrips.
    */
-  async getStops(query: QueryReportsDto): Promise<StopResponseDto[]> {
-    const { deviceId, from, to, tenantId, clientId, fleetId, metadata } = query;
-    const fromDate = new Date(from);
+  async getStops(
+    query: QueryReportsDto,
+  ): Promise<ReportPageDto<StopResponseDto>> {
+    const { from, to, limit, envelope } = query;
+    const { sort, order, after } = this.getReportSort(query, STOP_SORT_FIELDS);
     const toDate = new Date(to);
 
+    const deviceId = await this.resolveDeviceIds(query);
+    if (deviceId?.length === 0) {
+      return { data: [], nextCursor: null, total: envelope ? 0 : undefined };
+    }
+
     this.logger.debug(
       `Getting stops: deviceId=${deviceId?.join(',') || 'all'}, from=${from}, to=${to}, ` +
-        `tenantId=${tenantId || 'none'}, clientId=${clientId || 'none'}, fleetId=${fleetId || 'none'}`,
+        `tenantId=${query.tenantId || 'none'}, clientId=${query.clientId || 'none'}, fleetId=${query.fleetId || 'none'}, ` +
+        `limit=${limit || 'none'}, sort=${sort} ${order}, cursor=${query.cursor ? 'yes' : 'no'}`,
     );
 
-    let stops: Stop[];
+    const page = await this.stopRepository.findReportPage(
+      this.getReportQuery(query, deviceId),
+      {
+        sort,
+        order: order === 'asc' ? 'ASC' : 'DESC',
+        after,
+        limit,
+        withTotal: envelope,
+      },
+    );
 
-    // Si hay filtros de metadata, usar query builder
-    const hasMetadataFilters = tenantId || clientId || fleetId || metadata;
+    this.logger.debug(`Found ${page.rows.length} stops`);
 
-    if (hasMetadataFilters) {
-      stops = await this.findStopsWithMetadata(deviceId, fromDate, toDate, {
-        tenantId,
-        clientId,
-        fleetId,
-        metadata,
-      });
-    } else {
-      // Usar métodos simples del repositorio si no hay filtros de metadata.
-      // includeActive=true: incluir paradas EN CURSO (sin cerrar) cuyo inicio cae en el rango.
-      // Una parada aún no terminada al momento de la consulta es relevante para el período
-      // (p. ej. el vehículo quedó estacionado / silencio nocturno y todavía no reanudó).
-      if (deviceId && deviceId.length > 0) {
-        const allStops = await Promise.all(
-          deviceId.map((id) =>
-            this.stopRepository.findByAssetAndTimeRange(
-              id,
-              fromDate,
-              toDate,
-              true,
-            ),
-          ),
-        );
-        stops = allStops.flat();
-      } else {
-        stops = await this.stopRepository.findByTimeRange(
-          fromDate,
-          toDate,
-          true,
-        );
-      }
+    return {
+      data: this.mapStopsToDto(
+        page.rows,
+        toDate,
+        await this.findDriverNames(page.rows),
+      ),
+      nextCursor: page.next ? encodeReportCursor(sort, order, page.next) : null,
+      total: page.total,
+    };
+  }
+
+  /**
+   * Obtener excesos de velocidad históricos
+   * GET /api/reports/speeding
+   *
+   * Episodios terminados que empiezan en el período. geofenceId/geofenceCategory
+   * filtran por la geocerca de la que sale el límite. Paginado igual que getTrips.
+   */
+  async getSpeeding(
+    query: QueryReportsDto,
+  ): Promise<ReportPageDto<SpeedingResponseDto>> {
+    const { from, to, limit, envelope } = query;
+    const { sort, order, after } = this.getReportSort(
+      query,
+      SPEEDING_SORT_FIELDS,
+    );
+
+    const deviceId = await this.resolveDeviceIds(query);
+    if (deviceId?.length === 0) {
+      return { data: [], nextCursor: null, total: envelope ? 0 : undefined };
     }
 
-    this.logger.debug(`Found ${stops.length} stops`);
+    this.logger.debug(
+      `Getting speeding: deviceId=${deviceId?.join(',') || 'all'}, from=${from}, to=${to}, ` +
+        `tenantId=${query.tenantId || 'none'}, clientId=${query.clientId || 'none'}, fleetId=${query.fleetId || 'none'}, ` +
+        `limit=${limit || 'none'}, sort=${sort} ${order}, cursor=${query.cursor ? 'yes' : 'no'}`,
+    );
+
+    const page = await this.speedingEventRepository.findReportPage(
+      this.getReportQuery(query, deviceId),
+      {
+        sort,
+        order: order === 'asc' ? 'ASC' : 'DESC',
+        after,
+        limit,
+        withTotal: envelope,
+      },
+    );
+
+    this.logger.debug(`Found ${page.rows.length} speeding events`);
 
-    return this.mapStopsToDto(stops, toDate);
+    return {
+      data: this.mapSpeedingToDto(page.rows),
+      nextCursor: page.next ? encodeReportCursor(sort, order, page.next) : null,
+      total: page.total,
+    };
   }
 
   /**
-   * Buscar trips con filtros de metadata usando query builder
-   * Utiliza índices optimizados para tenant_id, client_id, fleet_id
+   * Obtener cargas y caídas de combustible históricas
+   * GET /api/reports/fuel
+   *
+   * Eventos que empiezan en el período, opcionalmente de un solo tipo (?type=).
+   * Paginado igual que getTrips.
    */
-  private async findTripsWithMetadata(
-    deviceIds: string[] | undefined,
-    fromDate: Date,
-    toDate: Date,
-    filters: {
-      tenantId?: string;
-      clientId?: string;
-      fleetId?: string;
-      metadata?: Record<string, any>;
-    },
-    limit?: number,
-  ): Promise<Trip[]> {
-    const { tenantId, clientId, fleetId, metadata } = filters;
+  async getFuel(
+    query: QueryReportsDto,
+  ): Promise<ReportPageDto<FuelResponseDto>> {
+    const { from, to, limit, envelope } = query;
+    const { sort, order, after } = this.getReportSort(query, FUEL_SORT_FIELDS);
 
-    // Necesitamos acceder al repository de TypeORM directamente
-    // para usar el query builder
-    const tripRepo = (this.tripRepository as any).tripRepo;
+    const deviceId = await this.resolveDeviceIds(query);
+    if (deviceId?.length === 0) {
+      return { data: [], nextCursor: null, total: envelope ? 0 : undefined };
+    }
 
-    const queryBuilder = tripRepo
-      .createQueryBuilder('trip')
-      .where('trip.start_time BETWEEN :fromDate AND :toDate', {
-        fromDate,
-        toDate,
-      })
-      .andWhere('trip.is_active = false');
+    this.logger.debug(
+      `Getting fuel events: deviceId=${deviceId?.join(',') || 'all'}, from=${from}, to=${to}, ` +
+        `type=${query.type || 'all'}, limit=${limit || 'none'}, sort=${sort} ${order}, ` +
+        `cursor=${query.cursor ? 'yes' : 'no'}`,
+    );
 
-    // Filtro por deviceId
-    if (deviceIds && deviceIds.length > 0) {
-      queryBuilder.andWhere('trip.id_activo IN (:...deviceIds)', { deviceIds });
+    const page = await this.fuelEventRepository.findReportPage(
+      this.getReportQuery(query, deviceId),
+      {
+        sort,
+        order: order === 'asc' ? 'ASC' : 'DESC',
+        after,
+        limit,
+        withTotal: envelope,
+      },
+    );
+
+    this.logger.debug(`Found ${page.rows.length} fuel events`);
+
+    return {
+      data: this.mapFuelToDto(page.rows),
+      nextCursor: page.next ? encodeReportCursor(sort, order, page.next) : null,
+      total: page.total,
+    };
+  }
+
+  /**
+   * Obtener episodios de ralentí históricos
+   * GET /api/reports/idling
+   *
+   * Episodios terminados que empiezan en el período (los que superaron
+   * minIdleDuration). Paginado igual que getTrips.
+   */
+  async getIdling(
+    query: QueryReportsDto,
+  ): Promise<ReportPageDto<IdlingResponseDto>> {
+    const { from, to, limit, envelope } = query;
+    const { sort, order, after } = this.getReportSort(
+      query,
+      IDLING_SORT_FIELDS,
+    );
+
+    const deviceId = await this.resolveDeviceIds(query);
+    if (deviceId?.length === 0) {
+      return { data: [], nextCursor: null, total: envelope ? 0 : undefined };
     }
 
-    // Filtros optimizados con B-tree indexes (~1-2ms)
-    if (tenantId) {
-      queryBuilder.andWhere("trip.metadata->>'tenant_id' = :tenantId", {
-        tenantId,
-      });
+    this.logger.debug(
+      `Getting idling: deviceId=${deviceId?.join(',') || 'all'}, from=${from}, to=${to}, ` +
+        `limit=${limit || 'none'}, sort=${sort} ${order}, cursor=${query.cursor ? 'yes' : 'no'}`,
+    );
+
+    const page = await this.idleEventRepository.findReportPage(
+      this.getReportQuery(query, deviceId),
+      {
+        sort,
+        order: order === 'asc' ? 'ASC' : 'DESC',
+        after,
+        limit,
+        withTotal: envelope,
+      },
+    );
+
+    this.logger.debug(`Found ${page.rows.length} idle episodes`);
+
+    return {
+      data: this.mapIdlingToDto(page.rows),
+      nextCursor: page.next ? encodeReportCursor(sort, order, page.next) : null,
+      total: page.total,
+    };
+  }
+
+  /**
+   * Obtener el recorrido (posiciones) de uno o más dispositivos en un período
+   * GET /api/reports/route
+   *
+   * Se arma a partir de route_points de los trips que se solapan con el período
+   * (incluye el trip en curso). Las posiciones fuera de trips (paradas) no se guardan.
+   */
+  async getRoute(query: QueryReportsDto): Promise<RoutePointResponseDto[]> {
+    const { from, to } = query;
+
+    if (!query.deviceId?.length && !query.groupId?.length) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.BAD_REQUEST,
+          message: 'deviceId or groupId is required for route reports',
+          error: 'Bad Request',
+        },
+        HttpStatus.BAD_REQUEST,
+      );
     }
 
-    if (clientId) {
-      queryBuilder.andWhere("trip.metadata->>'idCliente' = :clientId", {
-        clientId,
+    const deviceId = (await this.resolveDeviceIds(query)) ?? [];
+    if (deviceId.length === 0) return [];
+
+    const fromMs = new Date(from).getTime();
+    const toMs = new Date(to).getTime();
+
+    this.logger.debug(
+      `Getting route: deviceId=${deviceId.join(',')}, from=${from}, to=${to}`,
+    );
+
+    const allTrips = await Promise.all(
+      deviceId.map((id) =>
+        this.tripRepository.findOverlappingByAsset(
+          id,
+          new Date(from),
+          new Date(to),
+        ),
+      ),
+    );
+
+    const points = allTrips
+      .flat()
+      .flatMap((trip) => this.mapRoutePointsToDto(trip))
+      .filter((point) => {
+        const ms = new Date(point.fixTime).getTime();
+        return ms >= fromMs && ms <= toMs;
       });
+
+    points.sort(
+      (a, b) => new Date(a.fixTime).getTime() - new Date(b.fixTime).getTime(),
+    );
+
+    this.logger.debug(`Found ${points.length} route points`);
+
+    return points;
+  }
+
+  /**
+   * Obtener el timeline de un día de un dispositivo
+   * GET /api/reports/timeline
+   *
+   * Trips, stops y ralentís que se solapan con el día (incluye los en curso),
+   * combinados en una secuencia sin superposiciones ni huecos (ver buildTimeline).
+   */
+  async getTimeline(query: QueryTimelineDto): Promise<TimelineResponseDto> {
+    const { deviceId, date, tz: timezone = 'UTC' } = query;
+    const { from, to } = getDayWindow(date, timezone);
+
+    this.logger.debug(
+      `Getting timeline: deviceId=${deviceId}, date=${date}, timezone=${timezone}`,
+    );
+
+    const [trips, stops, idles, trackerState] = await Promise.all([
+      this.tripRepository.findOverlappingByAssetForReport(deviceId, from, to),
+      this.stopRepository.findByAssetAndTimeRange(deviceId, from, to, true),
+      this.idleEventRepository.findOverlappingByAsset(deviceId, from, to),
+      this.trackerStateRepository.findByTrackerId(deviceId),
+    ]);
+
+    const { segments, summary } = buildTimeline({
+      from,
+      to,
+      now: new Date(),
+      trips,
+      stops,
+      idles,
+      firstSeenAt: trackerState?.first_seen_at,
+      lastSeenAt: trackerState?.last_seen_at,
+    });
+
+    this.logger.debug(`Built ${segments.length} timeline segments`);
+
+    return {
+      deviceId,
+      date,
+      timezone,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      segments,
+      summary,
+    };
+  }
+
+  /**
+   * Obtener el recorrido completo de un trip
+   * GET /api/reports/trips/:id/route
+   */
+  async getTripRoute(tripId: string): Promise<TripRouteResponseDto> {
+    const trip = await this.tripRepository.findById(tripId);
+
+    if (!trip) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.NOT_FOUND,
+          message: `Trip ${tripId} not found`,
+          error: 'Not Found',
+        },
+        HttpStatus.NOT_FOUND,
+      );
     }
 
-    if (fleetId) {
-      queryBuilder.andWhere("trip.metadata->>'fleet_id' = :fleetId", {
-        fleetId,
-      });
+    const points = this.mapRoutePointsToDto(trip).sort(
+      (a, b) => new Date(a.fixTime).getTime() - new Date(b.fixTime).getTime(),
+    );
+
+    return {
+      tripId: trip.id,
+      deviceId: trip.id_activo,
+      startTime: trip.start_time.toISOString(),
+      endTime: trip.end_time?.toISOString(),
+      isActive: trip.is_active,
+      points,
+    };
+  }
+
+  /**
+   * Exportar un trip con su recorrido y sus stops (GPX, KML o GeoJSON)
+   * GET /api/reports/trips/:id/export
+   */
+  async exportTrip(
+    tripId: string,
+    format: TripExportFormat,
+  ): Promise<ITripExportFile> {
+    const trip = await this.tripRepository.findById(tripId);
+
+    if (!trip) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.NOT_FOUND,
+          message: `Trip ${tripId} not found`,
+          error: 'Not Found',
+        },
+        HttpStatus.NOT_FOUND,
+      );
     }
 
-    // Filtro genérico JSONB con GIN index (~5-10ms)
-    // Usa el operador @> (contains) para buscar coincidencias parciales
-    if (metadata && Object.keys(metadata).length > 0) {
-      queryBuilder.andWhere('trip.metadata @> :metadata', {
-        metadata: JSON.stringify(metadata),
-      });
+    const stops = await this.stopRepository.findByTrip(trip.id);
+
+    return formatTripExport(format, `trip-${trip.id}`, [trip], stops);
+  }
+
+  /**
+   * Exportar los trips de un dispositivo que empiezan en el período, con los stops
+   * del período (incluye las paradas entre trips)
+   * GET /api/reports/trips/export
+   */
+  async exportTrips(query: ExportTripsDto): Promise<ITripExportFile> {
+    const { deviceId, format } = query;
+    const from = new Date(query.from);
+    const to = new Date(query.to);
+
+    if (from.getTime() > to.getTime()) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.BAD_REQUEST,
+          message: 'from must be before to',
+          error: 'Bad Request',
+        },
+        HttpStatus.BAD_REQUEST,
+      );
     }
 
-    queryBuilder.orderBy('trip.start_time', 'DESC');
+    const [trips, stops] = await Promise.all([
+      this.tripRepository.findByAssetAndTimeRange(deviceId, from, to, true),
+      this.stopRepository.findByAssetAndTimeRange(deviceId, from, to),
+    ]);
+
+    // Los repositorios devuelven DESC; el archivo va en orden cronológico
+    const byStartTime = (
+      a: { start_time: Date },
+      b: { start_time: Date },
+    ): number => a.start_time.getTime() - b.start_time.getTime();
 
-    // Aplicar limit si está presente
-    if (limit && limit > 0) {
-      queryBuilder.limit(limit);
+    this.logger.debug(
+      `Exporting ${trips.length} trips and ${stops.length} stops of ${deviceId} as ${format}`,
+    );
+
+    return formatTripExport(
+      format,
+      `trips-${deviceId}-${query.from.slice(0, 10)}-${query.to.slice(0, 10)}`,
+      trips.sort(byStartTime),
+      stops.sort(byStartTime),
+    );
+  }
+
+  /**
+   * Exportar trips como planilla (CSV o XLSX)
+   * GET /api/reports/trips con ?format= o Accept
+   *
+   * Mismos trips que getTrips (y en el mismo orden), leídos en lotes a medida
+   * que el cliente descarga el archivo
+   */
+  async exportTripsSpreadsheet(
+    query: QueryReportsDto,
+    options: ISpreadsheetOptions,
+  ): Promise<ISpreadsheetFile> {
+    const { sort, order } = this.getReportSort(query, TRIP_SORT_FIELDS);
+    const deviceId = await this.resolveDeviceIds(query);
+    const reportQuery = this.getReportQuery(query, deviceId);
+
+    this.logger.debug(
+      `Exporting trips as ${options.format}: deviceId=${deviceId?.join(',') || 'all'}, ` +
+        `from=${query.from}, to=${query.to}`,
+    );
+
+    const batches = this.readInBatches(
+      (after, limit) =>
+        this.tripRepository.findReportPage(reportQuery, {
+          sort,
+          order: order === 'asc' ? 'ASC' : 'DESC',
+          after,
+          limit,
+        }),
+      deviceId?.length === 0 ? 0 : query.limit,
+    );
+
+    return writeSpreadsheet(
+      `trips-${query.from.slice(0, 10)}-${query.to.slice(0, 10)}`,
+      TRIP_SPREADSHEET_COLUMNS,
+      this.mapBatches(batches, async (trips) =>
+        this.mapTripsToDto(trips, await this.findDriverNames(trips)),
+      ),
+      options,
+    );
+  }
+
+  /**
+   * Exportar stops como planilla (CSV o XLSX)
+   * GET /api/reports/stops con ?format= o Accept
+   */
+  async exportStopsSpreadsheet(
+    query: QueryReportsDto,
+    options: ISpreadsheetOptions,
+  ): Promise<ISpreadsheetFile> {
+    const { sort, order } = this.getReportSort(query, STOP_SORT_FIELDS);
+    const toDate = new Date(query.to);
+    const deviceId = await this.resolveDeviceIds(query);
+    const reportQuery = this.getReportQuery(query, deviceId);
+
+    this.logger.debug(
+      `Exporting stops as ${options.format}: deviceId=${deviceId?.join(',') || 'all'}, ` +
+        `from=${query.from}, to=${query.to}`,
+    );
+
+    const batches = this.readInBatches(
+      (after, limit) =>
+        this.stopRepository.findReportPage(reportQuery, {
+          sort,
+          order: order === 'asc' ? 'ASC' : 'DESC',
+          after,
+          limit,
+        }),
+      deviceId?.length === 0 ? 0 : query.limit,
+    );
+
+    return writeSpreadsheet(
+      `stops-${query.from.slice(0, 10)}-${query.to.slice(0, 10)}`,
+      STOP_SPREADSHEET_COLUMNS,
+      this.mapBatches(batches, async (stops) =>
+        this.mapStopsToDto(stops, toDate, await this.findDriverNames(stops)),
+      ),
+      options,
+    );
+  }
+
+  /**
+   * Exportar el resumen como planilla (CSV o XLSX)
+   * GET /api/reports/summary con ?format= o Accept
+   *
+   * El resumen ya viene agregado (una fila por dispositivo y día): se escribe en un solo lote
+   */
+  async exportSummarySpreadsheet(
+    query: QuerySummaryDto,
+    options: ISpreadsheetOptions,
+  ): Promise<ISpreadsheetFile> {
+    const summaries = await this.getSummary(query);
+
+    return writeSpreadsheet(
+      `summary-${query.from.slice(0, 10)}-${query.to.slice(0, 10)}`,
+      summarySpreadsheetColumns(!!query.daily),
+      [summaries],
+      options,
+    );
+  }
+
+  /**
+   * Obtener resumen por dispositivo (y opcionalmente por día)
+   * GET /api/reports/summary
+   *
+   * Se agrega en SQL sobre trips, stops y episodios de ralentí completados cuyo inicio
+   * cae en el período. Con daily=true lo que cruza la medianoche cuenta en el día en
+   * que empezó.
+   */
+  async getSummary(query: QuerySummaryDto): Promise<SummaryResponseDto[]> {
+    const { from, to, daily, tz = 'UTC' } = query;
+
+    const deviceId = await this.resolveDeviceIds(query);
+    if (deviceId?.length === 0) return [];
+
+    this.logger.debug(
+      `Getting summary: deviceId=${deviceId?.join(',') || 'all'}, from=${from}, to=${to}, ` +
+        `daily=${daily ? 'true' : 'false'}, tz=${tz}`,
+    );
+
+    const reportQuery = this.getReportQuery(query, deviceId);
+    const [tripRows, stopRows, idleRows] = await Promise.all([
+      this.tripRepository.getSummaryRows(reportQuery, daily ? tz : undefined),
+      this.stopRepository.getSummaryRows(reportQuery, daily ? tz : undefined),
+      this.idleEventRepository.getSummaryRows(
+        reportQuery,
+        daily ? tz : undefined,
+      ),
+    ]);
+
+    const summaries = this.mergeSummaryRows(
+      tripRows,
+      stopRows,
+      idleRows,
+      !!daily,
+    );
+
+    this.logger.debug(`Built ${summaries.length} summary rows`);
+
+    return summaries;
+  }
+
+  /**
+   * Obtener resumen por conductor
+   * GET /api/reports/drivers
+   *
+   * Se agrega en SQL sobre los trips completados con conductor cuyo inicio cae en el
+   * período (un trip se parte al cambiar de conductor: cada trip es de uno solo).
+   */
+  async getDriverSummary(
+    query: QueryReportsDto,
+  ): Promise<DriverSummaryResponseDto[]> {
+    const { from, to } = query;
+
+    const deviceId = await this.resolveDeviceIds(query);
+    if (deviceId?.length === 0) return [];
+
+    this.logger.debug(
+      `Getting driver summary: deviceId=${deviceId?.join(',') || 'all'}, ` +
+        `driverId=${query.driverId?.join(',') || 'all'}, from=${from}, to=${to}`,
+    );
+
+    const rows = await this.tripRepository.getDriverSummaryRows(
+      this.getReportQuery(query, deviceId),
+    );
+    const names = await this.findDriverNames(
+      rows.map((row) => ({ driver_id: row.driver_id })),
+    );
+
+    const summaries = rows.map((row) => {
+      const distance = Math.round(Number(row.distance ?? 0));
+      const drivingTime = Math.round(Number(row.driving_time ?? 0));
+
+      return {
+        driverUniqueId: row.driver_id,
+        driverName: names.get(row.driver_id),
+        deviceIds: [...row.device_ids].sort(),
+        distance,
+        // Promedio ponderado: distancia total / tiempo total (m/s → km/h)
+        averageSpeed:
+          drivingTime > 0
+            ? Math.round((distance / drivingTime) * 3.6 * 10) / 10
+            : 0,
+        maxSpeed: Number(row.max_speed ?? 0),
+        drivingTime,
+        tripCount: Number(row.trip_count),
+        harshAccelerationCount: Number(row.harsh_acceleration_count ?? 0),
+        harshBrakingCount: Number(row.harsh_braking_count ?? 0),
+        sharpCorneringCount: Number(row.sharp_cornering_count ?? 0),
+        startTime: row.start_time
+          ? new Date(row.start_time).toISOString()
+          : undefined,
+        endTime: row.end_time
+          ? new Date(row.end_time).toISOString()
+          : undefined,
+      };
+    });
+
+    this.logger.debug(`Built ${summaries.length} driver summary rows`);
+
+    return summaries.sort((a, b) =>
+      a.driverUniqueId.localeCompare(b.driverUniqueId),
+    );
+  }
+
+  /**
+   * Lee un reporte de trips/stops página por página (keyset)
+   *
+   * Cada lote es una query nueva que sigue después de la última fila leída, así no
+   * se mantiene un cursor abierto mientras el cliente descarga.
+   *
+   * @param limit Máximo de filas en total (0: ninguna; undefined: sin límite)
+   */
+  private async *readInBatches<T>(
+    findPage: (
+      after: IReportKeyset | undefined,
+      limit: number,
+    ) => Promise<IReportPage<T>>,
+    limit?: number,
+  ): AsyncGenerator<T[]> {
+    let remaining = limit ?? Infinity;
+    let after: IReportKeyset | undefined;
+
+    while (remaining > 0) {
+      const page = await findPage(
+        after,
+        Math.min(SPREADSHEET_BATCH_SIZE, remaining),
+      );
+      if (page.rows.length > 0) yield page.rows;
+
+      if (!page.next) return;
+      remaining -= page.rows.length;
+      after = page.next;
     }
+  }
 
-    return await queryBuilder.getMany();
+  private async *mapBatches<T, R>(
+    batches: AsyncIterable<T[]>,
+    map: (batch: T[]) => Promise<R[]>,
+  ): AsyncGenerator<R[]> {
+    for await (const batch of batches) {
+      yield await map(batch);
+    }
   }
 
   /**
-   * Buscar stops con filtros de metadata usando query builder
-   * Utiliza índices optimizados para tenant_id, client_id, fleet_id
+   * Orden del reporte y posición del cursor recibido
    */
-  private async findStopsWithMetadata(
-    deviceIds: string[] | undefined,
-    fromDate: Date,
-    toDate: Date,
-    filters: {
-      tenantId?: string;
-      clientId?: string;
-      fleetId?: string;
-      metadata?: Record<string, any>;
-    },
-  ): Promise<Stop[]> {
-    const { tenantId, clientId, fleetId, metadata } = filters;
-
-    // Necesitamos acceder al repository de TypeORM directamente
-    // para usar el query builder
-    const stopRepo = (this.stopRepository as any).stopRepo;
-
-    // NOTA: a diferencia de trips, NO filtramos is_active=false: incluimos paradas en curso.
-    // Solapamiento de intervalos (no solo "inicio dentro del rango"): la parada se cruza con
-    // [fromDate, toDate] si empezó antes del fin del rango y terminó después del inicio o sigue
-    // en curso. Así se incluyen paradas que comenzaron antes de fromDate y terminaron dentro,
-    // y paradas aún no terminadas (p. ej. cuando toDate es la hora actual).
-    const queryBuilder = stopRepo
-      .createQueryBuilder('stop')
-      .where('stop.start_time <= :toDate', { toDate })
-      .andWhere('(stop.end_time >= :fromDate OR stop.end_time IS NULL)', {
-        fromDate,
-      });
+  private getReportSort(
+    query: QueryReportsDto,
+    allowed: readonly ReportSortField[],
+  ): {
+    sort: ReportSortField;
+    order: 'asc' | 'desc';
+    after?: IReportKeyset;
+  } {
+    const sort = query.sort ?? 'start_time';
+    const order = query.order ?? 'desc';
 
-    // Filtro por deviceId
-    if (deviceIds && deviceIds.length > 0) {
-      queryBuilder.andWhere('stop.id_activo IN (:...deviceIds)', { deviceIds });
+    if (!allowed.includes(sort)) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.BAD_REQUEST,
+          message: `sort must be one of: ${allowed.join(', ')}`,
+          error: 'Bad Request',
+        },
+        HttpStatus.BAD_REQUEST,
+      );
     }
 
-    // Filtros optimizados con B-tree indexes (~1-2ms)
-    if (tenantId) {
-      queryBuilder.andWhere("stop.metadata->>'tenant_id' = :tenantId", {
-        tenantId,
-      });
+    return {
+      sort,
+      order,
+      after: query.cursor
+        ? decodeReportCursor(query.cursor, sort, order)
+        : undefined,
+    };
+  }
+
+  /**
+   * Filtros de la query de trips/stops/speeding/combustible para el repositorio
+   */
+  private getReportQuery(
+    query: QueryReportsDto,
+    deviceIds: string[] | undefined,
+  ): IReportQuery {
+    return {
+      deviceIds,
+      from: new Date(query.from),
+      to: new Date(query.to),
+      tenantId: query.tenantId,
+      clientId: query.clientId,
+      fleetId: query.fleetId,
+      metadata: query.metadata,
+      geofenceIds: query.geofenceId,
+      geofenceCategory: query.geofenceCategory,
+      driverIds: query.driverId,
+      fuelEventType: query.type,
+    };
+  }
+
+  /**
+   * Dispositivos a consultar: deviceId más los dispositivos de los grupos de groupId
+   * (incluyendo subgrupos).
+   *
+   * @returns undefined si no se filtró por dispositivo ni grupo (todos los dispositivos);
+   *   un array vacío si los grupos no tienen dispositivos (el reporte sale vacío)
+   */
+  private async resolveDeviceIds(
+    query: QueryReportsDto,
+  ): Promise<string[] | undefined> {
+    const { deviceId, groupId } = query;
+
+    if (!groupId || groupId.length === 0) {
+      return deviceId;
     }
 
-    if (clientId) {
-      queryBuilder.andWhere("stop.metadata->>'client_id' = :clientId", {
-        clientId,
-      });
+    const groupDeviceIds =
+      await this.deviceGroupRepository.findDeviceIdsByGroups(
+        groupId.map(Number),
+      );
+
+    this.logger.debug(
+      `groupId=${groupId.join(',')} expanded to ${groupDeviceIds.length} devices`,
+    );
+
+    return [...new Set([...(deviceId ?? []), ...groupDeviceIds])];
+  }
+
+  /**
+   * Combina los agregados de trips, stops y ralentí en una fila por dispositivo (y
+   * día). Un dispositivo que solo tuvo stops o ralentí en el período también aparece.
+   */
+  private mergeSummaryRows(
+    tripRows: ITripSummaryRow[],
+    stopRows: IStopSummaryRow[],
+    idleRows: IIdleSummaryRow[],
+    daily: boolean,
+  ): SummaryResponseDto[] {
+    const summaries = new Map<string, SummaryResponseDto>();
+
+    const getOrCreate = (deviceId: string, day: string | null) => {
+      const key = `${deviceId}|${day ?? ''}`;
+      let summary = summaries.get(key);
+
+      if (!summary) {
+        summary = {
+          deviceId,
+          deviceName: undefined,
+          date: daily ? (day ?? undefined) : undefined,
+          distance: 0,
+          averageSpeed: 0,
+          maxSpeed: 0,
+          spentFuel: undefined,
+          drivingTime: 0,
+          idleTime: 0,
+          tripCount: 0,
+          stopCount: 0,
+        };
+        summaries.set(key, summary);
+      }
+
+      return summary;
+    };
+
+    for (const row of tripRows) {
+      const summary = getOrCreate(row.device_id, row.day);
+      summary.tripCount = Number(row.trip_count);
+      summary.distance = Math.round(Number(row.distance ?? 0));
+      summary.drivingTime = Math.round(Number(row.driving_time ?? 0));
+      summary.maxSpeed = Number(row.max_speed ?? 0);
+      // SUM ignora los trips sin sensor: null si ninguno tiene consumo
+      summary.spentFuel =
+        row.spent_fuel != null
+          ? Math.round(Number(row.spent_fuel) * 10) / 10
+          : undefined;
+      // Promedio ponderado: distancia total / tiempo total (m/s → km/h)
+      summary.averageSpeed =
+        summary.drivingTime > 0
+          ? Math.round((summary.distance / summary.drivingTime) * 3.6 * 10) / 10
+          : 0;
+      summary.startTime = row.start_time
+        ? new Date(row.start_time).toISOString()
+        : undefined;
+      summary.endTime = row.end_time
+        ? new Date(row.end_time).toISOString()
+        : undefined;
     }
 
-    if (fleetId) {
-      queryBuilder.andWhere("stop.metadata->>'fleet_id' = :fleetId", {
-        fleetId,
-      });
+    for (const row of stopRows) {
+      const summary = getOrCreate(row.device_id, row.day);
+      summary.stopCount = Number(row.stop_count);
+      summary.startOdometer =
+        row.start_odometer != null ? Number(row.start_odometer) : undefined;
+      summary.endOdometer =
+        row.end_odometer != null ? Number(row.end_odometer) : undefined;
+      summary.startEngineHours =
+        row.start_engine_hours != null
+          ? Number(row.start_engine_hours)
+          : undefined;
+      summary.endEngineHours =
+        row.end_engine_hours != null ? Number(row.end_engine_hours) : undefined;
+      summary.engineHours = this.engineHoursBetween(
+        summary.startEngineHours,
+        summary.endEngineHours,
+      );
     }
 
-    // Filtro genérico JSONB con GIN index (~5-10ms)
-    if (metadata && Object.keys(metadata).length > 0) {
-      queryBuilder.andWhere('stop.metadata @> :metadata', {
-        metadata: JSON.stringify(metadata),
-      });
+    for (const row of idleRows) {
+      const summary = getOrCreate(row.device_id, row.day);
+      summary.idleTime = Math.round(Number(row.idle_time ?? 0));
     }
 
-    queryBuilder.orderBy('stop.start_time', 'DESC');
+    return [...summaries.values()].sort(
+      (a, b) =>
+        a.deviceId.localeCompare(b.deviceId) ||
+        (a.date ?? '').localeCompare(b.date ?? ''),
+    );
+  }
 
-    return await queryBuilder.getMany();
+  /**
+   * Nombres de los conductores de las filas (los que están dados de alta en /drivers)
+   */
+  private async findDriverNames(
+    rows: Array<{ driver_id: string | null }>,
+  ): Promise<Map<string, string>> {
+    const uniqueIds = [
+      ...new Set(
+        rows.map((row) => row.driver_id).filter((id): id is string => !!id),
+      ),
+    ];
+    const drivers = await this.driverRepository.findByUniqueIds(uniqueIds);
+
+    return new Map(drivers.map((driver) => [driver.unique_id, driver.name]));
   }
 
   /**
    * Mapear entidades Trip a DTOs
    */
-  private mapTripsToDto(trips: Trip[]): TripResponseDto[] {
+  private mapTripsToDto(
+    trips: Trip[],
+    driverNames: Map<string, string>,
+  ): TripResponseDto[] {
     return trips.map((trip) => ({
       deviceId: trip.id_activo,
       deviceName: undefined, // TODO: join con activos si se necesita
       maxSpeed: trip.max_speed,
       averageSpeed: trip.avg_speed,
       distance: trip.distance,
-      spentFuel: undefined, // TODO: calcular si hay sensores
+      spentFuel: trip.spent_fuel ?? undefined,
       duration: trip.duration,
       startTime: trip.start_time.toISOString(),
       startAddress: trip.start_address ?? undefined,
+      startGeofenceId: trip.start_geofence_id ?? undefined,
       startLat: trip.start_lat,
       startLon: trip.start_lon,
       endTime: trip.end_time?.toISOString() || trip.start_time.toISOString(),
       endAddress: trip.end_address ?? undefined,
+      endGeofenceId: trip.end_geofence_id ?? undefined,
       endLat: trip.end_lat || trip.start_lat,
       endLon: trip.end_lon || trip.start_lon,
-      driverUniqueId: undefined, // TODO: si se necesita
-      driverName: undefined,
+      harshAccelerationCount: trip.harsh_acceleration_count,
+      harshBrakingCount: trip.harsh_braking_count,
+      sharpCorneringCount: trip.sharp_cornering_count,
+      engineHours: this.engineHoursBetween(
+        trip.start_engine_hours,
+        trip.end_engine_hours,
+      ),
+      startEngineHours: trip.start_engine_hours ?? undefined,
+      endEngineHours: trip.end_engine_hours ?? undefined,
+      driverUniqueId: trip.driver_id ?? undefined,
+      driverName: trip.driver_id ? driverNames.get(trip.driver_id) : undefined,
+    }));
+  }
+
+  /**
+   * Horas de motor entre dos lecturas del horómetro (undefined si falta alguna:
+   * trips/stops registrados antes de acumular horas de motor)
+   */
+  private engineHoursBetween(
+    start: number | null | undefined,
+    end: number | null | undefined,
+  ): number | undefined {
+    if (start == null || end == null) return undefined;
+    return Math.round(Math.max(0, end - start) * 100) / 100;
+  }
+
+  /**
+   * Mapear route_points de un trip a DTOs
+   */
+  private mapRoutePointsToDto(trip: Trip): RoutePointResponseDto[] {
+    return (trip.route_points || []).map((point) => ({
+      deviceId: trip.id_activo,
+      tripId: trip.id,
+      latitude: point.lat,
+      longitude: point.lon,
+      speed: point.speed,
+      fixTime: point.timestamp,
     }));
   }
 
@@ -311,7 +1044,11 @@ export class ReportsService {
    * la duración hasta ese límite. Se marca `isActive=true` para que el consumidor distinga una
    * parada en curso de una terminada.
    */
-  private mapStopsToDto(stops: Stop[], toDate: Date): StopResponseDto[] {
+  private mapStopsToDto(
+    stops: Stop[],
+    toDate: Date,
+    driverNames: Map<string, string>,
+  ): StopResponseDto[] {
     const now = new Date();
     return stops.map((stop) => {
       const isActive = stop.is_active || !stop.end_time;
@@ -340,12 +1077,87 @@ export class ReportsService {
         // Dirección geocodificada al crear el stop. El consumidor sólo
         // geocodifica como fallback si viene vacía (datos legacy).
         address: stop.address ?? undefined,
-        engineHours: undefined, // TODO: si se necesita
+        geofenceId: stop.geofence_id ?? undefined,
+        driverUniqueId: stop.driver_id ?? undefined,
+        driverName: stop.driver_id
+          ? driverNames.get(stop.driver_id)
+          : undefined,
+        // Parada en curso: todavía no tiene horómetro final
+        engineHours: isActive
+          ? undefined
+          : this.engineHoursBetween(
+              stop.start_engine_hours,
+              stop.end_engine_hours,
+            ),
         startOdometer: stop.start_odometer ?? undefined,
         endOdometer: stop.end_odometer ?? undefined,
+        startEngineHours: stop.start_engine_hours ?? undefined,
+        endEngineHours: stop.end_engine_hours ?? undefined,
         reason: stop.reason,
         isActive,
       };
     });
   }
+
+  /**
+   * Mapear entidades SpeedingEvent a DTOs
+   */
+  private mapSpeedingToDto(events: SpeedingEvent[]): SpeedingResponseDto[] {
+    return events.map((event) => ({
+      id: event.id,
+      deviceId: event.id_activo,
+      tripId: event.trip_id,
+      startTime: event.start_time.toISOString(),
+      endTime: event.end_time.toISOString(),
+      duration: event.duration,
+      distance: event.distance,
+      maxSpeed: event.max_speed,
+      speedLimit: event.speed_limit,
+      geofenceId: event.geofence_id ?? undefined,
+      startLat: event.start_lat,
+      startLon: event.start_lon,
+      endLat: event.end_lat,
+      endLon: event.end_lon,
+    }));
+  }
+
+  /**
+   * Mapear entidades FuelEvent a DTOs
+   */
+  private mapFuelToDto(events: FuelEvent[]): FuelResponseDto[] {
+    return events.map((event) => ({
+      id: event.id,
+      deviceId: event.id_activo,
+      type: event.type,
+      startTime: event.start_time.toISOString(),
+      endTime: event.end_time.toISOString(),
+      duration: event.duration,
+      amount: event.amount,
+      levelBefore: event.level_before,
+      levelAfter: event.level_after,
+      latitude: event.latitude,
+      longitude: event.longitude,
+      tripId: event.trip_id ?? undefined,
+      stopId: event.stop_id ?? undefined,
+    }));
+  }
+
+  /**
+   * Mapear entidades IdleEvent a DTOs
+   */
+  private mapIdlingToDto(events: IdleEvent[]): IdlingResponseDto[] {
+    return events.map((event) => ({
+      id: event.id,
+      deviceId: event.id_activo,
+      startTime: event.start_time.toISOString(),
+      endTime: event.end_time.toISOString(),
+      duration: event.duration,
+      latitude: event.latitude,
+      longitude: event.longitude,
+      address: event.address ?? undefined,
+      geofenceId: event.geofence_id ?? undefined,
+      tripId: event.trip_id ?? undefined,
+      stopId: event.stop_id ?? undefined,
+    }));
+  }
 }
@@ -0,0 +1,115 @@
+import { formatTripExport } from './trip-export.formatter';
+import { Trip } from '../database/entities/trip.entity';
+import { Stop } from '../database/entities/stop.entity';
+
+const trip = {
+  id: 'trip_T1_1',
+  id_activo: 'T1',
+  start_time: new Date('2025-01-10T12:00:00Z'),
+  end_time: new Date('2025-01-10T12:30:00Z'),
+  distance: 12345.6,
+  duration: 1800,
+  max_speed: 88,
+  avg_speed: 24.7,
+  stop_count: 1,
+  quality_flag: 'valid',
+  detection_method: 'ignition',
+  start_lat: -34.6,
+  start_lon: -58.4,
+  start_address: 'Av. Corrientes 1234',
+  end_lat: -34.7,
+  end_lon: -58.5,
+  end_address: 'Calle <Falsa> & 123',
+  route_points: [
+    {
+      lat: -34.65,
+      lon: -58.45,
+      timestamp: '2025-01-10T12:15:00.000Z',
+      speed: 40,
+    },
+    { lat: -34.6, lon: -58.4, timestamp: '2025-01-10T12:00:00.000Z', speed: 0 },
+  ],
+} as unknown as Trip;
+
+const stop = {
+  id: 'stop_T1_1',
+  trip_id: 'trip_T1_1',
+  id_activo: 'T1',
+  start_time: new Date('2025-01-10T12:10:00Z'),
+  end_time: new Date('2025-01-10T12:14:00Z'),
+  duration: 240,
+  latitude: -34.62,
+  longitude: -58.42,
+  address: 'Depósito Norte',
+  reason: 'no_movement',
+} as unknown as Stop;
+
+describe('formatTripExport', () => {
+  it('builds a GPX track sorted by time with start/end and stop waypoints', () => {
+    const file = formatTripExport('gpx', 'trip-trip_T1_1', [trip], [stop]);
+
+    expect(file.filename).toBe('trip-trip_T1_1.gpx');
+    expect(file.contentType).toBe('application/gpx+xml');
+
+    const trkpts = [...file.body.matchAll(/<trkpt lat="([^"]+)"/g)].map(
+      (match) => match[1],
+    );
+    expect(trkpts).toEqual(['-34.6', '-34.65']);
+
+    expect(file.body).toContain('<type>trip_start</type>');
+    expect(file.body).toContain('<type>trip_end</type>');
+    expect(file.body).toContain(
+      '<desc>Depósito Norte | Reason: no_movement | Duration: 4m 00s</desc>',
+    );
+    expect(file.body).toContain('Distance: 12.35 km');
+    expect(file.body).toContain('Quality: valid');
+    // Los textos se escapan
+    expect(file.body).toContain('Calle &lt;Falsa&gt; &amp; 123');
+  });
+
+  it('builds a KML document with the track line and trip stats as extended data', () => {
+    const file = formatTripExport('kml', 'trip-trip_T1_1', [trip], [stop]);
+
+    expect(file.contentType).toBe('application/vnd.google-earth.kml+xml');
+    expect(file.body).toContain(
+      '<coordinates>-58.4,-34.6,0 -58.45,-34.65,0</coordinates>',
+    );
+    expect(file.body).toContain(
+      '<Data name="maxSpeed"><value>88</value></Data>',
+    );
+    expect(file.body).toContain(
+      '<Data name="qualityFlag"><value>valid</value></Data>',
+    );
+    expect(file.body).toContain('<name>Stops</name>');
+  });
+
+  it('builds a GeoJSON FeatureCollection and falls back to start → end without route points', () => {
+    const file = formatTripExport(
+      'geojson',
+      'trips-T1',
+      [{ ...trip, route_points: [] } as Trip],
+      [stop],
+    );
+    const collection = JSON.parse(file.body);
+
+    expect(
+      collection.features.map((feature: any) => feature.properties.kind),
+    ).toEqual(['trip', 'trip_start', 'trip_end', 'stop']);
+
+    const [track, , , stopFeature] = collection.features;
+    expect(track.geometry.coordinates).toEqual([
+      [-58.4, -34.6],
+      [-58.5, -34.7],
+    ]);
+    expect(track.properties).toMatchObject({
+      distance: 12346,
+      maxSpeed: 88,
+      qualityFlag: 'valid',
+    });
+    expect(stopFeature.properties).toMatchObject({
+      address: 'Depósito Norte',
+      reason: 'no_movement',
+      duration: 240,
+    });
+  });
+});
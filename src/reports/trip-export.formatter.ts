@@ -0,0 +1,425 @@
+import { Trip } from '../database/entities/trip.entity';
+import { Stop } from '../database/entities/stop.entity';
+
+export const TRIP_EXPORT_FORMATS = ['gpx', 'kml', 'geojson'] as const;
+
+export type TripExportFormat = (typeof TRIP_EXPORT_FORMATS)[number];
+
+/**
+ * Archivo generado por la exportación
+ */
+export interface ITripExportFile {
+  filename: string;
+  contentType: string;
+  body: string;
+}
+
+const CONTENT_TYPES: Record<TripExportFormat, string> = {
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+  geojson: 'application/geo+json',
+};
+
+interface ITrackPoint {
+  lat: number;
+  lon: number;
+  timestamp: string;
+  speed: number;
+}
+
+/**
+ * Genera el archivo de uno o más trips con sus stops
+ *
+ * Cada trip aporta su recorrido (route_points; si no tiene, la línea inicio → fin),
+ * sus puntos de inicio y fin y sus estadísticas. Los stops van como waypoints.
+ *
+ * @param name Nombre del documento y del archivo (sin extensión)
+ */
+export const formatTripExport = (
+  format: TripExportFormat,
+  name: string,
+  trips: Trip[],
+  stops: Stop[],
+): ITripExportFile => {
+  const body =
+    format === 'gpx'
+      ? toGpx(name, trips, stops)
+      : format === 'kml'
+        ? toKml(name, trips, stops)
+        : toGeoJson(trips, stops);
+
+  return {
+    filename: `${name.replace(/[^\w.-]+/g, '_')}.${format}`,
+    contentType: CONTENT_TYPES[format],
+    body,
+  };
+};
+
+// ========== GPX 1.1 ==========
+
+const toGpx = (name: string, trips: Trip[], stops: Stop[]): string => {
+  const waypoints: string[] = [];
+  const tracks: string[] = [];
+
+  for (const trip of trips) {
+    waypoints.push(
+      gpxWaypoint(
+        trip.start_lat,
+        trip.start_lon,
+        trip.start_time,
+        `Start ${trip.id}`,
+        trip.start_address,
+        'trip_start',
+      ),
+    );
+
+    if (trip.end_lat != null && trip.end_lon != null && trip.end_time) {
+      waypoints.push(
+        gpxWaypoint(
+          trip.end_lat,
+          trip.end_lon,
+          trip.end_time,
+          `End ${trip.id}`,
+          trip.end_address,
+          'trip_end',
+        ),
+      );
+    }
+
+    const points = trackPoints(trip)
+      .map(
+        (point) =>
+          `      <trkpt lat="${point.lat}" lon="${point.lon}"><time>${point.timestamp}</time></trkpt>`,
+      )
+      .join('\n');
+
+    tracks.push(
+      [
+        '  <trk>',
+        `    <name>${xml(trip.id)}</name>`,
+        `    <desc>${xml(tripDescription(trip))}</desc>`,
+        `    <type>${xml(trip.detection_method)}</type>`,
+        '    <trkseg>',
+        points,
+        '    </trkseg>',
+        '  </trk>',
+      ].join('\n'),
+    );
+  }
+
+  stops.forEach((stop, index) => {
+    waypoints.push(
+      gpxWaypoint(
+        stop.latitude,
+        stop.longitude,
+        stop.start_time,
+        `Stop ${index + 1}`,
+        stopDescription(stop),
+        'stop',
+      ),
+    );
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Tripero" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata><name>${xml(name)}</name><time>${new Date().toISOString()}</time></metadata>`,
+    ...waypoints,
+    ...tracks,
+    '</gpx>',
+    '',
+  ].join('\n');
+};
+
+const gpxWaypoint = (
+  lat: number,
+  lon: number,
+  time: Date,
+  name: string,
+  description: string | null,
+  type: string,
+): string =>
+  `  <wpt lat="${lat}" lon="${lon}"><time>${time.toISOString()}</time>` +
+  `<name>${xml(name)}</name>` +
+  (description ? `<desc>${xml(description)}</desc>` : '') +
+  `<type>${type}</type></wpt>`;
+
+// ========== KML 2.2 ==========
+
+const toKml = (name: string, trips: Trip[], stops: Stop[]): string => {
+  const folders = trips.map((trip) => {
+    const coordinates = trackPoints(trip)
+      .map((point) => `${point.lon},${point.lat},0`)
+      .join(' ');
+
+    const placemarks = [
+      [
+        '      <Placemark>',
+        `        <name>${xml(trip.id)}</name>`,
+        `        <description>${xml(tripDescription(trip))}</description>`,
+        '        <styleUrl>#track</styleUrl>',
+        kmlExtendedData(tripStats(trip)),
+        `        <LineString><tessellate>1</tessellate><coordinates>${coordinates}</coordinates></LineString>`,
+        '      </Placemark>',
+      ].join('\n'),
+      kmlPoint(
+        'Start',
+        trip.start_address,
+        trip.start_lat,
+        trip.start_lon,
+        trip.start_time,
+        '#start',
+      ),
+    ];
+
+    if (trip.end_lat != null && trip.end_lon != null && trip.end_time) {
+      placemarks.push(
+        kmlPoint(
+          'End',
+          trip.end_address,
+          trip.end_lat,
+          trip.end_lon,
+          trip.end_time,
+          '#end',
+        ),
+      );
+    }
+
+    return [
+      '    <Folder>',
+      `      <name>${xml(trip.id)}</name>`,
+      ...placemarks,
+      '    </Folder>',
+    ].join('\n');
+  });
+
+  if (stops.length > 0) {
+    folders.push(
+      [
+        '    <Folder>',
+        '      <name>Stops</name>',
+        ...stops.map((stop, index) =>
+          kmlPoint(
+            `Stop ${index + 1}`,
+            stopDescription(stop),
+            stop.latitude,
+            stop.longitude,
+            stop.start_time,
+            '#stop',
+            stopStats(stop),
+          ),
+        ),
+        '    </Folder>',
+      ].join('\n'),
+    );
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${xml(name)}</name>`,
+    '    <Style id="track"><LineStyle><color>ffff6600</color><width>4</width></LineStyle></Style>',
+    '    <Style id="start"><IconStyle><color>ff00ff00</color></IconStyle></Style>',
+    '    <Style id="end"><IconStyle><color>ff0000ff</color></IconStyle></Style>',
+    '    <Style id="stop"><IconStyle><color>ff00ffff</color></IconStyle></Style>',
+    ...folders,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+};
+
+const kmlPoint = (
+  name: string,
+  description: string | null,
+  lat: number,
+  lon: number,
+  time: Date,
+  style: string,
+  data?: Record<string, string | number | null>,
+): string =>
+  [
+    '      <Placemark>',
+    `        <name>${xml(name)}</name>`,
+    description ? `        <description>${xml(description)}</description>` : '',
+    `        <TimeStamp><when>${time.toISOString()}</when></TimeStamp>`,
+    `        <styleUrl>${style}</styleUrl>`,
+    data ? kmlExtendedData(data) : '',
+    `        <Point><coordinates>${lon},${lat},0</coordinates></Point>`,
+    '      </Placemark>',
+  ]
+    .filter((line) => line.length > 0)
+    .join('\n');
+
+const kmlExtendedData = (
+  data: Record<string, string | number | null>,
+): string =>
+  '        <ExtendedData>' +
+  Object.entries(data)
+    .filter(([, value]) => value !== null)
+    .map(
+      ([key, value]) =>
+        `<Data name="${key}"><value>${xml(String(value))}</value></Data>`,
+    )
+    .join('') +
+  '</ExtendedData>';
+
+// ========== GeoJSON ==========
+
+const toGeoJson = (trips: Trip[], stops: Stop[]): string => {
+  const features: Record<string, any>[] = [];
+
+  for (const trip of trips) {
+    const points = trackPoints(trip);
+
+    features.push({
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: points.map((point) => [point.lon, point.lat]),
+      },
+      properties: {
+        kind: 'trip',
+        tripId: trip.id,
+        deviceId: trip.id_activo,
+        startTime: trip.start_time.toISOString(),
+        endTime: trip.end_time?.toISOString() ?? null,
+        ...tripStats(trip),
+        timestamps: points.map((point) => point.timestamp),
+      },
+    });
+
+    features.push(
+      pointFeature(trip.start_lat, trip.start_lon, {
+        kind: 'trip_start',
+        tripId: trip.id,
+        time: trip.start_time.toISOString(),
+        address: trip.start_address,
+      }),
+    );
+
+    if (trip.end_lat != null && trip.end_lon != null && trip.end_time) {
+      features.push(
+        pointFeature(trip.end_lat, trip.end_lon, {
+          kind: 'trip_end',
+          tripId: trip.id,
+          time: trip.end_time.toISOString(),
+          address: trip.end_address,
+        }),
+      );
+    }
+  }
+
+  for (const stop of stops) {
+    features.push(
+      pointFeature(stop.latitude, stop.longitude, {
+        kind: 'stop',
+        stopId: stop.id,
+        tripId: stop.trip_id,
+        startTime: stop.start_time.toISOString(),
+        endTime: stop.end_time?.toISOString() ?? null,
+        ...stopStats(stop),
+      }),
+    );
+  }
+
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+};
+
+const pointFeature = (
+  lat: number,
+  lon: number,
+  properties: Record<string, any>,
+): Record<string, any> => ({
+  type: 'Feature',
+  geometry: { type: 'Point', coordinates: [lon, lat] },
+  properties,
+});
+
+// ========== Helpers ==========
+
+/**
+ * Recorrido del trip ordenado por timestamp. Sin route_points: inicio → fin.
+ */
+const trackPoints = (trip: Trip): ITrackPoint[] => {
+  const points = [...(trip.route_points || [])].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+  );
+  if (points.length > 0) return points;
+
+  const fallback: ITrackPoint[] = [
+    {
+      lat: trip.start_lat,
+      lon: trip.start_lon,
+      timestamp: trip.start_time.toISOString(),
+      speed: 0,
+    },
+  ];
+  if (trip.end_lat != null && trip.end_lon != null && trip.end_time) {
+    fallback.push({
+      lat: trip.end_lat,
+      lon: trip.end_lon,
+      timestamp: trip.end_time.toISOString(),
+      speed: 0,
+    });
+  }
+
+  return fallback;
+};
+
+const tripStats = (trip: Trip) => ({
+  distance: Math.round(trip.distance), // metros
+  duration: trip.duration, // segundos
+  maxSpeed: trip.max_speed, // km/h
+  avgSpeed: trip.avg_speed, // km/h
+  stopCount: trip.stop_count,
+  qualityFlag: trip.quality_flag,
+  detectionMethod: trip.detection_method,
+  startAddress: trip.start_address,
+  endAddress: trip.end_address,
+});
+
+const stopStats = (stop: Stop) => ({
+  address: stop.address,
+  reason: stop.reason,
+  duration: stop.duration, // segundos
+});
+
+const tripDescription = (trip: Trip): string =>
+  [
+    `Distance: ${(trip.distance / 1000).toFixed(2)} km`,
+    `Duration: ${formatDuration(trip.duration)}`,
+    `Max speed: ${Math.round(trip.max_speed)} km/h`,
+    `Avg speed: ${Math.round(trip.avg_speed)} km/h`,
+    trip.quality_flag ? `Quality: ${trip.quality_flag}` : null,
+    trip.start_address ? `From: ${trip.start_address}` : null,
+    trip.end_address ? `To: ${trip.end_address}` : null,
+  ]
+    .filter((part) => part !== null)
+    .join(' | ');
+
+const stopDescription = (stop: Stop): string =>
+  [
+    stop.address,
+    `Reason: ${stop.reason}`,
+    `Duration: ${formatDuration(stop.duration)}`,
+  ]
+    .filter((part) => part !== null)
+    .join(' | ');
+
+const formatDuration = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0
+    ? `${hours}h ${String(minutes).padStart(2, '0')}m`
+    : `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+const xml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
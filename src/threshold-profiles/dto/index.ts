@@ -0,0 +1 @@
+export * from './threshold-profile.dto';
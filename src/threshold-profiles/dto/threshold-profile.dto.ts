@@ -0,0 +1,252 @@
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsNumber,
+  IsInt,
+  IsIn,
+  IsObject,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import type { ThresholdProfileScope } from '../../database/entities';
+
+/**
+ * Umbrales de un perfil. Todos opcionales: los que no se definen
+ * toman el valor de DEFAULT_THRESHOLDS.
+ */
+export class ThresholdsDto {
+  /**
+   * Velocidad mínima para considerar "en movimiento" (km/h)
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minMovingSpeed?: number;
+
+  /**
+   * Distancia mínima para considerar un trip válido (metros)
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minTripDistance?: number;
+
+  /**
+   * Duración mínima para considerar un trip válido (segundos)
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minTripDuration?: number;
+
+  /**
+   * Duración mínima de parada para cerrar un trip (segundos)
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minStopDuration?: number;
+
+  /**
+   * Tiempo máximo sin datos para tratar la posición como gap (segundos)
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  maxGapDuration?: number;
+
+  /**
+   * Gap que fuerza cierre de trip sin importar si hay stop activo (segundos)
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  maxOvernightGapDuration?: number;
+
+  /**
+   * Tamaño del buffer de posiciones recientes
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  positionBufferSize?: number;
+
+  /**
+   * Tiempo de inactividad para considerar un trip huérfano (segundos)
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  orphanTripTimeout?: number;
+
+  /**
+   * Duración máxima en IDLE antes de cerrar el trip (segundos)
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  maxIdleDuration?: number;
+
+  /**
+   * Aceleración mínima para una aceleración brusca (m/s²)
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0.1)
+  harshAccelerationThreshold?: number;
+
+  /**
+   * Desaceleración mínima para una frenada brusca (m/s²)
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0.1)
+  harshBrakingThreshold?: number;
+
+  /**
+   * Aceleración lateral mínima para un giro cerrado (m/s²)
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0.1)
+  sharpCorneringThreshold?: number;
+
+  /**
+   * Intervalo máximo entre posiciones para evaluar eventos de manejo (segundos)
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  drivingEventMaxInterval?: number;
+
+  /**
+   * Velocidad mínima para evaluar giros cerrados (km/h)
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  corneringMinSpeed?: number;
+
+  /**
+   * Límite de velocidad (km/h, 0 = sin límite)
+   * Las geocercas con speedLimit lo reemplazan dentro de su área
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  speedLimit?: number;
+
+  /**
+   * Duración mínima por encima del límite para registrar un exceso (segundos)
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  speedingMinDuration?: number;
+
+  /**
+   * Lecturas de nivel de combustible que se combinan con la mediana
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  fuelSmoothingWindow?: number;
+
+  /**
+   * Subida mínima del nivel con el vehículo detenido para registrar una carga (litros)
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  fuelRefuelThreshold?: number;
+
+  /**
+   * Caída mínima del nivel con el vehículo detenido para registrar una caída (litros)
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  fuelDrainThreshold?: number;
+
+  /**
+   * Tiempo máximo en que se produce la carga o caída (segundos)
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  fuelEventMaxDuration?: number;
+
+  /**
+   * Duración mínima en ralentí para registrar un episodio (segundos)
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minIdleDuration?: number;
+}
+
+/**
+ * DTO para crear un perfil de umbrales
+ */
+export class CreateThresholdProfileDto {
+  /**
+   * Nombre único del perfil
+   * Ejemplo: "motos", "camiones", "maquinaria-vial"
+   */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ThresholdsDto)
+  thresholds: ThresholdsDto;
+}
+
+/**
+ * DTO para modificar un perfil de umbrales
+ * `thresholds` reemplaza completo a los umbrales anteriores del perfil
+ */
+export class UpdateThresholdProfileDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ThresholdsDto)
+  thresholds?: ThresholdsDto;
+}
+
+/**
+ * DTO para asignar un perfil a un device, flota o tenant
+ */
+export class AssignThresholdProfileDto {
+  /**
+   * Alcance: 'device' (deviceId), 'fleet' (metadata.fleet_id) o 'tenant' (metadata.tenant_id)
+   */
+  @IsIn(['device', 'fleet', 'tenant'])
+  scope: ThresholdProfileScope;
+
+  /**
+   * deviceId, fleet_id o tenant_id según el alcance
+   */
+  @IsString()
+  @IsNotEmpty()
+  scopeId: string;
+}
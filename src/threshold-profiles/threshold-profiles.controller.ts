@@ -0,0 +1,414 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  ValidationPipe,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { ThresholdProfileService } from '../detection/services';
+import { ThresholdProfileRepository } from '../database/repositories';
+import type { ThresholdProfile } from '../database/entities';
+import {
+  CreateThresholdProfileDto,
+  UpdateThresholdProfileDto,
+  AssignThresholdProfileDto,
+} from './dto';
+
+/**
+ * Controller de perfiles de umbrales de detección
+ *
+ * Endpoints:
+ * - GET /threshold-profiles - Lista de perfiles
+ * - GET /threshold-profiles/resolve/:deviceId - Umbrales efectivos de un device
+ * - GET /threshold-profiles/:id - Perfil con sus asignaciones
+ * - POST /threshold-profiles - Crear perfil
+ * - PATCH /threshold-profiles/:id - Modificar perfil
+ * - DELETE /threshold-profiles/:id - Eliminar perfil (y sus asignaciones)
+ * - POST /threshold-profiles/:id/assignments - Asignar a device/flota/tenant
+ * - DELETE /threshold-profiles/assignments/:scope/:scopeId - Quitar asignación
+ */
+@Controller('threshold-profiles')
+export class ThresholdProfilesController {
+  private readonly logger = new Logger(ThresholdProfilesController.name);
+
+  constructor(
+    private readonly thresholdProfileRepository: ThresholdProfileRepository,
+    private readonly thresholdProfileService: ThresholdProfileService,
+  ) {}
+
+  /**
+   * GET /threshold-profiles
+   */
+  @Get()
+  async listProfiles() {
+    try {
+      const profiles = await this.thresholdProfileRepository.findAll();
+
+      return {
+        success: true,
+        data: profiles.map((profile) => this.mapProfile(profile)),
+      };
+    } catch (error) {
+      this.logger.error('Error listing threshold profiles', error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: 'Error listing threshold profiles',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * GET /threshold-profiles/resolve/:deviceId?tenantId=acme&fleetId=trucks
+   *
+   * Devuelve los umbrales que usa la detección para un device.
+   * tenantId/fleetId simulan la metadata que llega en sus posiciones.
+   */
+  @Get('resolve/:deviceId')
+  resolveThresholds(
+    @Param('deviceId') deviceId: string,
+    @Query('tenantId') tenantId?: string,
+    @Query('fleetId') fleetId?: string,
+  ) {
+    return {
+      success: true,
+      data: {
+        deviceId,
+        thresholds: this.thresholdProfileService.resolveThresholds(deviceId, {
+          tenant_id: tenantId,
+          fleet_id: fleetId,
+        }),
+      },
+    };
+  }
+
+  /**
+   * GET /threshold-profiles/:id
+   */
+  @Get(':id')
+  async getProfile(@Param('id') id: string) {
+    try {
+      const profile = await this.findProfileOrFail(id);
+      const assignments =
+        await this.thresholdProfileRepository.findAssignmentsByProfile(id);
+
+      return {
+        success: true,
+        data: {
+          ...this.mapProfile(profile),
+          assignments: assignments.map((assignment) => ({
+            scope: assignment.scope,
+            scopeId: assignment.scope_id,
+            createdAt: assignment.created_at.toISOString(),
+          })),
+        },
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Error getting threshold profile ${id}`, error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: 'Error getting threshold profile',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * POST /threshold-profiles
+   *
+   * Body:
+   * {
+   *   "name": "camiones",
+   *   "description": "Camiones de reparto",
+   *   "thresholds": { "minStopDuration": 600, "maxIdleDuration": 3600 }
+   * }
+   */
+  @Post()
+  async createProfile(
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: CreateThresholdProfileDto,
+  ) {
+    try {
+      const existing = await this.thresholdProfileRepository.findByName(
+        dto.name,
+      );
+      if (existing) {
+        throw new HttpException(
+          {
+            statusCode: HttpStatus.CONFLICT,
+            message: `Threshold profile '${dto.name}' already exists`,
+            error: 'Conflict',
+          },
+          HttpStatus.CONFLICT,
+        );
+      }
+
+      const profile = await this.thresholdProfileRepository.create({
+        name: dto.name,
+        description: dto.description ?? null,
+        thresholds: { ...dto.thresholds },
+      });
+      await this.thresholdProfileService.reload();
+
+      this.logger.log(`Threshold profile created: ${profile.name}`);
+
+      return {
+        success: true,
+        data: this.mapProfile(profile),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error('Error creating threshold profile', error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error creating threshold profile',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * PATCH /threshold-profiles/:id
+   */
+  @Patch(':id')
+  async updateProfile(
+    @Param('id') id: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: UpdateThresholdProfileDto,
+  ) {
+    try {
+      await this.findProfileOrFail(id);
+
+      if (dto.name) {
+        const existing = await this.thresholdProfileRepository.findByName(
+          dto.name,
+        );
+        if (existing && existing.id !== id) {
+          throw new HttpException(
+            {
+              statusCode: HttpStatus.CONFLICT,
+              message: `Threshold profile '${dto.name}' already exists`,
+              error: 'Conflict',
+            },
+            HttpStatus.CONFLICT,
+          );
+        }
+      }
+
+      const profile = await this.thresholdProfileRepository.update(id, {
+        name: dto.name,
+        description: dto.description,
+        thresholds: dto.thresholds ? { ...dto.thresholds } : undefined,
+      });
+      await this.thresholdProfileService.reload();
+
+      this.logger.log(`Threshold profile updated: ${id}`);
+
+      return {
+        success: true,
+        data: this.mapProfile(profile!),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Error updating threshold profile ${id}`, error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error updating threshold profile',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * DELETE /threshold-profiles/:id
+   *
+   * Los devices/flotas/tenants asignados vuelven a DEFAULT_THRESHOLDS
+   */
+  @Delete(':id')
+  async deleteProfile(@Param('id') id: string) {
+    try {
+      await this.findProfileOrFail(id);
+      await this.thresholdProfileRepository.delete(id);
+      await this.thresholdProfileService.reload();
+
+      this.logger.log(`Threshold profile deleted: ${id}`);
+
+      return {
+        success: true,
+        message: `Threshold profile ${id} deleted`,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Error deleting threshold profile ${id}`, error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error deleting threshold profile',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * POST /threshold-profiles/:id/assignments
+   *
+   * Body:
+   * { "scope": "device", "scopeId": "VEHICLE-001" }
+   * { "scope": "fleet", "scopeId": "delivery-trucks" }
+   * { "scope": "tenant", "scopeId": "acme-corp" }
+   *
+   * Si el device/flota/tenant ya tenía otro perfil, se reemplaza.
+   */
+  @Post(':id/assignments')
+  async assignProfile(
+    @Param('id') id: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: AssignThresholdProfileDto,
+  ) {
+    try {
+      await this.findProfileOrFail(id);
+      await this.thresholdProfileRepository.assign(id, dto.scope, dto.scopeId);
+      await this.thresholdProfileService.reload();
+
+      this.logger.log(
+        `Threshold profile ${id} assigned to ${dto.scope} ${dto.scopeId}`,
+      );
+
+      return {
+        success: true,
+        data: {
+          profileId: id,
+          scope: dto.scope,
+          scopeId: dto.scopeId,
+        },
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Error assigning threshold profile ${id}`, error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error assigning threshold profile',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * DELETE /threshold-profiles/assignments/:scope/:scopeId
+   */
+  @Delete('assignments/:scope/:scopeId')
+  async unassignProfile(
+    @Param(new ValidationPipe({ transform: true }))
+    params: AssignThresholdProfileDto,
+  ) {
+    try {
+      const deleted = await this.thresholdProfileRepository.unassign(
+        params.scope,
+        params.scopeId,
+      );
+
+      if (!deleted) {
+        throw new HttpException(
+          {
+            statusCode: HttpStatus.NOT_FOUND,
+            message: `No threshold profile assigned to ${params.scope} ${params.scopeId}`,
+            error: 'Not Found',
+          },
+          HttpStatus.NOT_FOUND,
+        );
+      }
+
+      await this.thresholdProfileService.reload();
+
+      return {
+        success: true,
+        message: `Threshold profile unassigned from ${params.scope} ${params.scopeId}`,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error('Error unassigning threshold profile', error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error unassigning threshold profile',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  private async findProfileOrFail(id: string): Promise<ThresholdProfile> {
+    const profile = await this.thresholdProfileRepository.findById(id);
+
+    if (!profile) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.NOT_FOUND,
+          message: `Threshold profile ${id} not found`,
+          error: 'Not Found',
+        },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    return profile;
+  }
+
+  private mapProfile(profile: ThresholdProfile) {
+    return {
+      id: profile.id,
+      name: profile.name,
+      description: profile.description,
+      thresholds: profile.thresholds,
+      effectiveThresholds: this.thresholdProfileService.mergeWithDefaults(
+        profile.thresholds,
+      ),
+      createdAt: profile.created_at.toISOString(),
+      updatedAt: profile.updated_at.toISOString(),
+    };
+  }
+}
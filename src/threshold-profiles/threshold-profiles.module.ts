@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { DetectionModule } from '../detection/detection.module';
+import { ThresholdProfilesController } from './threshold-profiles.controller';
+
+/**
+ * Módulo de perfiles de umbrales de detección por device/flota/tenant
+ */
+@Module({
+  imports: [DatabaseModule, DetectionModule],
+  controllers: [ThresholdProfilesController],
+})
+export class ThresholdProfilesModule {}
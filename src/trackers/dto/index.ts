@@ -1 +1,3 @@
 export * from './set-odometer.dto';
+export * from './set-engine-hours.dto';
+export * from './set-odometer-source.dto';
@@ -0,0 +1,25 @@
+import { IsNumber, IsString, IsOptional, Min } from 'class-validator';
+
+/**
+ * DTO para setear el horómetro inicial de un tracker
+ * Permite ajustar las horas de motor acumuladas por ignición para que coincidan
+ * con el horómetro real del vehículo o la máquina
+ */
+export class SetEngineHoursDto {
+  /**
+   * Valor del horómetro inicial en horas
+   * Debe ser >= 0
+   * Ejemplo: 1520.5 = 1520 horas y 30 minutos
+   */
+  @IsNumber()
+  @Min(0, { message: 'initialEngineHours must be greater than or equal to 0' })
+  initialEngineHours: number;
+
+  /**
+   * Razón del ajuste (opcional)
+   * Ejemplos: "hour_meter_sync", "new_machine_registration", "device_replacement"
+   */
+  @IsString()
+  @IsOptional()
+  reason?: string;
+}
@@ -0,0 +1,47 @@
+import {
+  IsIn,
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsNumber,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * DTO para configurar la fuente del odómetro de un tracker
+ */
+export class SetOdometerSourceDto {
+  /**
+   * gps = distancia GPS (default), device = odómetro del equipo (CAN / hardware),
+   * hybrid = odómetro del equipo mientras coincida con la distancia GPS
+   */
+  @IsIn(['gps', 'device', 'hybrid'])
+  source: 'gps' | 'device' | 'hybrid';
+
+  /**
+   * Clave de la metadata de la posición con el odómetro del equipo (opcional)
+   * Sin clave se usa DEVICE_ODOMETER_METADATA_KEYS. Ejemplo: "odometer", "io87"
+   */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  metadataKey?: string;
+
+  /**
+   * Unidad de la lectura (default meters)
+   */
+  @IsOptional()
+  @IsIn(['meters', 'km'])
+  unit?: 'meters' | 'km';
+
+  /**
+   * Valor en el que el contador del equipo vuelve a 0, en la unidad de la lectura
+   * (opcional). Ejemplo: 4294967295 para un contador de 32 bits en metros
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  rollover?: number;
+}
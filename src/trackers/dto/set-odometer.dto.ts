@@ -21,4 +21,12 @@ export class SetOdometerDto {
   @IsString()
   @IsOptional()
   reason?: string;
+
+  /**
+   * Quién hace el ajuste (opcional): usuario o sistema. Queda en el historial
+   * de ajustes (GET /trackers/:trackerId/odometer/history)
+   */
+  @IsString()
+  @IsOptional()
+  actor?: string;
 }
@@ -2,31 +2,51 @@ import {
   Controller,
   Get,
   Post,
+  Put,
+  Delete,
   Body,
   Param,
   Query,
   HttpException,
   HttpStatus,
   Logger,
+  ValidationPipe,
 } from '@nestjs/common';
-import { TrackerStateService } from '../detection/services';
+import {
+  TrackerStateService,
+  PlaceService,
+  OdometerSourceService,
+} from '../detection/services';
+import { OdometerSourceRepository } from '../database/repositories';
+import type { OdometerSource } from '../database/entities';
 import type { IResetOdometer } from '../models';
-import { SetOdometerDto } from './dto';
+import { SetOdometerDto, SetEngineHoursDto, SetOdometerSourceDto } from './dto';
 
 /**
  * Controller para consultar estado de trackers
  *
  * Endpoints:
  * - GET /trackers/:trackerId/status - Estado completo de un tracker
+ * - GET /trackers/:trackerId/places - Lugares frecuentes del tracker
  * - GET /trackers - Lista de trackers
  * - GET /trackers/stats - Estadísticas globales
  * - POST /trackers/:trackerId/odometer/reset - Resetear odómetro
+ * - POST /trackers/:trackerId/odometer - Setear odómetro inicial
+ * - GET /trackers/:trackerId/odometer?at= - Odómetro en una fecha
+ * - GET /trackers/:trackerId/odometer/history - Historial de ajustes del odómetro
+ * - GET/PUT/DELETE /trackers/:trackerId/odometer/source - Fuente del odómetro
+ * - POST /trackers/:trackerId/engine-hours - Setear horómetro inicial
  */
 @Controller('trackers')
 export class TrackersController {
   private readonly logger = new Logger(TrackersController.name);
 
-  constructor(private readonly trackerStateService: TrackerStateService) {}
+  constructor(
+    private readonly trackerStateService: TrackerStateService,
+    private readonly placeService: PlaceService,
+    private readonly odometerSourceRepository: OdometerSourceRepository,
+    private readonly odometerSourceService: OdometerSourceService,
+  ) {}
 
   /**
    * GET /trackers/:trackerId/status
@@ -79,6 +99,39 @@ export class TrackersController {
     }
   }
 
+  /**
+   * GET /trackers/:trackerId/places
+   *
+   * Lugares frecuentes del tracker (base, depósito, pernoctes...), los más
+   * visitados primero. Los calcula periódicamente PlaceClusteringService a partir
+   * de las paradas.
+   */
+  @Get(':trackerId/places')
+  async getTrackerPlaces(@Param('trackerId') trackerId: string) {
+    try {
+      const places = await this.placeService.getPlaces(trackerId);
+
+      return {
+        success: true,
+        data: places,
+        total: places.length,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error getting tracker places for ${trackerId}`,
+        error.stack,
+      );
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: 'Error getting tracker places',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   /**
    * GET /trackers?status=online&hoursAgo=24
    *
@@ -167,7 +220,8 @@ export class TrackersController {
    * Body:
    * {
    *   "newValue": 0,
-   *   "reason": "Tracker reemplazado"
+   *   "reason": "Tracker reemplazado",
+   *   "actor": "ops@empresa.com"   // opcional
    * }
    */
   @Post(':trackerId/odometer/reset')
@@ -244,7 +298,8 @@ export class TrackersController {
    * Body:
    * {
    *   "initialOdometer": 125000,  // metros (125 km)
-   *   "reason": "vehicle_odometer_sync"
+   *   "reason": "vehicle_odometer_sync",
+   *   "actor": "ops@empresa.com"   // opcional
    * }
    */
   @Post(':trackerId/odometer')
@@ -257,6 +312,7 @@ export class TrackersController {
         trackerId,
         setOdometerDto.initialOdometer,
         setOdometerDto.reason,
+        setOdometerDto.actor,
       );
 
       this.logger.log(
@@ -296,4 +352,315 @@ export class TrackersController {
       );
     }
   }
+
+  /**
+   * GET /trackers/:trackerId/odometer/history
+   *
+   * Ajustes manuales del odómetro (resets y seteos), los más recientes primero,
+   * con valores anterior y nuevo, offset, motivo y quién lo hizo
+   */
+  @Get(':trackerId/odometer/history')
+  async getOdometerHistory(@Param('trackerId') trackerId: string) {
+    try {
+      const history =
+        await this.trackerStateService.getOdometerHistory(trackerId);
+
+      return {
+        success: true,
+        data: history,
+        total: history.length,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error getting odometer history for ${trackerId}`,
+        error.stack,
+      );
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: 'Error getting odometer history',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * GET /trackers/:trackerId/odometer/source
+   *
+   * Fuente del odómetro configurada (sin configuración el tracker usa GPS)
+   */
+  @Get(':trackerId/odometer/source')
+  async getOdometerSource(@Param('trackerId') trackerId: string) {
+    try {
+      const source = await this.findOdometerSourceOrFail(trackerId);
+
+      return {
+        success: true,
+        data: this.mapOdometerSource(source),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(
+        `Error getting odometer source for ${trackerId}`,
+        error.stack,
+      );
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: 'Error getting odometer source',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * PUT /trackers/:trackerId/odometer/source
+   *
+   * Configura de dónde sale la distancia acumulada por el odómetro. Se aplica a las
+   * posiciones siguientes; el odómetro acumulado hasta ahora no cambia.
+   *
+   * Body:
+   * { "source": "device", "metadataKey": "odometer", "unit": "meters" }
+   */
+  @Put(':trackerId/odometer/source')
+  async setOdometerSource(
+    @Param('trackerId') trackerId: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: SetOdometerSourceDto,
+  ) {
+    try {
+      const source = await this.odometerSourceRepository.upsert(trackerId, {
+        source: dto.source,
+        metadata_key: dto.metadataKey ?? null,
+        unit: dto.unit ?? 'meters',
+        rollover: dto.rollover ?? null,
+      });
+      await this.odometerSourceService.reload();
+
+      this.logger.log(
+        `Odometer source set for tracker ${trackerId}: ${source.source} ` +
+          `(${source.metadata_key || 'default keys'}, ${source.unit})`,
+      );
+
+      return {
+        success: true,
+        data: this.mapOdometerSource(source),
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error setting odometer source for ${trackerId}`,
+        error.stack,
+      );
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error setting odometer source',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * DELETE /trackers/:trackerId/odometer/source
+   *
+   * Quita la configuración: el tracker vuelve a usar GPS
+   */
+  @Delete(':trackerId/odometer/source')
+  async deleteOdometerSource(@Param('trackerId') trackerId: string) {
+    try {
+      await this.findOdometerSourceOrFail(trackerId);
+      await this.odometerSourceRepository.delete(trackerId);
+      await this.odometerSourceService.reload();
+
+      this.logger.log(`Odometer source deleted for tracker ${trackerId}`);
+
+      return {
+        success: true,
+        message: `Odometer source for ${trackerId} deleted (using gps)`,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(
+        `Error deleting odometer source for ${trackerId}`,
+        error.stack,
+      );
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error deleting odometer source',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * GET /trackers/:trackerId/odometer?at=2024-11-14T10:00:00Z
+   *
+   * Odómetro que mostraba el tracker en una fecha (default: ahora), teniendo en
+   * cuenta los ajustes hechos antes y después de esa fecha
+   */
+  @Get(':trackerId/odometer')
+  async getOdometerAt(
+    @Param('trackerId') trackerId: string,
+    @Query('at') at?: string,
+  ) {
+    try {
+      const time = at ? new Date(at) : new Date();
+      if (isNaN(time.getTime())) {
+        throw new HttpException(
+          {
+            statusCode: HttpStatus.BAD_REQUEST,
+            message: 'at must be a valid ISO 8601 date',
+            error: 'Bad Request',
+          },
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+
+      const odometer = await this.trackerStateService.getOdometerAt(
+        trackerId,
+        time,
+      );
+
+      if (!odometer) {
+        throw new HttpException(
+          {
+            statusCode: HttpStatus.NOT_FOUND,
+            message: `No odometer data for tracker ${trackerId} at ${time.toISOString()}`,
+            error: 'Not Found',
+          },
+          HttpStatus.NOT_FOUND,
+        );
+      }
+
+      return {
+        success: true,
+        data: odometer,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Error getting odometer for ${trackerId}`, error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: 'Error getting odometer',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * POST /trackers/:trackerId/engine-hours
+   *
+   * Setea el horómetro inicial de un tracker para que coincida con el horómetro real
+   * del vehículo o la máquina. Igual que el odómetro, usa un offset que se suma a las
+   * horas de motor acumuladas por ignición
+   *
+   * Body:
+   * {
+   *   "initialEngineHours": 1520.5,  // horas
+   *   "reason": "hour_meter_sync"
+   * }
+   */
+  @Post(':trackerId/engine-hours')
+  async setEngineHours(
+    @Param('trackerId') trackerId: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    setEngineHoursDto: SetEngineHoursDto,
+  ) {
+    try {
+      const result = await this.trackerStateService.setEngineHours(
+        trackerId,
+        setEngineHoursDto.initialEngineHours,
+        setEngineHoursDto.reason,
+      );
+
+      this.logger.log(
+        `Engine hours set for tracker ${trackerId}: ` +
+          `previous=${result.previousEngineHours}h, new=${result.newEngineHours}h, ` +
+          `offset=${result.engineHoursOffset}h. Reason: ${setEngineHoursDto.reason || 'not specified'}`,
+      );
+
+      return {
+        success: true,
+        message: `Engine hours set to ${result.newEngineHours} hours`,
+        data: {
+          trackerId,
+          previousEngineHours: result.previousEngineHours,
+          newEngineHours: result.newEngineHours,
+          engineHoursOffset: result.engineHoursOffset,
+          reason: setEngineHoursDto.reason || 'not specified',
+          updatedAt: new Date().toISOString(),
+        },
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(
+        `Error setting engine hours for ${trackerId}`,
+        error.stack,
+      );
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error setting engine hours',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  private async findOdometerSourceOrFail(
+    trackerId: string,
+  ): Promise<OdometerSource> {
+    const source =
+      await this.odometerSourceRepository.findByDeviceId(trackerId);
+
+    if (!source) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.NOT_FOUND,
+          message: `Odometer source for ${trackerId} not configured (using gps)`,
+          error: 'Not Found',
+        },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    return source;
+  }
+
+  private mapOdometerSource(source: OdometerSource) {
+    return {
+      trackerId: source.device_id,
+      source: source.source,
+      metadataKey: source.metadata_key,
+      unit: source.unit,
+      rollover: source.rollover,
+      createdAt: source.created_at.toISOString(),
+      updatedAt: source.updated_at.toISOString(),
+    };
+  }
 }
@@ -1,9 +1,10 @@
 import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
 import { DetectionModule } from '../detection/detection.module';
 import { TrackersController } from './trackers.controller';
 
 @Module({
-  imports: [DetectionModule],
+  imports: [DatabaseModule, DetectionModule],
   controllers: [TrackersController],
 })
 export class TrackersModule {}
@@ -0,0 +1,137 @@
+import {
+  IsString,
+  IsOptional,
+  IsArray,
+  IsBoolean,
+  IsObject,
+  IsIn,
+  IsInt,
+  IsUrl,
+  IsUUID,
+  MaxLength,
+  MinLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { WEBHOOK_EVENT_TYPES } from '../webhook-dispatcher.service';
+
+const URL_OPTIONS = {
+  protocols: ['http', 'https'],
+  require_protocol: true,
+  require_tld: false, // permite hosts internos (ej: http://crm:8080/hooks)
+};
+
+/**
+ * DTO para crear una suscripción de webhook
+ */
+export class CreateWebhookDto {
+  @IsUrl(URL_OPTIONS)
+  @MaxLength(2048)
+  url: string;
+
+  /**
+   * Tipos de evento; vacío u omitido = todos
+   * Ejemplo: ["trip:completed", "stop:completed"]
+   */
+  @IsOptional()
+  @IsArray()
+  @IsIn(WEBHOOK_EVENT_TYPES, { each: true })
+  eventTypes?: string[];
+
+  /**
+   * Solo eventos con este metadata.tenant_id
+   */
+  @IsOptional()
+  @IsString()
+  tenantId?: string;
+
+  /**
+   * Solo eventos cuyo metadata tiene todos estos pares clave/valor
+   * Ejemplo: { "fleet_id": "delivery-trucks" }
+   */
+  @IsOptional()
+  @IsObject()
+  metadataFilter?: Record<string, any>;
+
+  /**
+   * Clave de la firma HMAC; si se omite se genera una
+   */
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  @MaxLength(255)
+  secret?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+/**
+ * DTO para modificar una suscripción de webhook
+ */
+export class UpdateWebhookDto {
+  @IsOptional()
+  @IsUrl(URL_OPTIONS)
+  @MaxLength(2048)
+  url?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsIn(WEBHOOK_EVENT_TYPES, { each: true })
+  eventTypes?: string[];
+
+  @IsOptional()
+  @IsString()
+  tenantId?: string;
+
+  @IsOptional()
+  @IsObject()
+  metadataFilter?: Record<string, any>;
+
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  @MaxLength(255)
+  secret?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+/**
+ * Query params de GET /webhooks
+ */
+export class QueryWebhooksDto {
+  @IsOptional()
+  @IsString()
+  tenantId?: string;
+}
+
+/**
+ * Query params de GET /webhooks/dead-letters
+ */
+export class QueryDeadLettersDto {
+  @IsOptional()
+  @IsUUID()
+  subscriptionId?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number = 100;
+}
@@ -0,0 +1,169 @@
+import { of, throwError } from 'rxjs';
+import { HttpService } from '@nestjs/axios';
+import {
+  WebhookDeliveryService,
+  signWebhookPayload,
+  webhookRetryDelayMs,
+} from './webhook-delivery.service';
+import {
+  WebhookDispatcherService,
+  matchesWebhookSubscription,
+} from './webhook-dispatcher.service';
+import { WebhookRepository } from '../database/repositories/webhook.repository';
+import { WebhookDelivery, WebhookSubscription } from '../database/entities';
+
+jest.mock('../env', () => ({
+  ...jest.requireActual('../env'),
+  WEBHOOKS_MAX_ATTEMPTS: 3,
+  WEBHOOKS_RETRY_BASE_MS: 1000,
+  WEBHOOKS_RETRY_MAX_MS: 5000,
+}));
+
+const subscription = (data: Partial<WebhookSubscription> = {}) =>
+  ({
+    id: 'sub-1',
+    url: 'https://example.com/hook',
+    event_types: [],
+    tenant_id: null,
+    metadata_filter: null,
+    secret: 'super-secret-key-123',
+    is_active: true,
+    ...data,
+  }) as WebhookSubscription;
+
+describe('matchesWebhookSubscription', () => {
+  const event = {
+    deviceId: 'DEV-1',
+    metadata: { tenant_id: 'acme', fleet_id: 'f1' },
+  };
+
+  it('filtra por tipo de evento (vacío = todos)', () => {
+    expect(
+      matchesWebhookSubscription(subscription(), 'trip:started', event),
+    ).toBe(true);
+    expect(
+      matchesWebhookSubscription(
+        subscription({ event_types: ['trip:completed'] }),
+        'trip:started',
+        event,
+      ),
+    ).toBe(false);
+  });
+
+  it('filtra por tenant y metadata', () => {
+    expect(
+      matchesWebhookSubscription(
+        subscription({
+          tenant_id: 'acme',
+          metadata_filter: { fleet_id: 'f1' },
+        }),
+        'trip:started',
+        event,
+      ),
+    ).toBe(true);
+    expect(
+      matchesWebhookSubscription(
+        subscription({ tenant_id: 'other' }),
+        'trip:started',
+        event,
+      ),
+    ).toBe(false);
+    expect(
+      matchesWebhookSubscription(
+        subscription({ metadata_filter: { fleet_id: 'f2' } }),
+        'trip:started',
+        event,
+      ),
+    ).toBe(false);
+  });
+});
+
+describe('WebhookDeliveryService', () => {
+  let service: WebhookDeliveryService;
+  let repository: Record<string, jest.Mock>;
+  let http: { post: jest.Mock };
+
+  const delivery = (attempts = 0) =>
+    ({
+      id: 'del-1',
+      subscription_id: 'sub-1',
+      event_type: 'trip:completed',
+      payload: { id: 'evt-1', type: 'trip:completed', data: { tripId: 't1' } },
+      attempts,
+      next_attempt_at: new Date(),
+      last_status_code: null,
+      last_error: null,
+      created_at: new Date(),
+    }) as WebhookDelivery;
+
+  const deliver = (item: WebhookDelivery) =>
+    (
+      service as unknown as { deliver: (d: WebhookDelivery) => Promise<void> }
+    ).deliver(item);
+
+  beforeEach(() => {
+    repository = {
+      deleteDelivery: jest.fn().mockResolvedValue(undefined),
+      scheduleRetry: jest.fn().mockResolvedValue(undefined),
+      moveToDeadLetter: jest.fn().mockResolvedValue(undefined),
+      findSubscriptionById: jest.fn().mockResolvedValue(null),
+    };
+    http = { post: jest.fn() };
+    const dispatcher = {
+      getSubscription: (id: string) =>
+        id === 'sub-1' ? subscription() : undefined,
+    };
+
+    service = new WebhookDeliveryService(
+      repository as unknown as WebhookRepository,
+      dispatcher as unknown as WebhookDispatcherService,
+      http as unknown as HttpService,
+    );
+  });
+
+  it('firma el body con HMAC-SHA256 y elimina el envío entregado', async () => {
+    http.post.mockReturnValue(of({ status: 204 }));
+
+    await deliver(delivery());
+
+    const [url, body, config] = http.post.mock.calls[0];
+    const headers = config.headers as Record<string, string>;
+    expect(url).toBe('https://example.com/hook');
+    expect(headers['X-Tripero-Event']).toBe('trip:completed');
+    expect(headers['X-Tripero-Delivery']).toBe('evt-1');
+    expect(headers['X-Tripero-Signature']).toBe(
+      `sha256=${signWebhookPayload('super-secret-key-123', Number(headers['X-Tripero-Timestamp']), body)}`,
+    );
+    expect(repository.deleteDelivery).toHaveBeenCalledWith('del-1');
+  });
+
+  it('reprograma con backoff exponencial si el endpoint falla', async () => {
+    http.post.mockReturnValue(of({ status: 500 }));
+
+    await deliver(delivery(1));
+
+    expect(repository.scheduleRetry).toHaveBeenCalledWith(
+      'del-1',
+      expect.objectContaining({
+        attempts: 2,
+        last_status_code: 500,
+        last_error: 'HTTP 500',
+      }),
+    );
+    expect(webhookRetryDelayMs(1)).toBe(1000);
+    expect(webhookRetryDelayMs(2)).toBe(2000);
+    expect(webhookRetryDelayMs(10)).toBe(5000);
+  });
+
+  it('pasa a dead letters al agotar los intentos', async () => {
+    http.post.mockReturnValue(throwError(() => new Error('ECONNREFUSED')));
+
+    await deliver(delivery(2));
+
+    expect(repository.scheduleRetry).not.toHaveBeenCalled();
+    expect(repository.moveToDeadLetter).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'del-1', attempts: 3 }),
+      { last_status_code: null, last_error: 'ECONNREFUSED' },
+    );
+  });
+});
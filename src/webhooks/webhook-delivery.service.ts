@@ -0,0 +1,243 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { createHmac } from 'crypto';
+import { firstValueFrom } from 'rxjs';
+import { WebhookRepository } from '../database/repositories/webhook.repository';
+import { WebhookDelivery, WebhookSubscription } from '../database/entities';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+import {
+  WEBHOOKS_POLL_MS,
+  WEBHOOKS_BATCH_SIZE,
+  WEBHOOKS_TIMEOUT_MS,
+  WEBHOOKS_MAX_ATTEMPTS,
+  WEBHOOKS_RETRY_BASE_MS,
+  WEBHOOKS_RETRY_MAX_MS,
+} from '../env';
+
+/**
+ * Firma HMAC-SHA256 (hex) de `${timestamp}.${body}` con el secret de la suscripción
+ */
+export const signWebhookPayload = (
+  secret: string,
+  timestamp: number,
+  body: string,
+): string =>
+  createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+/**
+ * Espera antes del próximo intento (backoff exponencial con tope)
+ *
+ * @param attempt Intentos fallidos hasta ahora (>= 1)
+ */
+export const webhookRetryDelayMs = (attempt: number): number =>
+  Math.min(
+    WEBHOOKS_RETRY_BASE_MS * 2 ** Math.max(attempt - 1, 0),
+    WEBHOOKS_RETRY_MAX_MS,
+  );
+
+/**
+ * Servicio que entrega los webhooks encolados en webhook_deliveries
+ *
+ * - Cada WEBHOOKS_POLL_MS toma hasta WEBHOOKS_BATCH_SIZE envíos vencidos (reservados
+ *   con FOR UPDATE SKIP LOCKED, seguro con varias instancias) y los envía en paralelo.
+ * - POST con el payload JSON y los headers X-Tripero-Event, X-Tripero-Delivery,
+ *   X-Tripero-Timestamp y X-Tripero-Signature (sha256=HMAC de "timestamp.body").
+ * - 2xx: se elimina. Otro status o error: se reintenta con backoff exponencial; tras
+ *   WEBHOOKS_MAX_ATTEMPTS intentos pasa a webhook_dead_letters.
+ */
+@Injectable()
+export class WebhookDeliveryService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhookDeliveryService.name);
+  private pollTimeout?: NodeJS.Timeout;
+  private stopped = false;
+  private polling: Promise<void> | null = null;
+
+  // Métricas
+  private deliveredCount = 0;
+  private failedCount = 0;
+  private deadLetterCount = 0;
+
+  constructor(
+    private readonly webhookRepository: WebhookRepository,
+    private readonly dispatcher: WebhookDispatcherService,
+    private readonly http: HttpService,
+  ) {}
+
+  onModuleInit() {
+    this.schedulePoll(WEBHOOKS_POLL_MS);
+  }
+
+  async onModuleDestroy() {
+    this.stopped = true;
+    if (this.pollTimeout) {
+      clearTimeout(this.pollTimeout);
+    }
+    // Terminar los envíos en curso (los no tomados quedan en la tabla)
+    await this.polling;
+  }
+
+  getMetrics() {
+    return {
+      delivered: this.deliveredCount,
+      failed: this.failedCount,
+      deadLettered: this.deadLetterCount,
+    };
+  }
+
+  private schedulePoll(delayMs: number): void {
+    if (this.stopped) return;
+
+    this.pollTimeout = setTimeout(() => {
+      this.polling = this.poll()
+        .catch((error) => {
+          this.logger.error('Error polling webhook deliveries', error.stack);
+          return 0;
+        })
+        .then((claimed) => {
+          this.polling = null;
+          // Lote completo: probablemente haya más vencidos, seguir sin esperar
+          this.schedulePoll(
+            claimed >= WEBHOOKS_BATCH_SIZE ? 0 : WEBHOOKS_POLL_MS,
+          );
+        });
+    }, delayMs);
+  }
+
+  /**
+   * @returns cantidad de envíos tomados
+   */
+  private async poll(): Promise<number> {
+    // Reserva: si la instancia cae a mitad del envío, se reintenta al vencer
+    const leaseUntil = new Date(Date.now() + WEBHOOKS_TIMEOUT_MS + 30000);
+    const deliveries = await this.webhookRepository.claimDueDeliveries(
+      WEBHOOKS_BATCH_SIZE,
+      leaseUntil,
+    );
+
+    await Promise.all(deliveries.map((delivery) => this.deliver(delivery)));
+
+    return deliveries.length;
+  }
+
+  private async deliver(delivery: WebhookDelivery): Promise<void> {
+    try {
+      const subscription = await this.resolveSubscription(delivery);
+      if (!subscription) return;
+
+      const body = JSON.stringify(delivery.payload);
+      const timestamp = Math.floor(Date.now() / 1000);
+
+      let statusCode: number | null = null;
+      let error: string | null = null;
+
+      try {
+        const response = await firstValueFrom(
+          this.http.post(subscription.url, body, {
+            headers: {
+              'Content-Type': 'application/json',
+              'User-Agent': 'Tripero-Webhooks',
+              'X-Tripero-Event': delivery.event_type,
+              'X-Tripero-Delivery': String(delivery.payload.id ?? delivery.id),
+              'X-Tripero-Timestamp': String(timestamp),
+              'X-Tripero-Signature': `sha256=${signWebhookPayload(subscription.secret, timestamp, body)}`,
+            },
+            timeout: WEBHOOKS_TIMEOUT_MS,
+            maxRedirects: 0,
+            validateStatus: () => true,
+          }),
+        );
+
+        statusCode = response.status;
+        if (statusCode >= 200 && statusCode < 300) {
+          await this.webhookRepository.deleteDelivery(delivery.id);
+          this.deliveredCount++;
+          return;
+        }
+
+        error = `HTTP ${statusCode}`;
+      } catch (requestError) {
+        error = (requestError as Error).message;
+      }
+
+      await this.registerFailure(delivery, statusCode, error);
+    } catch (error) {
+      // Error de BD: el envío queda reservado y se reintenta al vencer la reserva
+      this.logger.error(
+        `Error delivering webhook ${delivery.id}`,
+        (error as Error).stack,
+      );
+    }
+  }
+
+  /**
+   * Suscripción del envío. Si se eliminó, se descarta el envío; si está inactiva,
+   * pasa a dead letters (se puede reenviar al reactivarla).
+   */
+  private async resolveSubscription(
+    delivery: WebhookDelivery,
+  ): Promise<WebhookSubscription | null> {
+    const cached = this.dispatcher.getSubscription(delivery.subscription_id);
+    if (cached) return cached;
+
+    // Puede ser nueva (cache todavía sin recargar en esta instancia)
+    const subscription = await this.webhookRepository.findSubscriptionById(
+      delivery.subscription_id,
+    );
+
+    if (!subscription) {
+      await this.webhookRepository.deleteDelivery(delivery.id);
+      return null;
+    }
+
+    if (!subscription.is_active) {
+      await this.webhookRepository.moveToDeadLetter(delivery, {
+        last_status_code: null,
+        last_error: 'subscription inactive',
+      });
+      this.deadLetterCount++;
+      return null;
+    }
+
+    return subscription;
+  }
+
+  private async registerFailure(
+    delivery: WebhookDelivery,
+    statusCode: number | null,
+    error: string | null,
+  ): Promise<void> {
+    this.failedCount++;
+    const attempts = delivery.attempts + 1;
+
+    if (attempts >= WEBHOOKS_MAX_ATTEMPTS) {
+      await this.webhookRepository.moveToDeadLetter(
+        { ...delivery, attempts },
+        { last_status_code: statusCode, last_error: error },
+      );
+      this.deadLetterCount++;
+      this.logger.warn(
+        `Webhook ${delivery.event_type} to subscription ${delivery.subscription_id} ` +
+          `moved to dead letters after ${attempts} attempts: ${error}`,
+      );
+      return;
+    }
+
+    const delayMs = webhookRetryDelayMs(attempts);
+    await this.webhookRepository.scheduleRetry(delivery.id, {
+      attempts,
+      next_attempt_at: new Date(Date.now() + delayMs),
+      last_status_code: statusCode,
+      last_error: error,
+    });
+
+    this.logger.debug(
+      `Webhook ${delivery.id} failed (${attempts}/${WEBHOOKS_MAX_ATTEMPTS}): ${error}. ` +
+        `Retrying in ${Math.round(delayMs / 1000)}s`,
+    );
+  }
+}
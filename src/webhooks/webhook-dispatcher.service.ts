@@ -0,0 +1,242 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  WebhookRepository,
+  ICreateWebhookDeliveryData,
+} from '../database/repositories/webhook.repository';
+import { WebhookSubscription } from '../database/entities';
+import { REDIS_CHANNELS } from '../auxiliares/redis/redis.constants';
+import { WEBHOOKS_REFRESH_MS } from '../env';
+import { PeriodicCache } from '../auxiliares/cache/periodic-cache';
+
+/**
+ * Eventos que se pueden suscribir por webhook (los mismos canales de Redis)
+ */
+export const WEBHOOK_EVENT_TYPES = [
+  REDIS_CHANNELS.TRIP_STARTED,
+  REDIS_CHANNELS.TRIP_COMPLETED,
+  REDIS_CHANNELS.TRIP_DISCARDED,
+  REDIS_CHANNELS.STOP_STARTED,
+  REDIS_CHANNELS.STOP_COMPLETED,
+  REDIS_CHANNELS.TRACKER_STATE_CHANGED,
+  REDIS_CHANNELS.GEOFENCE_ENTERED,
+  REDIS_CHANNELS.GEOFENCE_EXITED,
+  REDIS_CHANNELS.DRIVING_EVENT,
+  REDIS_CHANNELS.SPEEDING_STARTED,
+  REDIS_CHANNELS.SPEEDING_ENDED,
+  REDIS_CHANNELS.FUEL_EVENT,
+  REDIS_CHANNELS.IDLE_STARTED,
+  REDIS_CHANNELS.IDLE_COMPLETED,
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+/**
+ * Cuerpo que recibe el endpoint suscripto
+ */
+export interface IWebhookPayload {
+  id: string; // ID del evento: se mantiene en reintentos y reenvíos (idempotencia)
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, any>;
+}
+
+/**
+ * Indica si un evento corresponde a una suscripción (tipo, tenant y metadata)
+ */
+export const matchesWebhookSubscription = (
+  subscription: WebhookSubscription,
+  eventType: WebhookEventType,
+  event: Record<string, any>,
+): boolean => {
+  if (
+    subscription.event_types.length > 0 &&
+    !subscription.event_types.includes(eventType)
+  ) {
+    return false;
+  }
+
+  const metadata: Record<string, any> = event.metadata ?? {};
+
+  if (subscription.tenant_id && metadata.tenant_id !== subscription.tenant_id) {
+    return false;
+  }
+
+  return Object.entries(subscription.metadata_filter ?? {}).every(
+    ([key, value]) => metadata[key] === value,
+  );
+};
+
+// Envíos en memoria antes de escribirlos en webhook_deliveries
+const FLUSH_INTERVAL_MS = 1000;
+const FLUSH_BATCH_SIZE = 500;
+// Si la BD no responde se conservan a lo sumo estos envíos en memoria
+const MAX_BUFFERED = 10000;
+
+/**
+ * Servicio que encola los eventos para las suscripciones de webhooks
+ *
+ * - Mantiene las suscripciones activas en memoria (se recargan cada WEBHOOKS_REFRESH_MS
+ *   y después de cada cambio hecho vía API).
+ * - dispatch() es sincrónico y no toca la BD: los envíos se acumulan en memoria y se
+ *   insertan en lote en webhook_deliveries. El procesamiento de posiciones nunca
+ *   espera a los webhooks.
+ * - WebhookDeliveryService toma los envíos de la tabla y los entrega.
+ */
+@Injectable()
+export class WebhookDispatcherService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhookDispatcherService.name);
+  private readonly cache = new PeriodicCache(
+    'webhook subscriptions',
+    WEBHOOKS_REFRESH_MS,
+    () => this.load(),
+    this.logger,
+  );
+  private flushInterval?: NodeJS.Timeout;
+  private subscriptions = new Map<string, WebhookSubscription>();
+  private buffer: ICreateWebhookDeliveryData[] = [];
+  private flushing = false;
+
+  // Métricas
+  private dispatchedCount = 0;
+  private droppedCount = 0;
+
+  constructor(private readonly webhookRepository: WebhookRepository) {}
+
+  async onModuleInit() {
+    await this.cache.start();
+
+    this.flushInterval = setInterval(() => {
+      this.flush().catch((error) => {
+        this.logger.error('Error flushing webhook deliveries', error.stack);
+      });
+    }, FLUSH_INTERVAL_MS);
+  }
+
+  async onModuleDestroy() {
+    this.cache.stop();
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+    }
+    await this.flush();
+  }
+
+  /**
+   * Recarga las suscripciones activas desde la BD
+   */
+  reload(): Promise<void> {
+    return this.cache.reload();
+  }
+
+  private async load(): Promise<void> {
+    const subscriptions =
+      await this.webhookRepository.findActiveSubscriptions();
+
+    this.subscriptions = new Map(
+      subscriptions.map((subscription) => [subscription.id, subscription]),
+    );
+
+    this.logger.debug(`Loaded ${subscriptions.length} webhook subscriptions`);
+  }
+
+  /**
+   * Suscripción activa en cache (undefined si no existe, está inactiva o todavía no
+   * se recargó)
+   */
+  getSubscription(id: string): WebhookSubscription | undefined {
+    return this.subscriptions.get(id);
+  }
+
+  /**
+   * Encola el evento para cada suscripción que coincide. Nunca lanza.
+   */
+  dispatch(eventType: WebhookEventType, event: object): void {
+    if (this.subscriptions.size === 0) return;
+
+    try {
+      let payload: IWebhookPayload | null = null;
+
+      for (const subscription of this.subscriptions.values()) {
+        if (
+          !matchesWebhookSubscription(
+            subscription,
+            eventType,
+            event as Record<string, any>,
+          )
+        ) {
+          continue;
+        }
+
+        payload ??= {
+          id: randomUUID(),
+          type: eventType,
+          createdAt: new Date().toISOString(),
+          data: event as Record<string, any>,
+        };
+
+        this.buffer.push({
+          subscription_id: subscription.id,
+          event_type: eventType,
+          payload,
+          next_attempt_at: new Date(),
+        });
+        this.dispatchedCount++;
+      }
+
+      if (this.buffer.length >= FLUSH_BATCH_SIZE) {
+        this.flush().catch((error) => {
+          this.logger.error('Error flushing webhook deliveries', error.stack);
+        });
+      }
+    } catch (error) {
+      this.logger.error(`Error dispatching ${eventType} webhooks`, error.stack);
+    }
+  }
+
+  getMetrics() {
+    return {
+      subscriptions: this.subscriptions.size,
+      buffered: this.buffer.length,
+      dispatched: this.dispatchedCount,
+      dropped: this.droppedCount,
+    };
+  }
+
+  /**
+   * Inserta los envíos acumulados. Si la inserción falla vuelven al buffer
+   * (hasta MAX_BUFFERED) y se reintenta en el próximo flush.
+   */
+  private async flush(): Promise<void> {
+    if (this.flushing || this.buffer.length === 0) return;
+
+    this.flushing = true;
+    const deliveries = this.buffer.splice(0);
+
+    try {
+      await this.webhookRepository.createDeliveries(deliveries);
+    } catch (error) {
+      this.buffer.unshift(...deliveries);
+
+      const overflow = this.buffer.length - MAX_BUFFERED;
+      if (overflow > 0) {
+        this.buffer.splice(0, overflow);
+        this.droppedCount += overflow;
+        this.logger.error(
+          `Dropped ${overflow} webhook deliveries: buffer full`,
+        );
+      }
+
+      this.logger.error(
+        `Error storing ${deliveries.length} webhook deliveries`,
+        error.stack,
+      );
+    } finally {
+      this.flushing = false;
+    }
+  }
+}
@@ -0,0 +1,393 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  ValidationPipe,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { WebhookRepository } from '../database/repositories';
+import type {
+  WebhookSubscription,
+  WebhookDeadLetter,
+} from '../database/entities';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+import {
+  CreateWebhookDto,
+  UpdateWebhookDto,
+  QueryWebhooksDto,
+  QueryDeadLettersDto,
+} from './dto';
+
+/**
+ * Controller de suscripciones de webhooks
+ *
+ * Endpoints:
+ * - GET /webhooks?tenantId= - Lista de suscripciones
+ * - GET /webhooks/dead-letters?subscriptionId=&limit= - Envíos que agotaron los reintentos
+ * - POST /webhooks/dead-letters/:id/redeliver - Reencola un dead letter
+ * - GET /webhooks/:id - Suscripción
+ * - POST /webhooks - Crear suscripción (devuelve el secret una única vez)
+ * - PATCH /webhooks/:id - Modificar suscripción
+ * - DELETE /webhooks/:id - Eliminar suscripción (y sus envíos pendientes)
+ *
+ * El secret nunca se devuelve salvo al crear la suscripción.
+ */
+@Controller('webhooks')
+export class WebhooksController {
+  private readonly logger = new Logger(WebhooksController.name);
+
+  constructor(
+    private readonly webhookRepository: WebhookRepository,
+    private readonly dispatcher: WebhookDispatcherService,
+  ) {}
+
+  /**
+   * GET /webhooks
+   */
+  @Get()
+  async listWebhooks(
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: QueryWebhooksDto,
+  ) {
+    try {
+      const subscriptions = await this.webhookRepository.findAllSubscriptions({
+        tenantId: query.tenantId,
+      });
+
+      return {
+        success: true,
+        data: subscriptions.map((subscription) =>
+          this.mapSubscription(subscription),
+        ),
+      };
+    } catch (error) {
+      this.logger.error('Error listing webhooks', error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: 'Error listing webhooks',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * GET /webhooks/dead-letters
+   */
+  @Get('dead-letters')
+  async listDeadLetters(
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: QueryDeadLettersDto,
+  ) {
+    try {
+      const deadLetters = await this.webhookRepository.findDeadLetters({
+        subscriptionId: query.subscriptionId,
+        limit: query.limit ?? 100,
+      });
+
+      return {
+        success: true,
+        data: deadLetters.map((deadLetter) => this.mapDeadLetter(deadLetter)),
+      };
+    } catch (error) {
+      this.logger.error('Error listing webhook dead letters', error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: 'Error listing webhook dead letters',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * POST /webhooks/dead-letters/:id/redeliver
+   * Vuelve a encolar el envío con los intentos en cero
+   */
+  @Post('dead-letters/:id/redeliver')
+  async redeliver(@Param('id', ParseUUIDPipe) id: string) {
+    try {
+      const deadLetter = await this.webhookRepository.findDeadLetterById(id);
+      if (!deadLetter) {
+        throw new HttpException(
+          {
+            statusCode: HttpStatus.NOT_FOUND,
+            message: `Dead letter ${id} not found`,
+            error: 'Not Found',
+          },
+          HttpStatus.NOT_FOUND,
+        );
+      }
+
+      const subscription = await this.findSubscriptionOrFail(
+        deadLetter.subscription_id,
+      );
+      if (!subscription.is_active) {
+        throw new HttpException(
+          {
+            statusCode: HttpStatus.CONFLICT,
+            message: `Webhook ${subscription.id} is inactive`,
+            error: 'Conflict',
+          },
+          HttpStatus.CONFLICT,
+        );
+      }
+
+      const delivery =
+        await this.webhookRepository.redeliverDeadLetter(deadLetter);
+
+      this.logger.log(
+        `Dead letter ${id} requeued as delivery ${delivery.id} (webhook ${subscription.id})`,
+      );
+
+      return {
+        success: true,
+        data: {
+          deliveryId: delivery.id,
+          subscriptionId: delivery.subscription_id,
+          eventType: delivery.event_type,
+        },
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Error redelivering dead letter ${id}`, error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: 'Error redelivering dead letter',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * GET /webhooks/:id
+   */
+  @Get(':id')
+  async getWebhook(@Param('id', ParseUUIDPipe) id: string) {
+    try {
+      const subscription = await this.findSubscriptionOrFail(id);
+
+      return {
+        success: true,
+        data: this.mapSubscription(subscription),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Error getting webhook ${id}`, error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: 'Error getting webhook',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * POST /webhooks
+   *
+   * Body:
+   * {
+   *   "url": "https://crm.example.com/hooks/tripero",
+   *   "eventTypes": ["trip:completed", "stop:completed"],
+   *   "tenantId": "acme-corp",
+   *   "metadataFilter": { "fleet_id": "delivery-trucks" }
+   * }
+   */
+  @Post()
+  async createWebhook(
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: CreateWebhookDto,
+  ) {
+    try {
+      const subscription = await this.webhookRepository.createSubscription({
+        url: dto.url,
+        event_types: [...new Set(dto.eventTypes ?? [])],
+        tenant_id: dto.tenantId ?? null,
+        metadata_filter: dto.metadataFilter ?? null,
+        secret: dto.secret ?? randomBytes(32).toString('hex'),
+        description: dto.description ?? null,
+        is_active: dto.isActive ?? true,
+      });
+
+      await this.dispatcher.reload();
+
+      this.logger.log(
+        `Webhook created: ${subscription.url} (${subscription.id})`,
+      );
+
+      return {
+        success: true,
+        data: {
+          ...this.mapSubscription(subscription),
+          secret: subscription.secret,
+        },
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error('Error creating webhook', error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error creating webhook',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * PATCH /webhooks/:id
+   */
+  @Patch(':id')
+  async updateWebhook(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: UpdateWebhookDto,
+  ) {
+    try {
+      await this.findSubscriptionOrFail(id);
+
+      const subscription = await this.webhookRepository.updateSubscription(id, {
+        url: dto.url,
+        event_types: dto.eventTypes ? [...new Set(dto.eventTypes)] : undefined,
+        tenant_id: dto.tenantId,
+        metadata_filter: dto.metadataFilter,
+        secret: dto.secret,
+        description: dto.description,
+        is_active: dto.isActive,
+      });
+
+      await this.dispatcher.reload();
+
+      this.logger.log(`Webhook updated: ${id}`);
+
+      return {
+        success: true,
+        data: this.mapSubscription(subscription!),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Error updating webhook ${id}`, error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error updating webhook',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * DELETE /webhooks/:id
+   */
+  @Delete(':id')
+  async deleteWebhook(@Param('id', ParseUUIDPipe) id: string) {
+    try {
+      await this.findSubscriptionOrFail(id);
+      await this.webhookRepository.deleteSubscription(id);
+      await this.dispatcher.reload();
+
+      this.logger.log(`Webhook deleted: ${id}`);
+
+      return {
+        success: true,
+        message: `Webhook ${id} deleted`,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      this.logger.error(`Error deleting webhook ${id}`, error.stack);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Error deleting webhook',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  private async findSubscriptionOrFail(
+    id: string,
+  ): Promise<WebhookSubscription> {
+    const subscription = await this.webhookRepository.findSubscriptionById(id);
+
+    if (!subscription) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.NOT_FOUND,
+          message: `Webhook ${id} not found`,
+          error: 'Not Found',
+        },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    return subscription;
+  }
+
+  private mapSubscription(subscription: WebhookSubscription) {
+    return {
+      id: subscription.id,
+      url: subscription.url,
+      eventTypes: subscription.event_types,
+      tenantId: subscription.tenant_id,
+      metadataFilter: subscription.metadata_filter,
+      description: subscription.description,
+      isActive: subscription.is_active,
+      createdAt: subscription.created_at.toISOString(),
+      updatedAt: subscription.updated_at.toISOString(),
+    };
+  }
+
+  private mapDeadLetter(deadLetter: WebhookDeadLetter) {
+    return {
+      id: deadLetter.id,
+      subscriptionId: deadLetter.subscription_id,
+      eventType: deadLetter.event_type,
+      payload: deadLetter.payload,
+      attempts: deadLetter.attempts,
+      lastStatusCode: deadLetter.last_status_code,
+      lastError: deadLetter.last_error,
+      eventCreatedAt: deadLetter.event_created_at.toISOString(),
+      failedAt: deadLetter.failed_at.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
+import { DatabaseModule } from '../database/database.module';
+import { WebhooksController } from './webhooks.controller';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+
+/**
+ * Módulo de webhooks (suscripciones, cola de envíos firmados y dead letters)
+ *
+ * Exporta WebhookDispatcherService para que EventPublisherService encole los eventos.
+ */
+@Module({
+  imports: [DatabaseModule, HttpModule],
+  controllers: [WebhooksController],
+  providers: [WebhookDispatcherService, WebhookDeliveryService],
+  exports: [WebhookDispatcherService],
+})
+export class WebhooksModule {}